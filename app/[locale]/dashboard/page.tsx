@@ -5,13 +5,16 @@ import { prisma } from "@/lib/db/prisma";
 import { UserDashboardClient } from "@/components/dashboard/UserDashboardClient";
 import { TutorDashboardClient } from "@/components/dashboard/TutorDashboardClient";
 import { BackgroundBlobs } from "@/components/landing/BackgroundBlobs";
-import { Role } from "@prisma/client";
+import { LessonMaterialType, Role } from "@prisma/client";
+import { getUnreadMessageCount } from "@/lib/messaging/conversations";
+import { getUnreadNotificationCount } from "@/lib/notifications/inbox";
+import { OPEN_HOMEWORK_LIMIT } from "@/lib/booking/materials";
 
 /**
  * Dashboard Page
  * 
  * Unified dashboard that adapts based on user role:
- * - Students: See their bookings and learning progress
+ * - Students: See their bookings, open homework and learning progress
  * - Tutors: See their sessions, earnings, and students
  * 
  * - Secure: Requires authentication
@@ -43,6 +46,11 @@ export default async function DashboardPage({
     // Require authentication
     const user = await requireAuth();
 
+    // Unread conversation messages, shown on the Messages button
+    const unreadMessages = await getUnreadMessageCount(prisma, user.id);
+    // Unread in-app notifications, shown on the bell (kept live by the client)
+    const unreadNotifications = await getUnreadNotificationCount(prisma, user.id);
+
     // If user is a tutor, fetch tutor-specific data
     if (user.role === Role.TUTOR) {
       // Fetch tutor profile with error handling for timeout issues
@@ -205,29 +213,39 @@ export default async function DashboardPage({
       const pastBookings = allBookings.filter(
         (booking) => booking.scheduledAt <= now || booking.status === "CANCELLED"
       );
-      const completedBookings = pastBookings.filter(
-        (booking) => booking.status === "COMPLETED"
-      );
 
-      // Calculate earnings breakdown
-      const totalEarnings = completedBookings.reduce(
-        (sum, booking) => sum + booking.price,
-        0
-      );
-
-      // Calculate earnings for this week
+      // Earnings come from the ledger (tutor's share, net of commission and refunds)
       const weekAgo = new Date(now);
       weekAgo.setDate(weekAgo.getDate() - 7);
-      const thisWeekEarnings = completedBookings
-        .filter((booking) => booking.scheduledAt >= weekAgo)
-        .reduce((sum, booking) => sum + booking.price, 0);
-
-      // Calculate earnings for this month
       const monthAgo = new Date(now);
       monthAgo.setMonth(monthAgo.getMonth() - 1);
-      const thisMonthEarnings = completedBookings
-        .filter((booking) => booking.scheduledAt >= monthAgo)
-        .reduce((sum, booking) => sum + booking.price, 0);
+
+      const [earningsTotals, recentEarnings] = await Promise.all([
+        prisma.earningEntry.aggregate({
+          where: { tutorId: tutorProfile.id },
+          _sum: { amount: true },
+        }),
+        prisma.earningEntry.findMany({
+          where: {
+            tutorId: tutorProfile.id,
+            createdAt: { gte: monthAgo },
+          },
+          select: {
+            amount: true,
+            createdAt: true,
+          },
+        }),
+      ]);
+
+      const totalEarnings = earningsTotals._sum.amount || 0;
+
+      // Calculate earnings for this week
+      const thisWeekEarnings = recentEarnings
+        .filter((entry) => entry.createdAt >= weekAgo)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+
+      // Calculate earnings for this month
+      const thisMonthEarnings = recentEarnings.reduce((sum, entry) => sum + entry.amount, 0);
 
       // Get unique students
       const uniqueStudentIds = new Set(allBookings.map((b) => b.studentId));
@@ -271,8 +289,11 @@ export default async function DashboardPage({
             totalEarnings={totalEarnings}
             thisWeekEarnings={thisWeekEarnings}
             thisMonthEarnings={thisMonthEarnings}
+            recentEarnings={recentEarnings}
             totalStudents={totalStudents}
             reviews={reviews}
+            unreadMessages={unreadMessages}
+            unreadNotifications={unreadNotifications}
             availability={('availability' in tutorProfile && Array.isArray(tutorProfile.availability)) ? tutorProfile.availability : [] as any}
           />
         </div>
@@ -285,6 +306,36 @@ export default async function DashboardPage({
         studentId: user.id,
       },
       include: {
+        review: {
+          select: {
+            id: true,
+            rating: true,
+            comment: true,
+            tags: true,
+            createdAt: true,
+          },
+        },
+        series: {
+          select: {
+            id: true,
+            occurrences: true,
+            status: true,
+          },
+        },
+        recordings: {
+          where: {
+            expiresAt: { gt: new Date() },
+          },
+          select: {
+            id: true,
+            durationSeconds: true,
+            expiresAt: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        _count: {
+          select: { materials: true },
+        },
         tutor: {
           include: {
             user: {
@@ -304,6 +355,32 @@ export default async function DashboardPage({
       take: 10,
     });
 
+    // Homework still to do, across all lessons, soonest due first
+    const openHomework = await prisma.lessonMaterial.findMany({
+      where: {
+        type: LessonMaterialType.HOMEWORK,
+        completedAt: null,
+        booking: { studentId: user.id },
+      },
+      include: {
+        booking: {
+          select: {
+            id: true,
+            scheduledAt: true,
+            tutor: {
+              select: {
+                user: {
+                  select: { name: true },
+                },
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ dueAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+      take: OPEN_HOMEWORK_LIMIT,
+    });
+
     // Separate upcoming and past bookings
     const now = new Date();
     const upcomingBookings = bookings.filter(
@@ -321,6 +398,9 @@ export default async function DashboardPage({
           user={user}
           upcomingBookings={upcomingBookings}
           pastBookings={pastBookings}
+          openHomework={openHomework}
+          unreadMessages={unreadMessages}
+          unreadNotifications={unreadNotifications}
         />
       </div>
     );
@@ -0,0 +1,67 @@
+import { getTranslations } from "next-intl/server";
+import { redirect } from "next/navigation";
+import { requireAuth } from "@/lib/auth";
+import { MessagesClient } from "@/components/messages/MessagesClient";
+import { BackgroundBlobs } from "@/components/landing/BackgroundBlobs";
+
+/**
+ * Messages Page
+ *
+ * Conversation inbox for students and tutors:
+ * - Message tutors before booking and follow up afterwards
+ * - File attachments
+ * - Admins see every conversation read-only, for dispute investigation
+ *
+ * - Secure: Requires authentication
+ * - Localized: Full i18n support
+ */
+
+// Mark as dynamic since it uses headers for authentication
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata() {
+  const t = await getTranslations("inbox");
+  return {
+    title: `${t("title")} | Linglix`,
+    description: t("description"),
+  };
+}
+
+export default async function MessagesPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ conversation?: string }>;
+}) {
+  const { locale } = await params;
+  const { conversation } = await searchParams;
+
+  try {
+    // Require authentication
+    const user = await requireAuth();
+
+    return (
+      <div className="relative min-h-screen bg-[#fafafa] dark:bg-[#050505] text-[#111] dark:text-white overflow-x-hidden">
+        <BackgroundBlobs />
+        <MessagesClient
+          locale={locale}
+          user={{ id: user.id, role: user.role }}
+          initialConversationId={conversation || null}
+        />
+      </div>
+    );
+  } catch (error) {
+    // Check if it's an authentication error
+    if (error instanceof Error && error.name === "HttpError") {
+      // Redirect to sign in with locale
+      redirect(`/${locale}/auth/signin`);
+    }
+
+    // For other errors, log and redirect to home with locale
+    if (process.env.NODE_ENV === "development") {
+      console.error("Messages page error:", error);
+    }
+    redirect(`/${locale}`);
+  }
+}
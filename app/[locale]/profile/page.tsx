@@ -4,6 +4,9 @@ import { requireAuth } from "@/lib/auth";
 import { ProfileClient } from "@/components/profile/ProfileClient";
 import { BackgroundBlobs } from "@/components/landing/BackgroundBlobs";
 import { prisma } from "@/lib/db/prisma";
+import { studentLanguagesInclude } from "@/lib/student/languages";
+import { getNotificationPreferences } from "@/lib/notifications/preferences";
+import { getCalendarFeedUrl } from "@/lib/utils/url";
 
 /**
  * Profile Page
@@ -12,6 +15,8 @@ import { prisma } from "@/lib/db/prisma";
  * - Upload and update their profile picture
  * - Edit their account information
  * - Edit student or tutor profile information
+ * - Choose which email notifications they get
+ * - Subscribe to their sessions from a calendar app
  * 
  * - Secure: Requires authentication
  * - Localized: Full i18n support
@@ -44,7 +49,9 @@ export default async function ProfilePage({
     const userWithProfile = await prisma.user.findUnique({
       where: { id: user.id },
       include: {
-        studentProfile: true,
+        studentProfile: {
+          include: studentLanguagesInclude,
+        },
         tutorProfile: true,
       },
     });
@@ -53,6 +60,8 @@ export default async function ProfilePage({
       redirect(`/${locale}/auth/signin`);
     }
 
+    const notificationPreferences = await getNotificationPreferences(prisma, user.id);
+
     // Transform tutorProfile to match expected type
     // languagesKnown is stored as JsonValue in Prisma but needs to be typed array
     const transformedTutorProfile = userWithProfile.tutorProfile
@@ -80,9 +89,18 @@ export default async function ProfilePage({
             email: userWithProfile.email,
             image: userWithProfile.image,
             role: userWithProfile.role,
+            currency: userWithProfile.currency,
+            locale: userWithProfile.locale,
+            timezone: userWithProfile.timezone,
           }}
           studentProfile={userWithProfile.studentProfile}
           tutorProfile={transformedTutorProfile}
+          notificationPreferences={notificationPreferences}
+          calendarFeedUrl={
+            userWithProfile.calendarFeedToken
+              ? getCalendarFeedUrl(userWithProfile.calendarFeedToken)
+              : null
+          }
         />
       </div>
     );
@@ -1,19 +1,31 @@
 /**
  * Video Call Session Page
  * 
- * Production-ready video call page for joining Stream Video sessions.
+ * Production-ready video call page for joining video sessions.
  * - Validates booking access (only student and tutor can join)
  * - Checks booking status and timing
- * - Creates/retrieves Stream call ID
+ * - Creates/retrieves the call with the configured video provider
  * - Provides secure access to video sessions
+ * - Outside the call window, shows the lesson's shared notes, homework, files
+ *   and the tutor's assessment
  */
 
 import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
 import { getTranslations } from "next-intl/server";
 import { requireAuth } from "@/lib/auth";
 import { prisma } from "@/lib/db/prisma";
 import { BookingStatus } from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { getBookingCallId, getVideoProvider } from "@/lib/video";
+import { getBookingRole } from "@/lib/booking/validation";
+import { MATERIAL_BOOKING_STATUSES } from "@/lib/booking/materials";
+import { ASSESSMENT_BOOKING_STATUSES } from "@/lib/progress/assessments";
 import { VideoCallClient } from "@/components/video/VideoCallClient";
+import { LessonMaterials } from "@/components/lessons/LessonMaterials";
+import { SharedNotes } from "@/components/lessons/SharedNotes";
+import { SessionAssessment } from "@/components/lessons/SessionAssessment";
 import { StreamVideoProvider } from "@/components/video/StreamVideoProvider";
 import { StreamChatProvider } from "@/components/chat/StreamChatProvider";
 import { BackgroundBlobs } from "@/components/landing/BackgroundBlobs";
@@ -72,21 +84,11 @@ export default async function VideoCallPage({ params }: VideoCallPageProps) {
     }
 
     // Verify user has access to this booking
-    const isStudent = booking.studentId === user.id;
-    const isTutor = booking.tutor.userId === user.id;
-    const isAdmin = user.role === "ADMIN";
+    const role = getBookingRole(booking, user);
+    const isStudent = role === "student";
+    const isTutor = role === "tutor";
 
-    if (!isStudent && !isTutor && !isAdmin) {
-      redirect(`/${locale}/dashboard`);
-    }
-
-    // Check booking status - only allow joining if booking is confirmed
-    if (booking.status !== BookingStatus.CONFIRMED) {
-      redirect(`/${locale}/dashboard`);
-    }
-
-    // Check if tutor has ended the call - prevent rejoining
-    if (booking.callEndedAt) {
+    if (!role) {
       redirect(`/${locale}/dashboard`);
     }
 
@@ -95,15 +97,73 @@ export default async function VideoCallPage({ params }: VideoCallPageProps) {
     const sessionStart = new Date(booking.scheduledAt);
     const sessionEnd = new Date(sessionStart.getTime() + booking.duration * 60 * 1000);
     const fiveMinutesBefore = new Date(sessionStart.getTime() - 5 * 60 * 1000);
-    
-    // Allow joining 5 minutes before session starts, during the session, but not after
-    if (now < fiveMinutesBefore || now > sessionEnd) {
-      redirect(`/${locale}/dashboard`);
+
+    // Only confirmed bookings can be joined, and not after the tutor has ended the call
+    const canJoin =
+      booking.status === BookingStatus.CONFIRMED &&
+      !booking.callEndedAt &&
+      now >= fiveMinutesBefore &&
+      now <= sessionEnd;
+
+    if (!canJoin) {
+      // Outside the call, the page holds the lesson's materials
+      if (!MATERIAL_BOOKING_STATUSES.includes(booking.status)) {
+        redirect(`/${locale}/dashboard`);
+      }
+
+      const t = await getTranslations("lessons");
+      const tProgress = await getTranslations("progress");
+      const otherName = isStudent
+        ? booking.tutor.user.name || "Tutor"
+        : booking.student.name || "Student";
+      const dateLocale = locale === "es" ? "es-ES" : "en-US";
+
+      return (
+        <div className="relative min-h-screen bg-[#fafafa] dark:bg-[#050505] text-[#111] dark:text-white overflow-x-hidden">
+          <BackgroundBlobs />
+          <div className="relative z-10 max-w-3xl mx-auto px-4 py-10 space-y-6">
+            <div>
+              <Link
+                href={`/${locale}/dashboard`}
+                className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                {t("backToDashboard")}
+              </Link>
+              <h1 className="mt-4 text-3xl font-bold tracking-tight">{t("title")}</h1>
+              <p className="mt-1 text-muted-foreground">
+                {t("sessionWith", {
+                  name: otherName,
+                  date: new Intl.DateTimeFormat(dateLocale, {
+                    dateStyle: "full",
+                    timeStyle: "short",
+                  }).format(sessionStart),
+                })}
+              </p>
+            </div>
+            <div className="rounded-2xl border border-border bg-card/80 backdrop-blur-md p-6 shadow-sm">
+              <LessonMaterials bookingId={booking.id} role={role} locale={locale} />
+            </div>
+            <div className="rounded-2xl border border-border bg-card/80 backdrop-blur-md p-6 shadow-sm space-y-4">
+              <h2 className="text-xl font-semibold">{t("sharedNotes.title")}</h2>
+              <SharedNotes bookingId={booking.id} variant="page" />
+            </div>
+            {ASSESSMENT_BOOKING_STATUSES.includes(booking.status) && (
+              <div className="rounded-2xl border border-border bg-card/80 backdrop-blur-md p-6 shadow-sm space-y-4">
+                <h2 className="text-xl font-semibold">{tProgress("assessment")}</h2>
+                <SessionAssessment bookingId={booking.id} />
+              </div>
+            )}
+          </div>
+        </div>
+      );
     }
 
+    const videoProvider = getVideoProvider();
+
     // Generate or retrieve call ID
     // Format: "booking-{bookingId}" for unique call identification
-    const callId = booking.callId || `booking-${booking.id}`;
+    const callId = booking.callId || getBookingCallId(booking.id);
 
     // Update booking with callId if it doesn't exist
     if (!booking.callId) {
@@ -111,6 +171,22 @@ export default async function VideoCallPage({ params }: VideoCallPageProps) {
         where: { id: booking.id },
         data: { callId },
       });
+
+      // Create the call with both participants as members. Joining also
+      // creates it, so a failure here doesn't block the session.
+      await videoProvider
+        .createCall(callId, {
+          createdById: booking.tutor.userId,
+          memberIds: [booking.studentId, booking.tutor.userId],
+        })
+        .catch((error) => {
+          logger.error("Failed to create video call", {
+            bookingId: booking.id,
+            callId,
+            provider: videoProvider.name,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
     }
 
     // Determine the other participant (for display)
@@ -126,6 +202,29 @@ export default async function VideoCallPage({ params }: VideoCallPageProps) {
           image: booking.student.image,
         };
 
+    const videoCall = (
+      <VideoCallClient
+        provider={videoProvider.name}
+        callId={callId}
+        locale={locale}
+        user={user}
+        otherParticipant={otherParticipant}
+        isTutor={isTutor}
+        role={role}
+        bookingId={bookingId}
+      />
+    );
+
+    // The local loopback provider needs no SDK clients
+    if (videoProvider.name === "local") {
+      return (
+        <div className="relative min-h-screen bg-[#fafafa] dark:bg-[#050505] text-[#111] dark:text-white overflow-hidden">
+          <BackgroundBlobs />
+          {videoCall}
+        </div>
+      );
+    }
+
     return (
       <div className="relative min-h-screen bg-[#fafafa] dark:bg-[#050505] text-[#111] dark:text-white overflow-hidden">
         <BackgroundBlobs />
@@ -139,14 +238,7 @@ export default async function VideoCallPage({ params }: VideoCallPageProps) {
             userName={user.name}
             userImage={user.image}
           >
-            <VideoCallClient
-              callId={callId}
-              locale={locale}
-              user={user}
-              otherParticipant={otherParticipant}
-              isTutor={isTutor}
-              bookingId={bookingId}
-            />
+            {videoCall}
           </StreamChatProvider>
         </StreamVideoProvider>
       </div>
@@ -14,6 +14,9 @@ import { requireRole } from "@/lib/auth";
 import { prisma } from "@/lib/db/prisma";
 import { Role } from "@prisma/client";
 import { slugify } from "@/lib/utils/slug";
+import { getPriceOptions, isTrialEligible } from "@/lib/booking/pricing";
+import { CREDIT_HOURLY_RATE } from "@/lib/booking/credits";
+import { getUserCurrencyQuote } from "@/lib/booking/currency";
 import { BookingClient } from "@/components/booking/BookingClient";
 import { PublicNav } from "@/components/navigation/PublicNav";
 import { auth } from "@/config/auth";
@@ -58,6 +61,7 @@ export default async function BookingPage({ params }: BookingPageProps) {
               dayOfWeek: "asc",
             },
           },
+          priceTiers: true,
         },
       },
     },
@@ -73,6 +77,20 @@ export default async function BookingPage({ params }: BookingPageProps) {
 
   const session = await auth();
 
+  // Prepaid credit balance for paying with credits
+  const student = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { creditMinutes: true },
+  });
+
+  // Prices are shown in the student's currency
+  const currency = await getUserCurrencyQuote(prisma, user.id, locale);
+
+  // Trial lessons are only offered on a student's first booking with the tutor
+  const trialEligible =
+    tutor.tutorProfile.trialPrice !== null &&
+    (await isTrialEligible(prisma, user.id, tutor.tutorProfile.id));
+
   return (
     <>
       <PublicNav locale={locale} session={session} />
@@ -85,6 +103,8 @@ export default async function BookingPage({ params }: BookingPageProps) {
             email: tutor.email,
             image: tutor.image,
             hourlyRate: tutor.tutorProfile.hourlyRate,
+            priceOptions: getPriceOptions(tutor.tutorProfile),
+            trialPrice: trialEligible ? tutor.tutorProfile.trialPrice : null,
             specialties: tutor.tutorProfile.specialties,
             availability: tutor.tutorProfile.availability.map((avail) => ({
               dayOfWeek: avail.dayOfWeek,
@@ -94,6 +114,9 @@ export default async function BookingPage({ params }: BookingPageProps) {
             })),
           }}
           locale={locale}
+          creditMinutes={student?.creditMinutes ?? 0}
+          creditHourlyRate={CREDIT_HOURLY_RATE}
+          currency={currency}
         />
       </div>
     </>
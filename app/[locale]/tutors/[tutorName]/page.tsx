@@ -3,6 +3,9 @@ import { getTranslations } from "next-intl/server";
 import { auth } from "@/config/auth";
 import { prisma } from "@/lib/db/prisma";
 import { slugify } from "@/lib/utils/slug";
+import { getTutorReviews } from "@/lib/booking/reviews";
+import { getPriceOptions } from "@/lib/booking/pricing";
+import { getUserCurrencyQuote } from "@/lib/booking/currency";
 import { TutorDetailClient } from "@/components/tutors/TutorDetailClient";
 import { PublicNav } from "@/components/navigation/PublicNav";
 import { TutorSchema, BreadcrumbSchema } from "@/lib/seo/structured-data";
@@ -150,6 +153,7 @@ export default async function TutorDetailPage({
           dayOfWeek: "asc",
         },
       },
+      priceTiers: true,
     },
   });
 
@@ -175,27 +179,12 @@ export default async function TutorDetailPage({
     notFound();
   }
 
-  // Get reviews for this tutor
-  const reviews = await prisma.review.findMany({
-    where: {
-      tutorId: tutor.tutorProfile.id,
-    },
-    include: {
-      student: {
-        select: {
-          id: true,
-          name: true,
-          image: true,
-        },
-      },
-    },
-    orderBy: {
-      createdAt: "desc",
-    },
-  });
+  // Get the first page of visible reviews (further pages are fetched client-side)
+  const reviews = await getTutorReviews(tutor.tutorProfile.id, {}, prisma);
 
   const tutorData = {
     id: tutor.id,
+    profileId: tutor.tutorProfile.id,
     name: tutor.name!,
     slug: slugify(tutor.name!),
     image: tutor.image,
@@ -204,6 +193,8 @@ export default async function TutorDetailPage({
     specialties: tutor.tutorProfile.specialties,
     rating: tutor.tutorProfile.rating,
     hourlyRate: tutor.tutorProfile.hourlyRate,
+    priceOptions: getPriceOptions(tutor.tutorProfile),
+    trialPrice: tutor.tutorProfile.trialPrice,
     totalSessions: tutor.tutorProfile.totalSessions,
     availability: tutor.tutorProfile.availability.map((avail) => ({
       dayOfWeek: avail.dayOfWeek,
@@ -211,19 +202,11 @@ export default async function TutorDetailPage({
       endTime: avail.endTime,
       timezone: avail.timezone,
     })),
-    reviews: reviews.map((review) => ({
-      id: review.id,
-      rating: review.rating,
-      comment: review.comment,
-      studentId: review.studentId,
-      studentName: review.student.name,
-      studentImage: review.student.image,
-      createdAt: review.createdAt,
-      tags: review.tags,
-    })),
+    reviews,
   };
 
   const session = await auth();
+  const currency = await getUserCurrencyQuote(prisma, session?.user?.id, locale);
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://linglix.com";
   const tutorUrl = `${baseUrl}/${locale}/tutors/${tutorName}`;
 
@@ -236,7 +219,7 @@ export default async function TutorDetailPage({
         bio={tutorData.bio}
         specialties={tutorData.specialties}
         rating={tutorData.rating}
-        reviewCount={tutorData.reviews.length}
+        reviewCount={tutorData.reviews.totalReviews}
         hourlyRate={tutorData.hourlyRate}
         totalSessions={tutorData.totalSessions}
       />
@@ -249,7 +232,12 @@ export default async function TutorDetailPage({
       />
       <PublicNav locale={locale} session={session} />
       <div className="pt-16 sm:pt-20">
-        <TutorDetailClient tutor={tutorData} locale={locale} />
+        <TutorDetailClient
+          tutor={tutorData}
+          locale={locale}
+          currency={currency}
+          canMessage={session?.user?.role === "STUDENT"}
+        />
       </div>
     </>
   );
@@ -4,8 +4,10 @@ import { prisma } from "@/lib/db/prisma";
 import { TutorsListingClient } from "@/components/tutors/TutorsListingClient";
 import { PublicNav } from "@/components/navigation/PublicNav";
 import { slugify } from "@/lib/utils/slug";
+import { getUserCurrencyQuote } from "@/lib/booking/currency";
 import { Prisma } from "@prisma/client";
 import { BreadcrumbSchema } from "@/lib/seo/structured-data";
+import { ALL_LANGUAGES_FILTER, getTutorLanguageFilter } from "@/lib/student/languages";
 
 interface TutorsPageProps {
   params: Promise<{ locale: string }>;
@@ -116,9 +118,25 @@ export default async function TutorsPage({
   const searchParamsResolved = await searchParams;
   const t = await getTranslations("tutor");
 
+  const session = await auth();
+
+  // Students see tutors for their primary language unless they pick another
+  // language or "all languages"
+  const defaultLanguage =
+    session?.user?.id && session.user.role === "STUDENT"
+      ? (
+          await prisma.studentLanguage.findFirst({
+            where: { studentProfile: { userId: session.user.id } },
+            orderBy: { position: "asc" },
+            select: { language: true },
+          })
+        )?.language || ""
+      : "";
+
   // Parse search parameters
   const search = searchParamsResolved.search || "";
-  const language = searchParamsResolved.language || "";
+  const languageParam = searchParamsResolved.language ?? defaultLanguage;
+  const language = languageParam === ALL_LANGUAGES_FILTER ? "" : languageParam;
   const minPrice = searchParamsResolved.minPrice
     ? parseFloat(searchParamsResolved.minPrice)
     : undefined;
@@ -137,11 +155,9 @@ export default async function TutorsPage({
     approvalStatus: "APPROVED", // Only show approved tutors
   };
 
-  // Add language/specialty filter
+  // Add language filter (languages taught or specialties)
   if (language) {
-    tutorProfileConditions.specialties = {
-      has: language,
-    };
+    Object.assign(tutorProfileConditions, getTutorLanguageFilter([language]));
   }
 
   // Add price range filter
@@ -206,6 +222,7 @@ export default async function TutorsPage({
                 specialties: true,
                 rating: true,
                 hourlyRate: true,
+                trialPrice: true,
                 totalSessions: true,
                 bio: true,
               },
@@ -250,12 +267,14 @@ export default async function TutorsPage({
       specialties: tutor.tutorProfile!.specialties,
       rating: tutor.tutorProfile!.rating,
       hourlyRate: tutor.tutorProfile!.hourlyRate,
+      trialPrice: tutor.tutorProfile!.trialPrice,
       totalSessions: tutor.tutorProfile!.totalSessions,
       bio: tutor.tutorProfile!.bio,
     }));
 
   const totalPages = Math.ceil(totalCount / perPage);
-  const session = await auth();
+  // Prices are shown in the visitor's currency
+  const currency = await getUserCurrencyQuote(prisma, session?.user?.id, locale);
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://linglix.com";
   const tutorsUrl = `${baseUrl}/${locale}/tutors`;
 
@@ -272,15 +291,21 @@ export default async function TutorsPage({
         <TutorsListingClient
           tutors={tutorsData}
           locale={locale}
+          currency={currency}
           search={search}
           language={language}
+          defaultLanguage={defaultLanguage}
           minPrice={minPrice}
           maxPrice={maxPrice}
           minRating={minRating}
           currentPage={page}
           totalPages={totalPages}
           totalCount={totalCount}
-          languages={allLanguages}
+          languages={
+            defaultLanguage && !allLanguages.includes(defaultLanguage)
+              ? [...allLanguages, defaultLanguage].sort()
+              : allLanguages
+          }
         />
       </div>
     </>
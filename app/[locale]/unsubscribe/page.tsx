@@ -0,0 +1,43 @@
+import { getTranslations } from "next-intl/server";
+import { UnsubscribeClient } from "@/components/notifications/UnsubscribeClient";
+import { verifyUnsubscribeToken } from "@/lib/notifications/unsubscribe";
+
+/**
+ * Unsubscribe Page
+ *
+ * Opened from the unsubscribe link in an email footer:
+ * - No sign-in needed, the link is signed
+ * - Asks for confirmation so link scanners can't unsubscribe anyone
+ */
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata() {
+  const t = await getTranslations("unsubscribe");
+
+  return {
+    title: `${t("title")} | Linglix`,
+    robots: { index: false },
+  };
+}
+
+export default async function UnsubscribePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { locale } = await params;
+  const { token } = await searchParams;
+  const unsubscribeRequest = token ? verifyUnsubscribeToken(token) : null;
+
+  return (
+    <div className="min-h-screen bg-[#fafafa] dark:bg-[#050505] flex items-center justify-center px-4">
+      <UnsubscribeClient
+        locale={locale}
+        token={unsubscribeRequest ? token! : null}
+        scope={unsubscribeRequest?.scope ?? null}
+      />
+    </div>
+  );
+}
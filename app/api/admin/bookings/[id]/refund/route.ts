@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { Role } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+import { logger } from "@/lib/logger";
+import { adminRefundSchema } from "@/lib/booking/validation";
+import { processRefund } from "@/lib/stripe/refunds";
+import { deliverQueuedEmails, sendPaymentReceiptEmail } from "@/lib/email";
+import { getChargedAmount } from "@/lib/booking/currency";
+
+/**
+ * API Route: Refund Booking
+ *
+ * POST /api/admin/bookings/[id]/refund
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Validates booking exists and was paid by card
+ * - Refunds a custom amount (or the remaining balance) and records the admin
+ * - Sends the student an updated receipt
+ *
+ * Production considerations:
+ * - Proper error handling with Sentry
+ * - Input validation with Zod
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin role
+    const admin = await requireRole(Role.ADMIN);
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = adminRefundSchema.safeParse(body);
+
+    if (!validatedData.success) {
+      throw Errors.BadRequest("Invalid request data");
+    }
+
+    const { amount, reason } = validatedData.data;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        student: {
+          select: {
+            name: true,
+            email: true,
+            locale: true,
+            timezone: true,
+          },
+        },
+        tutor: {
+          include: {
+            user: {
+              select: {
+                name: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!booking.paymentId) {
+      throw Errors.BadRequest("Booking has no card payment to refund");
+    }
+
+    const refundResult = await processRefund(id, reason, {
+      amount,
+      actorId: admin.id,
+      // Queue the updated receipt with the refund record
+      queueEmails: async (tx, refund) => {
+        if (!booking.student.email) {
+          return [];
+        }
+
+        const refunds = await tx.refund.findMany({
+          where: { bookingId: id },
+          select: { amount: true, chargedAmount: true },
+        });
+        const queued = await sendPaymentReceiptEmail(
+          {
+            email: booking.student.email,
+            name: booking.student.name || undefined,
+            amount: getChargedAmount(booking),
+            currency: booking.currency,
+            settlementAmount: booking.price,
+            bookingId: id,
+            tutorName: booking.tutor.user.name || "Tutor",
+            scheduledAt: booking.scheduledAt,
+            // What the student got back in the currency they paid in
+            refundedAmount: refunds.reduce(
+              (sum, refund) => sum + (refund.chargedAmount ?? refund.amount),
+              0
+            ),
+            locale: booking.student.locale,
+            timezone: booking.student.timezone,
+          },
+          {
+            tx,
+            userId: booking.studentId,
+            dedupKey: `refund-receipt:${refund.stripeRefundId ?? refund.id}`,
+          }
+        );
+        return [queued.id];
+      },
+    });
+
+    if (!refundResult.success) {
+      throw Errors.BadRequest(refundResult.error || "Failed to process refund");
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { bookingId: id },
+      orderBy: { createdAt: "asc" },
+    });
+    const totalRefunded = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+
+    logger.info("Booking refunded by admin", {
+      bookingId: id,
+      adminId: admin.id,
+      amount: refundResult.amount,
+      totalRefunded,
+      fullyRefunded: refundResult.fullyRefunded,
+      reason,
+    });
+
+    // Send updated receipt (non-blocking, retried by the outbox worker if it fails)
+    deliverQueuedEmails(prisma, refundResult.emailIds ?? []);
+
+    return NextResponse.json(
+      {
+        message: refundResult.alreadyRefunded
+          ? "Booking was already fully refunded"
+          : "Refund processed successfully",
+        refundAmount: refundResult.amount ?? 0,
+        totalRefunded,
+        fullyRefunded: refundResult.fullyRefunded ?? refundResult.alreadyRefunded ?? false,
+        refunds,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to refund booking");
+  }
+}
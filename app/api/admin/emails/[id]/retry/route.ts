@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { EmailStatus, Role } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+import { logger } from "@/lib/logger";
+import { deliverEmail } from "@/lib/email";
+
+/**
+ * API Route: Retry Failed Email (Admin)
+ *
+ * POST /api/admin/emails/[id]/retry
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Only emails that gave up (FAILED) can be retried
+ * - Resets the attempts and delivers right away; further failures are retried by the worker
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin role
+    const admin = await requireRole(Role.ADMIN);
+
+    const { id } = await params;
+
+    const now = new Date();
+    const reset = await prisma.emailOutbox.updateMany({
+      where: { id, status: EmailStatus.FAILED },
+      data: { status: EmailStatus.PENDING, attempts: 0, nextAttemptAt: now },
+    });
+
+    if (reset.count === 0) {
+      const exists = await prisma.emailOutbox.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      throw exists
+        ? Errors.Conflict("Only failed emails can be retried")
+        : Errors.NotFound("Email not found");
+    }
+
+    const result = await deliverEmail(prisma, id, now);
+
+    logger.info("Email retried by admin", {
+      emailId: id,
+      adminId: admin.id,
+      success: result.success,
+    });
+
+    return NextResponse.json({
+      message: result.success ? "Email sent" : "Email queued for retry",
+      status: result.status,
+      error: result.error,
+    });
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to retry email");
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { EmailStatus, Prisma, Role } from "@prisma/client";
+import { createErrorResponse } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+
+/**
+ * API Route: Email Delivery History (Admin)
+ *
+ * GET /api/admin/emails?email=jane@example.com&status=FAILED&page=1&limit=20
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Lists outbox emails, newest first, filterable by recipient (user id or email) and status
+ * - Email bodies are not returned
+ *
+ * Production considerations:
+ * - Proper error handling with Sentry
+ * - Efficient queries with proper indexes
+ * - Pagination for large datasets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin role
+    await requireRole(Role.ADMIN);
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const email = searchParams.get("email")?.trim().toLowerCase();
+    const status = searchParams.get("status");
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20", 10) || 20, 100); // Max 100 per page
+
+    // Build where clause
+    const where: Prisma.EmailOutboxWhereInput = {};
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    if (email) {
+      // Emails queued before the recipient had an account only match by address
+      where.OR = [{ to: { equals: email, mode: "insensitive" } }, { user: { email } }];
+    }
+
+    if (status && Object.values(EmailStatus).includes(status as EmailStatus)) {
+      where.status = status as EmailStatus;
+    }
+
+    const [emails, totalCount] = await Promise.all([
+      prisma.emailOutbox.findMany({
+        where,
+        select: {
+          id: true,
+          to: true,
+          template: true,
+          subject: true,
+          status: true,
+          attempts: true,
+          lastError: true,
+          nextAttemptAt: true,
+          sentAt: true,
+          createdAt: true,
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.emailOutbox.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      emails,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to fetch emails");
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { Prisma, Role } from "@prisma/client";
+import { createErrorResponse } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+
+/**
+ * API Route: Get Tutor Payouts (Admin)
+ *
+ * GET /api/admin/payouts?status=FAILED&page=1&limit=20
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Lists tutors with payout accounts or unpaid earnings (with hold status)
+ * - Lists payout batches, filterable by status, with pagination
+ *
+ * Production considerations:
+ * - Proper error handling with Sentry
+ * - Efficient queries with proper indexes
+ * - Pagination for large datasets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin role
+    await requireRole(Role.ADMIN);
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20", 10) || 20, 100); // Max 100 per page
+
+    // Build where clause
+    const where: Prisma.PayoutWhereInput = {};
+
+    if (status === "PENDING" || status === "PAID" || status === "FAILED") {
+      where.status = status;
+    }
+
+    const [unpaid, payouts, totalCount] = await Promise.all([
+      prisma.earningEntry.groupBy({
+        by: ["tutorId"],
+        where: { payoutId: null },
+        _sum: { amount: true },
+      }),
+      prisma.payout.findMany({
+        where,
+        include: {
+          tutor: {
+            select: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.payout.count({ where }),
+    ]);
+
+    const unpaidByTutor = new Map(
+      unpaid.map((row) => [row.tutorId, Math.round((row._sum.amount || 0) * 100) / 100])
+    );
+
+    const tutorProfiles = await prisma.tutorProfile.findMany({
+      where: {
+        OR: [
+          { stripeAccountId: { not: null } },
+          { payoutsHeld: true },
+          { id: { in: Array.from(unpaidByTutor.keys()) } },
+        ],
+      },
+      select: {
+        id: true,
+        stripeAccountId: true,
+        payoutsEnabled: true,
+        payoutsHeld: true,
+        payoutHoldReason: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return NextResponse.json({
+      tutors: tutorProfiles.map((tutorProfile) => ({
+        ...tutorProfile,
+        unpaidBalance: unpaidByTutor.get(tutorProfile.id) ?? 0,
+      })),
+      payouts,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to fetch payouts");
+  }
+}
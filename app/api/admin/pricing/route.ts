@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { Role } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+import { logger } from "@/lib/logger";
+import { getPricingBounds, pricingSettingsSchema } from "@/lib/booking/pricing";
+
+/**
+ * API Route: Get Pricing Bounds (Admin)
+ *
+ * GET /api/admin/pricing
+ *
+ * Security:
+ * - Requires ADMIN role
+ */
+export async function GET() {
+  try {
+    // Require admin role
+    await requireRole(Role.ADMIN);
+
+    const bounds = await getPricingBounds(prisma);
+
+    return NextResponse.json({ bounds });
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to fetch pricing bounds");
+  }
+}
+
+/**
+ * API Route: Update Pricing Bounds (Admin)
+ *
+ * PUT /api/admin/pricing
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Bounds apply when tutors next change their pricing; current rates
+ *   outside the new bounds are kept until then
+ *
+ * Production considerations:
+ * - Proper error handling with Sentry
+ * - Input validation with Zod
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Require admin role
+    const admin = await requireRole(Role.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = pricingSettingsSchema.safeParse(body);
+
+    if (!validatedData.success) {
+      throw Errors.BadRequest(validatedData.error.issues[0]?.message || "Invalid request data");
+    }
+
+    const { minHourlyRate, maxHourlyRate } = validatedData.data;
+
+    const settings = await prisma.pricingSettings.upsert({
+      where: { id: "default" },
+      create: { id: "default", minHourlyRate, maxHourlyRate, updatedBy: admin.id },
+      update: { minHourlyRate, maxHourlyRate, updatedBy: admin.id },
+    });
+
+    logger.info("Pricing bounds updated by admin", {
+      adminId: admin.id,
+      minHourlyRate,
+      maxHourlyRate,
+    });
+
+    return NextResponse.json(
+      {
+        message: "Pricing bounds updated successfully",
+        bounds: {
+          minHourlyRate: settings.minHourlyRate,
+          maxHourlyRate: settings.maxHourlyRate,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to update pricing bounds");
+  }
+}
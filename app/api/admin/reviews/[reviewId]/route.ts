@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { Role } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+import { invalidateCache } from "@/lib/cache";
+import { logger } from "@/lib/logger";
+import { moderateReviewSchema, recalculateTutorStats } from "@/lib/booking/reviews";
+
+/**
+ * API Route: Moderate Review
+ *
+ * PATCH /api/admin/reviews/[reviewId]
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Validates review exists
+ * - Hides or restores the review and records who did it
+ * - Recalculates the tutor's rating (hidden reviews don't count)
+ *
+ * Production considerations:
+ * - Proper error handling with Sentry
+ * - Input validation with Zod
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  try {
+    // Require admin role
+    const admin = await requireRole(Role.ADMIN);
+
+    const { reviewId } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = moderateReviewSchema.safeParse(body);
+
+    if (!validatedData.success) {
+      throw Errors.BadRequest("Invalid request data");
+    }
+
+    const { hidden, reason } = validatedData.data;
+
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review) {
+      return NextResponse.json(
+        { error: "Review not found" },
+        { status: 404 }
+      );
+    }
+
+    const updatedReview = await prisma.review.update({
+      where: { id: reviewId },
+      data: hidden
+        ? {
+            isHidden: true,
+            hiddenReason: reason || null,
+            hiddenBy: admin.id,
+            hiddenAt: new Date(),
+          }
+        : {
+            isHidden: false,
+            hiddenReason: null,
+            hiddenBy: null,
+            hiddenAt: null,
+          },
+    });
+
+    if (review.isHidden !== hidden) {
+      await recalculateTutorStats(review.tutorId, prisma);
+
+      // Ratings are shown on featured tutor cards (non-blocking)
+      invalidateCache("FEATURED_TUTORS").catch(() => {
+        // Ignore cache invalidation errors
+      });
+    }
+
+    logger.info(hidden ? "Review hidden by admin" : "Review restored by admin", {
+      reviewId,
+      tutorId: review.tutorId,
+      adminId: admin.id,
+      reason,
+    });
+
+    return NextResponse.json(
+      {
+        message: hidden ? "Review hidden successfully" : "Review restored successfully",
+        review: updatedReview,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to moderate review");
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { Prisma, Role } from "@prisma/client";
+import { createErrorResponse } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+
+/**
+ * API Route: Get All Reviews (Admin)
+ *
+ * GET /api/admin/reviews?hidden=true&tutorId=...&maxRating=2&page=1&limit=20
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Supports filtering by visibility, tutor and rating
+ * - Pagination support
+ *
+ * Production considerations:
+ * - Proper error handling with Sentry
+ * - Efficient queries with proper indexes
+ * - Pagination for large datasets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin role
+    await requireRole(Role.ADMIN);
+
+    const { searchParams } = new URL(request.url);
+    const hidden = searchParams.get("hidden");
+    const tutorId = searchParams.get("tutorId");
+    const maxRating = searchParams.get("maxRating");
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20", 10) || 20, 100); // Max 100 per page
+
+    // Build where clause
+    const where: Prisma.ReviewWhereInput = {};
+
+    if (hidden === "true" || hidden === "false") {
+      where.isHidden = hidden === "true";
+    }
+
+    if (tutorId) {
+      where.tutorId = tutorId;
+    }
+
+    if (maxRating) {
+      where.rating = { lte: parseInt(maxRating, 10) };
+    }
+
+    // Fetch reviews with pagination
+    const [reviews, totalCount] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        include: {
+          student: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.review.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      reviews,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to fetch reviews");
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
 import { requireRole } from "@/lib/auth";
-import { Role } from "@prisma/client";
+import { NotificationType, Role } from "@prisma/client";
 import { createErrorResponse } from "@/lib/errors";
 import * as Sentry from "@sentry/nextjs";
-import { sendTutorApprovalEmail } from "@/lib/email";
+import { deliverQueuedEmails, sendTutorApprovalEmail } from "@/lib/email";
 import { invalidateCache } from "@/lib/cache";
+import { createNotifications } from "@/lib/notifications/inbox";
 
 /**
  * API Route: Approve Tutor
@@ -59,14 +60,32 @@ export async function POST(
       );
     }
 
-    // Update tutor profile: approve and activate
-    await prisma.tutorProfile.update({
-      where: { userId: tutorId },
-      data: {
-        approvalStatus: "APPROVED",
-        isActive: true,
-        rejectionReason: null, // Clear any previous rejection reason
-      },
+    // Update tutor profile: approve and activate, with the approval email and notification
+    const emailId = await prisma.$transaction(async (tx) => {
+      await tx.tutorProfile.update({
+        where: { userId: tutorId },
+        data: {
+          approvalStatus: "APPROVED",
+          isActive: true,
+          rejectionReason: null, // Clear any previous rejection reason
+        },
+      });
+
+      const queued = await sendTutorApprovalEmail(
+        {
+          email: tutor.email,
+          name: tutor.name || undefined,
+          locale: tutor.locale,
+          approved: true,
+        },
+        { tx, userId: tutorId }
+      );
+
+      await createNotifications(tx, [
+        { userId: tutorId, type: NotificationType.TUTOR_APPROVED },
+      ]);
+
+      return queued.id;
     });
 
     // Invalidate cache for tutors (non-blocking)
@@ -77,19 +96,8 @@ export async function POST(
       // Ignore cache invalidation errors
     });
 
-    // Send approval email (non-blocking)
-    sendTutorApprovalEmail({
-      email: tutor.email,
-      name: tutor.name || undefined,
-      approved: true,
-    }).catch(async (error) => {
-      const { logger } = await import("@/lib/logger");
-      await logger.error("Failed to send approval email", error, {
-        tutorId,
-        email: tutor.email,
-      });
-      // Don't fail the request if email fails
-    });
+    // Send approval email (non-blocking, retried by the outbox worker if it fails)
+    deliverQueuedEmails(prisma, [emailId]);
 
     return NextResponse.json(
       { message: "Tutor approved successfully" },
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireRole } from "@/lib/auth";
+import { Role } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import * as Sentry from "@sentry/nextjs";
+import { logger } from "@/lib/logger";
+import { payoutHoldSchema } from "@/lib/booking/earnings";
+import { processTutorPayout } from "@/lib/stripe/payouts";
+
+/**
+ * API Route: Hold or Release Tutor Payouts
+ *
+ * POST /api/admin/tutors/[tutorId]/payouts
+ *
+ * Security:
+ * - Requires ADMIN role
+ * - Validates tutor exists and has a profile
+ * - Hold: earnings keep accruing but are skipped by payout batches
+ * - Release: clears the hold and pays out cleared earnings right away
+ *
+ * Production considerations:
+ * - Proper error handling with Sentry
+ * - Input validation with Zod
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tutorId: string }> }
+) {
+  try {
+    // Require admin role
+    const admin = await requireRole(Role.ADMIN);
+
+    const { tutorId } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = payoutHoldSchema.safeParse(body);
+
+    if (!validatedData.success) {
+      throw Errors.BadRequest("Invalid request data");
+    }
+
+    const { action, reason } = validatedData.data;
+
+    const tutorProfile = await prisma.tutorProfile.findUnique({
+      where: { userId: tutorId },
+      select: { id: true },
+    });
+
+    if (!tutorProfile) {
+      return NextResponse.json(
+        { error: "Tutor profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const updatedProfile = await prisma.tutorProfile.update({
+      where: { id: tutorProfile.id },
+      data: action === "hold"
+        ? { payoutsHeld: true, payoutHoldReason: reason || null }
+        : { payoutsHeld: false, payoutHoldReason: null },
+      select: {
+        id: true,
+        payoutsEnabled: true,
+        payoutsHeld: true,
+        payoutHoldReason: true,
+      },
+    });
+
+    logger.info(action === "hold" ? "Tutor payouts held by admin" : "Tutor payouts released by admin", {
+      tutorId: tutorProfile.id,
+      adminId: admin.id,
+      reason,
+    });
+
+    // Released earnings don't wait for the next scheduled batch
+    const payout = action === "release"
+      ? await processTutorPayout(tutorProfile.id, new Date())
+      : undefined;
+
+    return NextResponse.json(
+      {
+        message: action === "hold" ? "Payouts held successfully" : "Payouts released successfully",
+        tutorProfile: updatedProfile,
+        payout,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // Log to Sentry in production
+    if (process.env.NODE_ENV === "production") {
+      Sentry.captureException(error);
+    }
+
+    return createErrorResponse(error, "Failed to update payouts");
+  }
+}
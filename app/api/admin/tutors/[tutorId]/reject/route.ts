@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
 import { requireRole } from "@/lib/auth";
-import { Role } from "@prisma/client";
+import { NotificationType, Role } from "@prisma/client";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import * as Sentry from "@sentry/nextjs";
 import { z } from "zod";
-import { sendTutorApprovalEmail } from "@/lib/email";
+import { deliverQueuedEmails, sendTutorApprovalEmail } from "@/lib/email";
 import { invalidateCache } from "@/lib/cache";
+import { createNotifications } from "@/lib/notifications/inbox";
 
 /**
  * API Route: Reject Tutor
@@ -75,14 +76,37 @@ export async function POST(
       );
     }
 
-    // Update tutor profile: reject and deactivate
-    await prisma.tutorProfile.update({
-      where: { userId: tutorId },
-      data: {
-        approvalStatus: "REJECTED",
-        isActive: false,
-        rejectionReason: reason || null,
-      },
+    // Update tutor profile: reject and deactivate, with the rejection email and notification
+    const emailId = await prisma.$transaction(async (tx) => {
+      await tx.tutorProfile.update({
+        where: { userId: tutorId },
+        data: {
+          approvalStatus: "REJECTED",
+          isActive: false,
+          rejectionReason: reason || null,
+        },
+      });
+
+      const queued = await sendTutorApprovalEmail(
+        {
+          email: tutor.email,
+          name: tutor.name || undefined,
+          locale: tutor.locale,
+          approved: false,
+          rejectionReason: reason || undefined,
+        },
+        { tx, userId: tutorId }
+      );
+
+      await createNotifications(tx, [
+        {
+          userId: tutorId,
+          type: NotificationType.TUTOR_REJECTED,
+          data: { reason: reason || null },
+        },
+      ]);
+
+      return queued.id;
     });
 
     // Invalidate cache for tutors (non-blocking)
@@ -93,20 +117,8 @@ export async function POST(
       // Ignore cache invalidation errors
     });
 
-    // Send rejection email (non-blocking)
-    sendTutorApprovalEmail({
-      email: tutor.email,
-      name: tutor.name || undefined,
-      approved: false,
-      rejectionReason: reason || undefined,
-    }).catch(async (error) => {
-      const { logger } = await import("@/lib/logger");
-      await logger.error("Failed to send rejection email", error, {
-        tutorId,
-        email: tutor.email,
-      });
-      // Don't fail the request if email fails
-    });
+    // Send rejection email (non-blocking, retried by the outbox worker if it fails)
+    deliverQueuedEmails(prisma, [emailId]);
 
     return NextResponse.json(
       { message: "Tutor rejected successfully" },
@@ -4,15 +4,19 @@
  * Handles individual appeal operations:
  * - GET: Get appeal details
  * - PATCH: Update appeal (admin approval/rejection)
+ *
+ * Approving an appeal removes the student's penalty and, for a no-show
+ * appeal, excuses the no-show so it no longer counts towards penalties.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { requireAuth, requireRole } from "@/lib/auth";
 import { prisma } from "@/lib/db/prisma";
-import { Role, AppealStatus } from "@prisma/client";
+import { Role, AppealStatus, BookingStatus, NotificationType } from "@prisma/client";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { logger } from "@/lib/logger";
+import { createNotifications } from "@/lib/notifications/inbox";
 
 const updateAppealSchema = z.object({
   status: z.enum(["APPROVED", "REJECTED"]),
@@ -133,17 +137,29 @@ export async function PATCH(
         },
       });
 
-      // If approved, remove the penalty
+      // If approved, remove the penalty (and excuse the appealed no-show)
       if (validatedData.status === AppealStatus.APPROVED) {
         await tx.user.update({
           where: { id: appeal.userId },
           data: { penaltyUntil: null },
         });
 
+        const excused = appeal.bookingId
+          ? await tx.booking.updateMany({
+              where: {
+                id: appeal.bookingId,
+                studentId: appeal.userId,
+                status: BookingStatus.NO_SHOW_STUDENT,
+              },
+              data: { noShowExcused: true },
+            })
+          : null;
+
         logger.info("Appeal approved and penalty removed", {
           appealId: id,
           userId: appeal.userId,
           adminId: admin.id,
+          noShowExcused: !!excused?.count,
         });
       } else {
         logger.info("Appeal rejected", {
@@ -153,6 +169,19 @@ export async function PATCH(
         });
       }
 
+      // Let the student know the decision in the notification center
+      await createNotifications(tx, [
+        {
+          userId: appeal.userId,
+          type:
+            validatedData.status === AppealStatus.APPROVED
+              ? NotificationType.APPEAL_APPROVED
+              : NotificationType.APPEAL_REJECTED,
+          bookingId: appeal.bookingId,
+          data: { reason: validatedData.adminNotes || null },
+        },
+      ]);
+
       return appeal;
     });
 
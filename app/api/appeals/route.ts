@@ -1,7 +1,7 @@
 /**
  * Appeals API Route
  * 
- * Handles cancellation penalty appeals:
+ * Handles cancellation penalty and no-show appeals:
  * - POST: Submit an appeal
  * - GET: List appeals (admin only)
  */
@@ -10,7 +10,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { requireAuth, requireRole } from "@/lib/auth";
 import { prisma } from "@/lib/db/prisma";
-import { Role, AppealStatus } from "@prisma/client";
+import { Role, AppealStatus, BookingStatus } from "@prisma/client";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { logger } from "@/lib/logger";
 
@@ -24,7 +24,8 @@ export const dynamic = "force-dynamic";
 /**
  * POST /api/appeals
  * 
- * Submit a cancellation penalty appeal
+ * Submit a cancellation penalty appeal, or an appeal against a student
+ * no-show (with its bookingId) - no active penalty is needed for those
  */
 export async function POST(request: NextRequest) {
   try {
@@ -32,23 +33,47 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createAppealSchema.parse(body);
 
-    // Check if user has an active penalty
-    const userWithPenalty = await prisma.user.findUnique({
-      where: { id: user.id },
-      select: { penaltyUntil: true },
-    });
+    // Validate booking if provided
+    let isNoShowAppeal = false;
+    if (validatedData.bookingId) {
+      const booking = await prisma.booking.findUnique({
+        where: { id: validatedData.bookingId },
+      });
 
-    if (!userWithPenalty || !userWithPenalty.penaltyUntil) {
-      return createErrorResponse(
-        Errors.BadRequest("You don't have an active penalty to appeal")
-      );
+      if (!booking || booking.studentId !== user.id) {
+        return createErrorResponse(
+          Errors.NotFound("Booking not found or doesn't belong to you")
+        );
+      }
+
+      isNoShowAppeal = booking.status === BookingStatus.NO_SHOW_STUDENT;
+
+      if (isNoShowAppeal && booking.noShowExcused) {
+        return createErrorResponse(
+          Errors.BadRequest("This no-show has already been excused")
+        );
+      }
     }
 
-    // Check if penalty has already expired
-    if (new Date() >= new Date(userWithPenalty.penaltyUntil)) {
-      return createErrorResponse(
-        Errors.BadRequest("Your penalty has already expired")
-      );
+    if (!isNoShowAppeal) {
+      // Check if user has an active penalty
+      const userWithPenalty = await prisma.user.findUnique({
+        where: { id: user.id },
+        select: { penaltyUntil: true },
+      });
+
+      if (!userWithPenalty || !userWithPenalty.penaltyUntil) {
+        return createErrorResponse(
+          Errors.BadRequest("You don't have an active penalty to appeal")
+        );
+      }
+
+      // Check if penalty has already expired
+      if (new Date() >= new Date(userWithPenalty.penaltyUntil)) {
+        return createErrorResponse(
+          Errors.BadRequest("Your penalty has already expired")
+        );
+      }
     }
 
     // Check if there's already a pending appeal
@@ -65,19 +90,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate booking if provided
-    if (validatedData.bookingId) {
-      const booking = await prisma.booking.findUnique({
-        where: { id: validatedData.bookingId },
-      });
-
-      if (!booking || booking.studentId !== user.id) {
-        return createErrorResponse(
-          Errors.NotFound("Booking not found or doesn't belong to you")
-        );
-      }
-    }
-
     // Create appeal
     const appeal = await prisma.cancellationAppeal.create({
       data: {
@@ -100,6 +112,7 @@ export async function POST(request: NextRequest) {
     logger.info("Appeal submitted", {
       appealId: appeal.id,
       userId: user.id,
+      isNoShowAppeal,
     });
 
     return NextResponse.json(
@@ -56,6 +56,7 @@ export async function POST(request: NextRequest) {
         id: true,
         email: true,
         name: true,
+        locale: true,
         password: true, // Check if user has a password (not OAuth-only)
       },
     });
@@ -69,15 +70,18 @@ export async function POST(request: NextRequest) {
         
         // Generate reset URL
         const baseUrl = getBaseUrl(request.headers.get("origin"));
-        const resetUrl = `${baseUrl}/auth/reset-password?token=${token}&email=${encodeURIComponent(emailLower)}`;
+        const resetUrl = `${baseUrl}/${user.locale}/auth/reset-password?token=${token}&email=${encodeURIComponent(emailLower)}`;
         
         // Send reset email
-        await sendPasswordResetEmail({
-          email: user.email,
-          name: user.name || undefined,
-          resetUrl,
-          locale: "en", // Default to English - can be enhanced with user preferences later
-        });
+        await sendPasswordResetEmail(
+          {
+            email: user.email,
+            name: user.name || undefined,
+            resetUrl,
+            locale: user.locale,
+          },
+          { userId: user.id }
+        );
 
         logger.info("Password reset email sent", {
           userId: user.id,
@@ -54,14 +54,17 @@ export async function POST(request: NextRequest) {
     try {
       const token = await createEmailVerificationToken(user.email);
       const baseUrl = getBaseUrl(request.headers.get("origin"));
-      const verificationUrl = `${baseUrl}/auth/verify-email?token=${token}&email=${encodeURIComponent(user.email)}`;
+      const verificationUrl = `${baseUrl}/${user.locale}/auth/verify-email?token=${token}&email=${encodeURIComponent(user.email)}`;
       
-      await sendVerificationEmail({
-        email: user.email,
-        name: user.name || undefined,
-        verificationUrl,
-        locale: "en", // Default to English - can be enhanced with user preferences later
-      });
+      await sendVerificationEmail(
+        {
+          email: user.email,
+          name: user.name || undefined,
+          verificationUrl,
+          locale: user.locale,
+        },
+        { userId: user.id }
+      );
 
       logger.info("Verification email sent after registration", {
         userId: user.id,
@@ -76,6 +76,7 @@ export async function POST(request: NextRequest) {
         id: true,
         email: true,
         name: true,
+        locale: true,
         emailVerified: true,
       },
     });
@@ -100,15 +101,18 @@ export async function POST(request: NextRequest) {
     
     // Generate verification URL
     const baseUrl = getBaseUrl(request.headers.get("origin"));
-    const verificationUrl = `${baseUrl}/auth/verify-email?token=${token}&email=${encodeURIComponent(emailLower)}`;
+    const verificationUrl = `${baseUrl}/${user.locale}/auth/verify-email?token=${token}&email=${encodeURIComponent(emailLower)}`;
     
     // Send verification email
-    await sendVerificationEmail({
-      email: user.email,
-      name: user.name || undefined,
-      verificationUrl,
-      locale: "en", // Default to English - can be enhanced with user preferences later
-    });
+    await sendVerificationEmail(
+      {
+        email: user.email,
+        name: user.name || undefined,
+        verificationUrl,
+        locale: user.locale,
+      },
+      { userId: user.id }
+    );
 
     logger.info("Verification email sent", {
       userId: user.id,
@@ -0,0 +1,178 @@
+/**
+ * Session Assessment API Route
+ *
+ * - GET: The session's assessment (participants and admins)
+ * - PUT: Record or update the assessment (booking's tutor, completed sessions only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getBookingRole } from "@/lib/booking/validation";
+import {
+  ASSESSMENT_BOOKING_STATUSES,
+  applyAssessmentProgress,
+  assessmentSchema,
+} from "@/lib/progress/assessments";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Load a booking and check the user can access its assessment
+ */
+async function getBookingForAssessment(
+  bookingId: string,
+  user: { id: string; role: string }
+) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      tutor: {
+        select: { id: true, userId: true, languagesTaught: true },
+      },
+      assessment: true,
+    },
+  });
+
+  if (!booking) {
+    throw Errors.NotFound("Booking not found");
+  }
+
+  const role = getBookingRole(booking, user);
+  if (!role) {
+    throw Errors.Forbidden("You don't have access to this booking's assessment");
+  }
+
+  return { booking, role };
+}
+
+/**
+ * GET /api/bookings/[id]/assessment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const { booking, role } = await getBookingForAssessment(id, user);
+
+    return NextResponse.json({
+      assessment: booking.assessment,
+      // Languages the tutor teaches, offered when assessing
+      languages: booking.tutor.languagesTaught,
+      canAssess: role === "tutor" && ASSESSMENT_BOOKING_STATUSES.includes(booking.status),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch assessment", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch assessment. Please try again."
+    );
+  }
+}
+
+/**
+ * PUT /api/bookings/[id]/assessment
+ *
+ * Request body:
+ * {
+ *   language: string,
+ *   level, speaking, listening, grammar, vocabulary: "A1" ... "C2",
+ *   comment?: string
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = assessmentSchema.parse(body);
+
+    const { booking, role } = await getBookingForAssessment(id, user);
+
+    if (role !== "tutor") {
+      return createErrorResponse(
+        Errors.Forbidden("Only the session's tutor can assess the student")
+      );
+    }
+
+    if (!ASSESSMENT_BOOKING_STATUSES.includes(booking.status)) {
+      return createErrorResponse(
+        Errors.BadRequest("Only completed sessions can be assessed")
+      );
+    }
+
+    const data = {
+      ...validatedData,
+      comment: validatedData.comment || null,
+    };
+
+    const { assessment, achievedGoals } = await prisma.$transaction(async (tx) => {
+      const assessment = await tx.skillAssessment.upsert({
+        where: { bookingId: booking.id },
+        create: {
+          bookingId: booking.id,
+          studentId: booking.studentId,
+          tutorId: booking.tutor.id,
+          ...data,
+        },
+        update: data,
+      });
+
+      const { achievedGoals } = await applyAssessmentProgress(
+        tx,
+        booking.studentId,
+        assessment.language,
+        assessment.level
+      );
+
+      return { assessment, achievedGoals };
+    });
+
+    logger.info("Session assessment saved", {
+      bookingId: booking.id,
+      studentId: booking.studentId,
+      tutorId: user.id,
+      language: assessment.language,
+      level: assessment.level,
+      achievedGoals,
+    });
+
+    return NextResponse.json({ assessment });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to save assessment", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to save assessment. Please try again."
+    );
+  }
+}
@@ -5,6 +5,9 @@
  * 
  * Marks a call as ended by setting callEndedAt timestamp
  * Only tutors can end calls
+ * Calls ended early get a prorated refund for the unused time
+ * Completed sessions are recorded in the tutor's earnings ledger
+ * The call is also ended with the video provider so no one is left in it
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -13,6 +16,12 @@ import { prisma } from "@/lib/db/prisma";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { logger } from "@/lib/logger";
 import { BookingStatus } from "@prisma/client";
+import { recalculateTutorStats } from "@/lib/booking/reviews";
+import { calculateProratedRefund } from "@/lib/booking/validation";
+import { recordSessionEarning } from "@/lib/booking/earnings";
+import { deliverQueuedEmails, sendPaymentReceiptEmail } from "@/lib/email";
+import { fromStripeAmount, getChargedAmount } from "@/lib/booking/currency";
+import { getVideoProvider } from "@/lib/video";
 
 export const dynamic = "force-dynamic";
 
@@ -32,11 +41,21 @@ export async function POST(
     const booking = await prisma.booking.findUnique({
       where: { id },
       include: {
+        student: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            locale: true,
+            timezone: true,
+          },
+        },
         tutor: {
           include: {
             user: {
               select: {
                 id: true,
+                name: true,
               },
             },
           },
@@ -64,26 +83,145 @@ export async function POST(
     }
 
     // Update booking with call end time
-    const updatedBooking = await prisma.booking.update({
+    // Both writes are conditional: a concurrent end-call (or the video webhook)
+    // must not end the call twice or complete the booking a second time
+    const endedAt = new Date();
+    const [ended, completion] = await prisma.$transaction([
+      prisma.booking.updateMany({
+        where: { id, callEndedAt: null },
+        data: { callEndedAt: endedAt },
+      }),
+      prisma.booking.updateMany({
+        where: { id, status: BookingStatus.CONFIRMED },
+        data: { status: BookingStatus.COMPLETED },
+      }),
+    ]);
+
+    const updatedBooking = await prisma.booking.findUniqueOrThrow({
       where: { id },
-      data: {
-        callEndedAt: new Date(),
-        // Optionally mark as completed if not already
-        status: booking.status === BookingStatus.CONFIRMED 
-          ? BookingStatus.COMPLETED 
-          : booking.status,
-      },
     });
 
+    if (ended.count === 0) {
+      return NextResponse.json({
+        message: "Call has already ended",
+        booking: updatedBooking,
+      });
+    }
+
+    // Keep the tutor's completed session count in sync
+    if (completion.count > 0) {
+      await recalculateTutorStats(booking.tutorId, prisma);
+    }
+
     logger.info("Call ended by tutor", {
       bookingId: id,
       tutorId: user.id,
       endedAt: updatedBooking.callEndedAt?.toISOString() ?? null,
     });
 
+    // Disconnect the student too
+    if (booking.callId) {
+      await getVideoProvider()
+        .endCall(booking.callId)
+        .catch((error) => {
+          logger.error("Failed to end call with video provider", {
+            bookingId: id,
+            callId: booking.callId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+
+    // Refund the unused part of a paid session (credit bookings are not prorated)
+    const proratedRefund = booking.paymentId && !booking.creditMinutes
+      ? calculateProratedRefund(booking, endedAt)
+      : 0;
+    let refundAmount = 0;
+
+    if (proratedRefund > 0) {
+      const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
+      const refundResult = await processRefundWithBookingUpdate(
+        id,
+        "call_ended_early",
+        {
+          amount: proratedRefund,
+          actorId: user.id,
+          // Queue an updated receipt reflecting the refund, with the refund record
+          queueEmails: async (tx, refund) => {
+            if (!booking.student.email) {
+              return [];
+            }
+
+            const refunds = await tx.refund.findMany({
+              where: { bookingId: id },
+              select: { amount: true, chargedAmount: true },
+            });
+            const queued = await sendPaymentReceiptEmail(
+              {
+                email: booking.student.email,
+                name: booking.student.name || undefined,
+                amount: getChargedAmount(booking),
+                currency: booking.currency,
+                settlementAmount: booking.price,
+                bookingId: id,
+                tutorName: booking.tutor.user.name || "Tutor",
+                scheduledAt: booking.scheduledAt,
+                refundedAmount: refunds.reduce(
+                  (sum, refund) => sum + (refund.chargedAmount ?? refund.amount),
+                  0
+                ),
+                locale: booking.student.locale,
+                timezone: booking.student.timezone,
+              },
+              {
+                tx,
+                userId: booking.studentId,
+                dedupKey: `refund-receipt:${refund.stripeRefundId ?? refund.id}`,
+              }
+            );
+            return [queued.id];
+          },
+        }
+      );
+
+      if (refundResult.success && !refundResult.alreadyRefunded && refundResult.refund) {
+        refundAmount = fromStripeAmount(refundResult.refund.amount, refundResult.refund.currency);
+
+        logger.info("Prorated refund processed for early call end", {
+          bookingId: id,
+          refundId: refundResult.refund.id,
+          amount: refundAmount,
+        });
+
+        // Send the updated receipt (non-blocking, retried by the outbox worker if it fails)
+        deliverQueuedEmails(prisma, refundResult.emailIds ?? []);
+      } else if (!refundResult.success && !refundResult.noPayment) {
+        // Don't fail ending the call - admin can refund manually
+        logger.error("Failed to process prorated refund for early call end", {
+          bookingId: id,
+          amount: proratedRefund,
+          error: refundResult.error,
+        });
+      }
+    }
+
+    // Record the tutor's share (net of the refund above)
+    if (updatedBooking.status === BookingStatus.COMPLETED) {
+      try {
+        await recordSessionEarning(prisma, booking);
+      } catch (error) {
+        // Picked up by the payout cron's missing earnings sweep
+        logger.error("Failed to record tutor earnings", {
+          bookingId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     return NextResponse.json({
       message: "Call ended successfully",
       booking: updatedBooking,
+      refundAmount,
     });
   } catch (error) {
     logger.error("Failed to end call", {
@@ -0,0 +1,194 @@
+/**
+ * Lesson Material Detail API Route
+ *
+ * - PATCH: Edit a material (tutor) or mark homework done (student)
+ * - DELETE: Remove a material and its file (tutor)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { del } from "@vercel/blob";
+import { LessonMaterialType } from "@prisma/client";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  getBookingForMaterials,
+  updateLessonMaterialSchema,
+} from "@/lib/booking/materials";
+
+export const dynamic = "force-dynamic";
+
+type RouteParams = { params: Promise<{ id: string; materialId: string }> };
+
+/**
+ * Load a material of the booking, with the user's role in the booking
+ */
+async function getMaterialForUser(
+  bookingId: string,
+  materialId: string,
+  user: { id: string; role: string }
+) {
+  const { role } = await getBookingForMaterials(prisma, bookingId, user);
+
+  const material = await prisma.lessonMaterial.findFirst({
+    where: { id: materialId, bookingId },
+  });
+
+  if (!material) {
+    throw Errors.NotFound("Material not found");
+  }
+
+  return { material, role };
+}
+
+/**
+ * PATCH /api/bookings/[id]/materials/[materialId]
+ *
+ * Request body:
+ * - Tutor: { title?, body?, dueAt? }
+ * - Student: { completed: boolean } // Homework only
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id, materialId } = await params;
+    const body = await request.json();
+    const { completed, ...content } = updateLessonMaterialSchema.parse(body);
+
+    const { material, role } = await getMaterialForUser(id, materialId, user);
+    const editsContent = Object.values(content).some((value) => value !== undefined);
+
+    if (role === "admin") {
+      return createErrorResponse(
+        Errors.Forbidden("Admins cannot change lesson materials")
+      );
+    }
+
+    if (role === "student" && editsContent) {
+      return createErrorResponse(
+        Errors.Forbidden("Only the tutor can edit lesson materials")
+      );
+    }
+
+    if (role === "tutor" && completed !== undefined) {
+      return createErrorResponse(
+        Errors.Forbidden("Only the student can mark homework done")
+      );
+    }
+
+    if (completed !== undefined && material.type !== LessonMaterialType.HOMEWORK) {
+      return createErrorResponse(
+        Errors.BadRequest("Only homework can be marked done")
+      );
+    }
+
+    if (content.dueAt !== undefined && material.type !== LessonMaterialType.HOMEWORK) {
+      return createErrorResponse(
+        Errors.BadRequest("Only homework has a due date")
+      );
+    }
+
+    if (content.body !== undefined && material.type === LessonMaterialType.FILE) {
+      return createErrorResponse(
+        Errors.BadRequest("Files have no text content")
+      );
+    }
+
+    const updatedMaterial = await prisma.lessonMaterial.update({
+      where: { id: material.id },
+      data: {
+        title: content.title,
+        body: content.body,
+        ...(content.dueAt !== undefined && {
+          dueAt: content.dueAt ? new Date(content.dueAt) : null,
+        }),
+        ...(completed !== undefined && {
+          completedAt: completed ? material.completedAt ?? new Date() : null,
+        }),
+      },
+    });
+
+    logger.info("Lesson material updated", {
+      bookingId: id,
+      materialId: material.id,
+      userId: user.id,
+      completed,
+    });
+
+    return NextResponse.json({ material: updatedMaterial });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to update lesson material", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to update lesson material. Please try again."
+    );
+  }
+}
+
+/**
+ * DELETE /api/bookings/[id]/materials/[materialId]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id, materialId } = await params;
+
+    const { material, role } = await getMaterialForUser(id, materialId, user);
+
+    if (role !== "tutor") {
+      return createErrorResponse(
+        Errors.Forbidden("Only the tutor can remove lesson materials")
+      );
+    }
+
+    await prisma.lessonMaterial.delete({
+      where: { id: material.id },
+    });
+
+    // The material is gone either way; an orphaned blob is harmless
+    if (material.fileUrl) {
+      await del(material.fileUrl).catch((error) => {
+        logger.error("Failed to delete lesson file from blob storage", {
+          materialId: material.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+
+    logger.info("Lesson material removed", {
+      bookingId: id,
+      materialId: material.id,
+      tutorId: user.id,
+    });
+
+    return NextResponse.json({ message: "Material removed" });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to remove lesson material", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to remove lesson material. Please try again."
+    );
+  }
+}
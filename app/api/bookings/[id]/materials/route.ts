@@ -0,0 +1,126 @@
+/**
+ * Lesson Materials API Route
+ *
+ * - GET: List a booking's materials (participants and admins)
+ * - POST: Add a summary, vocabulary list, homework or file (booking's tutor only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  MATERIAL_BOOKING_STATUSES,
+  createLessonMaterialSchema,
+  getBookingForMaterials,
+  getLessonMaterialData,
+} from "@/lib/booking/materials";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/bookings/[id]/materials
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    await getBookingForMaterials(prisma, id, user);
+
+    const materials = await prisma.lessonMaterial.findMany({
+      where: { bookingId: id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ materials });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch lesson materials", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch lesson materials. Please try again."
+    );
+  }
+}
+
+/**
+ * POST /api/bookings/[id]/materials
+ *
+ * Request body (by type):
+ * - SUMMARY / VOCABULARY: { type, title?, body }
+ * - HOMEWORK: { type, title, body?, dueAt? }
+ * - FILE: { type, title?, file: { url, name, type, size } } // From /api/upload/lesson-material
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = createLessonMaterialSchema.parse(body);
+
+    const { booking, role } = await getBookingForMaterials(prisma, id, user);
+
+    if (role !== "tutor") {
+      return createErrorResponse(
+        Errors.Forbidden("Only the tutor can add lesson materials")
+      );
+    }
+
+    if (!MATERIAL_BOOKING_STATUSES.includes(booking.status)) {
+      return createErrorResponse(
+        Errors.BadRequest("Materials can only be added to confirmed or completed sessions")
+      );
+    }
+
+    const material = await prisma.lessonMaterial.create({
+      data: {
+        bookingId: booking.id,
+        authorId: user.id,
+        ...getLessonMaterialData(validatedData),
+      },
+    });
+
+    logger.info("Lesson material added", {
+      bookingId: booking.id,
+      materialId: material.id,
+      type: material.type,
+      tutorId: user.id,
+    });
+
+    return NextResponse.json({ material }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to add lesson material", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to add lesson material. Please try again."
+    );
+  }
+}
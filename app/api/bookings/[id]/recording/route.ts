@@ -0,0 +1,147 @@
+/**
+ * Session Recording State API Route
+ *
+ * - GET: Current consent and recording state (polled during the call)
+ * - PATCH: Give or withdraw consent, mark a recording started or stopped
+ *
+ * Both participants must consent before a recording can start.
+ * Withdrawing consent also stops a recording in progress.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  RECORDABLE_STATUSES,
+  getBookingForRecording,
+  getRecordingState,
+  hasRecordingConsent,
+  updateRecordingSchema,
+} from "@/lib/booking/recordings";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/bookings/[id]/recording
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const { booking } = await getBookingForRecording(prisma, id, user);
+
+    return NextResponse.json(getRecordingState(booking));
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch recording state", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch recording state. Please try again."
+    );
+  }
+}
+
+/**
+ * PATCH /api/bookings/[id]/recording
+ *
+ * Request body:
+ * {
+ *   consent?: boolean, // Caller's consent to being recorded
+ *   recording?: boolean // Recording started (true) or stopped (false)
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updateRecordingSchema.parse(body);
+
+    const { booking, role } = await getBookingForRecording(prisma, id, user);
+
+    if (role === "admin") {
+      return createErrorResponse(
+        Errors.Forbidden("Only session participants can record sessions")
+      );
+    }
+
+    if (!RECORDABLE_STATUSES.includes(booking.status)) {
+      return createErrorResponse(
+        Errors.BadRequest("Recording is only available during a confirmed session")
+      );
+    }
+
+    const now = new Date();
+    const consentField =
+      role === "student" ? "recordingConsentStudentAt" : "recordingConsentTutorAt";
+    const data: Record<string, Date | null> = {};
+
+    if (validatedData.consent !== undefined) {
+      data[consentField] = validatedData.consent ? booking[consentField] ?? now : null;
+
+      // Recording without consent isn't allowed, so withdrawing stops it
+      if (!validatedData.consent) {
+        data.recordingStartedAt = null;
+      }
+    }
+
+    if (validatedData.recording !== undefined && data.recordingStartedAt !== null) {
+      if (validatedData.recording && !hasRecordingConsent({ ...booking, ...data })) {
+        return createErrorResponse(
+          Errors.BadRequest("Both participants must consent before recording")
+        );
+      }
+
+      data.recordingStartedAt = validatedData.recording ? booking.recordingStartedAt ?? now : null;
+    }
+
+    const updatedBooking = await prisma.booking.update({
+      where: { id },
+      data,
+    });
+
+    logger.info("Recording state updated", {
+      bookingId: id,
+      userId: user.id,
+      consent: validatedData.consent,
+      recording: validatedData.recording,
+    });
+
+    return NextResponse.json(getRecordingState(updatedBooking));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to update recording state", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to update recording state. Please try again."
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Session Recordings API Route
+ *
+ * - GET: List a booking's recordings (participants and admins)
+ * - POST: Register a recording uploaded through /api/upload/recording
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  RECORDING_UPLOAD_STATUSES,
+  getBookingForRecording,
+  getRecordingExpiry,
+  hasRecordingConsent,
+  isRecordingBlobUrl,
+  recordingSelect,
+  registerRecordingSchema,
+} from "@/lib/booking/recordings";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/bookings/[id]/recordings
+ *
+ * Expired recordings awaiting the cron job's cleanup are left out.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    await getBookingForRecording(prisma, id, user);
+
+    const recordings = await prisma.sessionRecording.findMany({
+      where: {
+        bookingId: id,
+        expiresAt: { gt: new Date() },
+      },
+      select: recordingSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ recordings });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch recordings", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch recordings. Please try again."
+    );
+  }
+}
+
+/**
+ * POST /api/bookings/[id]/recordings
+ *
+ * Request body:
+ * {
+ *   url: string, // Blob URL returned by the client upload
+ *   contentType: string,
+ *   size: number,
+ *   durationSeconds: number
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = registerRecordingSchema.parse(body);
+
+    const { booking, role } = await getBookingForRecording(prisma, id, user);
+
+    if (role === "admin") {
+      return createErrorResponse(
+        Errors.Forbidden("Only session participants can upload recordings")
+      );
+    }
+
+    // Consent withdrawn during the upload discards the recording
+    if (!RECORDING_UPLOAD_STATUSES.includes(booking.status) || !hasRecordingConsent(booking)) {
+      return createErrorResponse(
+        Errors.Forbidden("Recording this session is not allowed")
+      );
+    }
+
+    if (!isRecordingBlobUrl(validatedData.url, booking.id)) {
+      return createErrorResponse(
+        Errors.BadRequest("Recording must be uploaded through Linglix")
+      );
+    }
+
+    const createdAt = new Date();
+    const recording = await prisma.sessionRecording.create({
+      data: {
+        bookingId: booking.id,
+        recordedById: user.id,
+        url: validatedData.url,
+        contentType: validatedData.contentType,
+        size: validatedData.size,
+        durationSeconds: validatedData.durationSeconds,
+        expiresAt: getRecordingExpiry(createdAt),
+        createdAt,
+      },
+      select: recordingSelect,
+    });
+
+    logger.info("Session recording saved", {
+      bookingId: booking.id,
+      recordingId: recording.id,
+      recordedById: user.id,
+      size: validatedData.size,
+      durationSeconds: validatedData.durationSeconds,
+    });
+
+    return NextResponse.json({ recording }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to save recording", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to save recording. Please try again."
+    );
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Booking Review API Route
+ *
+ * Handles the student's review of a completed booking:
+ * - GET: Fetch the review for a booking
+ * - POST: Submit a review (student only, COMPLETED bookings only)
+ * - PATCH: Edit a review within the edit window
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { BookingStatus } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import {
+  createReviewSchema,
+  updateReviewSchema,
+  canEditReview,
+  recalculateTutorStats,
+} from "@/lib/booking/reviews";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/bookings/[id]/review
+ *
+ * Get the review for a booking (student, tutor or admin)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        studentId: true,
+        tutor: {
+          select: {
+            userId: true,
+          },
+        },
+        review: true,
+      },
+    });
+
+    if (!booking) {
+      return createErrorResponse(Errors.NotFound("Booking not found"));
+    }
+
+    const isStudent = booking.studentId === user.id;
+    const isTutor = booking.tutor.userId === user.id;
+    const isAdmin = user.role === "ADMIN";
+
+    if (!isStudent && !isTutor && !isAdmin) {
+      return createErrorResponse(
+        Errors.Forbidden("You don't have access to this booking")
+      );
+    }
+
+    return NextResponse.json({
+      review: booking.review,
+      canEdit: isStudent && booking.review ? canEditReview(booking.review).canEdit : false,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch review", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch review. Please try again."
+    );
+  }
+}
+
+/**
+ * POST /api/bookings/[id]/review
+ *
+ * Submit a review for a completed booking (student only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimit = await checkRateLimit(request, "GENERAL");
+  if (!rateLimit.success) {
+    return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+  }
+
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = createReviewSchema.parse(body);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        studentId: true,
+        tutorId: true,
+        status: true,
+        review: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!booking) {
+      return createErrorResponse(Errors.NotFound("Booking not found"));
+    }
+
+    if (booking.studentId !== user.id) {
+      return createErrorResponse(
+        Errors.Forbidden("Only the student can review this booking")
+      );
+    }
+
+    if (booking.status !== BookingStatus.COMPLETED) {
+      return createErrorResponse(
+        Errors.BadRequest("Only completed sessions can be reviewed")
+      );
+    }
+
+    if (booking.review) {
+      return createErrorResponse(
+        Errors.Conflict("You have already reviewed this session")
+      );
+    }
+
+    const review = await prisma.review.create({
+      data: {
+        bookingId: booking.id,
+        studentId: user.id,
+        tutorId: booking.tutorId,
+        rating: validatedData.rating,
+        comment: validatedData.comment || null,
+        tags: validatedData.tags,
+      },
+    });
+
+    const stats = await recalculateTutorStats(booking.tutorId, prisma);
+
+    logger.info("Review submitted", {
+      reviewId: review.id,
+      bookingId: booking.id,
+      tutorId: booking.tutorId,
+      rating: review.rating,
+      tutorRating: stats.rating,
+    });
+
+    return NextResponse.json(
+      {
+        message: "Review submitted successfully",
+        review,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to submit review", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to submit review. Please try again."
+    );
+  }
+}
+
+/**
+ * PATCH /api/bookings/[id]/review
+ *
+ * Edit a review (student only, within the edit window)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimit = await checkRateLimit(request, "GENERAL");
+  if (!rateLimit.success) {
+    return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+  }
+
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updateReviewSchema.parse(body);
+
+    const review = await prisma.review.findUnique({
+      where: { bookingId: id },
+    });
+
+    if (!review) {
+      return createErrorResponse(Errors.NotFound("Review not found"));
+    }
+
+    if (review.studentId !== user.id) {
+      return createErrorResponse(
+        Errors.Forbidden("You can only edit your own reviews")
+      );
+    }
+
+    const editValidation = canEditReview(review);
+    if (!editValidation.canEdit) {
+      return createErrorResponse(
+        Errors.BadRequest(editValidation.error || "This review can no longer be edited")
+      );
+    }
+
+    const updatedReview = await prisma.review.update({
+      where: { id: review.id },
+      data: {
+        ...(validatedData.rating !== undefined && { rating: validatedData.rating }),
+        ...(validatedData.comment !== undefined && {
+          comment: validatedData.comment || null,
+        }),
+        ...(validatedData.tags !== undefined && { tags: validatedData.tags }),
+      },
+    });
+
+    if (updatedReview.rating !== review.rating) {
+      await recalculateTutorStats(review.tutorId, prisma);
+    }
+
+    logger.info("Review updated", {
+      reviewId: review.id,
+      bookingId: id,
+      oldRating: review.rating,
+      newRating: updatedReview.rating,
+    });
+
+    return NextResponse.json({
+      message: "Review updated successfully",
+      review: updatedReview,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to update review", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to update review. Please try again."
+    );
+  }
+}
@@ -11,7 +11,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { requireAuth } from "@/lib/auth";
 import { prisma } from "@/lib/db/prisma";
-import { BookingStatus } from "@prisma/client";
+import { BookingStatus, NotificationType } from "@prisma/client";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { logger } from "@/lib/logger";
 import {
@@ -24,13 +24,26 @@ import {
   validateStatusTransition,
   isLateCancellation,
   isUserPenalized,
-  countLateCancellations,
+  applyLateCancellationPenalty,
+  calculateCancellationRefund,
 } from "@/lib/booking/validation";
+import { getCurrentExceptionsFilter } from "@/lib/booking/availability";
+import { recalculateTutorStats } from "@/lib/booking/reviews";
+import { shouldReturnCredits, returnCreditsForBooking } from "@/lib/booking/credits";
+import {
+  convertFromSettlement,
+  fromStripeAmount,
+  getBookingQuote,
+  getChargedAmount,
+} from "@/lib/booking/currency";
 import {
   sendBookingConfirmationEmail,
+  sendBookingRescheduledEmail,
   sendBookingCancellationEmail,
+  deliverQueuedEmails,
 } from "@/lib/email";
-import { getBaseUrl, getBookingUrl } from "@/lib/utils/url";
+import { getBaseUrl, getBookingUrl, getSessionUrl } from "@/lib/utils/url";
+import { createNotifications, getBookingNotifications } from "@/lib/notifications/inbox";
 
 /**
  * GET /api/bookings/[id]
@@ -68,6 +81,9 @@ export async function GET(
             },
           },
         },
+        refunds: {
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -127,6 +143,9 @@ export async function PATCH(
             availability: {
               where: { isActive: true },
             },
+            availabilityExceptions: {
+              where: getCurrentExceptionsFilter(),
+            },
           },
         },
         student: true,
@@ -181,7 +200,8 @@ export async function PATCH(
       const availabilityValidation = validateAvailability(
         newScheduledAt,
         booking.duration,
-        booking.tutor.availability
+        booking.tutor.availability,
+        booking.tutor.availabilityExceptions
       );
       if (!availabilityValidation.valid) {
         return createErrorResponse(
@@ -225,35 +245,97 @@ export async function PATCH(
         );
       }
 
-      // Update booking
-      const updatedBooking = await prisma.booking.update({
-        where: { id },
-        data: {
-          scheduledAt: newScheduledAt,
-          status: BookingStatus.PENDING, // Reset to pending for tutor confirmation
-        },
-        include: {
-          student: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
+      // Update booking, notify the tutor and queue calendar updates for both sides
+      const baseUrl = getBaseUrl(request.headers.get("origin"));
+
+      const { updatedBooking, emailIds } = await prisma.$transaction(async (tx) => {
+        const updatedBooking = await tx.booking.update({
+          where: { id },
+          data: {
+            scheduledAt: newScheduledAt,
+            status: BookingStatus.PENDING, // Reset to pending for tutor confirmation
+            calendarSequence: { increment: 1 },
           },
-          tutor: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
+          include: {
+            student: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                locale: true,
+                timezone: true,
+              },
+            },
+            tutor: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    email: true,
+                    locale: true,
+                    timezone: true,
+                  },
                 },
               },
             },
           },
-        },
+        });
+
+        await createNotifications(
+          tx,
+          getBookingNotifications(updatedBooking, NotificationType.BOOKING_RESCHEDULED, user.id, {
+            previousScheduledAt: booking.scheduledAt.toISOString(),
+          })
+        );
+
+        const participants = [
+          {
+            recipient: updatedBooking.student,
+            otherName: updatedBooking.tutor.user.name,
+            isTutor: false,
+          },
+          {
+            recipient: updatedBooking.tutor.user,
+            otherName: updatedBooking.student.name,
+            isTutor: true,
+          },
+        ];
+        const emailIds: Array<string | null> = [];
+
+        for (const { recipient, otherName, isTutor } of participants) {
+          if (!recipient.email) continue;
+
+          const queued = await sendBookingRescheduledEmail(
+            {
+              email: recipient.email,
+              name: recipient.name || undefined,
+              otherName: otherName || undefined,
+              scheduledAt: updatedBooking.scheduledAt,
+              previousScheduledAt: booking.scheduledAt,
+              duration: updatedBooking.duration,
+              isTutor,
+              bookingId: id,
+              calendarSequence: updatedBooking.calendarSequence,
+              sessionUrl: getSessionUrl(id, recipient.locale, baseUrl),
+              locale: recipient.locale,
+              timezone: recipient.timezone,
+            },
+            {
+              tx,
+              userId: recipient.id,
+              dedupKey: `reschedule:${id}:${updatedBooking.calendarSequence}:${recipient.id}`,
+            }
+          );
+          emailIds.push(queued.id);
+        }
+
+        return { updatedBooking, emailIds };
       });
 
+      // Send reschedule emails (non-blocking, retried by the outbox worker if they fail)
+      deliverQueuedEmails(prisma, emailIds);
+
       logger.info("Booking rescheduled", {
         bookingId: id,
         oldTime: booking.scheduledAt.toISOString(),
@@ -324,73 +406,122 @@ export async function PATCH(
         }
       }
 
-      const updatedBooking = await prisma.booking.update({
-        where: { id },
-        data: { status: newStatus },
-        include: {
-          student: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
+      // Queue confirmation emails with the status change when the tutor confirms the booking
+      const isConfirming =
+        newStatus === BookingStatus.CONFIRMED && booking.status === BookingStatus.PENDING;
+      const isCancelling = newStatus === BookingStatus.CANCELLED;
+      const baseUrl = getBaseUrl(request.headers.get("origin"));
+
+      const { updatedBooking, emailIds } = await prisma.$transaction(async (tx) => {
+        const updatedBooking = await tx.booking.update({
+          where: { id },
+          data: {
+            status: newStatus,
+            // Cancelled sessions are removed from calendars by a newer version of the event
+            ...(isCancelling && { calendarSequence: { increment: 1 } }),
           },
-          tutor: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
+          include: {
+            student: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                locale: true,
+                timezone: true,
+              },
+            },
+            tutor: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    email: true,
+                    locale: true,
+                    timezone: true,
+                  },
                 },
               },
             },
           },
-        },
-      });
+        });
 
-      // Send confirmation email when tutor confirms booking
-      if (newStatus === BookingStatus.CONFIRMED && booking.status === BookingStatus.PENDING) {
-        const baseUrl = getBaseUrl(request.headers.get("origin"));
-        const bookingUrl = getBookingUrl(id, "en", baseUrl);
-        
-        // Send to student
-        if (updatedBooking.student.email) {
-          sendBookingConfirmationEmail({
-            email: updatedBooking.student.email,
-            name: updatedBooking.student.name || undefined,
-            tutorName: updatedBooking.tutor.user.name || "Tutor",
-            scheduledAt: updatedBooking.scheduledAt,
-            duration: updatedBooking.duration,
-            price: updatedBooking.price,
-            bookingUrl,
-            locale: "en", // Default to English - can be enhanced with user preferences later
-          }).catch((error) => {
-            logger.error("Failed to send booking confirmation email to student", {
-              bookingId: id,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          });
+        const emailIds: Array<string | null> = [];
+
+        if (isConfirming || isCancelling) {
+          await createNotifications(
+            tx,
+            getBookingNotifications(
+              updatedBooking,
+              isConfirming ? NotificationType.BOOKING_CONFIRMED : NotificationType.BOOKING_CANCELLED,
+              user.id
+            )
+          );
         }
 
-        // Send to tutor (tutorName should be student's name for tutor's email)
-        if (updatedBooking.tutor.user.email) {
-          sendBookingConfirmationEmail({
-            email: updatedBooking.tutor.user.email,
-            name: updatedBooking.tutor.user.name || undefined,
-            tutorName: updatedBooking.student.name || "Student",
-            scheduledAt: updatedBooking.scheduledAt,
-            duration: updatedBooking.duration,
-            price: updatedBooking.price,
-            bookingUrl,
-            locale: "en", // Default to English - can be enhanced with user preferences later
-          }).catch((error) => {
-            logger.error("Failed to send booking confirmation email to tutor", {
-              bookingId: id,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          });
+        if (isConfirming) {
+          // Send to student
+          if (updatedBooking.student.email) {
+            const queued = await sendBookingConfirmationEmail(
+              {
+                email: updatedBooking.student.email,
+                name: updatedBooking.student.name || undefined,
+                tutorName: updatedBooking.tutor.user.name || "Tutor",
+                scheduledAt: updatedBooking.scheduledAt,
+                duration: updatedBooking.duration,
+                price: updatedBooking.price,
+                bookingUrl: getBookingUrl(id, updatedBooking.student.locale, baseUrl),
+                bookingId: id,
+                calendarSequence: updatedBooking.calendarSequence,
+                sessionUrl: getSessionUrl(id, updatedBooking.student.locale, baseUrl),
+                locale: updatedBooking.student.locale,
+                timezone: updatedBooking.student.timezone,
+              },
+              {
+                tx,
+                userId: updatedBooking.student.id,
+                dedupKey: `confirmation:${id}:${updatedBooking.student.id}`,
+              }
+            );
+            emailIds.push(queued.id);
+          }
+
+          // Send to tutor (tutorName should be student's name for tutor's email)
+          if (updatedBooking.tutor.user.email) {
+            const queued = await sendBookingConfirmationEmail(
+              {
+                email: updatedBooking.tutor.user.email,
+                name: updatedBooking.tutor.user.name || undefined,
+                tutorName: updatedBooking.student.name || "Student",
+                scheduledAt: updatedBooking.scheduledAt,
+                duration: updatedBooking.duration,
+                price: updatedBooking.price,
+                bookingUrl: getBookingUrl(id, updatedBooking.tutor.user.locale, baseUrl),
+                bookingId: id,
+                calendarSequence: updatedBooking.calendarSequence,
+                sessionUrl: getSessionUrl(id, updatedBooking.tutor.user.locale, baseUrl),
+                locale: updatedBooking.tutor.user.locale,
+                timezone: updatedBooking.tutor.user.timezone,
+              },
+              {
+                tx,
+                userId: updatedBooking.tutor.user.id,
+                dedupKey: `confirmation:${id}:${updatedBooking.tutor.user.id}`,
+              }
+            );
+            emailIds.push(queued.id);
+          }
         }
+
+        return { updatedBooking, emailIds };
+      });
+
+      // Send confirmation emails (non-blocking, retried by the outbox worker if they fail)
+      deliverQueuedEmails(prisma, emailIds);
+
+      // Keep the tutor's completed session count in sync
+      if (newStatus === BookingStatus.COMPLETED) {
+        await recalculateTutorStats(booking.tutorId, prisma);
       }
 
       logger.info("Booking status updated", {
@@ -497,22 +628,56 @@ export async function DELETE(
     const isLate = isLateCancellation(booking);
     const cancelledBy = isStudent ? user.id : booking.tutor.userId;
 
+    // Credit bookings get their credits back instead of a Stripe refund
+    const returnCredits = shouldReturnCredits(booking, isStudent);
+
+    // Refund paid bookings according to the cancellation policy
+    // (tutor/admin: full price, student: full price or a partial refund if late)
+    const isTutorCancelling = booking.tutor.userId === user.id;
+    const expectedRefund = calculateCancellationRefund(booking, isStudent);
+    const refundReason = isTutorCancelling
+      ? "tutor_cancelled_session"
+      : !isStudent
+        ? "admin_cancelled_session"
+        : isLate
+          ? "late_cancellation"
+          : "student_cancelled_session";
+    // Refund amounts below are in the currency the booking was charged in
+    const quote = getBookingQuote(booking);
+    // The refund goes through Stripe after the cancellation commits, so the
+    // email (queued with the cancellation) shows what the policy refunds
+    const emailRefundAmount = booking.paymentId && expectedRefund > 0
+      ? convertFromSettlement(expectedRefund, quote)
+      : undefined;
+
     // Cancel booking with cancellation details
-    const cancelledBooking = await prisma.$transaction(async (tx) => {
-      const updatedBooking = await tx.booking.update({
-        where: { id },
+    const { cancelledBooking, emailIds } = await prisma.$transaction(async (tx) => {
+      // Conditional on the status, so a concurrent cancel can't return credits twice
+      const cancelled = await tx.booking.updateMany({
+        where: { id, status: { in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] } },
         data: {
           status: BookingStatus.CANCELLED,
           cancelledAt: new Date(),
           cancelledBy,
           isLateCancellation: isLate,
+          calendarSequence: { increment: 1 },
         },
+      });
+
+      if (cancelled.count === 0) {
+        throw Errors.Conflict("Booking is already cancelled");
+      }
+
+      const updatedBooking = await tx.booking.findUniqueOrThrow({
+        where: { id },
         include: {
           student: {
             select: {
               id: true,
               name: true,
               email: true,
+              locale: true,
+              timezone: true,
             },
           },
           tutor: {
@@ -522,6 +687,8 @@ export async function DELETE(
                   id: true,
                   name: true,
                   email: true,
+                  locale: true,
+                  timezone: true,
                 },
               },
             },
@@ -529,20 +696,23 @@ export async function DELETE(
         },
       });
 
+      if (returnCredits) {
+        await returnCreditsForBooking(tx, booking);
+      }
+
+      await createNotifications(
+        tx,
+        getBookingNotifications(updatedBooking, NotificationType.BOOKING_CANCELLED, user.id)
+      );
+
       // If student cancelled late, check penalty threshold
       if (isStudent && isLate) {
-        const lateCancellationCount = await countLateCancellations(user.id, tx);
-        
-        // If more than 2 late cancellations, apply penalty (1 week ban)
-        if (lateCancellationCount > 2) {
-          const penaltyUntil = new Date();
-          penaltyUntil.setDate(penaltyUntil.getDate() + 7); // 1 week from now
-
-          await tx.user.update({
-            where: { id: user.id },
-            data: { penaltyUntil },
-          });
+        const { lateCancellationCount, penaltyUntil } = await applyLateCancellationPenalty(
+          user.id,
+          tx
+        );
 
+        if (penaltyUntil) {
           logger.warn("Penalty applied to user for late cancellations", {
             userId: user.id,
             lateCancellationCount,
@@ -551,104 +721,122 @@ export async function DELETE(
         }
       }
 
-      return updatedBooking;
+      const emailIds: Array<string | null> = [];
+
+      // Queue for the student
+      if (updatedBooking.student.email) {
+        const queued = await sendBookingCancellationEmail(
+          {
+            email: updatedBooking.student.email,
+            name: updatedBooking.student.name || undefined,
+            tutorName: updatedBooking.tutor.user.name || undefined,
+            scheduledAt: updatedBooking.scheduledAt,
+            refundAmount: emailRefundAmount,
+            paidAmount: getChargedAmount(updatedBooking),
+            currency: quote.currency,
+            isTutor: false,
+            bookings: [updatedBooking],
+            locale: updatedBooking.student.locale,
+            timezone: updatedBooking.student.timezone,
+          },
+          {
+            tx,
+            userId: updatedBooking.student.id,
+            dedupKey: `cancellation:${id}:${updatedBooking.student.id}`,
+          }
+        );
+        emailIds.push(queued.id);
+      }
+
+      // Queue for the tutor
+      if (updatedBooking.tutor.user.email) {
+        const queued = await sendBookingCancellationEmail(
+          {
+            email: updatedBooking.tutor.user.email,
+            name: updatedBooking.tutor.user.name || undefined,
+            studentName: updatedBooking.student.name || undefined,
+            scheduledAt: updatedBooking.scheduledAt,
+            refundAmount: undefined, // Tutors don't get refunds
+            isTutor: true,
+            bookings: [updatedBooking],
+            locale: updatedBooking.tutor.user.locale,
+            timezone: updatedBooking.tutor.user.timezone,
+          },
+          {
+            tx,
+            userId: updatedBooking.tutor.user.id,
+            dedupKey: `cancellation:${id}:${updatedBooking.tutor.user.id}`,
+          }
+        );
+        emailIds.push(queued.id);
+      }
+
+      return { cancelledBooking: updatedBooking, emailIds };
     });
 
+    // Send cancellation emails (non-blocking, retried by the outbox worker if they fail)
+    deliverQueuedEmails(prisma, emailIds);
+
     logger.info("Booking cancelled", {
       bookingId: id,
       cancelledBy: user.id,
       role: user.role,
+      creditsReturned: returnCredits ? booking.creditMinutes : undefined,
     });
 
-    // Process refund if tutor cancelled
-    const isTutorCancelling = cancelledBooking.tutor.userId === user.id;
     let refundAmount: number | undefined;
     
-    // If tutor cancelled a paid booking, process automatic refund
-    if (isTutorCancelling && cancelledBooking.paymentId) {
+    if (cancelledBooking.paymentId && expectedRefund > 0) {
       const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
       const refundResult = await processRefundWithBookingUpdate(
         cancelledBooking.id,
-        "tutor_cancelled_session"
+        refundReason,
+        { amount: expectedRefund, actorId: user.id }
       );
       
       if (refundResult.success && !refundResult.alreadyRefunded && refundResult.refund) {
-        refundAmount = refundResult.refund.amount / 100; // Convert from cents
+        refundAmount = fromStripeAmount(refundResult.refund.amount, refundResult.refund.currency);
         
-        logger.info("Refund processed for tutor cancellation", {
+        logger.info("Refund processed for cancellation", {
           bookingId: cancelledBooking.id,
           refundId: refundResult.refund.id,
           amount: refundAmount,
-          tutorId: cancelledBooking.tutor.userId,
+          reason: refundReason,
+          cancelledBy: user.id,
           studentId: cancelledBooking.studentId,
         });
-        
-        // Note: Status is already updated to REFUNDED by processRefund function
-        // No need to update again here
       } else if (refundResult.alreadyRefunded) {
         // Booking was already refunded (idempotency)
-        refundAmount = cancelledBooking.price;
-        logger.info("Booking already refunded when tutor cancelled (idempotency)", {
+        refundAmount = emailRefundAmount;
+        logger.info("Booking already refunded when cancelled (idempotency)", {
+          bookingId: cancelledBooking.id,
+        });
+      } else if (refundResult.noPayment) {
+        // Checkout was never completed - nothing to refund
+        logger.info("Cancelled booking has no completed payment to refund", {
           bookingId: cancelledBooking.id,
         });
       } else {
         // Refund processing failed - log for admin review
-        logger.error("Failed to process refund for tutor cancellation", {
+        logger.error("Failed to process refund for cancellation", {
           bookingId: cancelledBooking.id,
           error: refundResult.error,
           bookingNotFound: refundResult.bookingNotFound,
-          noPayment: refundResult.noPayment,
-          tutorId: cancelledBooking.tutor.userId,
+          reason: refundReason,
+          cancelledBy: user.id,
           studentId: cancelledBooking.studentId,
         });
-        // Still show refund amount in email - admin will need to process manually
-        refundAmount = cancelledBooking.price;
+        // Admin will need to process the refund manually
+        refundAmount = emailRefundAmount;
       }
-    } else if (cancelledBooking.paymentId && !isTutorCancelling) {
-      // Student cancelled - show refund amount in email
-      // Note: Student cancellations don't auto-refund (they may be penalized)
-      refundAmount = cancelledBooking.price;
-    }
-
-    // Send to student
-    if (cancelledBooking.student.email) {
-      sendBookingCancellationEmail({
-        email: cancelledBooking.student.email,
-        name: cancelledBooking.student.name || undefined,
-        tutorName: cancelledBooking.tutor.user.name || undefined,
-        scheduledAt: cancelledBooking.scheduledAt,
-        refundAmount,
-        isTutor: false,
-        locale: "en", // Default to English - can be enhanced with user preferences later
-      }).catch((error) => {
-        logger.error("Failed to send cancellation email to student", {
-          bookingId: id,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      });
-    }
-
-    // Send to tutor
-    if (cancelledBooking.tutor.user.email) {
-      sendBookingCancellationEmail({
-        email: cancelledBooking.tutor.user.email,
-        name: cancelledBooking.tutor.user.name || undefined,
-        studentName: cancelledBooking.student.name || undefined,
-        scheduledAt: cancelledBooking.scheduledAt,
-        refundAmount: undefined, // Tutors don't get refunds
-        isTutor: true,
-        locale: "en", // Default to English - can be enhanced with user preferences later
-      }).catch((error) => {
-        logger.error("Failed to send cancellation email to tutor", {
-          bookingId: id,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      });
     }
 
     return NextResponse.json({
       message: "Booking cancelled successfully",
       booking: cancelledBooking,
+      refundAmount: refundAmount ?? 0,
+      currency: quote.currency,
+      creditsReturned: returnCredits ? booking.creditMinutes : 0,
     });
   } catch (error) {
     if (error instanceof Error && error.name === "HttpError") {
@@ -0,0 +1,90 @@
+/**
+ * Shared Notes Export API Route
+ *
+ * GET /api/bookings/[id]/shared-notes/export?format=md|pdf
+ *
+ * Downloads the session's shared notes as Markdown or PDF (participants and admins)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { createTextPdf } from "@/lib/utils/pdf";
+import {
+  SHARED_NOTES_EXPORT_FORMATS,
+  getBookingForSharedNotes,
+  getSharedNotesFilename,
+  type SharedNotesExportFormat,
+} from "@/lib/booking/shared-notes";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get("format") || "md";
+
+    if (!SHARED_NOTES_EXPORT_FORMATS.includes(format as SharedNotesExportFormat)) {
+      return createErrorResponse(
+        Errors.BadRequest("Invalid format. Use md or pdf.")
+      );
+    }
+
+    const { booking } = await getBookingForSharedNotes(prisma, id, user);
+
+    const notes = await prisma.sharedNotes.findUnique({
+      where: { bookingId: id },
+      select: { content: true },
+    });
+
+    if (!notes?.content.trim()) {
+      return createErrorResponse(Errors.NotFound("No notes to export"));
+    }
+
+    const date = booking.scheduledAt.toISOString().slice(0, 10);
+    const subtitle = `${booking.tutor.user.name || "Tutor"} & ${
+      booking.student.name || "Student"
+    } · ${date}`;
+    const filename = getSharedNotesFilename(
+      booking.scheduledAt,
+      format as SharedNotesExportFormat
+    );
+
+    if (format === "pdf") {
+      const pdf = await createTextPdf(`Lesson notes · ${subtitle}`, notes.content);
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const markdown = `# Lesson notes\n\n_${subtitle}_\n\n${notes.content.trim()}\n`;
+    return new NextResponse(markdown, {
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to export shared notes", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to export notes. Please try again."
+    );
+  }
+}
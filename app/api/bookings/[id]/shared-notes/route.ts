@@ -0,0 +1,164 @@
+/**
+ * Shared Notes API Route
+ *
+ * - GET: Current notes and whether the user can edit them (participants and admins)
+ * - PUT: Save the notes (participants, while the call is open)
+ *
+ * Clients poll GET during the call to pick up the other participant's edits.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  canEditSharedNotes,
+  getBookingForSharedNotes,
+  updateSharedNotesSchema,
+} from "@/lib/booking/shared-notes";
+
+export const dynamic = "force-dynamic";
+
+const sharedNotesSelect = {
+  content: true,
+  version: true,
+  updatedAt: true,
+} as const;
+
+// Before anything is saved
+const EMPTY_NOTES = { content: "", version: 0, updatedAt: null };
+
+/**
+ * GET /api/bookings/[id]/shared-notes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const { booking, role } = await getBookingForSharedNotes(prisma, id, user);
+
+    const notes = await prisma.sharedNotes.findUnique({
+      where: { bookingId: id },
+      select: sharedNotesSelect,
+    });
+
+    return NextResponse.json({
+      notes: notes || EMPTY_NOTES,
+      editable: role !== "admin" && canEditSharedNotes(booking),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch shared notes", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch notes. Please try again."
+    );
+  }
+}
+
+/**
+ * PUT /api/bookings/[id]/shared-notes
+ *
+ * Request body:
+ * {
+ *   content: string, // Markdown
+ *   baseVersion: number // Version the edit is based on
+ * }
+ *
+ * Responds 409 with the current notes when someone else saved since baseVersion
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const { content, baseVersion } = updateSharedNotesSchema.parse(body);
+
+    const { booking, role } = await getBookingForSharedNotes(prisma, id, user);
+
+    if (role === "admin") {
+      return createErrorResponse(
+        Errors.Forbidden("Only the session's participants can edit the notes")
+      );
+    }
+
+    if (!canEditSharedNotes(booking)) {
+      return createErrorResponse(
+        Errors.BadRequest("Notes can only be edited during the session")
+      );
+    }
+
+    // Only save on top of the version the client saw
+    let saved: boolean;
+    if (baseVersion === 0) {
+      saved = await prisma.sharedNotes
+        .create({
+          data: { bookingId: id, content, version: 1 },
+        })
+        .then(() => true)
+        .catch((error: unknown) => {
+          // The other participant saved the first version
+          if ((error as { code?: string })?.code === "P2002") return false;
+          throw error;
+        });
+    } else {
+      const { count } = await prisma.sharedNotes.updateMany({
+        where: { bookingId: id, version: baseVersion },
+        data: { content, version: { increment: 1 } },
+      });
+      saved = count > 0;
+    }
+
+    const notes = await prisma.sharedNotes.findUnique({
+      where: { bookingId: id },
+      select: sharedNotesSelect,
+    });
+
+    if (!saved) {
+      return NextResponse.json(
+        {
+          error: "The notes were changed by someone else",
+          code: "NOTES_CONFLICT",
+          notes: notes || EMPTY_NOTES,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ notes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to save shared notes", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to save notes. Please try again."
+    );
+  }
+}
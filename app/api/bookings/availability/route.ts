@@ -10,7 +10,18 @@ import { z } from "zod";
 import { prisma } from "@/lib/db/prisma";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { logger } from "@/lib/logger";
-import { getAvailableTimeSlots, getAvailableDates } from "@/lib/booking/availability";
+import {
+  getAvailableTimeSlots,
+  getAvailableDates,
+  getCurrentExceptionsFilter,
+} from "@/lib/booking/availability";
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  formatZonedTime,
+  isValidTimeZone,
+  toDateKey,
+} from "@/lib/utils/timezone";
 
 const availabilityQuerySchema = z.object({
   tutorId: z.string().min(1, "Tutor ID is required"),
@@ -18,6 +29,11 @@ const availabilityQuerySchema = z.object({
   startDate: z.string().optional(), // ISO date string
   endDate: z.string().optional(), // ISO date string
   duration: z.enum(["30", "60", "90"]).optional().default("60"),
+  timeZone: z
+    .string()
+    .optional()
+    .default(DEFAULT_TIMEZONE)
+    .refine(isValidTimeZone, { message: "Invalid timezone" }), // Student's IANA timezone
 });
 
 /**
@@ -29,6 +45,10 @@ const availabilityQuerySchema = z.object({
  * - date: Optional, specific date to check
  * - startDate/endDate: Optional, date range
  * - duration: Optional, booking duration (30, 60, 90)
+ * - timeZone: Optional, student's IANA timezone (defaults to UTC)
+ *
+ * Dates are calendar dates in the student's timezone. Slots are returned as
+ * UTC instants plus their wall-clock times in the student's timezone.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -39,17 +59,21 @@ export async function GET(request: NextRequest) {
       startDate: searchParams.get("startDate") || undefined,
       endDate: searchParams.get("endDate") || undefined,
       duration: (searchParams.get("duration") || "60") as "30" | "60" | "90",
+      timeZone: searchParams.get("timeZone") || undefined,
     };
 
     const validatedQuery = availabilityQuerySchema.parse(query);
 
-    // Fetch tutor profile with availability
+    // Fetch tutor profile with availability and date-specific exceptions
     const tutorProfile = await prisma.tutorProfile.findUnique({
       where: { id: validatedQuery.tutorId },
       include: {
         availability: {
           where: { isActive: true },
         },
+        availabilityExceptions: {
+          where: getCurrentExceptionsFilter(),
+        },
       },
     });
 
@@ -85,6 +109,7 @@ export async function GET(request: NextRequest) {
     });
 
     const duration = parseInt(validatedQuery.duration);
+    const timeZone = validatedQuery.timeZone;
 
     // If specific date provided, return time slots for that date
     if (validatedQuery.date) {
@@ -94,16 +119,21 @@ export async function GET(request: NextRequest) {
         duration,
         tutorProfile.availability,
         existingBookings,
-        validatedQuery.tutorId
+        validatedQuery.tutorId,
+        timeZone,
+        tutorProfile.availabilityExceptions
       );
 
       return NextResponse.json({
         tutorId: validatedQuery.tutorId,
         date: validatedQuery.date,
         duration,
+        timeZone,
         slots: slots.map((slot) => ({
           start: slot.start.toISOString(),
           end: slot.end.toISOString(),
+          localStart: formatZonedTime(slot.start, timeZone),
+          localEnd: formatZonedTime(slot.end, timeZone),
           available: slot.available,
           reason: slot.reason,
         })),
@@ -136,23 +166,25 @@ export async function GET(request: NextRequest) {
         tutorProfile.availability,
         existingBookings,
         validatedQuery.tutorId,
-        duration
+        duration,
+        timeZone,
+        tutorProfile.availabilityExceptions
       );
 
       return NextResponse.json({
         tutorId: validatedQuery.tutorId,
         duration,
+        timeZone,
         startDate: validatedQuery.startDate,
         endDate: validatedQuery.endDate,
         availableDates: availableDates.map((date) => date.toISOString().split("T")[0]),
       });
     }
 
-    // Default: return next 7 days of available dates
-    const startDate = new Date();
-    startDate.setUTCHours(0, 0, 0, 0);
-    const endDate = new Date(startDate);
-    endDate.setUTCDate(endDate.getUTCDate() + 7);
+    // Default: return next 7 days of available dates (starting today in the student's timezone)
+    const todayKey = toDateKey(new Date(), timeZone);
+    const startDate = new Date(`${todayKey}T00:00:00Z`);
+    const endDate = new Date(`${addDaysToDateKey(todayKey, 7)}T00:00:00Z`);
 
     const availableDates = getAvailableDates(
       startDate,
@@ -160,12 +192,15 @@ export async function GET(request: NextRequest) {
       tutorProfile.availability,
       existingBookings,
       validatedQuery.tutorId,
-      duration
+      duration,
+      timeZone,
+      tutorProfile.availabilityExceptions
     );
 
     return NextResponse.json({
       tutorId: validatedQuery.tutorId,
       duration,
+      timeZone,
       availableDates: availableDates.map((date) => date.toISOString().split("T")[0]),
     });
   } catch (error) {
@@ -22,7 +22,23 @@ import {
   checkConflicts,
   isUserPenalized,
 } from "@/lib/booking/validation";
-import { checkTimeSlotAvailability } from "@/lib/booking/availability";
+import {
+  checkTimeSlotAvailability,
+  getCurrentExceptionsFilter,
+} from "@/lib/booking/availability";
+import { CREDIT_HOURLY_RATE, redeemCreditsForBooking } from "@/lib/booking/credits";
+import {
+  getSessionPrice,
+  isTrialEligible,
+  TRIAL_LESSON_DURATION,
+} from "@/lib/booking/pricing";
+import {
+  convertFromSettlement,
+  getChargedAmount,
+  getUserCurrencyQuote,
+  toStripeAmount,
+  SETTLEMENT_CURRENCY,
+} from "@/lib/booking/currency";
 
 /**
  * GET /api/bookings
@@ -135,7 +151,8 @@ export async function GET(request: NextRequest) {
  * Create a new booking
  * - Only students can create bookings
  * - Validates availability, conflicts, and business rules
- * - Calculates price automatically
+ * - Calculates price from the tutor's rates (or trial price) and snapshots it
+ * - Paid through Stripe checkout, or with prepaid credits when useCredits is set
  * Rate limited: 10 requests per minute
  */
 export async function POST(request: NextRequest) {
@@ -166,6 +183,8 @@ export async function POST(request: NextRequest) {
     const tutorId = validatedData.tutorId;
     const scheduledAt = new Date(validatedData.scheduledAt);
     const duration = parseInt(validatedData.duration);
+    const useCredits = validatedData.useCredits;
+    const trial = validatedData.trial;
 
     // Fetch tutor profile
     const tutorProfile = await prisma.tutorProfile.findUnique({
@@ -181,6 +200,10 @@ export async function POST(request: NextRequest) {
         availability: {
           where: { isActive: true },
         },
+        availabilityExceptions: {
+          where: getCurrentExceptionsFilter(),
+        },
+        priceTiers: true,
       },
     });
 
@@ -212,7 +235,8 @@ export async function POST(request: NextRequest) {
     const availabilityValidation = validateAvailability(
       scheduledAt,
       duration,
-      tutorProfile.availability
+      tutorProfile.availability,
+      tutorProfile.availabilityExceptions
     );
     if (!availabilityValidation.valid) {
       return createErrorResponse(
@@ -256,7 +280,41 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate price
-    const price = calculatePrice(duration, tutorProfile.hourlyRate);
+    let price = getSessionPrice(tutorProfile, duration);
+
+    if (trial) {
+      if (tutorProfile.trialPrice === null || duration !== TRIAL_LESSON_DURATION) {
+        return createErrorResponse(
+          Errors.BadRequest(`This tutor does not offer a ${duration}-minute trial lesson`)
+        );
+      }
+
+      if (useCredits) {
+        return createErrorResponse(
+          Errors.BadRequest("Trial lessons cannot be paid with credits")
+        );
+      }
+
+      if (!(await isTrialEligible(prisma, user.id, tutorId))) {
+        return createErrorResponse(
+          Errors.BadRequest("Trial lessons are only available for your first lesson with a tutor")
+        );
+      }
+
+      price = tutorProfile.trialPrice;
+    }
+
+    // Credits are priced at the standard rate
+    if (useCredits && price > calculatePrice(duration, CREDIT_HOURLY_RATE)) {
+      return createErrorResponse(
+        Errors.BadRequest(`Credits can only be used with tutors charging up to $${CREDIT_HOURLY_RATE}/hour`)
+      );
+    }
+
+    // Charge in the student's currency (credit bookings have no charge)
+    const quote = useCredits
+      ? { currency: SETTLEMENT_CURRENCY, exchangeRate: 1 }
+      : await getUserCurrencyQuote(prisma, user.id, request.headers.get("x-locale"));
 
     // Create booking in a transaction
     const booking = await prisma.$transaction(async (tx) => {
@@ -281,7 +339,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Create the booking
-      return await tx.booking.create({
+      const createdBooking = await tx.booking.create({
         data: {
           studentId: user.id,
           tutorId,
@@ -290,6 +348,11 @@ export async function POST(request: NextRequest) {
           status: BookingStatus.PENDING,
           price,
           notes: validatedData.notes,
+          creditMinutes: useCredits ? duration : null,
+          isTrial: trial,
+          currency: quote.currency,
+          exchangeRate: quote.exchangeRate,
+          chargedAmount: useCredits ? null : convertFromSettlement(price, quote),
         },
         include: {
           student: {
@@ -312,6 +375,13 @@ export async function POST(request: NextRequest) {
           },
         },
       });
+
+      // Draw down credits (throws and rolls back if the balance is too low)
+      if (useCredits) {
+        await redeemCreditsForBooking(tx, createdBooking);
+      }
+
+      return createdBooking;
     });
 
     logger.info("Booking created", {
@@ -319,8 +389,21 @@ export async function POST(request: NextRequest) {
       studentId: user.id,
       tutorId,
       scheduledAt: booking.scheduledAt.toISOString(),
+      paidWithCredits: useCredits,
     });
 
+    // Credit bookings are already paid - no checkout needed
+    if (useCredits) {
+      return NextResponse.json(
+        {
+          message: "Booking created successfully and paid with credits.",
+          booking,
+          paidWithCredits: true,
+        },
+        { status: 201 }
+      );
+    }
+
     // Create Stripe checkout session immediately for payment
     try {
       const { getStripeClient, isStripeConfigured } = await import("@/lib/stripe/client");
@@ -347,12 +430,12 @@ export async function POST(request: NextRequest) {
             line_items: [
               {
                 price_data: {
-                  currency: "usd",
+                  currency: booking.currency,
                   product_data: {
                     name: `Tutoring Session with ${booking.tutor.user.name || "Tutor"}`,
                     description: `${booking.duration}-minute session scheduled for ${new Date(booking.scheduledAt).toLocaleDateString()}`,
                   },
-                  unit_amount: Math.round(booking.price * 100), // Convert to cents
+                  unit_amount: toStripeAmount(getChargedAmount(booking), booking.currency),
                 },
                 quantity: 1,
               },
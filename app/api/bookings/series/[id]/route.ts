@@ -0,0 +1,594 @@
+/**
+ * Booking Series Detail API Route
+ *
+ * Handles operations on a recurring series:
+ * - GET: Fetch series with its occurrences
+ * - PATCH: Reschedule the remaining occurrences
+ * - DELETE: Cancel the remaining occurrences
+ *
+ * Single occurrences are cancelled/rescheduled through /api/bookings/[id].
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { BookingSeriesStatus, BookingStatus, NotificationType } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  canCancelBooking,
+  canRescheduleBooking,
+  isLateCancellation,
+  isUserPenalized,
+  applyLateCancellationPenalty,
+  calculateCancellationRefund,
+} from "@/lib/booking/validation";
+import { getCurrentExceptionsFilter } from "@/lib/booking/availability";
+import {
+  rescheduleBookingSeriesSchema,
+  getSeriesOccurrences,
+  getRemainingOccurrences,
+  validateSeriesOccurrences,
+  formatSeriesFailures,
+} from "@/lib/booking/recurring";
+import {
+  deliverQueuedEmails,
+  sendBookingCancellationEmail,
+  sendBookingRescheduledEmail,
+} from "@/lib/email";
+import { createNotifications, getBookingNotifications } from "@/lib/notifications/inbox";
+import { getBaseUrl, getSessionUrl } from "@/lib/utils/url";
+import {
+  convertFromSettlement,
+  fromStripeAmount,
+  getBookingQuote,
+  getChargedAmount,
+  roundCurrencyAmount,
+} from "@/lib/booking/currency";
+
+/**
+ * Fetch a series and verify the user can access it
+ */
+async function getAccessibleSeries(id: string, user: { id: string; role: string }) {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id },
+    include: {
+      bookings: {
+        orderBy: { scheduledAt: "asc" },
+      },
+      student: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          locale: true,
+          timezone: true,
+        },
+      },
+      tutor: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              locale: true,
+              timezone: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!series) {
+    throw Errors.NotFound("Booking series not found");
+  }
+
+  const isStudent = series.studentId === user.id;
+  const isTutor = series.tutor.userId === user.id;
+  const isAdmin = user.role === "ADMIN";
+
+  if (!isStudent && !isTutor && !isAdmin) {
+    throw Errors.Forbidden("You don't have access to this booking series");
+  }
+
+  return { series, isStudent, isTutor };
+}
+
+/**
+ * GET /api/bookings/series/[id]
+ *
+ * Get series details with all occurrences
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const { series } = await getAccessibleSeries(id, user);
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch booking series", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch recurring lessons. Please try again."
+    );
+  }
+}
+
+/**
+ * PATCH /api/bookings/series/[id]
+ *
+ * Reschedule the remaining occurrences to a new weekly slot
+ * - Only the student can reschedule
+ * - scheduledAt is the new time of the next remaining occurrence
+ * - Every occurrence must pass canRescheduleBooking and the new times are
+ *   validated up front; if any fail, nothing is changed
+ * - Both participants get a rescheduled email with an updated invite for every moved lesson
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+
+    const { series, isStudent } = await getAccessibleSeries(id, user);
+
+    if (!isStudent) {
+      return createErrorResponse(
+        Errors.Forbidden("Only students can reschedule bookings")
+      );
+    }
+
+    const remaining = getRemainingOccurrences(series.bookings);
+    if (remaining.length === 0) {
+      return createErrorResponse(
+        Errors.BadRequest("This series has no remaining lessons to reschedule")
+      );
+    }
+
+    for (const booking of remaining) {
+      const rescheduleValidation = canRescheduleBooking(booking);
+      if (!rescheduleValidation.canReschedule) {
+        return createErrorResponse(
+          Errors.BadRequest(
+            rescheduleValidation.error || "Cannot reschedule this booking"
+          )
+        );
+      }
+    }
+
+    const validatedData = rescheduleBookingSeriesSchema.parse(body);
+    const newTimes = getSeriesOccurrences(
+      new Date(validatedData.scheduledAt),
+      remaining.length,
+      series.timezone
+    );
+
+    const [availability, exceptions, existingBookings] = await Promise.all([
+      prisma.availability.findMany({
+        where: { tutorId: series.tutorId, isActive: true },
+      }),
+      prisma.availabilityException.findMany({
+        where: { tutorId: series.tutorId, ...getCurrentExceptionsFilter() },
+      }),
+      prisma.booking.findMany({
+        where: {
+          tutorId: series.tutorId,
+          status: {
+            notIn: ["CANCELLED", "REFUNDED"],
+          },
+        },
+        select: {
+          id: true,
+          scheduledAt: true,
+          duration: true,
+          tutorId: true,
+          status: true,
+        },
+      }),
+    ]);
+
+    const failures = validateSeriesOccurrences(
+      newTimes,
+      series.duration,
+      series.tutorId,
+      availability,
+      exceptions,
+      existingBookings,
+      remaining.map((booking) => booking.id) // Exclude the occurrences being moved
+    );
+
+    if (failures.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${failures.length} of ${newTimes.length} lessons cannot be moved to the new time. Please choose another time.`,
+          code: "SERIES_UNAVAILABLE",
+          failures: formatSeriesFailures(failures),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Move the occurrences, notify the other side and queue calendar updates for both
+    const baseUrl = getBaseUrl(request.headers.get("origin"));
+
+    const { updatedBookings, emailIds } = await prisma.$transaction(async (tx) => {
+      const updatedBookings = [];
+      for (const [index, booking] of remaining.entries()) {
+        updatedBookings.push(
+          await tx.booking.update({
+            where: { id: booking.id },
+            data: {
+              scheduledAt: newTimes[index],
+              status: BookingStatus.PENDING, // Reset to pending for tutor confirmation
+              calendarSequence: { increment: 1 },
+            },
+          })
+        );
+      }
+
+      // One notification for the series, about its next lesson
+      const firstUpdated = updatedBookings[0];
+      await createNotifications(
+        tx,
+        getBookingNotifications(
+          { ...firstUpdated, student: series.student, tutor: series.tutor },
+          NotificationType.BOOKING_RESCHEDULED,
+          user.id,
+          { previousScheduledAt: remaining[0].scheduledAt.toISOString() }
+        )
+      );
+
+      const participants = [
+        { recipient: series.student, otherName: series.tutor.user.name, isTutor: false },
+        { recipient: series.tutor.user, otherName: series.student.name, isTutor: true },
+      ];
+      const emailIds: Array<string | null> = [];
+
+      for (const { recipient, otherName, isTutor } of participants) {
+        if (!recipient.email) continue;
+
+        const queued = await sendBookingRescheduledEmail(
+          {
+            email: recipient.email,
+            name: recipient.name || undefined,
+            otherName: otherName || undefined,
+            scheduledAt: firstUpdated.scheduledAt,
+            previousScheduledAt: remaining[0].scheduledAt,
+            duration: series.duration,
+            isTutor,
+            bookingId: firstUpdated.id,
+            calendarSequence: firstUpdated.calendarSequence,
+            // Moves every remaining lesson in the recipient's calendar
+            bookings: updatedBookings.map((booking) => ({
+              ...booking,
+              sessionUrl: getSessionUrl(booking.id, recipient.locale, baseUrl),
+            })),
+            locale: recipient.locale,
+            timezone: recipient.timezone,
+          },
+          {
+            tx,
+            userId: recipient.id,
+            dedupKey: `series-reschedule:${id}:${firstUpdated.calendarSequence}:${recipient.id}`,
+          }
+        );
+        emailIds.push(queued.id);
+      }
+
+      return { updatedBookings, emailIds };
+    });
+
+    // Send reschedule emails (non-blocking, retried by the outbox worker if they fail)
+    deliverQueuedEmails(prisma, emailIds);
+
+    logger.info("Booking series rescheduled", {
+      seriesId: id,
+      occurrences: updatedBookings.length,
+      oldTime: remaining[0].scheduledAt.toISOString(),
+      newTime: newTimes[0].toISOString(),
+    });
+
+    return NextResponse.json({
+      message: "Remaining lessons rescheduled successfully",
+      bookings: updatedBookings,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to reschedule booking series", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to reschedule recurring lessons. Please try again."
+    );
+  }
+}
+
+/**
+ * DELETE /api/bookings/series/[id]
+ *
+ * Cancel the remaining occurrences of a series
+ * - canCancelBooking and late-cancellation rules apply per occurrence
+ * - Late cancellations count towards the student's penalty threshold
+ * - Each cancelled occurrence is refunded per the cancellation policy
+ * - Occurrences a concurrent request already cancelled are skipped (409 if all were)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const { series, isStudent } = await getAccessibleSeries(id, user);
+
+    const remaining = getRemainingOccurrences(series.bookings).filter(
+      (booking) => canCancelBooking(booking).canCancel
+    );
+
+    if (remaining.length === 0) {
+      return createErrorResponse(
+        Errors.BadRequest("This series has no remaining lessons to cancel")
+      );
+    }
+
+    // Check if user is penalized (only for students)
+    if (isStudent) {
+      const penalized = await isUserPenalized(user.id, prisma);
+      if (penalized) {
+        return createErrorResponse(
+          Errors.BadRequest(
+            "You are currently penalized and cannot cancel bookings. Please submit an appeal if you believe this is an error."
+          )
+        );
+      }
+    }
+
+    const cancelledBy = isStudent ? user.id : series.tutor.userId;
+    const cancelledAt = new Date();
+
+    // Refund each paid occurrence according to the cancellation policy
+    // (tutor/admin: full price, student: full price or a partial refund if late)
+    const isTutorCancelling = series.tutor.userId === user.id;
+    // Occurrences share the series' checkout, so they share its currency
+    const quote = getBookingQuote(remaining[0]);
+
+    // Cancel remaining occurrences with per-occurrence cancellation details
+    const { cancelled, emailIds } = await prisma.$transaction(async (tx) => {
+      // Conditional on the status, so concurrent cancels can't refund or
+      // penalize an occurrence twice - only the ones cancelled here count
+      const cancelled: typeof remaining = [];
+      for (const booking of remaining) {
+        const { count } = await tx.booking.updateMany({
+          where: {
+            id: booking.id,
+            status: { in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+          },
+          data: {
+            status: BookingStatus.CANCELLED,
+            cancelledAt,
+            cancelledBy,
+            isLateCancellation: isLateCancellation(booking),
+            calendarSequence: { increment: 1 },
+          },
+        });
+        if (count > 0) {
+          cancelled.push(booking);
+        }
+      }
+
+      if (cancelled.length === 0) {
+        throw Errors.Conflict("These lessons are already cancelled");
+      }
+
+      await tx.bookingSeries.update({
+        where: { id },
+        data: {
+          status: BookingSeriesStatus.CANCELLED,
+          cancelledAt,
+        },
+      });
+
+      // If student cancelled late, check penalty threshold
+      if (isStudent && cancelled.some((booking) => isLateCancellation(booking))) {
+        const { lateCancellationCount, penaltyUntil } = await applyLateCancellationPenalty(
+          user.id,
+          tx
+        );
+
+        if (penaltyUntil) {
+          logger.warn("Penalty applied to user for late cancellations", {
+            userId: user.id,
+            lateCancellationCount,
+            penaltyUntil: penaltyUntil.toISOString(),
+          });
+        }
+      }
+
+      // Refunds go through Stripe after the cancellation commits, so the email
+      // (queued with the cancellation) shows what the policy refunds
+      const emailRefundAmount = series.paymentId
+        ? roundCurrencyAmount(
+            cancelled.reduce(
+              (sum, booking) =>
+                sum + convertFromSettlement(calculateCancellationRefund(booking, isStudent), quote),
+              0
+            ),
+            quote.currency
+          )
+        : undefined;
+
+      const firstCancelled = cancelled[0];
+      // Removes the cancelled lessons from calendars (SEQUENCE as bumped above)
+      const cancelledBookings = cancelled.map((booking) => ({
+        ...booking,
+        calendarSequence: booking.calendarSequence + 1,
+      }));
+
+      const emailIds: Array<string | null> = [];
+
+      // Queue for the student
+      if (series.student.email) {
+        const queued = await sendBookingCancellationEmail(
+          {
+            email: series.student.email,
+            name: series.student.name || undefined,
+            tutorName: series.tutor.user.name || undefined,
+            scheduledAt: firstCancelled.scheduledAt,
+            refundAmount: emailRefundAmount,
+            paidAmount: cancelled.reduce((sum, booking) => sum + getChargedAmount(booking), 0),
+            currency: quote.currency,
+            isTutor: false,
+            bookings: cancelledBookings,
+            locale: series.student.locale,
+            timezone: series.student.timezone,
+          },
+          {
+            tx,
+            userId: series.student.id,
+            dedupKey: `series-cancellation:${id}:${series.student.id}`,
+          }
+        );
+        emailIds.push(queued.id);
+      }
+
+      // Queue for the tutor
+      if (series.tutor.user.email) {
+        const queued = await sendBookingCancellationEmail(
+          {
+            email: series.tutor.user.email,
+            name: series.tutor.user.name || undefined,
+            studentName: series.student.name || undefined,
+            scheduledAt: firstCancelled.scheduledAt,
+            refundAmount: undefined, // Tutors don't get refunds
+            isTutor: true,
+            bookings: cancelledBookings,
+            locale: series.tutor.user.locale,
+            timezone: series.tutor.user.timezone,
+          },
+          {
+            tx,
+            userId: series.tutor.user.id,
+            dedupKey: `series-cancellation:${id}:${series.tutor.user.id}`,
+          }
+        );
+        emailIds.push(queued.id);
+      }
+
+      return { cancelled, emailIds };
+    });
+
+    // Send cancellation emails (non-blocking, retried by the outbox worker if they fail)
+    deliverQueuedEmails(prisma, emailIds);
+
+    const lateCount = cancelled.filter((booking) => isLateCancellation(booking)).length;
+
+    logger.info("Booking series cancelled", {
+      seriesId: id,
+      cancelledBy: user.id,
+      role: user.role,
+      occurrences: cancelled.length,
+      lateCancellations: lateCount,
+    });
+
+    let refundAmount: number | undefined;
+
+    if (series.paymentId) {
+      const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
+      refundAmount = 0;
+
+      for (const booking of cancelled) {
+        const expectedRefund = calculateCancellationRefund(booking, isStudent);
+        if (expectedRefund <= 0) {
+          continue;
+        }
+
+        const refundReason = isTutorCancelling
+          ? "tutor_cancelled_session"
+          : !isStudent
+            ? "admin_cancelled_session"
+            : isLateCancellation(booking)
+              ? "late_cancellation"
+              : "student_cancelled_session";
+
+        const refundResult = await processRefundWithBookingUpdate(
+          booking.id,
+          refundReason,
+          { amount: expectedRefund, actorId: user.id }
+        );
+
+        if (refundResult.success && !refundResult.alreadyRefunded && refundResult.refund) {
+          refundAmount += fromStripeAmount(refundResult.refund.amount, refundResult.refund.currency);
+        } else if (refundResult.noPayment) {
+          // Series checkout was never completed - nothing to refund
+          refundAmount = undefined;
+          break;
+        } else {
+          // Refund processing failed or was already done - admin can reconcile manually
+          refundAmount += convertFromSettlement(expectedRefund, quote);
+          if (!refundResult.success) {
+            logger.error("Failed to process refund for series cancellation", {
+              seriesId: id,
+              bookingId: booking.id,
+              error: refundResult.error,
+            });
+          }
+        }
+      }
+
+      if (refundAmount !== undefined) {
+        refundAmount = roundCurrencyAmount(refundAmount, quote.currency);
+      }
+    }
+
+    return NextResponse.json({
+      message: `${cancelled.length} remaining lessons cancelled successfully`,
+      cancelledBookingIds: cancelled.map((booking) => booking.id),
+      lateCancellations: lateCount,
+      refundAmount: refundAmount ?? 0,
+      currency: quote.currency,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to cancel booking series", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to cancel recurring lessons. Please try again."
+    );
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Booking Series API Route
+ *
+ * Creates recurring weekly bookings ("every Tuesday at 18:00 for 10 weeks").
+ * Every occurrence is validated up front and the whole series is paid
+ * through a single Stripe checkout session.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { Role, BookingStatus } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { isUserPenalized } from "@/lib/booking/validation";
+import { getSessionPrice } from "@/lib/booking/pricing";
+import {
+  convertFromSettlement,
+  getUserCurrencyQuote,
+  toStripeAmount,
+} from "@/lib/booking/currency";
+import { getCurrentExceptionsFilter } from "@/lib/booking/availability";
+import {
+  createBookingSeriesSchema,
+  getSeriesOccurrences,
+  validateSeriesOccurrences,
+  formatSeriesFailures,
+} from "@/lib/booking/recurring";
+
+/**
+ * POST /api/bookings/series
+ *
+ * Create a recurring weekly series
+ * - Only students can create series
+ * - Every occurrence is validated against availability and conflicts;
+ *   if any fail, nothing is booked and the failing dates are returned
+ * - Charged once through Stripe checkout
+ * Rate limited: 10 requests per minute
+ */
+export async function POST(request: NextRequest) {
+  // Check rate limit
+  const rateLimit = await checkRateLimit(request, "BOOKING");
+  if (!rateLimit.success) {
+    return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+  }
+
+  try {
+    // Only students can create bookings
+    const user = await requireRole(Role.STUDENT);
+
+    // Check if user is penalized
+    const penalized = await isUserPenalized(user.id, prisma);
+    if (penalized) {
+      return createErrorResponse(
+        Errors.BadRequest(
+          "You are currently penalized and cannot create new bookings. Please submit an appeal if you believe this is an error."
+        )
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = createBookingSeriesSchema.parse(body);
+
+    const tutorId = validatedData.tutorId;
+    const firstScheduledAt = new Date(validatedData.scheduledAt);
+    const duration = parseInt(validatedData.duration);
+    const timeZone = validatedData.timeZone || "UTC";
+
+    // Fetch tutor profile
+    const tutorProfile = await prisma.tutorProfile.findUnique({
+      where: { id: tutorId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        availability: {
+          where: { isActive: true },
+        },
+        availabilityExceptions: {
+          where: getCurrentExceptionsFilter(),
+        },
+        priceTiers: true,
+      },
+    });
+
+    if (!tutorProfile) {
+      return createErrorResponse(Errors.NotFound("Tutor not found"));
+    }
+
+    if (!tutorProfile.isActive) {
+      return createErrorResponse(
+        Errors.BadRequest("Tutor profile is not active")
+      );
+    }
+
+    if (tutorProfile.approvalStatus !== "APPROVED") {
+      return createErrorResponse(
+        Errors.BadRequest("Tutor profile is not approved")
+      );
+    }
+
+    // Validate every occurrence up front
+    const occurrenceTimes = getSeriesOccurrences(
+      firstScheduledAt,
+      validatedData.occurrences,
+      timeZone
+    );
+
+    const existingBookings = await prisma.booking.findMany({
+      where: {
+        tutorId,
+        status: {
+          notIn: ["CANCELLED", "REFUNDED"],
+        },
+      },
+      select: {
+        id: true,
+        scheduledAt: true,
+        duration: true,
+        tutorId: true,
+        status: true,
+      },
+    });
+
+    const failures = validateSeriesOccurrences(
+      occurrenceTimes,
+      duration,
+      tutorId,
+      tutorProfile.availability,
+      tutorProfile.availabilityExceptions,
+      existingBookings
+    );
+
+    if (failures.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${failures.length} of ${occurrenceTimes.length} lessons cannot be booked. Please choose another time or fewer weeks.`,
+          code: "SERIES_UNAVAILABLE",
+          failures: formatSeriesFailures(failures),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Calculate price
+    const pricePerLesson = getSessionPrice(tutorProfile, duration);
+    const totalPrice = Math.round(pricePerLesson * occurrenceTimes.length * 100) / 100;
+
+    // Charge in the student's currency
+    const quote = await getUserCurrencyQuote(prisma, user.id, request.headers.get("x-locale"));
+    const chargedPerLesson = convertFromSettlement(pricePerLesson, quote);
+
+    // Create series and occurrences in a transaction
+    const series = await prisma.$transaction(async (tx) => {
+      // Double-check for conflicts (race condition prevention)
+      for (const scheduledAt of occurrenceTimes) {
+        const lastMinuteCheck = await tx.booking.findFirst({
+          where: {
+            tutorId,
+            scheduledAt: {
+              gte: scheduledAt,
+              lt: new Date(scheduledAt.getTime() + duration * 60 * 1000),
+            },
+            status: {
+              notIn: ["CANCELLED", "REFUNDED"],
+            },
+          },
+        });
+
+        if (lastMinuteCheck) {
+          throw Errors.Conflict(
+            `The lesson on ${scheduledAt.toISOString()} was just booked by another student. Please choose another time.`
+          );
+        }
+      }
+
+      return await tx.bookingSeries.create({
+        data: {
+          studentId: user.id,
+          tutorId,
+          startsAt: firstScheduledAt,
+          occurrences: occurrenceTimes.length,
+          duration,
+          timezone: timeZone,
+          totalPrice,
+          notes: validatedData.notes,
+          bookings: {
+            create: occurrenceTimes.map((scheduledAt) => ({
+              studentId: user.id,
+              tutorId,
+              scheduledAt,
+              duration,
+              status: BookingStatus.PENDING,
+              price: pricePerLesson,
+              currency: quote.currency,
+              exchangeRate: quote.exchangeRate,
+              chargedAmount: chargedPerLesson,
+              notes: validatedData.notes,
+            })),
+          },
+        },
+        include: {
+          bookings: {
+            orderBy: { scheduledAt: "asc" },
+          },
+          student: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      });
+    });
+
+    logger.info("Booking series created", {
+      seriesId: series.id,
+      studentId: user.id,
+      tutorId,
+      occurrences: series.occurrences,
+      startsAt: series.startsAt.toISOString(),
+    });
+
+    // Create a single Stripe checkout session for the whole series
+    try {
+      const { getStripeClient, isStripeConfigured } = await import("@/lib/stripe/client");
+
+      if (!isStripeConfigured()) {
+        throw new Error("Payment service is not configured");
+      }
+
+      const stripe = getStripeClient();
+      if (!stripe) {
+        throw new Error("Payment service is not available");
+      }
+
+      // Get base URL for redirects
+      const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
+                     process.env.NEXTAUTH_URL ||
+                     request.headers.get("origin") ||
+                     (process.env.NODE_ENV === "production"
+                       ? "https://linglix.com"
+                       : "http://localhost:3000");
+
+      const locale = request.headers.get("x-locale") || "en";
+      const tutorSlug = tutorProfile.user.name?.toLowerCase().replace(/\s+/g, "-") || "tutor";
+
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ["card"],
+        mode: "payment",
+        line_items: [
+          {
+            price_data: {
+              currency: quote.currency,
+              product_data: {
+                name: `${series.occurrences} weekly sessions with ${tutorProfile.user.name || "Tutor"}`,
+                description: `${duration}-minute sessions every week starting ${series.startsAt.toLocaleDateString()}`,
+              },
+              unit_amount: toStripeAmount(chargedPerLesson, quote.currency),
+            },
+            quantity: series.occurrences,
+          },
+        ],
+        customer_email: series.student.email,
+        metadata: {
+          seriesId: series.id,
+          studentId: series.studentId,
+          tutorId: series.tutorId,
+          duration: duration.toString(),
+          occurrences: series.occurrences.toString(),
+          scheduledAt: series.startsAt.toISOString(),
+        },
+        success_url: `${baseUrl}/${locale}/dashboard?payment=success`,
+        cancel_url: `${baseUrl}/${locale}/tutors/${tutorSlug}/book?canceled=true`,
+        expires_at: (() => {
+          // Stripe requires expires_at to be within 24 hours
+          // Set to 24 hours from now, or first lesson time if sooner
+          const now = Math.floor(Date.now() / 1000);
+          const maxExpiry = now + (24 * 60 * 60); // 24 hours from now
+          const firstLessonTime = Math.floor(series.startsAt.getTime() / 1000);
+          return Math.min(maxExpiry, firstLessonTime);
+        })(),
+        payment_intent_data: {
+          metadata: {
+            seriesId: series.id,
+            studentId: series.studentId,
+            tutorId: series.tutorId,
+          },
+        },
+      });
+
+      // All occurrences share the series' checkout session, so each one
+      // can be refunded individually
+      await prisma.$transaction([
+        prisma.bookingSeries.update({
+          where: { id: series.id },
+          data: { paymentId: session.id },
+        }),
+        prisma.booking.updateMany({
+          where: { seriesId: series.id },
+          data: { paymentId: session.id },
+        }),
+      ]);
+
+      logger.info("Checkout session created for booking series", {
+        seriesId: series.id,
+        sessionId: session.id,
+      });
+
+      return NextResponse.json(
+        {
+          message: "Recurring lessons booked successfully. Please complete payment.",
+          series,
+          checkoutUrl: session.url,
+          sessionId: session.id,
+        },
+        { status: 201 }
+      );
+    } catch (paymentError) {
+      logger.error("Failed to create checkout session for booking series", {
+        seriesId: series.id,
+        error: paymentError instanceof Error ? paymentError.message : String(paymentError),
+      });
+
+      // If payment setup fails, delete the series so we don't keep unpaid bookings
+      await prisma.$transaction([
+        prisma.booking.deleteMany({ where: { seriesId: series.id } }),
+        prisma.bookingSeries.delete({ where: { id: series.id } }),
+      ]);
+
+      return createErrorResponse(
+        Errors.InternalServerError(
+          paymentError instanceof Error
+            ? `Failed to create payment session: ${paymentError.message}`
+            : "Failed to create payment session. Please try again."
+        )
+      );
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to create booking series", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to create recurring lessons. Please try again."
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Calendar Feed Route
+ *
+ * GET /api/calendar/[token]
+ *
+ * Public iCal feed of a user's upcoming confirmed sessions, for calendar apps
+ * to subscribe to (Google, Apple, Outlook). The secret token in the URL is the
+ * only credential; users replace or revoke it from their profile.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { BookingStatus } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { logger } from "@/lib/logger";
+import {
+  CALENDAR_FEED_LIMIT,
+  createCalendar,
+  getBookingCalendarEvent,
+} from "@/lib/booking/calendar";
+import { getEmailTranslator } from "@/lib/email/i18n";
+import { getSessionUrl } from "@/lib/utils/url";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Sessions that started less than this long ago stay in the feed until they end
+ */
+const IN_PROGRESS_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    // Rate limiting
+    const rateLimit = await checkRateLimit(request, "GENERAL");
+    if (!rateLimit.success) {
+      return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+    }
+
+    const { token } = await params;
+
+    // Some calendar apps want the URL to end in .ics
+    const user = await prisma.user.findUnique({
+      where: { calendarFeedToken: token.replace(/\.ics$/, "") },
+      select: { id: true, locale: true },
+    });
+
+    if (!user) {
+      return createErrorResponse(Errors.NotFound("Calendar feed not found"));
+    }
+
+    const now = new Date();
+    const bookings = await prisma.booking.findMany({
+      where: {
+        status: BookingStatus.CONFIRMED,
+        scheduledAt: { gte: new Date(now.getTime() - IN_PROGRESS_LOOKBACK_MS) },
+        OR: [{ studentId: user.id }, { tutor: { userId: user.id } }],
+      },
+      include: {
+        student: {
+          select: { name: true },
+        },
+        tutor: {
+          select: {
+            userId: true,
+            user: {
+              select: { name: true },
+            },
+          },
+        },
+      },
+      orderBy: { scheduledAt: "asc" },
+      take: CALENDAR_FEED_LIMIT,
+    });
+
+    const events = bookings
+      .filter((booking) => booking.scheduledAt.getTime() + booking.duration * 60 * 1000 > now.getTime())
+      .map((booking) =>
+        getBookingCalendarEvent(booking, {
+          name: booking.studentId === user.id ? booking.tutor.user.name : booking.student.name,
+          sessionUrl: getSessionUrl(booking.id, user.locale),
+          status: "CONFIRMED",
+          locale: user.locale,
+        })
+      );
+
+    const calendar = createCalendar(events, {
+      name: getEmailTranslator(user.locale)("calendar.feedName"),
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="linglix.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to build calendar feed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(error, "Failed to build calendar feed");
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Conversation Messages API Route
+ *
+ * - GET: Fetch a page of messages and mark them read
+ * - POST: Send a message (conversation participants only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import {
+  MESSAGES_PAGE_SIZE,
+  getConversationParticipantsInclude,
+  createMessage,
+  getConversationRole,
+  getRecipientId,
+  markConversationRead,
+  sendMessageSchema,
+} from "@/lib/messaging/conversations";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Load a conversation and check the user can access it
+ */
+async function getConversationForUser(
+  conversationId: string,
+  user: { id: string; role: string }
+) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: getConversationParticipantsInclude(user),
+  });
+
+  if (!conversation) {
+    throw Errors.NotFound("Conversation not found");
+  }
+
+  const role = getConversationRole(conversation, user);
+  if (!role) {
+    throw Errors.Forbidden("You don't have access to this conversation");
+  }
+
+  return { conversation, role };
+}
+
+/**
+ * GET /api/conversations/[id]/messages
+ *
+ * Returns messages in chronological order. Participants' unread messages
+ * are marked read; admin views leave read state untouched.
+ *
+ * Query params:
+ * - before: Message id to page back from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const before = new URL(request.url).searchParams.get("before");
+
+    const { conversation, role } = await getConversationForUser(id, user);
+
+    const page = await prisma.message.findMany({
+      where: { conversationId: conversation.id },
+      orderBy: { createdAt: "desc" },
+      take: MESSAGES_PAGE_SIZE + 1,
+      ...(before && { cursor: { id: before }, skip: 1 }),
+    });
+
+    const hasMore = page.length > MESSAGES_PAGE_SIZE;
+    const messages = page.slice(0, MESSAGES_PAGE_SIZE).reverse();
+
+    if (role !== "admin") {
+      await markConversationRead(prisma, conversation.id, user.id);
+    }
+
+    return NextResponse.json({
+      conversation,
+      messages,
+      hasMore,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch messages", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch messages. Please try again."
+    );
+  }
+}
+
+/**
+ * POST /api/conversations/[id]/messages
+ *
+ * Request body:
+ * {
+ *   body?: string,
+ *   attachment?: { url, name, type, size } // From /api/upload/attachment
+ * }
+ * Rate limited: 30 requests per minute
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimit = await checkRateLimit(request, "GENERAL");
+  if (!rateLimit.success) {
+    return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+  }
+
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = sendMessageSchema.parse(body);
+
+    const { conversation, role } = await getConversationForUser(id, user);
+
+    // Admin access is read-only
+    if (role === "admin") {
+      return createErrorResponse(
+        Errors.Forbidden("Admins cannot send messages in user conversations")
+      );
+    }
+
+    const message = await createMessage(prisma, {
+      conversationId: conversation.id,
+      senderId: user.id,
+      recipientId: getRecipientId(conversation, user.id),
+      ...validatedData,
+    });
+
+    logger.info("Message sent", {
+      conversationId: conversation.id,
+      messageId: message.id,
+      senderId: user.id,
+      hasAttachment: !!validatedData.attachment,
+    });
+
+    return NextResponse.json({ message }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to send message", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to send message. Please try again."
+    );
+  }
+}
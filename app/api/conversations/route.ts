@@ -0,0 +1,158 @@
+/**
+ * Conversations API Route
+ *
+ * Persistent student-tutor messaging:
+ * - GET: List the user's conversations (admins can list and search all)
+ * - POST: Start a conversation with a tutor (students only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { Prisma, Role, TutorApprovalStatus } from "@prisma/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  CONVERSATIONS_LIMIT,
+  getConversationParticipantsInclude,
+  getOrCreateConversation,
+  getUnreadCountsByConversation,
+  startConversationSchema,
+} from "@/lib/messaging/conversations";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/conversations
+ *
+ * List conversations, most recent first, with the last message and unread count
+ *
+ * Query params (admin only):
+ * - search: Filter by student or tutor name/email
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get("search")?.trim();
+
+    let where: Prisma.ConversationWhereInput;
+
+    if (user.role === Role.ADMIN) {
+      // Admins can see all conversations for dispute investigation
+      where = search
+        ? {
+            OR: [
+              { student: { email: { contains: search, mode: "insensitive" } } },
+              { student: { name: { contains: search, mode: "insensitive" } } },
+              { tutor: { user: { email: { contains: search, mode: "insensitive" } } } },
+              { tutor: { user: { name: { contains: search, mode: "insensitive" } } } },
+            ],
+          }
+        : {};
+    } else {
+      where = {
+        OR: [{ studentId: user.id }, { tutor: { userId: user.id } }],
+      };
+    }
+
+    const conversations = await prisma.conversation.findMany({
+      where,
+      include: {
+        ...getConversationParticipantsInclude(user),
+        messages: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
+      },
+      orderBy: {
+        lastMessageAt: "desc",
+      },
+      take: CONVERSATIONS_LIMIT,
+    });
+
+    const unreadCounts = await getUnreadCountsByConversation(
+      prisma,
+      user.id,
+      conversations.map((conversation) => conversation.id)
+    );
+
+    return NextResponse.json({
+      conversations: conversations.map(({ messages, ...conversation }) => ({
+        ...conversation,
+        lastMessage: messages[0] || null,
+        unreadCount: unreadCounts[conversation.id] || 0,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch conversations", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch conversations. Please try again."
+    );
+  }
+}
+
+/**
+ * POST /api/conversations
+ *
+ * Start (or reopen) the conversation with a tutor - no booking required
+ *
+ * Request body:
+ * {
+ *   tutorId: string // TutorProfile id
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireRole(Role.STUDENT);
+    const body = await request.json();
+    const { tutorId } = startConversationSchema.parse(body);
+
+    const tutor = await prisma.tutorProfile.findUnique({
+      where: { id: tutorId },
+      select: { id: true, isActive: true, approvalStatus: true },
+    });
+
+    if (!tutor || !tutor.isActive || tutor.approvalStatus !== TutorApprovalStatus.APPROVED) {
+      return createErrorResponse(Errors.NotFound("Tutor not found"));
+    }
+
+    const conversation = await getOrCreateConversation(prisma, user.id, tutor.id);
+
+    logger.info("Conversation opened", {
+      conversationId: conversation.id,
+      studentId: user.id,
+      tutorId: tutor.id,
+    });
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to start conversation", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to start conversation. Please try again."
+    );
+  }
+}
@@ -7,6 +7,16 @@
  * Tasks:
  * 1. Session Reminders - Sends email reminders for upcoming sessions (24h and 1h before)
  * 2. Refund Expired Bookings - Refunds bookings that are PENDING and past their scheduled time
+ *    (credit bookings get their credits back instead)
+ * 3. Tutor Payouts - Records missing earnings for completed sessions and, on payout day,
+ *    transfers each tutor's cleared earnings to their Stripe Connect account
+ * 4. Exchange Rates - Refreshes the USD exchange rates used to charge students in their currency
+ * 5. Unread Message Digests - Emails each user a summary of messages they haven't read yet
+ * 6. No-Show Detection - Resolves past sessions only one party joined: tutor no-shows are
+ *    refunded, student no-shows pay the tutor and count towards late cancellation penalties
+ * 7. Recording Retention - Deletes session recordings (and their blobs) past the retention period
+ * 8. Email Outbox - Delivers queued emails and retries failed ones with exponential backoff
+ *    (runs after the other tasks so it picks up the emails they queued)
  * 
  * Note: Since this runs once per day, 1-hour reminders are sent for bookings in the next 2 hours
  * to maximize coverage. 24-hour reminders work as normal.
@@ -21,12 +31,31 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { del } from "@vercel/blob";
 import { prisma } from "@/lib/db/prisma";
-import { BookingStatus } from "@prisma/client";
+import { BookingStatus, EarningEntryType, PayoutStatus } from "@prisma/client";
 import { processRefundWithBookingUpdate } from "@/lib/stripe/refunds";
+import { returnCreditsForBooking } from "@/lib/booking/credits";
+import { applyLateCancellationPenalty } from "@/lib/booking/validation";
+import {
+  NO_SHOW_LOOKBACK_DAYS,
+  getNoShowCutoff,
+  getNoShowOutcome,
+} from "@/lib/booking/no-show";
+import { recordSessionEarning } from "@/lib/booking/earnings";
+import { RECORDING_RETENTION_DAYS } from "@/lib/booking/recordings";
+import { isPayoutDay, processTutorPayout } from "@/lib/stripe/payouts";
+import { getChargedAmount, updateExchangeRates } from "@/lib/booking/currency";
+import { UNREAD_DIGEST_DELAY_MINUTES } from "@/lib/messaging/conversations";
 import { logger } from "@/lib/logger";
-import { sendSessionReminderEmail, sendBookingCancellationEmail } from "@/lib/email";
-import { getBaseUrl, getSessionUrl } from "@/lib/utils/url";
+import {
+  sendSessionReminderEmail,
+  sendBookingCancellationEmail,
+  sendUnreadMessagesDigestEmail,
+  deliverQueuedEmails,
+  processEmailOutbox,
+} from "@/lib/email";
+import { getBaseUrl, getMessagesUrl, getSessionUrl } from "@/lib/utils/url";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 60; // Allow up to 60 seconds for cron job
@@ -86,9 +115,11 @@ async function handleSessionReminders(now: Date) {
           gte: twentyFourHourStart,
           lte: twentyFourHourEnd,
         },
-        paymentId: {
-          not: null,
-        },
+        // Paid through Stripe or with prepaid credits
+        OR: [
+          { paymentId: { not: null } },
+          { creditMinutes: { not: null } },
+        ],
       },
       include: {
         student: {
@@ -96,6 +127,8 @@ async function handleSessionReminders(now: Date) {
             id: true,
             name: true,
             email: true,
+            locale: true,
+            timezone: true,
           },
         },
         tutor: {
@@ -105,6 +138,8 @@ async function handleSessionReminders(now: Date) {
                 id: true,
                 name: true,
                 email: true,
+                locale: true,
+                timezone: true,
               },
             },
           },
@@ -120,9 +155,11 @@ async function handleSessionReminders(now: Date) {
           gte: oneHourStart,
           lte: oneHourEnd,
         },
-        paymentId: {
-          not: null,
-        },
+        // Paid through Stripe or with prepaid credits
+        OR: [
+          { paymentId: { not: null } },
+          { creditMinutes: { not: null } },
+        ],
       },
       include: {
         student: {
@@ -130,6 +167,8 @@ async function handleSessionReminders(now: Date) {
             id: true,
             name: true,
             email: true,
+            locale: true,
+            timezone: true,
           },
         },
         tutor: {
@@ -139,6 +178,8 @@ async function handleSessionReminders(now: Date) {
                 id: true,
                 name: true,
                 email: true,
+                locale: true,
+                timezone: true,
               },
             },
           },
@@ -151,33 +192,48 @@ async function handleSessionReminders(now: Date) {
     let sent1h = 0;
     let errors = 0;
 
-    // Send 24-hour reminders
+    // Send 24-hour reminders. Dedup keys include the start time so a
+    // rescheduled booking gets reminders for its new slot.
     for (const booking of bookings24h) {
       try {
         if (booking.student.email) {
-          await sendSessionReminderEmail({
-            email: booking.student.email,
-            name: booking.student.name || undefined,
-            tutorName: booking.tutor.user.name || "Tutor",
-            scheduledAt: booking.scheduledAt,
-            duration: booking.duration,
-            sessionUrl: getSessionUrl(booking.id, "en", baseUrl),
-            hoursUntil: 24,
-            locale: "en",
-          });
+          await sendSessionReminderEmail(
+            {
+              email: booking.student.email,
+              name: booking.student.name || undefined,
+              tutorName: booking.tutor.user.name || "Tutor",
+              scheduledAt: booking.scheduledAt,
+              duration: booking.duration,
+              sessionUrl: getSessionUrl(booking.id, booking.student.locale, baseUrl),
+              hoursUntil: 24,
+              locale: booking.student.locale,
+              timezone: booking.student.timezone,
+            },
+            {
+              userId: booking.student.id,
+              dedupKey: `reminder:24h:${booking.id}:${booking.scheduledAt.getTime()}:${booking.student.id}`,
+            }
+          );
         }
 
         if (booking.tutor.user.email) {
-          await sendSessionReminderEmail({
-            email: booking.tutor.user.email,
-            name: booking.tutor.user.name || undefined,
-            tutorName: booking.student.name || "Student",
-            scheduledAt: booking.scheduledAt,
-            duration: booking.duration,
-            sessionUrl: getSessionUrl(booking.id, "en", baseUrl),
-            hoursUntil: 24,
-            locale: "en",
-          });
+          await sendSessionReminderEmail(
+            {
+              email: booking.tutor.user.email,
+              name: booking.tutor.user.name || undefined,
+              tutorName: booking.student.name || "Student",
+              scheduledAt: booking.scheduledAt,
+              duration: booking.duration,
+              sessionUrl: getSessionUrl(booking.id, booking.tutor.user.locale, baseUrl),
+              hoursUntil: 24,
+              locale: booking.tutor.user.locale,
+              timezone: booking.tutor.user.timezone,
+            },
+            {
+              userId: booking.tutor.user.id,
+              dedupKey: `reminder:24h:${booking.id}:${booking.scheduledAt.getTime()}:${booking.tutor.user.id}`,
+            }
+          );
         }
 
         sent24h++;
@@ -199,29 +255,43 @@ async function handleSessionReminders(now: Date) {
         );
 
         if (booking.student.email) {
-          await sendSessionReminderEmail({
-            email: booking.student.email,
-            name: booking.student.name || undefined,
-            tutorName: booking.tutor.user.name || "Tutor",
-            scheduledAt: booking.scheduledAt,
-            duration: booking.duration,
-            sessionUrl: getSessionUrl(booking.id, "en", baseUrl),
-            hoursUntil: hoursUntil || 1, // Default to 1 if calculation fails
-            locale: "en",
-          });
+          await sendSessionReminderEmail(
+            {
+              email: booking.student.email,
+              name: booking.student.name || undefined,
+              tutorName: booking.tutor.user.name || "Tutor",
+              scheduledAt: booking.scheduledAt,
+              duration: booking.duration,
+              sessionUrl: getSessionUrl(booking.id, booking.student.locale, baseUrl),
+              hoursUntil: hoursUntil || 1, // Default to 1 if calculation fails
+              locale: booking.student.locale,
+              timezone: booking.student.timezone,
+            },
+            {
+              userId: booking.student.id,
+              dedupKey: `reminder:1h:${booking.id}:${booking.scheduledAt.getTime()}:${booking.student.id}`,
+            }
+          );
         }
 
         if (booking.tutor.user.email) {
-          await sendSessionReminderEmail({
-            email: booking.tutor.user.email,
-            name: booking.tutor.user.name || undefined,
-            tutorName: booking.student.name || "Student",
-            scheduledAt: booking.scheduledAt,
-            duration: booking.duration,
-            sessionUrl: getSessionUrl(booking.id, "en", baseUrl),
-            hoursUntil: hoursUntil || 1, // Default to 1 if calculation fails
-            locale: "en",
-          });
+          await sendSessionReminderEmail(
+            {
+              email: booking.tutor.user.email,
+              name: booking.tutor.user.name || undefined,
+              tutorName: booking.student.name || "Student",
+              scheduledAt: booking.scheduledAt,
+              duration: booking.duration,
+              sessionUrl: getSessionUrl(booking.id, booking.tutor.user.locale, baseUrl),
+              hoursUntil: hoursUntil || 1, // Default to 1 if calculation fails
+              locale: booking.tutor.user.locale,
+              timezone: booking.tutor.user.timezone,
+            },
+            {
+              userId: booking.tutor.user.id,
+              dedupKey: `reminder:1h:${booking.id}:${booking.scheduledAt.getTime()}:${booking.tutor.user.id}`,
+            }
+          );
         }
 
         sent1h++;
@@ -283,9 +353,11 @@ async function handleRefundExpiredBookings(now: Date) {
         scheduledAt: {
           lt: now,
         },
-        paymentId: {
-          not: null,
-        },
+        // Paid through Stripe or with prepaid credits
+        OR: [
+          { paymentId: { not: null } },
+          { creditMinutes: { not: null } },
+        ],
       },
       include: {
         student: {
@@ -293,6 +365,8 @@ async function handleRefundExpiredBookings(now: Date) {
             id: true,
             name: true,
             email: true,
+            locale: true,
+            timezone: true,
           },
         },
         tutor: {
@@ -302,6 +376,8 @@ async function handleRefundExpiredBookings(now: Date) {
                 id: true,
                 name: true,
                 email: true,
+                locale: true,
+                timezone: true,
               },
             },
           },
@@ -331,6 +407,37 @@ async function handleRefundExpiredBookings(now: Date) {
       try {
         results.processed++;
 
+        // Credit bookings: return credits instead of a Stripe refund
+        if (booking.creditMinutes) {
+          const returned = await prisma.$transaction(async (tx) => {
+            const updated = await tx.booking.updateMany({
+              where: { id: booking.id, status: BookingStatus.PENDING },
+              data: { status: BookingStatus.REFUNDED },
+            });
+
+            if (updated.count === 0) {
+              return false;
+            }
+
+            await returnCreditsForBooking(tx, booking, "Tutor did not confirm in time");
+            return true;
+          });
+
+          if (!returned) {
+            results.alreadyRefunded++;
+            continue;
+          }
+
+          results.succeeded++;
+
+          logger.info("Returned credits for expired unconfirmed booking", {
+            bookingId: booking.id,
+            scheduledAt: booking.scheduledAt.toISOString(),
+            minutes: booking.creditMinutes,
+          });
+          continue;
+        }
+
         if (!booking.paymentId) {
           results.skipped++;
           logger.warn("Skipping booking without payment ID", {
@@ -341,7 +448,36 @@ async function handleRefundExpiredBookings(now: Date) {
 
         const refundResult = await processRefundWithBookingUpdate(
           booking.id,
-          "tutor_did_not_confirm_in_time"
+          "tutor_did_not_confirm_in_time",
+          {
+            // Queue the cancellation email with the refund record
+            queueEmails: async (tx) => {
+              if (!booking.student.email) {
+                return [];
+              }
+
+              const queued = await sendBookingCancellationEmail(
+                {
+                  email: booking.student.email,
+                  name: booking.student.name || undefined,
+                  tutorName: booking.tutor.user.name || undefined,
+                  scheduledAt: booking.scheduledAt,
+                  refundAmount: getChargedAmount(booking),
+                  currency: booking.currency,
+                  isTutor: false,
+                  bookings: [booking],
+                  locale: booking.student.locale,
+                  timezone: booking.student.timezone,
+                },
+                {
+                  tx,
+                  userId: booking.student.id,
+                  dedupKey: `cancellation:${booking.id}:${booking.student.id}`,
+                }
+              );
+              return [queued.id];
+            },
+          }
         );
 
         if (refundResult.success) {
@@ -352,29 +488,14 @@ async function handleRefundExpiredBookings(now: Date) {
 
           results.succeeded++;
 
-          if (booking.student.email) {
-            sendBookingCancellationEmail({
-              email: booking.student.email,
-              name: booking.student.name || undefined,
-              tutorName: booking.tutor.user.name || undefined,
-              scheduledAt: booking.scheduledAt,
-              refundAmount: booking.price,
-              isTutor: false,
-              locale: "en",
-            }).catch((error) => {
-              logger.error("Failed to send refund email", {
-                bookingId: booking.id,
-                studentEmail: booking.student.email,
-                error: error instanceof Error ? error.message : String(error),
-              });
-            });
-          }
+          // Send the refund email (non-blocking, retried by the outbox worker if it fails)
+          deliverQueuedEmails(prisma, refundResult.emailIds ?? []);
 
           logger.info("Refunded expired unconfirmed booking", {
             bookingId: booking.id,
             scheduledAt: booking.scheduledAt.toISOString(),
             refundId: refundResult.refund?.id,
-            amount: refundResult.refund?.amount ? refundResult.refund.amount / 100 : booking.price,
+            amount: booking.price,
           });
         } else {
           results.failed++;
@@ -438,6 +559,564 @@ async function handleRefundExpiredBookings(now: Date) {
   }
 }
 
+/**
+ * Task 3: Tutor Payouts
+ * Records earnings for completed sessions (and student no-shows) that are missing from the ledger,
+ * then pays out cleared earnings once a week (see PAYOUT_DAY_OF_WEEK)
+ */
+async function handleTutorPayouts(now: Date) {
+  const startTime = Date.now();
+
+  try {
+    const results = {
+      earningsRecorded: 0,
+      payoutsCreated: 0,
+      payoutsSkipped: 0,
+      payoutsFailed: 0,
+      errors: [] as Array<{ id: string; error: string }>,
+    };
+
+    // Completed sessions without a SESSION entry (e.g. recording failed at end of call)
+    const unrecordedBookings = await prisma.booking.findMany({
+      where: {
+        status: { in: [BookingStatus.COMPLETED, BookingStatus.NO_SHOW_STUDENT] },
+        earnings: {
+          none: { type: EarningEntryType.SESSION },
+        },
+      },
+      select: {
+        id: true,
+        tutorId: true,
+        price: true,
+        duration: true,
+        currency: true,
+        exchangeRate: true,
+      },
+      take: 200,
+      orderBy: {
+        scheduledAt: "asc",
+      },
+    });
+
+    for (const booking of unrecordedBookings) {
+      try {
+        await recordSessionEarning(prisma, booking);
+        results.earningsRecorded++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        results.errors.push({ id: booking.id, error: errorMessage });
+
+        logger.error("Failed to record tutor earnings", {
+          bookingId: booking.id,
+          error: errorMessage,
+        });
+      }
+    }
+
+    if (isPayoutDay(now)) {
+      const tutors = await prisma.tutorProfile.findMany({
+        where: {
+          stripeAccountId: { not: null },
+          payoutsEnabled: true,
+          payoutsHeld: false,
+          OR: [
+            { earnings: { some: { payoutId: null } } },
+            // Transfers whose outcome was unknown last run
+            { payouts: { some: { status: PayoutStatus.PENDING } } },
+          ],
+        },
+        select: { id: true },
+      });
+
+      for (const tutor of tutors) {
+        try {
+          const payoutResult = await processTutorPayout(tutor.id, now);
+
+          if (payoutResult.skipped) {
+            results.payoutsSkipped++;
+          } else if (payoutResult.success) {
+            results.payoutsCreated++;
+          } else {
+            results.payoutsFailed++;
+            results.errors.push({
+              id: tutor.id,
+              error: payoutResult.error || "Unknown error",
+            });
+          }
+        } catch (error) {
+          results.payoutsFailed++;
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          results.errors.push({ id: tutor.id, error: errorMessage });
+
+          logger.error("Error processing tutor payout", {
+            tutorId: tutor.id,
+            error: errorMessage,
+          });
+        }
+      }
+    }
+
+    const duration = Date.now() - startTime;
+
+    logger.info("Tutor payouts task completed", {
+      duration: `${duration}ms`,
+      earningsRecorded: results.earningsRecorded,
+      payoutsCreated: results.payoutsCreated,
+      payoutsSkipped: results.payoutsSkipped,
+      payoutsFailed: results.payoutsFailed,
+    });
+
+    return {
+      success: true,
+      results,
+      duration: `${duration}ms`,
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error("Tutor payouts task failed", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      duration: `${duration}ms`,
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    };
+  }
+}
+
+/**
+ * Task 4: Exchange Rates
+ * Stores the latest USD rates for every supported currency. Bookings keep
+ * the rate they were created with, so updates only affect new bookings.
+ */
+async function handleExchangeRates() {
+  const startTime = Date.now();
+
+  try {
+    const updated = await updateExchangeRates(prisma);
+    const duration = Date.now() - startTime;
+
+    logger.info("Exchange rates task completed", {
+      duration: `${duration}ms`,
+      updated,
+    });
+
+    return {
+      success: true,
+      updated,
+      duration: `${duration}ms`,
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    // Previously stored rates stay in use until the next run
+    logger.error("Exchange rates task failed", {
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    };
+  }
+}
+
+/**
+ * Task 5: Unread Message Digests
+ * Emails each user one summary of their unread messages, grouped by conversation.
+ * Messages are only included once, and very recent ones wait for the next run
+ * (see UNREAD_DIGEST_DELAY_MINUTES).
+ */
+async function handleUnreadMessageDigests(now: Date) {
+  const startTime = Date.now();
+
+  try {
+    const cutoff = new Date(now.getTime() - UNREAD_DIGEST_DELAY_MINUTES * 60 * 1000);
+
+    const unreadMessages = await prisma.message.findMany({
+      where: {
+        readAt: null,
+        digestSentAt: null,
+        createdAt: { lte: cutoff },
+      },
+      select: {
+        id: true,
+        conversationId: true,
+        body: true,
+        attachmentName: true,
+        sender: {
+          select: { name: true },
+        },
+        recipient: {
+          select: { id: true, name: true, email: true, locale: true },
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+      take: 1000,
+    });
+
+    // Group by recipient, then by conversation (latest message wins the preview)
+    const digests = new Map<
+      string,
+      {
+        recipient: { id: string; name: string | null; email: string; locale: string };
+        messageIds: string[];
+        conversations: Map<string, { senderName: string; count: number; preview: string }>;
+      }
+    >();
+
+    for (const message of unreadMessages) {
+      let digest = digests.get(message.recipient.id);
+      if (!digest) {
+        digest = { recipient: message.recipient, messageIds: [], conversations: new Map() };
+        digests.set(message.recipient.id, digest);
+      }
+
+      const preview = message.body
+        ? message.body.slice(0, 140)
+        : `Sent an attachment: ${message.attachmentName || "file"}`;
+      const conversation = digest.conversations.get(message.conversationId);
+
+      digest.messageIds.push(message.id);
+      digest.conversations.set(message.conversationId, {
+        senderName: message.sender.name || "Linglix user",
+        count: (conversation?.count || 0) + 1,
+        preview,
+      });
+    }
+
+    let sent = 0;
+    let errors = 0;
+
+    for (const digest of digests.values()) {
+      try {
+        const conversationIds = Array.from(digest.conversations.keys());
+
+        // Queue the digest with the digestSentAt update so messages are never emailed twice
+        const emailId = await prisma.$transaction(async (tx) => {
+          await tx.message.updateMany({
+            where: { id: { in: digest.messageIds } },
+            data: { digestSentAt: now },
+          });
+
+          const queued = await sendUnreadMessagesDigestEmail(
+            {
+              email: digest.recipient.email,
+              name: digest.recipient.name || undefined,
+              conversations: Array.from(digest.conversations.values()),
+              // Open the conversation directly when there is only one
+              inboxUrl: getMessagesUrl(
+                conversationIds.length === 1 ? conversationIds[0] : undefined,
+                digest.recipient.locale
+              ),
+              locale: digest.recipient.locale,
+            },
+            { tx, userId: digest.recipient.id }
+          );
+          return queued.id;
+        });
+
+        await deliverQueuedEmails(prisma, [emailId]);
+        sent++;
+      } catch (error) {
+        errors++;
+        logger.error("Failed to send unread messages digest", {
+          userId: digest.recipient.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const duration = Date.now() - startTime;
+
+    logger.info("Unread message digests task completed", {
+      duration: `${duration}ms`,
+      messages: unreadMessages.length,
+      sent,
+      errors,
+    });
+
+    return {
+      success: true,
+      sent,
+      errors,
+      duration: `${duration}ms`,
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error("Unread message digests task failed", {
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    };
+  }
+}
+
+/**
+ * Task 6: No-Show Detection
+ * Resolves confirmed sessions past their grace period that only one party joined
+ * (see lib/booking/no-show.ts). Sessions nobody joined are left for admins.
+ */
+async function handleNoShows(now: Date) {
+  const startTime = Date.now();
+
+  try {
+    const bookings = await prisma.booking.findMany({
+      where: {
+        status: BookingStatus.CONFIRMED,
+        scheduledAt: {
+          lt: getNoShowCutoff(now),
+          gte: new Date(now.getTime() - NO_SHOW_LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+        },
+      },
+      include: {
+        tutor: {
+          select: { userId: true },
+        },
+        attendances: {
+          select: { userId: true, joinedAt: true },
+        },
+      },
+      take: 200,
+      orderBy: {
+        scheduledAt: "asc",
+      },
+    });
+
+    const results = {
+      studentNoShows: 0,
+      tutorNoShows: 0,
+      penaltiesApplied: 0,
+      refundsFailed: 0,
+      errors: [] as Array<{ bookingId: string; error: string }>,
+    };
+
+    for (const booking of bookings) {
+      const outcome = getNoShowOutcome(booking, booking.tutor.userId, booking.attendances);
+      if (!outcome) {
+        continue;
+      }
+
+      try {
+        const penaltyUntil = await prisma.$transaction(async (tx) => {
+          const updated = await tx.booking.updateMany({
+            where: { id: booking.id, status: BookingStatus.CONFIRMED },
+            data: { status: outcome },
+          });
+
+          if (updated.count === 0) {
+            return undefined;
+          }
+
+          if (outcome === BookingStatus.NO_SHOW_TUTOR) {
+            if (booking.creditMinutes) {
+              await returnCreditsForBooking(tx, booking, "Tutor did not attend the session");
+            }
+            return null;
+          }
+
+          return (await applyLateCancellationPenalty(booking.studentId, tx)).penaltyUntil;
+        });
+
+        // Resolved by someone else in the meantime
+        if (penaltyUntil === undefined) {
+          continue;
+        }
+
+        logger.info("No-show recorded", {
+          bookingId: booking.id,
+          outcome,
+          penaltyUntil: penaltyUntil?.toISOString(),
+        });
+
+        if (outcome === BookingStatus.NO_SHOW_STUDENT) {
+          results.studentNoShows++;
+          if (penaltyUntil) {
+            results.penaltiesApplied++;
+          }
+
+          // The tutor turned up, so the session is paid out
+          // (picked up by the payout task's missing earnings sweep if this fails)
+          await recordSessionEarning(prisma, booking).catch((error) => {
+            logger.error("Failed to record tutor earnings for student no-show", {
+              bookingId: booking.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+          continue;
+        }
+
+        results.tutorNoShows++;
+
+        if (booking.paymentId && !booking.creditMinutes) {
+          const refundResult = await processRefundWithBookingUpdate(booking.id, "tutor_no_show");
+
+          if (!refundResult.success && !refundResult.noPayment) {
+            // Don't undo the no-show - admin can refund manually
+            results.refundsFailed++;
+            results.errors.push({
+              bookingId: booking.id,
+              error: refundResult.error || "Unknown error",
+            });
+
+            logger.error("Failed to refund tutor no-show", {
+              bookingId: booking.id,
+              error: refundResult.error,
+            });
+          }
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        results.errors.push({ bookingId: booking.id, error: errorMessage });
+
+        logger.error("Error processing no-show", {
+          bookingId: booking.id,
+          error: errorMessage,
+        });
+      }
+    }
+
+    const duration = Date.now() - startTime;
+
+    logger.info("No-show detection task completed", {
+      duration: `${duration}ms`,
+      checked: bookings.length,
+      studentNoShows: results.studentNoShows,
+      tutorNoShows: results.tutorNoShows,
+      penaltiesApplied: results.penaltiesApplied,
+      refundsFailed: results.refundsFailed,
+    });
+
+    return {
+      success: true,
+      results,
+      duration: `${duration}ms`,
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error("No-show detection task failed", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      duration: `${duration}ms`,
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    };
+  }
+}
+
+/**
+ * Task 7: Recording Retention
+ * Deletes session recordings older than RECORDING_RETENTION_DAYS (their
+ * expiresAt has passed). Rows are only removed once their blobs are deleted,
+ * so a failed blob deletion is retried on the next run.
+ */
+async function handleRecordingRetention(now: Date) {
+  const startTime = Date.now();
+
+  try {
+    const expiredRecordings = await prisma.sessionRecording.findMany({
+      where: {
+        expiresAt: { lte: now },
+      },
+      select: { id: true, url: true },
+      take: 500, // Stay within the cron time limit; the rest go next run
+    });
+
+    if (expiredRecordings.length > 0) {
+      await del(expiredRecordings.map((recording) => recording.url));
+
+      await prisma.sessionRecording.deleteMany({
+        where: {
+          id: { in: expiredRecordings.map((recording) => recording.id) },
+        },
+      });
+    }
+
+    const duration = Date.now() - startTime;
+
+    logger.info("Recording retention task completed", {
+      duration: `${duration}ms`,
+      retentionDays: RECORDING_RETENTION_DAYS,
+      deleted: expiredRecordings.length,
+    });
+
+    return {
+      success: true,
+      deleted: expiredRecordings.length,
+      duration: `${duration}ms`,
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error("Recording retention task failed", {
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    };
+  }
+}
+
+/**
+ * Task 8: Email Outbox
+ */
+async function handleEmailOutbox(now: Date) {
+  const startTime = Date.now();
+
+  try {
+    const results = await processEmailOutbox(prisma, now);
+
+    const duration = Date.now() - startTime;
+
+    logger.info("Email outbox task completed", {
+      duration: `${duration}ms`,
+      ...results,
+    });
+
+    return {
+      success: true,
+      results,
+      duration: `${duration}ms`,
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error("Email outbox task failed", {
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      duration: `${duration}ms`,
+    };
+  }
+}
+
 /**
  * POST /api/cron/main
  * 
@@ -463,11 +1142,26 @@ export async function POST(request: NextRequest) {
     const now = new Date();
     
     // Execute all tasks in parallel for better performance
-    const [sessionRemindersResult, refundResult] = await Promise.all([
+    const [
+      sessionRemindersResult,
+      refundResult,
+      payoutResult,
+      exchangeRatesResult,
+      messageDigestsResult,
+      noShowResult,
+      recordingRetentionResult,
+    ] = await Promise.all([
       handleSessionReminders(now),
       handleRefundExpiredBookings(now),
+      handleTutorPayouts(now),
+      handleExchangeRates(),
+      handleUnreadMessageDigests(now),
+      handleNoShows(now),
+      handleRecordingRetention(now),
     ]);
 
+    const emailOutboxResult = await handleEmailOutbox(new Date());
+
     const overallDuration = Date.now() - overallStartTime;
     
     logger.info("Main cron job completed", {
@@ -480,6 +1174,21 @@ export async function POST(request: NextRequest) {
       refundProcessed: refundResult.results?.processed ?? 0,
       refundSucceeded: refundResult.results?.succeeded ?? 0,
       refundFailed: refundResult.results?.failed ?? 0,
+      payoutSuccess: payoutResult.success,
+      payoutsCreated: payoutResult.results?.payoutsCreated ?? 0,
+      payoutsFailed: payoutResult.results?.payoutsFailed ?? 0,
+      exchangeRatesSuccess: exchangeRatesResult.success,
+      exchangeRatesUpdated: exchangeRatesResult.updated ?? 0,
+      messageDigestsSuccess: messageDigestsResult.success,
+      messageDigestsSent: messageDigestsResult.sent ?? 0,
+      noShowSuccess: noShowResult.success,
+      studentNoShows: noShowResult.results?.studentNoShows ?? 0,
+      tutorNoShows: noShowResult.results?.tutorNoShows ?? 0,
+      recordingRetentionSuccess: recordingRetentionResult.success,
+      recordingsDeleted: recordingRetentionResult.deleted ?? 0,
+      emailOutboxSuccess: emailOutboxResult.success,
+      emailsSent: emailOutboxResult.results?.sent ?? 0,
+      emailsFailed: emailOutboxResult.results?.failed ?? 0,
     });
 
     return NextResponse.json({
@@ -488,6 +1197,12 @@ export async function POST(request: NextRequest) {
       tasks: {
         sessionReminders: sessionRemindersResult,
         refundExpiredBookings: refundResult,
+        tutorPayouts: payoutResult,
+        exchangeRates: exchangeRatesResult,
+        unreadMessageDigests: messageDigestsResult,
+        noShows: noShowResult,
+        recordingRetention: recordingRetentionResult,
+        emailOutbox: emailOutboxResult,
       },
       overallDuration: `${overallDuration}ms`,
       timestamp: now.toISOString(),
@@ -0,0 +1,56 @@
+/**
+ * Mark Notification Read API Route
+ *
+ * POST /api/notifications/[id]/read
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  getUnreadNotificationCount,
+  markNotificationsRead,
+} from "@/lib/notifications/inbox";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const notification = await prisma.notification.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    // Other users' notifications look the same as missing ones
+    if (!notification || notification.userId !== user.id) {
+      return createErrorResponse(Errors.NotFound("Notification not found"));
+    }
+
+    await markNotificationsRead(prisma, user.id, [id]);
+    const unreadCount = await getUnreadNotificationCount(prisma, user.id);
+
+    return NextResponse.json({
+      message: "Notification marked as read",
+      unreadCount,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to mark notification as read", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to mark notification as read. Please try again."
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Mark All Notifications Read API Route
+ *
+ * POST /api/notifications/read-all
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { markNotificationsRead } from "@/lib/notifications/inbox";
+
+export async function POST() {
+  try {
+    const user = await requireAuth();
+
+    const count = await markNotificationsRead(prisma, user.id);
+
+    return NextResponse.json({
+      message: "All notifications marked as read",
+      count,
+      unreadCount: 0,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to mark notifications as read", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to mark notifications as read. Please try again."
+    );
+  }
+}
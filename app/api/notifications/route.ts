@@ -0,0 +1,63 @@
+/**
+ * Notifications API Route
+ *
+ * - GET: Fetch a page of the user's in-app notifications
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  NOTIFICATIONS_PAGE_SIZE,
+  getUnreadNotificationCount,
+  notificationSelect,
+} from "@/lib/notifications/inbox";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/notifications
+ *
+ * Returns notifications newest first, with the unread count for the bell.
+ *
+ * Query params:
+ * - before: Notification id to page back from
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const before = new URL(request.url).searchParams.get("before");
+
+    const [page, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId: user.id },
+        select: notificationSelect,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: NOTIFICATIONS_PAGE_SIZE + 1,
+        ...(before && { cursor: { id: before }, skip: 1 }),
+      }),
+      getUnreadNotificationCount(prisma, user.id),
+    ]);
+
+    return NextResponse.json({
+      notifications: page.slice(0, NOTIFICATIONS_PAGE_SIZE),
+      unreadCount,
+      hasMore: page.length > NOTIFICATIONS_PAGE_SIZE,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to fetch notifications", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch notifications. Please try again."
+    );
+  }
+}
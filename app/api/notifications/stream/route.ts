@@ -0,0 +1,170 @@
+/**
+ * Notification Stream API Route
+ *
+ * GET /api/notifications/stream
+ *
+ * Server-sent events for the notification bell:
+ * - unread: { unreadCount } - on connect and whenever the count changes
+ * - notification: a new notification, as returned by GET /api/notifications
+ *
+ * The stream checks the database for new notifications, so it works across
+ * server instances. It closes after NOTIFICATION_STREAM_MAX_SECONDS and the
+ * browser's EventSource reconnects, sending the id of the last notification
+ * it received so the new stream carries on from there.
+ */
+
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  NOTIFICATION_STREAM_MAX_SECONDS,
+  NOTIFICATION_STREAM_POLL_SECONDS,
+  getUnreadNotificationCount,
+  notificationSelect,
+} from "@/lib/notifications/inbox";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // Matches NOTIFICATION_STREAM_MAX_SECONDS
+
+/**
+ * Notifications are written in transactions that may commit a little after
+ * their createdAt, so each check looks back this far (already sent ones are skipped)
+ */
+const LOOKBACK_MS = 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  let user;
+  let lastEvent;
+  try {
+    user = await requireAuth();
+
+    const lastEventId = request.headers.get("last-event-id");
+    lastEvent = lastEventId
+      ? await prisma.notification.findFirst({
+          where: { id: lastEventId, userId: user.id },
+          select: { id: true, createdAt: true },
+        })
+      : null;
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+
+  const userId = user.id;
+  const encoder = new TextEncoder();
+  let interval: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const startedAt = Date.now();
+      const sentIds = new Map<string, number>(); // id -> createdAt
+      // Notifications from before the connection are fetched with GET /api/notifications
+      const since = lastEvent?.createdAt ?? new Date();
+      if (lastEvent) sentIds.set(lastEvent.id, lastEvent.createdAt.getTime());
+      let lastCheckAt = since;
+      let unreadCount = -1;
+      let checking = false;
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown, id?: string) => {
+        write(`${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(interval);
+        try {
+          controller.close();
+        } catch {
+          // The stream was already torn down by the client disconnecting
+        }
+      };
+
+      const check = async () => {
+        if (checking || closed) return;
+        checking = true;
+
+        try {
+          const checkAt = new Date();
+
+          // Look back for late commits, but never past where this stream started
+          const notifications = await prisma.notification.findMany({
+            where: {
+              userId,
+              createdAt: {
+                gte: new Date(Math.max(since.getTime(), lastCheckAt.getTime() - LOOKBACK_MS)),
+              },
+            },
+            select: notificationSelect,
+            orderBy: { createdAt: "asc" },
+          });
+
+          for (const notification of notifications) {
+            if (sentIds.has(notification.id)) continue;
+            sentIds.set(notification.id, notification.createdAt.getTime());
+            send("notification", notification, notification.id);
+          }
+
+          // Forget ids that have fallen out of the lookback window
+          for (const [id, createdAt] of sentIds) {
+            if (createdAt < checkAt.getTime() - 2 * LOOKBACK_MS) sentIds.delete(id);
+          }
+
+          lastCheckAt = checkAt;
+
+          const count = await getUnreadNotificationCount(prisma, userId);
+          if (count !== unreadCount) {
+            unreadCount = count;
+            send("unread", { unreadCount });
+          } else {
+            // Keep proxies from closing an idle connection
+            write(": ping\n\n");
+          }
+        } catch (error) {
+          logger.error("Failed to check notifications for stream", {
+            userId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        } finally {
+          checking = false;
+        }
+
+        if (Date.now() - startedAt >= NOTIFICATION_STREAM_MAX_SECONDS * 1000) {
+          close();
+        }
+      };
+
+      // The client may already be gone; abort listeners don't fire retroactively
+      if (request.signal.aborted) {
+        close();
+        return;
+      }
+      request.signal.addEventListener("abort", close);
+
+      write(`retry: ${NOTIFICATION_STREAM_POLL_SECONDS * 1000}\n\n`);
+      await check();
+
+      // A disconnect during the first check has already closed the stream
+      if (!closed) {
+        interval = setInterval(check, NOTIFICATION_STREAM_POLL_SECONDS * 1000);
+      }
+    },
+    cancel() {
+      closed = true;
+      clearInterval(interval);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { logger } from "@/lib/logger";
+import { unsubscribe, verifyUnsubscribeToken } from "@/lib/notifications/unsubscribe";
+
+/**
+ * Unsubscribe API Route
+ *
+ * POST /api/notifications/unsubscribe?token=...
+ *
+ * Turns off the email category in a signed unsubscribe token, without signing in:
+ * - One-click unsubscribe from mail clients (List-Unsubscribe-Post, RFC 8058):
+ *   token in the query string, form body "List-Unsubscribe=One-Click"
+ * - The unsubscribe page: token in the query string or a JSON body
+ *
+ * GET is not supported so link scanners can't unsubscribe anyone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    const rateLimit = await checkRateLimit(request, "GENERAL");
+    if (!rateLimit.success) {
+      return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+    }
+
+    let token = request.nextUrl.searchParams.get("token");
+
+    if (!token && request.headers.get("content-type")?.includes("application/json")) {
+      const body = await request.json().catch(() => null);
+      token = typeof body?.token === "string" ? body.token : null;
+    }
+
+    const unsubscribeRequest = token ? verifyUnsubscribeToken(token) : null;
+
+    if (!unsubscribeRequest) {
+      return createErrorResponse(Errors.BadRequest("Invalid unsubscribe link"));
+    }
+
+    const { userId, scope } = unsubscribeRequest;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return createErrorResponse(Errors.NotFound("User not found"));
+    }
+
+    const preferences = await unsubscribe(prisma, userId, scope);
+
+    logger.info("User unsubscribed from emails", { userId, scope });
+
+    return NextResponse.json({
+      message: "Unsubscribed successfully",
+      scope,
+      preferences,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(error, "Failed to unsubscribe. Please try again.");
+  }
+}
@@ -4,14 +4,18 @@ import { prisma } from "@/lib/db/prisma";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { Role } from "@prisma/client";
 import { z } from "zod";
-import { sendWelcomeEmail } from "@/lib/email";
+import { deliverQueuedEmails, sendWelcomeEmail } from "@/lib/email";
+import {
+  getPrimaryLanguageFields,
+  learningLanguagesSchema,
+  saveLearningLanguages,
+} from "@/lib/student/languages";
 
 const studentOnboardingSchema = z.object({
   role: z.literal("STUDENT"),
   data: z.object({
-    learningGoal: z.string(),
-    currentLevel: z.string(),
-    preferredSchedule: z.string(),
+    // Languages the student wants to learn, primary first
+    languages: learningLanguagesSchema,
     motivation: z.string().optional(),
   }),
 });
@@ -21,7 +25,7 @@ const tutorOnboardingSchema = z.object({
   data: z.object({
     bio: z.string().min(50, "Bio must be at least 50 characters"),
     specialties: z.array(z.string()).min(1, "At least one specialty is required"),
-    // hourlyRate is fixed at $30/hour, tutors receive $15/hour after commission
+    // Tutors start at the default $30/hour and can change it later (see /api/tutor/pricing)
     experience: z.string().optional(),
     teachingStyle: z.string().optional(),
     availability: z.string().optional(),
@@ -39,7 +43,7 @@ const onboardingSchema = z.discriminatedUnion("role", [
  * POST /api/onboarding/complete
  * 
  * Completes the onboarding process for a user
- * - For students: saves preferences
+ * - For students: saves the languages they're learning and preferences
  * - For tutors: creates tutor profile
  */
 export async function POST(request: Request) {
@@ -53,7 +57,7 @@ export async function POST(request: Request) {
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { id: true, email: true, name: true },
+      select: { id: true, email: true, name: true, locale: true },
     });
 
     if (!existingUser) {
@@ -66,46 +70,47 @@ export async function POST(request: Request) {
     const validated = onboardingSchema.parse(body);
 
     if (validated.role === "STUDENT") {
-      // Update user role
-      await prisma.user.update({
-        where: { id: session.user.id },
-        data: {
-          role: Role.STUDENT,
-        },
-      });
-
-      // Create or update student profile
-      await prisma.studentProfile.upsert({
-        where: { userId: session.user.id },
-        create: {
-          userId: session.user.id,
-          learningGoal: validated.data.learningGoal,
-          currentLevel: validated.data.currentLevel,
-          preferredSchedule: validated.data.preferredSchedule,
-          motivation: validated.data.motivation || null,
-        },
-        update: {
-          learningGoal: validated.data.learningGoal,
-          currentLevel: validated.data.currentLevel,
-          preferredSchedule: validated.data.preferredSchedule,
-          motivation: validated.data.motivation || null,
-        },
-      });
+      // Create or update student profile with their languages
+      const profileData = {
+        ...getPrimaryLanguageFields(validated.data.languages),
+        motivation: validated.data.motivation || null,
+      };
+      const userId = session.user.id;
+
+      const emailId = await prisma.$transaction(async (tx) => {
+        // Update user role
+        await tx.user.update({
+          where: { id: userId },
+          data: {
+            role: Role.STUDENT,
+          },
+        });
 
-      // Send welcome email (non-blocking)
-      sendWelcomeEmail({
-        email: existingUser.email,
-        name: existingUser.name || undefined,
-        role: "STUDENT",
-      }).catch(async (error) => {
-        const { logger } = await import("@/lib/logger");
-        await logger.error("Failed to send welcome email", error, {
-          userId: session.user.id,
-          role: "STUDENT",
+        const studentProfile = await tx.studentProfile.upsert({
+          where: { userId },
+          create: { userId, ...profileData },
+          update: profileData,
         });
-        // Don't fail the request if email fails
+
+        await saveLearningLanguages(tx, studentProfile.id, validated.data.languages);
+
+        // Queue the welcome email with the onboarding
+        const queued = await sendWelcomeEmail(
+          {
+            email: existingUser.email,
+            name: existingUser.name || undefined,
+            role: "STUDENT",
+            locale: existingUser.locale,
+          },
+          // Onboarding can be submitted again; welcome the user only once
+          { tx, userId, dedupKey: `welcome:${userId}` }
+        );
+        return queued.id;
       });
 
+      // Send welcome email (non-blocking, retried by the outbox worker if it fails)
+      deliverQueuedEmails(prisma, [emailId]);
+
       return NextResponse.json(
         {
           message: "Onboarding completed successfully",
@@ -115,55 +120,58 @@ export async function POST(request: Request) {
     } else {
       // For tutors, create tutor profile
       // Hourly rate is fixed at $30/hour (tutors receive $15/hour after commission)
+      const userId = session.user.id;
 
-      // Check if tutor profile already exists
-      const existingProfile = await prisma.tutorProfile.findUnique({
-        where: { userId: session.user.id },
-      });
-
-      if (existingProfile) {
-        // Update existing profile
-        await prisma.tutorProfile.update({
-          where: { userId: session.user.id },
-          data: {
-            bio: validated.data.bio,
-            specialties: validated.data.specialties,
-            hourlyRate: 30, // Fixed rate - tutors receive $15/hour after commission
-            // Store additional data in bio or create metadata field
-          },
+      const emailId = await prisma.$transaction(async (tx) => {
+        // Check if tutor profile already exists
+        const existingProfile = await tx.tutorProfile.findUnique({
+          where: { userId },
         });
-      } else {
-        // Create new tutor profile
-        await prisma.tutorProfile.create({
-          data: {
-            userId: session.user.id,
-            bio: validated.data.bio,
-            specialties: validated.data.specialties,
-            hourlyRate: 30, // Fixed rate - tutors receive $15/hour after commission
-            approvalStatus: "PENDING", // Tutors need admin approval
-          },
+
+        if (existingProfile) {
+          // Update existing profile
+          await tx.tutorProfile.update({
+            where: { userId },
+            data: {
+              bio: validated.data.bio,
+              specialties: validated.data.specialties,
+              // Store additional data in bio or create metadata field
+            },
+          });
+        } else {
+          // Create new tutor profile
+          await tx.tutorProfile.create({
+            data: {
+              userId,
+              bio: validated.data.bio,
+              specialties: validated.data.specialties,
+              approvalStatus: "PENDING", // Tutors need admin approval
+            },
+          });
+        }
+
+        // Update user role
+        await tx.user.update({
+          where: { id: userId },
+          data: { role: Role.TUTOR },
         });
-      }
 
-      // Update user role
-      await prisma.user.update({
-        where: { id: session.user.id },
-        data: { role: Role.TUTOR },
+        // Queue the welcome email with the onboarding
+        const queued = await sendWelcomeEmail(
+          {
+            email: existingUser.email,
+            name: existingUser.name || undefined,
+            role: "TUTOR",
+            locale: existingUser.locale,
+          },
+          // Onboarding can be submitted again; welcome the user only once
+          { tx, userId, dedupKey: `welcome:${userId}` }
+        );
+        return queued.id;
       });
 
-      // Send welcome email (non-blocking)
-      sendWelcomeEmail({
-        email: existingUser.email,
-        name: existingUser.name || undefined,
-        role: "TUTOR",
-      }).catch(async (error) => {
-        const { logger } = await import("@/lib/logger");
-        await logger.error("Failed to send welcome email", error, {
-          userId: session.user.id,
-          role: "TUTOR",
-        });
-        // Don't fail the request if email fails
-      });
+      // Send welcome email (non-blocking, retried by the outbox worker if it fails)
+      deliverQueuedEmails(prisma, [emailId]);
 
       return NextResponse.json(
         {
@@ -19,6 +19,7 @@ import { createErrorResponse, Errors } from "@/lib/errors";
 import { logger } from "@/lib/logger";
 import { BookingStatus } from "@prisma/client";
 import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { getChargedAmount, toStripeAmount } from "@/lib/booking/currency";
 
 export const dynamic = "force-dynamic";
 
@@ -104,6 +105,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Recurring series are paid for once, at booking time
+    if (booking.seriesId) {
+      return createErrorResponse(
+        Errors.BadRequest("Recurring lessons are paid for as a series")
+      );
+    }
+
+    // Credit bookings were paid from the student's balance
+    if (booking.creditMinutes) {
+      return createErrorResponse(
+        Errors.BadRequest("This booking was paid with credits")
+      );
+    }
+
     // Verify booking is confirmed (tutor has confirmed)
     if (booking.status !== BookingStatus.CONFIRMED) {
       return createErrorResponse(
@@ -147,12 +162,13 @@ export async function POST(request: NextRequest) {
       line_items: [
         {
           price_data: {
-            currency: "usd",
+            currency: booking.currency,
             product_data: {
               name: `Tutoring Session with ${booking.tutor.user.name || "Tutor"}`,
               description: `${booking.duration}-minute session scheduled for ${new Date(booking.scheduledAt).toLocaleDateString()}`,
             },
-            unit_amount: Math.round(booking.price * 100), // Convert to cents
+            // Charged in the currency (and at the rate) stored when booking
+            unit_amount: toStripeAmount(getChargedAmount(booking), booking.currency),
           },
           quantity: 1,
         },
@@ -0,0 +1,158 @@
+/**
+ * Credit Bundle Checkout API Route
+ *
+ * Creates a Stripe Checkout Session for a prepaid credit bundle.
+ * Credits are added to the student's balance by the webhook once paid.
+ *
+ * Security:
+ * - Server-side only (keeps secret key secure)
+ * - Only students can buy credits
+ * - Bundle prices are computed server-side
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth";
+import { getStripeClient, isStripeConfigured } from "@/lib/stripe/client";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { Role } from "@prisma/client";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { prisma } from "@/lib/db/prisma";
+import { calculateBundlePrice, getCreditBundle } from "@/lib/booking/credits";
+import {
+  convertFromSettlement,
+  getUserCurrencyQuote,
+  toStripeAmount,
+} from "@/lib/booking/currency";
+
+export const dynamic = "force-dynamic";
+
+const purchaseCreditsSchema = z.object({
+  bundleId: z.string().min(1, "bundleId is required"),
+});
+
+/**
+ * POST /api/payments/credits
+ *
+ * Creates a Stripe Checkout Session for a credit bundle
+ * Rate limited: 10 requests per minute
+ *
+ * Request body:
+ * {
+ *   bundleId: string
+ * }
+ */
+export async function POST(request: NextRequest) {
+  // Check rate limit
+  const rateLimit = await checkRateLimit(request, "PAYMENT");
+  if (!rateLimit.success) {
+    return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+  }
+
+  try {
+    // Check if Stripe is configured
+    if (!isStripeConfigured()) {
+      return createErrorResponse(
+        Errors.InternalServerError("Payment service is not configured")
+      );
+    }
+
+    const stripe = getStripeClient();
+    if (!stripe) {
+      return createErrorResponse(
+        Errors.InternalServerError("Payment service is not available")
+      );
+    }
+
+    // Only students can buy credits
+    const user = await requireRole(Role.STUDENT);
+
+    const body = await request.json();
+    const { bundleId } = purchaseCreditsSchema.parse(body);
+
+    const bundle = getCreditBundle(bundleId);
+    if (!bundle) {
+      return createErrorResponse(Errors.NotFound("Credit bundle not found"));
+    }
+
+    const price = calculateBundlePrice(bundle);
+
+    // Get base URL for redirects
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
+                   process.env.NEXTAUTH_URL ||
+                   request.headers.get("origin") ||
+                   (process.env.NODE_ENV === "production"
+                     ? "https://linglix.com"
+                     : "http://localhost:3000");
+
+    const locale = request.headers.get("x-locale") || "en";
+
+    // Charge in the student's currency
+    const quote = await getUserCurrencyQuote(prisma, user.id, locale);
+
+    // Create Stripe Checkout Session
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ["card"],
+      mode: "payment",
+      line_items: [
+        {
+          price_data: {
+            currency: quote.currency,
+            product_data: {
+              name: `${bundle.hours}-hour lesson bundle`,
+              description: `${bundle.hours} hours of lesson credits (${bundle.discountPercent}% off)`,
+            },
+            unit_amount: toStripeAmount(convertFromSettlement(price, quote), quote.currency),
+          },
+          quantity: 1,
+        },
+      ],
+      customer_email: user.email,
+      metadata: {
+        creditBundleId: bundle.id,
+        studentId: user.id,
+        minutes: (bundle.hours * 60).toString(),
+      },
+      success_url: `${baseUrl}/${locale}/dashboard?credits=success`,
+      cancel_url: `${baseUrl}/${locale}/dashboard?credits=canceled`,
+      payment_intent_data: {
+        metadata: {
+          creditBundleId: bundle.id,
+          studentId: user.id,
+        },
+      },
+    });
+
+    logger.info("Checkout session created for credit bundle", {
+      bundleId: bundle.id,
+      sessionId: session.id,
+      studentId: user.id,
+    });
+
+    return NextResponse.json({
+      sessionId: session.id,
+      url: session.url,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to create credit bundle checkout session", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to start credit purchase. Please try again."
+    );
+  }
+}
@@ -12,6 +12,11 @@
  * - checkout.session.completed: Payment successful
  * - checkout.session.async_payment_succeeded: Payment succeeded after async processing
  * - checkout.session.async_payment_failed: Payment failed after async processing
+ * - account.updated: Tutor's Stripe Connect account changed (payouts enabled)
+ *
+ * Checkout sessions carry a bookingId (single booking), a seriesId
+ * (recurring series paid in one checkout) or a creditBundleId (prepaid
+ * credit bundle) in their metadata.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -19,8 +24,10 @@ import Stripe from "stripe";
 import { getStripeClient, isStripeConfigured } from "@/lib/stripe/client";
 import { prisma } from "@/lib/db/prisma";
 import { logger } from "@/lib/logger";
-import { BookingStatus } from "@prisma/client";
-import { sendPaymentReceiptEmail } from "@/lib/email";
+import { BookingStatus, CreditLedgerEntryType } from "@prisma/client";
+import { deliverQueuedEmails, sendPaymentReceiptEmail } from "@/lib/email";
+import { applyCreditEntry, getCreditBundle } from "@/lib/booking/credits";
+import { fromStripeAmount, getChargedAmount } from "@/lib/booking/currency";
 import { getBaseUrl } from "@/lib/utils/url";
 import { capturePaymentError } from "@/lib/monitoring/sentry-alerts";
 
@@ -128,6 +135,12 @@ export async function POST(request: NextRequest) {
           break;
         }
 
+        case "account.updated": {
+          const account = event.data.object as Stripe.Account;
+          await handleAccountUpdated(account);
+          break;
+        }
+
         default:
           logger.info("Unhandled webhook event type", {
             type: event.type,
@@ -155,7 +168,7 @@ export async function POST(request: NextRequest) {
         const session = event.data.object as Stripe.Checkout.Session;
         capturePaymentError(error, {
           bookingId: session.metadata?.bookingId,
-          amount: session.amount_total ? session.amount_total / 100 : undefined,
+          amount: session.amount_total ? fromStripeAmount(session.amount_total, session.currency) : undefined,
           stripeError: event.type,
         });
       }
@@ -220,6 +233,16 @@ async function checkIfEventProcessed(
  * Handle successful checkout session
  */
 async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  if (session.metadata?.seriesId) {
+    await handleSeriesCheckoutCompleted(session);
+    return;
+  }
+
+  if (session.metadata?.creditBundleId) {
+    await handleCreditBundleCheckoutCompleted(session);
+    return;
+  }
+
   const bookingId = session.metadata?.bookingId;
 
   if (!bookingId) {
@@ -267,6 +290,8 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
               id: true,
               name: true,
               email: true,
+              locale: true,
+              timezone: true,
             },
           },
           tutor: {
@@ -283,44 +308,56 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
         },
       });
 
-      await prisma.booking.update({
-        where: { id: bookingId },
-        data: {
-          paymentId: session.id,
-          // Keep booking as PENDING - waiting for tutor confirmation
-          // Status will be updated to CONFIRMED when tutor approves
-          status: BookingStatus.PENDING,
-        },
+      // Queue the payment receipt with the payment update
+      // (keyed by checkout session so Stripe webhook retries don't send it twice)
+      const emailId = await prisma.$transaction(async (tx) => {
+        await tx.booking.update({
+          where: { id: bookingId },
+          data: {
+            paymentId: session.id,
+            // Keep booking as PENDING - waiting for tutor confirmation
+            // Status will be updated to CONFIRMED when tutor approves
+            status: BookingStatus.PENDING,
+          },
+        });
+
+        if (!bookingWithRelations?.student.email) {
+          return null;
+        }
+
+        const queued = await sendPaymentReceiptEmail(
+          {
+            email: bookingWithRelations.student.email,
+            name: bookingWithRelations.student.name || undefined,
+            amount: session.amount_total
+              ? fromStripeAmount(session.amount_total, session.currency)
+              : getChargedAmount(bookingWithRelations),
+            currency: session.currency || bookingWithRelations.currency,
+            settlementAmount: bookingWithRelations.price,
+            bookingId,
+            tutorName: bookingWithRelations.tutor.user.name || "Tutor",
+            scheduledAt: bookingWithRelations.scheduledAt,
+            locale: bookingWithRelations.student.locale,
+            timezone: bookingWithRelations.student.timezone,
+          },
+          {
+            tx,
+            userId: bookingWithRelations.student.id,
+            dedupKey: `receipt:${session.id}`,
+          }
+        );
+        return queued.id;
       });
 
       logger.info("Booking payment confirmed", {
         bookingId,
         sessionId: session.id,
-        amount: session.amount_total ? session.amount_total / 100 : 0,
+        amount: session.amount_total ? fromStripeAmount(session.amount_total, session.currency) : 0,
         currency: session.currency || "usd",
       });
 
-      // Send payment receipt email
-      if (bookingWithRelations?.student.email) {
-        const amount = session.amount_total ? session.amount_total / 100 : bookingWithRelations.price;
-        const currency = session.currency || "usd";
-        
-        sendPaymentReceiptEmail({
-          email: bookingWithRelations.student.email,
-          name: bookingWithRelations.student.name || undefined,
-          amount,
-          currency,
-          bookingId,
-          tutorName: bookingWithRelations.tutor.user.name || "Tutor",
-          scheduledAt: bookingWithRelations.scheduledAt,
-          locale: "en", // Default to English - can be enhanced with user preferences later
-        }).catch((error) => {
-          logger.error("Failed to send payment receipt email", {
-            bookingId,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        });
-      }
+      // Send payment receipt email (non-blocking, retried by the outbox worker if it fails)
+      deliverQueuedEmails(prisma, [emailId]);
     } else if (booking.paymentId === session.id) {
       // Payment already processed for this session - idempotent success
       logger.info("Booking payment already processed (idempotent)", {
@@ -347,6 +384,195 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
   }
 }
 
+/**
+ * Handle successful checkout session for a recurring series
+ *
+ * Occurrences stay PENDING until the tutor confirms them, like single bookings.
+ */
+async function handleSeriesCheckoutCompleted(session: Stripe.Checkout.Session) {
+  const seriesId = session.metadata!.seriesId;
+
+  // Check if payment was actually successful
+  if (session.payment_status !== "paid") {
+    logger.warn("Series checkout session completed but payment not paid", {
+      sessionId: session.id,
+      seriesId,
+      paymentStatus: session.payment_status,
+    });
+    return;
+  }
+
+  try {
+    const series = await prisma.bookingSeries.findUnique({
+      where: { id: seriesId },
+      include: {
+        student: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            locale: true,
+            timezone: true,
+          },
+        },
+        tutor: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+        // The receipt references the first session of the series
+        bookings: {
+          select: { id: true },
+          orderBy: { scheduledAt: "asc" },
+          take: 1,
+        },
+      },
+    });
+
+    if (!series) {
+      logger.error("Booking series not found for completed checkout", {
+        seriesId,
+        sessionId: session.id,
+      });
+      return;
+    }
+
+    // Make sure every occurrence references the paid session (idempotent),
+    // queueing the payment receipt with it
+    // (keyed by checkout session so Stripe webhook retries don't send it twice)
+    const emailId = await prisma.$transaction(async (tx) => {
+      await tx.bookingSeries.update({
+        where: { id: seriesId },
+        data: { paymentId: session.id },
+      });
+      await tx.booking.updateMany({
+        where: { seriesId },
+        data: { paymentId: session.id },
+      });
+
+      if (!series.student.email || series.bookings.length === 0) {
+        return null;
+      }
+
+      const queued = await sendPaymentReceiptEmail(
+        {
+          email: series.student.email,
+          name: series.student.name || undefined,
+          amount: session.amount_total ? fromStripeAmount(session.amount_total, session.currency) : series.totalPrice,
+          currency: session.currency || "usd",
+          settlementAmount: series.totalPrice,
+          bookingId: series.bookings[0].id,
+          tutorName: series.tutor.user.name || "Tutor",
+          scheduledAt: series.startsAt,
+          locale: series.student.locale,
+          timezone: series.student.timezone,
+        },
+        {
+          tx,
+          userId: series.student.id,
+          dedupKey: `receipt:${session.id}`,
+        }
+      );
+      return queued.id;
+    });
+
+    logger.info("Booking series payment confirmed", {
+      seriesId,
+      sessionId: session.id,
+      occurrences: series.occurrences,
+      amount: session.amount_total ? fromStripeAmount(session.amount_total, session.currency) : 0,
+      currency: session.currency || "usd",
+    });
+
+    // Send payment receipt email (non-blocking, retried by the outbox worker if it fails)
+    deliverQueuedEmails(prisma, [emailId]);
+  } catch (error) {
+    logger.error("Error updating booking series after payment", {
+      seriesId,
+      sessionId: session.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error; // Re-throw to trigger webhook retry
+  }
+}
+
+/**
+ * Handle successful checkout session for a prepaid credit bundle
+ *
+ * The ledger entry's unique paymentId makes this idempotent.
+ */
+async function handleCreditBundleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  const { creditBundleId, studentId } = session.metadata!;
+
+  // Check if payment was actually successful
+  if (session.payment_status !== "paid") {
+    logger.warn("Credit bundle checkout completed but payment not paid", {
+      sessionId: session.id,
+      bundleId: creditBundleId,
+      paymentStatus: session.payment_status,
+    });
+    return;
+  }
+
+  const bundle = getCreditBundle(creditBundleId);
+  if (!bundle || !studentId) {
+    logger.error("Credit bundle checkout completed with invalid metadata", {
+      sessionId: session.id,
+      bundleId: creditBundleId,
+      studentId,
+    });
+    return;
+  }
+
+  try {
+    const existingEntry = await prisma.creditLedgerEntry.findUnique({
+      where: { paymentId: session.id },
+    });
+
+    if (existingEntry) {
+      logger.info("Credit bundle already granted (idempotent)", {
+        sessionId: session.id,
+        ledgerEntryId: existingEntry.id,
+      });
+      return;
+    }
+
+    const entry = await prisma.$transaction((tx) =>
+      applyCreditEntry(tx, {
+        userId: studentId,
+        type: CreditLedgerEntryType.PURCHASE,
+        minutes: bundle.hours * 60,
+        bundleId: bundle.id,
+        paymentId: session.id,
+        amountPaid: session.amount_total ? fromStripeAmount(session.amount_total, session.currency) : undefined,
+        currency: session.currency || undefined,
+        description: `${bundle.hours}-hour bundle`,
+      })
+    );
+
+    logger.info("Credit bundle payment confirmed", {
+      sessionId: session.id,
+      bundleId: bundle.id,
+      studentId,
+      balanceAfter: entry.balanceAfter,
+      amount: session.amount_total ? fromStripeAmount(session.amount_total, session.currency) : 0,
+      currency: session.currency || "usd",
+    });
+  } catch (error) {
+    logger.error("Error granting credits after payment", {
+      bundleId: creditBundleId,
+      sessionId: session.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error; // Re-throw to trigger webhook retry
+  }
+}
+
 /**
  * Handle failed checkout session
  */
@@ -370,3 +596,28 @@ async function handleCheckoutFailed(session: Stripe.Checkout.Session) {
   // For now, we just log it - the booking remains CONFIRMED
   // Student can retry payment
 }
+
+/**
+ * Handle Stripe Connect account update
+ * Keeps the tutor's payoutsEnabled flag in sync once onboarding is finished
+ */
+async function handleAccountUpdated(account: Stripe.Account) {
+  const payoutsEnabled = !!(account.details_submitted && account.payouts_enabled);
+
+  const updated = await prisma.tutorProfile.updateMany({
+    where: { stripeAccountId: account.id },
+    data: { payoutsEnabled },
+  });
+
+  if (updated.count === 0) {
+    logger.warn("Connect account update for unknown tutor", {
+      accountId: account.id,
+    });
+    return;
+  }
+
+  logger.info("Tutor payout account updated", {
+    accountId: account.id,
+    payoutsEnabled,
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Session Recording Playback API Route
+ *
+ * GET /api/recordings/[id]
+ *
+ * Streams a recording from blob storage to the session's participants and
+ * admins. Range requests are passed through so the video can be seeked.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getBookingRole } from "@/lib/booking/validation";
+
+export const dynamic = "force-dynamic";
+
+const PASSTHROUGH_HEADERS = ["content-length", "content-range", "accept-ranges", "etag", "last-modified"];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const recording = await prisma.sessionRecording.findUnique({
+      where: { id },
+      include: {
+        booking: {
+          select: {
+            studentId: true,
+            tutor: {
+              select: { userId: true },
+            },
+          },
+        },
+      },
+    });
+
+    // Expired recordings are gone even if the cron job hasn't deleted them yet
+    if (!recording || recording.expiresAt <= new Date()) {
+      return createErrorResponse(Errors.NotFound("Recording not found"));
+    }
+
+    if (!getBookingRole(recording.booking, user)) {
+      return createErrorResponse(
+        Errors.Forbidden("You don't have access to this recording")
+      );
+    }
+
+    const range = request.headers.get("range");
+    const upstream = await fetch(recording.url, {
+      headers: range ? { Range: range } : undefined,
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      logger.error("Failed to fetch recording from blob storage", {
+        recordingId: id,
+        status: upstream.status,
+      });
+      return createErrorResponse(Errors.NotFound("Recording not found"));
+    }
+
+    const headers = new Headers({
+      "Content-Type": recording.contentType,
+      "Cache-Control": "private, no-store",
+    });
+    for (const name of PASSTHROUGH_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) {
+        headers.set(name, value);
+      }
+    }
+
+    return new NextResponse(upstream.body, {
+      status: upstream.status,
+      headers,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to stream recording", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to load recording. Please try again."
+    );
+  }
+}
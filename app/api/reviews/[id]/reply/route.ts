@@ -0,0 +1,146 @@
+/**
+ * Review Reply API Route
+ *
+ * Lets a tutor publicly respond to a review:
+ * - PUT: Add or update the reply
+ * - DELETE: Remove the reply
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { reviewReplySchema } from "@/lib/booking/reviews";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Fetch a review and verify the current user is the reviewed tutor
+ */
+async function getOwnReview(reviewId: string, userId: string) {
+  const review = await prisma.review.findUnique({
+    where: { id: reviewId },
+  });
+
+  if (!review) {
+    throw Errors.NotFound("Review not found");
+  }
+
+  const tutorProfile = await prisma.tutorProfile.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (!tutorProfile || tutorProfile.id !== review.tutorId) {
+    throw Errors.Forbidden("You can only reply to reviews of your own sessions");
+  }
+
+  return review;
+}
+
+/**
+ * PUT /api/reviews/[id]/reply
+ *
+ * Add or update the tutor's reply to a review
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimit = await checkRateLimit(request, "GENERAL");
+  if (!rateLimit.success) {
+    return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+  }
+
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const { reply } = reviewReplySchema.parse(body);
+
+    await getOwnReview(id, user.id);
+
+    const updatedReview = await prisma.review.update({
+      where: { id },
+      data: {
+        tutorReply: reply,
+        tutorRepliedAt: new Date(),
+      },
+    });
+
+    logger.info("Tutor replied to review", {
+      reviewId: id,
+      tutorId: updatedReview.tutorId,
+    });
+
+    return NextResponse.json({
+      message: "Reply saved successfully",
+      review: updatedReview,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to save review reply", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to save reply. Please try again."
+    );
+  }
+}
+
+/**
+ * DELETE /api/reviews/[id]/reply
+ *
+ * Remove the tutor's reply from a review
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    await getOwnReview(id, user.id);
+
+    const updatedReview = await prisma.review.update({
+      where: { id },
+      data: {
+        tutorReply: null,
+        tutorRepliedAt: null,
+      },
+    });
+
+    return NextResponse.json({
+      message: "Reply removed successfully",
+      review: updatedReview,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to remove review reply", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to remove reply. Please try again."
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { prisma } from "@/lib/db/prisma";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { Role } from "@prisma/client";
 import { z } from "zod";
+import { isValidTimeZone } from "@/lib/utils/timezone";
+import { findOverlappingAvailability } from "@/lib/booking/availability";
 
 /**
  * Update Availability Schema
@@ -12,7 +14,10 @@ const updateAvailabilitySchema = z.object({
   dayOfWeek: z.number().int().min(0).max(6).optional(),
   startTime: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/).optional(),
   endTime: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/).optional(),
-  timezone: z.string().optional(),
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Invalid timezone" })
+    .optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -55,56 +60,38 @@ export async function PUT(
     const body = await request.json();
     const validated = updateAvailabilitySchema.parse(body);
 
-    // If updating times, validate them
-    if (validated.startTime || validated.endTime) {
-      const startTime = validated.startTime || existing.startTime;
-      const endTime = validated.endTime || existing.endTime;
+    const updated = {
+      dayOfWeek: validated.dayOfWeek ?? existing.dayOfWeek,
+      startTime: validated.startTime || existing.startTime,
+      endTime: validated.endTime || existing.endTime,
+      timezone: validated.timezone || existing.timezone,
+      isActive: validated.isActive ?? existing.isActive,
+    };
 
-      const [startHour, startMin] = startTime.split(":").map(Number);
-      const [endHour, endMin] = endTime.split(":").map(Number);
-      const startMinutes = startHour * 60 + startMin;
-      const endMinutes = endHour * 60 + endMin;
-
-      if (endMinutes <= startMinutes) {
-        return createErrorResponse(
-          Errors.BadRequest("End time must be after start time")
-        );
-      }
+    // An end time earlier than the start time means the window crosses midnight
+    if (updated.startTime === updated.endTime) {
+      return createErrorResponse(
+        Errors.BadRequest("End time must be different from start time")
+      );
+    }
 
-      // Check for overlapping availability (excluding current slot)
-      const dayOfWeek = validated.dayOfWeek ?? existing.dayOfWeek;
-      const overlapping = await prisma.availability.findFirst({
+    // Check for overlapping availability (excluding current slot)
+    if (updated.isActive) {
+      const otherSlots = await prisma.availability.findMany({
         where: {
           tutorId: user.tutorProfile.id,
-          dayOfWeek,
           isActive: true,
           id: { not: id },
-          OR: [
-            {
-              AND: [
-                { startTime: { lte: startTime } },
-                { endTime: { gt: startTime } },
-              ],
-            },
-            {
-              AND: [
-                { startTime: { lt: endTime } },
-                { endTime: { gte: endTime } },
-              ],
-            },
-            {
-              AND: [
-                { startTime: { gte: startTime } },
-                { endTime: { lte: endTime } },
-              ],
-            },
-          ],
         },
       });
 
+      const overlapping = findOverlappingAvailability(updated, otherSlots);
+
       if (overlapping) {
         return createErrorResponse(
-          Errors.Conflict("Availability slot overlaps with existing slot")
+          Errors.Conflict(
+            `Availability slot overlaps with existing slot (${overlapping.startTime}-${overlapping.endTime})`
+          )
         );
       }
     }
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/config/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { Role } from "@prisma/client";
+import { z } from "zod";
+import { splitAvailabilityTimes } from "@/lib/booking/availability";
+
+/**
+ * Split Availability Schema
+ */
+const splitAvailabilitySchema = z.object({
+  splitAt: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/), // HH:mm format
+  resumeAt: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/).optional(), // HH:mm format
+});
+
+/**
+ * POST /api/tutor/availability/[id]/split
+ * Split an availability slot in two, optionally leaving a break between
+ * the parts (e.g. 09:00-17:00 split at 12:00, resuming at 13:00)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    const { id } = await params;
+
+    // Verify user is a tutor
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { tutorProfile: true },
+    });
+
+    if (!user || user.role !== Role.TUTOR || !user.tutorProfile) {
+      return createErrorResponse(Errors.Forbidden());
+    }
+
+    // Verify availability belongs to this tutor
+    const existing = await prisma.availability.findUnique({
+      where: { id },
+    });
+
+    if (!existing || existing.tutorId !== user.tutorProfile.id) {
+      return createErrorResponse(Errors.NotFound("Availability not found"));
+    }
+
+    const body = await request.json();
+    const validated = splitAvailabilitySchema.parse(body);
+
+    const parts = splitAvailabilityTimes(existing, validated.splitAt, validated.resumeAt);
+
+    if (!parts) {
+      return createErrorResponse(
+        Errors.BadRequest("Split time must be inside the availability slot")
+      );
+    }
+
+    const [first, second] = parts;
+
+    // Shrink the existing slot and create the second part
+    const availability = await prisma.$transaction(async (tx) => [
+      await tx.availability.update({
+        where: { id },
+        data: { endTime: first.endTime },
+      }),
+      await tx.availability.create({
+        data: {
+          tutorId: existing.tutorId,
+          ...second,
+          timezone: existing.timezone,
+          isActive: existing.isActive,
+        },
+      }),
+    ]);
+
+    return NextResponse.json(
+      { availability, message: "Availability split successfully" },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid input")
+      );
+    }
+
+    return createErrorResponse(error, "Failed to split availability");
+  }
+}
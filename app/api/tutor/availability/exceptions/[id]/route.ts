@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/config/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { Role } from "@prisma/client";
+
+/**
+ * DELETE /api/tutor/availability/exceptions/[id]
+ * Delete an availability exception (restores the weekly schedule for those dates)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    const { id } = await params;
+
+    // Verify user is a tutor
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { tutorProfile: true },
+    });
+
+    if (!user || user.role !== Role.TUTOR || !user.tutorProfile) {
+      return createErrorResponse(Errors.Forbidden());
+    }
+
+    // Verify exception belongs to this tutor
+    const existing = await prisma.availabilityException.findUnique({
+      where: { id },
+    });
+
+    if (!existing || existing.tutorId !== user.tutorProfile.id) {
+      return createErrorResponse(Errors.NotFound("Availability exception not found"));
+    }
+
+    await prisma.availabilityException.delete({
+      where: { id },
+    });
+
+    return NextResponse.json(
+      { message: "Availability exception deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    return createErrorResponse(error, "Failed to delete availability exception");
+  }
+}
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/config/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { BookingStatus, Role } from "@prisma/client";
+import { z } from "zod";
+import {
+  getCurrentExceptionsFilter,
+  getExceptionInterval,
+} from "@/lib/booking/availability";
+import { VALID_DURATIONS } from "@/lib/booking/validation";
+import { isValidTimeZone } from "@/lib/utils/timezone";
+
+/**
+ * Maximum length of a single time-off block (in days)
+ */
+const MAX_BLOCK_DAYS = 365;
+
+/**
+ * Longest booking duration (in minutes) - used to find bookings
+ * that start before a block but run into it
+ */
+const MAX_BOOKING_DURATION_MINUTES = Math.max(...VALID_DURATIONS);
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$/; // YYYY-MM-DD
+const timeRegex = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/; // HH:mm
+
+/**
+ * Availability Exception Schema
+ */
+const availabilityExceptionSchema = z
+  .object({
+    type: z.enum(["BLOCKED", "AVAILABLE"]),
+    startDate: z.string().regex(dateKeyRegex, "Invalid start date"),
+    endDate: z.string().regex(dateKeyRegex, "Invalid end date").optional(),
+    startTime: z.string().regex(timeRegex, "Invalid start time").optional(),
+    endTime: z.string().regex(timeRegex, "Invalid end time").optional(),
+    timezone: z
+      .string()
+      .optional()
+      .default("UTC")
+      .refine(isValidTimeZone, { message: "Invalid timezone" }),
+    reason: z.string().trim().max(200, "Reason must be less than 200 characters").optional(),
+  })
+  .superRefine((data, ctx) => {
+    const endDate = data.endDate ?? data.startDate;
+
+    if (endDate < data.startDate) {
+      ctx.addIssue({ code: "custom", message: "End date must be on or after start date" });
+    }
+
+    if (!data.startTime !== !data.endTime) {
+      ctx.addIssue({ code: "custom", message: "Provide both start and end time, or neither" });
+    }
+
+    if (data.type === "AVAILABLE") {
+      if (!data.startTime || !data.endTime) {
+        ctx.addIssue({ code: "custom", message: "Extra availability needs a start and end time" });
+      } else if (data.startTime === data.endTime) {
+        ctx.addIssue({ code: "custom", message: "End time must be different from start time" });
+      }
+
+      if (endDate !== data.startDate) {
+        ctx.addIssue({ code: "custom", message: "Extra availability must be on a single date" });
+      }
+    }
+
+    if (
+      data.type === "BLOCKED" &&
+      data.startTime &&
+      data.endTime &&
+      endDate === data.startDate &&
+      data.endTime <= data.startTime
+    ) {
+      ctx.addIssue({ code: "custom", message: "End time must be after start time" });
+    }
+  });
+
+/**
+ * GET /api/tutor/availability/exceptions
+ * Get tutor's current and upcoming availability exceptions
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    // Verify user is a tutor
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { tutorProfile: true },
+    });
+
+    if (!user || user.role !== Role.TUTOR || !user.tutorProfile) {
+      return createErrorResponse(Errors.Forbidden());
+    }
+
+    const exceptions = await prisma.availabilityException.findMany({
+      where: {
+        tutorId: user.tutorProfile.id,
+        ...getCurrentExceptionsFilter(),
+      },
+      orderBy: [
+        { startDate: "asc" },
+        { startTime: "asc" },
+      ],
+    });
+
+    return NextResponse.json({ exceptions }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(error, "Failed to fetch availability exceptions");
+  }
+}
+
+/**
+ * POST /api/tutor/availability/exceptions
+ * Create time off (BLOCKED) or an extra one-off window (AVAILABLE)
+ *
+ * When blocking time, confirmed bookings inside the block are returned as
+ * a warning - they are not cancelled automatically.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    // Verify user is a tutor
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { tutorProfile: true },
+    });
+
+    if (!user || user.role !== Role.TUTOR || !user.tutorProfile) {
+      return createErrorResponse(Errors.Forbidden());
+    }
+
+    const body = await request.json();
+    const validated = availabilityExceptionSchema.parse(body);
+
+    const data = {
+      tutorId: user.tutorProfile.id,
+      type: validated.type,
+      startDate: validated.startDate,
+      endDate: validated.endDate ?? validated.startDate,
+      startTime: validated.startTime ?? null,
+      endTime: validated.endTime ?? null,
+      timezone: validated.timezone || "UTC",
+      reason: validated.reason || null,
+    };
+
+    const { start, end } = getExceptionInterval(data);
+
+    if (end <= new Date()) {
+      return createErrorResponse(
+        Errors.BadRequest("Exceptions must end in the future")
+      );
+    }
+
+    if (end.getTime() - start.getTime() > MAX_BLOCK_DAYS * 24 * 60 * 60 * 1000) {
+      return createErrorResponse(
+        Errors.BadRequest(`Time off cannot be longer than ${MAX_BLOCK_DAYS} days`)
+      );
+    }
+
+    const exception = await prisma.availabilityException.create({ data });
+
+    // Warn about confirmed bookings that fall inside the new block
+    let conflictingBookings: {
+      id: string;
+      scheduledAt: Date;
+      duration: number;
+      studentName: string | null;
+    }[] = [];
+
+    if (exception.type === "BLOCKED") {
+      const candidates = await prisma.booking.findMany({
+        where: {
+          tutorId: user.tutorProfile.id,
+          status: BookingStatus.CONFIRMED,
+          scheduledAt: {
+            gt: new Date(start.getTime() - MAX_BOOKING_DURATION_MINUTES * 60 * 1000),
+            lt: end,
+          },
+        },
+        include: {
+          student: {
+            select: { name: true },
+          },
+        },
+        orderBy: { scheduledAt: "asc" },
+      });
+
+      conflictingBookings = candidates
+        .filter(
+          (booking) =>
+            new Date(booking.scheduledAt.getTime() + booking.duration * 60 * 1000) > start
+        )
+        .map((booking) => ({
+          id: booking.id,
+          scheduledAt: booking.scheduledAt,
+          duration: booking.duration,
+          studentName: booking.student.name,
+        }));
+    }
+
+    return NextResponse.json(
+      {
+        exception,
+        conflictingBookings,
+        message:
+          conflictingBookings.length > 0
+            ? `Time off saved. ${conflictingBookings.length} confirmed booking(s) fall inside this block and still need to be rescheduled or cancelled.`
+            : "Availability exception created successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid input")
+      );
+    }
+
+    return createErrorResponse(error, "Failed to create availability exception");
+  }
+}
@@ -4,6 +4,12 @@ import { prisma } from "@/lib/db/prisma";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { Role } from "@prisma/client";
 import { z } from "zod";
+import { isValidTimeZone } from "@/lib/utils/timezone";
+import {
+  findOverlappingAvailability,
+  getMergeableAvailability,
+  mergeAvailabilityTimes,
+} from "@/lib/booking/availability";
 
 /**
  * Availability Schema
@@ -12,8 +18,13 @@ const availabilitySchema = z.object({
   dayOfWeek: z.number().int().min(0).max(6), // 0 = Sunday, 6 = Saturday
   startTime: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/), // HH:mm format
   endTime: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/), // HH:mm format
-  timezone: z.string().optional().default("UTC"),
+  timezone: z
+    .string()
+    .optional()
+    .default("UTC")
+    .refine(isValidTimeZone, { message: "Invalid timezone" }), // IANA timezone, e.g. "Asia/Tokyo"
   isActive: z.boolean().optional().default(true),
+  merge: z.boolean().optional().default(false), // Merge with touching/overlapping slots on the same day
 });
 
 /**
@@ -81,66 +92,91 @@ export async function POST(request: NextRequest) {
     const validated = availabilitySchema.parse(body);
 
     // Validate time range
-    const [startHour, startMin] = validated.startTime.split(":").map(Number);
-    const [endHour, endMin] = validated.endTime.split(":").map(Number);
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
-
-    if (endMinutes <= startMinutes) {
+    // An end time earlier than the start time means the window crosses midnight
+    if (validated.startTime === validated.endTime) {
       return createErrorResponse(
-        Errors.BadRequest("End time must be after start time")
+        Errors.BadRequest("End time must be different from start time")
       );
     }
 
-    // Check for overlapping availability on the same day
-    const existing = await prisma.availability.findFirst({
+    const tutorId = user.tutorProfile.id;
+    const candidate = {
+      dayOfWeek: validated.dayOfWeek,
+      startTime: validated.startTime,
+      endTime: validated.endTime,
+      timezone: validated.timezone || "UTC",
+      isActive: validated.isActive ?? true,
+    };
+
+    const existingSlots = await prisma.availability.findMany({
       where: {
-        tutorId: user.tutorProfile.id,
-        dayOfWeek: validated.dayOfWeek,
+        tutorId,
         isActive: true,
-        OR: [
-          {
-            AND: [
-              { startTime: { lte: validated.startTime } },
-              { endTime: { gt: validated.startTime } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { lt: validated.endTime } },
-              { endTime: { gte: validated.endTime } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { gte: validated.startTime } },
-              { endTime: { lte: validated.endTime } },
-            ],
-          },
-        ],
       },
     });
 
-    if (existing) {
-      return createErrorResponse(
-        Errors.Conflict("Availability slot overlaps with existing slot")
+    // Optionally merge with touching/overlapping slots on the same day
+    const slotsToMerge =
+      validated.merge && candidate.isActive
+        ? getMergeableAvailability(candidate, existingSlots)
+        : [];
+
+    if (slotsToMerge.length > 0) {
+      const merged = mergeAvailabilityTimes([candidate, ...slotsToMerge]);
+
+      if (!merged) {
+        return createErrorResponse(
+          Errors.BadRequest("Merged slot would cover 24 hours or more")
+        );
+      }
+
+      candidate.startTime = merged.startTime;
+      candidate.endTime = merged.endTime;
+    }
+
+    // Check for overlapping availability (including other days, via overnight slots)
+    if (candidate.isActive) {
+      const overlapping = findOverlappingAvailability(
+        candidate,
+        existingSlots.filter((slot) => !slotsToMerge.includes(slot))
       );
+
+      if (overlapping) {
+        return createErrorResponse(
+          Errors.Conflict(
+            `Availability slot overlaps with existing slot (${overlapping.startTime}-${overlapping.endTime})`
+          )
+        );
+      }
     }
 
-    // Create availability
-    const availability = await prisma.availability.create({
-      data: {
-        tutorId: user.tutorProfile.id,
-        dayOfWeek: validated.dayOfWeek,
-        startTime: validated.startTime,
-        endTime: validated.endTime,
-        timezone: validated.timezone || "UTC",
-        isActive: validated.isActive ?? true,
-      },
+    // Create availability, replacing any merged slots
+    const availability = await prisma.$transaction(async (tx) => {
+      if (slotsToMerge.length > 0) {
+        await tx.availability.deleteMany({
+          where: {
+            id: { in: slotsToMerge.map((slot) => slot.id) },
+          },
+        });
+      }
+
+      return tx.availability.create({
+        data: {
+          tutorId,
+          ...candidate,
+        },
+      });
     });
 
     return NextResponse.json(
-      { availability, message: "Availability created successfully" },
+      {
+        availability,
+        mergedSlotIds: slotsToMerge.map((slot) => slot.id),
+        message:
+          slotsToMerge.length > 0
+            ? "Availability merged successfully"
+            : "Availability created successfully",
+      },
       { status: 201 }
     );
   } catch (error) {
@@ -0,0 +1,93 @@
+/**
+ * Tutor Payout Onboarding API Route
+ *
+ * Creates the tutor's Stripe Connect Express account (first time only)
+ * and returns a Stripe-hosted onboarding link.
+ *
+ * Security:
+ * - Server-side only (keeps secret key secure)
+ * - Only tutors can onboard
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { isStripeConfigured } from "@/lib/stripe/client";
+import { createOnboardingLink } from "@/lib/stripe/payouts";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { Role } from "@prisma/client";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/tutor/payouts/onboard
+ *
+ * Returns a Stripe Connect onboarding URL
+ * Rate limited: 10 requests per minute
+ */
+export async function POST(request: NextRequest) {
+  // Check rate limit
+  const rateLimit = await checkRateLimit(request, "PAYMENT");
+  if (!rateLimit.success) {
+    return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+  }
+
+  try {
+    // Check if Stripe is configured
+    if (!isStripeConfigured()) {
+      return createErrorResponse(
+        Errors.InternalServerError("Payment service is not configured")
+      );
+    }
+
+    const user = await requireRole(Role.TUTOR);
+
+    const tutorProfile = await prisma.tutorProfile.findUnique({
+      where: { userId: user.id },
+      select: {
+        id: true,
+        stripeAccountId: true,
+      },
+    });
+
+    if (!tutorProfile) {
+      return createErrorResponse(Errors.NotFound("Tutor profile not found"));
+    }
+
+    // Get base URL for redirects
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
+                   process.env.NEXTAUTH_URL ||
+                   request.headers.get("origin") ||
+                   (process.env.NODE_ENV === "production"
+                     ? "https://linglix.com"
+                     : "http://localhost:3000");
+
+    const locale = request.headers.get("x-locale") || "en";
+
+    const url = await createOnboardingLink(tutorProfile, user.email, {
+      returnUrl: `${baseUrl}/${locale}/dashboard?payouts=return`,
+      refreshUrl: `${baseUrl}/${locale}/dashboard?payouts=refresh`,
+    });
+
+    logger.info("Stripe Connect onboarding link created", {
+      tutorId: tutorProfile.id,
+    });
+
+    return NextResponse.json({ url });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to create payout onboarding link", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to start payout setup. Please try again."
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Tutor Payouts API Route
+ *
+ * Returns the authenticated tutor's payout account status, unpaid balance,
+ * recent earnings ledger entries and payout history
+ */
+
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { Role } from "@prisma/client";
+import { EARNINGS_HISTORY_LIMIT, getUnpaidEarnings } from "@/lib/booking/earnings";
+import {
+  EARNINGS_CLEARING_DAYS,
+  PAYOUT_DAY_OF_WEEK,
+  PAYOUT_MINIMUM_AMOUNT,
+  syncConnectAccount,
+} from "@/lib/stripe/payouts";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/tutor/payouts
+ *
+ * Get payout status, earnings and payout history for authenticated tutor
+ */
+export async function GET() {
+  try {
+    const user = await requireRole(Role.TUTOR);
+
+    const tutorProfile = await prisma.tutorProfile.findUnique({
+      where: { userId: user.id },
+      select: {
+        id: true,
+        stripeAccountId: true,
+        payoutsEnabled: true,
+        payoutsHeld: true,
+        payoutHoldReason: true,
+      },
+    });
+
+    if (!tutorProfile) {
+      return createErrorResponse(Errors.NotFound("Tutor profile not found"));
+    }
+
+    // Tutors returning from onboarding - pick up the latest account status
+    let payoutsEnabled = tutorProfile.payoutsEnabled;
+    if (tutorProfile.stripeAccountId && !payoutsEnabled) {
+      try {
+        payoutsEnabled = await syncConnectAccount(tutorProfile.stripeAccountId);
+      } catch (error) {
+        logger.warn("Failed to sync Stripe Connect account", {
+          tutorId: tutorProfile.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const [unpaidBalance, totals, entries, payouts] = await Promise.all([
+      getUnpaidEarnings(prisma, tutorProfile.id),
+      prisma.earningEntry.aggregate({
+        where: { tutorId: tutorProfile.id },
+        _sum: { amount: true },
+      }),
+      prisma.earningEntry.findMany({
+        where: { tutorId: tutorProfile.id },
+        orderBy: { createdAt: "desc" },
+        take: EARNINGS_HISTORY_LIMIT,
+      }),
+      prisma.payout.findMany({
+        where: { tutorId: tutorProfile.id },
+        orderBy: { createdAt: "desc" },
+        take: EARNINGS_HISTORY_LIMIT,
+      }),
+    ]);
+
+    return NextResponse.json({
+      account: {
+        connected: !!tutorProfile.stripeAccountId,
+        payoutsEnabled,
+        payoutsHeld: tutorProfile.payoutsHeld,
+        payoutHoldReason: tutorProfile.payoutHoldReason,
+      },
+      unpaidBalance,
+      totalEarned: Math.round((totals._sum.amount || 0) * 100) / 100,
+      entries,
+      payouts,
+      schedule: {
+        dayOfWeek: PAYOUT_DAY_OF_WEEK,
+        clearingDays: EARNINGS_CLEARING_DAYS,
+        minimumAmount: PAYOUT_MINIMUM_AMOUNT,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch payouts. Please try again."
+    );
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Tutor Pricing API Route
+ *
+ * Lets tutors set their hourly rate, per-duration prices and trial lesson
+ * price within the admin-defined bounds
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { Role } from "@prisma/client";
+import { invalidateCache } from "@/lib/cache";
+import {
+  getPricingBounds,
+  getPriceOptions,
+  tutorPricingSchema,
+  validateTutorPricing,
+  TRIAL_LESSON_DURATION,
+} from "@/lib/booking/pricing";
+import { TUTOR_COMMISSION_PERCENT } from "@/lib/booking/earnings";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/tutor/pricing
+ *
+ * Get pricing and the allowed bounds for authenticated tutor
+ */
+export async function GET() {
+  try {
+    const user = await requireRole(Role.TUTOR);
+
+    const [tutorProfile, bounds] = await Promise.all([
+      prisma.tutorProfile.findUnique({
+        where: { userId: user.id },
+        select: {
+          hourlyRate: true,
+          trialPrice: true,
+          priceTiers: {
+            select: { duration: true, price: true },
+            orderBy: { duration: "asc" },
+          },
+        },
+      }),
+      getPricingBounds(prisma),
+    ]);
+
+    if (!tutorProfile) {
+      return createErrorResponse(Errors.NotFound("Tutor profile not found"));
+    }
+
+    return NextResponse.json({
+      pricing: tutorProfile,
+      priceOptions: getPriceOptions(tutorProfile),
+      bounds,
+      trialDuration: TRIAL_LESSON_DURATION,
+      commissionPercent: TUTOR_COMMISSION_PERCENT,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch pricing. Please try again."
+    );
+  }
+}
+
+/**
+ * PUT /api/tutor/pricing
+ *
+ * Replace the tutor's pricing. Only affects new bookings - existing
+ * bookings keep the price they were booked at.
+ *
+ * Request body:
+ * {
+ *   hourlyRate: number,
+ *   priceTiers?: { duration: 30 | 90, price: number }[],
+ *   trialPrice?: number | null
+ * }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireRole(Role.TUTOR);
+
+    const body = await request.json();
+    const pricing = tutorPricingSchema.parse(body);
+
+    const tutorProfile = await prisma.tutorProfile.findUnique({
+      where: { userId: user.id },
+      select: { id: true },
+    });
+
+    if (!tutorProfile) {
+      return createErrorResponse(Errors.NotFound("Tutor profile not found"));
+    }
+
+    const bounds = await getPricingBounds(prisma);
+    const validation = validateTutorPricing(pricing, bounds);
+    if (!validation.valid) {
+      return createErrorResponse(
+        Errors.BadRequest(validation.error || "Invalid pricing")
+      );
+    }
+
+    const updatedProfile = await prisma.$transaction(async (tx) => {
+      await tx.tutorPriceTier.deleteMany({
+        where: { tutorId: tutorProfile.id },
+      });
+
+      if (pricing.priceTiers.length > 0) {
+        await tx.tutorPriceTier.createMany({
+          data: pricing.priceTiers.map((tier) => ({
+            tutorId: tutorProfile.id,
+            duration: tier.duration,
+            price: tier.price,
+          })),
+        });
+      }
+
+      return await tx.tutorProfile.update({
+        where: { id: tutorProfile.id },
+        data: {
+          hourlyRate: pricing.hourlyRate,
+          trialPrice: pricing.trialPrice,
+        },
+        select: {
+          hourlyRate: true,
+          trialPrice: true,
+          priceTiers: {
+            select: { duration: true, price: true },
+            orderBy: { duration: "asc" },
+          },
+        },
+      });
+    });
+
+    // Rates are shown on featured tutor cards (non-blocking)
+    invalidateCache("FEATURED_TUTORS").catch(() => {
+      // Ignore cache invalidation errors
+    });
+
+    logger.info("Tutor pricing updated", {
+      tutorId: tutorProfile.id,
+      hourlyRate: pricing.hourlyRate,
+      priceTiers: pricing.priceTiers.length,
+      trialPrice: pricing.trialPrice,
+    });
+
+    return NextResponse.json({
+      pricing: updatedProfile,
+      priceOptions: getPriceOptions(updatedProfile),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to update tutor pricing", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to update pricing. Please try again."
+    );
+  }
+}
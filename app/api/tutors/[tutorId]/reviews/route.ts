@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  MAX_REVIEWS_PAGE_SIZE,
+  REVIEWS_PAGE_SIZE,
+  getTutorReviews,
+} from "@/lib/booking/reviews";
+
+export const dynamic = "force-dynamic";
+
+const reviewsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_REVIEWS_PAGE_SIZE).default(REVIEWS_PAGE_SIZE),
+  tag: z.string().trim().toLowerCase().optional(),
+});
+
+/**
+ * GET /api/tutors/[tutorId]/reviews?page=1&limit=5&tag=patient
+ *
+ * Public, paginated list of a tutor's visible reviews.
+ * Also returns how often each tag is used so the client can offer tag filters.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tutorId: string }> }
+) {
+  try {
+    const { tutorId } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = reviewsQuerySchema.parse({
+      page: searchParams.get("page") || undefined,
+      limit: searchParams.get("limit") || undefined,
+      tag: searchParams.get("tag") || undefined,
+    });
+
+    const tutor = await prisma.tutorProfile.findUnique({
+      where: { id: tutorId },
+      select: { id: true, rating: true },
+    });
+
+    if (!tutor) {
+      return createErrorResponse(Errors.NotFound("Tutor not found"));
+    }
+
+    const result = await getTutorReviews(tutorId, query, prisma);
+
+    return NextResponse.json({
+      ...result,
+      rating: tutor.rating,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid query parameters")
+      );
+    }
+
+    logger.error("Failed to fetch tutor reviews", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch reviews. Please try again."
+    );
+  }
+}
@@ -2,169 +2,88 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
 import { prisma } from "@/lib/db/prisma";
 import { createErrorResponse, Errors } from "@/lib/errors";
-import { Prisma } from "@prisma/client";
+import {
+  RECOMMENDED_SCORE_THRESHOLD,
+  getRecommendationContext,
+  getTutorRecommendations,
+} from "@/lib/student/recommendations";
 
 export const dynamic = "force-dynamic";
 
 /**
  * GET /api/tutors/recommended
- * 
- * Returns tutors recommended based on student's onboarding preferences.
- * If no relevant tutors found, returns top-rated tutors.
+ *
+ * Returns tutors scored against the student's preferences: languages, level,
+ * schedule, industry, price, reviews and their own booking history.
+ * Tutors the student rated poorly are excluded.
+ * Each tutor includes its score breakdown and the reasons it was recommended.
  * Results are cached for 5 minutes per user.
+ *
+ * Query params:
+ * - timezone: IANA timezone for schedule overlap (defaults to UTC)
  */
 export async function GET(request: NextRequest) {
   try {
     const user = await requireAuth();
     const { getOrSetCache, CacheConfig, generateCacheKey } = await import("@/lib/cache");
 
-    // Get student profile with preferences
-    const studentProfile = await prisma.studentProfile.findUnique({
-      where: { userId: user.id },
-      select: {
-        learningGoal: true,
-        currentLevel: true,
-        preferredSchedule: true,
-      },
+    const context = await getRecommendationContext(prisma, user.id, {
+      timezone: request.nextUrl.searchParams.get("timezone"),
     });
 
-    if (!studentProfile) {
+    if (!context) {
       return createErrorResponse(
         Errors.NotFound("Student profile not found. Please complete onboarding first.")
       );
     }
 
-    // Map learning goals to potential tutor specialties
-    const getSpecialtyMatches = (learningGoal: string | null): string[] => {
-      if (!learningGoal) return [];
-      
-      const goalMap: Record<string, string[]> = {
-        conversation: ["Conversation Practice", "Conversational English", "Speaking"],
-        business: ["Business English", "Business", "Professional English"],
-        academic: ["Academic English", "Academic", "Writing"],
-        travel: ["Travel & Tourism", "Travel English", "Tourism"],
-        exam: ["IELTS Prep", "TOEFL Prep", "Exam Preparation", "IELTS", "TOEFL"],
-        other: [],
-      };
-
-      return goalMap[learningGoal.toLowerCase()] || [];
-    };
-
-    const specialtyMatches = getSpecialtyMatches(studentProfile.learningGoal);
-
-    // Build query for relevant tutors
-    const tutorProfileConditions: Prisma.TutorProfileWhereInput = {
-      isActive: true,
-      approvalStatus: "APPROVED",
-    };
-
-    // If we have specialty matches, filter by them
-    if (specialtyMatches.length > 0) {
-      tutorProfileConditions.specialties = {
-        hasSome: specialtyMatches,
-      };
-    }
-
-    const where: Prisma.UserWhereInput = {
-      role: "TUTOR",
-      tutorProfile: tutorProfileConditions,
-    };
-
     // Generate cache key based on user preferences
     const cacheKey = generateCacheKey(
       CacheConfig.RECOMMENDED_TUTORS.keyPrefix,
       user.id,
-      studentProfile.learningGoal || "",
-      studentProfile.currentLevel || ""
+      context.timezone,
+      context.languages
+        .map((entry) =>
+          [entry.language, entry.level, entry.learningGoal, entry.preferredSchedule].join(":")
+        )
+        .join(","),
+      context.motivation || ""
     );
 
     // Fetch tutors with caching
     const tutorsData = await getOrSetCache(
       cacheKey,
       async () => {
-        // Try to find relevant tutors first
-        let tutors = await prisma.user.findMany({
-          where,
-          include: {
-            tutorProfile: {
-              select: {
-                specialties: true,
-                rating: true,
-                hourlyRate: true,
-                totalSessions: true,
-                bio: true,
-              },
-            },
-          },
-          orderBy: {
-            tutorProfile: {
-              rating: "desc",
-            },
-          },
-          take: 12,
-        });
+        const recommendations = await getTutorRecommendations(prisma, context);
 
-        // If no relevant tutors found, get top-rated tutors
-        if (tutors.length === 0) {
-          tutors = await prisma.user.findMany({
-            where: {
-              role: "TUTOR",
-              tutorProfile: {
-                isActive: true,
-                approvalStatus: "APPROVED",
-              },
-            },
-            include: {
-              tutorProfile: {
-                select: {
-                  specialties: true,
-                  rating: true,
-                  hourlyRate: true,
-                  totalSessions: true,
-                  bio: true,
-                },
-              },
-            },
-            orderBy: {
-              tutorProfile: {
-                rating: "desc",
-              },
-            },
-            take: 12,
-          });
-        }
-
-        // Transform tutors data
-        return tutors
-          .filter((tutor) => tutor.tutorProfile && tutor.name)
-          .map((tutor) => ({
-            id: tutor.id,
-            name: tutor.name!,
-            image: tutor.image,
-            specialties: tutor.tutorProfile!.specialties,
-            rating: tutor.tutorProfile!.rating,
-            hourlyRate: tutor.tutorProfile!.hourlyRate,
-            totalSessions: tutor.tutorProfile!.totalSessions,
-            bio: tutor.tutorProfile!.bio,
-            isRecommended: specialtyMatches.length > 0 && 
-              tutor.tutorProfile!.specialties.some(spec => 
-                specialtyMatches.some(match => 
-                  spec.toLowerCase().includes(match.toLowerCase()) || 
-                  match.toLowerCase().includes(spec.toLowerCase())
-                )
-              ),
-          }));
+        return recommendations.map(({ tutor, score, breakdown, reasons }) => ({
+          id: tutor.user.id,
+          name: tutor.user.name!,
+          image: tutor.user.image,
+          specialties: tutor.specialties,
+          rating: tutor.rating,
+          hourlyRate: tutor.hourlyRate,
+          totalSessions: tutor.totalSessions,
+          bio: tutor.bio,
+          score,
+          scoreBreakdown: breakdown,
+          reasons,
+          isRecommended: score >= RECOMMENDED_SCORE_THRESHOLD,
+        }));
       },
       CacheConfig.RECOMMENDED_TUTORS.ttl
     );
 
+    const [primary] = context.languages;
+
     return NextResponse.json({
       tutors: tutorsData,
-      hasRecommendations: specialtyMatches.length > 0 && tutorsData.some(t => t.isRecommended),
+      hasRecommendations: tutorsData.some((t) => t.isRecommended),
       studentPreferences: {
-        learningGoal: studentProfile.learningGoal,
-        currentLevel: studentProfile.currentLevel,
-        preferredSchedule: studentProfile.preferredSchedule,
+        learningGoal: primary?.learningGoal ?? null,
+        currentLevel: primary?.level ?? null,
+        preferredSchedule: primary?.preferredSchedule ?? null,
+        languages: context.languages.filter((entry) => entry.language),
       },
     });
   } catch (error) {
@@ -0,0 +1,85 @@
+import { auth } from "@/config/auth";
+import { put } from "@vercel/blob";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ATTACHMENT_MAX_SIZE,
+  ATTACHMENT_PATH_PREFIX,
+  ATTACHMENT_TYPES,
+} from "@/lib/messaging/conversations";
+
+/**
+ * Upload Message Attachment API Route
+ *
+ * POST /api/upload/attachment
+ *
+ * Uploads a file to attach to a conversation message to Vercel Blob Storage
+ * Returns the attachment details to send with the message
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    // Check if Vercel Blob token is configured
+    if (!process.env.BLOB_READ_WRITE_TOKEN) {
+      return createErrorResponse(
+        Errors.InternalServerError("File upload is not configured. Please contact support.")
+      );
+    }
+
+    // Get the form data
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return createErrorResponse(Errors.BadRequest("No file provided"));
+    }
+
+    // Validate file type
+    if (!ATTACHMENT_TYPES.includes(file.type)) {
+      return createErrorResponse(
+        Errors.BadRequest("Invalid file type. Please upload an image, PDF, text or Word document.")
+      );
+    }
+
+    // Validate file size (max 10MB)
+    if (file.size > ATTACHMENT_MAX_SIZE) {
+      return createErrorResponse(
+        Errors.BadRequest("File size too large. Please upload a file smaller than 10MB.")
+      );
+    }
+
+    // Generate a unique filename
+    const filename = `${ATTACHMENT_PATH_PREFIX}${session.user.id}-${Date.now()}-${file.name}`;
+
+    // Upload to Vercel Blob
+    const blob = await put(filename, file, {
+      access: "public",
+    });
+
+    return NextResponse.json(
+      {
+        attachment: {
+          url: blob.url,
+          name: file.name,
+          type: file.type,
+          size: file.size,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to upload file. Please try again."
+    );
+  }
+}
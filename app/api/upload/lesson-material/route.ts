@@ -0,0 +1,89 @@
+import { auth } from "@/config/auth";
+import { put } from "@vercel/blob";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  LESSON_FILE_MAX_SIZE,
+  LESSON_FILE_PATH_PREFIX,
+  LESSON_FILE_TYPES,
+} from "@/lib/booking/materials";
+
+/**
+ * Upload Lesson File API Route
+ *
+ * POST /api/upload/lesson-material
+ *
+ * Uploads a file (PDF, audio) a tutor shares with a booking to Vercel Blob Storage
+ * Returns the file details to add with POST /api/bookings/[id]/materials
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    if (session.user.role !== "TUTOR") {
+      return createErrorResponse(Errors.Forbidden("Only tutors can upload lesson files"));
+    }
+
+    // Check if Vercel Blob token is configured
+    if (!process.env.BLOB_READ_WRITE_TOKEN) {
+      return createErrorResponse(
+        Errors.InternalServerError("File upload is not configured. Please contact support.")
+      );
+    }
+
+    // Get the form data
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return createErrorResponse(Errors.BadRequest("No file provided"));
+    }
+
+    // Validate file type
+    if (!LESSON_FILE_TYPES.includes(file.type)) {
+      return createErrorResponse(
+        Errors.BadRequest("Invalid file type. Please upload a PDF or an audio file.")
+      );
+    }
+
+    // Validate file size (max 20MB)
+    if (file.size > LESSON_FILE_MAX_SIZE) {
+      return createErrorResponse(
+        Errors.BadRequest("File size too large. Please upload a file smaller than 20MB.")
+      );
+    }
+
+    // Generate a unique filename
+    const filename = `${LESSON_FILE_PATH_PREFIX}${session.user.id}-${Date.now()}-${file.name}`;
+
+    // Upload to Vercel Blob
+    const blob = await put(filename, file, {
+      access: "public",
+    });
+
+    return NextResponse.json(
+      {
+        file: {
+          url: blob.url,
+          name: file.name,
+          type: file.type,
+          size: file.size,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to upload file. Please try again."
+    );
+  }
+}
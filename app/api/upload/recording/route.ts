@@ -0,0 +1,93 @@
+import { auth } from "@/config/auth";
+import { handleUpload, type HandleUploadBody } from "@vercel/blob/client";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  RECORDING_MAX_SIZE,
+  RECORDING_TYPES,
+  RECORDING_UPLOAD_STATUSES,
+  getBookingForRecording,
+  getRecordingPathPrefix,
+  hasRecordingConsent,
+} from "@/lib/booking/recordings";
+
+/**
+ * Upload Session Recording API Route
+ *
+ * POST /api/upload/recording
+ *
+ * Issues client upload tokens so the browser uploads session recordings
+ * straight to Vercel Blob Storage (recordings are too large to pass through
+ * a serverless function). The client then registers the uploaded recording
+ * with POST /api/bookings/[id]/recordings.
+ *
+ * Client payload: JSON { bookingId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    // Check if Vercel Blob token is configured
+    if (!process.env.BLOB_READ_WRITE_TOKEN) {
+      return createErrorResponse(
+        Errors.InternalServerError("File upload is not configured. Please contact support.")
+      );
+    }
+
+    const user = { id: session.user.id, role: session.user.role };
+    const body = (await request.json()) as HandleUploadBody;
+
+    const jsonResponse = await handleUpload({
+      body,
+      request,
+      onBeforeGenerateToken: async (pathname, clientPayload) => {
+        let bookingId: unknown;
+        try {
+          bookingId = JSON.parse(clientPayload ?? "{}").bookingId;
+        } catch {
+          bookingId = undefined;
+        }
+
+        if (typeof bookingId !== "string") {
+          throw Errors.BadRequest("bookingId is required");
+        }
+
+        const { booking, role } = await getBookingForRecording(prisma, bookingId, user);
+
+        if (role === "admin") {
+          throw Errors.Forbidden("Only session participants can upload recordings");
+        }
+
+        if (!RECORDING_UPLOAD_STATUSES.includes(booking.status) || !hasRecordingConsent(booking)) {
+          throw Errors.Forbidden("Recording this session is not allowed");
+        }
+
+        if (!pathname.startsWith(getRecordingPathPrefix(booking.id))) {
+          throw Errors.BadRequest("Invalid recording path");
+        }
+
+        return {
+          allowedContentTypes: RECORDING_TYPES,
+          maximumSizeInBytes: RECORDING_MAX_SIZE,
+          addRandomSuffix: true,
+        };
+      },
+    });
+
+    return NextResponse.json(jsonResponse, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to upload recording. Please try again."
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { auth } from "@/config/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { logger } from "@/lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { createCalendarFeedToken } from "@/lib/booking/calendar";
+import { getBaseUrl, getCalendarFeedUrl } from "@/lib/utils/url";
+
+/**
+ * Calendar Feed API Route
+ *
+ * GET /api/user/calendar
+ *
+ * Returns the user's iCal subscription URL (null when they don't have one)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { calendarFeedToken: true },
+    });
+
+    if (!user) {
+      return createErrorResponse(Errors.NotFound("User not found"));
+    }
+
+    const baseUrl = getBaseUrl(request.headers.get("origin"));
+
+    return NextResponse.json({
+      feedUrl: user.calendarFeedToken ? getCalendarFeedUrl(user.calendarFeedToken, baseUrl) : null,
+    });
+  } catch (error) {
+    return createErrorResponse(error, "Failed to fetch calendar feed");
+  }
+}
+
+/**
+ * Calendar Feed API Route
+ *
+ * POST /api/user/calendar
+ *
+ * Creates the user's iCal subscription URL, or replaces it with a new one.
+ * The previous URL stops working immediately.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    const rateLimit = await checkRateLimit(request, "GENERAL");
+    if (!rateLimit.success) {
+      return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+    }
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: { calendarFeedToken: createCalendarFeedToken() },
+      select: { id: true, calendarFeedToken: true },
+    });
+
+    logger.info("Calendar feed URL created", { userId: user.id });
+
+    const baseUrl = getBaseUrl(request.headers.get("origin"));
+
+    return NextResponse.json({
+      message: "Calendar feed created successfully",
+      feedUrl: getCalendarFeedUrl(user.calendarFeedToken!, baseUrl),
+    });
+  } catch (error) {
+    return createErrorResponse(error, "Failed to create calendar feed. Please try again.");
+  }
+}
+
+/**
+ * Calendar Feed API Route
+ *
+ * DELETE /api/user/calendar
+ *
+ * Revokes the user's iCal subscription URL
+ */
+export async function DELETE() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { calendarFeedToken: null },
+    });
+
+    logger.info("Calendar feed URL revoked", { userId: session.user.id });
+
+    return NextResponse.json({
+      message: "Calendar feed revoked successfully",
+      feedUrl: null,
+    });
+  } catch (error) {
+    return createErrorResponse(error, "Failed to revoke calendar feed. Please try again.");
+  }
+}
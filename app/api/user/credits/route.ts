@@ -0,0 +1,64 @@
+/**
+ * User Credits API Route
+ * 
+ * Returns the authenticated student's prepaid credit balance,
+ * recent ledger history and the bundles available for purchase, with the
+ * currency quote bundle prices are charged in
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { CREDIT_HISTORY_LIMIT, getCreditBundleOptions } from "@/lib/booking/credits";
+import { getUserCurrencyQuote } from "@/lib/booking/currency";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/user/credits
+ * 
+ * Get credit balance and ledger history for authenticated user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+
+    const userWithCredits = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: {
+        creditMinutes: true,
+        creditLedger: {
+          orderBy: { createdAt: "desc" },
+          take: CREDIT_HISTORY_LIMIT,
+        },
+      },
+    });
+
+    if (!userWithCredits) {
+      return createErrorResponse(Errors.NotFound("User not found"));
+    }
+
+    const currency = await getUserCurrencyQuote(
+      prisma,
+      user.id,
+      request.headers.get("x-locale") || "en"
+    );
+
+    return NextResponse.json({
+      balanceMinutes: userWithCredits.creditMinutes,
+      ledger: userWithCredits.creditLedger,
+      bundles: getCreditBundleOptions(),
+      currency,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch credits. Please try again."
+    );
+  }
+}
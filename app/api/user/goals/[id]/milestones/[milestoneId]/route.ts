@@ -0,0 +1,77 @@
+/**
+ * Goal Milestone API Route
+ *
+ * PATCH: Tick off (or reopen) a custom milestone
+ * Level milestones are completed by tutor assessments
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { updateMilestoneSchema } from "@/lib/progress/goals";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * PATCH /api/user/goals/[id]/milestones/[milestoneId]
+ *
+ * Request body:
+ * {
+ *   completed: boolean
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; milestoneId: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id, milestoneId } = await params;
+    const body = await request.json();
+    const { completed } = updateMilestoneSchema.parse(body);
+
+    const milestone = await prisma.goalMilestone.findFirst({
+      where: {
+        id: milestoneId,
+        goalId: id,
+        goal: { studentId: user.id },
+      },
+    });
+
+    if (!milestone) {
+      return createErrorResponse(Errors.NotFound("Milestone not found"));
+    }
+
+    if (milestone.level) {
+      return createErrorResponse(
+        Errors.BadRequest("Level milestones are completed by your tutor's assessments")
+      );
+    }
+
+    const updatedMilestone = await prisma.goalMilestone.update({
+      where: { id: milestone.id },
+      data: {
+        completedAt: completed ? milestone.completedAt ?? new Date() : null,
+      },
+    });
+
+    return NextResponse.json({ milestone: updatedMilestone });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to update milestone. Please try again."
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * User Goal API Route
+ *
+ * DELETE: Remove one of the student's goals and its milestones
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * DELETE /api/user/goals/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const { count } = await prisma.progressGoal.deleteMany({
+      where: { id, studentId: user.id },
+    });
+
+    if (count === 0) {
+      return createErrorResponse(Errors.NotFound("Goal not found"));
+    }
+
+    logger.info("Progress goal removed", { goalId: id, studentId: user.id });
+
+    return NextResponse.json({ message: "Goal removed" });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to remove goal", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to remove goal. Please try again."
+    );
+  }
+}
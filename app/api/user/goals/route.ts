@@ -0,0 +1,129 @@
+/**
+ * User Goals API Route
+ *
+ * POST: Set a goal to reach a CEFR level in a language, with milestones
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getLevelFromProfile, isLevelReached } from "@/lib/progress/levels";
+import {
+  MAX_ACTIVE_GOALS,
+  createGoalSchema,
+  getGoalMilestoneData,
+  goalInclude,
+} from "@/lib/progress/goals";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/user/goals
+ *
+ * Request body:
+ * {
+ *   language: string,
+ *   targetLevel: "A1" ... "C2",
+ *   targetDate?: string, // ISO date
+ *   milestones?: string[] // Custom milestones, after the level milestones
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+    const validatedData = createGoalSchema.parse(body);
+
+    const [activeGoals, latestAssessment, studentProfile] = await Promise.all([
+      prisma.progressGoal.count({
+        where: { studentId: user.id, achievedAt: null },
+      }),
+      prisma.skillAssessment.findFirst({
+        where: {
+          studentId: user.id,
+          language: { equals: validatedData.language, mode: "insensitive" },
+        },
+        orderBy: { createdAt: "desc" },
+        select: { level: true },
+      }),
+      prisma.studentProfile.findUnique({
+        where: { userId: user.id },
+        select: {
+          learningGoal: true,
+          currentLevel: true,
+          languages: {
+            where: { language: { equals: validatedData.language, mode: "insensitive" } },
+            select: { level: true, learningGoal: true },
+          },
+        },
+      }),
+    ]);
+    const learningLanguage = studentProfile?.languages[0];
+
+    if (activeGoals >= MAX_ACTIVE_GOALS) {
+      return createErrorResponse(
+        Errors.BadRequest(`You can have up to ${MAX_ACTIVE_GOALS} goals in progress`)
+      );
+    }
+
+    // Start from the latest assessment, or the level the student gave for the language
+    const currentLevel =
+      latestAssessment?.level ||
+      getLevelFromProfile(learningLanguage ? learningLanguage.level : studentProfile?.currentLevel);
+
+    if (latestAssessment && isLevelReached(latestAssessment.level, validatedData.targetLevel)) {
+      return createErrorResponse(
+        Errors.BadRequest(`You're already at ${latestAssessment.level}. Choose a higher target level.`)
+      );
+    }
+
+    const goal = await prisma.progressGoal.create({
+      data: {
+        studentId: user.id,
+        language: validatedData.language,
+        purpose: learningLanguage?.learningGoal || studentProfile?.learningGoal || null,
+        targetLevel: validatedData.targetLevel,
+        targetDate: validatedData.targetDate ? new Date(validatedData.targetDate) : null,
+        milestones: {
+          create: getGoalMilestoneData(
+            currentLevel,
+            validatedData.targetLevel,
+            validatedData.milestones
+          ),
+        },
+      },
+      include: goalInclude,
+    });
+
+    logger.info("Progress goal created", {
+      goalId: goal.id,
+      studentId: user.id,
+      language: goal.language,
+      targetLevel: goal.targetLevel,
+    });
+
+    return NextResponse.json({ goal }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        Errors.BadRequest(error.issues[0]?.message || "Invalid request")
+      );
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    logger.error("Failed to create goal", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return createErrorResponse(
+      error,
+      "Failed to create goal. Please try again."
+    );
+  }
+}
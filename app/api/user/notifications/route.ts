@@ -0,0 +1,85 @@
+import { auth } from "@/config/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { createValidationErrorResponse } from "@/lib/errors/validation";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getNotificationPreferences,
+  notificationPreferencesSchema,
+  updateNotificationPreferences,
+} from "@/lib/notifications/preferences";
+
+/**
+ * Notification Preferences API Route
+ *
+ * GET /api/user/notifications
+ *
+ * Returns the user's email preference for every optional category
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    const preferences = await getNotificationPreferences(prisma, session.user.id);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    return createErrorResponse(error, "Failed to fetch notification preferences");
+  }
+}
+
+/**
+ * Notification Preferences API Route
+ *
+ * PATCH /api/user/notifications
+ *
+ * Turns optional email categories on or off, e.g. { "MARKETING": false }
+ * Transactional emails (account, security, payments) can't be turned off
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Rate limiting
+    const rateLimit = await checkRateLimit(request, "GENERAL");
+    if (!rateLimit.success) {
+      return createRateLimitResponse(rateLimit.limit!, rateLimit.reset!);
+    }
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return createErrorResponse(Errors.Unauthorized());
+    }
+
+    const body = await request.json();
+    const validated = notificationPreferencesSchema.parse(body);
+
+    const preferences = await updateNotificationPreferences(prisma, session.user.id, validated);
+
+    return NextResponse.json(
+      {
+        message: "Notification preferences updated successfully",
+        preferences,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(createValidationErrorResponse(error));
+    }
+
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to update notification preferences. Please try again."
+    );
+  }
+}
@@ -5,9 +5,17 @@ import { createValidationErrorResponse } from "@/lib/errors/validation";
 import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
 import { z } from "zod";
 import { NextRequest, NextResponse } from "next/server";
+import { SUPPORTED_CURRENCIES } from "@/lib/booking/currency";
+import { locales } from "@/config/i18n/config";
+import { isValidTimeZone } from "@/lib/utils/timezone";
 
 const updateUserProfileSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name is too long").optional(),
+  // null = derive the currency from the site language
+  currency: z.enum(SUPPORTED_CURRENCIES).nullable().optional(),
+  // Language and timezone of emails
+  locale: z.enum(locales, { message: "Invalid language" }).optional(),
+  timezone: z.string().refine(isValidTimeZone, { message: "Invalid timezone" }).optional(),
 });
 
 /**
@@ -15,7 +23,8 @@ const updateUserProfileSchema = z.object({
  * 
  * PATCH /api/user/profile
  * 
- * Updates the user's basic profile information (name)
+ * Updates the user's basic profile information (name, preferred currency,
+ * email language and timezone)
  */
 export async function PATCH(request: NextRequest) {
   try {
@@ -39,6 +48,9 @@ export async function PATCH(request: NextRequest) {
       where: { id: session.user.id },
       data: {
         ...(validated.name !== undefined && { name: validated.name }),
+        ...(validated.currency !== undefined && { currency: validated.currency }),
+        ...(validated.locale !== undefined && { locale: validated.locale }),
+        ...(validated.timezone !== undefined && { timezone: validated.timezone }),
       },
       select: {
         id: true,
@@ -46,6 +58,9 @@ export async function PATCH(request: NextRequest) {
         email: true,
         image: true,
         role: true,
+        currency: true,
+        locale: true,
+        timezone: true,
       },
     });
 
@@ -0,0 +1,70 @@
+/**
+ * User Progress API Route
+ *
+ * Returns the authenticated student's learning progress: current CEFR level
+ * per language, the assessment timeline tutors recorded and their goals
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse } from "@/lib/errors";
+import { PROGRESS_HISTORY_LIMIT, getCurrentLevels } from "@/lib/progress/assessments";
+import { getLevelFromProfile } from "@/lib/progress/levels";
+import { goalInclude } from "@/lib/progress/goals";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/user/progress
+ */
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const [recentAssessments, goals, studentProfile] = await Promise.all([
+      prisma.skillAssessment.findMany({
+        where: { studentId: user.id },
+        include: {
+          tutor: {
+            select: {
+              user: { select: { name: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        take: PROGRESS_HISTORY_LIMIT,
+      }),
+      prisma.progressGoal.findMany({
+        where: { studentId: user.id },
+        include: goalInclude,
+        orderBy: [{ achievedAt: { sort: "desc", nulls: "first" } }, { createdAt: "asc" }],
+      }),
+      prisma.studentProfile.findUnique({
+        where: { userId: user.id },
+        select: { learningGoal: true, currentLevel: true },
+      }),
+    ]);
+
+    // Oldest first for the timeline and charts
+    const assessments = recentAssessments.reverse();
+
+    return NextResponse.json({
+      levels: getCurrentLevels(assessments),
+      assessments,
+      goals,
+      learningGoal: studentProfile?.learningGoal || null,
+      // Self-reported at onboarding, the starting point before any assessment
+      startingLevel: getLevelFromProfile(studentProfile?.currentLevel),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "HttpError") {
+      return createErrorResponse(error);
+    }
+
+    return createErrorResponse(
+      error,
+      "Failed to fetch progress. Please try again."
+    );
+  }
+}
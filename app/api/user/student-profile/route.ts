@@ -5,12 +5,20 @@ import { createValidationErrorResponse } from "@/lib/errors/validation";
 import { checkRateLimit, createRateLimitResponse } from "@/lib/rate-limit";
 import { z } from "zod";
 import { NextRequest, NextResponse } from "next/server";
+import {
+  getPrimaryLanguageFields,
+  learningLanguagesSchema,
+  saveLearningLanguages,
+  studentLanguagesInclude,
+} from "@/lib/student/languages";
 
 const updateStudentProfileSchema = z.object({
   learningGoal: z.string().optional().nullable(),
   currentLevel: z.string().optional().nullable(),
   preferredSchedule: z.string().optional().nullable(),
   motivation: z.string().max(1000, "Motivation is too long").optional().nullable(),
+  // Replaces all of the student's languages; the first one is primary
+  languages: learningLanguagesSchema.optional(),
 });
 
 /**
@@ -47,22 +55,42 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const validated = updateStudentProfileSchema.parse(body);
 
+    // The primary language's goal, level and schedule win over the single fields
+    const profileFields = {
+      learningGoal: validated.learningGoal,
+      currentLevel: validated.currentLevel,
+      preferredSchedule: validated.preferredSchedule,
+      ...(validated.languages && getPrimaryLanguageFields(validated.languages)),
+    };
+    const userId = session.user.id;
+
     // Update or create student profile
-    const studentProfile = await prisma.studentProfile.upsert({
-      where: { userId: session.user.id },
-      update: {
-        learningGoal: validated.learningGoal ?? undefined,
-        currentLevel: validated.currentLevel ?? undefined,
-        preferredSchedule: validated.preferredSchedule ?? undefined,
-        motivation: validated.motivation ?? undefined,
-      },
-      create: {
-        userId: session.user.id,
-        learningGoal: validated.learningGoal ?? null,
-        currentLevel: validated.currentLevel ?? null,
-        preferredSchedule: validated.preferredSchedule ?? null,
-        motivation: validated.motivation ?? null,
-      },
+    const studentProfile = await prisma.$transaction(async (tx) => {
+      const studentProfile = await tx.studentProfile.upsert({
+        where: { userId },
+        update: {
+          learningGoal: profileFields.learningGoal ?? undefined,
+          currentLevel: profileFields.currentLevel ?? undefined,
+          preferredSchedule: profileFields.preferredSchedule ?? undefined,
+          motivation: validated.motivation ?? undefined,
+        },
+        create: {
+          userId,
+          learningGoal: profileFields.learningGoal ?? null,
+          currentLevel: profileFields.currentLevel ?? null,
+          preferredSchedule: profileFields.preferredSchedule ?? null,
+          motivation: validated.motivation ?? null,
+        },
+      });
+
+      if (validated.languages) {
+        await saveLearningLanguages(tx, studentProfile.id, validated.languages);
+      }
+
+      return tx.studentProfile.findUniqueOrThrow({
+        where: { id: studentProfile.id },
+        include: studentLanguagesInclude,
+      });
     });
 
     return NextResponse.json(
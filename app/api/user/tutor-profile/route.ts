@@ -29,7 +29,7 @@ const updateTutorProfileSchema = z.object({
   experience: z.string().max(2000, "Experience is too long").optional().nullable(),
   workExperience: z.string().max(2000, "Work experience is too long").optional().nullable(),
   degrees: z.string().max(1000, "Degrees is too long").optional().nullable(),
-  // hourlyRate is removed - it's fixed at $30
+  // Pricing is managed through /api/tutor/pricing
 });
 
 /**
@@ -38,7 +38,7 @@ const updateTutorProfileSchema = z.object({
  * PATCH /api/user/tutor-profile
  * 
  * Updates the tutor's profile information
- * Note: hourlyRate is fixed at $30/hour (tutors receive $15/hour after commission)
+ * Note: pricing (hourlyRate, trial and per-duration prices) is updated through /api/tutor/pricing
  */
 export async function PATCH(request: NextRequest) {
   try {
@@ -78,7 +78,7 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Update tutor profile - hourlyRate is always set to 30 (fixed rate)
+    // Update tutor profile
     const tutorProfile = await prisma.tutorProfile.update({
       where: { userId: session.user.id },
       data: {
@@ -95,7 +95,6 @@ export async function PATCH(request: NextRequest) {
         ...(validated.experience !== undefined && { experience: validated.experience }),
         ...(validated.workExperience !== undefined && { workExperience: validated.workExperience }),
         ...(validated.degrees !== undefined && { degrees: validated.degrees }),
-        hourlyRate: 30, // Always set to fixed rate of $30/hour
       },
     });
 
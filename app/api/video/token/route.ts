@@ -1,42 +1,41 @@
 /**
- * Stream Video Token Generation API Route
- * 
- * Generates secure tokens for Stream Video SDK authentication.
+ * Video Token Generation API Route
+ *
+ * Generates tokens for the configured video provider (Stream, or the local
+ * loopback provider in development and tests).
  * Tokens are generated server-side to keep API credentials secure.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { StreamClient } from "@stream-io/node-sdk";
 import { requireAuth } from "@/lib/auth";
 import { createErrorResponse, Errors } from "@/lib/errors";
 import { logger } from "@/lib/logger";
+import { getVideoProvider } from "@/lib/video";
 
 // Mark as dynamic since it uses authentication headers
 export const dynamic = "force-dynamic";
 
 /**
  * GET /api/video/token
- * 
- * Generates a Stream Video token for the authenticated user.
- * Token is used to authenticate with Stream Video SDK on the client side.
+ *
+ * Generates a video token for the authenticated user.
+ * Token is used to authenticate with the video (and in-call chat) SDK on the client side.
+ *
+ * Response: { token, provider }
  */
 export async function GET(request: NextRequest) {
   try {
     // Require authentication
     const user = await requireAuth();
 
-    // Get Stream credentials from environment
-    const apiKey = process.env.NEXT_PUBLIC_STREAM_API_KEY;
-    const apiSecret = process.env.STREAM_SECRET_KEY;
+    const provider = getVideoProvider();
 
-    // Validate environment variables (check for empty strings too)
-    if (!apiKey || !apiKey.trim() || !apiSecret || !apiSecret.trim()) {
-      logger.error("Stream credentials not configured", {
-        hasApiKey: !!apiKey,
-        hasApiSecret: !!apiSecret,
+    if (!provider.isConfigured()) {
+      logger.error("Video provider not configured", {
+        provider: provider.name,
       });
       return createErrorResponse(
-        Errors.InternalServerError("Stream video service is not configured")
+        Errors.InternalServerError("Video service is not configured")
       );
     }
 
@@ -50,25 +49,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Initialize Stream client
-    let client: StreamClient;
-    try {
-      client = new StreamClient(apiKey.trim(), apiSecret.trim());
-    } catch (error) {
-      logger.error("Failed to initialize Stream client", {
-        error: error instanceof Error ? error.message : String(error),
-      });
-      return createErrorResponse(
-        Errors.InternalServerError("Failed to initialize video service")
-      );
-    }
-
     // Generate token for the user
     let token: string;
     try {
-      token = client.createToken(user.id);
+      token = provider.createToken(user.id);
     } catch (error) {
-      logger.error("Failed to generate Stream token", {
+      logger.error("Failed to generate video token", {
+        provider: provider.name,
         userId: user.id,
         error: error instanceof Error ? error.message : String(error),
       });
@@ -80,6 +67,7 @@ export async function GET(request: NextRequest) {
     // Validate token was generated
     if (!token || typeof token !== "string") {
       logger.error("Invalid token generated", {
+        provider: provider.name,
         userId: user.id,
       });
       return createErrorResponse(
@@ -87,17 +75,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    logger.info("Stream token generated successfully", {
+    logger.info("Video token generated successfully", {
+      provider: provider.name,
       userId: user.id,
     });
 
-    return NextResponse.json({ token });
+    return NextResponse.json({ token, provider: provider.name });
   } catch (error) {
     if (error instanceof Error && error.name === "HttpError") {
       return createErrorResponse(error);
     }
 
-    logger.error("Failed to generate Stream token", {
+    logger.error("Failed to generate video token", {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
     });
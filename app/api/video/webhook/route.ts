@@ -0,0 +1,126 @@
+/**
+ * Video Call Webhook Handler
+ *
+ * Receives call lifecycle events from the video provider and tracks
+ * session attendance server-side, so bookings complete even when nobody
+ * presses "end call" (e.g. the tutor closes the tab).
+ *
+ * Security:
+ * - Stream events are verified with the webhook signature (x-signature)
+ * - Local provider events are authenticated with the participant's video token,
+ *   and only accepted from the booking's student or tutor
+ *
+ * Events handled:
+ * - call.started: Session started
+ * - participant.joined / participant.left: Per-participant join and leave times
+ * - call.ended: Attended minutes recorded, booking completed if both parties attended
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { createErrorResponse, Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getVideoProvider, type VideoCallEvent } from "@/lib/video";
+import { recordCallEvent } from "@/lib/booking/attendance";
+import { recalculateTutorStats } from "@/lib/booking/reviews";
+import { recordSessionEarning } from "@/lib/booking/earnings";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/video/webhook
+ *
+ * Handles video provider webhook events
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getVideoProvider();
+
+    if (!provider.isConfigured()) {
+      logger.error("Video webhook received but video provider is not configured", {
+        provider: provider.name,
+      });
+      return NextResponse.json(
+        { error: "Video service not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Verify and normalize the event
+    const body = await request.text();
+    let event: VideoCallEvent | null;
+    try {
+      event = provider.parseEvent(body, request.headers);
+    } catch (error) {
+      if (error instanceof Error && error.name === "HttpError") {
+        logger.error("Video webhook verification failed", {
+          provider: provider.name,
+          error: error.message,
+        });
+        return createErrorResponse(error);
+      }
+
+      return createErrorResponse(Errors.BadRequest("Invalid webhook payload"));
+    }
+
+    // Event types we don't track
+    if (!event) {
+      return NextResponse.json({ received: true });
+    }
+
+    const result = await recordCallEvent(prisma, event);
+
+    if (!result) {
+      logger.info("Video call event for unknown call, skipping", {
+        type: event.type,
+        callId: event.callId,
+      });
+      return NextResponse.json({ received: true });
+    }
+
+    const { booking, completed } = result;
+
+    logger.info("Video call event recorded", {
+      provider: provider.name,
+      type: event.type,
+      bookingId: booking.id,
+      userId: event.userId,
+      attendedMinutes: booking.attendedMinutes,
+      completed,
+    });
+
+    if (completed) {
+      // Keep the tutor's completed session count in sync
+      await recalculateTutorStats(booking.tutorId, prisma);
+
+      try {
+        await recordSessionEarning(prisma, booking);
+      } catch (error) {
+        // Picked up by the payout cron's missing earnings sweep
+        logger.error("Failed to record tutor earnings", {
+          bookingId: booking.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    // Rejected events are not retried
+    if (error instanceof Error && error.name === "HttpError") {
+      logger.warn("Video webhook event rejected", { error: error.message });
+      return createErrorResponse(error);
+    }
+
+    logger.error("Video webhook handler error", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    // Return 500 so the provider retries the webhook
+    return NextResponse.json(
+      { error: "Webhook processing failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -32,6 +32,9 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { PayoutsManager } from "./PayoutsManager";
+import { PricingSettingsCard } from "./PricingSettingsCard";
+import { EmailDeliveryLog } from "./EmailDeliveryLog";
 import {
   Users,
   UserCheck,
@@ -47,6 +50,7 @@ import {
   AlertTriangle,
   FileText,
   KeyRound,
+  MessageSquare,
 } from "lucide-react";
 import { Setup2FAForm } from "@/components/auth/Setup2FAForm";
 import type { TutorApprovalStatus, AppealStatus } from "@prisma/client";
@@ -464,6 +468,16 @@ export function AdminDashboardClient({ locale }: AdminDashboardClientProps) {
         </Link>
 
         <div className="flex items-center gap-3">
+          {/* All student-tutor conversations, read-only, for dispute investigation */}
+          <Link href={`/${locale}/messages`}>
+            <Button
+              variant="outline"
+              className="flex items-center gap-2 bg-white/80 dark:bg-[#1a1a1a]/80 backdrop-blur-sm border-[#e5e5e5] dark:border-[#262626] rounded-full"
+            >
+              <MessageSquare className="w-4 h-4" />
+              <span className="hidden sm:inline">{t("conversations")}</span>
+            </Button>
+          </Link>
           <div className="flex items-center gap-2 px-3 sm:px-4 py-1.5 sm:py-2 bg-white/80 dark:bg-[#1a1a1a]/80 backdrop-blur-sm border border-[#e5e5e5] dark:border-[#262626] rounded-full">
             <Shield className="w-4 h-4 text-accent" />
             <span className="text-xs sm:text-sm font-semibold text-black dark:text-white">
@@ -615,7 +629,7 @@ export function AdminDashboardClient({ locale }: AdminDashboardClientProps) {
               Cancellation Appeals
             </CardTitle>
             <CardDescription className="text-muted-foreground">
-              Review and manage student appeals for cancellation penalties
+              Review and manage student appeals for cancellation penalties and no-shows
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -724,6 +738,15 @@ export function AdminDashboardClient({ locale }: AdminDashboardClientProps) {
           </CardContent>
         </Card>
 
+        {/* Tutor Payouts */}
+        <PayoutsManager />
+
+        {/* Tutor Pricing Bounds */}
+        <PricingSettingsCard />
+
+        {/* Email Delivery History */}
+        <EmailDeliveryLog />
+
         {/* Security - 2FA (Production Only) */}
         {process.env.NODE_ENV === "production" && (
           <Card className="bg-card backdrop-blur-md border border-border shadow-xl mb-8">
@@ -0,0 +1,310 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Mail, Loader2, Search } from "lucide-react";
+
+/**
+ * Email Delivery Log Component
+ *
+ * Admin view of the email outbox:
+ * - What was sent to whom, newest first
+ * - Search by recipient email, filter by delivery status
+ * - Retry emails that failed after every attempt
+ */
+type EmailStatus = "PENDING" | "SENDING" | "SENT" | "FAILED";
+
+const EMAIL_STATUSES: EmailStatus[] = ["PENDING", "SENDING", "SENT", "FAILED"];
+
+interface OutboxEmail {
+  id: string;
+  to: string;
+  template: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const statusBadgeClassNames: Record<EmailStatus, string> = {
+  PENDING: "bg-warning/10 text-warning border-warning/30",
+  SENDING: "bg-warning/10 text-warning border-warning/30",
+  SENT: "bg-success/10 text-success border-success/30",
+  FAILED: "bg-error/10 text-error border-error/30",
+};
+
+export function EmailDeliveryLog() {
+  const t = useTranslations("admin.emails");
+  const tCommon = useTranslations("common");
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    limit: 20,
+    total: 0,
+    totalPages: 0,
+  });
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("ALL");
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const fetchEmails = useCallback(
+    async (signal?: AbortSignal) => {
+      setLoading(true);
+
+      try {
+        const params = new URLSearchParams({ page: page.toString(), limit: "20" });
+        if (searchQuery) params.set("email", searchQuery);
+        if (statusFilter !== "ALL") params.set("status", statusFilter);
+
+        const response = await fetch(`/api/admin/emails?${params}`, { signal });
+        if (!response.ok) throw new Error("Failed to fetch emails");
+        const data = await response.json();
+        setEmails(data.emails || []);
+        setPagination(data.pagination);
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        console.error("Error fetching emails:", error);
+      } finally {
+        if (!signal?.aborted) {
+          setLoading(false);
+        }
+      }
+    },
+    [page, searchQuery, statusFilter]
+  );
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    fetchEmails(abortController.signal);
+    return () => {
+      abortController.abort();
+    };
+  }, [fetchEmails]);
+
+  const retryEmail = async (email: OutboxEmail) => {
+    setRetryingId(email.id);
+
+    try {
+      const response = await fetch(`/api/admin/emails/${email.id}/retry`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to retry email");
+      }
+
+      await fetchEmails();
+    } catch (error) {
+      console.error("Error retrying email:", error);
+      alert(error instanceof Error ? error.message : "Failed to retry email");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-card backdrop-blur-md border border-border shadow-xl mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl sm:text-2xl font-bold text-foreground flex items-center gap-3">
+          <Mail className="h-6 w-6" />
+          {t("title")}
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          {t("description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          <form
+            className="flex-1 relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setPage(1);
+              setSearchQuery(searchInput.trim());
+            }}
+          >
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder={t("searchPlaceholder")}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-10 rounded-full"
+            />
+          </form>
+          <Select
+            value={statusFilter}
+            onValueChange={(status) => {
+              setPage(1);
+              setStatusFilter(status);
+            }}
+          >
+            <SelectTrigger className="w-full sm:w-[200px] rounded-full">
+              <SelectValue placeholder={t("filterByStatus")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">{t("allStatuses")}</SelectItem>
+              {EMAIL_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t(`statuses.${status}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : emails.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">{t("noEmails")}</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-left text-muted-foreground">
+                    <th className="py-3 pr-4 font-medium">{t("recipient")}</th>
+                    <th className="py-3 pr-4 font-medium">{t("subject")}</th>
+                    <th className="py-3 pr-4 font-medium">{t("status")}</th>
+                    <th className="py-3 pr-4 font-medium">{t("date")}</th>
+                    <th className="py-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {emails.map((email) => (
+                    <tr key={email.id} className="border-b border-border last:border-0 align-top">
+                      <td className="py-3 pr-4">
+                        <p className="font-medium text-foreground">{email.user?.name || email.to}</p>
+                        {email.user?.name && (
+                          <p className="text-xs text-muted-foreground">{email.to}</p>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <p className="text-foreground">{email.subject}</p>
+                        <p className="text-xs text-muted-foreground">{email.template}</p>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <Badge className={`rounded-full ${statusBadgeClassNames[email.status]}`}>
+                          {t(`statuses.${email.status}`)}
+                        </Badge>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {t("attempts", { count: email.attempts })}
+                        </p>
+                        {email.lastError && email.status !== "SENT" && (
+                          <p className="text-xs text-error mt-1 max-w-xs break-words">
+                            {email.lastError}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-muted-foreground whitespace-nowrap">
+                        <p>{new Date(email.sentAt || email.createdAt).toLocaleString()}</p>
+                        {email.status === "PENDING" && email.attempts > 0 && (
+                          <p className="text-xs">
+                            {t("nextAttempt", {
+                              date: new Date(email.nextAttemptAt).toLocaleString(),
+                            })}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 text-right">
+                        {email.status === "FAILED" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => retryEmail(email)}
+                            disabled={retryingId !== null}
+                            className="rounded-full"
+                          >
+                            {retryingId === email.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              t("retry")
+                            )}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            {pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <div className="text-sm text-muted-foreground">
+                  {t("showing", {
+                    from: (pagination.page - 1) * pagination.limit + 1,
+                    to: Math.min(pagination.page * pagination.limit, pagination.total),
+                    total: pagination.total,
+                  })}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page === 1 || loading}
+                    className="rounded-full"
+                  >
+                    {tCommon("previous")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+                    disabled={page === pagination.totalPages || loading}
+                    className="rounded-full"
+                  >
+                    {tCommon("next")}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Wallet, Loader2 } from "lucide-react";
+
+/**
+ * Payouts Manager Component
+ *
+ * Admin view of tutor payouts:
+ * - Unpaid balance and account status per tutor
+ * - Hold / release payouts for a tutor
+ * - Recent payout batches
+ */
+type PayoutStatus = "PENDING" | "PAID" | "FAILED";
+
+interface PayoutTutor {
+  id: string;
+  stripeAccountId: string | null;
+  payoutsEnabled: boolean;
+  payoutsHeld: boolean;
+  payoutHoldReason: string | null;
+  unpaidBalance: number;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+}
+
+interface Payout {
+  id: string;
+  amount: number;
+  status: PayoutStatus;
+  failureReason: string | null;
+  createdAt: string;
+  tutor: {
+    user: {
+      id: string;
+      name: string | null;
+      email: string;
+    };
+  };
+}
+
+export function PayoutsManager() {
+  const t = useTranslations("admin.payouts");
+  const tCommon = useTranslations("common");
+  const [tutors, setTutors] = useState<PayoutTutor[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingTutorId, setProcessingTutorId] = useState<string | null>(null);
+  const [holdDialog, setHoldDialog] = useState<{
+    open: boolean;
+    tutor: PayoutTutor | null;
+    reason: string;
+  }>({ open: false, tutor: null, reason: "" });
+
+  const fetchPayouts = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const response = await fetch("/api/admin/payouts", { signal });
+      if (!response.ok) throw new Error("Failed to fetch payouts");
+      const data = await response.json();
+      setTutors(data.tutors || []);
+      setPayouts(data.payouts || []);
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        return; // Request was aborted, ignore
+      }
+      console.error("Error fetching payouts:", error);
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    fetchPayouts(abortController.signal);
+    return () => {
+      abortController.abort();
+    };
+  }, [fetchPayouts]);
+
+  const updateHold = async (tutor: PayoutTutor, action: "hold" | "release", reason?: string) => {
+    setProcessingTutorId(tutor.id);
+
+    try {
+      const response = await fetch(`/api/admin/tutors/${tutor.user.id}/payouts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, reason: reason || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update payouts");
+      }
+
+      setHoldDialog({ open: false, tutor: null, reason: "" });
+      await fetchPayouts();
+    } catch (error) {
+      console.error("Error updating payouts:", error);
+      alert(error instanceof Error ? error.message : "Failed to update payouts");
+    } finally {
+      setProcessingTutorId(null);
+    }
+  };
+
+  const getAccountBadge = (tutor: PayoutTutor) => {
+    if (tutor.payoutsHeld) {
+      return <Badge className="bg-error/10 text-error border-error/30">{t("held")}</Badge>;
+    }
+    if (!tutor.stripeAccountId) {
+      return <Badge variant="outline">{t("notConnected")}</Badge>;
+    }
+    if (!tutor.payoutsEnabled) {
+      return <Badge className="bg-warning/10 text-warning border-warning/30">{t("setupIncomplete")}</Badge>;
+    }
+    return <Badge className="bg-success/10 text-success border-success/30">{t("active")}</Badge>;
+  };
+
+  return (
+    <>
+      <Card className="bg-card backdrop-blur-md border border-border shadow-xl mb-8">
+        <CardHeader>
+          <CardTitle className="text-xl sm:text-2xl font-bold text-foreground flex items-center gap-3">
+            <Wallet className="h-6 w-6" />
+            {t("title")}
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            {t("description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              {/* Tutors */}
+              {tutors.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">{t("noTutors")}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border text-left text-muted-foreground">
+                        <th className="py-3 pr-4 font-medium">{t("tutor")}</th>
+                        <th className="py-3 pr-4 font-medium">{t("unpaid")}</th>
+                        <th className="py-3 pr-4 font-medium">{t("account")}</th>
+                        <th className="py-3" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tutors.map((tutor) => (
+                        <tr key={tutor.id} className="border-b border-border last:border-0">
+                          <td className="py-3 pr-4">
+                            <p className="font-medium text-foreground">{tutor.user.name || tutor.user.email}</p>
+                            {tutor.payoutsHeld && tutor.payoutHoldReason && (
+                              <p className="text-xs text-muted-foreground">{tutor.payoutHoldReason}</p>
+                            )}
+                          </td>
+                          <td className="py-3 pr-4 font-semibold text-foreground">
+                            ${tutor.unpaidBalance.toFixed(2)}
+                          </td>
+                          <td className="py-3 pr-4">{getAccountBadge(tutor)}</td>
+                          <td className="py-3 text-right">
+                            {tutor.payoutsHeld ? (
+                              <Button
+                                size="sm"
+                                onClick={() => updateHold(tutor, "release")}
+                                disabled={processingTutorId !== null}
+                                className="rounded-full"
+                              >
+                                {processingTutorId === tutor.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  t("release")
+                                )}
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setHoldDialog({ open: true, tutor, reason: "" })}
+                                disabled={processingTutorId !== null}
+                                className="rounded-full"
+                              >
+                                {t("hold")}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Recent payouts */}
+              <div>
+                <p className="text-sm font-semibold text-foreground mb-3">{t("recentPayouts")}</p>
+                {payouts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t("noPayouts")}</p>
+                ) : (
+                  <ul className="divide-y divide-border">
+                    {payouts.map((payout) => (
+                      <li key={payout.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                        <div>
+                          <p className="font-medium text-foreground">
+                            {payout.tutor.user.name || payout.tutor.user.email} · ${payout.amount.toFixed(2)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(payout.createdAt).toLocaleDateString()}
+                            {payout.failureReason && ` · ${payout.failureReason}`}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={payout.status === "FAILED" ? "destructive" : "outline"}
+                          className="rounded-full"
+                        >
+                          {t(`statuses.${payout.status}`)}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Hold Dialog */}
+      <AlertDialog
+        open={holdDialog.open}
+        onOpenChange={(open) => setHoldDialog({ open, tutor: null, reason: "" })}
+      >
+        <AlertDialogContent className="bg-white/95 dark:bg-[#1a1a1a]/95 backdrop-blur-md border-[#e5e5e5] dark:border-[#262626]">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-black dark:text-white">
+              {t("hold")}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-[#666] dark:text-[#aaa]">
+              {holdDialog.tutor?.user.name || holdDialog.tutor?.user.email}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-4">
+            <Label htmlFor="hold-reason" className="text-black dark:text-white">
+              {t("holdReason")}
+            </Label>
+            <Textarea
+              id="hold-reason"
+              value={holdDialog.reason}
+              onChange={(e) => setHoldDialog({ ...holdDialog, reason: e.target.value })}
+              className="mt-2 bg-white/80 dark:bg-[#0a0a0a]/80 backdrop-blur-sm border-[#e5e5e5] dark:border-[#262626] rounded-lg"
+              rows={3}
+              maxLength={500}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              disabled={processingTutorId !== null}
+              className="bg-white/80 dark:bg-[#0a0a0a]/80 backdrop-blur-sm border-[#e5e5e5] dark:border-[#262626] rounded-full"
+            >
+              {tCommon("cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (holdDialog.tutor) {
+                  updateHold(holdDialog.tutor, "hold", holdDialog.reason.trim());
+                }
+              }}
+              disabled={processingTutorId !== null}
+              className="bg-red-600 hover:bg-red-700 text-white rounded-full"
+            >
+              {processingTutorId !== null ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : null}
+              {t("hold")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { DollarSign, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+
+/**
+ * Pricing Settings Card Component
+ *
+ * Admin control for the hourly rate bounds tutors can price within.
+ * Tutors' 30/90-minute prices are checked against the same bounds as
+ * hourly equivalents.
+ */
+export function PricingSettingsCard() {
+  const t = useTranslations("admin.pricing");
+  const [minHourlyRate, setMinHourlyRate] = useState("");
+  const [maxHourlyRate, setMaxHourlyRate] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchBounds = async () => {
+      try {
+        const response = await fetch("/api/admin/pricing", { signal: abortController.signal });
+        if (!response.ok) throw new Error("Failed to fetch pricing bounds");
+        const data = await response.json();
+        setMinHourlyRate(data.bounds.minHourlyRate.toString());
+        setMaxHourlyRate(data.bounds.maxHourlyRate.toString());
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to fetch pricing bounds");
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchBounds();
+    return () => {
+      abortController.abort();
+    };
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSuccess(false);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pricing", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          minHourlyRate: parseFloat(minHourlyRate),
+          maxHourlyRate: parseFloat(maxHourlyRate),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update pricing bounds");
+      }
+
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update pricing bounds");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card backdrop-blur-md border border-border shadow-xl mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl sm:text-2xl font-bold text-foreground flex items-center gap-3">
+          <DollarSign className="h-6 w-6" />
+          {t("title")}
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          {t("description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min-hourly-rate">{t("minHourlyRate")}</Label>
+                <Input
+                  id="min-hourly-rate"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={minHourlyRate}
+                  onChange={(e) => setMinHourlyRate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-hourly-rate">{t("maxHourlyRate")}</Label>
+                <Input
+                  id="max-hourly-rate"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={maxHourlyRate}
+                  onChange={(e) => setMaxHourlyRate(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">{t("note")}</p>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex-1 min-w-0 text-sm">
+                {success && (
+                  <span className="flex items-center gap-2 text-success">
+                    <CheckCircle2 className="h-4 w-4 shrink-0" />
+                    {t("saved")}
+                  </span>
+                )}
+                {error && (
+                  <span className="flex items-center gap-2 text-error">
+                    <AlertCircle className="h-4 w-4 shrink-0" />
+                    {error}
+                  </span>
+                )}
+              </div>
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || minHourlyRate === "" || maxHourlyRate === ""}
+                className="rounded-full"
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t("save")}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle, ArrowRight, Eye, EyeOff } from "lucide-react";
+import { getBrowserTimeZone } from "@/lib/utils/timezone";
 
 /**
  * Sign Up Form Component
@@ -61,6 +62,8 @@ export function SignUpForm() {
           email,
           password,
           name,
+          locale,
+          timezone: getBrowserTimeZone(),
         }),
       });
 
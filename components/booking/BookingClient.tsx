@@ -8,7 +8,9 @@
  * - Time slot selection
  * - Duration selection
  * - Price calculation
+ * - Paying with prepaid credits
  * - Real-time availability checking
+ * - Times shown in the student's local timezone
  * - Form validation
  * - Error handling
  */
@@ -21,6 +23,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -39,8 +42,17 @@ import {
   ArrowLeft,
   User,
   CalendarDays,
+  Repeat,
+  Coins,
 } from "lucide-react";
 import Image from "next/image";
+import { addDaysToDateKey, getBrowserTimeZone, toDateKey } from "@/lib/utils/timezone";
+import {
+  convertFromSettlement,
+  formatCurrency,
+  formatPrice,
+  type CurrencyQuote,
+} from "@/lib/booking/currency";
 
 interface Availability {
   dayOfWeek: number;
@@ -56,6 +68,10 @@ interface Tutor {
   email: string;
   image: string | null;
   hourlyRate: number;
+  // Price for each bookable duration (30/60/90 minutes)
+  priceOptions: { duration: number; price: number }[];
+  // Only set when the student can still book a trial lesson
+  trialPrice: number | null;
   specialties: string[];
   availability: Availability[];
 }
@@ -63,24 +79,54 @@ interface Tutor {
 interface BookingClientProps {
   tutor: Tutor;
   locale: string;
+  // Student's prepaid credit balance in minutes
+  creditMinutes: number;
+  // Highest hourly rate that can be paid with credits
+  creditHourlyRate: number;
+  // Currency the student sees and is charged in (prices are set in USD)
+  currency: CurrencyQuote;
+}
+
+interface SeriesFailure {
+  scheduledAt: string;
+  error: string;
 }
 
+/**
+ * Number of weekly lessons a student can book at once (1 = single booking)
+ */
+const MAX_WEEKLY_OCCURRENCES = 12;
+
 interface TimeSlot {
   start: string;
   end: string;
+  localStart?: string;
+  localEnd?: string;
   available: boolean;
   reason?: string;
 }
 
-export function BookingClient({ tutor, locale }: BookingClientProps) {
+export function BookingClient({
+  tutor,
+  locale,
+  creditMinutes,
+  creditHourlyRate,
+  currency,
+}: BookingClientProps) {
   const t = useTranslations("booking");
   const tCommon = useTranslations("common");
   const router = useRouter();
 
+  const [timeZone, setTimeZone] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<string>("");
+  // ISO start time of the selected slot
   const [selectedTime, setSelectedTime] = useState<string>("");
   const [duration, setDuration] = useState<"30" | "60" | "90">("60");
   const [notes, setNotes] = useState<string>("");
+  const [occurrences, setOccurrences] = useState<string>("1");
+  const [seriesFailures, setSeriesFailures] = useState<SeriesFailure[]>([]);
+  const [payWithCredits, setPayWithCredits] = useState(false);
+  const [bookTrial, setBookTrial] = useState(false);
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
   const [availableDates, setAvailableDates] = useState<string[]>([]);
   const [loadingDates, setLoadingDates] = useState(true);
@@ -88,11 +134,35 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Calculate price
-  const price = Math.round((tutor.hourlyRate * (parseInt(duration) / 60)) * 100) / 100;
+  // Trial lessons are a single 30-minute session at the tutor's trial price
+  const isTrial = bookTrial && tutor.trialPrice !== null;
+  const getPrice = (minutes: number) =>
+    tutor.priceOptions.find((option) => option.duration === minutes)?.price ??
+    calculatePrice(minutes, tutor.hourlyRate);
+  const price = isTrial ? tutor.trialPrice! : getPrice(parseInt(duration));
+  const lessonCount = isTrial ? 1 : parseInt(occurrences);
+  // Each lesson is charged its converted price, matching checkout line items
+  const chargedTotal = convertFromSettlement(price, currency) * lessonCount;
+
+  // Credits cover single, non-trial bookings with tutors at or below the credit rate
+  const canPayWithCredits =
+    lessonCount === 1 &&
+    !isTrial &&
+    creditMinutes >= parseInt(duration) &&
+    price <= calculatePrice(parseInt(duration), creditHourlyRate);
+  const usingCredits = payWithCredits && canPayWithCredits;
+
+  // Resolve the student's timezone in the browser (not available during SSR)
+  useEffect(() => {
+    setTimeZone(getBrowserTimeZone());
+  }, []);
 
   // Fetch available dates on mount and when duration changes
   useEffect(() => {
+    if (!timeZone) {
+      return;
+    }
+
     const fetchAvailableDates = async () => {
       setLoadingDates(true);
       setError(null);
@@ -101,13 +171,11 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
       setTimeSlots([]);
 
       try {
-        const startDate = new Date();
-        startDate.setUTCHours(0, 0, 0, 0);
-        const endDate = new Date(startDate);
-        endDate.setUTCDate(endDate.getUTCDate() + 30); // Next 30 days
+        const startDate = toDateKey(new Date(), timeZone);
+        const endDate = addDaysToDateKey(startDate, 30); // Next 30 days
 
         const response = await fetch(
-          `/api/bookings/availability?tutorId=${tutor.id}&startDate=${startDate.toISOString().split("T")[0]}&endDate=${endDate.toISOString().split("T")[0]}&duration=${duration}`
+          `/api/bookings/availability?tutorId=${tutor.id}&startDate=${startDate}&endDate=${endDate}&duration=${duration}&timeZone=${encodeURIComponent(timeZone)}`
         );
 
         if (!response.ok) {
@@ -130,11 +198,11 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
     };
 
     fetchAvailableDates();
-  }, [duration, tutor.id]);
+  }, [duration, tutor.id, timeZone]);
 
   // Fetch available time slots when date is selected
   useEffect(() => {
-    if (!selectedDate) {
+    if (!selectedDate || !timeZone) {
       setTimeSlots([]);
       setSelectedTime("");
       return;
@@ -146,7 +214,7 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
 
       try {
         const response = await fetch(
-          `/api/bookings/availability?tutorId=${tutor.id}&date=${selectedDate}&duration=${duration}`
+          `/api/bookings/availability?tutorId=${tutor.id}&date=${selectedDate}&duration=${duration}&timeZone=${encodeURIComponent(timeZone)}`
         );
 
         if (!response.ok) {
@@ -169,12 +237,13 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
     };
 
     fetchTimeSlots();
-  }, [selectedDate, duration, tutor.id]);
+  }, [selectedDate, duration, tutor.id, timeZone]);
 
   // Handle booking submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setSeriesFailures([]);
     setSubmitting(true);
 
     if (!selectedDate || !selectedTime) {
@@ -184,10 +253,12 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
     }
 
     try {
-      // Combine date and time
-      const scheduledAt = new Date(`${selectedDate}T${selectedTime}:00Z`).toISOString();
+      // Slot start is already an absolute (UTC) instant
+      const scheduledAt = new Date(selectedTime).toISOString();
 
-      const response = await fetch("/api/bookings", {
+      // Weekly lessons are booked as a recurring series
+      const isSeries = lessonCount > 1;
+      const response = await fetch(isSeries ? "/api/bookings/series" : "/api/bookings", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -198,12 +269,18 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
           scheduledAt,
           duration,
           notes: notes.trim() || undefined,
+          ...(!isSeries && { useCredits: usingCredits, trial: isTrial }),
+          ...(isSeries && {
+            occurrences: lessonCount,
+            timeZone: timeZone || "UTC",
+          }),
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
+        setSeriesFailures(data.failures || []);
         throw new Error(data.error || "Failed to create booking");
       }
 
@@ -229,12 +306,26 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
   const availableSlots = timeSlots.filter((slot) => slot.available);
 
   // Format date for display
+  // Date strings are calendar dates, so format them in UTC to avoid shifting the day
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString + "T00:00:00Z");
     return date.toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      timeZone: "UTC",
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  // Format an occurrence that could not be booked
+  const formatDateTime = (isoString: string): string => {
+    return new Date(isoString).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
+      timeZone: timeZone || "UTC",
       weekday: "short",
       month: "short",
       day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
     });
   };
 
@@ -242,26 +333,20 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
   const formatDateShort = (dateString: string): string => {
     const date = new Date(dateString + "T00:00:00Z");
     return date.toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      timeZone: "UTC",
       day: "numeric",
       month: "short",
     });
   };
 
-  // Check if date is today
+  // Check if date is today (in the student's timezone)
   const isToday = (dateString: string): boolean => {
-    const today = new Date();
-    today.setUTCHours(0, 0, 0, 0);
-    const checkDate = new Date(dateString + "T00:00:00Z");
-    return today.getTime() === checkDate.getTime();
+    return toDateKey(new Date(), timeZone || "UTC") === dateString;
   };
 
-  // Check if date is tomorrow
+  // Check if date is tomorrow (in the student's timezone)
   const isTomorrow = (dateString: string): boolean => {
-    const tomorrow = new Date();
-    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-    tomorrow.setUTCHours(0, 0, 0, 0);
-    const checkDate = new Date(dateString + "T00:00:00Z");
-    return tomorrow.getTime() === checkDate.getTime();
+    return addDaysToDateKey(toDateKey(new Date(), timeZone || "UTC"), 1) === dateString;
   };
 
   return (
@@ -309,7 +394,7 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                       {tutor.name}
                     </CardTitle>
                     <p className="text-sm text-[#666] dark:text-[#aaa]">
-                      ${tutor.hourlyRate}/hour
+                      {formatPrice(tutor.hourlyRate, currency, locale)}/hour
                     </p>
                   </div>
                 </div>
@@ -346,6 +431,36 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
               </CardHeader>
               <CardContent>
                 <form onSubmit={handleSubmit} className="space-y-6">
+                  {/* Trial Lesson */}
+                  {tutor.trialPrice !== null && (
+                    <div className="p-4 border border-accent/30 bg-accent/5 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          id="book-trial"
+                          checked={isTrial}
+                          onCheckedChange={(checked) => {
+                            setBookTrial(checked === true);
+                            if (checked === true) {
+                              setDuration("30");
+                              setOccurrences("1");
+                              setPayWithCredits(false);
+                              setSelectedTime("");
+                            }
+                          }}
+                        />
+                        <Label
+                          htmlFor="book-trial"
+                          className="text-sm font-medium text-black dark:text-white cursor-pointer"
+                        >
+                          {t("bookTrial", { price: formatPrice(tutor.trialPrice, currency, locale) })}
+                        </Label>
+                      </div>
+                      <p className="text-xs text-[#666] dark:text-[#aaa] mt-2">
+                        {t("trialHint")}
+                      </p>
+                    </div>
+                  )}
+
                   {/* Duration Selection */}
                   <div>
                     <Label className="text-sm font-medium text-black dark:text-white mb-2 block">
@@ -353,6 +468,7 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                     </Label>
                     <Select
                       value={duration}
+                      disabled={isTrial}
                       onValueChange={(value) => {
                         setDuration(value as "30" | "60" | "90");
                         setSelectedTime(""); // Reset time when duration changes
@@ -362,9 +478,9 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="30">30 {t("minutes")} - ${calculatePrice(30, tutor.hourlyRate).toFixed(2)}</SelectItem>
-                        <SelectItem value="60">60 {t("minutes")} - ${calculatePrice(60, tutor.hourlyRate).toFixed(2)}</SelectItem>
-                        <SelectItem value="90">90 {t("minutes")} - ${calculatePrice(90, tutor.hourlyRate).toFixed(2)}</SelectItem>
+                        <SelectItem value="30">30 {t("minutes")} - {formatPrice(getPrice(30), currency, locale)}</SelectItem>
+                        <SelectItem value="60">60 {t("minutes")} - {formatPrice(getPrice(60), currency, locale)}</SelectItem>
+                        <SelectItem value="90">90 {t("minutes")} - {formatPrice(getPrice(90), currency, locale)}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -419,6 +535,11 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                     <p className="text-xs text-[#666] dark:text-[#aaa] mt-2">
                       {t("dateHint")}
                     </p>
+                    {timeZone && (
+                      <p className="text-xs text-[#666] dark:text-[#aaa] mt-1">
+                        {t("timezoneNote", { timeZone })}
+                      </p>
+                    )}
                   </div>
 
                   {/* Time Slot Selection */}
@@ -445,9 +566,10 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                                 hour: "numeric",
                                 minute: "2-digit",
                                 hour12: true,
+                                timeZone: timeZone || "UTC",
                               }
                             );
-                            const timeValue = slot.start.split("T")[1].slice(0, 5);
+                            const timeValue = slot.start;
                             const isSelected = selectedTime === timeValue;
 
                             return (
@@ -470,6 +592,41 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                     </div>
                   )}
 
+                  {/* Weekly Repeat */}
+                  <div>
+                    <Label className="text-sm font-medium text-black dark:text-white mb-2 block">
+                      {t("repeat")}
+                    </Label>
+                    <Select
+                      value={occurrences}
+                      disabled={isTrial}
+                      onValueChange={(value) => {
+                        setOccurrences(value);
+                        setSeriesFailures([]);
+                      }}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">{t("repeatOnce")}</SelectItem>
+                        {Array.from({ length: MAX_WEEKLY_OCCURRENCES - 1 }, (_, index) => index + 2).map(
+                          (count) => (
+                            <SelectItem key={count} value={count.toString()}>
+                              {t("repeatWeekly", { count })}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                    {lessonCount > 1 && (
+                      <p className="flex items-center gap-1 text-xs text-[#666] dark:text-[#aaa] mt-1">
+                        <Repeat className="w-3 h-3" />
+                        {t("repeatHint")}
+                      </p>
+                    )}
+                  </div>
+
                   {/* Notes */}
                   <div>
                     <Label
@@ -492,6 +649,36 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                     </p>
                   </div>
 
+                  {/* Pay with Credits */}
+                  {creditMinutes > 0 && (
+                    <div className="p-4 border border-[#e5e5e5] dark:border-[#262626] rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          id="pay-with-credits"
+                          checked={usingCredits}
+                          onCheckedChange={(checked) => setPayWithCredits(checked === true)}
+                          disabled={!canPayWithCredits}
+                        />
+                        <Label
+                          htmlFor="pay-with-credits"
+                          className="text-sm font-medium text-black dark:text-white cursor-pointer flex items-center gap-2"
+                        >
+                          <Coins className="w-4 h-4 text-accent" />
+                          {t("payWithCredits")}
+                        </Label>
+                      </div>
+                      <p className="text-xs text-[#666] dark:text-[#aaa] mt-2">
+                        {canPayWithCredits
+                          ? t("creditBalance", { minutes: creditMinutes })
+                          : lessonCount > 1 || isTrial
+                            ? t("creditsSingleOnly")
+                            : creditMinutes < parseInt(duration)
+                              ? t("notEnoughCredits", { minutes: creditMinutes })
+                              : t("creditsRateLimit", { rate: creditHourlyRate })}
+                      </p>
+                    </div>
+                  )}
+
                   {/* Price Summary */}
                   <div className="p-4 bg-[#f5f5f5] dark:bg-[#262626] rounded-lg">
                     <div className="flex items-center justify-between">
@@ -502,9 +689,16 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                         </span>
                       </div>
                       <span className="text-2xl font-bold text-black dark:text-white">
-                        ${price.toFixed(2)}
+                        {usingCredits
+                          ? t("creditsUsed", { minutes: duration })
+                          : formatCurrency(chargedTotal, currency.currency, locale)}
                       </span>
                     </div>
+                    {lessonCount > 1 && (
+                      <p className="text-xs text-[#666] dark:text-[#aaa] mt-1">
+                        {t("seriesPrice", { count: lessonCount, price: formatPrice(price, currency, locale) })}
+                      </p>
+                    )}
                     <p className="text-xs text-[#666] dark:text-[#aaa] mt-1">
                       {t("priceNote")}
                     </p>
@@ -518,6 +712,19 @@ export function BookingClient({ tutor, locale }: BookingClientProps) {
                     </div>
                   )}
 
+                  {/* Occurrences that could not be booked */}
+                  {seriesFailures.length > 0 && (
+                    <ul className="space-y-1 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+                      {seriesFailures.map((failure) => (
+                        <li key={failure.scheduledAt}>
+                          <span className="font-medium">{formatDateTime(failure.scheduledAt)}</span>
+                          {" - "}
+                          {failure.error}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
                   {/* Submit Button */}
                   <div className="flex gap-3">
                     <Button
@@ -0,0 +1,523 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Plus,
+  Trash2,
+  CalendarOff,
+  CalendarPlus,
+  AlertTriangle,
+  Loader2,
+  X,
+} from "lucide-react";
+import { getBrowserTimeZone, getTimeZoneOptions } from "@/lib/utils/timezone";
+
+/**
+ * Availability Exceptions Manager Component
+ *
+ * Date-specific overrides of the weekly schedule:
+ * - Time off (vacation, holidays) - whole days or a time range
+ * - Extra one-off windows on specific dates
+ * - Warning listing confirmed bookings inside new time off
+ */
+type ExceptionType = "BLOCKED" | "AVAILABLE";
+
+interface AvailabilityException {
+  id: string;
+  type: ExceptionType;
+  startDate: string;
+  endDate: string;
+  startTime: string | null;
+  endTime: string | null;
+  timezone: string;
+  reason: string | null;
+}
+
+interface ConflictingBooking {
+  id: string;
+  scheduledAt: string;
+  duration: number;
+  studentName: string | null;
+}
+
+interface AvailabilityExceptionsManagerProps {
+  locale: string;
+}
+
+export function AvailabilityExceptionsManager({ locale }: AvailabilityExceptionsManagerProps) {
+  const t = useTranslations("dashboard.tutor.availability.exceptions");
+  const tAvailability = useTranslations("dashboard.tutor.availability");
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [conflictingBookings, setConflictingBookings] = useState<ConflictingBooking[]>([]);
+
+  // Form state
+  const [type, setType] = useState<ExceptionType>("BLOCKED");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [allDay, setAllDay] = useState(true);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [timezone, setTimezone] = useState("UTC");
+  const [reason, setReason] = useState("");
+
+  // Fetch exceptions
+  const fetchExceptions = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/tutor/availability/exceptions", { signal });
+      if (!response.ok) throw new Error("Failed to fetch availability exceptions");
+      const data = await response.json();
+      if (!signal?.aborted) {
+        setExceptions(data.exceptions || []);
+      }
+    } catch (err) {
+      if (err instanceof Error && err.name === "AbortError") {
+        return; // Request was aborted, ignore
+      }
+      if (!signal?.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to load availability exceptions");
+      }
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    fetchExceptions(abortController.signal);
+    return () => {
+      abortController.abort();
+    };
+  }, []);
+
+  // Open dialog for adding a new exception
+  const handleAdd = (newType: ExceptionType) => {
+    setType(newType);
+    setStartDate("");
+    setEndDate("");
+    setAllDay(newType === "BLOCKED");
+    setStartTime("");
+    setEndTime("");
+    setTimezone(getBrowserTimeZone());
+    setReason("");
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  // Handle delete
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/tutor/availability/exceptions/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete availability exception");
+      }
+
+      await fetchExceptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete availability exception");
+    }
+  };
+
+  // Handle submit
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const withTimes = type === "AVAILABLE" || !allDay;
+      const payload = {
+        type,
+        startDate,
+        endDate: type === "BLOCKED" ? endDate || startDate : startDate,
+        ...(withTimes && { startTime, endTime }),
+        timezone,
+        reason: reason.trim() || undefined,
+      };
+
+      const response = await fetch("/api/tutor/availability/exceptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save availability exception");
+      }
+
+      setConflictingBookings(data.conflictingBookings || []);
+      await fetchExceptions();
+      setIsDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save availability exception");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatDate = (dateKey: string) =>
+    new Intl.DateTimeFormat(locale === "es" ? "es-ES" : "en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    }).format(new Date(`${dateKey}T00:00:00Z`));
+
+  const formatDateTime = (date: string) =>
+    new Intl.DateTimeFormat(locale === "es" ? "es-ES" : "en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(new Date(date));
+
+  const describeRange = (item: AvailabilityException) => {
+    const dates =
+      item.startDate === item.endDate
+        ? formatDate(item.startDate)
+        : `${formatDate(item.startDate)} - ${formatDate(item.endDate)}`;
+
+    if (!item.startTime || !item.endTime) {
+      return `${dates} (${t("allDay")})`;
+    }
+
+    return item.startDate === item.endDate
+      ? `${dates}, ${item.startTime} - ${item.endTime}`
+      : `${formatDate(item.startDate)} ${item.startTime} - ${formatDate(item.endDate)} ${item.endTime}`;
+  };
+
+  return (
+    <Card className="bg-white/90 dark:bg-[#1a1a1a]/90 backdrop-blur-md border border-[#e5e5e5] dark:border-[#262626] shadow-[0_4px_12px_rgba(0,0,0,0.05)] rounded-[24px] sm:rounded-[32px] overflow-hidden">
+      <CardHeader className="pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl sm:text-2xl md:text-3xl font-bold text-black dark:text-white">
+              {t("title")}
+            </CardTitle>
+            <CardDescription className="text-[#666] dark:text-[#a1a1aa] text-base mt-1">
+              {t("description")}
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <div className="flex gap-2">
+              <DialogTrigger asChild>
+                <Button
+                  onClick={() => handleAdd("BLOCKED")}
+                  className="rounded-full bg-[#111] dark:bg-accent text-white dark:text-black hover:bg-[#222] dark:hover:bg-brand-primary-light transition-all"
+                >
+                  <CalendarOff className="w-4 h-4 mr-2" />
+                  {t("addTimeOff")}
+                </Button>
+              </DialogTrigger>
+              <DialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  onClick={() => handleAdd("AVAILABLE")}
+                  className="rounded-full"
+                >
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  {t("addExtraHours")}
+                </Button>
+              </DialogTrigger>
+            </div>
+            <DialogContent className="bg-white/95 dark:bg-[#1a1a1a]/95 backdrop-blur-md border-2 border-[#e5e5e5] dark:border-[#262626] rounded-[24px] max-w-md">
+              <DialogHeader>
+                <DialogTitle className="text-xl sm:text-2xl font-bold text-black dark:text-white">
+                  {type === "BLOCKED" ? t("addTimeOff") : t("addExtraHours")}
+                </DialogTitle>
+                <DialogDescription className="text-[#666] dark:text-[#a1a1aa]">
+                  {type === "BLOCKED" ? t("timeOffDescription") : t("extraHoursDescription")}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <div className="p-3 rounded-lg bg-red-50/80 dark:bg-red-950/50 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div className={type === "BLOCKED" ? "grid grid-cols-2 gap-4" : "space-y-2"}>
+                  <div className="space-y-2">
+                    <Label htmlFor="exceptionStartDate" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                      {type === "BLOCKED" ? t("startDate") : t("date")}
+                    </Label>
+                    <Input
+                      id="exceptionStartDate"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                      required
+                      className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                    />
+                  </div>
+                  {type === "BLOCKED" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="exceptionEndDate" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                        {t("endDate")}
+                      </Label>
+                      <Input
+                        id="exceptionEndDate"
+                        type="date"
+                        value={endDate}
+                        min={startDate || undefined}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {type === "BLOCKED" && (
+                  <div className="flex items-center justify-between p-4 rounded-xl bg-[#fafafa]/80 dark:bg-[#0a0a0a]/80 border border-[#e5e5e5] dark:border-[#262626]">
+                    <Label htmlFor="allDay" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                      {t("allDay")}
+                    </Label>
+                    <Switch id="allDay" checked={allDay} onCheckedChange={setAllDay} />
+                  </div>
+                )}
+
+                {(type === "AVAILABLE" || !allDay) && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="exceptionStartTime" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                        {tAvailability("startTime")}
+                      </Label>
+                      <Input
+                        id="exceptionStartTime"
+                        type="time"
+                        value={startTime}
+                        onChange={(e) => setStartTime(e.target.value)}
+                        required
+                        className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="exceptionEndTime" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                        {tAvailability("endTime")}
+                      </Label>
+                      <Input
+                        id="exceptionEndTime"
+                        type="time"
+                        value={endTime}
+                        onChange={(e) => setEndTime(e.target.value)}
+                        required
+                        className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="exceptionTimezone" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                    {tAvailability("timezone")}
+                  </Label>
+                  <Select value={timezone} onValueChange={setTimezone} required>
+                    <SelectTrigger
+                      id="exceptionTimezone"
+                      className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                    >
+                      <SelectValue placeholder={tAvailability("selectTimezone")} />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-72">
+                      {getTimeZoneOptions(timezone).map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone.replace(/_/g, " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="exceptionReason" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                    {t("reason")}
+                  </Label>
+                  <Input
+                    id="exceptionReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={t("reasonPlaceholder")}
+                    maxLength={200}
+                    className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                  />
+                </div>
+
+                <DialogFooter className="gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsDialogOpen(false)}
+                    className="rounded-full"
+                  >
+                    {tAvailability("cancel")}
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="rounded-full bg-[#111] dark:bg-accent text-white dark:text-black hover:bg-[#222] dark:hover:bg-brand-primary-light"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        {tAvailability("saving")}
+                      </>
+                    ) : (
+                      tAvailability("save")
+                    )}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Warning: confirmed bookings inside new time off */}
+        {conflictingBookings.length > 0 && (
+          <div className="p-4 rounded-xl bg-warning/10 border border-warning/30">
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-sm font-semibold text-black dark:text-white mb-2">
+                    {t("conflictsTitle", { count: conflictingBookings.length })}
+                  </p>
+                  <ul className="space-y-1 text-sm text-[#666] dark:text-[#a1a1aa]">
+                    {conflictingBookings.map((booking) => (
+                      <li key={booking.id}>
+                        {formatDateTime(booking.scheduledAt)} · {booking.duration} min
+                        {booking.studentName ? ` · ${booking.studentName}` : ""}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-[#666] dark:text-[#a1a1aa] mt-2">
+                    {t("conflictsDescription")}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setConflictingBookings([])}
+                className="rounded-full h-8 w-8 p-0"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && !isDialogOpen && (
+          <div className="p-3 rounded-lg bg-red-50/80 dark:bg-red-950/50 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-[#666] dark:text-[#a1a1aa]" />
+          </div>
+        ) : exceptions.length === 0 ? (
+          <div className="text-center py-8">
+            <CalendarOff className="w-12 h-12 mx-auto text-[#999] dark:text-[#666] mb-4" />
+            <p className="text-[#666] dark:text-[#a1a1aa]">{t("noExceptions")}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {exceptions.map((item) => (
+              <div
+                key={item.id}
+                className="flex items-center justify-between p-3 sm:p-4 bg-white/80 dark:bg-[#0a0a0a]/80 rounded-xl border border-[#e5e5e5] dark:border-[#262626]"
+              >
+                <div className="flex flex-wrap items-center gap-3">
+                  <Badge
+                    variant="outline"
+                    className={`rounded-full ${
+                      item.type === "BLOCKED"
+                        ? "bg-red-500/10 text-red-700 dark:text-red-300 border-red-500/40"
+                        : "bg-green-500/10 text-green-700 dark:text-green-300 border-green-500/40"
+                    }`}
+                  >
+                    {item.type === "BLOCKED" ? (
+                      <>
+                        <CalendarOff className="w-3 h-3 mr-1" />
+                        {t("timeOff")}
+                      </>
+                    ) : (
+                      <>
+                        <Plus className="w-3 h-3 mr-1" />
+                        {t("extraHours")}
+                      </>
+                    )}
+                  </Badge>
+                  <span className="text-sm sm:text-base font-medium text-black dark:text-white">
+                    {describeRange(item)}
+                  </span>
+                  <span className="text-xs text-[#666] dark:text-[#a1a1aa]">
+                    {item.timezone.replace(/_/g, " ")}
+                  </span>
+                  {item.reason && (
+                    <span className="text-xs text-[#666] dark:text-[#a1a1aa] italic">
+                      {item.reason}
+                    </span>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(item.id)}
+                  className="rounded-full h-8 w-8 p-0 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/20"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
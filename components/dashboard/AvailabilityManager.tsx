@@ -39,6 +39,8 @@ import {
   CheckCircle2,
   XCircle,
   Loader2,
+  Scissors,
+  Merge,
 } from "lucide-react";
 import {
   AlertDialog,
@@ -50,6 +52,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { getBrowserTimeZone, getTimeZoneOptions } from "@/lib/utils/timezone";
 
 /**
  * Availability Manager Component
@@ -59,6 +62,10 @@ import {
  * - Edit existing slots
  * - Delete slots
  * - Toggle active/inactive
+ * - Per-slot timezone (defaults to the tutor's browser timezone)
+ * - Overnight slots (end time earlier than start time)
+ * - Multiple slots per day, with merging of overlapping slots
+ * - Split a slot around a break
  * - Beautiful, responsive UI
  */
 interface Availability {
@@ -94,11 +101,19 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [canMerge, setCanMerge] = useState(false);
+
+  // Split dialog state
+  const [splittingSlot, setSplittingSlot] = useState<Availability | null>(null);
+  const [splitAt, setSplitAt] = useState("");
+  const [resumeAt, setResumeAt] = useState("");
+  const [splitError, setSplitError] = useState<string | null>(null);
 
   // Form state
   const [dayOfWeek, setDayOfWeek] = useState<string>("");
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
+  const [timezone, setTimezone] = useState("UTC");
   const [isActive, setIsActive] = useState(true);
 
   // Fetch availability
@@ -139,9 +154,11 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
     setDayOfWeek("");
     setStartTime("");
     setEndTime("");
+    setTimezone(getBrowserTimeZone());
     setIsActive(true);
     setIsDialogOpen(true);
     setError(null);
+    setCanMerge(false);
   };
 
   // Open dialog for editing
@@ -150,9 +167,11 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
     setDayOfWeek(item.dayOfWeek.toString());
     setStartTime(item.startTime);
     setEndTime(item.endTime);
+    setTimezone(item.timezone || "UTC");
     setIsActive(item.isActive);
     setIsDialogOpen(true);
     setError(null);
+    setCanMerge(false);
   };
 
   // Handle delete
@@ -183,10 +202,11 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
     }
   };
 
-  // Handle submit (create or update)
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Save availability (create or update)
+  // New slots that overlap an existing slot on the same day can be merged into it
+  const saveAvailability = async (merge: boolean) => {
     setError(null);
+    setCanMerge(false);
     setIsSubmitting(true);
 
     try {
@@ -194,7 +214,9 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
         dayOfWeek: parseInt(dayOfWeek),
         startTime,
         endTime,
+        timezone,
         isActive,
+        ...(!editingId && merge && { merge: true }),
       };
 
       const url = editingId
@@ -210,6 +232,9 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
 
       if (!response.ok) {
         const data = await response.json();
+        if (!editingId && response.status === 409) {
+          setCanMerge(true);
+        }
         throw new Error(data.error || "Failed to save availability");
       }
 
@@ -223,6 +248,52 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
     }
   };
 
+  // Handle submit
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveAvailability(false);
+  };
+
+  // Open dialog for splitting a slot
+  const handleSplit = (item: Availability) => {
+    setSplittingSlot(item);
+    setSplitAt("");
+    setResumeAt("");
+    setSplitError(null);
+  };
+
+  // Confirm split
+  const confirmSplit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!splittingSlot) return;
+
+    setSplitError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/tutor/availability/${splittingSlot.id}/split`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          splitAt,
+          ...(resumeAt && { resumeAt }),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to split availability");
+      }
+
+      await fetchAvailability();
+      setSplittingSlot(null);
+    } catch (err) {
+      setSplitError(err instanceof Error ? err.message : "Failed to split availability");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Toggle active status
   const handleToggleActive = async (id: string, currentStatus: boolean) => {
     try {
@@ -233,7 +304,8 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to update availability");
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update availability");
       }
 
       await fetchAvailability();
@@ -294,6 +366,24 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
                   {error && (
                     <div className="p-3 rounded-lg bg-red-50/80 dark:bg-red-950/50 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 text-sm">
                       {error}
+                      {canMerge && (
+                        <div className="mt-3">
+                          <p className="text-xs text-[#666] dark:text-[#a1a1aa] mb-2">
+                            {t("mergeHint")}
+                          </p>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => saveAvailability(true)}
+                            disabled={isSubmitting}
+                            className="rounded-full"
+                          >
+                            <Merge className="w-4 h-4 mr-2" />
+                            {t("merge")}
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -344,6 +434,33 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
                     </div>
                   </div>
 
+                  {startTime && endTime && endTime < startTime && (
+                    <p className="text-xs text-[#666] dark:text-[#a1a1aa]">
+                      {t("overnightHint")}
+                    </p>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="timezone" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                      {t("timezone")}
+                    </Label>
+                    <Select value={timezone} onValueChange={setTimezone} required>
+                      <SelectTrigger
+                        id="timezone"
+                        className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                      >
+                        <SelectValue placeholder={t("selectTimezone")} />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-72">
+                        {getTimeZoneOptions(timezone).map((zone) => (
+                          <SelectItem key={zone} value={zone}>
+                            {zone.replace(/_/g, " ")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div className="flex items-center justify-between p-4 rounded-xl bg-[#fafafa]/80 dark:bg-[#0a0a0a]/80 border border-[#e5e5e5] dark:border-[#262626]">
                     <div>
                       <Label htmlFor="isActive" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
@@ -433,6 +550,9 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
                               <span className="text-sm sm:text-base font-medium text-black dark:text-white">
                                 {item.startTime} - {item.endTime}
                               </span>
+                              <span className="text-xs text-[#666] dark:text-[#a1a1aa]">
+                                {item.timezone.replace(/_/g, " ")}
+                              </span>
                             </div>
                             <Badge
                               variant={item.isActive ? "default" : "outline"}
@@ -461,6 +581,15 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
                               onCheckedChange={() => handleToggleActive(item.id, item.isActive)}
                               className="mr-2"
                             />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleSplit(item)}
+                              className="rounded-full h-8 w-8 p-0"
+                              aria-label={t("split")}
+                            >
+                              <Scissors className="w-4 h-4" />
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -489,6 +618,86 @@ export function AvailabilityManager({ locale }: AvailabilityManagerProps) {
         </CardContent>
       </Card>
 
+      {/* Split Dialog */}
+      <Dialog open={!!splittingSlot} onOpenChange={(open) => !open && setSplittingSlot(null)}>
+        <DialogContent className="bg-white/95 dark:bg-[#1a1a1a]/95 backdrop-blur-md border-2 border-[#e5e5e5] dark:border-[#262626] rounded-[24px] max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl sm:text-2xl font-bold text-black dark:text-white">
+              {t("splitTitle")}
+            </DialogTitle>
+            <DialogDescription className="text-[#666] dark:text-[#a1a1aa]">
+              {splittingSlot &&
+                t("splitDescription", {
+                  startTime: splittingSlot.startTime,
+                  endTime: splittingSlot.endTime,
+                })}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={confirmSplit} className="space-y-4">
+            {splitError && (
+              <div className="p-3 rounded-lg bg-red-50/80 dark:bg-red-950/50 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 text-sm">
+                {splitError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="splitAt" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                  {t("splitAt")}
+                </Label>
+                <Input
+                  id="splitAt"
+                  type="time"
+                  value={splitAt}
+                  onChange={(e) => setSplitAt(e.target.value)}
+                  required
+                  className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resumeAt" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
+                  {t("resumeAt")}
+                </Label>
+                <Input
+                  id="resumeAt"
+                  type="time"
+                  value={resumeAt}
+                  onChange={(e) => setResumeAt(e.target.value)}
+                  className="rounded-full border-[#e5e5e5] dark:border-[#262626] bg-white/80 dark:bg-[#0a0a0a]/80"
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-[#666] dark:text-[#a1a1aa]">{t("resumeAtHint")}</p>
+
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setSplittingSlot(null)}
+                className="rounded-full"
+              >
+                {t("cancel")}
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="rounded-full bg-[#111] dark:bg-accent text-white dark:text-black hover:bg-[#222] dark:hover:bg-brand-primary-light"
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {t("saving")}
+                  </>
+                ) : (
+                  t("split")
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent className="bg-white/95 dark:bg-[#1a1a1a]/95 backdrop-blur-md border-2 border-[#e5e5e5] dark:border-[#262626] rounded-[24px]">
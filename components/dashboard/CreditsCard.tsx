@@ -0,0 +1,238 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Coins, Loader2, ArrowDownRight, ArrowUpRight } from "lucide-react";
+import {
+  formatPrice,
+  SETTLEMENT_CURRENCY,
+  type CurrencyQuote,
+} from "@/lib/booking/currency";
+
+/**
+ * Credits Card Component
+ *
+ * Prepaid lesson credits for students:
+ * - Current balance
+ * - Bundles to buy (redirects to Stripe checkout)
+ * - Ledger history (purchases, bookings, returned credits)
+ */
+type CreditLedgerEntryType = "PURCHASE" | "BOOKING" | "RETURN" | "ADJUSTMENT";
+
+interface CreditLedgerEntry {
+  id: string;
+  type: CreditLedgerEntryType;
+  minutes: number;
+  balanceAfter: number;
+  description: string | null;
+  amountPaid: number | null;
+  createdAt: string;
+}
+
+interface CreditBundleOption {
+  id: string;
+  hours: number;
+  discountPercent: number;
+  price: number;
+  fullPrice: number;
+}
+
+interface CreditsCardProps {
+  locale: string;
+}
+
+export function CreditsCard({ locale }: CreditsCardProps) {
+  const t = useTranslations("dashboard.credits");
+  const [balanceMinutes, setBalanceMinutes] = useState(0);
+  const [ledger, setLedger] = useState<CreditLedgerEntry[]>([]);
+  const [bundles, setBundles] = useState<CreditBundleOption[]>([]);
+  const [currency, setCurrency] = useState<CurrencyQuote>({
+    currency: SETTLEMENT_CURRENCY,
+    exchangeRate: 1,
+  });
+  const [loading, setLoading] = useState(true);
+  const [purchasingBundleId, setPurchasingBundleId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchCredits = async () => {
+      try {
+        const response = await fetch("/api/user/credits", {
+          headers: { "x-locale": locale },
+          signal: abortController.signal,
+        });
+        if (!response.ok) throw new Error("Failed to fetch credits");
+        const data = await response.json();
+        setBalanceMinutes(data.balanceMinutes || 0);
+        setLedger(data.ledger || []);
+        setBundles(data.bundles || []);
+        if (data.currency) setCurrency(data.currency);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to load credits");
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchCredits();
+    return () => {
+      abortController.abort();
+    };
+  }, [locale]);
+
+  // Start Stripe checkout for a bundle
+  const handlePurchase = async (bundleId: string) => {
+    setPurchasingBundleId(bundleId);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/payments/credits", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-locale": locale,
+        },
+        body: JSON.stringify({ bundleId }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.url) {
+        throw new Error(data.error || "Failed to start credit purchase");
+      }
+
+      window.location.href = data.url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start credit purchase");
+      setPurchasingBundleId(null);
+    }
+  };
+
+  const formatDate = (isoString: string) =>
+    new Date(isoString).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  return (
+    <Card className="bg-card border-2 border-border rounded-3xl shadow-xl mb-12">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="p-2.5 bg-accent/20 rounded-xl">
+            <Coins className="w-6 h-6 text-accent" />
+          </div>
+          {t("title")}
+        </CardTitle>
+        <CardDescription>{t("description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-accent" />
+          </div>
+        ) : (
+          <>
+            {/* Balance */}
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">{t("balance")}</p>
+              <p className="text-4xl font-bold text-foreground">
+                {t("minutes", { minutes: balanceMinutes })}
+              </p>
+            </div>
+
+            {/* Bundles */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {bundles.map((bundle) => (
+                <div
+                  key={bundle.id}
+                  className="p-4 border-2 border-border rounded-2xl flex items-center justify-between gap-4"
+                >
+                  <div>
+                    <p className="font-bold text-foreground">{t("bundle", { hours: bundle.hours })}</p>
+                    <p className="text-sm text-muted-foreground">
+                      <span className="line-through mr-2">{formatPrice(bundle.fullPrice, currency, locale)}</span>
+                      <span className="font-semibold text-foreground">{formatPrice(bundle.price, currency, locale)}</span>
+                    </p>
+                    <Badge className="mt-1 bg-success/20 text-success border-success/30 rounded-full text-xs">
+                      {t("discount", { percent: bundle.discountPercent })}
+                    </Badge>
+                  </div>
+                  <Button
+                    onClick={() => handlePurchase(bundle.id)}
+                    disabled={purchasingBundleId !== null}
+                    className="rounded-xl"
+                  >
+                    {purchasingBundleId === bundle.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      t("buy")
+                    )}
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-error">{error}</p>}
+
+            {/* History */}
+            <div>
+              <p className="text-sm font-semibold text-foreground mb-3">{t("history")}</p>
+              {ledger.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("noHistory")}</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {ledger.map((entry) => (
+                    <li key={entry.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        {entry.minutes >= 0 ? (
+                          <ArrowUpRight className="w-4 h-4 text-success" />
+                        ) : (
+                          <ArrowDownRight className="w-4 h-4 text-error" />
+                        )}
+                        <div>
+                          <p className="font-medium text-foreground">
+                            {t(`types.${entry.type}`)}
+                            {entry.description && (
+                              <span className="text-muted-foreground font-normal"> · {entry.description}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{formatDate(entry.createdAt)}</p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className={`font-semibold ${entry.minutes >= 0 ? "text-success" : "text-error"}`}>
+                          {entry.minutes >= 0 ? "+" : ""}
+                          {t("minutes", { minutes: entry.minutes })}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {t("balanceAfter", { minutes: entry.balanceAfter })}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
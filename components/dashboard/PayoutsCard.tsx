@@ -0,0 +1,321 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Wallet, Loader2, ArrowDownRight, ArrowUpRight, AlertCircle } from "lucide-react";
+import { formatCurrency, SETTLEMENT_CURRENCY } from "@/lib/booking/currency";
+
+/**
+ * Payouts Card Component
+ *
+ * Tutor earnings and payouts:
+ * - Stripe Connect onboarding (redirects to Stripe)
+ * - Unpaid balance and payout schedule
+ * - Earnings ledger (sessions, refund clawbacks, adjustments)
+ * - Payout history
+ */
+type EarningEntryType = "SESSION" | "REFUND" | "ADJUSTMENT";
+type PayoutStatus = "PENDING" | "PAID" | "FAILED";
+
+interface EarningEntry {
+  id: string;
+  type: EarningEntryType;
+  amount: number;
+  grossAmount: number;
+  commission: number;
+  // Amount the student was charged, in their currency
+  chargedAmount: number | null;
+  chargedCurrency: string | null;
+  description: string | null;
+  payoutId: string | null;
+  createdAt: string;
+}
+
+interface Payout {
+  id: string;
+  amount: number;
+  status: PayoutStatus;
+  createdAt: string;
+  paidAt: string | null;
+}
+
+interface PayoutAccount {
+  connected: boolean;
+  payoutsEnabled: boolean;
+  payoutsHeld: boolean;
+  payoutHoldReason: string | null;
+}
+
+interface PayoutSchedule {
+  dayOfWeek: number;
+  clearingDays: number;
+  minimumAmount: number;
+}
+
+interface PayoutsCardProps {
+  locale: string;
+}
+
+export function PayoutsCard({ locale }: PayoutsCardProps) {
+  const t = useTranslations("dashboard.tutor.payouts");
+  const [account, setAccount] = useState<PayoutAccount | null>(null);
+  const [unpaidBalance, setUnpaidBalance] = useState(0);
+  const [totalEarned, setTotalEarned] = useState(0);
+  const [entries, setEntries] = useState<EarningEntry[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [schedule, setSchedule] = useState<PayoutSchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [onboarding, setOnboarding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchPayouts = async () => {
+      try {
+        const response = await fetch("/api/tutor/payouts", { signal: abortController.signal });
+        if (!response.ok) throw new Error("Failed to fetch payouts");
+        const data = await response.json();
+        setAccount(data.account || null);
+        setUnpaidBalance(data.unpaidBalance || 0);
+        setTotalEarned(data.totalEarned || 0);
+        setEntries(data.entries || []);
+        setPayouts(data.payouts || []);
+        setSchedule(data.schedule || null);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to load payouts");
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchPayouts();
+    return () => {
+      abortController.abort();
+    };
+  }, []);
+
+  // Start (or resume) Stripe Connect onboarding
+  const handleOnboard = async () => {
+    setOnboarding(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/tutor/payouts/onboard", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-locale": locale,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.url) {
+        throw new Error(data.error || "Failed to start payout setup");
+      }
+
+      window.location.href = data.url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start payout setup");
+      setOnboarding(false);
+    }
+  };
+
+  const dateLocale = locale === "es" ? "es-ES" : "en-US";
+
+  const formatDate = (isoString: string) =>
+    new Date(isoString).toLocaleDateString(dateLocale, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  // Weekday name for the payout schedule (2024-01-07 is a Sunday)
+  const payoutDay = schedule
+    ? new Date(Date.UTC(2024, 0, 7 + schedule.dayOfWeek)).toLocaleDateString(dateLocale, {
+        weekday: "long",
+        timeZone: "UTC",
+      })
+    : "";
+
+  const getPayoutStatusBadge = (status: PayoutStatus) => {
+    const className =
+      status === "PAID"
+        ? "bg-success/20 text-success border-success/30"
+        : status === "FAILED"
+          ? "bg-error/20 text-error border-error/30"
+          : "bg-warning/20 text-warning border-warning/30";
+
+    return (
+      <Badge className={`${className} rounded-full text-xs`}>
+        {t(`statuses.${status}`)}
+      </Badge>
+    );
+  };
+
+  return (
+    <Card className="bg-card border-2 border-border rounded-3xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="p-2.5 bg-accent/20 rounded-xl">
+            <Wallet className="w-6 h-6 text-accent" />
+          </div>
+          {t("title")}
+        </CardTitle>
+        <CardDescription>{t("description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-accent" />
+          </div>
+        ) : (
+          <>
+            {/* Account status */}
+            {account && !account.payoutsEnabled && (
+              <div className="p-4 border-2 border-border rounded-2xl flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {account.connected ? t("finishSetupHint") : t("setupHint")}
+                </p>
+                <Button onClick={handleOnboard} disabled={onboarding} className="rounded-xl">
+                  {onboarding ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : account.connected ? (
+                    t("finishSetup")
+                  ) : (
+                    t("setup")
+                  )}
+                </Button>
+              </div>
+            )}
+
+            {account?.payoutsHeld && (
+              <div className="p-4 bg-warning/10 border border-warning/30 rounded-2xl flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+                <div className="text-sm">
+                  <p className="font-semibold text-foreground">{t("held")}</p>
+                  {account.payoutHoldReason && (
+                    <p className="text-muted-foreground">{account.payoutHoldReason}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Balance */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">{t("unpaidBalance")}</p>
+                <p className="text-4xl font-bold text-foreground">${unpaidBalance.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">{t("totalEarned")}</p>
+                <p className="text-4xl font-bold text-foreground">${totalEarned.toFixed(2)}</p>
+              </div>
+            </div>
+
+            {schedule && (
+              <p className="text-sm text-muted-foreground">
+                {t("schedule", {
+                  day: payoutDay,
+                  days: schedule.clearingDays,
+                  minimum: schedule.minimumAmount.toFixed(2),
+                })}
+              </p>
+            )}
+
+            {error && <p className="text-sm text-error">{error}</p>}
+
+            {/* Earnings history */}
+            <div>
+              <p className="text-sm font-semibold text-foreground mb-3">{t("earningsHistory")}</p>
+              {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("noEarnings")}</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {entries.map((entry) => (
+                    <li key={entry.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        {entry.amount >= 0 ? (
+                          <ArrowUpRight className="w-4 h-4 text-success" />
+                        ) : (
+                          <ArrowDownRight className="w-4 h-4 text-error" />
+                        )}
+                        <div>
+                          <p className="font-medium text-foreground">
+                            {t(`types.${entry.type}`)}
+                            {entry.description && (
+                              <span className="text-muted-foreground font-normal"> · {entry.description}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{formatDate(entry.createdAt)}</p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className={`font-semibold ${entry.amount >= 0 ? "text-success" : "text-error"}`}>
+                          {entry.amount >= 0 ? "+" : "-"}${Math.abs(entry.amount).toFixed(2)}
+                        </p>
+                        {entry.chargedAmount !== null &&
+                          entry.chargedCurrency &&
+                          entry.chargedCurrency !== SETTLEMENT_CURRENCY && (
+                          <p className="text-xs text-muted-foreground">
+                            {t("studentPaid", {
+                              amount: formatCurrency(
+                                Math.abs(entry.chargedAmount),
+                                entry.chargedCurrency,
+                                locale
+                              ),
+                            })}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {entry.payoutId ? t("paidOut") : t("unpaid")}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Payout history */}
+            <div>
+              <p className="text-sm font-semibold text-foreground mb-3">{t("payoutHistory")}</p>
+              {payouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("noPayouts")}</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {payouts.map((payout) => (
+                    <li key={payout.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                      <div>
+                        <p className="font-medium text-foreground">${payout.amount.toFixed(2)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(payout.paidAt || payout.createdAt)}
+                        </p>
+                      </div>
+                      {getPayoutStatusBadge(payout.status)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,588 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Flag, Loader2, Plus, Target, Trash2, TrendingUp, Trophy } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { CefrLevel } from "@prisma/client";
+import { ASSESSED_SKILLS, CEFR_LEVELS, getLevelRank } from "@/lib/progress/levels";
+
+/**
+ * Progress Card Component
+ *
+ * CEFR level tracking for students:
+ * - Current level per language, from tutor assessments
+ * - Level and skills over time (chart) and the assessment timeline
+ * - Goals with milestones towards a target level
+ */
+interface Assessment {
+  id: string;
+  bookingId: string;
+  language: string;
+  level: CefrLevel;
+  speaking: CefrLevel;
+  listening: CefrLevel;
+  grammar: CefrLevel;
+  vocabulary: CefrLevel;
+  comment: string | null;
+  createdAt: string;
+  tutor: { user: { name: string | null } };
+}
+
+interface Milestone {
+  id: string;
+  title: string | null;
+  level: CefrLevel | null;
+  completedAt: string | null;
+}
+
+interface Goal {
+  id: string;
+  language: string;
+  purpose: string | null;
+  targetLevel: CefrLevel;
+  targetDate: string | null;
+  achievedAt: string | null;
+  milestones: Milestone[];
+}
+
+interface CurrentLevel {
+  language: string;
+  level: CefrLevel;
+  assessedAt: string;
+}
+
+interface ProgressCardProps {
+  locale: string;
+}
+
+const SKILL_COLORS: Record<string, string> = {
+  level: "#111111",
+  speaking: "#3b82f6",
+  listening: "#10b981",
+  grammar: "#f59e0b",
+  vocabulary: "#8b5cf6",
+};
+
+const formatLevel = (rank: number) => CEFR_LEVELS[rank - 1] || "";
+
+export function ProgressCard({ locale }: ProgressCardProps) {
+  const t = useTranslations("progress");
+  const [levels, setLevels] = useState<CurrentLevel[]>([]);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [startingLevel, setStartingLevel] = useState<CefrLevel | null>(null);
+  const [selectedLanguage, setSelectedLanguage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // New goal form
+  const [showGoalForm, setShowGoalForm] = useState(false);
+  const [goalLanguage, setGoalLanguage] = useState("");
+  const [goalLevel, setGoalLevel] = useState<CefrLevel | "">("");
+  const [goalDate, setGoalDate] = useState("");
+  const [goalMilestones, setGoalMilestones] = useState("");
+  const [savingGoal, setSavingGoal] = useState(false);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchProgress = async () => {
+      try {
+        const response = await fetch("/api/user/progress", {
+          signal: abortController.signal,
+        });
+        if (!response.ok) throw new Error("Failed to fetch progress");
+        const data = await response.json();
+        setLevels(data.levels || []);
+        setAssessments(data.assessments || []);
+        setGoals(data.goals || []);
+        setStartingLevel(data.startingLevel || null);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to load progress");
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchProgress();
+    return () => {
+      abortController.abort();
+    };
+  }, []);
+
+  const dateLocale = locale === "es" ? "es-ES" : "en-US";
+  const formatDate = (isoString: string) =>
+    new Date(isoString).toLocaleDateString(dateLocale, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  // Chart one language at a time, defaulting to the most recently assessed
+  const chartLanguage = selectedLanguage || assessments[assessments.length - 1]?.language || null;
+  const chartData = useMemo(
+    () =>
+      assessments
+        .filter((assessment) => assessment.language === chartLanguage)
+        .map((assessment) => ({
+          date: new Date(assessment.createdAt).toLocaleDateString(dateLocale, {
+            month: "short",
+            day: "numeric",
+          }),
+          level: getLevelRank(assessment.level),
+          speaking: getLevelRank(assessment.speaking),
+          listening: getLevelRank(assessment.listening),
+          grammar: getLevelRank(assessment.grammar),
+          vocabulary: getLevelRank(assessment.vocabulary),
+        })),
+    [assessments, chartLanguage, dateLocale]
+  );
+
+  const handleCreateGoal = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSavingGoal(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/user/goals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: goalLanguage,
+          targetLevel: goalLevel,
+          targetDate: goalDate ? new Date(`${goalDate}T23:59:59`).toISOString() : null,
+          milestones: goalMilestones
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to create goal");
+
+      setGoals((current) => [...current, data.goal]);
+      setShowGoalForm(false);
+      setGoalLanguage("");
+      setGoalLevel("");
+      setGoalDate("");
+      setGoalMilestones("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create goal");
+    } finally {
+      setSavingGoal(false);
+    }
+  };
+
+  const handleRemoveGoal = async (goalId: string) => {
+    setUpdatingId(goalId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/user/goals/${goalId}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to remove goal");
+
+      setGoals((current) => current.filter((goal) => goal.id !== goalId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove goal");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleToggleMilestone = async (goalId: string, milestone: Milestone) => {
+    setUpdatingId(milestone.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/user/goals/${goalId}/milestones/${milestone.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ completed: !milestone.completedAt }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update milestone");
+
+      setGoals((current) =>
+        current.map((goal) =>
+          goal.id === goalId
+            ? {
+                ...goal,
+                milestones: goal.milestones.map((item) =>
+                  item.id === milestone.id ? data.milestone : item
+                ),
+              }
+            : goal
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update milestone");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const chartLanguages = Array.from(new Set(assessments.map((assessment) => assessment.language)));
+
+  return (
+    <Card className="bg-card border-2 border-border rounded-3xl shadow-xl mb-12">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="p-2.5 bg-accent/20 rounded-xl">
+            <TrendingUp className="w-6 h-6 text-accent" />
+          </div>
+          {t("title")}
+        </CardTitle>
+        <CardDescription>{t("description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-accent" />
+          </div>
+        ) : (
+          <>
+            {/* Current levels */}
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-3">{t("currentLevels")}</p>
+              {levels.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {startingLevel
+                    ? t("startingLevel", { level: startingLevel })
+                    : t("noAssessments")}
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-3">
+                  {levels.map((current) => (
+                    <div
+                      key={current.language}
+                      className="p-4 border-2 border-border rounded-2xl min-w-[10rem]"
+                    >
+                      <p className="text-sm text-muted-foreground">{current.language}</p>
+                      <p className="text-3xl font-bold text-foreground">{current.level}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {t(`levels.${current.level}`)} · {formatDate(current.assessedAt)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Chart */}
+            {chartData.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <p className="text-sm font-semibold text-foreground">{t("chartTitle")}</p>
+                  {chartLanguages.length > 1 && chartLanguage && (
+                    <Select value={chartLanguage} onValueChange={setSelectedLanguage}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {chartLanguages.map((language) => (
+                          <SelectItem key={language} value={language}>
+                            {language}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <ResponsiveContainer width="100%" height={250}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" className="dark:stroke-[#262626]" />
+                    <XAxis dataKey="date" stroke="#666" className="dark:stroke-[#aaa]" tick={{ fontSize: 12 }} />
+                    <YAxis
+                      domain={[1, CEFR_LEVELS.length]}
+                      ticks={CEFR_LEVELS.map((level) => getLevelRank(level))}
+                      tickFormatter={formatLevel}
+                      stroke="#666"
+                      className="dark:stroke-[#aaa]"
+                      tick={{ fontSize: 12 }}
+                      width={32}
+                    />
+                    <Tooltip
+                      formatter={(value) => formatLevel(Number(value))}
+                      contentStyle={{
+                        backgroundColor: "rgba(255, 255, 255, 0.95)",
+                        border: "1px solid #e5e5e5",
+                        borderRadius: "8px",
+                      }}
+                    />
+                    <Legend />
+                    {(["level", ...ASSESSED_SKILLS] as const).map((key) => (
+                      <Line
+                        key={key}
+                        type="monotone"
+                        dataKey={key}
+                        name={key === "level" ? t("overallLevel") : t(`skills.${key}`)}
+                        stroke={SKILL_COLORS[key]}
+                        strokeWidth={key === "level" ? 3 : 1.5}
+                        dot={{ r: key === "level" ? 4 : 2 }}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {/* Goals */}
+            <div>
+              <div className="flex items-center justify-between gap-4 mb-3">
+                <p className="text-sm font-semibold text-foreground">{t("goals")}</p>
+                {!showGoalForm && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl"
+                    onClick={() => {
+                      setShowGoalForm(true);
+                      setGoalLanguage(chartLanguage || "");
+                    }}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    {t("addGoal")}
+                  </Button>
+                )}
+              </div>
+
+              {showGoalForm && (
+                <form
+                  onSubmit={handleCreateGoal}
+                  className="rounded-xl border border-dashed border-border p-4 space-y-3 mb-4"
+                >
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="space-y-1.5">
+                      <Label htmlFor="goalLanguage">{t("language")}</Label>
+                      <Input
+                        id="goalLanguage"
+                        value={goalLanguage}
+                        onChange={(event) => setGoalLanguage(event.target.value)}
+                        maxLength={50}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="goalLevel">{t("targetLevel")}</Label>
+                      <Select value={goalLevel} onValueChange={(value) => setGoalLevel(value as CefrLevel)}>
+                        <SelectTrigger id="goalLevel">
+                          <SelectValue placeholder={t("selectLevel")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CEFR_LEVELS.map((level) => (
+                            <SelectItem key={level} value={level}>
+                              {level} · {t(`levels.${level}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="goalDate">{t("targetDate")}</Label>
+                      <Input
+                        id="goalDate"
+                        type="date"
+                        value={goalDate}
+                        onChange={(event) => setGoalDate(event.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="goalMilestones">{t("customMilestones")}</Label>
+                    <Textarea
+                      id="goalMilestones"
+                      value={goalMilestones}
+                      onChange={(event) => setGoalMilestones(event.target.value)}
+                      placeholder={t("customMilestonesPlaceholder")}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="submit"
+                      disabled={savingGoal || !goalLanguage.trim() || !goalLevel}
+                      className="rounded-xl"
+                    >
+                      {savingGoal ? <Loader2 className="w-4 h-4 animate-spin" /> : t("createGoal")}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="rounded-xl"
+                      onClick={() => setShowGoalForm(false)}
+                    >
+                      {t("cancel")}
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {goals.length === 0 ? (
+                !showGoalForm && <p className="text-sm text-muted-foreground">{t("noGoals")}</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {goals.map((goal) => {
+                    const completed = goal.milestones.filter((milestone) => milestone.completedAt).length;
+                    return (
+                      <div key={goal.id} className="p-4 border-2 border-border rounded-2xl space-y-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div>
+                            <p className="font-bold text-foreground flex items-center gap-2">
+                              {goal.achievedAt ? (
+                                <Trophy className="w-4 h-4 text-success" />
+                              ) : (
+                                <Target className="w-4 h-4 text-accent" />
+                              )}
+                              {t("goalTitle", { language: goal.language, level: goal.targetLevel })}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {goal.achievedAt
+                                ? t("achievedOn", { date: formatDate(goal.achievedAt) })
+                                : goal.targetDate
+                                ? t("targetBy", { date: formatDate(goal.targetDate) })
+                                : t("milestonesDone", { completed, total: goal.milestones.length })}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {goal.purpose && (
+                              <Badge variant="outline" className="rounded-full text-xs capitalize">
+                                {goal.purpose}
+                              </Badge>
+                            )}
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleRemoveGoal(goal.id)}
+                              disabled={updatingId === goal.id}
+                              aria-label={t("removeGoal")}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {goal.milestones.length > 0 && (
+                          <ul className="space-y-1.5">
+                            {goal.milestones.map((milestone) => (
+                              <li key={milestone.id}>
+                                <label
+                                  className={`flex items-center gap-2 text-sm ${
+                                    milestone.level ? "" : "cursor-pointer"
+                                  }`}
+                                >
+                                  <Checkbox
+                                    checked={!!milestone.completedAt}
+                                    onCheckedChange={() => handleToggleMilestone(goal.id, milestone)}
+                                    // Level milestones are completed by tutor assessments
+                                    disabled={!!milestone.level || updatingId === milestone.id}
+                                  />
+                                  <span
+                                    className={
+                                      milestone.completedAt ? "line-through text-muted-foreground" : "text-foreground"
+                                    }
+                                  >
+                                    {milestone.level ? (
+                                      <span className="inline-flex items-center gap-1.5">
+                                        <Flag className="w-3.5 h-3.5" />
+                                        {t("reachLevel", { level: milestone.level })}
+                                      </span>
+                                    ) : (
+                                      milestone.title
+                                    )}
+                                  </span>
+                                </label>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {error && <p className="text-sm text-error">{error}</p>}
+
+            {/* Assessment timeline */}
+            <div>
+              <p className="text-sm font-semibold text-foreground mb-3">{t("timeline")}</p>
+              {assessments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("noAssessments")}</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {[...assessments].reverse().map((assessment) => (
+                    <li key={assessment.id} className="py-3 flex items-start justify-between gap-4 text-sm">
+                      <div>
+                        <p className="font-medium text-foreground">
+                          {assessment.language}
+                          <span className="text-muted-foreground font-normal">
+                            {" "}
+                            · {t("assessedBy", { name: assessment.tutor.user.name || "Tutor" })}
+                          </span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {ASSESSED_SKILLS.map(
+                            (skill) => `${t(`skills.${skill}`)} ${assessment[skill]}`
+                          ).join(" · ")}
+                        </p>
+                        {assessment.comment && (
+                          <p className="text-xs text-muted-foreground mt-1 whitespace-pre-wrap">
+                            {assessment.comment}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right shrink-0">
+                        <Badge className="bg-accent/20 text-accent border-accent/30 rounded-full">
+                          {assessment.level}
+                        </Badge>
+                        <p className="text-xs text-muted-foreground mt-1">{formatDate(assessment.createdAt)}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
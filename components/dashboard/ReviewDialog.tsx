@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Star, X } from "lucide-react";
+import type { Review } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+/**
+ * Suggested tags shown as quick picks (students can also type their own)
+ */
+const SUGGESTED_TAGS = [
+  "patient",
+  "engaging",
+  "clear",
+  "knowledgeable",
+  "well-prepared",
+  "friendly",
+];
+
+const MAX_TAGS = 5;
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookingId: string;
+  tutorName: string;
+  existingReview?: Pick<Review, "rating" | "comment" | "tags"> | null;
+  onSaved?: () => void;
+}
+
+/**
+ * Review Dialog
+ *
+ * Lets a student rate a completed session, or edit their review
+ * while it is still inside the edit window.
+ */
+export function ReviewDialog({
+  open,
+  onOpenChange,
+  bookingId,
+  tutorName,
+  existingReview,
+  onSaved,
+}: ReviewDialogProps) {
+  const t = useTranslations("dashboard.review");
+  const tCommon = useTranslations("common");
+
+  const [rating, setRating] = useState(existingReview?.rating ?? 0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState(existingReview?.comment ?? "");
+  const [tags, setTags] = useState<string[]>(existingReview?.tags ?? []);
+  const [customTag, setCustomTag] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditing = !!existingReview;
+
+  const toggleTag = (tag: string) => {
+    const normalized = tag.trim().toLowerCase();
+    if (!normalized) return;
+
+    setTags((current) => {
+      if (current.includes(normalized)) {
+        return current.filter((t) => t !== normalized);
+      }
+      if (current.length >= MAX_TAGS) {
+        return current;
+      }
+      return [...current, normalized];
+    });
+  };
+
+  const handleAddCustomTag = () => {
+    toggleTag(customTag);
+    setCustomTag("");
+  };
+
+  const handleSubmit = async () => {
+    if (rating < 1) {
+      setError(t("ratingRequired"));
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/review`, {
+        method: isEditing ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          rating,
+          comment: comment.trim() || (isEditing ? null : undefined),
+          tags,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save review");
+      }
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to save review. Please try again."
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const displayRating = hoverRating || rating;
+
+  return (
+    <Dialog open={open} onOpenChange={submitting ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-card/95 backdrop-blur-md border-2 border-border rounded-3xl shadow-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-foreground">
+            {isEditing ? t("editTitle") : t("title")}
+          </DialogTitle>
+          <DialogDescription className="text-base text-muted-foreground pt-2">
+            {t("description", { tutorName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          {/* Star Rating */}
+          <div>
+            <Label className="text-sm font-medium mb-2 block">{t("rating")}</Label>
+            <div className="flex items-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setRating(value)}
+                  onMouseEnter={() => setHoverRating(value)}
+                  aria-label={t("starLabel", { count: value })}
+                  className="p-1 transition-transform hover:scale-110"
+                >
+                  <Star
+                    className={`w-8 h-8 ${
+                      value <= displayRating
+                        ? "fill-[#ffb800] text-[#ffb800]"
+                        : "text-gray-300 dark:text-gray-600"
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Comment */}
+          <div>
+            <Label className="text-sm font-medium mb-2 block">{t("comment")}</Label>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={t("commentPlaceholder")}
+              className="w-full min-h-[120px] resize-none"
+              maxLength={2000}
+            />
+          </div>
+
+          {/* Tags */}
+          <div>
+            <Label className="text-sm font-medium mb-2 block">
+              {t("tags", { max: MAX_TAGS })}
+            </Label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {Array.from(new Set([...SUGGESTED_TAGS, ...tags])).map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    tags.includes(tag)
+                      ? "bg-accent/20 text-accent border-accent/50"
+                      : "bg-muted/60 text-muted-foreground border-border hover:border-accent/50"
+                  }`}
+                >
+                  {tag}
+                  {tags.includes(tag) && <X className="w-3 h-3" />}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={customTag}
+                onChange={(e) => setCustomTag(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddCustomTag();
+                  }
+                }}
+                placeholder={t("customTagPlaceholder")}
+                maxLength={30}
+                disabled={tags.length >= MAX_TAGS}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAddCustomTag}
+                disabled={!customTag.trim() || tags.length >= MAX_TAGS}
+              >
+                {t("addTag")}
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-error/10 border border-error/20 rounded-lg">
+              <p className="text-sm text-error">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={submitting}
+          >
+            {tCommon("cancel")}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || rating < 1}
+            className="bg-primary text-primary-foreground"
+          >
+            {submitting ? t("submitting") : isEditing ? t("update") : t("submit")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
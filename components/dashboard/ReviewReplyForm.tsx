@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { MessageSquare, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ReviewReplyFormProps {
+  reviewId: string;
+  initialReply: string | null;
+}
+
+/**
+ * Review Reply Form
+ *
+ * Lets a tutor publicly respond to a student's review.
+ * The reply is shown under the review on the tutor's public profile.
+ */
+export function ReviewReplyForm({ reviewId, initialReply }: ReviewReplyFormProps) {
+  const t = useTranslations("dashboard.tutor.reviewReply");
+  const tCommon = useTranslations("common");
+
+  const [reply, setReply] = useState(initialReply);
+  const [draft, setDraft] = useState(initialReply ?? "");
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/reply`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reply: draft }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save reply");
+      }
+
+      setReply(data.review.tutorReply);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save reply");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/reply`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove reply");
+      }
+
+      setReply(null);
+      setDraft("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove reply");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="mt-4 space-y-3">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t("placeholder")}
+          className="w-full min-h-[90px] resize-none"
+          maxLength={1000}
+        />
+        {error && <p className="text-sm text-error">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setEditing(false);
+              setDraft(reply ?? "");
+              setError(null);
+            }}
+            disabled={saving}
+          >
+            {tCommon("cancel")}
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving || !draft.trim()}>
+            {saving ? t("saving") : t("save")}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (reply) {
+    return (
+      <div className="mt-4 pl-4 border-l-2 border-accent/50">
+        <div className="flex items-center justify-between mb-1">
+          <p className="flex items-center gap-2 text-sm font-semibold text-black dark:text-white">
+            <MessageSquare className="w-4 h-4 text-accent" />
+            {t("yourReply")}
+          </p>
+          <div className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setEditing(true)}
+              disabled={saving}
+              aria-label={t("edit")}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleDelete}
+              disabled={saving}
+              aria-label={t("delete")}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-[#666] dark:text-[#aaa] whitespace-pre-line">{reply}</p>
+        {error && <p className="text-sm text-error mt-2">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => setEditing(true)}
+      className="mt-4 rounded-full"
+    >
+      <MessageSquare className="w-4 h-4 mr-2" />
+      {t("reply")}
+    </Button>
+  );
+}
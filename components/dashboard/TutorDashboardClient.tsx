@@ -48,11 +48,18 @@ import {
   TrendingDown,
   Zap,
   Bell,
+  Wallet,
+  UserX,
+  NotebookPen,
 } from "lucide-react";
 import Image from "next/image";
 import type { Booking, BookingStatus, TutorProfile, TutorApprovalStatus, Review } from "@prisma/client";
 import { AvailabilityCalendar } from "./AvailabilityCalendar";
 import { AvailabilityManager } from "./AvailabilityManager";
+import { AvailabilityExceptionsManager } from "./AvailabilityExceptionsManager";
+import { ReviewReplyForm } from "./ReviewReplyForm";
+import { PayoutsCard } from "./PayoutsCard";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from "recharts";
 import { isMobilePhone } from "@/lib/utils/mobile-detection";
 import {
@@ -121,9 +128,14 @@ interface TutorDashboardClientProps {
   totalEarnings: number;
   thisWeekEarnings: number;
   thisMonthEarnings: number;
+  recentEarnings: { amount: number; createdAt: Date }[];
   totalStudents: number;
   reviews: ReviewWithStudent[];
   availability: Availability[];
+  // Unread conversation messages (see /messages)
+  unreadMessages: number;
+  // Unread in-app notifications, shown on the bell
+  unreadNotifications: number;
 }
 
 export function TutorDashboardClient({
@@ -136,15 +148,19 @@ export function TutorDashboardClient({
   totalEarnings,
   thisWeekEarnings,
   thisMonthEarnings,
+  recentEarnings,
   totalStudents,
   reviews,
   availability,
+  unreadMessages,
+  unreadNotifications,
 }: TutorDashboardClientProps) {
   const t = useTranslations("dashboard");
   const tTutor = useTranslations("dashboard.tutor");
   const tBooking = useTranslations("booking");
   const tCommon = useTranslations("common");
   const tVideoCall = useTranslations("videoCall");
+  const tLessons = useTranslations("lessons");
 
   const [showSignOutDialog, setShowSignOutDialog] = useState(false);
   const [activeSection, setActiveSection] = useState("overview");
@@ -257,6 +273,17 @@ export function TutorDashboardClient({
             {tBooking("cancelled")}
           </Badge>
         );
+      case "NO_SHOW_STUDENT":
+      case "NO_SHOW_TUTOR":
+        return (
+          <Badge
+            variant="outline"
+            className="bg-warning/10 backdrop-blur-sm text-warning border-warning/30 rounded-full px-3 py-1"
+          >
+            <UserX className="w-3 h-3 mr-1.5" />
+            {status === "NO_SHOW_STUDENT" ? tBooking("noShowStudent") : tBooking("noShowTutor")}
+          </Badge>
+        );
       default:
         return null;
     }
@@ -320,12 +347,12 @@ export function TutorDashboardClient({
       const nextDay = new Date(date);
       nextDay.setDate(nextDay.getDate() + 1);
       
-      const dayEarnings = completedBookings
-        .filter((b) => {
-          const bookingDate = new Date(b.scheduledAt);
-          return bookingDate >= date && bookingDate < nextDay;
+      const dayEarnings = recentEarnings
+        .filter((entry) => {
+          const entryDate = new Date(entry.createdAt);
+          return entryDate >= date && entryDate < nextDay;
         })
-        .reduce((sum, b) => sum + b.price, 0);
+        .reduce((sum, entry) => sum + entry.amount, 0);
       
       days.push({
         date: date.toLocaleDateString(locale === "es" ? "es-ES" : "en-US", { month: "short", day: "numeric" }),
@@ -409,6 +436,7 @@ export function TutorDashboardClient({
     { id: "sessions", label: tTutor("sections.sessions"), icon: BookOpen },
     { id: "calendar", label: tTutor("sections.calendar"), icon: CalendarDays },
     { id: "availability", label: tTutor("sections.availability"), icon: Clock3 },
+    { id: "payouts", label: tTutor("sections.payouts"), icon: Wallet },
     { id: "reviews", label: tTutor("sections.reviews"), icon: Star },
   ];
 
@@ -469,6 +497,21 @@ export function TutorDashboardClient({
               {t("browseTutors")}
             </Button>
           </Link>
+          <Link href={`/${locale}/messages`}>
+            <Button
+              variant="outline"
+              className="relative flex items-center gap-2 bg-card/80 backdrop-blur-sm border-border rounded-full"
+            >
+              <MessageSquare className="w-4 h-4" />
+              <span className="hidden sm:inline">{t("messages")}</span>
+              {unreadMessages > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-error text-white text-xs font-bold flex items-center justify-center">
+                  {unreadMessages > 99 ? "99+" : unreadMessages}
+                </span>
+              )}
+            </Button>
+          </Link>
+          <NotificationBell locale={locale} initialUnreadCount={unreadNotifications} />
           <Link href={`/${locale}/profile`}>
             <div className="flex items-center gap-2 px-4 py-2 bg-card/80 backdrop-blur-sm border border-border rounded-full hover:border-primary/50 hover:bg-card transition-colors cursor-pointer">
             {user.image ? (
@@ -1224,6 +1267,19 @@ export function TutorDashboardClient({
                                 </p>
                               </div>
                             </div>
+                            {/* Summaries, vocabulary, homework and files for the student */}
+                            {(booking.status === "CONFIRMED" ||
+                              booking.status === "COMPLETED" ||
+                              booking.status === "NO_SHOW_STUDENT") && (
+                              <div className="pt-4 mt-4 border-t border-border">
+                                <Link href={`/${locale}/sessions/${booking.id}`}>
+                                  <Button type="button" size="sm" variant="outline" className="w-full rounded-xl">
+                                    <NotebookPen className="w-4 h-4 mr-2" />
+                                    {tLessons("manage")}
+                                  </Button>
+                                </Link>
+                              </div>
+                            )}
                           </CardContent>
                         </Card>
                       ))}
@@ -1288,6 +1344,36 @@ export function TutorDashboardClient({
                     </CardContent>
                   </div>
                 </Card>
+
+                <Card className="group relative bg-white/90 dark:bg-[#1a1a1a]/90 backdrop-blur-md border-2 border-[#e5e5e5] dark:border-[#262626] rounded-[32px] shadow-[0_4px_12px_rgba(0,0,0,0.05)] hover:shadow-[0_20px_40px_rgba(0,0,0,0.1)] transition-all duration-300 overflow-hidden">
+                  <div className="absolute inset-0 bg-gradient-to-br from-orange-500/5 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+                  <div className="relative z-10">
+                    <CardContent className="p-8">
+                      <AvailabilityExceptionsManager locale={locale} />
+                    </CardContent>
+                  </div>
+                </Card>
+              </div>
+            )}
+
+            {activeSection === "payouts" && (
+              <div className="space-y-8">
+                {/* Section Header */}
+                <div className="mb-8">
+                  <div className="inline-flex items-center gap-2 px-4 py-2 bg-white/90 dark:bg-[#121212]/90 backdrop-blur-md border border-[#e5e5e5] dark:border-[#262626] rounded-full text-xs font-semibold uppercase tracking-wider mb-4 shadow-[0_4px_12px_rgba(0,0,0,0.05)]">
+                    <span className="w-2 h-2 bg-accent rounded-full animate-pulse" />
+                    <span>Payouts</span>
+                    <Sparkles className="w-3 h-3 text-accent opacity-70" />
+                  </div>
+                  <h1 className="text-4xl sm:text-5xl md:text-6xl font-bold tracking-[-0.04em] text-black dark:text-white mb-3">
+                    {tTutor("sections.payouts")}
+                  </h1>
+                  <p className="text-base sm:text-lg text-[#666] dark:text-[#a1a1aa] font-light">
+                    {tTutor("payouts.subtitle")}
+                  </p>
+                </div>
+
+                <PayoutsCard locale={locale} />
               </div>
             )}
 
@@ -1402,6 +1488,10 @@ export function TutorDashboardClient({
                                 ))}
                               </div>
                             )}
+                            <ReviewReplyForm
+                              reviewId={review.id}
+                              initialReply={review.tutorReply}
+                            />
                           </CardContent>
                         </div>
                       </Card>
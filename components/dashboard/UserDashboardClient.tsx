@@ -43,11 +43,30 @@ import {
   TrendingUp,
   X,
   AlertTriangle,
+  Repeat,
+  MessageSquare,
+  UserX,
+  PlayCircle,
+  ListChecks,
+  NotebookPen,
 } from "lucide-react";
 import Image from "next/image";
 import { slugify } from "@/lib/utils/slug";
-import type { Booking, BookingStatus } from "@prisma/client";
+import type {
+  Booking,
+  BookingSeries,
+  BookingStatus,
+  LessonMaterial,
+  Review,
+  SessionRecording,
+} from "@prisma/client";
 import { PaymentButton } from "@/components/payment/PaymentButton";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
+import { ReviewDialog } from "./ReviewDialog";
+import { CreditsCard } from "./CreditsCard";
+import { ProgressCard } from "./ProgressCard";
+import { REVIEW_EDIT_WINDOW_DAYS } from "@/lib/booking/reviews";
+import { formatCurrency, getChargedAmount } from "@/lib/booking/currency";
 import { isMobilePhone } from "@/lib/utils/mobile-detection";
 import {
   Dialog,
@@ -91,6 +110,18 @@ interface BookingWithTutor extends Booking {
     hourlyRate: number;
     rating: number;
   };
+  review?: Pick<Review, "id" | "rating" | "comment" | "tags" | "createdAt"> | null;
+  series?: Pick<BookingSeries, "id" | "occurrences" | "status"> | null;
+  recordings?: Pick<SessionRecording, "id" | "durationSeconds" | "expiresAt">[];
+  _count?: { materials: number };
+}
+
+interface OpenHomework extends LessonMaterial {
+  booking: {
+    id: string;
+    scheduledAt: Date;
+    tutor: { user: { name: string | null } };
+  };
 }
 
 interface UserDashboardClientProps {
@@ -98,6 +129,11 @@ interface UserDashboardClientProps {
   user: User;
   upcomingBookings: BookingWithTutor[];
   pastBookings: BookingWithTutor[];
+  openHomework: OpenHomework[];
+  // Unread conversation messages (see /messages)
+  unreadMessages: number;
+  // Unread in-app notifications, shown on the bell
+  unreadNotifications: number;
 }
 
 export function UserDashboardClient({
@@ -105,22 +141,33 @@ export function UserDashboardClient({
   user,
   upcomingBookings,
   pastBookings,
+  openHomework,
+  unreadMessages,
+  unreadNotifications,
 }: UserDashboardClientProps) {
   const t = useTranslations("dashboard");
   const tBooking = useTranslations("booking");
   const tCommon = useTranslations("common");
   const tVideoCall = useTranslations("videoCall");
   const tPayment = useTranslations("payment");
+  const tLessons = useTranslations("lessons");
+  const router = useRouter();
 
   const [showSignOutDialog, setShowSignOutDialog] = useState(false);
   const [cancellingBookingId, setCancellingBookingId] = useState<string | null>(null);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [showAppealDialog, setShowAppealDialog] = useState(false);
+  // Set when appealing a no-show rather than the account penalty
+  const [appealBookingId, setAppealBookingId] = useState<string | null>(null);
   const [appealReason, setAppealReason] = useState("");
   const [submittingAppeal, setSubmittingAppeal] = useState(false);
   const [cancelling, setCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [userPenalty, setUserPenalty] = useState<{ penaltyUntil: Date | null } | null>(null);
+  const [reviewingBooking, setReviewingBooking] = useState<BookingWithTutor | null>(null);
+  const [playingRecordingId, setPlayingRecordingId] = useState<string | null>(null);
+  const [completingHomeworkId, setCompletingHomeworkId] = useState<string | null>(null);
+  const [homeworkError, setHomeworkError] = useState<string | null>(null);
   
   // Mobile phone detection for warning popup
   const [showMobileWarning, setShowMobileWarning] = useState(false);
@@ -148,14 +195,23 @@ export function UserDashboardClient({
     fetchPenaltyStatus();
   }, []);
 
-  const handleCancelBooking = async () => {
+  const cancellingBooking = cancellingBookingId
+    ? upcomingBookings.find((b) => b.id === cancellingBookingId)
+    : undefined;
+
+  // Cancel a single booking, or all remaining lessons of its weekly series
+  const handleCancelBooking = async (scope: "single" | "series" = "single") => {
     if (!cancellingBookingId) return;
 
     setCancelling(true);
     setError(null);
 
     try {
-      const response = await fetch(`/api/bookings/${cancellingBookingId}`, {
+      const url =
+        scope === "series" && cancellingBooking?.series
+          ? `/api/bookings/series/${cancellingBooking.series.id}`
+          : `/api/bookings/${cancellingBookingId}`;
+      const response = await fetch(url, {
         method: "DELETE",
       });
 
@@ -194,6 +250,7 @@ export function UserDashboardClient({
         },
         body: JSON.stringify({
           reason: appealReason,
+          ...(appealBookingId && { bookingId: appealBookingId }),
         }),
       });
 
@@ -217,6 +274,40 @@ export function UserDashboardClient({
     }
   };
 
+  const handleCompleteHomework = async (homework: OpenHomework) => {
+    setCompletingHomeworkId(homework.id);
+    setHomeworkError(null);
+
+    try {
+      const response = await fetch(
+        `/api/bookings/${homework.booking.id}/materials/${homework.id}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ completed: true }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update homework");
+      }
+
+      router.refresh();
+    } catch (err) {
+      setHomeworkError(
+        err instanceof Error
+          ? err.message
+          : "Failed to update homework. Please try again."
+      );
+    } finally {
+      setCompletingHomeworkId(null);
+    }
+  };
+
   const handleSignOut = async () => {
     try {
       // Close dialog first
@@ -315,11 +406,29 @@ export function UserDashboardClient({
             {tBooking("cancelled")}
           </Badge>
         );
+      case "NO_SHOW_STUDENT":
+      case "NO_SHOW_TUTOR":
+        return (
+          <Badge
+            variant="outline"
+            className="bg-warning/10 backdrop-blur-sm text-warning border-warning/30 rounded-full px-3 py-1"
+          >
+            <UserX className="w-3 h-3 mr-1.5" />
+            {status === "NO_SHOW_STUDENT" ? tBooking("noShowStudent") : tBooking("noShowTutor")}
+          </Badge>
+        );
       default:
         return null;
     }
   };
 
+  // Reviews can be edited for a limited time after submission
+  const canEditReview = (review: NonNullable<BookingWithTutor["review"]>) => {
+    const editDeadline =
+      new Date(review.createdAt).getTime() + REVIEW_EDIT_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    return Date.now() <= editDeadline;
+  };
+
   const totalBookings = upcomingBookings.length + pastBookings.length;
   const completedSessions = pastBookings.filter((b) => b.status === "COMPLETED").length;
 
@@ -371,6 +480,21 @@ export function UserDashboardClient({
               {t("browseTutors")}
             </Button>
           </Link>
+          <Link href={`/${locale}/messages`}>
+            <Button
+              variant="outline"
+              className="relative flex items-center gap-2 bg-card/80 backdrop-blur-sm border-border rounded-full"
+            >
+              <MessageSquare className="w-4 h-4" />
+              <span className="hidden sm:inline">{t("messages")}</span>
+              {unreadMessages > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-error text-white text-xs font-bold flex items-center justify-center">
+                  {unreadMessages > 99 ? "99+" : unreadMessages}
+                </span>
+              )}
+            </Button>
+          </Link>
+          <NotificationBell locale={locale} initialUnreadCount={unreadNotifications} />
           <Link href={`/${locale}/profile`}>
             <div className="flex items-center gap-2 px-4 py-2 bg-card/80 backdrop-blur-sm border border-border rounded-full hover:border-primary/50 hover:bg-card transition-colors cursor-pointer">
             {user.image ? (
@@ -421,7 +545,10 @@ export function UserDashboardClient({
                     . This penalty was applied due to multiple late cancellations.
                   </p>
                   <Button
-                    onClick={() => setShowAppealDialog(true)}
+                    onClick={() => {
+                      setAppealBookingId(null);
+                      setShowAppealDialog(true);
+                    }}
                     variant="outline"
                     className="border-warning text-warning hover:bg-warning/10"
                   >
@@ -592,6 +719,12 @@ export function UserDashboardClient({
           </Card>
         </div>
 
+        {/* Prepaid Credits */}
+        <CreditsCard locale={locale} />
+
+        {/* Level progress and goals */}
+        <ProgressCard locale={locale} />
+
         {/* Upcoming Bookings - Enhanced Design */}
         {upcomingBookings.length > 0 && (
           <div className="space-y-6 mb-12">
@@ -700,7 +833,15 @@ export function UserDashboardClient({
                               Starts in {hoursUntil === 0 ? "less than an hour" : `${hoursUntil} ${hoursUntil === 1 ? "hour" : "hours"}`}
                             </p>
                           )}
-                          {getStatusBadge(booking.status, booking.scheduledAt, booking.duration)}
+                          <div className="flex flex-wrap items-center gap-2">
+                            {getStatusBadge(booking.status, booking.scheduledAt, booking.duration)}
+                            {booking.series && (
+                              <Badge variant="outline" className="rounded-full text-xs gap-1">
+                                <Repeat className="w-3 h-3" />
+                                {t("series.weekly", { count: booking.series.occurrences })}
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                       </div>
 
@@ -739,7 +880,11 @@ export function UserDashboardClient({
                           </div>
                           <div>
                             <p className="text-xs text-muted-foreground font-medium">Price</p>
-                            <p className="text-sm font-bold text-foreground">${booking.price.toFixed(2)}</p>
+                            <p className="text-sm font-bold text-foreground">
+                              {booking.creditMinutes
+                                ? t("credits.minutes", { minutes: booking.creditMinutes })
+                                : formatCurrency(getChargedAmount(booking), booking.currency, locale)}
+                            </p>
                           </div>
                         </div>
                       </div>
@@ -756,7 +901,7 @@ export function UserDashboardClient({
 
                       {/* Action Buttons */}
                       <div className="flex flex-col sm:flex-row gap-3">
-                        {booking.status === "CONFIRMED" && !booking.paymentId && (
+                        {booking.status === "CONFIRMED" && !booking.paymentId && !booking.creditMinutes && (
                           <PaymentButton bookingId={booking.id} />
                         )}
                         {canJoinSession(booking.scheduledAt, booking.status, booking.duration, booking.callEndedAt) && (
@@ -804,6 +949,72 @@ export function UserDashboardClient({
           </div>
         )}
 
+        {/* Open Homework */}
+        {openHomework.length > 0 && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-3">
+                  <div className="p-2.5 bg-warning/20 rounded-xl backdrop-blur-sm">
+                    <ListChecks className="w-6 h-6 text-warning" />
+                  </div>
+                  {tLessons("homework")}
+                </h2>
+                <p className="text-sm text-muted-foreground ml-14">
+                  {tLessons("homeworkDescription")}
+                </p>
+              </div>
+              <Badge className="bg-warning/20 text-warning border-2 border-warning/30 rounded-full px-6 py-2.5 text-base font-bold shadow-lg backdrop-blur-sm">
+                {openHomework.length}
+              </Badge>
+            </div>
+            {homeworkError && <p className="text-sm text-error">{homeworkError}</p>}
+            <Card className="bg-card border-2 border-border rounded-2xl shadow-lg">
+              <CardContent className="p-5 divide-y divide-border">
+                {openHomework.map((homework) => {
+                  const isOverdue = !!homework.dueAt && new Date(homework.dueAt) < new Date();
+                  return (
+                    <div
+                      key={homework.id}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3 first:pt-0 last:pb-0"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-semibold text-foreground truncate">{homework.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {homework.booking.tutor.user.name || t("tutorFallback")} ·{" "}
+                          {formatDate(homework.booking.scheduledAt)}
+                          {homework.dueAt && (
+                            <span className={isOverdue ? "text-error font-semibold" : undefined}>
+                              {" "}· {tLessons("due", { date: formatDate(homework.dueAt) })}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Link href={`/${locale}/sessions/${homework.booking.id}`}>
+                          <Button type="button" size="sm" variant="outline" className="rounded-xl">
+                            {tLessons("open")}
+                          </Button>
+                        </Link>
+                        <Button
+                          type="button"
+                          size="sm"
+                          onClick={() => handleCompleteHomework(homework)}
+                          disabled={completingHomeworkId === homework.id}
+                          className="rounded-xl bg-primary text-primary-foreground"
+                        >
+                          <CheckCircle2 className="w-4 h-4 mr-2" />
+                          {tLessons("markDone")}
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {/* Past Bookings - Enhanced Design */}
         {pastBookings.length > 0 && (
           <div className="space-y-6">
@@ -863,7 +1074,7 @@ export function UserDashboardClient({
                       <div>
                         <p className="text-xs text-muted-foreground font-medium mb-1">Price</p>
                         <p className="text-lg font-bold text-info">
-                          ${booking.price.toFixed(2)}
+                          {formatCurrency(getChargedAmount(booking), booking.currency, locale)}
                         </p>
                       </div>
                       <div className="text-right">
@@ -873,6 +1084,122 @@ export function UserDashboardClient({
                         </p>
                       </div>
                     </div>
+                    {booking.status === "NO_SHOW_TUTOR" && (
+                      <p className="pt-4 mt-4 border-t border-border text-sm text-muted-foreground">
+                        {t("noShowTutorRefunded")}
+                      </p>
+                    )}
+                    {booking.status === "NO_SHOW_STUDENT" && (
+                      <div className="flex items-center justify-between gap-3 pt-4 mt-4 border-t border-border">
+                        {booking.noShowExcused ? (
+                          <p className="text-sm text-muted-foreground">{t("noShowExcused")}</p>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setAppealBookingId(booking.id);
+                              setShowAppealDialog(true);
+                            }}
+                            className="w-full rounded-xl border-warning text-warning hover:bg-warning/10"
+                          >
+                            <AlertTriangle className="w-4 h-4 mr-2" />
+                            {t("noShowAppeal")}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {booking.status === "COMPLETED" && (
+                      <div className="flex items-center justify-between gap-3 pt-4 mt-4 border-t border-border">
+                        {booking.review ? (
+                          <>
+                            <div className="flex items-center gap-1">
+                              {[...Array(5)].map((_, i) => (
+                                <Star
+                                  key={i}
+                                  className={`w-4 h-4 ${
+                                    i < booking.review!.rating
+                                      ? "fill-[#ffb800] text-[#ffb800]"
+                                      : "text-gray-300 dark:text-gray-600"
+                                  }`}
+                                />
+                              ))}
+                            </div>
+                            {canEditReview(booking.review) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setReviewingBooking(booking)}
+                                className="rounded-xl"
+                              >
+                                {t("review.edit")}
+                              </Button>
+                            )}
+                          </>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => setReviewingBooking(booking)}
+                            className="w-full rounded-xl bg-primary text-primary-foreground"
+                          >
+                            <Star className="w-4 h-4 mr-2" />
+                            {t("review.leaveReview")}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {booking.recordings && booking.recordings.length > 0 && (
+                      <div className="pt-4 mt-4 border-t border-border space-y-2">
+                        <p className="text-xs text-muted-foreground font-medium">{t("recordings")}</p>
+                        {booking.recordings.map((recording) => (
+                          <div key={recording.id} className="space-y-2">
+                            <div className="flex items-center justify-between gap-3">
+                              <p className="text-xs text-muted-foreground">
+                                {t("recordingAvailableUntil", {
+                                  duration: `${Math.max(1, Math.round(recording.durationSeconds / 60))} ${tBooking("min")}`,
+                                  date: formatDate(recording.expiresAt),
+                                })}
+                              </p>
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  setPlayingRecordingId(
+                                    playingRecordingId === recording.id ? null : recording.id
+                                  )
+                                }
+                                className="rounded-xl"
+                              >
+                                <PlayCircle className="w-4 h-4 mr-2" />
+                                {playingRecordingId === recording.id
+                                  ? t("recordingHide")
+                                  : t("recordingWatch")}
+                              </Button>
+                            </div>
+                            {playingRecordingId === recording.id && (
+                              <video
+                                src={`/api/recordings/${recording.id}`}
+                                controls
+                                autoPlay
+                                playsInline
+                                className="w-full rounded-xl bg-black"
+                              />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {!!booking._count?.materials && (
+                      <div className="pt-4 mt-4 border-t border-border">
+                        <Link href={`/${locale}/sessions/${booking.id}`}>
+                          <Button type="button" size="sm" variant="outline" className="w-full rounded-xl">
+                            <NotebookPen className="w-4 h-4 mr-2" />
+                            {tLessons("viewNotes", { count: booking._count.materials })}
+                          </Button>
+                        </Link>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -908,6 +1235,21 @@ export function UserDashboardClient({
         )}
       </div>
 
+      {/* Review Dialog */}
+      {reviewingBooking && (
+        <ReviewDialog
+          key={reviewingBooking.id}
+          open={!!reviewingBooking}
+          onOpenChange={(open) => {
+            if (!open) setReviewingBooking(null);
+          }}
+          bookingId={reviewingBooking.id}
+          tutorName={reviewingBooking.tutor.user.name || t("tutorFallback")}
+          existingReview={reviewingBooking.review}
+          onSaved={() => router.refresh()}
+        />
+      )}
+
       {/* Sign Out Confirmation Dialog */}
       <AlertDialog open={showSignOutDialog} onOpenChange={setShowSignOutDialog}>
         <AlertDialogContent className="bg-card/95 backdrop-blur-md border-2 border-border rounded-3xl shadow-2xl">
@@ -954,7 +1296,7 @@ export function UserDashboardClient({
             <AlertDialogDescription className="text-base text-muted-foreground pt-2">
               Are you sure you want to cancel this booking?
               {cancellingBookingId && (() => {
-                const booking = upcomingBookings.find(b => b.id === cancellingBookingId);
+                const booking = cancellingBooking;
                 if (booking) {
                   const hoursUntil = Math.floor((new Date(booking.scheduledAt).getTime() - new Date().getTime()) / (1000 * 60 * 60));
                   if (hoursUntil < 12) {
@@ -964,6 +1306,11 @@ export function UserDashboardClient({
                 return "";
               })()}
             </AlertDialogDescription>
+            {cancellingBooking?.series && (
+              <p className="text-sm text-muted-foreground pt-2">
+                {t("series.cancelHint")}
+              </p>
+            )}
             {error && (
               <div className="mt-4 p-3 bg-error/10 border border-error/20 rounded-lg">
                 <p className="text-sm text-error">{error}</p>
@@ -974,8 +1321,17 @@ export function UserDashboardClient({
             <AlertDialogCancel disabled={cancelling}>
               {tCommon("cancel")}
             </AlertDialogCancel>
+            {cancellingBooking?.series && (
+              <AlertDialogAction
+                onClick={() => handleCancelBooking("series")}
+                disabled={cancelling}
+                className="bg-card border-2 border-error/50 text-error hover:bg-error/10"
+              >
+                {t("series.cancelRemaining")}
+              </AlertDialogAction>
+            )}
             <AlertDialogAction
-              onClick={handleCancelBooking}
+              onClick={() => handleCancelBooking()}
               disabled={cancelling}
               className="bg-error hover:bg-error/90 text-white"
             >
@@ -998,7 +1354,9 @@ export function UserDashboardClient({
               </AlertDialogTitle>
             </div>
             <AlertDialogDescription className="text-base text-muted-foreground pt-2">
-              Please explain why you believe this penalty should be removed. An admin will review your appeal.
+              {appealBookingId
+                ? t("noShowAppealDescription")
+                : "Please explain why you believe this penalty should be removed. An admin will review your appeal."}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <div className="space-y-4 py-4">
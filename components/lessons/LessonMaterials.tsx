@@ -0,0 +1,505 @@
+"use client";
+
+/**
+ * Lesson Materials Component
+ *
+ * What the tutor shares with the student for one booking: post-lesson
+ * summaries, vocabulary lists, homework with due dates and files (PDF, audio).
+ * - Tutors add and remove materials
+ * - Students mark homework done
+ * - Admins can view everything read-only
+ *
+ * Used on the session page and in the call (see InCallLessonMaterials).
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BookOpen,
+  CalendarClock,
+  FileText,
+  Languages,
+  ListChecks,
+  Loader2,
+  NotebookPen,
+  Paperclip,
+  Trash2,
+  X,
+} from "lucide-react";
+import type { LessonMaterial, LessonMaterialType } from "@prisma/client";
+import type { BookingRole } from "@/lib/booking/validation";
+
+// Dates arrive as strings from the API
+type Material = Omit<LessonMaterial, "dueAt" | "completedAt" | "createdAt" | "updatedAt"> & {
+  dueAt: string | Date | null;
+  completedAt: string | Date | null;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+interface LessonFile {
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+interface LessonMaterialsProps {
+  bookingId: string;
+  role: BookingRole;
+  locale: string;
+}
+
+const MATERIAL_TYPES: LessonMaterialType[] = ["SUMMARY", "VOCABULARY", "HOMEWORK", "FILE"];
+
+const MATERIAL_ICONS: Record<LessonMaterialType, typeof FileText> = {
+  SUMMARY: NotebookPen,
+  VOCABULARY: Languages,
+  HOMEWORK: ListChecks,
+  FILE: Paperclip,
+};
+
+export function LessonMaterials({ bookingId, role, locale }: LessonMaterialsProps) {
+  const t = useTranslations("lessons");
+
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  // Add form (tutor only)
+  const [type, setType] = useState<LessonMaterialType>("SUMMARY");
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [file, setFile] = useState<LessonFile | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const dateLocale = locale === "es" ? "es-ES" : "en-US";
+  const formatDate = (date: string | Date) =>
+    new Intl.DateTimeFormat(dateLocale, { month: "short", day: "numeric", year: "numeric" }).format(
+      new Date(date)
+    );
+
+  const fetchMaterials = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/materials`, { signal });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to fetch materials");
+        setMaterials(data.materials || []);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to fetch materials");
+      } finally {
+        if (!signal?.aborted) {
+          setLoading(false);
+        }
+      }
+    },
+    [bookingId]
+  );
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    fetchMaterials(abortController.signal);
+    return () => abortController.abort();
+  }, [fetchMaterials]);
+
+  const resetForm = () => {
+    setTitle("");
+    setBody("");
+    setDueDate("");
+    setFile(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selected);
+
+      const response = await fetch("/api/upload/lesson-material", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to upload file");
+
+      setFile(data.file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload file");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const payload =
+      type === "FILE"
+        ? { type, title: title || undefined, file }
+        : type === "HOMEWORK"
+        ? {
+            type,
+            title,
+            body: body || undefined,
+            // Due by the end of the chosen day, in the tutor's timezone
+            dueAt: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null,
+          }
+        : { type, title: title || undefined, body };
+
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/materials`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to add material");
+
+      setMaterials((current) => [...current, data.material]);
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add material");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (materialId: string) => {
+    setUpdatingId(materialId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/materials/${materialId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to remove material");
+
+      setMaterials((current) => current.filter((material) => material.id !== materialId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove material");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleToggleDone = async (material: Material) => {
+    setUpdatingId(material.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/materials/${material.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ completed: !material.completedAt }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update homework");
+
+      setMaterials((current) =>
+        current.map((item) => (item.id === material.id ? data.material : item))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update homework");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const canSubmit =
+    !saving &&
+    !uploading &&
+    (type === "FILE" ? !!file : type === "HOMEWORK" ? !!title.trim() : !!body.trim());
+
+  const renderMaterial = (material: Material) => {
+    const Icon = MATERIAL_ICONS[material.type];
+    const isOverdue =
+      material.type === "HOMEWORK" &&
+      !material.completedAt &&
+      !!material.dueAt &&
+      new Date(material.dueAt) < new Date();
+
+    return (
+      <div key={material.id} className="rounded-xl border border-border bg-card/60 p-4 space-y-2">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+            <p className="font-semibold text-foreground truncate">
+              {material.title || t(`types.${material.type}`)}
+            </p>
+          </div>
+          {role === "tutor" && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => handleRemove(material.id)}
+              disabled={updatingId === material.id}
+              aria-label={t("remove")}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        {material.type === "VOCABULARY" && material.body ? (
+          <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-0.5">
+            {material.body
+              .split("\n")
+              .filter((line) => line.trim())
+              .map((line, index) => (
+                <li key={index}>{line}</li>
+              ))}
+          </ul>
+        ) : material.body ? (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{material.body}</p>
+        ) : null}
+
+        {material.type === "FILE" && material.fileUrl && (
+          <a
+            href={material.fileUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline"
+          >
+            <FileText className="w-4 h-4" />
+            {material.fileName}
+          </a>
+        )}
+        {material.type === "FILE" && material.fileType?.startsWith("audio/") && material.fileUrl && (
+          <audio src={material.fileUrl} controls className="w-full" />
+        )}
+
+        {material.type === "HOMEWORK" && (
+          <div className="flex flex-wrap items-center justify-between gap-3 pt-1">
+            {material.dueAt ? (
+              <p
+                className={`text-xs flex items-center gap-1.5 ${
+                  isOverdue ? "text-error font-semibold" : "text-muted-foreground"
+                }`}
+              >
+                <CalendarClock className="w-3.5 h-3.5" />
+                {t("due", { date: formatDate(material.dueAt) })}
+              </p>
+            ) : (
+              <span />
+            )}
+            {role === "student" ? (
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={!!material.completedAt}
+                  onCheckedChange={() => handleToggleDone(material)}
+                  disabled={updatingId === material.id}
+                />
+                {t("markDone")}
+              </label>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {material.completedAt
+                  ? t("doneOn", { date: formatDate(material.completedAt) })
+                  : t("notDone")}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      {materials.length === 0 ? (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          <BookOpen className="w-8 h-8 mx-auto mb-2 opacity-60" />
+          {role === "tutor" ? t("emptyTutor") : t("empty")}
+        </div>
+      ) : (
+        <div className="space-y-3">{materials.map(renderMaterial)}</div>
+      )}
+
+      {role === "tutor" && (
+        <form onSubmit={handleAdd} className="rounded-xl border border-dashed border-border p-4 space-y-3">
+          <p className="font-semibold text-foreground">{t("add")}</p>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="materialType">{t("type")}</Label>
+            <Select value={type} onValueChange={(value) => setType(value as LessonMaterialType)}>
+              <SelectTrigger id="materialType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MATERIAL_TYPES.map((materialType) => (
+                  <SelectItem key={materialType} value={materialType}>
+                    {t(`types.${materialType}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="materialTitle">
+              {type === "HOMEWORK" ? t("titleLabel") : t("titleOptional")}
+            </Label>
+            <Input
+              id="materialTitle"
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              maxLength={200}
+            />
+          </div>
+
+          {type === "FILE" ? (
+            <div className="space-y-1.5">
+              <Label htmlFor="materialFile">{t("file")}</Label>
+              <input
+                id="materialFile"
+                ref={fileInputRef}
+                type="file"
+                accept="application/pdf,audio/*"
+                onChange={handleFileChange}
+                className="block w-full text-sm text-muted-foreground"
+              />
+              {uploading && <p className="text-xs text-muted-foreground">{t("uploading")}</p>}
+              {file && (
+                <p className="text-xs text-muted-foreground flex items-center gap-2">
+                  <Paperclip className="w-3.5 h-3.5" />
+                  {file.name}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setFile(null);
+                      if (fileInputRef.current) fileInputRef.current.value = "";
+                    }}
+                    aria-label={t("remove")}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <Label htmlFor="materialBody">
+                {type === "VOCABULARY"
+                  ? t("vocabularyLabel")
+                  : type === "HOMEWORK"
+                  ? t("instructionsLabel")
+                  : t("summaryLabel")}
+              </Label>
+              <Textarea
+                id="materialBody"
+                value={body}
+                onChange={(event) => setBody(event.target.value)}
+                rows={type === "SUMMARY" ? 5 : 4}
+                placeholder={type === "VOCABULARY" ? t("vocabularyPlaceholder") : undefined}
+              />
+            </div>
+          )}
+
+          {type === "HOMEWORK" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="materialDueDate">{t("dueDate")}</Label>
+              <Input
+                id="materialDueDate"
+                type="date"
+                value={dueDate}
+                onChange={(event) => setDueDate(event.target.value)}
+              />
+            </div>
+          )}
+
+          <Button type="submit" disabled={!canSubmit} className="w-full rounded-xl">
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("addButton")}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Lesson materials as a floating panel during the call
+ */
+export function InCallLessonMaterials(props: LessonMaterialsProps) {
+  const t = useTranslations("lessons");
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!isOpen) {
+    return (
+      <Button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-24 left-6 z-50 h-14 w-14 rounded-full bg-accent hover:bg-brand-primary-light text-accent-foreground shadow-xl hover:shadow-2xl transition-all"
+        aria-label={t("title")}
+      >
+        <NotebookPen className="w-6 h-6" />
+      </Button>
+    );
+  }
+
+  return (
+    <Card className="fixed bottom-24 left-6 z-50 w-96 max-w-[calc(100vw-3rem)] max-h-[70vh] bg-white/95 dark:bg-[#1a1a1a]/95 backdrop-blur-md border border-[#e5e5e5] dark:border-[#262626] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-[#e5e5e5] dark:border-[#262626]">
+        <h3 className="font-semibold text-black dark:text-white flex items-center gap-2">
+          <NotebookPen className="w-4 h-4" />
+          {t("title")}
+        </h3>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsOpen(false)}
+          aria-label={t("close")}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        <LessonMaterials {...props} />
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+/**
+ * Session Assessment Component
+ *
+ * The tutor's CEFR assessment of the student after a completed session:
+ * overall level plus speaking, listening, grammar and vocabulary.
+ * - Tutors record or update it
+ * - Students and admins see it read-only
+ *
+ * Used on the session page.
+ */
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, GraduationCap, Loader2 } from "lucide-react";
+import type { CefrLevel, SkillAssessment } from "@prisma/client";
+import { ASSESSED_SKILLS, CEFR_LEVELS, type AssessedSkill } from "@/lib/progress/levels";
+
+type LevelField = "level" | AssessedSkill;
+
+const LEVEL_FIELDS: LevelField[] = ["level", ...ASSESSED_SKILLS];
+
+interface SessionAssessmentProps {
+  bookingId: string;
+}
+
+export function SessionAssessment({ bookingId }: SessionAssessmentProps) {
+  const t = useTranslations("progress");
+
+  const [assessment, setAssessment] = useState<SkillAssessment | null>(null);
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [canAssess, setCanAssess] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form (tutor only)
+  const [language, setLanguage] = useState("");
+  const [levels, setLevels] = useState<Partial<Record<LevelField, CefrLevel>>>({});
+  const [comment, setComment] = useState("");
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchAssessment = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/assessment`, {
+          signal: abortController.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to fetch assessment");
+
+        setAssessment(data.assessment);
+        setLanguages(data.languages || []);
+        setCanAssess(data.canAssess);
+
+        if (data.assessment) {
+          const { language, level, speaking, listening, grammar, vocabulary, comment } =
+            data.assessment as SkillAssessment;
+          setLanguage(language);
+          setLevels({ level, speaking, listening, grammar, vocabulary });
+          setComment(comment || "");
+        } else if (data.languages?.length === 1) {
+          setLanguage(data.languages[0]);
+        }
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to fetch assessment");
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchAssessment();
+    return () => abortController.abort();
+  }, [bookingId]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/assessment`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language, ...levels, comment: comment || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save assessment");
+
+      setAssessment(data.assessment);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save assessment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!canAssess) {
+    if (!assessment) {
+      return (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          <GraduationCap className="w-8 h-8 mx-auto mb-2 opacity-60" />
+          {error || t("notAssessed")}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <Badge className="bg-accent/20 text-accent border-accent/30 rounded-full text-base px-3">
+            {assessment.level}
+          </Badge>
+          <p className="font-semibold text-foreground">{assessment.language}</p>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {ASSESSED_SKILLS.map((skill) => (
+            <div key={skill} className="rounded-xl border border-border bg-card/60 p-3">
+              <p className="text-xs text-muted-foreground">{t(`skills.${skill}`)}</p>
+              <p className="text-lg font-bold text-foreground">{assessment[skill]}</p>
+            </div>
+          ))}
+        </div>
+        {assessment.comment && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{assessment.comment}</p>
+        )}
+      </div>
+    );
+  }
+
+  const canSubmit = !saving && !!language && LEVEL_FIELDS.every((field) => levels[field]);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t("assessDescription")}</p>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="assessmentLanguage">{t("language")}</Label>
+        <Select value={language} onValueChange={setLanguage}>
+          <SelectTrigger id="assessmentLanguage">
+            <SelectValue placeholder={t("selectLanguage")} />
+          </SelectTrigger>
+          <SelectContent>
+            {languages.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {LEVEL_FIELDS.map((field) => (
+          <div key={field} className="space-y-1.5">
+            <Label htmlFor={`assessment-${field}`}>
+              {field === "level" ? t("overallLevel") : t(`skills.${field}`)}
+            </Label>
+            <Select
+              value={levels[field] || ""}
+              onValueChange={(value) => {
+                setLevels((current) => ({ ...current, [field]: value as CefrLevel }));
+                setSaved(false);
+              }}
+            >
+              <SelectTrigger id={`assessment-${field}`}>
+                <SelectValue placeholder={t("selectLevel")} />
+              </SelectTrigger>
+              <SelectContent>
+                {CEFR_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {level} · {t(`levels.${level}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="assessmentComment">{t("comment")}</Label>
+        <Textarea
+          id="assessmentComment"
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          placeholder={t("commentPlaceholder")}
+          maxLength={2000}
+          rows={3}
+        />
+      </div>
+
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={!canSubmit} className="rounded-xl">
+          {saving ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : assessment ? (
+            t("updateAssessment")
+          ) : (
+            t("saveAssessment")
+          )}
+        </Button>
+        {saved && (
+          <p className="text-sm text-success flex items-center gap-1.5">
+            <Check className="w-4 h-4" />
+            {t("assessmentSaved")}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
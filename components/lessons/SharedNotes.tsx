@@ -0,0 +1,317 @@
+"use client";
+
+/**
+ * Shared Notes Component
+ *
+ * Markdown notes the student and tutor write together during the call.
+ * - Polls for the other participant's edits and merges them into local ones
+ * - Saves shortly after typing stops
+ * - Read-only once the call has ended; exportable as Markdown or PDF
+ *
+ * Used in the call (see InCallSharedNotes) and on the session page.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Download, FileText, Loader2, PenLine, X } from "lucide-react";
+import { mergeTextEdits } from "@/lib/utils/text-merge";
+
+// How often to pick up the other participant's edits during the call
+const SHARED_NOTES_POLL_INTERVAL = 2000;
+// Save after typing pauses for this long
+const SHARED_NOTES_SAVE_DELAY = 700;
+
+interface Notes {
+  content: string;
+  version: number;
+}
+
+interface SharedNotesProps {
+  bookingId: string;
+  // Larger editor when the notes have the page to themselves
+  variant?: "panel" | "page";
+}
+
+export function SharedNotes({ bookingId, variant = "panel" }: SharedNotesProps) {
+  const t = useTranslations("lessons.sharedNotes");
+
+  const [content, setContent] = useState("");
+  const [savedContent, setSavedContent] = useState("");
+  const [editable, setEditable] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sync state lives in refs so polling and saving always see the latest values
+  const contentRef = useRef("");
+  const baseRef = useRef(""); // Last content known to be on the server
+  const versionRef = useRef(0);
+  const savingRef = useRef(false);
+  const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const updateContent = useCallback((next: string) => {
+    contentRef.current = next;
+    setContent(next);
+  }, []);
+
+  const save = useCallback(async () => {
+    if (savingRef.current || contentRef.current === baseRef.current) return;
+
+    savingRef.current = true;
+    setSaving(true);
+    const sending = contentRef.current;
+
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/shared-notes`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: sending, baseVersion: versionRef.current }),
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        // Someone else saved first; merge and try again
+        applyRemoteRef.current(data.notes);
+      } else if (!response.ok) {
+        throw new Error(data.error || "Failed to save notes");
+      } else {
+        baseRef.current = sending;
+        versionRef.current = data.notes.version;
+        setSavedContent(sending);
+        setError(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save notes");
+    } finally {
+      savingRef.current = false;
+      setSaving(false);
+      // Typed while saving, or merged after a conflict
+      if (contentRef.current !== baseRef.current) {
+        scheduleSaveRef.current();
+      }
+    }
+  }, [bookingId]);
+
+  const scheduleSave = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = setTimeout(save, SHARED_NOTES_SAVE_DELAY);
+  }, [save]);
+
+  // Merge notes saved by the other participant into what's being typed
+  const applyRemote = useCallback(
+    (notes: Notes) => {
+      if (notes.version <= versionRef.current) return;
+
+      const previous = contentRef.current;
+      const merged = mergeTextEdits(baseRef.current, previous, notes.content);
+      baseRef.current = notes.content;
+      versionRef.current = notes.version;
+      setSavedContent(notes.content);
+
+      if (merged === previous) return;
+
+      // Keep the cursor where it was relative to the surrounding text
+      const textarea = textareaRef.current;
+      if (textarea && document.activeElement === textarea) {
+        const { selectionStart, selectionEnd } = textarea;
+        const shift =
+          merged.slice(0, selectionStart) === previous.slice(0, selectionStart)
+            ? 0
+            : merged.length - previous.length;
+        requestAnimationFrame(() =>
+          textarea.setSelectionRange(selectionStart + shift, selectionEnd + shift)
+        );
+      }
+
+      updateContent(merged);
+      if (merged !== notes.content) {
+        scheduleSave();
+      }
+    },
+    [scheduleSave, updateContent]
+  );
+
+  // save and applyRemote call each other
+  const applyRemoteRef = useRef(applyRemote);
+  const scheduleSaveRef = useRef(scheduleSave);
+  useEffect(() => {
+    applyRemoteRef.current = applyRemote;
+    scheduleSaveRef.current = scheduleSave;
+  }, [applyRemote, scheduleSave]);
+
+  // Load the notes, then keep polling while they can be edited
+  useEffect(() => {
+    const abortController = new AbortController();
+    let interval: NodeJS.Timeout | null = null;
+
+    const fetchNotes = async () => {
+      if (savingRef.current) return;
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/shared-notes`, {
+          signal: abortController.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to fetch notes");
+
+        setEditable(data.editable);
+        applyRemoteRef.current(data.notes);
+        if (!data.editable && interval) {
+          clearInterval(interval);
+          interval = null;
+        }
+        return data.editable as boolean;
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to fetch notes");
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchNotes().then((isEditable) => {
+      if (isEditable && !abortController.signal.aborted) {
+        interval = setInterval(fetchNotes, SHARED_NOTES_POLL_INTERVAL);
+      }
+    });
+
+    return () => {
+      abortController.abort();
+      if (interval) clearInterval(interval);
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+  }, [bookingId]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    updateContent(event.target.value);
+    scheduleSave();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const exportUrl = `/api/bookings/${bookingId}/shared-notes/export`;
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      {editable ? (
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={handleChange}
+          placeholder={t("placeholder")}
+          className={`flex-1 font-mono text-sm resize-none ${
+            variant === "page" ? "min-h-[24rem]" : "min-h-[16rem]"
+          }`}
+        />
+      ) : content.trim() ? (
+        <pre className="whitespace-pre-wrap break-words font-mono text-sm text-foreground rounded-xl border border-border bg-muted/40 p-4">
+          {content}
+        </pre>
+      ) : (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          <FileText className="w-8 h-8 mx-auto mb-2 opacity-60" />
+          {t("empty")}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+          {!editable ? (
+            t("readOnly")
+          ) : saving || content !== savedContent ? (
+            <>
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              {t("saving")}
+            </>
+          ) : (
+            <>
+              <Check className="w-3.5 h-3.5" />
+              {t("saved")}
+            </>
+          )}
+        </p>
+        {content.trim() && (
+          <div className="flex items-center gap-2">
+            <a href={`${exportUrl}?format=md`} download>
+              <Button type="button" size="sm" variant="outline" className="rounded-xl">
+                <Download className="w-4 h-4 mr-2" />
+                {t("exportMarkdown")}
+              </Button>
+            </a>
+            <a href={`${exportUrl}?format=pdf`} download>
+              <Button type="button" size="sm" variant="outline" className="rounded-xl">
+                <Download className="w-4 h-4 mr-2" />
+                {t("exportPdf")}
+              </Button>
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Shared notes as a side panel during the call
+ */
+export function InCallSharedNotes({ bookingId }: { bookingId: string }) {
+  const t = useTranslations("lessons.sharedNotes");
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      {!isOpen && (
+        <Button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="fixed bottom-44 left-6 z-50 h-14 w-14 rounded-full bg-accent hover:bg-brand-primary-light text-accent-foreground shadow-xl hover:shadow-2xl transition-all"
+          aria-label={t("title")}
+        >
+          <PenLine className="w-6 h-6" />
+        </Button>
+      )}
+      {/* Kept mounted while closed so edits keep syncing */}
+      <Card
+        className={`fixed inset-y-0 left-0 z-50 w-full sm:w-[28rem] bg-white/95 dark:bg-[#1a1a1a]/95 backdrop-blur-md border-r border-[#e5e5e5] dark:border-[#262626] rounded-none shadow-2xl flex-col ${
+          isOpen ? "flex" : "hidden"
+        }`}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-[#e5e5e5] dark:border-[#262626]">
+          <h3 className="font-semibold text-black dark:text-white flex items-center gap-2">
+            <PenLine className="w-4 h-4" />
+            {t("title")}
+          </h3>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsOpen(false)}
+            aria-label={t("close")}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex-1 min-h-0 p-4">
+          <SharedNotes bookingId={bookingId} />
+        </div>
+      </Card>
+    </>
+  );
+}
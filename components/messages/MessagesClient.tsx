@@ -0,0 +1,610 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ArrowLeft,
+  Loader2,
+  MessageSquare,
+  Paperclip,
+  Search,
+  Send,
+  Shield,
+  User,
+  X,
+} from "lucide-react";
+import { MESSAGE_MAX_LENGTH } from "@/lib/messaging/conversations";
+
+/**
+ * Messages Client Component
+ *
+ * Two-pane inbox: conversation list and the open conversation.
+ * There is no realtime channel, so the open conversation and the list
+ * are polled while the page is visible.
+ */
+interface Participant {
+  id: string;
+  name: string | null;
+  image: string | null;
+  email?: string; // Admin views only
+}
+
+interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  body: string;
+  attachmentUrl: string | null;
+  attachmentName: string | null;
+  attachmentType: string | null;
+  attachmentSize: number | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface Conversation {
+  id: string;
+  studentId: string;
+  lastMessageAt: string;
+  student: Participant;
+  tutor: { id: string; userId: string; user: Participant };
+  lastMessage?: Message | null;
+  unreadCount?: number;
+}
+
+interface Attachment {
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+interface MessagesClientProps {
+  locale: string;
+  user: { id: string; role: string };
+  initialConversationId: string | null;
+}
+
+const CONVERSATIONS_POLL_INTERVAL = 30 * 1000;
+const MESSAGES_POLL_INTERVAL = 10 * 1000;
+
+/**
+ * Merge fetched messages into the loaded ones (by id, oldest first)
+ */
+function mergeMessages(current: Message[], incoming: Message[]): Message[] {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  for (const message of incoming) {
+    byId.set(message.id, message);
+  }
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+}
+
+export function MessagesClient({ locale, user, initialConversationId }: MessagesClientProps) {
+  const t = useTranslations("inbox");
+  const tCommon = useTranslations("common");
+  const router = useRouter();
+  const isAdmin = user.role === "ADMIN";
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loadingConversations, setLoadingConversations] = useState(true);
+  const [search, setSearch] = useState("");
+  const [activeSearch, setActiveSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(initialConversationId);
+  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const dateLocale = locale === "es" ? "es-ES" : "en-US";
+
+  const fetchConversations = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const query = isAdmin && activeSearch ? `?search=${encodeURIComponent(activeSearch)}` : "";
+        const response = await fetch(`/api/conversations${query}`, { signal });
+        if (!response.ok) throw new Error("Failed to fetch conversations");
+        const data = await response.json();
+        setConversations(data.conversations || []);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        console.error("Error fetching conversations:", err);
+      } finally {
+        if (!signal?.aborted) {
+          setLoadingConversations(false);
+        }
+      }
+    },
+    [isAdmin, activeSearch]
+  );
+
+  // Conversation list
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    fetchConversations(abortController.signal);
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") {
+        fetchConversations(abortController.signal);
+      }
+    }, CONVERSATIONS_POLL_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      abortController.abort();
+    };
+  }, [fetchConversations]);
+
+  // Open conversation - latest page, then poll for new messages
+  useEffect(() => {
+    if (!selectedId) {
+      return;
+    }
+
+    const abortController = new AbortController();
+
+    const fetchLatest = async (initial: boolean) => {
+      if (initial) {
+        setLoadingMessages(true);
+        setMessages([]);
+        setError(null);
+      }
+
+      try {
+        const response = await fetch(`/api/conversations/${selectedId}/messages`, {
+          signal: abortController.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to fetch messages");
+
+        setSelectedConversation(data.conversation);
+        setMessages((current) => (initial ? data.messages : mergeMessages(current, data.messages)));
+        if (initial) {
+          setHasMore(data.hasMore);
+        }
+        // Opening a conversation marks it read
+        setConversations((current) =>
+          current.map((conversation) =>
+            conversation.id === selectedId ? { ...conversation, unreadCount: 0 } : conversation
+          )
+        );
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        setError(err instanceof Error ? err.message : "Failed to fetch messages");
+      } finally {
+        if (initial && !abortController.signal.aborted) {
+          setLoadingMessages(false);
+        }
+      }
+    };
+
+    fetchLatest(true);
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") {
+        fetchLatest(false);
+      }
+    }, MESSAGES_POLL_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      abortController.abort();
+    };
+  }, [selectedId]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (!loadingOlder) {
+      messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [messages.length, loadingOlder]);
+
+  const selectConversation = (conversationId: string) => {
+    setSelectedId(conversationId);
+    setDraft("");
+    setAttachment(null);
+    router.replace(`/${locale}/messages?conversation=${conversationId}`);
+  };
+
+  const loadOlderMessages = async () => {
+    if (!selectedId || messages.length === 0) return;
+    setLoadingOlder(true);
+
+    try {
+      const response = await fetch(
+        `/api/conversations/${selectedId}/messages?before=${messages[0].id}`
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to fetch messages");
+
+      setMessages((current) => mergeMessages(current, data.messages));
+      setHasMore(data.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch messages");
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/upload/attachment", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to upload file");
+
+      setAttachment(data.attachment);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload file");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSend = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selectedId || (!draft.trim() && !attachment)) return;
+
+    setSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/conversations/${selectedId}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          body: draft,
+          ...(attachment && { attachment }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to send message");
+
+      setMessages((current) => mergeMessages(current, [data.message]));
+      setConversations((current) =>
+        current
+          .map((conversation) =>
+            conversation.id === selectedId
+              ? { ...conversation, lastMessage: data.message, lastMessageAt: data.message.createdAt }
+              : conversation
+          )
+          .sort((a, b) => new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime())
+      );
+      setDraft("");
+      setAttachment(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const getTitle = (conversation: Conversation) => {
+    if (isAdmin) {
+      return `${conversation.student.name || conversation.student.email} ↔ ${
+        conversation.tutor.user.name || conversation.tutor.user.email
+      }`;
+    }
+    return conversation.studentId === user.id
+      ? conversation.tutor.user.name || t("tutor")
+      : conversation.student.name || t("student");
+  };
+
+  const getAvatar = (conversation: Conversation) =>
+    conversation.studentId === user.id ? conversation.tutor.user.image : conversation.student.image;
+
+  const getSenderName = (conversation: Conversation, senderId: string) => {
+    if (senderId === user.id) return t("you");
+    return senderId === conversation.studentId
+      ? conversation.student.name || t("student")
+      : conversation.tutor.user.name || t("tutor");
+  };
+
+  const formatTime = (isoString: string) =>
+    new Date(isoString).toLocaleString(dateLocale, {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const formatSize = (bytes: number | null) =>
+    bytes === null ? "" : bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="fixed top-0 z-50 w-full h-16 sm:h-20 flex justify-between items-center px-4 sm:px-6 md:px-12 bg-background/85 backdrop-blur-xl border-b border-border/50">
+        <Link
+          href={`/${locale}`}
+          className="font-bold text-lg sm:text-xl md:text-2xl tracking-tight text-foreground hover:opacity-80 transition-opacity"
+        >
+          Linglix<span className="text-brand-primary">.</span>
+        </Link>
+
+        <Link href={`/${locale}/${isAdmin ? "admin/dashboard" : "dashboard"}`}>
+          <Button variant="outline" className="flex items-center gap-2 bg-card/80 backdrop-blur-sm border-border rounded-full hover:border-primary/50 transition-colors">
+            <ArrowLeft className="w-4 h-4" />
+            <span>{tCommon("backToDashboard")}</span>
+          </Button>
+        </Link>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 lg:px-12 pt-28 sm:pt-32 pb-12">
+        <div className="mb-6">
+          <h1 className="text-3xl sm:text-4xl font-bold mb-2 text-black dark:text-white tracking-tight">
+            {t("title")}
+          </h1>
+          <p className="text-muted-foreground">{t("description")}</p>
+        </div>
+
+        {isAdmin && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+            <Shield className="w-4 h-4 text-accent shrink-0" />
+            <span>{t("readOnly")}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6 h-[70vh]">
+          {/* Conversation list */}
+          <div className="bg-card border border-border rounded-2xl flex flex-col overflow-hidden">
+            {isAdmin && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setActiveSearch(search.trim());
+                }}
+                className="p-3 border-b border-border flex gap-2"
+              >
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder={t("searchPlaceholder")}
+                  className="h-9"
+                />
+                <Button type="submit" size="sm" variant="outline" aria-label={t("search")}>
+                  <Search className="w-4 h-4" />
+                </Button>
+              </form>
+            )}
+            <div className="flex-1 overflow-y-auto">
+              {loadingConversations ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : conversations.length === 0 ? (
+                <div className="p-6 text-center text-sm text-muted-foreground">
+                  <p className="font-medium text-foreground mb-1">{t("noConversations")}</p>
+                  {user.role === "STUDENT" && <p>{t("noConversationsHint")}</p>}
+                </div>
+              ) : (
+                <ul>
+                  {conversations.map((conversation) => {
+                    const avatar = getAvatar(conversation);
+                    return (
+                      <li key={conversation.id}>
+                        <button
+                          type="button"
+                          onClick={() => selectConversation(conversation.id)}
+                          className={`w-full text-left px-4 py-3 flex items-center gap-3 border-b border-border transition-colors ${
+                            conversation.id === selectedId ? "bg-accent/10" : "hover:bg-muted/50"
+                          }`}
+                        >
+                          {avatar && !isAdmin ? (
+                            <Image
+                              src={avatar}
+                              alt={getTitle(conversation)}
+                              width={36}
+                              height={36}
+                              className="rounded-full shrink-0"
+                            />
+                          ) : (
+                            <div className="w-9 h-9 rounded-full bg-muted flex items-center justify-center shrink-0">
+                              <User className="w-4 h-4 text-muted-foreground" />
+                            </div>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="font-semibold text-sm text-foreground truncate">
+                                {getTitle(conversation)}
+                              </p>
+                              {!!conversation.unreadCount && (
+                                <span className="min-w-5 h-5 px-1 rounded-full bg-error text-white text-xs font-bold flex items-center justify-center shrink-0">
+                                  {conversation.unreadCount}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {conversation.lastMessage
+                                ? conversation.lastMessage.body ||
+                                  t("attachment", { name: conversation.lastMessage.attachmentName || "" })
+                                : t("noMessages")}
+                            </p>
+                          </div>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Open conversation */}
+          <div className="bg-card border border-border rounded-2xl flex flex-col overflow-hidden">
+            {!selectedId ? (
+              <div className="flex-1 flex flex-col items-center justify-center text-muted-foreground gap-3">
+                <MessageSquare className="w-10 h-10" />
+                <p>{t("selectConversation")}</p>
+              </div>
+            ) : (
+              <>
+                <div className="px-5 py-4 border-b border-border">
+                  <p className="font-semibold text-foreground">
+                    {selectedConversation ? getTitle(selectedConversation) : "…"}
+                  </p>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-5 py-4 space-y-3">
+                  {loadingMessages ? (
+                    <div className="flex items-center justify-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : (
+                    <>
+                      {hasMore && (
+                        <div className="text-center">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={loadOlderMessages}
+                            disabled={loadingOlder}
+                          >
+                            {loadingOlder && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            {t("loadOlder")}
+                          </Button>
+                        </div>
+                      )}
+                      {messages.length === 0 && (
+                        <p className="text-center text-sm text-muted-foreground py-8">{t("noMessages")}</p>
+                      )}
+                      {messages.map((message) => {
+                        const isOwn = message.senderId === user.id;
+                        return (
+                          <div key={message.id} className={`flex ${isOwn ? "justify-end" : "justify-start"}`}>
+                            <div
+                              className={`max-w-[75%] rounded-2xl px-4 py-2 ${
+                                isOwn
+                                  ? "bg-accent text-accent-foreground"
+                                  : "bg-[#f5f5f5] dark:bg-[#262626] text-foreground"
+                              }`}
+                            >
+                              {(isAdmin || !isOwn) && selectedConversation && (
+                                <p className="text-xs font-semibold mb-1 opacity-80">
+                                  {getSenderName(selectedConversation, message.senderId)}
+                                </p>
+                              )}
+                              {message.body && (
+                                <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+                              )}
+                              {message.attachmentUrl && (
+                                <a
+                                  href={message.attachmentUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="mt-1 flex items-center gap-2 text-sm underline break-all"
+                                >
+                                  <Paperclip className="w-4 h-4 shrink-0" />
+                                  {message.attachmentName} {formatSize(message.attachmentSize)}
+                                </a>
+                              )}
+                              <p className="text-[10px] opacity-70 mt-1 text-right">
+                                {formatTime(message.createdAt)}
+                              </p>
+                            </div>
+                          </div>
+                        );
+                      })}
+                      <div ref={messagesEndRef} />
+                    </>
+                  )}
+                </div>
+
+                {error && (
+                  <p className="px-5 pb-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+                )}
+
+                {!isAdmin && (
+                  <form onSubmit={handleSend} className="border-t border-border p-3 space-y-2">
+                    {attachment && (
+                      <div className="flex items-center gap-2 text-sm px-3 py-1.5 bg-muted rounded-full w-fit max-w-full">
+                        <Paperclip className="w-4 h-4 shrink-0" />
+                        <span className="truncate">{attachment.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => setAttachment(null)}
+                          aria-label={t("removeAttachment")}
+                          className="shrink-0"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex items-end gap-2">
+                      <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={uploading || sending}
+                        aria-label={t("attach")}
+                        className="rounded-full shrink-0"
+                      >
+                        {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+                      </Button>
+                      <Textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault();
+                            e.currentTarget.form?.requestSubmit();
+                          }
+                        }}
+                        placeholder={t("placeholder")}
+                        maxLength={MESSAGE_MAX_LENGTH}
+                        rows={1}
+                        className="min-h-10 resize-none"
+                      />
+                      <Button
+                        type="submit"
+                        disabled={sending || uploading || (!draft.trim() && !attachment)}
+                        className="rounded-full shrink-0"
+                      >
+                        {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                        <span className="hidden sm:inline ml-2">{t("send")}</span>
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import { formatCurrency } from "@/lib/booking/currency";
+import type { NotificationData } from "@/lib/notifications/inbox";
+
+/**
+ * Notification Bell Component
+ *
+ * Notification center in the dashboard navigation:
+ * - Unread count on the bell, kept live over server-sent events
+ * - Dropdown with the latest notifications, older ones on demand
+ * - Clicking a notification marks it read; "mark all as read" clears the count
+ */
+type NotificationType =
+  | "BOOKING_CONFIRMED"
+  | "BOOKING_RESCHEDULED"
+  | "BOOKING_CANCELLED"
+  | "BOOKING_REFUNDED"
+  | "TUTOR_APPROVED"
+  | "TUTOR_REJECTED"
+  | "APPEAL_APPROVED"
+  | "APPEAL_REJECTED";
+
+interface Notification {
+  id: string;
+  type: NotificationType;
+  bookingId: string | null;
+  data: NotificationData | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationBellProps {
+  locale: string;
+  initialUnreadCount: number;
+}
+
+export function NotificationBell({ locale, initialUnreadCount }: NotificationBellProps) {
+  const t = useTranslations("notifications");
+  const [open, setOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(initialUnreadCount);
+  const [notifications, setNotifications] = useState<Notification[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dateLocale = locale === "es" ? "es-ES" : "en-US";
+
+  const fetchNotifications = useCallback(async (before?: string) => {
+    setLoading(true);
+
+    try {
+      const params = before ? `?before=${before}` : "";
+      const response = await fetch(`/api/notifications${params}`);
+      if (!response.ok) throw new Error("Failed to fetch notifications");
+      const data = await response.json();
+
+      setNotifications((current) =>
+        before && current ? [...current, ...data.notifications] : data.notifications
+      );
+      setHasMore(data.hasMore);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Live updates
+  useEffect(() => {
+    const events = new EventSource("/api/notifications/stream");
+
+    events.addEventListener("unread", (event) => {
+      setUnreadCount(JSON.parse((event as MessageEvent).data).unreadCount);
+    });
+    events.addEventListener("notification", (event) => {
+      const notification: Notification = JSON.parse((event as MessageEvent).data);
+      setNotifications((current) =>
+        current && !current.some((existing) => existing.id === notification.id)
+          ? [notification, ...current]
+          : current
+      );
+    });
+
+    return () => {
+      events.close();
+    };
+  }, []);
+
+  // First open loads the list
+  useEffect(() => {
+    if (open && notifications === null) {
+      fetchNotifications();
+    }
+  }, [open, notifications, fetchNotifications]);
+
+  // Close on click outside or Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [open]);
+
+  const markRead = async (notification: Notification) => {
+    if (notification.readAt) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current?.map((existing) =>
+        existing.id === notification.id ? { ...existing, readAt } : existing
+      ) ?? null
+    );
+    setUnreadCount((count) => Math.max(0, count - 1));
+
+    try {
+      const response = await fetch(`/api/notifications/${notification.id}/read`, {
+        method: "POST",
+      });
+      if (!response.ok) throw new Error("Failed to mark notification as read");
+      const data = await response.json();
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+    }
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications(
+      (current) => current?.map((existing) => ({ ...existing, readAt: existing.readAt ?? readAt })) ?? null
+    );
+    setUnreadCount(0);
+
+    try {
+      const response = await fetch("/api/notifications/read-all", { method: "POST" });
+      if (!response.ok) throw new Error("Failed to mark notifications as read");
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      fetchNotifications();
+    }
+  };
+
+  const formatDate = (isoString?: string) =>
+    isoString
+      ? new Date(isoString).toLocaleString(dateLocale, {
+          month: "short",
+          day: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+        })
+      : "";
+
+  const getMessage = ({ type, data }: Notification) =>
+    t(`types.${type}`, {
+      name: data?.name || t("someone"),
+      date: formatDate(data?.scheduledAt),
+      previousDate: formatDate(data?.previousScheduledAt),
+      amount:
+        data?.amount !== undefined && data.currency
+          ? formatCurrency(data.amount, data.currency, locale)
+          : "",
+    });
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        onClick={() => setOpen((value) => !value)}
+        aria-label={t("title")}
+        aria-expanded={open}
+        className="relative flex items-center gap-2 bg-card/80 backdrop-blur-sm border-border rounded-full"
+      >
+        <Bell className="w-4 h-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-error text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-[calc(100vw-2rem)] max-w-sm rounded-2xl border border-border bg-card shadow-xl z-50 animate-in fade-in slide-in-from-top-2">
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border">
+            <p className="font-semibold text-foreground">{t("title")}</p>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={markAllRead}
+                className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <CheckCheck className="w-3.5 h-3.5" />
+                {t("markAllRead")}
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications === null ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-8 px-4">
+                {t("empty")}
+              </p>
+            ) : (
+              <ul>
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      onClick={() => markRead(notification)}
+                      className={`w-full text-left flex gap-3 px-4 py-3 border-b border-border last:border-0 hover:bg-muted/50 transition-colors ${
+                        notification.readAt ? "" : "bg-brand-primary/5"
+                      }`}
+                    >
+                      <span
+                        className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${
+                          notification.readAt ? "bg-transparent" : "bg-brand-primary"
+                        }`}
+                      />
+                      <span className="space-y-1">
+                        <span className="block text-sm text-foreground">
+                          {getMessage(notification)}
+                        </span>
+                        {notification.data?.reason && (
+                          <span className="block text-xs text-muted-foreground">
+                            {t("reason", { reason: notification.data.reason })}
+                          </span>
+                        )}
+                        <span className="block text-xs text-muted-foreground">
+                          {formatDate(notification.createdAt)}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {hasMore && (
+              <div className="p-3 text-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fetchNotifications(notifications?.at(-1)?.id)}
+                  disabled={loading}
+                  className="rounded-full"
+                >
+                  {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : t("loadMore")}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
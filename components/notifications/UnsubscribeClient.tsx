@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, Loader2, MailX, XCircle } from "lucide-react";
+import type { UnsubscribeScope } from "@/lib/notifications/unsubscribe";
+
+interface UnsubscribeClientProps {
+  locale: string;
+  token: string | null; // Null when the link is invalid
+  scope: UnsubscribeScope | null;
+}
+
+/**
+ * Unsubscribe Confirmation
+ *
+ * Confirms turning off one email category (or every optional one) from a
+ * signed email link, with a way to the full preferences on the profile page
+ */
+export function UnsubscribeClient({ locale, token, scope }: UnsubscribeClientProps) {
+  const t = useTranslations("unsubscribe");
+  const [status, setStatus] = useState<"idle" | "loading" | "success" | "error">("idle");
+
+  const handleUnsubscribe = async () => {
+    setStatus("loading");
+
+    try {
+      const response = await fetch("/api/notifications/unsubscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+      setStatus(response.ok ? "success" : "error");
+    } catch (error) {
+      console.error("Error unsubscribing:", error);
+      setStatus("error");
+    }
+  };
+
+  const invalid = !token || !scope;
+  const scopeName = scope ? t(`scopes.${scope}`) : "";
+
+  return (
+    <div className="max-w-md w-full text-center">
+      <div className="bg-white dark:bg-gradient-to-b from-[#1a1a1a] to-[#121212] rounded-[32px] p-8 sm:p-10 border border-[#e5e5e5] dark:border-[#262626] shadow-lg">
+        <div className="mb-6 flex justify-center">
+          {status === "success" ? (
+            <CheckCircle2 className="w-12 h-12 text-green-600 dark:text-green-400" />
+          ) : invalid || status === "error" ? (
+            <XCircle className="w-12 h-12 text-red-600 dark:text-red-400" />
+          ) : (
+            <MailX className="w-12 h-12 text-black dark:text-white" />
+          )}
+        </div>
+
+        <h1 className="text-2xl sm:text-3xl font-bold text-black dark:text-white mb-3">
+          {status === "success" ? t("successTitle") : t("title")}
+        </h1>
+        <p className="text-base text-[#666] dark:text-[#a1a1aa] mb-8">
+          {invalid
+            ? t("invalid")
+            : status === "success"
+              ? t("success", { scope: scopeName })
+              : status === "error"
+                ? t("error")
+                : t("confirm", { scope: scopeName })}
+        </p>
+
+        <div className="flex flex-col gap-3">
+          {!invalid && status !== "success" && (
+            <Button
+              onClick={handleUnsubscribe}
+              disabled={status === "loading"}
+              className="w-full bg-[#111] dark:bg-accent text-white dark:text-black hover:bg-[#222] dark:hover:bg-brand-primary-light rounded-full"
+            >
+              {status === "loading" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("button")}
+            </Button>
+          )}
+          <Link href={`/${locale}/profile#notifications`}>
+            <Button
+              variant="outline"
+              className="w-full border-2 border-[#e5e5e5] dark:border-[#262626] hover:border-accent rounded-full"
+            >
+              {t("managePreferences")}
+            </Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowUp, Plus, Trash2 } from "lucide-react";
+import {
+  LEARNING_GOALS,
+  LEARNING_LANGUAGES,
+  MAX_LEARNING_LANGUAGES,
+  SCHEDULE_PREFERENCES,
+  STUDENT_LEVELS,
+} from "@/lib/student/languages";
+
+/**
+ * A language being edited; fields are empty until chosen
+ */
+export interface LearningLanguageDraft {
+  language: string;
+  level: string;
+  learningGoal: string;
+  preferredSchedule: string;
+}
+
+export const EMPTY_LEARNING_LANGUAGE: LearningLanguageDraft = {
+  language: "",
+  level: "",
+  learningGoal: "",
+  preferredSchedule: "",
+};
+
+export function isLearningLanguageComplete(entry: LearningLanguageDraft): boolean {
+  return !!(entry.language && entry.level && entry.learningGoal && entry.preferredSchedule);
+}
+
+// Translation keys use camelCase ("upper-intermediate" → "upperIntermediate")
+const toKey = (value: string) => value.replace(/-(\w)/g, (_, char: string) => char.toUpperCase());
+
+interface LearningLanguagesEditorProps {
+  value: LearningLanguageDraft[];
+  onChange: (languages: LearningLanguageDraft[]) => void;
+  triggerClassName?: string;
+}
+
+/**
+ * Learning Languages Editor
+ *
+ * The languages a student is learning, each with its level, goal and
+ * schedule. The first is the primary language.
+ * Used in onboarding and on the profile page.
+ */
+export function LearningLanguagesEditor({
+  value,
+  onChange,
+  triggerClassName = "h-11",
+}: LearningLanguagesEditorProps) {
+  const t = useTranslations("onboarding.student");
+
+  const updateEntry = (index: number, field: keyof LearningLanguageDraft, fieldValue: string) => {
+    onChange(value.map((entry, i) => (i === index ? { ...entry, [field]: fieldValue } : entry)));
+  };
+
+  const makePrimary = (index: number) => {
+    onChange([value[index], ...value.filter((_, i) => i !== index)]);
+  };
+
+  const getLanguageName = (language: string) =>
+    t.has(`languageNames.${language}`) ? t(`languageNames.${language}`) : language;
+
+  return (
+    <div className="space-y-4">
+      {value.map((entry, index) => {
+        const takenLanguages = value
+          .filter((_, i) => i !== index)
+          .map((other) => other.language);
+
+        return (
+          <div
+            key={index}
+            className="rounded-2xl border border-[#e5e5e5] dark:border-[#262626] p-4 space-y-4"
+          >
+            <div className="flex items-center justify-between gap-3">
+              {index === 0 ? (
+                <Badge variant="outline" className="rounded-full">
+                  {t("primaryLanguage")}
+                </Badge>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => makePrimary(index)}
+                  className="text-xs"
+                >
+                  <ArrowUp className="w-3.5 h-3.5 mr-1" />
+                  {t("makePrimary")}
+                </Button>
+              )}
+              {value.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  aria-label={t("removeLanguage")}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`language-${index}`} className="text-sm font-semibold">
+                  {t("language")}
+                </Label>
+                <Select
+                  value={entry.language}
+                  onValueChange={(language) => updateEntry(index, "language", language)}
+                >
+                  <SelectTrigger id={`language-${index}`} className={triggerClassName}>
+                    <SelectValue placeholder={t("languagePlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEARNING_LANGUAGES.filter((language) => !takenLanguages.includes(language)).map(
+                      (language) => (
+                        <SelectItem key={language} value={language}>
+                          {getLanguageName(language)}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`level-${index}`} className="text-sm font-semibold">
+                  {t("currentLevel")}
+                </Label>
+                <Select value={entry.level} onValueChange={(level) => updateEntry(index, "level", level)}>
+                  <SelectTrigger id={`level-${index}`} className={triggerClassName}>
+                    <SelectValue placeholder={t("currentLevelPlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STUDENT_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {t(`levels.${toKey(level)}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`learningGoal-${index}`} className="text-sm font-semibold">
+                  {t("learningGoal")}
+                </Label>
+                <Select
+                  value={entry.learningGoal}
+                  onValueChange={(goal) => updateEntry(index, "learningGoal", goal)}
+                >
+                  <SelectTrigger id={`learningGoal-${index}`} className={triggerClassName}>
+                    <SelectValue placeholder={t("learningGoalPlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEARNING_GOALS.map((goal) => (
+                      <SelectItem key={goal} value={goal}>
+                        {t(`goals.${goal}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`preferredSchedule-${index}`} className="text-sm font-semibold">
+                  {t("preferredSchedule")}
+                </Label>
+                <Select
+                  value={entry.preferredSchedule}
+                  onValueChange={(schedule) => updateEntry(index, "preferredSchedule", schedule)}
+                >
+                  <SelectTrigger id={`preferredSchedule-${index}`} className={triggerClassName}>
+                    <SelectValue placeholder={t("preferredSchedulePlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCHEDULE_PREFERENCES.map((schedule) => (
+                      <SelectItem key={schedule} value={schedule}>
+                        {t(`schedule.${schedule}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {value.length < MAX_LEARNING_LANGUAGES && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([...value, EMPTY_LEARNING_LANGUAGE])}
+          className="w-full"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {t("addLanguage")}
+        </Button>
+      )}
+    </div>
+  );
+}
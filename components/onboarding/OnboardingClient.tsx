@@ -14,6 +14,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  EMPTY_LEARNING_LANGUAGE,
+  LearningLanguagesEditor,
+  isLearningLanguageComplete,
+  type LearningLanguageDraft,
+} from "./LearningLanguagesEditor";
 import { AlertCircle, ArrowRight, ArrowLeft, GraduationCap, UserCheck, Loader2, X } from "lucide-react";
 
 interface OnboardingClientProps {
@@ -47,9 +53,7 @@ export function OnboardingClient({ locale, user }: OnboardingClientProps) {
 
   // Student form data
   const [studentData, setStudentData] = useState({
-    learningGoal: "",
-    currentLevel: "",
-    preferredSchedule: "",
+    languages: [EMPTY_LEARNING_LANGUAGE] as LearningLanguageDraft[],
     motivation: "",
   });
 
@@ -255,75 +259,11 @@ export function OnboardingClient({ locale, user }: OnboardingClientProps) {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="learningGoal" className="text-sm font-semibold">
-                {t("student.learningGoal")}
-              </Label>
-              <Select
-                value={studentData.learningGoal}
-                onValueChange={(value) =>
-                  setStudentData({ ...studentData, learningGoal: value })
-                }
-                required
-              >
-                <SelectTrigger className="h-11">
-                  <SelectValue placeholder={t("student.learningGoalPlaceholder")} />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="conversation">{t("student.goals.conversation")}</SelectItem>
-                  <SelectItem value="business">{t("student.goals.business")}</SelectItem>
-                  <SelectItem value="academic">{t("student.goals.academic")}</SelectItem>
-                  <SelectItem value="travel">{t("student.goals.travel")}</SelectItem>
-                  <SelectItem value="exam">{t("student.goals.exam")}</SelectItem>
-                  <SelectItem value="other">{t("student.goals.other")}</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="currentLevel" className="text-sm font-semibold">
-                {t("student.currentLevel")}
-              </Label>
-              <Select
-                value={studentData.currentLevel}
-                onValueChange={(value) =>
-                  setStudentData({ ...studentData, currentLevel: value })
-                }
-                required
-              >
-                <SelectTrigger className="h-11">
-                  <SelectValue placeholder={t("student.currentLevelPlaceholder")} />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="beginner">{t("student.levels.beginner")}</SelectItem>
-                  <SelectItem value="elementary">{t("student.levels.elementary")}</SelectItem>
-                  <SelectItem value="intermediate">{t("student.levels.intermediate")}</SelectItem>
-                  <SelectItem value="upper-intermediate">{t("student.levels.upperIntermediate")}</SelectItem>
-                  <SelectItem value="advanced">{t("student.levels.advanced")}</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="preferredSchedule" className="text-sm font-semibold">
-                {t("student.preferredSchedule")}
-              </Label>
-              <Select
-                value={studentData.preferredSchedule}
-                onValueChange={(value) =>
-                  setStudentData({ ...studentData, preferredSchedule: value })
-                }
-                required
-              >
-                <SelectTrigger className="h-11">
-                  <SelectValue placeholder={t("student.preferredSchedulePlaceholder")} />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="morning">{t("student.schedule.morning")}</SelectItem>
-                  <SelectItem value="afternoon">{t("student.schedule.afternoon")}</SelectItem>
-                  <SelectItem value="evening">{t("student.schedule.evening")}</SelectItem>
-                  <SelectItem value="flexible">{t("student.schedule.flexible")}</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label className="text-sm font-semibold">{t("student.languages")}</Label>
+              <LearningLanguagesEditor
+                value={studentData.languages}
+                onChange={(languages) => setStudentData({ ...studentData, languages })}
+              />
             </div>
 
             <div className="space-y-2">
@@ -351,7 +291,7 @@ export function OnboardingClient({ locale, user }: OnboardingClientProps) {
               </Button>
               <Button
                 type="submit"
-                disabled={isLoading || !studentData.learningGoal || !studentData.currentLevel || !studentData.preferredSchedule}
+                disabled={isLoading || !studentData.languages.every(isLearningLanguageComplete)}
                 className="flex-1 bg-[#111] dark:bg-accent text-white dark:text-black hover:bg-[#222] dark:hover:bg-brand-primary-light"
               >
                 {isLoading ? (
@@ -1,54 +1,98 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
-import { Star, Users, ArrowRight, Sparkles, BookOpen } from "lucide-react";
+import { Star, Users, ArrowRight, Sparkles, BookOpen, Loader2 } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { slugify } from "@/lib/utils/slug";
+import { getBrowserTimeZone } from "@/lib/utils/timezone";
+import type { RecommendationFactor, ScoreBreakdownItem } from "@/lib/student/recommendations";
 
 interface Tutor {
   id: string;
   name: string;
-  slug: string;
   image: string | null;
   specialties: string[];
   rating: number;
   hourlyRate: number;
   totalSessions: number;
   bio: string | null;
+  score: number;
+  scoreBreakdown: ScoreBreakdownItem[];
+  reasons: RecommendationFactor[];
   isRecommended: boolean;
 }
 
+// Reasons shown per tutor card
+const MAX_REASONS = 3;
+
 interface TutorSelectionClientProps {
-  tutors: Tutor[];
   locale: string;
-  hasRecommendations: boolean;
-  studentPreferences: {
-    learningGoal: string | null;
-    currentLevel: string | null;
-    preferredSchedule: string | null;
-  };
 }
 
 /**
  * Tutor Selection Client Component
  * 
- * Displays recommended tutors after onboarding with easy booking.
+ * Displays recommended tutors after onboarding with easy booking,
+ * and why each tutor was recommended.
  */
-export function TutorSelectionClient({
-  tutors,
-  locale,
-  hasRecommendations,
-  studentPreferences,
-}: TutorSelectionClientProps) {
+export function TutorSelectionClient({ locale }: TutorSelectionClientProps) {
   const t = useTranslations("onboarding.selectTutor");
   const tTutor = useTranslations("tutor");
+  const tStudent = useTranslations("onboarding.student");
   const router = useRouter();
 
+  const [tutors, setTutors] = useState<Tutor[]>([]);
+  const [hasRecommendations, setHasRecommendations] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchTutors = async () => {
+      try {
+        const params = new URLSearchParams({ timezone: getBrowserTimeZone() });
+        const response = await fetch(`/api/tutors/recommended?${params}`, {
+          signal: abortController.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to fetch recommended tutors");
+
+        setTutors(data.tutors);
+        setHasRecommendations(data.hasRecommendations);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        // Show the empty state
+        console.error("Error fetching recommended tutors:", err);
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchTutors();
+    return () => abortController.abort();
+  }, []);
+
+  // Language, industry and rating reasons name what matched
+  const getReasonLabel = (tutor: Tutor, factor: RecommendationFactor) => {
+    let detail = tutor.scoreBreakdown.find((item) => item.factor === factor)?.detail ?? "";
+    if (factor === "language" && tStudent.has(`languageNames.${detail}`)) {
+      detail = tStudent(`languageNames.${detail}`);
+    }
+    return detail && t.has(`reasons.${factor}Detail`)
+      ? t(`reasons.${factor}Detail`, { detail })
+      : t(`reasons.${factor}`);
+  };
+
   const handleBookTutor = (tutorSlug: string) => {
     router.push(`/${locale}/tutors/${tutorSlug}/book`);
   };
@@ -57,6 +101,14 @@ export function TutorSelectionClient({
     router.push(`/${locale}/dashboard`);
   };
 
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
   if (tutors.length === 0) {
     return (
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-6xl">
@@ -100,7 +152,7 @@ export function TutorSelectionClient({
             {tutor.isRecommended && (
               <div className="absolute top-3 right-3 z-10">
                 <Badge className="bg-primary text-primary-foreground">
-                  {t("recommended")}
+                  {t("matchScore", { score: tutor.score })}
                 </Badge>
               </div>
             )}
@@ -165,6 +217,23 @@ export function TutorSelectionClient({
                 </div>
               </div>
 
+              {/* Why this tutor */}
+              {tutor.reasons.length > 0 && (
+                <div className="mb-4 text-left">
+                  <p className="text-xs font-semibold text-muted-foreground mb-2">
+                    {t("whyThisTutor")}
+                  </p>
+                  <ul className="space-y-1">
+                    {tutor.reasons.slice(0, MAX_REASONS).map((factor) => (
+                      <li key={factor} className="flex items-center gap-2 text-sm">
+                        <Sparkles className="w-3.5 h-3.5 text-primary shrink-0" />
+                        {getReasonLabel(tutor, factor)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Bio Preview */}
               {tutor.bio && (
                 <p className="text-sm text-muted-foreground line-clamp-3 mb-4 text-left">
@@ -175,7 +244,7 @@ export function TutorSelectionClient({
               {/* Actions */}
               <div className="flex gap-2">
                 <Button
-                  onClick={() => handleBookTutor(tutor.slug)}
+                  onClick={() => handleBookTutor(slugify(tutor.name))}
                   className="flex-1 group-hover:bg-primary group-hover:text-primary-foreground transition-colors"
                   variant="default"
                 >
@@ -187,7 +256,7 @@ export function TutorSelectionClient({
                   variant="outline"
                   size="icon"
                 >
-                  <Link href={`/${locale}/tutors/${tutor.slug}`}>
+                  <Link href={`/${locale}/tutors/${slugify(tutor.name)}`}>
                     <span className="sr-only">{t("viewProfile")}</span>
                     <Users className="w-4 h-4" />
                   </Link>
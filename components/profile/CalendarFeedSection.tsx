@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, CalendarDays, Check, Copy, Loader2 } from "lucide-react";
+
+interface CalendarFeedSectionProps {
+  feedUrl: string | null;
+}
+
+/**
+ * Calendar Feed Section
+ *
+ * iCal subscription on the profile page:
+ * - Create a secret URL listing upcoming confirmed sessions
+ * - Copy it or open it in a calendar app (webcal://)
+ * - Reset it (the old URL stops working) or turn it off
+ */
+export function CalendarFeedSection({ feedUrl: initialFeedUrl }: CalendarFeedSectionProps) {
+  const t = useTranslations("profile.calendar");
+  const [feedUrl, setFeedUrl] = useState(initialFeedUrl);
+  const [saving, setSaving] = useState<"create" | "revoke" | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateFeed = async (action: "create" | "revoke") => {
+    setSaving(action);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/user/calendar", {
+        method: action === "create" ? "POST" : "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update calendar feed");
+      }
+
+      const data = await response.json();
+      setFeedUrl(data.feedUrl);
+      setCopied(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update calendar feed");
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <section id="calendar" className="mt-12 scroll-mt-32">
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-2xl sm:text-3xl font-bold text-black dark:text-white mb-2">
+            {t("title")}
+          </h2>
+          <p className="text-sm text-[#666] dark:text-[#888]">{t("description")}</p>
+        </div>
+
+        <div className="rounded-2xl border border-[#e5e5e5] dark:border-[#262626] p-4 space-y-4">
+          {feedUrl ? (
+            <>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  aria-label={t("feedUrl")}
+                  className="flex-1 rounded-full font-mono text-xs"
+                />
+                <Button variant="outline" onClick={copyFeedUrl} className="rounded-full">
+                  {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+                  {copied ? t("copied") : t("copy")}
+                </Button>
+              </div>
+              <p className="text-xs text-[#888] dark:text-[#666]">{t("secretNote")}</p>
+              <div className="flex flex-wrap gap-2">
+                <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+                  <Button variant="outline" size="sm" className="rounded-full">
+                    <CalendarDays className="w-4 h-4 mr-2" />
+                    {t("open")}
+                  </Button>
+                </a>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateFeed("create")}
+                  disabled={saving !== null}
+                  className="rounded-full"
+                >
+                  {saving === "create" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t("reset")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateFeed("revoke")}
+                  disabled={saving !== null}
+                  className="rounded-full hover:border-error hover:text-error"
+                >
+                  {saving === "revoke" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t("revoke")}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-[#666] dark:text-[#888]">{t("empty")}</p>
+              <Button
+                onClick={() => updateFeed("create")}
+                disabled={saving !== null}
+                className="rounded-full shrink-0"
+              >
+                {saving === "create" ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                )}
+                {t("create")}
+              </Button>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400 animate-in fade-in slide-in-from-top-2">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span className="truncate">{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Switch } from "@/components/ui/switch";
+import { AlertCircle, Bell, Lock } from "lucide-react";
+import {
+  NOTIFICATION_CATEGORIES,
+  type NotificationPreferences,
+} from "@/lib/notifications/preferences";
+
+interface NotificationPreferencesSectionProps {
+  preferences: NotificationPreferences;
+}
+
+/**
+ * Notification Preferences Section
+ *
+ * Email notifications on the profile page:
+ * - A switch per optional category, saved as soon as it's toggled
+ * - Transactional emails listed apart, always on
+ */
+export function NotificationPreferencesSection({
+  preferences: initialPreferences,
+}: NotificationPreferencesSectionProps) {
+  const t = useTranslations("profile.notifications");
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [savingCategory, setSavingCategory] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async (category: keyof NotificationPreferences, enabled: boolean) => {
+    const previous = preferences;
+    setPreferences({ ...preferences, [category]: enabled });
+    setSavingCategory(category);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/user/notifications", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ [category]: enabled }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update notification preferences");
+      }
+
+      const data = await response.json();
+      setPreferences(data.preferences);
+    } catch (error) {
+      setPreferences(previous);
+      setError(
+        error instanceof Error ? error.message : "Failed to update notification preferences"
+      );
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setSavingCategory(null);
+    }
+  };
+
+  return (
+    <section id="notifications" className="mt-12 scroll-mt-32">
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-2xl sm:text-3xl font-bold text-black dark:text-white mb-2">
+            {t("title")}
+          </h2>
+          <p className="text-sm text-[#666] dark:text-[#888]">{t("description")}</p>
+        </div>
+
+        <div className="space-y-4">
+          {NOTIFICATION_CATEGORIES.map((category) => (
+            <div
+              key={category}
+              className="flex items-start justify-between gap-4 rounded-2xl border border-[#e5e5e5] dark:border-[#262626] p-4"
+            >
+              <div className="space-y-1">
+                <label
+                  htmlFor={`notifications-${category}`}
+                  className="text-sm font-semibold text-black dark:text-white flex items-center gap-2"
+                >
+                  <Bell className="w-4 h-4" />
+                  {t(`categories.${category}.title`)}
+                </label>
+                <p className="text-xs text-[#888] dark:text-[#666]">
+                  {t(`categories.${category}.description`)}
+                </p>
+              </div>
+              <Switch
+                id={`notifications-${category}`}
+                checked={preferences[category]}
+                onCheckedChange={(enabled) => handleToggle(category, enabled)}
+                disabled={savingCategory !== null}
+              />
+            </div>
+          ))}
+
+          {/* Transactional emails can't be turned off */}
+          <div className="flex items-start justify-between gap-4 rounded-2xl border border-dashed border-[#e5e5e5] dark:border-[#262626] p-4 bg-[#f5f5f5]/60 dark:bg-[#111]/60">
+            <div className="space-y-1">
+              <p className="text-sm font-semibold text-black dark:text-white flex items-center gap-2">
+                <Lock className="w-4 h-4" />
+                {t("transactional.title")}
+              </p>
+              <p className="text-xs text-[#888] dark:text-[#666]">
+                {t("transactional.description")}
+              </p>
+            </div>
+            <Switch checked disabled aria-label={t("transactional.alwaysOn")} />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400 animate-in fade-in slide-in-from-top-2">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span className="truncate">{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
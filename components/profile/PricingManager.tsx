@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+
+/**
+ * Pricing Manager Component
+ *
+ * Lets tutors set their own pricing within the admin bounds:
+ * - Hourly rate (60-minute sessions)
+ * - Optional fixed prices for 30 and 90-minute sessions
+ * - Optional trial lesson price for new students
+ *
+ * Rendered inside the tutor profile form, so its buttons must not submit it.
+ */
+interface PricingBounds {
+  minHourlyRate: number;
+  maxHourlyRate: number;
+}
+
+interface PriceOption {
+  duration: number;
+  price: number;
+}
+
+const TIER_DURATIONS = [30, 90] as const;
+
+export function PricingManager() {
+  const t = useTranslations("profile.tutor");
+  const [bounds, setBounds] = useState<PricingBounds | null>(null);
+  const [commissionPercent, setCommissionPercent] = useState(0);
+  const [trialDuration, setTrialDuration] = useState(30);
+  const [priceOptions, setPriceOptions] = useState<PriceOption[]>([]);
+  const [hourlyRate, setHourlyRate] = useState("");
+  // Empty string = derived from the hourly rate
+  const [tierPrices, setTierPrices] = useState<Record<number, string>>({ 30: "", 90: "" });
+  const [trialPrice, setTrialPrice] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchPricing = async () => {
+      try {
+        const response = await fetch("/api/tutor/pricing", {
+          signal: abortController.signal,
+        });
+        if (!response.ok) throw new Error("Failed to fetch pricing");
+        const data = await response.json();
+
+        setBounds(data.bounds);
+        setCommissionPercent(data.commissionPercent);
+        setTrialDuration(data.trialDuration);
+        setPriceOptions(data.priceOptions || []);
+        setHourlyRate(data.pricing.hourlyRate.toString());
+        setTierPrices({
+          30: data.pricing.priceTiers.find((tier: PriceOption) => tier.duration === 30)?.price.toString() || "",
+          90: data.pricing.priceTiers.find((tier: PriceOption) => tier.duration === 90)?.price.toString() || "",
+        });
+        setTrialPrice(data.pricing.trialPrice?.toString() || "");
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+        console.error("Error fetching pricing:", error);
+      } finally {
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchPricing();
+
+    return () => {
+      abortController.abort();
+    };
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSuccess(false);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/tutor/pricing", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          hourlyRate: parseFloat(hourlyRate),
+          priceTiers: TIER_DURATIONS.filter((duration) => tierPrices[duration] !== "").map(
+            (duration) => ({ duration, price: parseFloat(tierPrices[duration]) })
+          ),
+          trialPrice: trialPrice !== "" ? parseFloat(trialPrice) : null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update pricing");
+      }
+
+      setPriceOptions(data.priceOptions || []);
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update pricing");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const inputClassName =
+    "h-11 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a] focus:border-primary dark:focus:border-accent";
+
+  return (
+    <div className="p-4 rounded-xl bg-[#f5f5f5] dark:bg-[#0a0a0a] border border-[#e5e5e5] dark:border-[#262626] space-y-4">
+      {bounds && (
+        <p className="text-xs text-[#666] dark:text-[#888]">
+          {t("pricingBounds", { min: bounds.minHourlyRate, max: bounds.maxHourlyRate })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="hourly-rate" className="text-sm text-black dark:text-white">
+            {t("hourlyRate")}
+          </Label>
+          <Input
+            id="hourly-rate"
+            type="number"
+            min={0}
+            step="0.01"
+            value={hourlyRate}
+            onChange={(e) => setHourlyRate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        {TIER_DURATIONS.map((duration) => (
+          <div key={duration} className="space-y-2">
+            <Label htmlFor={`tier-${duration}`} className="text-sm text-black dark:text-white">
+              {t("tierPrice", { duration })}
+            </Label>
+            <Input
+              id={`tier-${duration}`}
+              type="number"
+              min={0}
+              step="0.01"
+              value={tierPrices[duration]}
+              onChange={(e) => setTierPrices({ ...tierPrices, [duration]: e.target.value })}
+              placeholder={t("tierPricePlaceholder")}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Label htmlFor="trial-price" className="text-sm text-black dark:text-white">
+            {t("trialPrice", { duration: trialDuration })}
+          </Label>
+          <Input
+            id="trial-price"
+            type="number"
+            min={0}
+            step="0.01"
+            value={trialPrice}
+            onChange={(e) => setTrialPrice(e.target.value)}
+            placeholder={t("trialPricePlaceholder")}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {/* Current prices and the tutor's share */}
+      <ul className="space-y-1 text-sm text-black dark:text-white">
+        {priceOptions.map((option) => (
+          <li key={option.duration}>
+            <span className="font-semibold">
+              {t("sessionPrice", { duration: option.duration, price: option.price.toFixed(2) })}
+            </span>
+            <span className="text-xs text-[#666] dark:text-[#888]">
+              {" "}
+              · {t("tutorEarnings")}: $
+              {(Math.round(option.price * (100 - commissionPercent)) / 100).toFixed(2)} (
+              {t("afterCommission", { percent: commissionPercent })})
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+        <div className="flex-1 min-w-0">
+          {success && (
+            <div className="flex items-center gap-2 text-sm text-yellow-600 dark:text-yellow-400">
+              <CheckCircle2 className="w-4 h-4 shrink-0" />
+              <span>{t("pricingSaved")}</span>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || hourlyRate === ""}
+          className="rounded-full"
+        >
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {t("savePricing")}
+        </Button>
+      </div>
+    </div>
+  );
+}
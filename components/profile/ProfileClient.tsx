@@ -17,6 +17,18 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { AvatarUpload } from "./AvatarUpload";
+import { PricingManager } from "./PricingManager";
+import { NotificationPreferencesSection } from "./NotificationPreferencesSection";
+import { CalendarFeedSection } from "./CalendarFeedSection";
+import {
+  LearningLanguagesEditor,
+  isLearningLanguageComplete,
+  type LearningLanguageDraft,
+} from "@/components/onboarding/LearningLanguagesEditor";
+import { SUPPORTED_CURRENCIES } from "@/lib/booking/currency";
+import { localeNames, locales } from "@/config/i18n/config";
+import { DEFAULT_TIMEZONE, getTimeZoneOptions } from "@/lib/utils/timezone";
+import type { NotificationPreferences } from "@/lib/notifications/preferences";
 import { 
   ArrowLeft, 
   CheckCircle2, 
@@ -46,18 +58,29 @@ import Image from "next/image";
 
 interface ProfileClientProps {
   locale: string;
+  notificationPreferences: NotificationPreferences;
+  calendarFeedUrl: string | null;
   user: {
     id: string;
     name?: string | null;
     email: string;
     image?: string | null;
     role: string;
+    currency?: string | null;
+    locale: string;
+    timezone?: string | null;
   };
   studentProfile?: {
     learningGoal: string | null;
     currentLevel: string | null;
     preferredSchedule: string | null;
     motivation: string | null;
+    languages: Array<{
+      language: string;
+      level: string;
+      learningGoal: string | null;
+      preferredSchedule: string | null;
+    }>;
   } | null;
   tutorProfile?: {
     introduction?: string | null;
@@ -77,7 +100,40 @@ interface ProfileClientProps {
   } | null;
 }
 
-export function ProfileClient({ locale, user, studentProfile, tutorProfile }: ProfileClientProps) {
+/**
+ * The student's languages for the editor. Students onboarded before languages
+ * were added only have the single preferences, kept as an unnamed language.
+ */
+function getLanguageDrafts(
+  studentProfile: ProfileClientProps["studentProfile"]
+): LearningLanguageDraft[] {
+  if (studentProfile?.languages.length) {
+    return studentProfile.languages.map((entry) => ({
+      language: entry.language,
+      level: entry.level,
+      learningGoal: entry.learningGoal || "",
+      preferredSchedule: entry.preferredSchedule || "",
+    }));
+  }
+
+  return [
+    {
+      language: "",
+      level: studentProfile?.currentLevel || "",
+      learningGoal: studentProfile?.learningGoal || "",
+      preferredSchedule: studentProfile?.preferredSchedule || "",
+    },
+  ];
+}
+
+export function ProfileClient({
+  locale,
+  user,
+  studentProfile,
+  tutorProfile,
+  notificationPreferences,
+  calendarFeedUrl,
+}: ProfileClientProps) {
   const t = useTranslations("profile");
   const tStudent = useTranslations("onboarding.student");
   const tTutor = useTranslations("onboarding.tutor");
@@ -86,15 +142,20 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
 
   // User profile state
   const [name, setName] = useState(user.name || "");
+  // "auto" = derived from the site language
+  const [currency, setCurrency] = useState(user.currency || "auto");
+  // Language and timezone of emails
+  const [emailLocale, setEmailLocale] = useState(user.locale);
+  const [timezone, setTimezone] = useState(user.timezone || DEFAULT_TIMEZONE);
   const [savingUser, setSavingUser] = useState(false);
   const [userSuccess, setUserSuccess] = useState(false);
   const [userError, setUserError] = useState<string | null>(null);
   const [hasUserChanges, setHasUserChanges] = useState(false);
 
   // Student profile state
-  const [learningGoal, setLearningGoal] = useState(studentProfile?.learningGoal || "");
-  const [currentLevel, setCurrentLevel] = useState(studentProfile?.currentLevel || "");
-  const [preferredSchedule, setPreferredSchedule] = useState(studentProfile?.preferredSchedule || "");
+  const [learningLanguages, setLearningLanguages] = useState(() =>
+    getLanguageDrafts(studentProfile)
+  );
   const [motivation, setMotivation] = useState(studentProfile?.motivation || "");
   const [savingStudent, setSavingStudent] = useState(false);
   const [studentSuccess, setStudentSuccess] = useState(false);
@@ -130,17 +191,20 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
 
   // Track changes
   useEffect(() => {
-    setHasUserChanges(name !== (user.name || ""));
-  }, [name, user.name]);
+    setHasUserChanges(
+      name !== (user.name || "") ||
+        currency !== (user.currency || "auto") ||
+        emailLocale !== user.locale ||
+        timezone !== (user.timezone || DEFAULT_TIMEZONE)
+    );
+  }, [name, user.name, currency, user.currency, emailLocale, user.locale, timezone, user.timezone]);
 
   useEffect(() => {
     setHasStudentChanges(
-      learningGoal !== (studentProfile?.learningGoal || "") ||
-      currentLevel !== (studentProfile?.currentLevel || "") ||
-      preferredSchedule !== (studentProfile?.preferredSchedule || "") ||
+      JSON.stringify(learningLanguages) !== JSON.stringify(getLanguageDrafts(studentProfile)) ||
       motivation !== (studentProfile?.motivation || "")
     );
-  }, [learningGoal, currentLevel, preferredSchedule, motivation, studentProfile]);
+  }, [learningLanguages, motivation, studentProfile]);
 
   useEffect(() => {
     const currentProfile = tutorProfile || {};
@@ -194,7 +258,12 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ name }),
+        body: JSON.stringify({
+          name,
+          locale: emailLocale,
+          timezone,
+          ...(user.role === "STUDENT" && { currency: currency === "auto" ? null : currency }),
+        }),
       });
 
       if (!response.ok) {
@@ -226,9 +295,7 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          learningGoal: learningGoal || null,
-          currentLevel: currentLevel || null,
-          preferredSchedule: preferredSchedule || null,
+          languages: learningLanguages,
           motivation: motivation || null,
         }),
       });
@@ -577,6 +644,69 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
                   </p>
                 </div>
 
+                {user.role === "STUDENT" && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-[#444] dark:text-[#a1a1aa]">
+                      {t("currency")}
+                    </Label>
+                    <Select value={currency} onValueChange={setCurrency}>
+                      <SelectTrigger className="h-11 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">{t("currencyAuto")}</SelectItem>
+                        {SUPPORTED_CURRENCIES.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code.toUpperCase()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-[#888] dark:text-[#666] mt-1">
+                      {t("currencyHint")}
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-[#444] dark:text-[#a1a1aa]">
+                    {t("emailLanguage")}
+                  </Label>
+                  <Select value={emailLocale} onValueChange={setEmailLocale}>
+                    <SelectTrigger className="h-11 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locales.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {localeNames[code]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-[#444] dark:text-[#a1a1aa]">
+                    {t("timezone")}
+                  </Label>
+                  <Select value={timezone} onValueChange={setTimezone}>
+                    <SelectTrigger className="h-11 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getTimeZoneOptions(timezone).map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-[#888] dark:text-[#666] mt-1">
+                    {t("emailSettingsHint")}
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label className="text-sm font-medium text-[#444] dark:text-[#a1a1aa]">
                     {t("role")}
@@ -742,60 +872,16 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
               </div>
 
               <div className="space-y-8">
-                <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
-                  <div className="space-y-2">
-                    <Label htmlFor="learningGoal" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
-                      {tStudent("learningGoal")}
-                    </Label>
-                    <Select value={learningGoal} onValueChange={setLearningGoal}>
-                      <SelectTrigger className="h-12 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a]">
-                        <SelectValue placeholder={tStudent("learningGoalPlaceholder")} />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="conversation">{tStudent("goals.conversation")}</SelectItem>
-                        <SelectItem value="business">{tStudent("goals.business")}</SelectItem>
-                        <SelectItem value="academic">{tStudent("goals.academic")}</SelectItem>
-                        <SelectItem value="travel">{tStudent("goals.travel")}</SelectItem>
-                        <SelectItem value="exam">{tStudent("goals.exam")}</SelectItem>
-                        <SelectItem value="other">{tStudent("goals.other")}</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="currentLevel" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
-                      {tStudent("currentLevel")}
-                    </Label>
-                    <Select value={currentLevel} onValueChange={setCurrentLevel}>
-                      <SelectTrigger className="h-12 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a]">
-                        <SelectValue placeholder={tStudent("currentLevelPlaceholder")} />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="beginner">{tStudent("levels.beginner")}</SelectItem>
-                        <SelectItem value="elementary">{tStudent("levels.elementary")}</SelectItem>
-                        <SelectItem value="intermediate">{tStudent("levels.intermediate")}</SelectItem>
-                        <SelectItem value="upper-intermediate">{tStudent("levels.upperIntermediate")}</SelectItem>
-                        <SelectItem value="advanced">{tStudent("levels.advanced")}</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="preferredSchedule" className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa]">
-                      {tStudent("preferredSchedule")}
-                    </Label>
-                    <Select value={preferredSchedule} onValueChange={setPreferredSchedule}>
-                      <SelectTrigger className="h-12 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a]">
-                        <SelectValue placeholder={tStudent("preferredSchedulePlaceholder")} />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="morning">{tStudent("schedule.morning")}</SelectItem>
-                        <SelectItem value="afternoon">{tStudent("schedule.afternoon")}</SelectItem>
-                        <SelectItem value="evening">{tStudent("schedule.evening")}</SelectItem>
-                        <SelectItem value="flexible">{tStudent("schedule.flexible")}</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa] flex items-center gap-2">
+                    <Languages className="w-4 h-4" />
+                    {tStudent("languages")}
+                  </Label>
+                  <LearningLanguagesEditor
+                    value={learningLanguages}
+                    onChange={setLearningLanguages}
+                    triggerClassName="h-12 rounded-xl border-[#e5e5e5] dark:border-[#262626] bg-white dark:bg-[#0a0a0a]"
+                  />
                 </div>
 
                 <div className="space-y-2">
@@ -833,7 +919,11 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
                     </div>
                     <Button
                       onClick={handleSaveStudentProfile}
-                      disabled={savingStudent || !hasStudentChanges}
+                      disabled={
+                        savingStudent ||
+                        !hasStudentChanges ||
+                        !learningLanguages.every(isLearningLanguageComplete)
+                      }
                       className="bg-[#111] dark:bg-accent text-white dark:text-black hover:bg-[#222] dark:hover:bg-brand-primary-light rounded-full px-6 h-11 min-w-[140px] disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
                     >
                       {savingStudent ? (
@@ -1290,20 +1380,13 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
 
                 <Separator className="bg-[#e5e5e5] dark:bg-[#262626]" />
 
-                {/* Pricing Info (Read-only) */}
+                {/* Pricing (saved separately from the profile) */}
                 <div className="space-y-3">
                   <Label className="text-sm font-semibold text-[#444] dark:text-[#a1a1aa] flex items-center gap-2">
                     <DollarSign className="w-4 h-4" />
                     {t("tutor.pricing")}
                   </Label>
-                  <div className="p-4 rounded-xl bg-[#f5f5f5] dark:bg-[#0a0a0a] border border-[#e5e5e5] dark:border-[#262626]">
-                    <p className="text-sm text-black dark:text-white mb-2">
-                      <span className="font-semibold">${tutorProfile?.hourlyRate || 30}/hour</span> - {t("tutor.studentRate")}
-                    </p>
-                    <p className="text-xs text-[#666] dark:text-[#888]">
-                      {t("tutor.tutorEarnings")}: <span className="font-medium">$15/hour</span> ({t("tutor.afterCommission")})
-                    </p>
-                  </div>
+                  <PricingManager />
                 </div>
 
                 {/* Save Button & Feedback */}
@@ -1346,6 +1429,12 @@ export function ProfileClient({ locale, user, studentProfile, tutorProfile }: Pr
             </div>
           </section>
         )}
+
+        {/* Email Notifications */}
+        <NotificationPreferencesSection preferences={notificationPreferences} />
+
+        {/* Calendar Sync */}
+        <CalendarFeedSection feedUrl={calendarFeedUrl} />
       </div>
     </div>
   );
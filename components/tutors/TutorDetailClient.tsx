@@ -1,13 +1,28 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import Image from "next/image";
-import { ArrowLeft, Star, Users, Clock, CheckCircle2, Calendar } from "lucide-react";
+import {
+  ArrowLeft,
+  Star,
+  Users,
+  Clock,
+  CheckCircle2,
+  Calendar,
+  ChevronLeft,
+  ChevronRight,
+  MessageSquare,
+} from "lucide-react";
 import { useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
+import type { TutorReviewsPage } from "@/lib/booking/reviews";
+import { formatPrice, type CurrencyQuote } from "@/lib/booking/currency";
 
 interface Tutor {
   id: string;
+  profileId: string;
   name: string;
   slug: string;
   image: string | null;
@@ -16,6 +31,8 @@ interface Tutor {
   specialties: string[];
   rating: number;
   hourlyRate: number;
+  priceOptions: { duration: number; price: number }[];
+  trialPrice: number | null;
   totalSessions: number;
   availability: {
     dayOfWeek: number;
@@ -23,21 +40,15 @@ interface Tutor {
     endTime: string;
     timezone: string;
   }[];
-  reviews: {
-    id: string;
-    rating: number;
-    comment: string | null;
-    studentId: string;
-    studentName: string | null;
-    studentImage: string | null;
-    createdAt: Date;
-    tags: string[];
-  }[];
+  reviews: TutorReviewsPage;
 }
 
 interface TutorDetailClientProps {
   tutor: Tutor;
   locale: string;
+  currency: CurrencyQuote;
+  // Signed-in students can message the tutor before booking
+  canMessage: boolean;
 }
 
 /**
@@ -49,8 +60,78 @@ interface TutorDetailClientProps {
 export function TutorDetailClient({
   tutor,
   locale,
+  currency,
+  canMessage,
 }: TutorDetailClientProps) {
   const t = useTranslations("tutor");
+  const router = useRouter();
+  const [openingConversation, setOpeningConversation] = useState(false);
+  const [messageError, setMessageError] = useState<string | null>(null);
+
+  const [reviews, setReviews] = useState<TutorReviewsPage>(tutor.reviews);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [loadingReviews, setLoadingReviews] = useState(false);
+  const [reviewsError, setReviewsError] = useState<string | null>(null);
+
+  const handleMessageTutor = async () => {
+    setOpeningConversation(true);
+    setMessageError(null);
+
+    try {
+      const response = await fetch("/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tutorId: tutor.profileId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start conversation");
+      }
+
+      router.push(`/${locale}/messages?conversation=${data.conversation.id}`);
+    } catch (error) {
+      setMessageError(error instanceof Error ? error.message : "Failed to start conversation");
+      setOpeningConversation(false);
+    }
+  };
+
+  const fetchReviews = async (page: number, tag: string | null) => {
+    setLoadingReviews(true);
+    setReviewsError(null);
+
+    try {
+      const query = new URLSearchParams({ page: String(page) });
+      if (tag) {
+        query.set("tag", tag);
+      }
+
+      const response = await fetch(
+        `/api/tutors/${tutor.profileId}/reviews?${query}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load reviews");
+      }
+
+      setReviews(data);
+      setSelectedTag(tag);
+    } catch (err) {
+      setReviewsError(
+        err instanceof Error ? err.message : "Failed to load reviews"
+      );
+    } finally {
+      setLoadingReviews(false);
+    }
+  };
+
+  const formatReviewDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
 
   const dayNames = [
     t("days.sunday"),
@@ -141,7 +222,7 @@ export function TutorDetailClient({
                     {t("priceRange")}
                   </div>
                   <div className="text-xl font-bold text-black dark:text-white">
-                    ${tutor.hourlyRate}
+                    {formatPrice(tutor.hourlyRate, currency, locale)}
                     <span className="text-base text-[#888] dark:text-[#a1a1aa]">
                       {t("hourly")}
                     </span>
@@ -149,6 +230,23 @@ export function TutorDetailClient({
                 </div>
               </div>
 
+              {/* Session prices */}
+              <div className="flex flex-wrap gap-3">
+                {tutor.priceOptions.map((option) => (
+                  <div
+                    key={option.duration}
+                    className="px-4 py-2 bg-white/80 dark:bg-[#1a1a1a]/80 backdrop-blur-sm border border-[#e5e5e5] dark:border-[#262626] rounded-full text-sm text-black dark:text-white"
+                  >
+                    {t("sessionPrice", { duration: option.duration, price: formatPrice(option.price, currency, locale) })}
+                  </div>
+                ))}
+                {tutor.trialPrice !== null && (
+                  <div className="px-4 py-2 bg-accent/10 border border-accent/30 rounded-full text-sm font-medium text-black dark:text-white">
+                    {t("trialLesson", { price: formatPrice(tutor.trialPrice, currency, locale) })}
+                  </div>
+                )}
+              </div>
+
               {/* Specialties */}
               <div className="flex flex-wrap gap-3">
                 {tutor.specialties.map((specialty, index) => (
@@ -162,15 +260,32 @@ export function TutorDetailClient({
                 ))}
               </div>
 
-              {/* CTA Button */}
-              <Link href={`/${locale}/tutors/${tutor.slug}/book`}>
-                <Button
-                  size="lg"
-                  className="w-full md:w-auto bg-[#111] dark:bg-accent text-white dark:text-black px-10 py-6 rounded-full font-semibold text-base transition-all duration-300 hover:-translate-y-1 hover:shadow-[0_12px_24px_rgba(0,0,0,0.2)] hover:bg-[#222] dark:hover:bg-brand-primary-light"
-                >
-                  {t("bookSession")}
-                </Button>
-              </Link>
+              {/* CTA Buttons */}
+              <div className="flex flex-col md:flex-row gap-3">
+                <Link href={`/${locale}/tutors/${tutor.slug}/book`}>
+                  <Button
+                    size="lg"
+                    className="w-full md:w-auto bg-[#111] dark:bg-accent text-white dark:text-black px-10 py-6 rounded-full font-semibold text-base transition-all duration-300 hover:-translate-y-1 hover:shadow-[0_12px_24px_rgba(0,0,0,0.2)] hover:bg-[#222] dark:hover:bg-brand-primary-light"
+                  >
+                    {t("bookSession")}
+                  </Button>
+                </Link>
+                {canMessage && (
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={handleMessageTutor}
+                    disabled={openingConversation}
+                    className="w-full md:w-auto px-10 py-6 rounded-full font-semibold text-base border-[#e5e5e5] dark:border-[#262626]"
+                  >
+                    <MessageSquare className="w-5 h-5 mr-2" />
+                    {t("messageTutor")}
+                  </Button>
+                )}
+              </div>
+              {messageError && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">{messageError}</p>
+              )}
             </div>
           </div>
         </div>
@@ -218,15 +333,55 @@ export function TutorDetailClient({
         {/* Reviews Section */}
         <div className="mt-8 bg-white dark:bg-gradient-to-b from-[#1a1a1a] to-[#121212] rounded-[32px] p-6 sm:p-8 md:p-12 border border-[#e5e5e5] dark:border-[#262626] shadow-[0_20px_40px_rgba(0,0,0,0.08)]">
           <h2 className="text-2xl font-bold mb-6 text-black dark:text-white">
-            {t("reviews")} ({tutor.reviews.length})
+            {t("reviews")} ({reviews.totalReviews})
           </h2>
-          {tutor.reviews.length === 0 ? (
+
+          {/* Tag Filters */}
+          {reviews.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              <button
+                type="button"
+                onClick={() => fetchReviews(1, null)}
+                disabled={loadingReviews}
+                className={`px-4 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                  selectedTag === null
+                    ? "bg-accent text-black border-accent"
+                    : "bg-white/80 dark:bg-[#1a1a1a]/80 text-[#666] dark:text-[#a1a1aa] border-[#e5e5e5] dark:border-[#262626] hover:border-accent"
+                }`}
+              >
+                {t("allReviews")}
+              </button>
+              {reviews.tags.map((tag) => (
+                <button
+                  key={tag.name}
+                  type="button"
+                  onClick={() => fetchReviews(1, tag.name)}
+                  disabled={loadingReviews}
+                  className={`px-4 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                    selectedTag === tag.name
+                      ? "bg-accent text-black border-accent"
+                      : "bg-white/80 dark:bg-[#1a1a1a]/80 text-[#666] dark:text-[#a1a1aa] border-[#e5e5e5] dark:border-[#262626] hover:border-accent"
+                  }`}
+                >
+                  {tag.name} ({tag.count})
+                </button>
+              ))}
+            </div>
+          )}
+
+          {reviewsError && (
+            <p className="mb-4 text-sm text-error">{reviewsError}</p>
+          )}
+
+          {reviews.reviews.length === 0 ? (
             <p className="text-[#666] dark:text-[#a1a1aa]">
               {t("noReviewsYet")}
             </p>
           ) : (
-            <div className="space-y-6">
-              {tutor.reviews.map((review) => (
+            <div
+              className={`space-y-6 transition-opacity ${loadingReviews ? "opacity-50" : ""}`}
+            >
+              {reviews.reviews.map((review) => (
                 <div
                   key={review.id}
                   className="border border-[#e5e5e5] dark:border-[#262626] rounded-2xl p-6 bg-[#fafafa] dark:bg-[#1a1a1a]"
@@ -251,14 +406,7 @@ export function TutorDetailClient({
                           {review.studentName || "Anonymous"}
                         </p>
                         <p className="text-sm text-[#666] dark:text-[#a1a1aa]">
-                          {new Date(review.createdAt).toLocaleDateString(
-                            locale === "es" ? "es-ES" : "en-US",
-                            {
-                              year: "numeric",
-                              month: "long",
-                              day: "numeric",
-                            }
-                          )}
+                          {formatReviewDate(review.createdAt)}
                         </p>
                       </div>
                     </div>
@@ -292,10 +440,54 @@ export function TutorDetailClient({
                       ))}
                     </div>
                   )}
+                  {review.tutorReply && (
+                    <div className="mt-4 ml-4 pl-4 border-l-2 border-accent/50">
+                      <p className="flex items-center gap-2 text-sm font-semibold text-black dark:text-white mb-1">
+                        <MessageSquare className="w-4 h-4 text-accent" />
+                        {t("tutorReply", { name: tutor.name })}
+                      </p>
+                      <p className="text-sm text-[#666] dark:text-[#a1a1aa] whitespace-pre-line">
+                        {review.tutorReply}
+                      </p>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           )}
+
+          {/* Pagination */}
+          {reviews.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <Button
+                variant="outline"
+                onClick={() => fetchReviews(reviews.pagination.page - 1, selectedTag)}
+                disabled={loadingReviews || reviews.pagination.page <= 1}
+                className="rounded-full"
+              >
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                {t("previousPage")}
+              </Button>
+              <span className="text-sm text-[#666] dark:text-[#a1a1aa]">
+                {t("pageOf", {
+                  page: reviews.pagination.page,
+                  totalPages: reviews.pagination.totalPages,
+                })}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => fetchReviews(reviews.pagination.page + 1, selectedTag)}
+                disabled={
+                  loadingReviews ||
+                  reviews.pagination.page >= reviews.pagination.totalPages
+                }
+                className="rounded-full"
+              >
+                {t("nextPage")}
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -15,6 +15,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { formatPrice, type CurrencyQuote } from "@/lib/booking/currency";
+import { ALL_LANGUAGES_FILTER } from "@/lib/student/languages";
 
 interface Tutor {
   id: string;
@@ -24,6 +26,7 @@ interface Tutor {
   specialties: string[];
   rating: number;
   hourlyRate: number;
+  trialPrice: number | null;
   totalSessions: number;
   bio: string | null;
 }
@@ -31,8 +34,11 @@ interface Tutor {
 interface TutorsListingClientProps {
   tutors: Tutor[];
   locale: string;
+  currency: CurrencyQuote;
   search: string;
   language: string;
+  // Student's primary language, applied when the URL has no language
+  defaultLanguage?: string;
   minPrice?: number;
   maxPrice?: number;
   minRating?: number;
@@ -51,8 +57,10 @@ interface TutorsListingClientProps {
 export function TutorsListingClient({
   tutors,
   locale,
+  currency,
   search: initialSearch,
   language: initialLanguage,
+  defaultLanguage,
   minPrice: initialMinPrice,
   maxPrice: initialMaxPrice,
   minRating: initialMinRating,
@@ -81,6 +89,7 @@ export function TutorsListingClient({
     const params = new URLSearchParams();
     if (search) params.set("search", search);
     if (language) params.set("language", language);
+    else if (defaultLanguage) params.set("language", ALL_LANGUAGES_FILTER);
     if (minPrice) params.set("minPrice", minPrice);
     if (maxPrice) params.set("maxPrice", maxPrice);
     if (minRating) params.set("minRating", minRating);
@@ -95,7 +104,11 @@ export function TutorsListingClient({
     setMinPrice("");
     setMaxPrice("");
     setMinRating("");
-    router.push(`/${locale}/tutors`);
+    router.push(
+      defaultLanguage
+        ? `/${locale}/tutors?language=${ALL_LANGUAGES_FILTER}`
+        : `/${locale}/tutors`
+    );
   };
 
   const goToPage = (page: number) => {
@@ -346,7 +359,7 @@ export function TutorsListingClient({
                         </span>
                       </div>
                       <span className="text-sm font-semibold text-black dark:text-white">
-                        ${tutor.hourlyRate}
+                        {formatPrice(tutor.hourlyRate, currency, locale)}
                         <span className="text-xs text-[#888] dark:text-[#a1a1aa]">
                           {t("hourly")}
                         </span>
@@ -358,6 +371,13 @@ export function TutorsListingClient({
                       <Users className="w-3.5 h-3.5" />
                       <span>{tutor.totalSessions}+ {t("sessions")}</span>
                       </div>
+
+                      {/* Trial lesson */}
+                      {tutor.trialPrice !== null && (
+                        <div className="text-xs font-semibold text-accent">
+                          {t("trialLesson", { price: formatPrice(tutor.trialPrice, currency, locale) })}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </Link>
@@ -0,0 +1,411 @@
+"use client";
+
+/**
+ * Local Video Call Client Component
+ *
+ * Loopback call interface used with the local video provider, for
+ * development and automated tests without Stream credentials.
+ * Participants connect peer-to-peer over WebRTC, signalled through a
+ * BroadcastChannel, so both must be open in the same browser (e.g. the
+ * student and tutor in two tabs or browser contexts of one profile).
+ *
+ * Calls still work without a camera or microphone; the tiles just show
+ * the participant's avatar.
+ *
+ * Joins, leaves and the end of the call are reported to the video webhook
+ * (authenticated with the local video token), like Stream does server-side.
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Clock,
+  User,
+  Mic,
+  MicOff,
+  Video,
+  VideoOff,
+  PhoneOff,
+  FlaskConical,
+} from "lucide-react";
+import { SessionRecordingControls } from "@/components/video/SessionRecordingControls";
+
+interface OtherParticipant {
+  id: string;
+  name: string;
+  image: string | null;
+}
+
+interface LocalVideoCallClientProps {
+  callId: string;
+  bookingId: string;
+  userId: string;
+  otherParticipant: OtherParticipant;
+  isTutor: boolean;
+  callDuration: number;
+  formatDuration: (seconds: number) => string;
+  onJoined: () => void;
+  onLeave: () => Promise<void>;
+}
+
+type SignalMessage =
+  | { type: "hello"; from: string }
+  | { type: "offer" | "answer"; from: string; description: RTCSessionDescriptionInit }
+  | { type: "candidate"; from: string; candidate: RTCIceCandidateInit }
+  | { type: "bye"; from: string };
+
+type LifecycleEventType = "participant.joined" | "participant.left" | "call.ended";
+
+/**
+ * Fetch a local video token for reporting lifecycle events
+ */
+async function fetchVideoToken(): Promise<string | null> {
+  try {
+    const response = await fetch("/api/video/token", { credentials: "include" });
+    if (!response.ok) {
+      return null;
+    }
+    const data = await response.json();
+    return typeof data.token === "string" ? data.token : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Report a call lifecycle event to the video webhook
+ * (keepalive so leave events still go out while the page unloads)
+ */
+function reportLifecycleEvent(
+  token: string | null,
+  type: LifecycleEventType,
+  callId: string,
+  userId: string
+): Promise<unknown> {
+  if (!token) {
+    return Promise.resolve();
+  }
+
+  return fetch("/api/video/webhook", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ type, callId, userId }),
+    keepalive: true,
+  }).catch((error) => {
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error reporting call event:", error);
+    }
+  });
+}
+
+/**
+ * Attach a media stream to a video element
+ */
+function MediaStreamVideo({ stream, muted }: { stream: MediaStream; muted?: boolean }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      playsInline
+      muted={muted}
+      className="h-full w-full object-cover"
+    />
+  );
+}
+
+export function LocalVideoCallClient({
+  callId,
+  bookingId,
+  userId,
+  otherParticipant,
+  isTutor,
+  callDuration,
+  formatDuration,
+  onJoined,
+  onLeave,
+}: LocalVideoCallClientProps) {
+  const t = useTranslations("videoCall");
+
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [isAudioEnabled, setIsAudioEnabled] = useState(true);
+  const [isVideoEnabled, setIsVideoEnabled] = useState(true);
+  const onJoinedRef = useRef(onJoined);
+  const tokenRef = useRef<string | null>(null);
+
+  // Join the call: open local media, then signal other tabs
+  useEffect(() => {
+    let mounted = true;
+    let stream: MediaStream | null = null;
+    let peer: RTCPeerConnection | null = null;
+    const channel = new BroadcastChannel(`linglix-call-${callId}`);
+
+    const post = (message: SignalMessage) => channel.postMessage(message);
+
+    const createPeer = () => {
+      peer?.close();
+      const connection = new RTCPeerConnection();
+
+      stream?.getTracks().forEach((track) => connection.addTrack(track, stream!));
+
+      connection.onicecandidate = (event) => {
+        if (event.candidate) {
+          post({ type: "candidate", from: userId, candidate: event.candidate.toJSON() });
+        }
+      };
+      connection.ontrack = (event) => {
+        if (mounted) {
+          setRemoteStream(event.streams[0] ?? new MediaStream([event.track]));
+        }
+      };
+
+      peer = connection;
+      return connection;
+    };
+
+    channel.onmessage = async ({ data }: MessageEvent<SignalMessage>) => {
+      // Ignore our own messages from another tab
+      if (!mounted || data.from === userId) {
+        return;
+      }
+
+      try {
+        switch (data.type) {
+          case "hello": {
+            // Exactly one side makes the offer; the other greets back so a
+            // participant who was already waiting gets to offer
+            if (userId < data.from) {
+              const connection = createPeer();
+              await connection.setLocalDescription(await connection.createOffer());
+              post({ type: "offer", from: userId, description: connection.localDescription!.toJSON() });
+            } else {
+              post({ type: "hello", from: userId });
+            }
+            break;
+          }
+          case "offer": {
+            const connection = createPeer();
+            await connection.setRemoteDescription(data.description);
+            await connection.setLocalDescription(await connection.createAnswer());
+            post({ type: "answer", from: userId, description: connection.localDescription!.toJSON() });
+            break;
+          }
+          case "answer":
+            await peer?.setRemoteDescription(data.description);
+            break;
+          case "candidate":
+            await peer?.addIceCandidate(data.candidate);
+            break;
+          case "bye":
+            peer?.close();
+            peer = null;
+            setRemoteStream(null);
+            break;
+        }
+      } catch (error) {
+        if (process.env.NODE_ENV === "development") {
+          console.error("Local call signalling error:", error);
+        }
+      }
+    };
+
+    const join = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      } catch (error) {
+        // No devices (or permission denied) - join without media
+        if (process.env.NODE_ENV === "development") {
+          console.warn("Local call joined without camera/microphone:", error);
+        }
+      }
+
+      if (!mounted) {
+        stream?.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      setLocalStream(stream);
+      setIsAudioEnabled(!!stream?.getAudioTracks().length);
+      setIsVideoEnabled(!!stream?.getVideoTracks().length);
+      onJoinedRef.current();
+      post({ type: "hello", from: userId });
+
+      tokenRef.current = await fetchVideoToken();
+      if (mounted) {
+        reportLifecycleEvent(tokenRef.current, "participant.joined", callId, userId);
+      }
+    };
+
+    join();
+
+    return () => {
+      mounted = false;
+      reportLifecycleEvent(tokenRef.current, "participant.left", callId, userId);
+      post({ type: "bye", from: userId });
+      channel.close();
+      peer?.close();
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [callId, userId]);
+
+  const toggleAudio = () => {
+    const enabled = !isAudioEnabled;
+    localStream?.getAudioTracks().forEach((track) => (track.enabled = enabled));
+    setIsAudioEnabled(enabled);
+  };
+
+  const toggleVideo = () => {
+    const enabled = !isVideoEnabled;
+    localStream?.getVideoTracks().forEach((track) => (track.enabled = enabled));
+    setIsVideoEnabled(enabled);
+  };
+
+  // Tutor ends the session: the booking is ended first so the end-call
+  // refund rules apply, then the call end is recorded for attendance
+  const handleLeave = async () => {
+    const token = tokenRef.current;
+    await onLeave();
+    await reportLifecycleEvent(token, "call.ended", callId, userId);
+  };
+
+  const isConnected = !!remoteStream;
+
+  const recordingStreams = useMemo(
+    () => [remoteStream, localStream].filter((stream): stream is MediaStream => !!stream),
+    [remoteStream, localStream]
+  );
+
+  const renderAvatar = () => (
+    <div className="h-full w-full flex items-center justify-center bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a]">
+      <div className="w-32 h-32 rounded-full bg-gradient-to-br from-[#FFE600] to-[#FFD700] flex items-center justify-center border-4 border-accent/30 shadow-2xl">
+        <User className="w-16 h-16 text-black" />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-screen bg-[#0a0a0a] dark:bg-[#000000]">
+      {/* Header */}
+      <header className="flex items-center justify-between p-4 sm:p-6 bg-white/98 dark:bg-[#1a1a1a]/98 backdrop-blur-xl border-b border-[#e5e5e5] dark:border-[#262626] z-10 shadow-lg">
+        <div>
+          <h1 className="font-semibold text-base sm:text-lg text-black dark:text-white">
+            {otherParticipant.name}
+          </h1>
+          <p className="text-xs text-[#666] dark:text-[#aaa] flex items-center gap-1.5">
+            <FlaskConical className="w-3 h-3" />
+            {t("localMode")}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3 sm:gap-4">
+          <div className="flex items-center gap-2 px-4 py-2 bg-white/90 dark:bg-[#0a0a0a]/90 border border-[#e5e5e5] dark:border-[#262626] rounded-full shadow-md">
+            <Clock className="w-4 h-4 text-[#666] dark:text-[#aaa]" />
+            <span className="text-sm font-bold text-black dark:text-white tabular-nums">
+              {formatDuration(callDuration)}
+            </span>
+          </div>
+          <Badge
+            variant="outline"
+            className="bg-yellow-500/10 text-yellow-700 dark:text-yellow-300 border-yellow-500/30 shadow-md px-3 py-1.5"
+          >
+            <div className="w-2 h-2 rounded-full mr-2 bg-yellow-500 animate-pulse" />
+            {isConnected ? t("connected") : t("connecting")}
+          </Badge>
+        </div>
+      </header>
+
+      {/* Video Area */}
+      <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-4 p-4 overflow-hidden">
+        <div className="relative rounded-3xl overflow-hidden shadow-2xl border-2 border-[#262626]/50">
+          {remoteStream ? <MediaStreamVideo stream={remoteStream} /> : renderAvatar()}
+          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-4">
+            <p className="text-white font-semibold">{otherParticipant.name}</p>
+            {!isConnected && (
+              <p className="text-white/70 text-xs">
+                {t("waitingFor", { name: otherParticipant.name })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="relative rounded-3xl overflow-hidden shadow-2xl border-2 border-[#262626]/50">
+          {localStream && isVideoEnabled ? <MediaStreamVideo stream={localStream} muted /> : renderAvatar()}
+          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-4 flex items-center justify-between">
+            <p className="text-white font-semibold">{t("you")}</p>
+            {!isVideoEnabled && (
+              <Badge className="bg-red-500/20 text-red-300 border-red-500/30">
+                <VideoOff className="w-3 h-3 mr-1" />
+                {t("cameraOff")}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <p className="px-4 pb-2 text-center text-xs text-white/60">{t("localModeHint")}</p>
+
+      {/* Controls */}
+      <div className="p-4 sm:p-6 bg-white/98 dark:bg-[#1a1a1a]/98 border-t border-[#e5e5e5] dark:border-[#262626] shadow-2xl">
+        <div className="flex items-center justify-center gap-3 sm:gap-4">
+          <Button
+            type="button"
+            onClick={toggleAudio}
+            size="lg"
+            variant={isAudioEnabled ? "default" : "destructive"}
+            disabled={!localStream?.getAudioTracks().length}
+            className="h-14 w-14 rounded-full"
+            aria-label={isAudioEnabled ? "Mute microphone" : "Unmute microphone"}
+          >
+            {isAudioEnabled ? <Mic className="w-6 h-6" /> : <MicOff className="w-6 h-6" />}
+          </Button>
+
+          <Button
+            type="button"
+            onClick={toggleVideo}
+            size="lg"
+            variant={isVideoEnabled ? "default" : "destructive"}
+            disabled={!localStream?.getVideoTracks().length}
+            className="h-14 w-14 rounded-full"
+            aria-label={isVideoEnabled ? "Turn off camera" : "Turn on camera"}
+          >
+            {isVideoEnabled ? <Video className="w-6 h-6" /> : <VideoOff className="w-6 h-6" />}
+          </Button>
+
+          <SessionRecordingControls
+            bookingId={bookingId}
+            isTutor={isTutor}
+            otherParticipantName={otherParticipant.name}
+            streams={recordingStreams}
+          />
+
+          {/* Leave Call - Only for tutors */}
+          {isTutor && (
+            <Button
+              type="button"
+              onClick={handleLeave}
+              size="lg"
+              variant="destructive"
+              className="h-14 w-14 rounded-full bg-red-500 hover:bg-red-600 text-white"
+              aria-label="End call"
+            >
+              <PhoneOff className="w-6 h-6" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
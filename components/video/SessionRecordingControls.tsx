@@ -0,0 +1,298 @@
+"use client";
+
+/**
+ * Session Recording Controls
+ *
+ * Opt-in recording for a session call, shown in the call controls:
+ * - Each participant gives (or withdraws) their own consent
+ * - Either participant can record once both consented; the recording is
+ *   made in their browser and uploaded to blob storage when it stops
+ * - Both participants see when a recording is in progress
+ * - If either participant withdraws consent, the recording is discarded
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { upload } from "@vercel/blob/client";
+import { Button } from "@/components/ui/button";
+import { Circle, Loader2, Square } from "lucide-react";
+import {
+  getRecordingMimeType,
+  startSessionRecorder,
+  type RecordedSession,
+  type SessionRecorder,
+} from "@/lib/video/recorder";
+import type { RecordingState } from "@/lib/booking/recordings";
+
+interface SessionRecordingControlsProps {
+  bookingId: string;
+  isTutor: boolean;
+  otherParticipantName: string;
+  streams: MediaStream[]; // The call's current media streams (both participants)
+}
+
+const RECORDING_STATE_POLL_INTERVAL = 5 * 1000;
+
+/**
+ * Update the recording state (keepalive so stopping still goes out when
+ * leaving the call)
+ */
+async function updateRecordingState(
+  bookingId: string,
+  update: { consent?: boolean; recording?: boolean }
+): Promise<RecordingState> {
+  const response = await fetch(`/api/bookings/${bookingId}/recording`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(update),
+    keepalive: true,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to update recording");
+  }
+  return data;
+}
+
+/**
+ * Upload a finished recording and register it with the booking
+ *
+ * Not tied to the component, so a recording stopped by leaving the call
+ * still finishes uploading after navigating back to the dashboard.
+ */
+async function saveRecording(bookingId: string, recorded: RecordedSession) {
+  const extension = recorded.contentType === "video/mp4" ? "mp4" : "webm";
+  const blob = await upload(
+    `recordings/${bookingId}/${Date.now()}.${extension}`,
+    recorded.blob,
+    {
+      access: "public",
+      handleUploadUrl: "/api/upload/recording",
+      clientPayload: JSON.stringify({ bookingId }),
+      contentType: recorded.contentType,
+      multipart: true,
+    }
+  );
+
+  const response = await fetch(`/api/bookings/${bookingId}/recordings`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      url: blob.url,
+      contentType: recorded.contentType,
+      size: recorded.blob.size,
+      durationSeconds: recorded.durationSeconds,
+    }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to save recording");
+  }
+}
+
+export function SessionRecordingControls({
+  bookingId,
+  isTutor,
+  otherParticipantName,
+  streams,
+}: SessionRecordingControlsProps) {
+  const t = useTranslations("videoCall");
+
+  const [state, setState] = useState<RecordingState | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSupported, setIsSupported] = useState(false);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+
+  const myConsent = state ? (isTutor ? state.consent.tutor : state.consent.student) : false;
+  const otherConsent = state ? (isTutor ? state.consent.student : state.consent.tutor) : false;
+  const bothConsented = myConsent && otherConsent;
+
+  const discardRecording = useCallback(() => {
+    if (recorderRef.current) {
+      recorderRef.current.cancel();
+      recorderRef.current = null;
+      setIsRecording(false);
+      setNotice(t("recordingDiscarded"));
+    }
+  }, [t]);
+
+  const stopAndSave = useCallback(
+    (recorder: SessionRecorder) => {
+      updateRecordingState(bookingId, { recording: false }).catch(() => {});
+
+      return recorder
+        .stop()
+        .then((recorded) => saveRecording(bookingId, recorded))
+        .then(() => true)
+        .catch((error) => {
+          if (process.env.NODE_ENV === "development") {
+            console.error("Error saving recording:", error);
+          }
+          return false;
+        });
+    },
+    [bookingId]
+  );
+
+  // MediaRecorder support is only known in the browser
+  useEffect(() => {
+    setIsSupported(!!getRecordingMimeType());
+  }, []);
+
+  // Poll the shared state so consent changes and recordings made by the
+  // other participant show up
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const fetchState = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/recording`, {
+          signal: abortController.signal,
+        });
+        if (!response.ok) return;
+        setState(await response.json());
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          return; // Request was aborted, ignore
+        }
+      }
+    };
+
+    fetchState();
+    const interval = setInterval(fetchState, RECORDING_STATE_POLL_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      abortController.abort();
+    };
+  }, [bookingId]);
+
+  // Consent withdrawn by either participant
+  useEffect(() => {
+    if (state && !bothConsented) {
+      discardRecording();
+    }
+  }, [state, bothConsented, discardRecording]);
+
+  // Participants joining, leaving or sharing their screen
+  useEffect(() => {
+    recorderRef.current?.setStreams(streams);
+  }, [streams]);
+
+  // Leaving the call stops the recording and saves it
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      if (recorder) {
+        stopAndSave(recorder);
+      }
+    };
+  }, [stopAndSave]);
+
+  const toggleConsent = async () => {
+    setIsUpdating(true);
+    setNotice(null);
+    try {
+      if (myConsent) {
+        discardRecording();
+      }
+      setState(await updateRecordingState(bookingId, { consent: !myConsent }));
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : t("recordingFailed"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const toggleRecording = async () => {
+    setNotice(null);
+
+    if (recorderRef.current) {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      setIsRecording(false);
+      setIsUpdating(true);
+      setNotice(t("recordingSaving"));
+      const saved = await stopAndSave(recorder);
+      setNotice(saved ? t("recordingSaved") : t("recordingFailed"));
+      setIsUpdating(false);
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      recorderRef.current = startSessionRecorder(streams);
+      setIsRecording(true);
+      setState(await updateRecordingState(bookingId, { recording: true }));
+    } catch (error) {
+      recorderRef.current?.cancel();
+      recorderRef.current = null;
+      setIsRecording(false);
+      setNotice(error instanceof Error ? error.message : t("recordingFailed"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (!isSupported) {
+    return null;
+  }
+
+  const status = state?.recording
+    ? t("recordingInProgress")
+    : bothConsented
+    ? null
+    : myConsent
+    ? t("recordingWaitingForConsent", { name: otherParticipantName })
+    : otherConsent
+    ? t("recordingRequested", { name: otherParticipantName })
+    : null;
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={toggleConsent}
+          disabled={!state || isUpdating}
+          className="rounded-full"
+        >
+          {myConsent ? t("recordingConsentWithdraw") : t("recordingConsentGive")}
+        </Button>
+        <Button
+          type="button"
+          size="lg"
+          onClick={toggleRecording}
+          disabled={!bothConsented || isUpdating || (!!state?.recording && !isRecording)}
+          className={`h-14 w-14 rounded-full ${
+            isRecording ? "bg-red-500 hover:bg-red-600 text-white" : ""
+          }`}
+          aria-label={isRecording ? t("recordingStop") : t("recordingStart")}
+        >
+          {isUpdating ? (
+            <Loader2 className="w-6 h-6 animate-spin" />
+          ) : isRecording ? (
+            <Square className="w-6 h-6" />
+          ) : (
+            <Circle className="w-6 h-6 text-red-500" />
+          )}
+        </Button>
+      </div>
+      {(status || notice) && (
+        <p className="text-xs text-[#666] dark:text-[#aaa] flex items-center gap-1.5">
+          {state?.recording && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />}
+          {notice ?? status}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,13 +3,17 @@
 /**
  * Video Call Client Component
  * 
- * Production-ready video call interface using Stream Video SDK.
+ * Production-ready video call interface using Stream Video SDK, or the
+ * local loopback call when the local video provider is configured.
  * Features:
  * - Join/leave call functionality
  * - Audio/video controls
  * - Screen sharing
  * - Participant view
  * - Call status and timer
+ * - Opt-in session recording (both participants must consent)
+ * - Lesson notes, vocabulary and homework panel
+ * - Shared notes both participants write in real time
  * - Error handling and recovery
  * - Responsive design matching Linglix style
  * 
@@ -17,7 +21,7 @@
  * https://getstream.io/video/docs/react/
  */
 
-import { useEffect, useState, useCallback, useRef } from "react";
+import { useEffect, useState, useCallback, useRef, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
 import {
@@ -48,6 +52,12 @@ import {
 import Image from "next/image";
 import { InCallChat } from "@/components/chat/InCallChat";
 import { useStreamChatClient } from "@/components/chat/StreamChatProvider";
+import { LocalVideoCallClient } from "@/components/video/LocalVideoCallClient";
+import { SessionRecordingControls } from "@/components/video/SessionRecordingControls";
+import { InCallLessonMaterials } from "@/components/lessons/LessonMaterials";
+import { InCallSharedNotes } from "@/components/lessons/SharedNotes";
+import type { VideoProviderName } from "@/lib/video/provider";
+import type { BookingRole } from "@/lib/booking/validation";
 
 // Import Stream CSS for default styling
 import "@stream-io/video-react-sdk/dist/css/styles.css";
@@ -67,18 +77,121 @@ interface OtherParticipant {
 }
 
 interface VideoCallClientProps {
+  provider: VideoProviderName;
   callId: string;
   locale: string;
   user: User;
   otherParticipant: OtherParticipant;
   isTutor: boolean;
+  role: BookingRole;
   bookingId: string;
 }
 
+/**
+ * Mark the call as ended in the database (tutor only)
+ */
+async function endBookingCall(bookingId: string) {
+  try {
+    await fetch(`/api/bookings/${bookingId}/end-call`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (err) {
+    // Log error but continue with leaving the call
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error ending call in database:", err);
+    }
+  }
+}
+
+// Format duration as MM:SS
+function formatDuration(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
 /**
  * Main Video Call Client Component
+ * Renders the call for the configured video provider
+ */
+export function VideoCallClient(props: VideoCallClientProps) {
+  return (
+    <>
+      {props.provider === "local" ? (
+        <LocalVideoCall {...props} />
+      ) : (
+        <StreamVideoCall {...props} />
+      )}
+      <InCallLessonMaterials
+        bookingId={props.bookingId}
+        role={props.role}
+        locale={props.locale}
+      />
+      <InCallSharedNotes bookingId={props.bookingId} />
+    </>
+  );
+}
+
+/**
+ * Local loopback call (development and automated tests)
+ */
+function LocalVideoCall({
+  callId,
+  locale,
+  user,
+  otherParticipant,
+  isTutor,
+  bookingId,
+}: VideoCallClientProps) {
+  const router = useRouter();
+  const [callDuration, setCallDuration] = useState(0);
+  const callStartTimeRef = useRef<Date | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (callStartTimeRef.current) {
+        setCallDuration(
+          Math.floor((Date.now() - callStartTimeRef.current.getTime()) / 1000)
+        );
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleJoined = useCallback(() => {
+    callStartTimeRef.current = new Date();
+  }, []);
+
+  const handleLeaveCall = useCallback(async () => {
+    if (isTutor && bookingId) {
+      await endBookingCall(bookingId);
+    }
+    router.push(`/${locale}/dashboard`);
+  }, [router, locale, isTutor, bookingId]);
+
+  return (
+    <LocalVideoCallClient
+      callId={callId}
+      bookingId={bookingId}
+      userId={user.id}
+      otherParticipant={otherParticipant}
+      isTutor={isTutor}
+      callDuration={callDuration}
+      formatDuration={formatDuration}
+      onJoined={handleJoined}
+      onLeave={handleLeaveCall}
+    />
+  );
+}
+
+/**
+ * Stream Video call
  */
-export function VideoCallClient({
+function StreamVideoCall({
   callId,
   locale,
   user,
@@ -203,19 +316,7 @@ export function VideoCallClient({
     try {
       // If tutor is ending the call, mark it as ended in the database
       if (isTutor && bookingId) {
-        try {
-          await fetch(`/api/bookings/${bookingId}/end-call`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-          });
-        } catch (err) {
-          // Log error but continue with leaving the call
-          if (process.env.NODE_ENV === "development") {
-            console.error("Error ending call in database:", err);
-          }
-        }
+        await endBookingCall(bookingId);
       }
 
       // Leave the Stream call
@@ -232,13 +333,6 @@ export function VideoCallClient({
     }
   }, [call, router, locale, isTutor, bookingId]);
 
-  // Format duration as MM:SS
-  const formatDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
-  };
-
   // Check if Stream is configured
   if (!streamClient) {
     // If client is not available, it might be because Stream is not configured
@@ -335,6 +429,7 @@ export function VideoCallClient({
   return (
     <StreamCall call={call}>
       <VideoCallUI
+        bookingId={bookingId}
         otherParticipant={otherParticipant}
         isTutor={isTutor}
         callDuration={callDuration}
@@ -359,6 +454,7 @@ export function VideoCallClient({
  * Renders the actual call interface with participants and controls
  */
 interface VideoCallUIProps {
+  bookingId: string;
   otherParticipant: OtherParticipant;
   isTutor: boolean;
   callDuration: number;
@@ -368,6 +464,7 @@ interface VideoCallUIProps {
 }
 
 function VideoCallUI({
+  bookingId,
   otherParticipant,
   isTutor,
   callDuration,
@@ -406,6 +503,17 @@ function VideoCallUI({
 
   // Get the actual remote participant from Stream SDK
   const remoteParticipant = participants.find((p) => !p.isLocalParticipant);
+
+  // Media streams for session recording
+  const recordingStreams = useMemo(
+    () =>
+      participants.flatMap((p) =>
+        [p.videoStream, p.screenShareStream, p.audioStream].filter(
+          (stream): stream is MediaStream => !!stream
+        )
+      ),
+    [participants]
+  );
   
   // For header display, prefer booking data (more reliable) but use Stream data as fallback
   // Booking data is always correct because it comes from the database relationship
@@ -610,6 +718,14 @@ function VideoCallUI({
             </Button>
           )}
 
+          {/* Session Recording */}
+          <SessionRecordingControls
+            bookingId={bookingId}
+            isTutor={isTutor}
+            otherParticipantName={otherParticipant.name}
+            streams={recordingStreams}
+          />
+
           {/* Leave Call - Only for tutors */}
           {isTutor && (
             <Button
@@ -2,6 +2,8 @@ import { prisma } from "@/lib/db/prisma";
 import bcrypt from "bcryptjs";
 import { Role } from "@prisma/client";
 import { z } from "zod";
+import { locales } from "@/config/i18n/config";
+import { isValidTimeZone } from "@/lib/utils/timezone";
 
 /**
  * Authentication utility functions
@@ -15,6 +17,9 @@ export const registerSchema = z.object({
   password: z.string().min(8, "Password must be at least 8 characters"),
   name: z.string().min(2, "Name must be at least 2 characters").optional(),
   role: z.enum(["STUDENT", "TUTOR"]).default("STUDENT"),
+  // Language of the sign-up page and the browser timezone, used for emails
+  locale: z.enum(locales).optional(),
+  timezone: z.string().refine(isValidTimeZone, { message: "Invalid timezone" }).optional(),
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
@@ -59,12 +64,15 @@ export async function registerUser(data: RegisterInput) {
       password: hashedPassword,
       name: validatedData.name,
       role: validatedData.role as Role,
+      ...(validatedData.locale && { locale: validatedData.locale }),
+      ...(validatedData.timezone && { timezone: validatedData.timezone }),
     },
     select: {
       id: true,
       email: true,
       name: true,
       role: true,
+      locale: true,
       image: true,
       createdAt: true,
     },
@@ -0,0 +1,225 @@
+/**
+ * Session Attendance Utilities
+ *
+ * Tracks who was actually in a session call, from the video provider's
+ * lifecycle events (see lib/video):
+ * - One CallAttendance row per join, closed when the participant leaves
+ * - Attended minutes derived from the join/leave times
+ * - Bookings auto-complete when the call ends and both parties attended
+ *
+ * Admins observing a call are not tracked.
+ */
+
+import { BookingStatus } from "@prisma/client";
+import type { Booking, CallAttendance, Prisma, PrismaClient } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+import type { VideoCallEvent } from "@/lib/video/provider";
+
+type AttendanceInterval = Pick<CallAttendance, "userId" | "joinedAt" | "leftAt">;
+
+/**
+ * A participant's time in the call as non-overlapping [start, end] ms ranges
+ * (rejoins from a second device overlap). Open attendances run until `until`.
+ */
+function getPresence(
+  attendances: AttendanceInterval[],
+  userId: string,
+  until: Date
+): [number, number][] {
+  const ranges = attendances
+    .filter((attendance) => attendance.userId === userId)
+    .map((attendance): [number, number] => [
+      attendance.joinedAt.getTime(),
+      Math.max(attendance.joinedAt.getTime(), (attendance.leftAt ?? until).getTime()),
+    ])
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+function toMinutes(ms: number): number {
+  return Math.round(ms / (60 * 1000));
+}
+
+/**
+ * Minutes a participant spent in the call
+ */
+export function getParticipantMinutes(
+  attendances: AttendanceInterval[],
+  userId: string,
+  until: Date = new Date()
+): number {
+  return toMinutes(
+    getPresence(attendances, userId, until).reduce((sum, [start, end]) => sum + end - start, 0)
+  );
+}
+
+/**
+ * Minutes both participants were in the call together
+ */
+export function getSharedMinutes(
+  attendances: AttendanceInterval[],
+  studentId: string,
+  tutorUserId: string,
+  until: Date = new Date()
+): number {
+  const student = getPresence(attendances, studentId, until);
+  const tutor = getPresence(attendances, tutorUserId, until);
+
+  let total = 0;
+  for (const [studentStart, studentEnd] of student) {
+    for (const [tutorStart, tutorEnd] of tutor) {
+      total += Math.max(0, Math.min(studentEnd, tutorEnd) - Math.max(studentStart, tutorStart));
+    }
+  }
+
+  return toMinutes(total);
+}
+
+export interface CallEventResult {
+  booking: Booking;
+  completed: boolean; // Booking moved to COMPLETED by this event
+}
+
+/**
+ * Record a call lifecycle event against the booking it belongs to
+ *
+ * Safe to replay: a join while the participant is already in the call and a
+ * leave without an open attendance are ignored. Returns null when the call
+ * doesn't belong to a booking.
+ *
+ * @throws HttpError (403) if the event was reported by someone outside the booking
+ */
+export async function recordCallEvent(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  event: VideoCallEvent
+): Promise<CallEventResult | null> {
+  const booking = await prisma.booking.findFirst({
+    where: { callId: event.callId },
+    include: {
+      tutor: {
+        select: { userId: true },
+      },
+    },
+  });
+
+  if (!booking) {
+    return null;
+  }
+
+  const { tutor, ...bookingData } = booking;
+  const isBookingParticipant = (userId?: string) =>
+    !!userId && (userId === booking.studentId || userId === tutor.userId);
+  // Joins and leaves only count for the booking's own participants
+  const participantId =
+    event.userId && isBookingParticipant(event.userId) ? event.userId : null;
+
+  // Events reported with a user's token (any type, call.ended included) only
+  // count when that user is in the booking
+  if (event.reportedBy && !isBookingParticipant(event.reportedBy)) {
+    throw Errors.Forbidden("Cannot report events for another booking's call");
+  }
+
+  switch (event.type) {
+    case "call.started":
+      break;
+
+    case "participant.joined": {
+      if (!participantId) {
+        break;
+      }
+
+      const openAttendance = await prisma.callAttendance.findFirst({
+        where: { bookingId: booking.id, userId: participantId, leftAt: null },
+      });
+
+      if (!openAttendance) {
+        await prisma.callAttendance.create({
+          data: {
+            bookingId: booking.id,
+            userId: participantId,
+            joinedAt: event.occurredAt,
+          },
+        });
+      }
+      break;
+    }
+
+    case "participant.left":
+      if (participantId) {
+        await prisma.callAttendance.updateMany({
+          where: { bookingId: booking.id, userId: participantId, leftAt: null },
+          data: { leftAt: event.occurredAt },
+        });
+      }
+      break;
+
+    case "call.ended":
+      return await recordCallEnded(prisma, bookingData, tutor.userId, event.occurredAt);
+  }
+
+  // The first join (or the provider's session start) marks the call as started
+  if (!booking.callStartedAt && (event.type === "call.started" || participantId)) {
+    const updated = await prisma.booking.update({
+      where: { id: booking.id },
+      data: { callStartedAt: event.occurredAt },
+    });
+    return { booking: updated, completed: false };
+  }
+
+  return { booking: bookingData, completed: false };
+}
+
+/**
+ * Close open attendances, derive attended minutes and complete the booking
+ * if both parties attended
+ */
+async function recordCallEnded(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  booking: Booking,
+  tutorUserId: string,
+  endedAt: Date
+): Promise<CallEventResult> {
+  await prisma.callAttendance.updateMany({
+    where: { bookingId: booking.id, leftAt: null },
+    data: { leftAt: endedAt },
+  });
+
+  const attendances: AttendanceInterval[] = await prisma.callAttendance.findMany({
+    where: { bookingId: booking.id },
+    select: { userId: true, joinedAt: true, leftAt: true },
+  });
+
+  const bothAttended = [booking.studentId, tutorUserId].every((userId) =>
+    attendances.some((attendance) => attendance.userId === userId)
+  );
+
+  // Conditional, so a replayed event or the tutor's end-call racing this one
+  // can't complete the booking twice
+  const { count } = bothAttended
+    ? await prisma.booking.updateMany({
+        where: { id: booking.id, status: BookingStatus.CONFIRMED },
+        data: { status: BookingStatus.COMPLETED },
+      })
+    : { count: 0 };
+
+  const updated = await prisma.booking.update({
+    where: { id: booking.id },
+    data: {
+      callEndedAt: booking.callEndedAt ?? endedAt,
+      attendedMinutes: getSharedMinutes(attendances, booking.studentId, tutorUserId, endedAt),
+    },
+  });
+
+  return { booking: updated, completed: count > 0 };
+}
@@ -1,14 +1,44 @@
 /**
  * Availability Checking Service
- * 
+ *
  * Production-ready availability checking:
  * - Check tutor availability for a time slot
  * - Get available time slots for a date range
  * - Handle timezones properly
  * - Consider existing bookings
+ *
+ * Timezones:
+ * Availability windows are stored as wall-clock times ("09:00"-"17:00") in the
+ * tutor's IANA timezone (Availability.timezone). They are expanded into concrete
+ * UTC intervals per calendar date, so DST transitions shift the UTC instants
+ * while the tutor's local hours stay the same. A window whose end time is
+ * earlier than (or equal to "00:00" after) its start time crosses midnight and
+ * ends on the following day.
+ *
+ * Exceptions:
+ * Date-specific overrides (AvailabilityException) are applied on top of the
+ * weekly schedule. AVAILABLE exceptions add one-off windows, BLOCKED exceptions
+ * (time off) are cut out of every window, so a block always wins.
+ *
+ * Multiple windows per day:
+ * A tutor may have any number of windows on the same day (e.g. 08:00-11:00 and
+ * 18:00-21:00). They must not overlap; overlap is checked on the concrete UTC
+ * intervals so windows in different timezones and overnight windows compare
+ * correctly. Touching or overlapping windows on the same day can be merged,
+ * and a window can be split in two around a break.
  */
 
-import type { Availability, Booking } from "@prisma/client";
+import type { Availability, AvailabilityException, Booking } from "@prisma/client";
+import {
+  addDaysToDateKey,
+  formatMinutesAsTime,
+  getDayOfWeekForDateKey,
+  getZonedDateParts,
+  parseTimeToMinutes,
+  resolveTimeZone,
+  toDateKey,
+  zonedTimeToUtc,
+} from "@/lib/utils/timezone";
 
 /**
  * Minimal booking type for availability checking
@@ -18,6 +48,34 @@ type BookingAvailabilityCheck = Pick<
   "id" | "scheduledAt" | "duration" | "tutorId" | "status"
 >;
 
+/**
+ * Minimal availability type (weekly recurring window)
+ */
+export type AvailabilityRule = Pick<
+  Availability,
+  "dayOfWeek" | "startTime" | "endTime" | "timezone" | "isActive"
+>;
+
+/**
+ * Minimal availability exception type (date-specific override)
+ */
+export type AvailabilityExceptionRule = Pick<
+  AvailabilityException,
+  "type" | "startDate" | "endDate" | "startTime" | "endTime" | "timezone"
+>;
+
+/**
+ * Slot generation interval (in minutes)
+ */
+export const SLOT_INTERVAL_MINUTES = 30;
+
+/**
+ * Days the weekly windows are expanded over when checking overlap
+ * (more than a week, so windows wrapping from Saturday into Sunday meet
+ * the following week's windows)
+ */
+const OVERLAP_CHECK_DAYS = 14;
+
 export interface TimeSlot {
   start: Date;
   end: Date;
@@ -25,6 +83,17 @@ export interface TimeSlot {
   reason?: string;
 }
 
+export interface AvailabilityWindow {
+  start: Date;
+  end: Date;
+  timezone: string;
+}
+
+export type AvailabilityWindowTimes = Pick<
+  AvailabilityRule,
+  "dayOfWeek" | "startTime" | "endTime"
+>;
+
 export interface AvailabilityCheckResult {
   available: boolean;
   reason?: string;
@@ -32,80 +101,278 @@ export interface AvailabilityCheckResult {
 }
 
 /**
- * Check if a specific time slot is available
+ * Check if a window crosses midnight in the tutor's timezone
  */
-export function checkTimeSlotAvailability(
-  scheduledAt: Date,
-  duration: number,
-  tutorAvailability: Availability[],
-  existingBookings: BookingAvailabilityCheck[],
-  tutorId: string
-): AvailabilityCheckResult {
-  // Check if tutor has availability for this day
-  const dayOfWeek = scheduledAt.getUTCDay();
-  const dayAvailability = tutorAvailability.find(
-    (avail) => avail.dayOfWeek === dayOfWeek && avail.isActive
-  );
+export function isOvernightWindow(startTime: string, endTime: string): boolean {
+  return parseTimeToMinutes(endTime) <= parseTimeToMinutes(startTime);
+}
+
+/**
+ * Prisma filter for exceptions that can still affect bookings
+ * (ended no earlier than yesterday in UTC, to cover timezones ahead of UTC)
+ */
+export function getCurrentExceptionsFilter(now: Date = new Date()) {
+  return {
+    endDate: {
+      gte: addDaysToDateKey(toDateKey(now), -1),
+    },
+  };
+}
+
+/**
+ * Get the concrete UTC interval covered by an availability exception
+ */
+export function getExceptionInterval(exception: AvailabilityExceptionRule): {
+  start: Date;
+  end: Date;
+} {
+  const timeZone = resolveTimeZone(exception.timezone);
+
+  if (exception.type === "AVAILABLE") {
+    const startTime = exception.startTime ?? "00:00";
+    const endTime = exception.endTime ?? "00:00";
+    const overnight = isOvernightWindow(startTime, endTime);
 
-  if (!dayAvailability) {
     return {
-      available: false,
-      reason: "Tutor is not available on this day",
+      start: zonedTimeToUtc(exception.startDate, startTime, timeZone),
+      end: zonedTimeToUtc(
+        overnight ? addDaysToDateKey(exception.startDate, 1) : exception.startDate,
+        endTime,
+        timeZone
+      ),
     };
   }
 
-  // Check time is within availability window
-  const [startHour, startMinute] = dayAvailability.startTime
-    .split(":")
-    .map(Number);
-  const [endHour, endMinute] = dayAvailability.endTime.split(":").map(Number);
+  // BLOCKED - whole days unless times are given
+  return {
+    start: zonedTimeToUtc(exception.startDate, exception.startTime ?? "00:00", timeZone),
+    end: exception.endTime
+      ? zonedTimeToUtc(exception.endDate, exception.endTime, timeZone)
+      : zonedTimeToUtc(addDaysToDateKey(exception.endDate, 1), "00:00", timeZone),
+  };
+}
 
-  const bookingStart = scheduledAt;
-  const bookingEnd = new Date(scheduledAt.getTime() + duration * 60 * 1000);
+/**
+ * Get the blocked (time off) intervals that overlap the given range
+ */
+export function getBlockedIntervals(
+  rangeStart: Date,
+  rangeEnd: Date,
+  exceptions: AvailabilityExceptionRule[]
+): { start: Date; end: Date }[] {
+  return exceptions
+    .filter((exception) => exception.type === "BLOCKED")
+    .map(getExceptionInterval)
+    .filter((interval) => interval.end > rangeStart && interval.start < rangeEnd);
+}
 
-  const bookingStartMinutes =
-    bookingStart.getUTCHours() * 60 + bookingStart.getUTCMinutes();
-  const bookingEndMinutes =
-    bookingEnd.getUTCHours() * 60 + bookingEnd.getUTCMinutes();
-  const slotStartMinutes = startHour * 60 + startMinute;
-  const slotEndMinutes = endHour * 60 + endMinute;
+/**
+ * Remove blocked intervals from a window, splitting it if needed
+ */
+function subtractBlockedIntervals(
+  window: AvailabilityWindow,
+  blocked: { start: Date; end: Date }[]
+): AvailabilityWindow[] {
+  let pieces = [window];
 
-  if (
-    bookingStartMinutes < slotStartMinutes ||
-    bookingEndMinutes > slotEndMinutes
-  ) {
-    return {
-      available: false,
-      reason: `Time slot must be between ${dayAvailability.startTime} and ${dayAvailability.endTime} UTC`,
-    };
+  for (const block of blocked) {
+    pieces = pieces.flatMap((piece) => {
+      if (block.end <= piece.start || block.start >= piece.end) {
+        return [piece];
+      }
+
+      const remaining: AvailabilityWindow[] = [];
+      if (block.start > piece.start) {
+        remaining.push({ ...piece, end: block.start });
+      }
+      if (block.end < piece.end) {
+        remaining.push({ ...piece, start: block.end });
+      }
+      return remaining;
+    });
   }
 
-  // Check for conflicts with existing bookings
-  const activeBookings = existingBookings.filter(
-    (booking) =>
-      booking.tutorId === tutorId &&
-      booking.status !== "CANCELLED" &&
-      booking.status !== "REFUNDED"
-  );
+  return pieces;
+}
+
+/**
+ * Expand weekly availability rules and exceptions into concrete UTC windows
+ * that overlap the given range
+ */
+export function getAvailabilityWindows(
+  rangeStart: Date,
+  rangeEnd: Date,
+  tutorAvailability: AvailabilityRule[],
+  exceptions: AvailabilityExceptionRule[] = []
+): AvailabilityWindow[] {
+  const windows: AvailabilityWindow[] = [];
+
+  for (const rule of tutorAvailability) {
+    if (!rule.isActive) {
+      continue;
+    }
+
+    const timeZone = resolveTimeZone(rule.timezone);
+    const overnight = isOvernightWindow(rule.startTime, rule.endTime);
+    const lastDateKey = toDateKey(rangeEnd, timeZone);
+
+    // Start one day early so overnight windows from the previous day are included
+    for (
+      let dateKey = addDaysToDateKey(toDateKey(rangeStart, timeZone), -1);
+      dateKey <= lastDateKey;
+      dateKey = addDaysToDateKey(dateKey, 1)
+    ) {
+      if (getDayOfWeekForDateKey(dateKey) !== rule.dayOfWeek) {
+        continue;
+      }
+
+      const start = zonedTimeToUtc(dateKey, rule.startTime, timeZone);
+      const end = zonedTimeToUtc(
+        overnight ? addDaysToDateKey(dateKey, 1) : dateKey,
+        rule.endTime,
+        timeZone
+      );
+
+      if (end > rangeStart && start < rangeEnd) {
+        windows.push({ start, end, timezone: timeZone });
+      }
+    }
+  }
+
+  // One-off extra windows
+  for (const exception of exceptions) {
+    if (exception.type !== "AVAILABLE") {
+      continue;
+    }
+
+    const { start, end } = getExceptionInterval(exception);
+    if (end > rangeStart && start < rangeEnd) {
+      windows.push({ start, end, timezone: resolveTimeZone(exception.timezone) });
+    }
+  }
+
+  // Time off overrides everything else
+  const blocked = getBlockedIntervals(rangeStart, rangeEnd, exceptions);
+
+  return windows
+    .flatMap((window) => subtractBlockedIntervals(window, blocked))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Find an existing booking that overlaps the given interval
+ */
+function findConflictingBooking(
+  start: Date,
+  end: Date,
+  existingBookings: BookingAvailabilityCheck[],
+  tutorId: string
+): BookingAvailabilityCheck | undefined {
+  return existingBookings.find((booking) => {
+    if (
+      booking.tutorId !== tutorId ||
+      booking.status === "CANCELLED" ||
+      booking.status === "REFUNDED"
+    ) {
+      return false;
+    }
 
-  for (const booking of activeBookings) {
     const existingStart = booking.scheduledAt;
     const existingEnd = new Date(
       booking.scheduledAt.getTime() + booking.duration * 60 * 1000
     );
 
-    // Check for overlap
-    if (
-      (bookingStart >= existingStart && bookingStart < existingEnd) ||
-      (bookingEnd > existingStart && bookingEnd <= existingEnd) ||
-      (bookingStart <= existingStart && bookingEnd >= existingEnd)
-    ) {
+    return start < existingEnd && end > existingStart;
+  });
+}
+
+/**
+ * Describe the tutor's windows on the booking's day, in the tutor's timezone
+ * Returns null if the tutor has no windows on that day
+ */
+function describeDayAvailability(
+  scheduledAt: Date,
+  tutorAvailability: AvailabilityRule[]
+): string | null {
+  const dayRules = tutorAvailability.filter((rule) => {
+    if (!rule.isActive) return false;
+    const { dayOfWeek } = getZonedDateParts(scheduledAt, resolveTimeZone(rule.timezone));
+    return dayOfWeek === rule.dayOfWeek;
+  });
+
+  if (dayRules.length === 0) {
+    return null;
+  }
+
+  return dayRules
+    .map((rule) => `${rule.startTime}-${rule.endTime} (${resolveTimeZone(rule.timezone)})`)
+    .join(", ");
+}
+
+/**
+ * Check if a specific time slot is available
+ */
+export function checkTimeSlotAvailability(
+  scheduledAt: Date,
+  duration: number,
+  tutorAvailability: AvailabilityRule[],
+  existingBookings: BookingAvailabilityCheck[],
+  tutorId: string,
+  exceptions: AvailabilityExceptionRule[] = []
+): AvailabilityCheckResult {
+  const bookingStart = scheduledAt;
+  const bookingEnd = new Date(scheduledAt.getTime() + duration * 60 * 1000);
+
+  // Check time is within one of the tutor's availability windows
+  const windows = getAvailabilityWindows(
+    bookingStart,
+    bookingEnd,
+    tutorAvailability,
+    exceptions
+  );
+  const withinWindow = windows.some(
+    (window) => bookingStart >= window.start && bookingEnd <= window.end
+  );
+
+  if (!withinWindow) {
+    if (getBlockedIntervals(bookingStart, bookingEnd, exceptions).length > 0) {
+      return {
+        available: false,
+        reason: "Tutor is away during this time",
+      };
+    }
+
+    const dayAvailability = describeDayAvailability(scheduledAt, tutorAvailability);
+
+    if (!dayAvailability && windows.length === 0) {
       return {
         available: false,
-        reason: "Time slot conflicts with an existing booking",
-        conflictingBooking: booking,
+        reason: "Tutor is not available on this day",
       };
     }
+
+    return {
+      available: false,
+      reason: dayAvailability
+        ? `Time slot must be within the tutor's available hours: ${dayAvailability}`
+        : "Time slot is outside the tutor's available hours",
+    };
+  }
+
+  // Check for conflicts with existing bookings
+  const conflictingBooking = findConflictingBooking(
+    bookingStart,
+    bookingEnd,
+    existingBookings,
+    tutorId
+  );
+
+  if (conflictingBooking) {
+    return {
+      available: false,
+      reason: "Time slot conflicts with an existing booking",
+      conflictingBooking,
+    };
   }
 
   return { available: true };
@@ -113,116 +380,265 @@ export function checkTimeSlotAvailability(
 
 /**
  * Get available time slots for a specific date
+ *
+ * @param date - Calendar date (its UTC year/month/day are used)
+ * @param timeZone - Timezone the calendar date is interpreted in (the student's zone)
+ * @param exceptions - Date-specific overrides (time off and extra windows)
  */
 export function getAvailableTimeSlots(
   date: Date,
   duration: number,
-  tutorAvailability: Availability[],
+  tutorAvailability: AvailabilityRule[],
   existingBookings: BookingAvailabilityCheck[],
-  tutorId: string
+  tutorId: string,
+  timeZone: string = "UTC",
+  exceptions: AvailabilityExceptionRule[] = []
 ): TimeSlot[] {
-  const dayOfWeek = date.getUTCDay();
-  const dayAvailability = tutorAvailability.find(
-    (avail) => avail.dayOfWeek === dayOfWeek && avail.isActive
-  );
-
-  if (!dayAvailability) {
-    return [];
-  }
+  const zone = resolveTimeZone(timeZone);
+  const dateKey = toDateKey(date);
+  const dayStart = zonedTimeToUtc(dateKey, "00:00", zone);
+  const dayEnd = zonedTimeToUtc(addDaysToDateKey(dateKey, 1), "00:00", zone);
 
-  const slots: TimeSlot[] = [];
-  const [startHour, startMinute] = dayAvailability.startTime
-    .split(":")
-    .map(Number);
-  const [endHour, endMinute] = dayAvailability.endTime.split(":").map(Number);
+  const windows = getAvailabilityWindows(
+    dayStart,
+    dayEnd,
+    tutorAvailability,
+    exceptions
+  );
+  const durationMs = duration * 60 * 1000;
+  const intervalMs = SLOT_INTERVAL_MINUTES * 60 * 1000;
+  const slots = new Map<number, TimeSlot>();
 
-  const slotStartMinutes = startHour * 60 + startMinute;
-  const slotEndMinutes = endHour * 60 + endMinute;
-  const durationMinutes = duration;
+  // Generate 30-minute interval slots from the start of each window
+  for (const window of windows) {
+    for (
+      let slotStartMs = window.start.getTime();
+      slotStartMs + durationMs <= window.end.getTime();
+      slotStartMs += intervalMs
+    ) {
+      // Only keep slots starting on the requested day in the requested zone
+      if (slotStartMs < dayStart.getTime() || slotStartMs >= dayEnd.getTime()) {
+        continue;
+      }
 
-  // Generate 30-minute interval slots
-  for (
-    let currentMinutes = slotStartMinutes;
-    currentMinutes + durationMinutes <= slotEndMinutes;
-    currentMinutes += 30
-  ) {
-    const slotStart = new Date(date);
-    slotStart.setUTCHours(Math.floor(currentMinutes / 60));
-    slotStart.setUTCMinutes(currentMinutes % 60);
-    slotStart.setUTCSeconds(0);
-    slotStart.setUTCMilliseconds(0);
-
-    const slotEnd = new Date(slotStart.getTime() + durationMinutes * 60 * 1000);
-
-    // Check if this slot conflicts with existing bookings
-    const activeBookings = existingBookings.filter(
-      (booking) =>
-        booking.tutorId === tutorId &&
-        booking.status !== "CANCELLED" &&
-        booking.status !== "REFUNDED"
-    );
+      if (slots.has(slotStartMs)) {
+        continue;
+      }
 
-    let hasConflict = false;
-    for (const booking of activeBookings) {
-      const existingStart = booking.scheduledAt;
-      const existingEnd = new Date(
-        booking.scheduledAt.getTime() + booking.duration * 60 * 1000
+      const slotStart = new Date(slotStartMs);
+      const slotEnd = new Date(slotStartMs + durationMs);
+      const hasConflict = !!findConflictingBooking(
+        slotStart,
+        slotEnd,
+        existingBookings,
+        tutorId
       );
 
-      if (
-        (slotStart >= existingStart && slotStart < existingEnd) ||
-        (slotEnd > existingStart && slotEnd <= existingEnd) ||
-        (slotStart <= existingStart && slotEnd >= existingEnd)
-      ) {
-        hasConflict = true;
-        break;
-      }
+      slots.set(slotStartMs, {
+        start: slotStart,
+        end: slotEnd,
+        available: !hasConflict,
+        reason: hasConflict ? "Time slot is already booked" : undefined,
+      });
     }
-
-    slots.push({
-      start: slotStart,
-      end: slotEnd,
-      available: !hasConflict,
-      reason: hasConflict ? "Time slot is already booked" : undefined,
-    });
   }
 
-  return slots;
+  return Array.from(slots.values()).sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
 }
 
 /**
  * Get available dates in a date range
+ *
+ * @param startDate - First calendar date (its UTC year/month/day are used)
+ * @param endDate - Last calendar date (inclusive)
+ * @param timeZone - Timezone the calendar dates are interpreted in (the student's zone)
+ * @param exceptions - Date-specific overrides (time off and extra windows)
  */
 export function getAvailableDates(
   startDate: Date,
   endDate: Date,
-  tutorAvailability: Availability[],
+  tutorAvailability: AvailabilityRule[],
   existingBookings: BookingAvailabilityCheck[],
   tutorId: string,
-  duration: number
+  duration: number,
+  timeZone: string = "UTC",
+  exceptions: AvailabilityExceptionRule[] = []
 ): Date[] {
   const availableDates: Date[] = [];
-  const currentDate = new Date(startDate);
+  const lastDateKey = toDateKey(endDate);
 
-  while (currentDate <= endDate) {
+  for (
+    let dateKey = toDateKey(startDate);
+    dateKey <= lastDateKey;
+    dateKey = addDaysToDateKey(dateKey, 1)
+  ) {
+    const currentDate = new Date(`${dateKey}T00:00:00Z`);
     const slots = getAvailableTimeSlots(
       currentDate,
       duration,
       tutorAvailability,
       existingBookings,
-      tutorId
+      tutorId,
+      timeZone,
+      exceptions
     );
 
     // If there's at least one available slot, add the date
     if (slots.some((slot) => slot.available)) {
-      availableDates.push(new Date(currentDate));
+      availableDates.push(currentDate);
     }
-
-    // Move to next day
-    currentDate.setUTCDate(currentDate.getUTCDate() + 1);
-    currentDate.setUTCHours(0, 0, 0, 0);
   }
 
   return availableDates;
 }
 
+/**
+ * Window as minutes from its day's local midnight
+ * (overnight windows end past 24:00)
+ */
+function getWindowMinutes(
+  window: Pick<AvailabilityRule, "startTime" | "endTime">
+): { start: number; end: number } {
+  const start = parseTimeToMinutes(window.startTime);
+  const end = parseTimeToMinutes(window.endTime);
+
+  return { start, end: end <= start ? end + 24 * 60 : end };
+}
+
+/**
+ * Find an existing active window that overlaps the candidate window
+ *
+ * Windows are compared as concrete UTC intervals, so this handles overnight
+ * windows and windows saved in different timezones. Windows that only touch
+ * (one ends when the other starts) do not overlap.
+ */
+export function findOverlappingAvailability<T extends AvailabilityRule>(
+  candidate: AvailabilityRule,
+  existing: T[],
+  now: Date = new Date()
+): T | undefined {
+  const rangeStart = now;
+  const rangeEnd = new Date(now.getTime() + OVERLAP_CHECK_DAYS * 24 * 60 * 60 * 1000);
+  const candidateWindows = getAvailabilityWindows(rangeStart, rangeEnd, [
+    { ...candidate, isActive: true },
+  ]);
+
+  return existing.find((rule) => {
+    if (!rule.isActive) {
+      return false;
+    }
+
+    return getAvailabilityWindows(rangeStart, rangeEnd, [rule]).some((window) =>
+      candidateWindows.some(
+        (candidateWindow) =>
+          candidateWindow.start < window.end && candidateWindow.end > window.start
+      )
+    );
+  });
+}
+
+/**
+ * Get the active windows that can be merged with the candidate window:
+ * same day, same timezone, and overlapping or touching it
+ */
+export function getMergeableAvailability<T extends AvailabilityRule>(
+  candidate: AvailabilityRule,
+  existing: T[]
+): T[] {
+  const timeZone = resolveTimeZone(candidate.timezone);
+  const { start, end } = getWindowMinutes(candidate);
+
+  return existing.filter((rule) => {
+    if (
+      !rule.isActive ||
+      rule.dayOfWeek !== candidate.dayOfWeek ||
+      resolveTimeZone(rule.timezone) !== timeZone
+    ) {
+      return false;
+    }
+
+    const ruleMinutes = getWindowMinutes(rule);
+    return ruleMinutes.start <= end && ruleMinutes.end >= start;
+  });
+}
+
+/**
+ * Merge windows on the same day into a single window
+ * Returns null if they leave a gap or would cover 24 hours or more
+ */
+export function mergeAvailabilityTimes(
+  windows: Pick<AvailabilityRule, "startTime" | "endTime">[]
+): { startTime: string; endTime: string } | null {
+  const ranges = windows
+    .map(getWindowMinutes)
+    .sort((a, b) => a.start - b.start);
+
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  const { start } = ranges[0];
+  let { end } = ranges[0];
+
+  for (const range of ranges.slice(1)) {
+    if (range.start > end) {
+      return null;
+    }
+    end = Math.max(end, range.end);
+  }
+
+  if (end - start >= 24 * 60) {
+    return null;
+  }
+
+  return {
+    startTime: formatMinutesAsTime(start),
+    endTime: formatMinutesAsTime(end),
+  };
+}
+
+/**
+ * Split a window in two around a break
+ *
+ * The second part of an overnight window may start after midnight, in which
+ * case it belongs to the following day.
+ *
+ * @param splitAt - End of the first part ("HH:mm")
+ * @param resumeAt - Start of the second part (defaults to splitAt)
+ * @returns Both parts, or null if the break is not strictly inside the window
+ */
+export function splitAvailabilityTimes(
+  window: Pick<AvailabilityRule, "dayOfWeek" | "startTime" | "endTime">,
+  splitAt: string,
+  resumeAt: string = splitAt
+): [AvailabilityWindowTimes, AvailabilityWindowTimes] | null {
+  const { start, end } = getWindowMinutes(window);
+
+  // Times before the window's start belong to the next day of an overnight window
+  const toWindowMinutes = (time: string) => {
+    const minutes = parseTimeToMinutes(time);
+    return minutes <= start ? minutes + 24 * 60 : minutes;
+  };
+
+  const breakStart = toWindowMinutes(splitAt);
+  const breakEnd = toWindowMinutes(resumeAt);
+
+  if (breakStart >= end || breakEnd >= end || breakEnd < breakStart) {
+    return null;
+  }
+
+  return [
+    {
+      dayOfWeek: window.dayOfWeek,
+      startTime: window.startTime,
+      endTime: formatMinutesAsTime(breakStart),
+    },
+    {
+      dayOfWeek: breakEnd >= 24 * 60 ? (window.dayOfWeek + 1) % 7 : window.dayOfWeek,
+      startTime: formatMinutesAsTime(breakEnd),
+      endTime: window.endTime,
+    },
+  ];
+}
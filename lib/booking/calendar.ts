@@ -0,0 +1,223 @@
+/**
+ * Calendar Export Utilities
+ *
+ * Sessions as RFC 5545 iCalendar events, for Google, Apple and Outlook calendars:
+ * - .ics invites attached to confirmation, reschedule and cancellation emails
+ * - A secret per-user subscription feed of upcoming confirmed sessions
+ *
+ * A booking is always the same event (same UID in emails and the feed).
+ * Its SEQUENCE (Booking.calendarSequence) goes up when it's rescheduled or
+ * cancelled, so calendar apps replace the copy they already have.
+ */
+
+import { randomBytes } from "crypto";
+import { getEmailTranslator } from "@/lib/email/i18n";
+
+/**
+ * PRODID of every calendar we generate
+ */
+export const CALENDAR_PRODUCT_ID = "-//Linglix//Sessions//EN";
+
+/**
+ * Sessions listed in a subscription feed
+ */
+export const CALENDAR_FEED_LIMIT = 200;
+
+/**
+ * How often calendar apps should refresh a subscription feed
+ */
+export const CALENDAR_FEED_REFRESH_MINUTES = 60;
+
+export type CalendarMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+export type CalendarEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  durationMinutes?: number;
+  summary: string;
+  description?: string;
+  url?: string; // Session join link
+  status: CalendarEventStatus;
+  organizer?: { email: string; name?: string };
+  attendee?: { email: string; name?: string | null };
+}
+
+/**
+ * UID of a booking's event
+ */
+export function getBookingEventUid(bookingId: string): string {
+  return `booking-${bookingId}@linglix`;
+}
+
+/**
+ * Secret token for a calendar feed URL (the URL is the only credential)
+ */
+export function createCalendarFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * UTC date-time, e.g. 20260302T170000Z
+ */
+function formatDateTime(date: Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Quote a parameter value (CN names may contain commas or colons)
+ */
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+/**
+ * Fold lines longer than 75 octets (continuation lines start with a space)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+
+    current += char;
+    currentBytes += bytes;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: CalendarEvent, now: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+  ];
+
+  if (event.durationMinutes) {
+    lines.push(
+      `DTEND:${formatDateTime(new Date(event.start.getTime() + event.durationMinutes * 60 * 1000))}`
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.url) {
+    lines.push(`URL:${event.url}`, `LOCATION:${escapeText(event.url)}`);
+  }
+
+  lines.push(`STATUS:${event.status}`);
+
+  if (event.organizer) {
+    const cn = event.organizer.name ? `;CN=${quoteParam(event.organizer.name)}` : "";
+    lines.push(`ORGANIZER${cn}:mailto:${event.organizer.email}`);
+  }
+
+  if (event.attendee) {
+    const cn = event.attendee.name ? `;CN=${quoteParam(event.attendee.name)}` : "";
+    lines.push(`ATTENDEE${cn};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:${event.attendee.email}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Render a VCALENDAR
+ *
+ * @param method - REQUEST/CANCEL for emailed invites, PUBLISH for feeds
+ * @param name - Calendar name shown by apps that subscribe to a feed
+ */
+export function createCalendar(
+  events: CalendarEvent[],
+  { method = "PUBLISH", name }: { method?: CalendarMethod; name?: string } = {},
+  now = new Date()
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${CALENDAR_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+  ];
+
+  if (name) {
+    lines.push(
+      `X-WR-CALNAME:${escapeText(name)}`,
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${CALENDAR_FEED_REFRESH_MINUTES}M`,
+      `X-PUBLISHED-TTL:PT${CALENDAR_FEED_REFRESH_MINUTES}M`
+    );
+  }
+
+  for (const event of events) {
+    lines.push(...eventLines(event, now));
+  }
+
+  lines.push("END:VCALENDAR");
+
+  // CRLF line endings, including after the last line
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * A booking's event, titled for one participant in their language
+ *
+ * @param name - The other participant (tutor for students, student for tutors)
+ */
+export function getBookingCalendarEvent(
+  booking: { id: string; scheduledAt: Date; duration?: number; calendarSequence: number },
+  {
+    name,
+    sessionUrl,
+    status,
+    locale,
+  }: {
+    name?: string | null;
+    sessionUrl?: string;
+    status: CalendarEventStatus;
+    locale?: string | null;
+  }
+): CalendarEvent {
+  const t = getEmailTranslator(locale);
+
+  return {
+    uid: getBookingEventUid(booking.id),
+    sequence: booking.calendarSequence,
+    start: booking.scheduledAt,
+    durationMinutes: booking.duration,
+    summary: name ? t("calendar.summary", { name }) : t("calendar.summaryAnonymous"),
+    description: sessionUrl ? t("calendar.description", { url: sessionUrl }) : undefined,
+    url: sessionUrl,
+    status,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Prepaid Credit Utilities
+ *
+ * Business rules for lesson credits bought in bundles:
+ * - Bundle catalogue and pricing
+ * - Ledger entries that keep User.creditMinutes in sync
+ * - Drawing credits down for bookings and returning them on cancellation
+ *
+ * Credits are stored in minutes so they map directly onto session durations.
+ * Every balance change goes through applyCreditEntry inside a transaction.
+ */
+
+import { CreditLedgerEntryType } from "@prisma/client";
+import type { Booking, Prisma } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+import { isLateCancellation } from "./validation";
+
+/**
+ * Hourly rate bundles are priced from (the standard tutor rate)
+ * Credits can only be used with tutors charging up to this rate.
+ */
+export const CREDIT_HOURLY_RATE = 30;
+
+/**
+ * Bundles students can buy
+ */
+export const CREDIT_BUNDLES = [
+  { id: "5-hours", hours: 5, discountPercent: 5 },
+  { id: "10-hours", hours: 10, discountPercent: 10 },
+] as const;
+
+export type CreditBundle = (typeof CREDIT_BUNDLES)[number];
+
+/**
+ * Number of ledger entries shown in the dashboard history
+ */
+export const CREDIT_HISTORY_LIMIT = 20;
+
+/**
+ * Find a bundle by ID
+ */
+export function getCreditBundle(bundleId: string): CreditBundle | undefined {
+  return CREDIT_BUNDLES.find((bundle) => bundle.id === bundleId);
+}
+
+/**
+ * Calculate the discounted price of a bundle
+ */
+export function calculateBundlePrice(bundle: CreditBundle): number {
+  const fullPrice = bundle.hours * CREDIT_HOURLY_RATE;
+  return Math.round(fullPrice * (1 - bundle.discountPercent / 100) * 100) / 100;
+}
+
+/**
+ * Bundle catalogue with prices, for API responses and the UI
+ */
+export function getCreditBundleOptions() {
+  return CREDIT_BUNDLES.map((bundle) => ({
+    ...bundle,
+    minutes: bundle.hours * 60,
+    price: calculateBundlePrice(bundle),
+    fullPrice: bundle.hours * CREDIT_HOURLY_RATE,
+  }));
+}
+
+/**
+ * Apply a ledger entry and update the user's balance
+ *
+ * Must run inside a transaction. Debits only succeed when the balance
+ * covers them, so concurrent bookings cannot overdraw credits.
+ *
+ * @throws HttpError (400) if a debit exceeds the balance
+ */
+export async function applyCreditEntry(
+  tx: Prisma.TransactionClient,
+  entry: {
+    userId: string;
+    type: CreditLedgerEntryType;
+    minutes: number;
+    bookingId?: string;
+    bundleId?: string;
+    paymentId?: string;
+    amountPaid?: number;
+    currency?: string;
+    description?: string;
+  }
+) {
+  if (entry.minutes < 0) {
+    const result = await tx.user.updateMany({
+      where: { id: entry.userId, creditMinutes: { gte: -entry.minutes } },
+      data: { creditMinutes: { increment: entry.minutes } },
+    });
+
+    if (result.count === 0) {
+      throw Errors.BadRequest("You don't have enough credits for this session.");
+    }
+  } else {
+    await tx.user.update({
+      where: { id: entry.userId },
+      data: { creditMinutes: { increment: entry.minutes } },
+    });
+  }
+
+  const { creditMinutes } = await tx.user.findUniqueOrThrow({
+    where: { id: entry.userId },
+    select: { creditMinutes: true },
+  });
+
+  return await tx.creditLedgerEntry.create({
+    data: {
+      ...entry,
+      balanceAfter: creditMinutes,
+    },
+  });
+}
+
+/**
+ * Draw credits down for a new booking
+ */
+export async function redeemCreditsForBooking(
+  tx: Prisma.TransactionClient,
+  booking: Pick<Booking, "id" | "studentId" | "duration">
+) {
+  return applyCreditEntry(tx, {
+    userId: booking.studentId,
+    type: CreditLedgerEntryType.BOOKING,
+    minutes: -booking.duration,
+    bookingId: booking.id,
+    description: `${booking.duration}-minute session`,
+  });
+}
+
+/**
+ * Check if a cancelled credit booking should get its credits back
+ *
+ * Tutor and admin cancellations always return credits; student cancellations
+ * only when they are not late (same 12-hour rule as the penalty policy).
+ */
+export function shouldReturnCredits(
+  booking: Pick<Booking, "creditMinutes" | "scheduledAt">,
+  isStudentCancelling: boolean
+): boolean {
+  if (!booking.creditMinutes) {
+    return false;
+  }
+
+  return !isStudentCancelling || !isLateCancellation(booking as Booking);
+}
+
+/**
+ * Return a booking's credits to the student
+ */
+export async function returnCreditsForBooking(
+  tx: Prisma.TransactionClient,
+  booking: Pick<Booking, "id" | "studentId" | "creditMinutes">,
+  description: string = "Cancelled session"
+) {
+  return applyCreditEntry(tx, {
+    userId: booking.studentId,
+    type: CreditLedgerEntryType.RETURN,
+    minutes: booking.creditMinutes || 0,
+    bookingId: booking.id,
+    description,
+  });
+}
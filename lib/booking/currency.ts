@@ -0,0 +1,224 @@
+/**
+ * Currency Utilities
+ *
+ * Tutors price in the settlement currency (USD) and are paid out in it.
+ * Students see prices and are charged in their own currency:
+ * - From their profile preference, or derived from their locale
+ * - Converted with the stored ExchangeRate table (refreshed by the daily cron)
+ * - The rate is snapshot onto the booking so refunds use the same rate
+ *
+ * Pure helpers in this file are also used by client components, so it must
+ * not import server-only modules.
+ */
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+
+/**
+ * Currency all prices are set in, and tutors are paid out in
+ */
+export const SETTLEMENT_CURRENCY: Currency = "usd";
+
+/**
+ * Currencies students can be charged in (ISO 4217, lowercase as used by Stripe)
+ */
+export const SUPPORTED_CURRENCIES = ["usd", "eur", "gbp", "brl", "jpy", "krw", "cny"] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+/**
+ * Default currency for each locale (used when the student has no preference)
+ */
+export const LOCALE_CURRENCIES: Record<string, Currency> = {
+  en: "usd",
+  es: "eur",
+  fr: "eur",
+  de: "eur",
+  it: "eur",
+  pt: "brl",
+  ja: "jpy",
+  ko: "krw",
+  zh: "cny",
+};
+
+/**
+ * Currencies without minor units - Stripe amounts are whole units, not cents
+ */
+const ZERO_DECIMAL_CURRENCIES: string[] = ["jpy", "krw"];
+
+/**
+ * Public rates endpoint (USD base). Override with EXCHANGE_RATES_API_URL.
+ */
+const DEFAULT_EXCHANGE_RATES_API_URL = "https://open.er-api.com/v6/latest/USD";
+
+/**
+ * Currency and rate used to display and charge prices for a student
+ */
+export interface CurrencyQuote {
+  currency: Currency;
+  exchangeRate: number; // Units of currency per 1 USD
+}
+
+export function isSupportedCurrency(currency: string | null | undefined): currency is Currency {
+  return !!currency && (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+}
+
+/**
+ * Resolve a student's currency from their preference, falling back to their locale
+ */
+export function resolveCurrency(
+  preferred: string | null | undefined,
+  locale?: string | null
+): Currency {
+  if (isSupportedCurrency(preferred)) {
+    return preferred;
+  }
+
+  return (locale && LOCALE_CURRENCIES[locale]) || SETTLEMENT_CURRENCY;
+}
+
+/**
+ * Round an amount to the currency's smallest unit
+ */
+export function roundCurrencyAmount(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency)
+    ? Math.round(amount)
+    : Math.round(amount * 100) / 100;
+}
+
+/**
+ * Convert a settlement (USD) amount into the quoted currency
+ */
+export function convertFromSettlement(amount: number, quote: CurrencyQuote): number {
+  return roundCurrencyAmount(amount * quote.exchangeRate, quote.currency);
+}
+
+/**
+ * Amount in Stripe's smallest currency unit
+ */
+export function toStripeAmount(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency)
+    ? Math.round(amount)
+    : Math.round(amount * 100);
+}
+
+/**
+ * Amount from Stripe's smallest currency unit
+ */
+export function fromStripeAmount(amount: number, currency?: string | null): number {
+  return currency && ZERO_DECIMAL_CURRENCIES.includes(currency) ? amount : amount / 100;
+}
+
+/**
+ * Format an amount for display, e.g. "€27.60" or "¥4,500"
+ */
+export function formatCurrency(amount: number, currency: string, locale: string = "en"): string {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount);
+}
+
+/**
+ * Format a settlement (USD) price in the quoted currency
+ */
+export function formatPrice(amount: number, quote: CurrencyQuote, locale: string = "en"): string {
+  return formatCurrency(convertFromSettlement(amount, quote), quote.currency, locale);
+}
+
+/**
+ * Get the stored rate for a currency and the student's quote
+ *
+ * Falls back to charging in USD if no rate has been stored yet, so a
+ * missing rate never blocks a booking.
+ */
+export async function getCurrencyQuote(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  currency: Currency
+): Promise<CurrencyQuote> {
+  if (currency === SETTLEMENT_CURRENCY) {
+    return { currency, exchangeRate: 1 };
+  }
+
+  const rate = await prisma.exchangeRate.findUnique({
+    where: { currency },
+    select: { rate: true },
+  });
+
+  return rate ? { currency, exchangeRate: rate.rate } : { currency: SETTLEMENT_CURRENCY, exchangeRate: 1 };
+}
+
+/**
+ * Get the quote for a user (preference first, then locale)
+ */
+export async function getUserCurrencyQuote(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  userId: string | null | undefined,
+  locale?: string | null
+): Promise<CurrencyQuote> {
+  const user = userId
+    ? await prisma.user.findUnique({
+        where: { id: userId },
+        select: { currency: true },
+      })
+    : null;
+
+  return getCurrencyQuote(prisma, resolveCurrency(user?.currency, locale));
+}
+
+/**
+ * Amount a booking was charged in its own currency
+ *
+ * Bookings created before multi-currency have no chargedAmount and were
+ * charged their USD price.
+ */
+export function getChargedAmount(booking: { price: number; chargedAmount?: number | null }): number {
+  return booking.chargedAmount ?? booking.price;
+}
+
+/**
+ * Currency and rate stored on a booking when it was created
+ */
+export function getBookingQuote(booking: {
+  currency?: string | null;
+  exchangeRate?: number | null;
+}): CurrencyQuote {
+  return isSupportedCurrency(booking.currency)
+    ? { currency: booking.currency, exchangeRate: booking.exchangeRate ?? 1 }
+    : { currency: SETTLEMENT_CURRENCY, exchangeRate: 1 };
+}
+
+/**
+ * Fetch the latest USD rates and store them for every supported currency
+ *
+ * @returns Number of rates updated
+ */
+export async function updateExchangeRates(prisma: Prisma.TransactionClient | PrismaClient): Promise<number> {
+  const response = await fetch(
+    process.env.EXCHANGE_RATES_API_URL || DEFAULT_EXCHANGE_RATES_API_URL,
+    { cache: "no-store" }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Exchange rate request failed with status ${response.status}`);
+  }
+
+  const data = await response.json();
+  const rates: Record<string, number> = data.rates || {};
+  let updated = 0;
+
+  for (const currency of SUPPORTED_CURRENCIES) {
+    if (currency === SETTLEMENT_CURRENCY) continue;
+
+    const rate = rates[currency.toUpperCase()];
+    if (typeof rate !== "number" || rate <= 0) continue;
+
+    await prisma.exchangeRate.upsert({
+      where: { currency },
+      create: { currency, rate },
+      update: { rate },
+    });
+    updated++;
+  }
+
+  return updated;
+}
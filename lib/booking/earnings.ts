@@ -0,0 +1,167 @@
+/**
+ * Tutor Earnings Utilities
+ *
+ * Business rules for the tutor earnings ledger:
+ * - Commission split between the platform and the tutor
+ * - One SESSION entry per completed booking (net of refunds issued so far)
+ * - REFUND entries that claw back the tutor's share of later refunds
+ *
+ * Amounts are in USD (the settlement currency); chargedAmount keeps the
+ * matching amount in the currency the student paid in.
+ *
+ * Unpaid entries (payoutId = null) are picked up by the payout batch,
+ * see lib/stripe/payouts.ts.
+ */
+
+import { z } from "zod";
+import { EarningEntryType } from "@prisma/client";
+import type { Booking, Prisma, PrismaClient } from "@prisma/client";
+import { roundCurrencyAmount, SETTLEMENT_CURRENCY } from "./currency";
+
+/**
+ * Platform commission on every session ($30/hour -> tutor gets $15/hour)
+ */
+export const TUTOR_COMMISSION_PERCENT = 50;
+
+/**
+ * Number of ledger entries shown in the tutor's earnings history
+ */
+export const EARNINGS_HISTORY_LIMIT = 20;
+
+/**
+ * Admin payout hold schema
+ */
+export const payoutHoldSchema = z.object({
+  action: z.enum(["hold", "release"]),
+  reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Split an amount paid by a student into the tutor's share and the commission
+ */
+export function calculateTutorShare(grossAmount: number): {
+  amount: number;
+  commission: number;
+} {
+  const commission = Math.round(grossAmount * (TUTOR_COMMISSION_PERCENT / 100) * 100) / 100;
+  return {
+    amount: Math.round((grossAmount - commission) * 100) / 100,
+    commission,
+  };
+}
+
+/**
+ * Record the tutor's share of a completed booking
+ *
+ * Idempotent: returns the existing entry if the booking was already recorded.
+ * Concurrent calls (webhook, end-call, cron sweep) are settled by the unique
+ * sessionBookingId, so only one SESSION entry is ever written.
+ * Refunds issued before this point are deducted from the gross amount.
+ */
+export async function recordSessionEarning(
+  tx: Prisma.TransactionClient | PrismaClient,
+  booking: Pick<Booking, "id" | "tutorId" | "price" | "duration"> &
+    Partial<Pick<Booking, "currency" | "exchangeRate">>
+) {
+  const existing = await tx.earningEntry.findFirst({
+    where: { bookingId: booking.id, type: EarningEntryType.SESSION },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const refunds = await tx.refund.aggregate({
+    where: { bookingId: booking.id },
+    _sum: { amount: true },
+  });
+  const grossAmount = Math.max(
+    0,
+    Math.round((booking.price - (refunds._sum.amount || 0)) * 100) / 100
+  );
+  const { amount, commission } = calculateTutorShare(grossAmount);
+  const currency = booking.currency || SETTLEMENT_CURRENCY;
+
+  return await tx.earningEntry
+    .create({
+      data: {
+        tutorId: booking.tutorId,
+        type: EarningEntryType.SESSION,
+        amount,
+        grossAmount,
+        commission,
+        chargedAmount: roundCurrencyAmount(grossAmount * (booking.exchangeRate ?? 1), currency),
+        chargedCurrency: currency,
+        bookingId: booking.id,
+        sessionBookingId: booking.id,
+        description: `${booking.duration}-minute session`,
+      },
+    })
+    .catch(async (error: unknown) => {
+      // Another call recorded the booking in the meantime
+      if ((error as { code?: string })?.code === "P2002") {
+        return await tx.earningEntry.findUnique({
+          where: { sessionBookingId: booking.id },
+        });
+      }
+      throw error;
+    });
+}
+
+/**
+ * Claw back the tutor's share of a refund on an already recorded booking
+ *
+ * Refunds issued before the session was recorded are already netted out
+ * by recordSessionEarning, so nothing is recorded for them.
+ */
+export async function recordRefundEarning(
+  tx: Prisma.TransactionClient | PrismaClient,
+  refund: {
+    id: string;
+    bookingId: string;
+    amount: number;
+    chargedAmount?: number | null;
+    currency?: string;
+  }
+) {
+  const session = await tx.earningEntry.findFirst({
+    where: { bookingId: refund.bookingId, type: EarningEntryType.SESSION },
+    select: { tutorId: true },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const { amount, commission } = calculateTutorShare(refund.amount);
+
+  return await tx.earningEntry.create({
+    data: {
+      tutorId: session.tutorId,
+      type: EarningEntryType.REFUND,
+      amount: -amount,
+      grossAmount: -refund.amount,
+      commission: -commission,
+      chargedAmount: refund.chargedAmount != null ? -refund.chargedAmount : null,
+      chargedCurrency: refund.currency || null,
+      bookingId: refund.bookingId,
+      refundId: refund.id,
+      description: "Refund to student",
+    },
+  });
+}
+
+/**
+ * Sum of a tutor's earnings not yet included in a payout
+ */
+export async function getUnpaidEarnings(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  tutorId: string
+): Promise<number> {
+  const result = await prisma.earningEntry.aggregate({
+    where: { tutorId, payoutId: null },
+    _sum: { amount: true },
+  });
+
+  return Math.round((result._sum.amount || 0) * 100) / 100;
+}
@@ -0,0 +1,197 @@
+/**
+ * Lesson Material Utilities
+ *
+ * Business rules for what a tutor shares with their student per booking:
+ * - Post-lesson summaries and vocabulary lists
+ * - Homework with an optional due date, which the student marks done
+ * - Uploaded files (PDF, audio) stored in blob storage
+ *
+ * Only the booking's tutor adds, edits and removes materials. The student
+ * sees them across their lesson history; admins can view them.
+ */
+
+import { z } from "zod";
+import { BookingStatus, LessonMaterialType } from "@prisma/client";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+import { getBookingRole } from "./validation";
+
+/**
+ * Maximum summary, vocabulary or homework text length in characters
+ */
+export const LESSON_MATERIAL_BODY_MAX_LENGTH = 10000;
+
+/**
+ * Open homework shown on the student dashboard
+ */
+export const OPEN_HOMEWORK_LIMIT = 10;
+
+/**
+ * Lesson file limits (enforced by the upload route)
+ */
+export const LESSON_FILE_MAX_SIZE = 20 * 1024 * 1024; // 20MB
+export const LESSON_FILE_TYPES = [
+  "application/pdf",
+  "audio/mpeg",
+  "audio/mp4",
+  "audio/x-m4a",
+  "audio/wav",
+  "audio/webm",
+  "audio/ogg",
+];
+
+/**
+ * Blob path prefix for lesson files
+ */
+export const LESSON_FILE_PATH_PREFIX = "lessons/";
+
+/**
+ * Materials can be added before, during and after the lesson, but not to
+ * bookings that never took place
+ */
+export const MATERIAL_BOOKING_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.COMPLETED,
+  BookingStatus.NO_SHOW_STUDENT,
+];
+
+/**
+ * Only files uploaded through /api/upload/lesson-material can be attached
+ */
+export function isLessonFileUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.protocol === "https:" &&
+      parsed.hostname.endsWith(".blob.vercel-storage.com") &&
+      parsed.pathname.startsWith(`/${LESSON_FILE_PATH_PREFIX}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+const titleSchema = z.string().trim().max(200, "Title must be less than 200 characters");
+const bodySchema = z
+  .string()
+  .trim()
+  .min(1, "Content is required")
+  .max(
+    LESSON_MATERIAL_BODY_MAX_LENGTH,
+    `Content must be less than ${LESSON_MATERIAL_BODY_MAX_LENGTH} characters`
+  );
+const dueAtSchema = z.string().datetime({ message: "Invalid due date" }).nullable().optional();
+
+/**
+ * Add material schema (tutor only)
+ */
+export const createLessonMaterialSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal(LessonMaterialType.SUMMARY),
+    title: titleSchema.optional(),
+    body: bodySchema,
+  }),
+  z.object({
+    type: z.literal(LessonMaterialType.VOCABULARY),
+    title: titleSchema.optional(),
+    body: bodySchema,
+  }),
+  z.object({
+    type: z.literal(LessonMaterialType.HOMEWORK),
+    title: titleSchema.min(1, "Title is required"),
+    body: bodySchema.optional(),
+    dueAt: dueAtSchema,
+  }),
+  z.object({
+    type: z.literal(LessonMaterialType.FILE),
+    title: titleSchema.optional(),
+    file: z.object({
+      url: z
+        .string()
+        .url("Invalid file URL")
+        .refine(isLessonFileUrl, "File must be uploaded through Linglix"),
+      name: z.string().trim().min(1).max(255),
+      type: z.enum(LESSON_FILE_TYPES as [string, ...string[]], {
+        message: "Unsupported file type",
+      }),
+      size: z.number().int().positive().max(LESSON_FILE_MAX_SIZE, "File is too large"),
+    }),
+  }),
+]);
+
+export type CreateLessonMaterialInput = z.infer<typeof createLessonMaterialSchema>;
+
+/**
+ * Update material schema
+ *
+ * Tutors edit the content; students can only mark homework done.
+ */
+export const updateLessonMaterialSchema = z
+  .object({
+    title: titleSchema.optional(),
+    body: bodySchema.optional(),
+    dueAt: dueAtSchema,
+    completed: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+/**
+ * Database fields for a new material
+ */
+export function getLessonMaterialData(input: CreateLessonMaterialInput) {
+  switch (input.type) {
+    case LessonMaterialType.HOMEWORK:
+      return {
+        type: input.type,
+        title: input.title,
+        body: input.body,
+        dueAt: input.dueAt ? new Date(input.dueAt) : null,
+      };
+    case LessonMaterialType.FILE:
+      return {
+        type: input.type,
+        title: input.title || input.file.name,
+        fileUrl: input.file.url,
+        fileName: input.file.name,
+        fileType: input.file.type,
+        fileSize: input.file.size,
+      };
+    default:
+      return {
+        type: input.type,
+        title: input.title,
+        body: input.body,
+      };
+  }
+}
+
+/**
+ * Load a booking and check the user can access its materials
+ */
+export async function getBookingForMaterials(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  bookingId: string,
+  user: { id: string; role: string }
+) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      tutor: {
+        select: { userId: true },
+      },
+    },
+  });
+
+  if (!booking) {
+    throw Errors.NotFound("Booking not found");
+  }
+
+  const role = getBookingRole(booking, user);
+  if (!role) {
+    throw Errors.Forbidden("You don't have access to this booking's materials");
+  }
+
+  return { booking, role };
+}
@@ -0,0 +1,69 @@
+/**
+ * No-Show Utilities
+ *
+ * Business rules for sessions where a participant never joined the call,
+ * detected from the attendance recorded by the video webhook
+ * (see lib/booking/attendance.ts):
+ * - NO_SHOW_TUTOR: the student is refunded in full (credits returned)
+ * - NO_SHOW_STUDENT: no refund, the tutor is paid, and it counts as a late
+ *   cancellation for penalties (see countLateCancellations)
+ *
+ * Students can appeal a no-show through the cancellation appeal flow;
+ * approved appeals excuse it.
+ */
+
+import { BookingStatus } from "@prisma/client";
+import type { Booking, CallAttendance } from "@prisma/client";
+
+/**
+ * Minutes after the scheduled start before an absent participant is a no-show
+ */
+export const NO_SHOW_GRACE_MINUTES = 15;
+
+/**
+ * How far back the cron job looks for unresolved sessions
+ */
+export const NO_SHOW_LOOKBACK_DAYS = 7;
+
+export type NoShowStatus = typeof BookingStatus.NO_SHOW_STUDENT | typeof BookingStatus.NO_SHOW_TUTOR;
+
+export function isNoShowStatus(status: BookingStatus): status is NoShowStatus {
+  return status === BookingStatus.NO_SHOW_STUDENT || status === BookingStatus.NO_SHOW_TUTOR;
+}
+
+/**
+ * Work out the no-show outcome of a confirmed session past its grace period
+ *
+ * A participant attended if they joined before the grace period ran out, the
+ * same deadline the cron job waits for (see getNoShowCutoff), so a late joiner
+ * is never judged before their time is up. Returns null when both attended,
+ * or when neither did: without any join there's no evidence the call was
+ * tracked, so the booking is left for an admin to resolve.
+ */
+export function getNoShowOutcome(
+  booking: Pick<Booking, "studentId" | "scheduledAt">,
+  tutorUserId: string,
+  attendances: Pick<CallAttendance, "userId" | "joinedAt">[]
+): NoShowStatus | null {
+  const deadline = booking.scheduledAt.getTime() + NO_SHOW_GRACE_MINUTES * 60 * 1000;
+  const attended = (userId: string) =>
+    attendances.some(
+      (attendance) => attendance.userId === userId && attendance.joinedAt.getTime() <= deadline
+    );
+
+  const studentAttended = attended(booking.studentId);
+  const tutorAttended = attended(tutorUserId);
+
+  if (studentAttended === tutorAttended) {
+    return null;
+  }
+
+  return tutorAttended ? BookingStatus.NO_SHOW_STUDENT : BookingStatus.NO_SHOW_TUTOR;
+}
+
+/**
+ * Sessions scheduled before this are past their grace period
+ */
+export function getNoShowCutoff(now: Date): Date {
+  return new Date(now.getTime() - NO_SHOW_GRACE_MINUTES * 60 * 1000);
+}
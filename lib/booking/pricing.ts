@@ -0,0 +1,174 @@
+/**
+ * Tutor Pricing Utilities
+ *
+ * Business rules for per-tutor pricing:
+ * - Hourly rate (the 60-minute price) within admin-defined bounds
+ * - Optional fixed prices for 30 and 90-minute sessions
+ * - Optional discounted trial lesson for a student's first booking
+ *
+ * The computed price is snapshot onto Booking.price when the booking is
+ * created, so later rate changes never affect existing bookings.
+ */
+
+import { z } from "zod";
+import type { Prisma, PrismaClient, TutorPriceTier } from "@prisma/client";
+import { calculatePrice } from "./validation";
+
+/**
+ * Default bounds used until an admin saves PricingSettings
+ */
+export const DEFAULT_MIN_HOURLY_RATE = 15;
+export const DEFAULT_MAX_HOURLY_RATE = 100;
+
+/**
+ * Session durations that can have their own price (60 minutes = hourlyRate)
+ */
+export const PRICE_TIER_DURATIONS = [30, 90] as const;
+
+/**
+ * Trial lessons are always 30 minutes
+ */
+export const TRIAL_LESSON_DURATION = 30;
+
+/**
+ * Tutor pricing schema
+ */
+export const tutorPricingSchema = z.object({
+  hourlyRate: z.number().positive("Hourly rate must be positive"),
+  priceTiers: z
+    .array(
+      z.object({
+        duration: z.union([z.literal(30), z.literal(90)]),
+        price: z.number().positive("Price must be positive"),
+      })
+    )
+    .max(PRICE_TIER_DURATIONS.length)
+    .optional()
+    .default([])
+    .refine(
+      (tiers) => new Set(tiers.map((tier) => tier.duration)).size === tiers.length,
+      { message: "Each duration can only have one price" }
+    ),
+  trialPrice: z.number().positive("Trial price must be positive").nullable().optional().default(null),
+});
+
+/**
+ * Admin pricing bounds schema
+ */
+export const pricingSettingsSchema = z
+  .object({
+    minHourlyRate: z.number().positive(),
+    maxHourlyRate: z.number().positive(),
+  })
+  .refine((data) => data.minHourlyRate <= data.maxHourlyRate, {
+    message: "Minimum rate must not exceed maximum rate",
+  });
+
+export type TutorPricingInput = z.infer<typeof tutorPricingSchema>;
+
+type PricedTutor = {
+  hourlyRate: number;
+  trialPrice?: number | null;
+  priceTiers?: Pick<TutorPriceTier, "duration" | "price">[];
+};
+
+/**
+ * Get the admin-defined hourly rate bounds
+ */
+export async function getPricingBounds(
+  prisma: Prisma.TransactionClient | PrismaClient
+): Promise<{ minHourlyRate: number; maxHourlyRate: number }> {
+  const settings = await prisma.pricingSettings.findUnique({
+    where: { id: "default" },
+    select: { minHourlyRate: true, maxHourlyRate: true },
+  });
+
+  return settings || {
+    minHourlyRate: DEFAULT_MIN_HOURLY_RATE,
+    maxHourlyRate: DEFAULT_MAX_HOURLY_RATE,
+  };
+}
+
+/**
+ * Price of a session of the given duration for a tutor
+ */
+export function getSessionPrice(tutor: PricedTutor, duration: number): number {
+  const tier = tutor.priceTiers?.find((priceTier) => priceTier.duration === duration);
+  return tier ? tier.price : calculatePrice(duration, tutor.hourlyRate);
+}
+
+/**
+ * Prices for every bookable duration, for API responses and the UI
+ */
+export function getPriceOptions(tutor: PricedTutor) {
+  return [30, 60, 90].map((duration) => ({
+    duration,
+    price: getSessionPrice(tutor, duration),
+  }));
+}
+
+/**
+ * Check if a student can book a tutor's trial lesson
+ *
+ * Trials are only for students who have never had a (non-cancelled)
+ * booking with the tutor.
+ */
+export async function isTrialEligible(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  studentId: string,
+  tutorId: string
+): Promise<boolean> {
+  const previousBookings = await prisma.booking.count({
+    where: {
+      studentId,
+      tutorId,
+      status: { notIn: ["CANCELLED", "REFUNDED"] },
+    },
+  });
+
+  return previousBookings === 0;
+}
+
+/**
+ * Validate a tutor's pricing against the admin bounds
+ *
+ * Every price is compared as an hourly equivalent so a 30-minute tier
+ * can't be used to get around the bounds. Trial lessons must be cheaper
+ * than the regular 30-minute price but are not bound by the minimum.
+ */
+export function validateTutorPricing(
+  pricing: TutorPricingInput,
+  bounds: { minHourlyRate: number; maxHourlyRate: number }
+): { valid: boolean; error?: string } {
+  const { minHourlyRate, maxHourlyRate } = bounds;
+  const isWithinBounds = (hourlyEquivalent: number) =>
+    hourlyEquivalent >= minHourlyRate && hourlyEquivalent <= maxHourlyRate;
+
+  if (!isWithinBounds(pricing.hourlyRate)) {
+    return {
+      valid: false,
+      error: `Hourly rate must be between $${minHourlyRate} and $${maxHourlyRate}`,
+    };
+  }
+
+  for (const tier of pricing.priceTiers) {
+    if (!isWithinBounds(tier.price * (60 / tier.duration))) {
+      return {
+        valid: false,
+        error: `The ${tier.duration}-minute price must work out between $${minHourlyRate} and $${maxHourlyRate} per hour`,
+      };
+    }
+  }
+
+  if (pricing.trialPrice !== null) {
+    const regularPrice = getSessionPrice(pricing, TRIAL_LESSON_DURATION);
+    if (pricing.trialPrice >= regularPrice) {
+      return {
+        valid: false,
+        error: `Trial lesson price must be lower than your regular ${TRIAL_LESSON_DURATION}-minute price ($${regularPrice.toFixed(2)})`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
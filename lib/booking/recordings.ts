@@ -0,0 +1,179 @@
+/**
+ * Session Recording Utilities
+ *
+ * Business rules for opt-in session recordings:
+ * - Recording needs both participants' consent, given in the call;
+ *   withdrawing consent stops (and discards) a recording in progress
+ * - The recording is made in the browser of the participant who starts it
+ *   and uploaded to blob storage directly (see /api/upload/recording)
+ * - Only the two participants and admins can list and play recordings,
+ *   which are streamed through /api/recordings/[id] (blob URLs stay private)
+ * - Recordings are deleted by the cron job after the retention period
+ */
+
+import { z } from "zod";
+import { BookingStatus } from "@prisma/client";
+import type { Booking, Prisma, PrismaClient } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+import { getBookingRole } from "./validation";
+
+/**
+ * Days a recording is kept before the cron job deletes it
+ */
+export const RECORDING_RETENTION_DAYS = 30;
+
+/**
+ * Recording upload limits (enforced by the upload token)
+ */
+export const RECORDING_MAX_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+export const RECORDING_TYPES = ["video/webm", "video/mp4"];
+
+/**
+ * Blob path prefix for session recordings
+ */
+export const RECORDING_PATH_PREFIX = "recordings/";
+
+/**
+ * Consent can be changed and recordings started while the session is on
+ */
+export const RECORDABLE_STATUSES: BookingStatus[] = [BookingStatus.CONFIRMED];
+
+/**
+ * Recordings can still be uploaded once the call has ended and the
+ * session has been completed
+ */
+export const RECORDING_UPLOAD_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.COMPLETED,
+];
+
+/**
+ * Blob path prefix for one booking's recordings
+ */
+export function getRecordingPathPrefix(bookingId: string): string {
+  return `${RECORDING_PATH_PREFIX}${bookingId}/`;
+}
+
+/**
+ * Only recordings uploaded for this booking through /api/upload/recording
+ * can be registered
+ */
+export function isRecordingBlobUrl(url: string, bookingId: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.protocol === "https:" &&
+      parsed.hostname.endsWith(".blob.vercel-storage.com") &&
+      parsed.pathname.startsWith(`/${getRecordingPathPrefix(bookingId)}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load a booking and check the user can access its recordings
+ *
+ * Admins can watch recordings but don't take part in consent or recording.
+ */
+export async function getBookingForRecording(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  bookingId: string,
+  user: { id: string; role: string }
+) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      tutor: {
+        select: { userId: true },
+      },
+    },
+  });
+
+  if (!booking) {
+    throw Errors.NotFound("Booking not found");
+  }
+
+  const role = getBookingRole(booking, user);
+  if (!role) {
+    throw Errors.Forbidden("You don't have access to this booking's recordings");
+  }
+
+  return { booking, role };
+}
+
+/**
+ * Whether both participants currently consent to recording
+ */
+export function hasRecordingConsent(
+  booking: Pick<Booking, "recordingConsentStudentAt" | "recordingConsentTutorAt">
+): boolean {
+  return !!booking.recordingConsentStudentAt && !!booking.recordingConsentTutorAt;
+}
+
+/**
+ * Recording state shared with both participants during the call
+ */
+export function getRecordingState(
+  booking: Pick<
+    Booking,
+    "recordingConsentStudentAt" | "recordingConsentTutorAt" | "recordingStartedAt"
+  >
+) {
+  return {
+    consent: {
+      student: !!booking.recordingConsentStudentAt,
+      tutor: !!booking.recordingConsentTutorAt,
+    },
+    recording: !!booking.recordingStartedAt,
+  };
+}
+
+export type RecordingState = ReturnType<typeof getRecordingState>;
+
+/**
+ * When a recording made now expires
+ */
+export function getRecordingExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + RECORDING_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Update recording state schema (participants only)
+ */
+export const updateRecordingSchema = z
+  .object({
+    consent: z.boolean().optional(),
+    recording: z.boolean().optional(),
+  })
+  .refine((data) => data.consent !== undefined || data.recording !== undefined, {
+    message: "Nothing to update",
+  });
+
+/**
+ * Register recording schema (after the blob upload finished)
+ */
+export const registerRecordingSchema = z.object({
+  url: z.string().url("Invalid recording URL"),
+  contentType: z.enum(RECORDING_TYPES as [string, ...string[]], {
+    message: "Unsupported recording type",
+  }),
+  size: z.number().int().positive().max(RECORDING_MAX_SIZE, "Recording is too large"),
+  durationSeconds: z.number().int().min(1, "Recording is too short"),
+});
+
+/**
+ * Recording fields safe to send to clients (the blob URL is left out)
+ */
+export const recordingSelect = {
+  id: true,
+  bookingId: true,
+  contentType: true,
+  size: true,
+  durationSeconds: true,
+  expiresAt: true,
+  createdAt: true,
+  recordedBy: {
+    select: { id: true, name: true },
+  },
+} as const;
@@ -0,0 +1,184 @@
+/**
+ * Recurring Booking Utilities
+ *
+ * Business rules for recurring weekly bookings (lesson packages on a fixed slot):
+ * - Occurrence generation in the student's timezone
+ * - Up-front validation of every occurrence
+ * - Series cancellation and rescheduling rules
+ *
+ * Each occurrence is a regular Booking, so the single-booking rules
+ * (canCancelBooking, late cancellation, canRescheduleBooking) apply per occurrence.
+ */
+
+import { z } from "zod";
+import type { Booking } from "@prisma/client";
+import {
+  addDaysToDateKey,
+  formatZonedTime,
+  isValidTimeZone,
+  resolveTimeZone,
+  toDateKey,
+  zonedTimeToUtc,
+} from "@/lib/utils/timezone";
+import type { AvailabilityExceptionRule, AvailabilityRule } from "./availability";
+import {
+  createBookingSchema,
+  validateBookingTime,
+  validateAvailability,
+  checkConflicts,
+} from "./validation";
+
+/**
+ * Minimum and maximum number of weekly occurrences in a series
+ * (the last occurrence must still fall within MAX_ADVANCE_BOOKING_DAYS)
+ */
+export const MIN_SERIES_OCCURRENCES = 2;
+export const MAX_SERIES_OCCURRENCES = 12;
+
+/**
+ * Recurring series creation schema
+ */
+export const createBookingSeriesSchema = createBookingSchema.omit({ useCredits: true, trial: true }).extend({
+  occurrences: z
+    .number()
+    .int("Number of lessons must be a whole number")
+    .min(MIN_SERIES_OCCURRENCES, `A series needs at least ${MIN_SERIES_OCCURRENCES} lessons`)
+    .max(MAX_SERIES_OCCURRENCES, `A series can have at most ${MAX_SERIES_OCCURRENCES} lessons`),
+  timeZone: z
+    .string()
+    .optional()
+    .default("UTC")
+    .refine(isValidTimeZone, { message: "Invalid timezone" }),
+});
+
+/**
+ * Reschedule remaining occurrences schema
+ * scheduledAt is the new time of the next remaining occurrence;
+ * later occurrences follow weekly at the same local time
+ */
+export const rescheduleBookingSeriesSchema = z.object({
+  scheduledAt: z.string().datetime({ message: "Invalid date format" }),
+});
+
+/**
+ * Occurrence that failed validation
+ */
+export interface SeriesOccurrenceFailure {
+  scheduledAt: Date;
+  error: string;
+}
+
+/**
+ * Minimal booking type for conflict checking
+ */
+type BookingConflictCheck = Pick<
+  Booking,
+  "id" | "scheduledAt" | "duration" | "tutorId" | "status"
+>;
+
+/**
+ * Generate weekly occurrence times
+ *
+ * Occurrences keep the same wall-clock time in the given timezone, so
+ * "every Tuesday at 18:00" stays at 18:00 local across DST transitions.
+ */
+export function getSeriesOccurrences(
+  firstScheduledAt: Date,
+  occurrences: number,
+  timeZone: string = "UTC"
+): Date[] {
+  const zone = resolveTimeZone(timeZone);
+  const firstDateKey = toDateKey(firstScheduledAt, zone);
+  const localTime = formatZonedTime(firstScheduledAt, zone);
+
+  return Array.from({ length: occurrences }, (_, index) =>
+    index === 0
+      ? firstScheduledAt
+      : zonedTimeToUtc(addDaysToDateKey(firstDateKey, index * 7), localTime, zone)
+  );
+}
+
+/**
+ * Validate every occurrence of a series against booking time rules,
+ * the tutor's availability and existing bookings
+ *
+ * @param excludeBookingIds - Bookings to ignore for conflicts (e.g. the series' own
+ *   occurrences when rescheduling)
+ * @returns Occurrences that cannot be booked (empty if all are valid)
+ */
+export function validateSeriesOccurrences(
+  occurrenceTimes: Date[],
+  duration: number,
+  tutorId: string,
+  availability: AvailabilityRule[],
+  exceptions: AvailabilityExceptionRule[],
+  existingBookings: BookingConflictCheck[],
+  excludeBookingIds: string[] = []
+): SeriesOccurrenceFailure[] {
+  const otherBookings = existingBookings.filter(
+    (booking) => !excludeBookingIds.includes(booking.id)
+  );
+  const failures: SeriesOccurrenceFailure[] = [];
+
+  for (const scheduledAt of occurrenceTimes) {
+    const timeValidation = validateBookingTime(scheduledAt);
+    if (!timeValidation.valid) {
+      failures.push({
+        scheduledAt,
+        error: timeValidation.error || "Invalid booking time",
+      });
+      continue;
+    }
+
+    const availabilityValidation = validateAvailability(
+      scheduledAt,
+      duration,
+      availability,
+      exceptions
+    );
+    if (!availabilityValidation.valid) {
+      failures.push({
+        scheduledAt,
+        error: availabilityValidation.error || "Time slot not available",
+      });
+      continue;
+    }
+
+    const conflictCheck = checkConflicts(scheduledAt, duration, tutorId, otherBookings);
+    if (conflictCheck.hasConflict) {
+      failures.push({
+        scheduledAt,
+        error: "This time slot is already booked",
+      });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Get the occurrences of a series that are still upcoming and can be
+ * cancelled or rescheduled (not yet started, not cancelled/completed/refunded)
+ */
+export function getRemainingOccurrences<T extends Pick<Booking, "scheduledAt" | "status">>(
+  bookings: T[],
+  now: Date = new Date()
+): T[] {
+  return bookings
+    .filter(
+      (booking) =>
+        booking.scheduledAt > now &&
+        (booking.status === "PENDING" || booking.status === "CONFIRMED")
+    )
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+}
+
+/**
+ * Format failures for an API response
+ */
+export function formatSeriesFailures(failures: SeriesOccurrenceFailure[]) {
+  return failures.map((failure) => ({
+    scheduledAt: failure.scheduledAt.toISOString(),
+    error: failure.error,
+  }));
+}
@@ -0,0 +1,265 @@
+/**
+ * Review Utilities
+ *
+ * Business rules for student reviews:
+ * - Review submission and edit validation
+ * - Tutor replies
+ * - Admin moderation
+ * - Tutor rating aggregation
+ */
+
+import { z } from "zod";
+import type { Prisma, PrismaClient, Review } from "@prisma/client";
+
+/**
+ * Days after submission during which a student can edit their review
+ */
+export const REVIEW_EDIT_WINDOW_DAYS = 7;
+
+/**
+ * Default and maximum page sizes for public review listings
+ */
+export const REVIEWS_PAGE_SIZE = 5;
+export const MAX_REVIEWS_PAGE_SIZE = 50;
+
+/**
+ * Maximum number of tags per review
+ */
+export const MAX_REVIEW_TAGS = 5;
+
+const reviewTagsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, "Tags cannot be empty")
+      .max(30, "Tags must be less than 30 characters")
+      .transform((tag) => tag.toLowerCase())
+  )
+  .max(MAX_REVIEW_TAGS, `You can add up to ${MAX_REVIEW_TAGS} tags`)
+  .transform((tags) => Array.from(new Set(tags)));
+
+/**
+ * Review creation schema
+ */
+export const createReviewSchema = z.object({
+  rating: z
+    .number()
+    .int("Rating must be a whole number")
+    .min(1, "Rating must be between 1 and 5")
+    .max(5, "Rating must be between 1 and 5"),
+  comment: z
+    .string()
+    .trim()
+    .max(2000, "Comment must be less than 2000 characters")
+    .optional(),
+  tags: reviewTagsSchema.optional().default([]),
+});
+
+/**
+ * Review update schema (all fields optional)
+ */
+export const updateReviewSchema = z.object({
+  rating: createReviewSchema.shape.rating.optional(),
+  comment: createReviewSchema.shape.comment.nullable(),
+  tags: reviewTagsSchema.optional(),
+});
+
+/**
+ * Tutor reply schema
+ */
+export const reviewReplySchema = z.object({
+  reply: z
+    .string()
+    .trim()
+    .min(1, "Reply cannot be empty")
+    .max(1000, "Reply must be less than 1000 characters"),
+});
+
+/**
+ * Admin moderation schema
+ */
+export const moderateReviewSchema = z.object({
+  hidden: z.boolean(),
+  reason: z.string().trim().max(500, "Reason must be less than 500 characters").optional(),
+});
+
+/**
+ * Check if a review can still be edited by its author
+ */
+export function canEditReview(review: Pick<Review, "createdAt">): {
+  canEdit: boolean;
+  error?: string;
+} {
+  const editDeadline = new Date(
+    review.createdAt.getTime() + REVIEW_EDIT_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  if (new Date() > editDeadline) {
+    return {
+      canEdit: false,
+      error: `Reviews can only be edited within ${REVIEW_EDIT_WINDOW_DAYS} days of submission`,
+    };
+  }
+
+  return { canEdit: true };
+}
+
+/**
+ * Recalculate a tutor's aggregate rating and completed session count
+ *
+ * Hidden reviews don't count towards the rating. Rating is rounded to
+ * one decimal place (0 when the tutor has no visible reviews).
+ */
+export async function recalculateTutorStats(
+  tutorId: string,
+  prisma: Prisma.TransactionClient | PrismaClient
+): Promise<{ rating: number; totalSessions: number; totalReviews: number }> {
+  const [reviewStats, totalSessions] = await Promise.all([
+    prisma.review.aggregate({
+      where: {
+        tutorId,
+        isHidden: false,
+      },
+      _avg: {
+        rating: true,
+      },
+      _count: {
+        id: true,
+      },
+    }),
+    prisma.booking.count({
+      where: {
+        tutorId,
+        status: "COMPLETED",
+      },
+    }),
+  ]);
+
+  const rating = Math.round((reviewStats._avg.rating || 0) * 10) / 10;
+
+  await prisma.tutorProfile.update({
+    where: { id: tutorId },
+    data: {
+      rating,
+      totalSessions,
+    },
+  });
+
+  return {
+    rating,
+    totalSessions,
+    totalReviews: reviewStats._count.id,
+  };
+}
+
+export interface TutorReviewsPage {
+  reviews: {
+    id: string;
+    rating: number;
+    comment: string | null;
+    tags: string[];
+    tutorReply: string | null;
+    tutorRepliedAt: Date | null;
+    createdAt: Date;
+    studentId: string;
+    studentName: string | null;
+    studentImage: string | null;
+  }[];
+  tags: { name: string; count: number }[];
+  totalReviews: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Get a page of a tutor's visible reviews, optionally filtered by tag
+ *
+ * Tag counts and totalReviews cover all visible reviews (ignoring the tag
+ * filter) so the client can render the filter options.
+ */
+export async function getTutorReviews(
+  tutorId: string,
+  options: { page?: number; limit?: number; tag?: string },
+  prisma: Prisma.TransactionClient | PrismaClient
+): Promise<TutorReviewsPage> {
+  const page = options.page || 1;
+  const limit = options.limit || REVIEWS_PAGE_SIZE;
+
+  const visibleReviews: Prisma.ReviewWhereInput = {
+    tutorId,
+    isHidden: false,
+  };
+  const where: Prisma.ReviewWhereInput = options.tag
+    ? { ...visibleReviews, tags: { has: options.tag } }
+    : visibleReviews;
+
+  const [reviews, filteredCount, allTags] = await Promise.all([
+    prisma.review.findMany({
+      where,
+      select: {
+        id: true,
+        rating: true,
+        comment: true,
+        tags: true,
+        tutorReply: true,
+        tutorRepliedAt: true,
+        createdAt: true,
+        student: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.review.count({ where }),
+    prisma.review.findMany({
+      where: visibleReviews,
+      select: { tags: true },
+    }),
+  ]);
+
+  // Count tag usage across all visible reviews
+  const tagCounts = new Map<string, number>();
+  for (const review of allTags) {
+    for (const tag of review.tags) {
+      tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+    }
+  }
+
+  return {
+    reviews: reviews.map((review) => ({
+      id: review.id,
+      rating: review.rating,
+      comment: review.comment,
+      tags: review.tags,
+      tutorReply: review.tutorReply,
+      tutorRepliedAt: review.tutorRepliedAt,
+      createdAt: review.createdAt,
+      studentId: review.student.id,
+      studentName: review.student.name,
+      studentImage: review.student.image,
+    })),
+    tags: Array.from(tagCounts.entries())
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    totalReviews: allTags.length,
+    pagination: {
+      page,
+      limit,
+      total: filteredCount,
+      totalPages: Math.ceil(filteredCount / limit),
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Shared Notes Utilities
+ *
+ * Notes the student and tutor write together during the call:
+ * - Both participants edit while the call is open; admins can only view
+ * - Clients save against the version they last saw; a stale save is rejected
+ *   with the current notes so the client can merge (see lib/utils/text-merge)
+ * - The notes stay on the booking afterwards and can be exported
+ */
+
+import { z } from "zod";
+import { BookingStatus, type Booking, type Prisma, type PrismaClient } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+import { getBookingRole } from "./validation";
+
+/**
+ * Maximum notes length in characters
+ */
+export const SHARED_NOTES_MAX_LENGTH = 50000;
+
+/**
+ * Export formats (GET /api/bookings/[id]/shared-notes/export?format=)
+ */
+export const SHARED_NOTES_EXPORT_FORMATS = ["md", "pdf"] as const;
+export type SharedNotesExportFormat = (typeof SHARED_NOTES_EXPORT_FORMATS)[number];
+
+/**
+ * Save notes schema
+ */
+export const updateSharedNotesSchema = z.object({
+  content: z
+    .string()
+    .max(SHARED_NOTES_MAX_LENGTH, `Notes must be less than ${SHARED_NOTES_MAX_LENGTH} characters`),
+  // Version the client's edit is based on (0 = no notes saved yet)
+  baseVersion: z.number().int().min(0),
+});
+
+/**
+ * Notes can be edited while the session's call is open; afterwards they're read-only
+ */
+export function canEditSharedNotes(booking: Pick<Booking, "status" | "callEndedAt">): boolean {
+  return booking.status === BookingStatus.CONFIRMED && !booking.callEndedAt;
+}
+
+/**
+ * Load a booking and check the user can access its shared notes
+ */
+export async function getBookingForSharedNotes(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  bookingId: string,
+  user: { id: string; role: string }
+) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      student: {
+        select: { name: true },
+      },
+      tutor: {
+        select: {
+          userId: true,
+          user: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  if (!booking) {
+    throw Errors.NotFound("Booking not found");
+  }
+
+  const role = getBookingRole(booking, user);
+  if (!role) {
+    throw Errors.Forbidden("You don't have access to this booking's notes");
+  }
+
+  return { booking, role };
+}
+
+/**
+ * Export filename, e.g. "lesson-notes-2026-03-14.md"
+ */
+export function getSharedNotesFilename(
+  scheduledAt: Date,
+  format: SharedNotesExportFormat
+): string {
+  return `lesson-notes-${scheduledAt.toISOString().slice(0, 10)}.${format}`;
+}
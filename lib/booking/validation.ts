@@ -9,7 +9,12 @@
  */
 
 import { z } from "zod";
-import type { Booking, Availability, TutorProfile } from "@prisma/client";
+import type { Booking, Prisma, PrismaClient } from "@prisma/client";
+import {
+  checkTimeSlotAvailability,
+  type AvailabilityExceptionRule,
+  type AvailabilityRule,
+} from "./availability";
 
 /**
  * Valid booking duration options (in minutes)
@@ -36,6 +41,8 @@ export const createBookingSchema = z.object({
     message: "Duration must be 30, 60, or 90 minutes",
   }),
   notes: z.string().max(1000, "Notes must be less than 1000 characters").optional(),
+  useCredits: z.boolean().optional().default(false), // Pay with prepaid credits instead of checkout
+  trial: z.boolean().optional().default(false), // Book the tutor's discounted trial lesson
 });
 
 /**
@@ -45,6 +52,14 @@ export const rescheduleBookingSchema = z.object({
   scheduledAt: z.string().datetime({ message: "Invalid date format" }),
 });
 
+/**
+ * Admin refund schema (amount in dollars; omit to refund the remaining balance)
+ */
+export const adminRefundSchema = z.object({
+  amount: z.number().positive("Refund amount must be positive").optional(),
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
 /**
  * Calculate booking price based on duration and hourly rate
  */
@@ -85,58 +100,41 @@ export function validateBookingTime(scheduledAt: Date): {
 
 /**
  * Validate booking time is within tutor's availability
+ *
+ * Windows are interpreted in each availability row's own timezone.
+ * Date-specific exceptions (time off, extra windows) override the weekly schedule.
  */
 export function validateAvailability(
   scheduledAt: Date,
   duration: number,
-  availability: Availability[]
+  availability: AvailabilityRule[],
+  exceptions: AvailabilityExceptionRule[] = []
 ): {
   valid: boolean;
   error?: string;
 } {
-  if (availability.length === 0) {
+  const hasExtraWindows = exceptions.some((exception) => exception.type === "AVAILABLE");
+
+  if (availability.length === 0 && !hasExtraWindows) {
     return {
       valid: false,
       error: "Tutor has no available time slots",
     };
   }
 
-  const dayOfWeek = scheduledAt.getUTCDay(); // 0 = Sunday, 6 = Saturday
-  const timeSlot = availability.find(
-    (avail) => avail.dayOfWeek === dayOfWeek && avail.isActive
+  const result = checkTimeSlotAvailability(
+    scheduledAt,
+    duration,
+    availability,
+    [], // Conflicts are checked separately by checkConflicts
+    "",
+    exceptions
   );
 
-  if (!timeSlot) {
-    return {
-      valid: false,
-      error: "Tutor is not available on this day",
-    };
-  }
-
-  // Parse time strings (HH:mm format)
-  const [startHour, startMinute] = timeSlot.startTime.split(":").map(Number);
-  const [endHour, endMinute] = timeSlot.endTime.split(":").map(Number);
-
-  const bookingStart = new Date(scheduledAt);
-  const bookingStartHour = bookingStart.getUTCHours();
-  const bookingStartMinute = bookingStart.getUTCMinutes();
-  const bookingEnd = new Date(scheduledAt.getTime() + duration * 60 * 1000);
-  const bookingEndHour = bookingEnd.getUTCHours();
-  const bookingEndMinute = bookingEnd.getUTCMinutes();
-
-  // Convert to minutes for easier comparison
-  const slotStartMinutes = startHour * 60 + startMinute;
-  const slotEndMinutes = endHour * 60 + endMinute;
-  const bookingStartMinutes = bookingStartHour * 60 + bookingStartMinute;
-  const bookingEndMinutes = bookingEndHour * 60 + bookingEndMinute;
-
-  if (
-    bookingStartMinutes < slotStartMinutes ||
-    bookingEndMinutes > slotEndMinutes
-  ) {
+  if (!result.available) {
     return {
       valid: false,
-      error: `Booking time must be between ${timeSlot.startTime} and ${timeSlot.endTime} UTC`,
+      error: result.reason,
     };
   }
 
@@ -198,6 +196,24 @@ export function checkConflicts(
   return { hasConflict: false };
 }
 
+export type BookingRole = "student" | "tutor" | "admin";
+
+/**
+ * Role of a user in a booking, or null if they have no access
+ *
+ * Admins can view a booking's session content (e.g. for disputes) but
+ * don't take part in it.
+ */
+export function getBookingRole(
+  booking: Pick<Booking, "studentId"> & { tutor: { userId: string } },
+  user: { id: string; role: string }
+): BookingRole | null {
+  if (booking.studentId === user.id) return "student";
+  if (booking.tutor.userId === user.id) return "tutor";
+  if (user.role === "ADMIN") return "admin";
+  return null;
+}
+
 /**
  * Validate booking can be cancelled
  */
@@ -243,6 +259,56 @@ export function isLateCancellation(booking: Booking): boolean {
   return hoursUntilBooking < 12;
 }
 
+/**
+ * Share of the price refunded when a student cancels late (percent)
+ */
+export const LATE_CANCELLATION_REFUND_PERCENT = 50;
+
+/**
+ * Unused minutes tolerated before an early call end is refunded
+ */
+export const PRORATED_REFUND_GRACE_MINUTES = 5;
+
+/**
+ * Calculate the refund for a cancelled paid booking
+ * - Tutor and admin cancellations: full price
+ * - Student cancellations: full price, or LATE_CANCELLATION_REFUND_PERCENT if late
+ */
+export function calculateCancellationRefund(
+  booking: Booking,
+  isStudentCancelling: boolean
+): number {
+  if (!isStudentCancelling || !isLateCancellation(booking)) {
+    return booking.price;
+  }
+
+  return Math.round(booking.price * LATE_CANCELLATION_REFUND_PERCENT) / 100;
+}
+
+/**
+ * Calculate the prorated refund when a tutor ends a call early
+ *
+ * Time is counted from the later of the scheduled start and the actual call
+ * start, so a late start by the tutor doesn't count against the student.
+ */
+export function calculateProratedRefund(
+  booking: Pick<Booking, "price" | "duration" | "scheduledAt" | "callStartedAt">,
+  endedAt: Date
+): number {
+  const startedAt =
+    booking.callStartedAt && booking.callStartedAt > booking.scheduledAt
+      ? booking.callStartedAt
+      : booking.scheduledAt;
+  const usedMinutes = Math.max(0, (endedAt.getTime() - startedAt.getTime()) / (1000 * 60));
+  const unusedMinutes = Math.min(booking.duration, booking.duration - usedMinutes);
+
+  if (unusedMinutes <= PRORATED_REFUND_GRACE_MINUTES) {
+    return 0;
+  }
+
+  return Math.round(booking.price * (unusedMinutes / booking.duration) * 100) / 100;
+}
+
 /**
  * Check if user is currently penalized
  */
@@ -259,8 +325,20 @@ export async function isUserPenalized(userId: string, prisma: any): Promise<bool
   return new Date() < new Date(user.penaltyUntil);
 }
 
+/**
+ * Late cancellations tolerated in the last 30 days; one more applies a penalty
+ */
+export const LATE_CANCELLATION_PENALTY_THRESHOLD = 2;
+
+/**
+ * Length of the booking ban applied by the penalty
+ */
+export const LATE_CANCELLATION_PENALTY_DAYS = 7;
+
 /**
  * Count late cancellations in the last period (for penalty calculation)
+ *
+ * Student no-shows count as late cancellations, unless excused on appeal.
  */
 export async function countLateCancellations(
   userId: string,
@@ -272,17 +350,55 @@ export async function countLateCancellations(
   const lateCancellations = await prisma.booking.count({
     where: {
       studentId: userId,
-      status: "CANCELLED",
-      isLateCancellation: true,
-      cancelledAt: {
-        gte: cutoffDate,
-      },
+      OR: [
+        {
+          status: "CANCELLED",
+          isLateCancellation: true,
+          cancelledAt: {
+            gte: cutoffDate,
+          },
+        },
+        {
+          status: "NO_SHOW_STUDENT",
+          noShowExcused: false,
+          scheduledAt: {
+            gte: cutoffDate,
+          },
+        },
+      ],
     },
   });
 
   return lateCancellations;
 }
 
+/**
+ * Apply the penalty (1 week booking ban) once a student has more than
+ * LATE_CANCELLATION_PENALTY_THRESHOLD late cancellations
+ *
+ * Returns the count and the penalty end date (null if no penalty was applied)
+ */
+export async function applyLateCancellationPenalty(
+  userId: string,
+  prisma: Prisma.TransactionClient | PrismaClient
+): Promise<{ lateCancellationCount: number; penaltyUntil: Date | null }> {
+  const lateCancellationCount = await countLateCancellations(userId, prisma);
+
+  if (lateCancellationCount <= LATE_CANCELLATION_PENALTY_THRESHOLD) {
+    return { lateCancellationCount, penaltyUntil: null };
+  }
+
+  const penaltyUntil = new Date();
+  penaltyUntil.setDate(penaltyUntil.getDate() + LATE_CANCELLATION_PENALTY_DAYS);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { penaltyUntil },
+  });
+
+  return { lateCancellationCount, penaltyUntil };
+}
+
 /**
  * Validate booking can be rescheduled
  */
@@ -328,10 +444,12 @@ export function getValidStatusTransitions(
 ): Booking["status"][] {
   const transitions: Record<Booking["status"], Booking["status"][]> = {
     PENDING: ["CONFIRMED", "CANCELLED"],
-    CONFIRMED: ["COMPLETED", "CANCELLED"],
+    CONFIRMED: ["COMPLETED", "CANCELLED", "NO_SHOW_STUDENT", "NO_SHOW_TUTOR"],
     COMPLETED: [], // Terminal state
     CANCELLED: [], // Terminal state
     REFUNDED: [], // Terminal state
+    NO_SHOW_STUDENT: [], // Terminal state (can be excused on appeal)
+    NO_SHOW_TUTOR: [], // Terminal state
   };
 
   return transitions[currentStatus] || [];
@@ -0,0 +1,58 @@
+/**
+ * Email Localization
+ *
+ * Emails are rendered in the recipient's stored locale (User.locale) using
+ * the same message catalogs as the app ("emails" namespace), with dates in
+ * the recipient's timezone (User.timezone).
+ * Locales without a catalog fall back to English.
+ */
+
+import { createTranslator } from "next-intl";
+import { defaultLocale, isValidLocale } from "@/config/i18n/config";
+import { resolveTimeZone } from "@/lib/utils/timezone";
+import en from "@/messages/en.json";
+import es from "@/messages/es.json";
+
+const catalogs: Record<string, typeof en> = { en, es };
+
+/**
+ * Locale emails are rendered in
+ */
+export function getEmailLocale(locale?: string | null): string {
+  return locale && isValidLocale(locale) && catalogs[locale] ? locale : defaultLocale;
+}
+
+/**
+ * Translator for the "emails" namespace
+ */
+export function getEmailTranslator(locale?: string | null) {
+  const emailLocale = getEmailLocale(locale);
+  return createTranslator({
+    locale: emailLocale,
+    messages: catalogs[emailLocale],
+    namespace: "emails",
+  });
+}
+
+export type EmailTranslator = ReturnType<typeof getEmailTranslator>;
+
+/**
+ * Format a session date and time for the recipient, e.g.
+ * "Monday, March 2, 2026 at 6:00 PM GMT+1"
+ */
+export function formatEmailDateTime(
+  date: Date,
+  locale?: string | null,
+  timezone?: string | null
+): string {
+  return new Date(date).toLocaleString(getEmailLocale(locale), {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: resolveTimeZone(timezone),
+    timeZoneName: "short",
+  });
+}
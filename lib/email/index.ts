@@ -3,19 +3,42 @@
  * 
  * Centralized email sending functionality
  * Exports all email templates and utilities
+ *
+ * Every send function queues the email in the outbox (see ./outbox):
+ * - Without a transaction it's delivered right away, failures are retried by the worker
+ * - With `tx` it's only queued; call deliverQueuedEmails once the transaction commits
+ * - With `userId`, categories the user turned off are skipped and unsubscribe links are added
+ * - Booking emails carry an .ics invite that adds, moves or removes the session
  */
 
-import { sendEmail } from "./resend";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { logger } from "@/lib/logger";
+import { isEmailCategoryEnabled } from "@/lib/notifications/preferences";
+import { getUnsubscribeUrls } from "@/lib/notifications/unsubscribe";
 import {
+  createCalendar,
+  getBookingCalendarEvent,
+  type CalendarEventStatus,
+  type CalendarMethod,
+} from "@/lib/booking/calendar";
+import { deliverEmail, enqueueEmail, type EmailDeliveryResult, type QueuedEmail } from "./outbox";
+import { FROM_EMAIL, FROM_NAME } from "./resend";
+import type { EmailAttachment } from "./transport";
+import {
+  addEmailPreferencesFooter,
   emailVerificationTemplate,
   welcomeEmailTemplate,
   tutorApprovalTemplate,
   passwordResetTemplate,
   bookingConfirmationTemplate,
+  bookingRescheduledTemplate,
   paymentReceiptTemplate,
   sessionReminderTemplate,
   bookingCancellationTemplate,
+  unreadMessagesDigestTemplate,
 } from "./templates";
+import { getEmailLocale, getEmailTranslator } from "./i18n";
 
 export { resend, sendEmail, FROM_EMAIL, FROM_NAME } from "./resend";
 export {
@@ -24,249 +47,613 @@ export {
   tutorApprovalTemplate,
   passwordResetTemplate,
   bookingConfirmationTemplate,
+  bookingRescheduledTemplate,
   paymentReceiptTemplate,
   sessionReminderTemplate,
   bookingCancellationTemplate,
+  unreadMessagesDigestTemplate,
 } from "./templates";
+export { getEmailLocale, getEmailTranslator, formatEmailDateTime } from "./i18n";
+export {
+  EMAIL_MAX_ATTEMPTS,
+  enqueueEmail,
+  deliverEmail,
+  deliverQueuedEmails,
+  processEmailOutbox,
+} from "./outbox";
+export type { EmailDeliveryResult } from "./outbox";
+
+export interface EmailOptions {
+  /** Recipient's account, for the delivery history */
+  userId?: string | null;
+  /** Emails with the same key are only sent once */
+  dedupKey?: string;
+  /** Queue inside this transaction instead of sending right away */
+  tx?: Prisma.TransactionClient;
+}
+
+/**
+ * Queue an email and deliver it unless it's part of a transaction
+ * Emails of a category the recipient turned off are skipped
+ */
+async function queueEmail(
+  {
+    locale,
+    ...email
+  }: Omit<QueuedEmail, "userId" | "dedupKey" | "headers"> & { locale?: string },
+  { tx, userId, dedupKey }: EmailOptions = {}
+): Promise<EmailDeliveryResult> {
+  const db = tx ?? prisma;
+
+  try {
+    if (userId && email.category && !(await isEmailCategoryEnabled(db, userId, email.category))) {
+      logger.info("Email skipped by notification preferences", {
+        userId,
+        template: email.template,
+        category: email.category,
+      });
+      return { success: true, id: null };
+    }
+
+    // Transactional emails can't be turned off: their link unsubscribes from everything optional
+    const unsubscribeUrls = userId
+      ? getUnsubscribeUrls(userId, email.category ?? "ALL", getEmailLocale(locale))
+      : null;
+    const queued: QueuedEmail = {
+      ...email,
+      html: addEmailPreferencesFooter(email.html, {
+        category: email.category,
+        unsubscribeUrl: unsubscribeUrls?.pageUrl,
+        locale,
+      }),
+      headers: unsubscribeUrls
+        ? {
+            "List-Unsubscribe": `<${unsubscribeUrls.oneClickUrl}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+          }
+        : undefined,
+      userId,
+      dedupKey,
+    };
+
+    if (tx) {
+      const id = await enqueueEmail(tx, queued);
+      return { success: true, id };
+    }
+
+    const id = await enqueueEmail(prisma, queued);
+
+    if (!id) {
+      // Already queued under the same dedup key
+      return { success: true, id: null };
+    }
+
+    return await deliverEmail(prisma, id);
+  } catch (error) {
+    // Inside a transaction the caller must see the failure so it rolls back
+    if (tx) throw error;
+
+    await logger.error("Failed to queue email", error, { to: email.to, template: email.template });
+    return {
+      success: false,
+      id: null,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+interface InviteBooking {
+  id: string;
+  scheduledAt: Date;
+  duration?: number;
+  calendarSequence?: number;
+  sessionUrl?: string; // This booking's join link, when the email covers several
+}
+
+/**
+ * .ics invite for a booking email, with one event per booking
+ * REQUEST adds or updates the recipient's events, CANCEL removes them
+ */
+function getBookingInvite(
+  method: Exclude<CalendarMethod, "PUBLISH">,
+  bookings: InviteBooking[],
+  {
+    email,
+    name,
+    otherName,
+    sessionUrl,
+    status,
+    locale,
+  }: {
+    email: string;
+    name?: string;
+    otherName?: string;
+    sessionUrl?: string;
+    status: CalendarEventStatus;
+    locale?: string;
+  }
+): EmailAttachment[] {
+  const events = bookings.map((booking) => ({
+    ...getBookingCalendarEvent(
+      { ...booking, calendarSequence: booking.calendarSequence ?? 0 },
+      { name: otherName, sessionUrl: booking.sessionUrl ?? sessionUrl, status, locale }
+    ),
+    organizer: { email: FROM_EMAIL, name: FROM_NAME },
+    attendee: { email, name },
+  }));
+
+  return [
+    {
+      filename: method === "CANCEL" ? "cancel.ics" : "invite.ics",
+      content: createCalendar(events, { method }),
+      contentType: `text/calendar; charset=utf-8; method=${method}`,
+    },
+  ];
+}
 
 /**
  * Send email verification email
  */
-export async function sendVerificationEmail({
-  email,
-  name,
-  verificationUrl,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  verificationUrl: string;
-  locale?: string;
-}) {
-  return sendEmail({
-    to: email,
-    subject: "Verify your email address - Linglix",
-    html: emailVerificationTemplate({ name, verificationUrl, locale }),
-  });
+export async function sendVerificationEmail(
+  {
+    email,
+    name,
+    verificationUrl,
+    locale,
+  }: {
+    email: string;
+    name?: string;
+    verificationUrl: string;
+    locale?: string;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "verification",
+      locale,
+      subject: getEmailTranslator(locale)("verification.subject"),
+      html: emailVerificationTemplate({ name, verificationUrl, locale }),
+    },
+    options
+  );
 }
 
 /**
  * Send welcome email
  */
-export async function sendWelcomeEmail({
-  email,
-  name,
-  role,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  role: "STUDENT" | "TUTOR";
-  locale?: string;
-}) {
-  return sendEmail({
-    to: email,
-    subject: `Welcome to Linglix${name ? `, ${name}` : ""}!`,
-    html: welcomeEmailTemplate({ name, role, locale }),
-  });
+export async function sendWelcomeEmail(
+  {
+    email,
+    name,
+    role,
+    locale,
+  }: {
+    email: string;
+    name?: string;
+    role: "STUDENT" | "TUTOR";
+    locale?: string;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "welcome",
+      locale,
+      subject: name
+        ? getEmailTranslator(locale)("welcome.subjectNamed", { name })
+        : getEmailTranslator(locale)("welcome.subject"),
+      html: welcomeEmailTemplate({ name, role, locale }),
+    },
+    options
+  );
 }
 
 /**
  * Send tutor approval/rejection email
  */
-export async function sendTutorApprovalEmail({
-  email,
-  name,
-  approved,
-  rejectionReason,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  approved: boolean;
-  rejectionReason?: string;
-  locale?: string;
-}) {
-  return sendEmail({
-    to: email,
-    subject: approved
-      ? "Your tutor profile has been approved! - Linglix"
-      : "Tutor profile review update - Linglix",
-    html: tutorApprovalTemplate({ name, approved, rejectionReason, locale }),
-  });
+export async function sendTutorApprovalEmail(
+  {
+    email,
+    name,
+    approved,
+    rejectionReason,
+    locale,
+  }: {
+    email: string;
+    name?: string;
+    approved: boolean;
+    rejectionReason?: string;
+    locale?: string;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "tutorApproval",
+      locale,
+      subject: getEmailTranslator(locale)(
+        approved ? "tutorApproval.approvedSubject" : "tutorApproval.rejectedSubject"
+      ),
+      html: tutorApprovalTemplate({ name, approved, rejectionReason, locale }),
+    },
+    options
+  );
 }
 
 /**
  * Send password reset email
  */
-export async function sendPasswordResetEmail({
-  email,
-  name,
-  resetUrl,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  resetUrl: string;
-  locale?: string;
-}) {
-  return sendEmail({
-    to: email,
-    subject: "Reset your password - Linglix",
-    html: passwordResetTemplate({ name, resetUrl, locale }),
-  });
+export async function sendPasswordResetEmail(
+  {
+    email,
+    name,
+    resetUrl,
+    locale,
+  }: {
+    email: string;
+    name?: string;
+    resetUrl: string;
+    locale?: string;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "passwordReset",
+      locale,
+      subject: getEmailTranslator(locale)("passwordReset.subject"),
+      html: passwordResetTemplate({ name, resetUrl, locale }),
+    },
+    options
+  );
 }
 
 /**
  * Send booking confirmation email
  */
-export async function sendBookingConfirmationEmail({
-  email,
-  name,
-  tutorName,
-  scheduledAt,
-  duration,
-  price,
-  bookingUrl,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  tutorName: string;
-  scheduledAt: Date;
-  duration: number;
-  price: number;
-  bookingUrl?: string;
-  locale?: string;
-}) {
-  return sendEmail({
-    to: email,
-    subject: `Booking confirmed with ${tutorName} - Linglix`,
-    html: bookingConfirmationTemplate({
-      name,
-      tutorName,
-      scheduledAt,
-      duration,
-      price,
-      bookingUrl,
+export async function sendBookingConfirmationEmail(
+  {
+    email,
+    name,
+    tutorName,
+    scheduledAt,
+    duration,
+    price,
+    bookingUrl,
+    bookingId,
+    calendarSequence,
+    sessionUrl,
+    locale,
+    timezone,
+  }: {
+    email: string;
+    name?: string;
+    tutorName: string;
+    scheduledAt: Date;
+    duration: number;
+    price: number;
+    bookingUrl?: string;
+    bookingId?: string; // Attaches an .ics invite for the session
+    calendarSequence?: number;
+    sessionUrl?: string; // Join link in the invite
+    locale?: string;
+    timezone?: string | null;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "bookingConfirmation",
+      category: "BOOKING_UPDATES",
+      locale,
+      subject: getEmailTranslator(locale)("bookingConfirmation.subject", { name: tutorName }),
+      html: bookingConfirmationTemplate({
+        name,
+        tutorName,
+        scheduledAt,
+        duration,
+        price,
+        bookingUrl,
+        locale,
+        timezone,
+      }),
+      attachments: bookingId
+        ? getBookingInvite(
+            "REQUEST",
+            [{ id: bookingId, scheduledAt, duration, calendarSequence }],
+            { email, name, otherName: tutorName, sessionUrl, status: "CONFIRMED", locale }
+          )
+        : undefined,
+    },
+    options
+  );
+}
+
+/**
+ * Send booking rescheduled email
+ * Sent to both participants; the invite marks the new time tentative until the tutor confirms it
+ */
+export async function sendBookingRescheduledEmail(
+  {
+    email,
+    name,
+    otherName,
+    scheduledAt,
+    previousScheduledAt,
+    duration,
+    isTutor,
+    bookingId,
+    calendarSequence,
+    sessionUrl,
+    bookings,
+    locale,
+    timezone,
+  }: {
+    email: string;
+    name?: string;
+    otherName?: string;
+    scheduledAt: Date;
+    previousScheduledAt: Date;
+    duration: number;
+    isTutor: boolean;
+    bookingId: string;
+    calendarSequence: number;
+    sessionUrl?: string;
+    bookings?: InviteBooking[]; // Every moved occurrence of a series; defaults to this booking
+    locale?: string;
+    timezone?: string | null;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "bookingRescheduled",
+      category: "BOOKING_UPDATES",
       locale,
-    }),
-  });
+      subject: getEmailTranslator(locale)("bookingRescheduled.subject"),
+      html: bookingRescheduledTemplate({
+        name,
+        otherName,
+        scheduledAt,
+        previousScheduledAt,
+        duration,
+        isTutor,
+        locale,
+        timezone,
+      }),
+      attachments: getBookingInvite(
+        "REQUEST",
+        bookings ?? [{ id: bookingId, scheduledAt, duration, calendarSequence }],
+        { email, name, otherName, sessionUrl, status: "TENTATIVE", locale }
+      ),
+    },
+    options
+  );
 }
 
 /**
  * Send payment receipt email
  */
-export async function sendPaymentReceiptEmail({
-  email,
-  name,
-  amount,
-  currency,
-  bookingId,
-  tutorName,
-  scheduledAt,
-  receiptUrl,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  amount: number;
-  currency: string;
-  bookingId: string;
-  tutorName: string;
-  scheduledAt: Date;
-  receiptUrl?: string;
-  locale?: string;
-}) {
-  return sendEmail({
-    to: email,
-    subject: `Payment receipt - Booking ${bookingId} - Linglix`,
-    html: paymentReceiptTemplate({
-      name,
-      amount,
-      currency,
-      bookingId,
-      tutorName,
-      scheduledAt,
-      receiptUrl,
+export async function sendPaymentReceiptEmail(
+  {
+    email,
+    name,
+    amount,
+    currency,
+    settlementAmount,
+    bookingId,
+    tutorName,
+    scheduledAt,
+    receiptUrl,
+    refundedAmount,
+    locale,
+    timezone,
+  }: {
+    email: string;
+    name?: string;
+    amount: number;
+    currency: string;
+    settlementAmount?: number;
+    bookingId: string;
+    tutorName: string;
+    scheduledAt: Date;
+    receiptUrl?: string;
+    refundedAmount?: number;
+    locale?: string;
+    timezone?: string | null;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "paymentReceipt",
       locale,
-    }),
-  });
+      subject: getEmailTranslator(locale)(
+        refundedAmount ? "paymentReceipt.updatedSubject" : "paymentReceipt.subject",
+        { bookingId }
+      ),
+      html: paymentReceiptTemplate({
+        name,
+        amount,
+        currency,
+        settlementAmount,
+        bookingId,
+        tutorName,
+        scheduledAt,
+        receiptUrl,
+        refundedAmount,
+        locale,
+        timezone,
+      }),
+    },
+    options
+  );
 }
 
 /**
  * Send session reminder email
  */
-export async function sendSessionReminderEmail({
-  email,
-  name,
-  tutorName,
-  scheduledAt,
-  duration,
-  sessionUrl,
-  hoursUntil,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  tutorName: string;
-  scheduledAt: Date;
-  duration: number;
-  sessionUrl: string;
-  hoursUntil: number;
-  locale?: string;
-}) {
-  const timeText = hoursUntil === 24 ? "24 hours" : hoursUntil === 1 ? "1 hour" : `${hoursUntil} hours`;
+export async function sendSessionReminderEmail(
+  {
+    email,
+    name,
+    tutorName,
+    scheduledAt,
+    duration,
+    sessionUrl,
+    hoursUntil,
+    locale,
+    timezone,
+  }: {
+    email: string;
+    name?: string;
+    tutorName: string;
+    scheduledAt: Date;
+    duration: number;
+    sessionUrl: string;
+    hoursUntil: number;
+    locale?: string;
+    timezone?: string | null;
+  },
+  options?: EmailOptions
+) {
+  const t = getEmailTranslator(locale);
   
-  return sendEmail({
-    to: email,
-    subject: `Session reminder: Your session starts in ${timeText} - Linglix`,
-    html: sessionReminderTemplate({
-      name,
-      tutorName,
-      scheduledAt,
-      duration,
-      sessionUrl,
-      hoursUntil,
+  return queueEmail(
+    {
+      to: email,
+      template: "sessionReminder",
+      category: "REMINDERS",
       locale,
-    }),
-  });
+      subject: t("sessionReminder.subject", { time: t("common.hours", { hours: hoursUntil }) }),
+      html: sessionReminderTemplate({
+        name,
+        tutorName,
+        scheduledAt,
+        duration,
+        sessionUrl,
+        hoursUntil,
+        locale,
+        timezone,
+      }),
+    },
+    options
+  );
 }
 
 /**
  * Send booking cancellation email
  */
-export async function sendBookingCancellationEmail({
-  email,
-  name,
-  tutorName,
-  studentName,
-  scheduledAt,
-  refundAmount,
-  isTutor,
-  locale,
-}: {
-  email: string;
-  name?: string;
-  tutorName?: string;
-  studentName?: string;
-  scheduledAt: Date;
-  refundAmount?: number;
-  isTutor: boolean;
-  locale?: string;
-}) {
-  return sendEmail({
-    to: email,
-    subject: "Booking cancelled - Linglix",
-    html: bookingCancellationTemplate({
-      name,
-      tutorName,
-      studentName,
-      scheduledAt,
-      refundAmount,
-      isTutor,
+export async function sendBookingCancellationEmail(
+  {
+    email,
+    name,
+    tutorName,
+    studentName,
+    scheduledAt,
+    refundAmount,
+    paidAmount,
+    currency,
+    isTutor,
+    bookings,
+    locale,
+    timezone,
+  }: {
+    email: string;
+    name?: string;
+    tutorName?: string;
+    studentName?: string;
+    scheduledAt: Date;
+    refundAmount?: number;
+    paidAmount?: number;
+    currency?: string;
+    isTutor: boolean;
+    bookings?: InviteBooking[]; // Attaches an .ics cancellation that removes these sessions
+    locale?: string;
+    timezone?: string | null;
+  },
+  options?: EmailOptions
+) {
+  return queueEmail(
+    {
+      to: email,
+      template: "bookingCancellation",
+      category: "BOOKING_UPDATES",
       locale,
-    }),
-  });
+      subject: getEmailTranslator(locale)("bookingCancellation.subject"),
+      html: bookingCancellationTemplate({
+        name,
+        tutorName,
+        studentName,
+        scheduledAt,
+        refundAmount,
+        paidAmount,
+        currency,
+        isTutor,
+        locale,
+        timezone,
+      }),
+      attachments: bookings?.length
+        ? getBookingInvite(
+            "CANCEL",
+            bookings,
+            {
+              email,
+              name,
+              otherName: isTutor ? studentName : tutorName,
+              status: "CANCELLED",
+              locale,
+            }
+          )
+        : undefined,
+    },
+    options
+  );
 }
 
+/**
+ * Send unread messages digest email
+ */
+export async function sendUnreadMessagesDigestEmail(
+  {
+    email,
+    name,
+    conversations,
+    inboxUrl,
+    locale,
+  }: {
+    email: string;
+    name?: string;
+    conversations: Array<{ senderName: string; count: number; preview: string }>;
+    inboxUrl: string;
+    locale?: string;
+  },
+  options?: EmailOptions
+) {
+  const total = conversations.reduce((sum, conversation) => sum + conversation.count, 0);
+
+  return queueEmail(
+    {
+      to: email,
+      template: "unreadMessages",
+      category: "REMINDERS",
+      locale,
+      subject: getEmailTranslator(locale)("unreadMessages.subject", { count: total }),
+      html: unreadMessagesDigestTemplate({
+        name,
+        conversations,
+        inboxUrl,
+        locale,
+      }),
+    },
+    options
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Email Outbox
+ *
+ * Emails are never sent inline. They are queued in EmailOutbox - in the same
+ * transaction as the change that triggers them when there is one - and then
+ * delivered through the configured transport:
+ * - Right away after queueing (or after the transaction commits)
+ * - By the cron worker, which retries failed attempts with exponential backoff
+ *
+ * A dedup key makes queueing idempotent: reminders and other emails sent from
+ * loops that may run twice are only queued (and sent) once.
+ */
+
+import {
+  EmailStatus,
+  type NotificationCategory,
+  type Prisma,
+  type PrismaClient,
+} from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { getEmailTransport, type EmailAttachment, type OutgoingEmail } from "./transport";
+
+/**
+ * Delivery attempts before an email is marked as FAILED
+ */
+export const EMAIL_MAX_ATTEMPTS = 6;
+
+/**
+ * Delay before the first retry; doubles after every failed attempt
+ */
+export const EMAIL_RETRY_BASE_DELAY_MINUTES = 5;
+
+/**
+ * SENDING claims older than this are assumed abandoned (worker crashed) and retried
+ */
+export const EMAIL_SENDING_TIMEOUT_MINUTES = 15;
+
+/**
+ * Emails delivered per worker run
+ */
+export const EMAIL_OUTBOX_BATCH_SIZE = 100;
+
+export interface QueuedEmail {
+  to: string;
+  template: string;
+  category?: NotificationCategory | null;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+  userId?: string | null;
+  dedupKey?: string;
+}
+
+export interface EmailDeliveryResult {
+  success: boolean;
+  id: string | null;
+  status?: EmailStatus;
+  error?: string;
+}
+
+/**
+ * Wait before the next attempt after `attempts` failed attempts (5m, 10m, 20m, ...)
+ */
+export function getEmailRetryDelayMs(attempts: number): number {
+  return EMAIL_RETRY_BASE_DELAY_MINUTES * 60 * 1000 * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * Queue an email for delivery
+ * Pass a transaction client to queue it atomically with the change that triggers it
+ *
+ * @returns The outbox id, or null when an email with the same dedup key was already queued
+ */
+export async function enqueueEmail(
+  db: Prisma.TransactionClient | PrismaClient,
+  email: QueuedEmail,
+  now = new Date()
+): Promise<string | null> {
+  // skipDuplicates: a unique violation would abort the caller's transaction
+  const [queued] = await db.emailOutbox.createManyAndReturn({
+    data: [
+      {
+        to: email.to,
+        template: email.template,
+        category: email.category ?? null,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: email.headers,
+        attachments: email.attachments as Prisma.InputJsonArray | undefined,
+        userId: email.userId ?? null,
+        dedupKey: email.dedupKey ?? null,
+        nextAttemptAt: now,
+      },
+    ],
+    skipDuplicates: true,
+    select: { id: true },
+  });
+
+  return queued?.id ?? null;
+}
+
+/**
+ * Deliver one queued email
+ * Claims the row first, so concurrent workers never send the same email twice
+ */
+export async function deliverEmail(
+  db: Prisma.TransactionClient | PrismaClient,
+  id: string,
+  now = new Date()
+): Promise<EmailDeliveryResult> {
+  const claimed = await db.emailOutbox.updateMany({
+    where: { id, status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+    data: { status: EmailStatus.SENDING, attempts: { increment: 1 } },
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, id, error: "Email is not due for delivery" };
+  }
+
+  const email = await db.emailOutbox.findUniqueOrThrow({
+    where: { id },
+  });
+
+  let result;
+  try {
+    result = await getEmailTransport().send({
+      ...email,
+      headers: email.headers as OutgoingEmail["headers"],
+      attachments: email.attachments as OutgoingEmail["attachments"],
+    });
+  } catch (error) {
+    result = {
+      success: false as const,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  if (result.success) {
+    await db.emailOutbox.update({
+      where: { id },
+      data: {
+        status: EmailStatus.SENT,
+        sentAt: new Date(),
+        providerMessageId: result.messageId ?? null,
+        lastError: null,
+      },
+    });
+
+    return { success: true, id, status: EmailStatus.SENT };
+  }
+
+  const failed = email.attempts >= EMAIL_MAX_ATTEMPTS;
+  const status = failed ? EmailStatus.FAILED : EmailStatus.PENDING;
+
+  await db.emailOutbox.update({
+    where: { id },
+    data: {
+      status,
+      lastError: result.error,
+      nextAttemptAt: failed
+        ? email.nextAttemptAt
+        : new Date(now.getTime() + getEmailRetryDelayMs(email.attempts)),
+    },
+  });
+
+  await logger.error("Email delivery failed", new Error(result.error), {
+    emailId: id,
+    template: email.template,
+    attempts: email.attempts,
+    status,
+  });
+
+  return { success: false, id, status, error: result.error };
+}
+
+/**
+ * Deliver emails queued inside a transaction, once it has committed
+ * Failures stay in the outbox for the worker to retry
+ */
+export async function deliverQueuedEmails(
+  db: Prisma.TransactionClient | PrismaClient,
+  ids: Array<string | null>
+) {
+  for (const id of ids) {
+    if (!id) continue;
+
+    try {
+      await deliverEmail(db, id);
+    } catch (error) {
+      await logger.error("Failed to deliver queued email", error, { emailId: id });
+    }
+  }
+}
+
+/**
+ * Outbox worker: deliver every email that is due
+ */
+export async function processEmailOutbox(
+  db: Prisma.TransactionClient | PrismaClient,
+  now = new Date(),
+  limit = EMAIL_OUTBOX_BATCH_SIZE
+) {
+  // Release claims left behind by a worker that died mid-send
+  const released = await db.emailOutbox.updateMany({
+    where: {
+      status: EmailStatus.SENDING,
+      updatedAt: { lt: new Date(now.getTime() - EMAIL_SENDING_TIMEOUT_MINUTES * 60 * 1000) },
+    },
+    data: { status: EmailStatus.PENDING },
+  });
+
+  const due = await db.emailOutbox.findMany({
+    where: {
+      status: EmailStatus.PENDING,
+      nextAttemptAt: { lte: now },
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  const results = { released: released.count, sent: 0, retrying: 0, failed: 0 };
+
+  for (const { id } of due) {
+    const result = await deliverEmail(db, id, now);
+
+    if (result.success) {
+      results.sent++;
+    } else if (result.status === EmailStatus.FAILED) {
+      results.failed++;
+    } else if (result.status === EmailStatus.PENDING) {
+      results.retrying++;
+    }
+  }
+
+  return results;
+}
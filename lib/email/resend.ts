@@ -27,6 +27,8 @@ export const FROM_NAME = process.env.FROM_NAME || "Linglix";
  * @param subject - Email subject
  * @param html - HTML email content
  * @param text - Plain text email content (optional)
+ * @param headers - Extra headers, e.g. List-Unsubscribe (optional)
+ * @param attachments - Attached files, e.g. .ics invites (optional)
  * @returns Promise with email result
  */
 export async function sendEmail({
@@ -34,11 +36,15 @@ export async function sendEmail({
   subject,
   html,
   text,
+  headers,
+  attachments,
 }: {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  headers?: Record<string, string>;
+  attachments?: Array<{ filename: string; content: Buffer; contentType?: string }>;
 }) {
   if (!resend) {
     logger.warn("Resend is not configured. Email not sent.", { to, subject });
@@ -52,6 +58,8 @@ export async function sendEmail({
       subject,
       html,
       text: text || html.replace(/<[^>]*>/g, ""), // Strip HTML tags for text version
+      headers,
+      attachments,
     });
 
     if (error) {
@@ -3,8 +3,19 @@
  * 
  * Production-ready email templates for Linglix
  * All templates are responsive and work in both light and dark mode email clients
+ * Copy comes from the "emails" message namespace in the recipient's locale
  */
 
+import type { NotificationCategory } from "@prisma/client";
+import { formatCurrency, SETTLEMENT_CURRENCY } from "@/lib/booking/currency";
+import { getBaseUrl, getDashboardUrl } from "@/lib/utils/url";
+import {
+  formatEmailDateTime,
+  getEmailLocale,
+  getEmailTranslator,
+  type EmailTranslator,
+} from "./i18n";
+
 interface EmailVerificationProps {
   name?: string;
   verificationUrl: string;
@@ -38,17 +49,32 @@ interface BookingConfirmationProps {
   price: number;
   bookingUrl?: string;
   locale?: string;
+  timezone?: string | null; // Recipient's timezone for dates (defaults to UTC)
+}
+
+interface BookingRescheduledProps {
+  name?: string;
+  otherName?: string; // Student for tutors, tutor for students
+  scheduledAt: Date;
+  previousScheduledAt: Date;
+  duration: number;
+  isTutor: boolean;
+  locale?: string;
+  timezone?: string | null; // Recipient's timezone for dates (defaults to UTC)
 }
 
 interface PaymentReceiptProps {
   name?: string;
-  amount: number;
+  amount: number; // Amount charged, in currency
   currency: string;
+  settlementAmount?: number; // USD equivalent, shown when charged in another currency
   bookingId: string;
   tutorName: string;
   scheduledAt: Date;
   receiptUrl?: string;
+  refundedAmount?: number; // Total refunded so far (partial refunds), in currency
   locale?: string;
+  timezone?: string | null; // Recipient's timezone for dates (defaults to UTC)
 }
 
 interface SessionReminderProps {
@@ -59,6 +85,7 @@ interface SessionReminderProps {
   sessionUrl: string;
   hoursUntil: number;
   locale?: string;
+  timezone?: string | null; // Recipient's timezone for dates (defaults to UTC)
 }
 
 interface BookingCancellationProps {
@@ -67,19 +94,48 @@ interface BookingCancellationProps {
   studentName?: string;
   scheduledAt: Date;
   refundAmount?: number;
+  paidAmount?: number; // Shown next to partial refunds
+  currency?: string; // Currency of refundAmount/paidAmount (defaults to USD)
   isTutor: boolean;
   locale?: string;
+  timezone?: string | null; // Recipient's timezone for dates (defaults to UTC)
 }
 
+interface UnreadMessagesDigestProps {
+  name?: string;
+  conversations: Array<{
+    senderName: string;
+    count: number;
+    preview: string; // Latest unread message (user content - escaped when rendered)
+  }>;
+  inboxUrl: string;
+  locale?: string;
+}
+
+/**
+ * Greeting line, with the recipient's name when known
+ */
+function getGreeting(t: EmailTranslator, name?: string) {
+  return name ? t("common.greeting", { name }) : t("common.greetingAnonymous");
+}
+
+/**
+ * Where the notification footer goes; filled in when the email is queued,
+ * since only then the recipient's account is known
+ */
+const EMAIL_PREFERENCES_PLACEHOLDER = "<!-- email-preferences -->";
+
 /**
  * Base email template wrapper
  */
 function baseTemplate(content: string, locale: string = "en") {
-  const isRTL = locale === "ar" || locale === "he";
+  const emailLocale = getEmailLocale(locale);
+  const t = getEmailTranslator(emailLocale);
+  const isRTL = emailLocale === "ar" || emailLocale === "he";
   
   return `
 <!DOCTYPE html>
-<html lang="${locale}" dir="${isRTL ? "rtl" : "ltr"}">
+<html lang="${emailLocale}" dir="${isRTL ? "rtl" : "ltr"}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -151,11 +207,12 @@ function baseTemplate(content: string, locale: string = "en") {
       ${content}
     </div>
     <div class="footer">
-      <p>© ${new Date().getFullYear()} Linglix. All rights reserved.</p>
+      <p>${t("common.rights", { year: new Date().getFullYear() })}</p>
       <p>
-        <a href="https://linglix.com">Visit our website</a> | 
-        <a href="https://linglix.com/support">Support</a>
+        <a href="${getBaseUrl()}/${emailLocale}">${t("common.visitWebsite")}</a> | 
+        <a href="https://linglix.com/support">${t("common.support")}</a>
       </p>
+      ${EMAIL_PREFERENCES_PLACEHOLDER}
     </div>
   </div>
 </body>
@@ -171,20 +228,20 @@ export function emailVerificationTemplate({
   verificationUrl,
   locale = "en",
 }: EmailVerificationProps): string {
-  const greeting = name ? `Hello ${name},` : "Hello,";
+  const t = getEmailTranslator(locale);
   const content = `
-    <h2 style="margin-top: 0; color: #111;">Verify Your Email</h2>
-    <p>${greeting}</p>
-    <p>Thank you for signing up for Linglix! Please verify your email address by clicking the button below:</p>
+    <h2 style="margin-top: 0; color: #111;">${t("verification.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
+    <p>${t("verification.message")}</p>
     <div style="text-align: center;">
-      <a href="${verificationUrl}" class="button">Verify Email</a>
+      <a href="${verificationUrl}" class="button">${t("verification.button")}</a>
     </div>
     <p style="color: #666; font-size: 14px; margin-top: 24px;">
-      If the button doesn't work, copy and paste this link into your browser:<br>
+      ${t("common.linkFallback")}<br>
       <a href="${verificationUrl}" style="color: #111; word-break: break-all;">${verificationUrl}</a>
     </p>
     <p style="color: #666; font-size: 14px;">
-      This link will expire in 24 hours. If you didn't create an account, you can safely ignore this email.
+      ${t("verification.expiry")}
     </p>
   `;
   
@@ -199,21 +256,20 @@ export function welcomeEmailTemplate({
   role,
   locale = "en",
 }: WelcomeEmailProps): string {
-  const greeting = name ? `Welcome to Linglix, ${name}!` : "Welcome to Linglix!";
+  const t = getEmailTranslator(locale);
+  const greeting = name ? t("welcome.titleNamed", { name }) : t("welcome.title");
   const roleMessage =
-    role === "STUDENT"
-      ? "Start your language learning journey by browsing our expert tutors and booking your first session."
-      : "Your tutor profile is being reviewed. We'll notify you once it's approved so you can start teaching!";
+    role === "STUDENT" ? t("welcome.studentMessage") : t("welcome.tutorMessage");
   
   const content = `
     <h2 style="margin-top: 0; color: #111;">${greeting}</h2>
-    <p>We're excited to have you on board!</p>
+    <p>${t("welcome.excited")}</p>
     <p>${roleMessage}</p>
     <div style="text-align: center;">
-      <a href="https://linglix.com/dashboard" class="button">Go to Dashboard</a>
+      <a href="${getDashboardUrl(getEmailLocale(locale))}" class="button">${t("common.goToDashboard")}</a>
     </div>
     <p style="color: #666; font-size: 14px;">
-      If you have any questions, feel free to reach out to our support team.
+      ${t("welcome.questions")}
     </p>
   `;
   
@@ -229,28 +285,30 @@ export function tutorApprovalTemplate({
   rejectionReason,
   locale = "en",
 }: TutorApprovalProps): string {
-  const greeting = name ? `Hello ${name},` : "Hello,";
+  const t = getEmailTranslator(locale);
+  const greeting = getGreeting(t, name);
+  const dashboardUrl = getDashboardUrl(getEmailLocale(locale));
   
   const content = approved
     ? `
-      <h2 style="margin-top: 0; color: #FFE600;">Your Tutor Profile Has Been Approved!</h2>
+      <h2 style="margin-top: 0; color: #FFE600;">${t("tutorApproval.approvedTitle")}</h2>
       <p>${greeting}</p>
-      <p>Great news! Your tutor profile has been reviewed and approved. You can now start accepting bookings from students.</p>
+      <p>${t("tutorApproval.approvedMessage")}</p>
       <div style="text-align: center;">
-        <a href="https://linglix.com/dashboard" class="button">Go to Dashboard</a>
+        <a href="${dashboardUrl}" class="button">${t("common.goToDashboard")}</a>
       </div>
       <p style="color: #666; font-size: 14px;">
-        Start by setting your availability and creating your profile. Good luck with your teaching journey!
+        ${t("tutorApproval.approvedNextSteps")}
       </p>
     `
     : `
-      <h2 style="margin-top: 0; color: #ef4444;">Tutor Profile Review Update</h2>
+      <h2 style="margin-top: 0; color: #ef4444;">${t("tutorApproval.rejectedTitle")}</h2>
       <p>${greeting}</p>
-      <p>Thank you for your interest in becoming a tutor on Linglix. Unfortunately, your tutor profile was not approved at this time.</p>
-      ${rejectionReason ? `<p style="background-color: #fef2f2; padding: 16px; border-radius: 8px; border-left: 4px solid #ef4444;"><strong>Reason:</strong> ${rejectionReason}</p>` : ""}
-      <p>You can update your profile and resubmit for review, or contact our support team if you have any questions.</p>
+      <p>${t("tutorApproval.rejectedMessage")}</p>
+      ${rejectionReason ? `<p style="background-color: #fef2f2; padding: 16px; border-radius: 8px; border-left: 4px solid #ef4444;"><strong>${t("tutorApproval.reason")}</strong> ${rejectionReason}</p>` : ""}
+      <p>${t("tutorApproval.rejectedNextSteps")}</p>
       <div style="text-align: center;">
-        <a href="https://linglix.com/dashboard" class="button">Update Profile</a>
+        <a href="${dashboardUrl}" class="button">${t("tutorApproval.updateProfile")}</a>
       </div>
     `;
   
@@ -265,20 +323,20 @@ export function passwordResetTemplate({
   resetUrl,
   locale = "en",
 }: PasswordResetProps): string {
-  const greeting = name ? `Hello ${name},` : "Hello,";
+  const t = getEmailTranslator(locale);
   const content = `
-    <h2 style="margin-top: 0; color: #111;">Reset Your Password</h2>
-    <p>${greeting}</p>
-    <p>We received a request to reset your password. Click the button below to create a new password:</p>
+    <h2 style="margin-top: 0; color: #111;">${t("passwordReset.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
+    <p>${t("passwordReset.message")}</p>
     <div style="text-align: center;">
-      <a href="${resetUrl}" class="button">Reset Password</a>
+      <a href="${resetUrl}" class="button">${t("passwordReset.button")}</a>
     </div>
     <p style="color: #666; font-size: 14px; margin-top: 24px;">
-      If the button doesn't work, copy and paste this link into your browser:<br>
+      ${t("common.linkFallback")}<br>
       <a href="${resetUrl}" style="color: #111; word-break: break-all;">${resetUrl}</a>
     </p>
     <p style="color: #666; font-size: 14px;">
-      This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.
+      ${t("passwordReset.expiry")}
     </p>
   `;
   
@@ -296,41 +354,73 @@ export function bookingConfirmationTemplate({
   price,
   bookingUrl,
   locale = "en",
+  timezone,
 }: BookingConfirmationProps): string {
-  const greeting = name ? `Hello ${name},` : "Hello,";
-  const dateTime = new Date(scheduledAt).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
+  const t = getEmailTranslator(locale);
+  const dateTime = formatEmailDateTime(scheduledAt, locale, timezone);
   
   // For students: "Your session with [Tutor]"
   // For tutors: "Your session with [Student]" (tutorName is actually student name in this case)
   const content = `
-    <h2 style="margin-top: 0; color: #FFE600;">Booking Confirmed!</h2>
-    <p>${greeting}</p>
-    <p>Your session with <strong>${tutorName}</strong> has been confirmed.</p>
+    <h2 style="margin-top: 0; color: #FFE600;">${t("bookingConfirmation.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
+    <p>${t("bookingConfirmation.message", { name: `<strong>${tutorName}</strong>` })}</p>
     <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 24px 0;">
-      <p style="margin: 0 0 8px 0;"><strong>Date & Time:</strong> ${dateTime}</p>
-      <p style="margin: 0 0 8px 0;"><strong>Duration:</strong> ${duration} minutes</p>
-      <p style="margin: 0;"><strong>Price:</strong> $${price.toFixed(2)}</p>
+      <p style="margin: 0 0 8px 0;"><strong>${t("common.dateTime")}</strong> ${dateTime}</p>
+      <p style="margin: 0 0 8px 0;"><strong>${t("common.duration")}</strong> ${t("common.minutes", { minutes: duration })}</p>
+      <p style="margin: 0;"><strong>${t("bookingConfirmation.price")}</strong> ${formatCurrency(price, SETTLEMENT_CURRENCY, getEmailLocale(locale))}</p>
     </div>
     ${bookingUrl ? `
       <div style="text-align: center;">
-        <a href="${bookingUrl}" class="button">View Booking</a>
+        <a href="${bookingUrl}" class="button">${t("bookingConfirmation.viewBooking")}</a>
       </div>
     ` : ""}
     <p style="color: #666; font-size: 14px;">
-      You'll receive a reminder 24 hours and 1 hour before your session. We look forward to seeing you!
+      ${t("bookingConfirmation.reminderNote")}
     </p>
   `;
   
   return baseTemplate(content, locale);
 }
 
+/**
+ * Booking rescheduled email template
+ */
+export function bookingRescheduledTemplate({
+  name,
+  otherName,
+  scheduledAt,
+  previousScheduledAt,
+  duration,
+  isTutor,
+  locale = "en",
+  timezone,
+}: BookingRescheduledProps): string {
+  const t = getEmailTranslator(locale);
+  const emailLocale = getEmailLocale(locale);
+  const otherParty = `<strong>${otherName || t("bookingRescheduled.someone")}</strong>`;
+
+  // Tutors are asked to confirm the new time, students wait for them
+  const content = `
+    <h2 style="margin-top: 0; color: #FFE600;">${t("bookingRescheduled.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
+    <p>${t(isTutor ? "bookingRescheduled.messageTutor" : "bookingRescheduled.messageStudent", { name: otherParty })}</p>
+    <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 24px 0;">
+      <p style="margin: 0 0 8px 0;"><strong>${t("bookingRescheduled.newDate")}</strong> ${formatEmailDateTime(scheduledAt, locale, timezone)}</p>
+      <p style="margin: 0 0 8px 0; color: #666;"><strong>${t("bookingRescheduled.previousDate")}</strong> <s>${formatEmailDateTime(previousScheduledAt, locale, timezone)}</s></p>
+      <p style="margin: 0;"><strong>${t("common.duration")}</strong> ${t("common.minutes", { minutes: duration })}</p>
+    </div>
+    <div style="text-align: center;">
+      <a href="${getDashboardUrl(emailLocale)}" class="button">${t(isTutor ? "bookingRescheduled.confirm" : "common.goToDashboard")}</a>
+    </div>
+    <p style="color: #666; font-size: 14px;">
+      ${t("bookingRescheduled.calendarNote")}
+    </p>
+  `;
+
+  return baseTemplate(content, locale);
+}
+
 /**
  * Payment receipt email template
  */
@@ -338,42 +428,45 @@ export function paymentReceiptTemplate({
   name,
   amount,
   currency,
+  settlementAmount,
   bookingId,
   tutorName,
   scheduledAt,
   receiptUrl,
+  refundedAmount,
   locale = "en",
+  timezone,
 }: PaymentReceiptProps): string {
-  const greeting = name ? `Hello ${name},` : "Hello,";
-  const dateTime = new Date(scheduledAt).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
+  const t = getEmailTranslator(locale);
+  const emailLocale = getEmailLocale(locale);
+  const dateTime = formatEmailDateTime(scheduledAt, locale, timezone);
   
   const content = `
-    <h2 style="margin-top: 0; color: #111;">Payment Receipt</h2>
-    <p>${greeting}</p>
-    <p>Thank you for your payment. Your receipt is below:</p>
+    <h2 style="margin-top: 0; color: #111;">${t("paymentReceipt.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
+    <p>${t("paymentReceipt.message")}</p>
     <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 24px 0;">
-      <p style="margin: 0 0 8px 0;"><strong>Booking ID:</strong> ${bookingId}</p>
-      <p style="margin: 0 0 8px 0;"><strong>Tutor:</strong> ${tutorName}</p>
-      <p style="margin: 0 0 8px 0;"><strong>Session Date:</strong> ${dateTime}</p>
-      <p style="margin: 0 0 16px 0;"><strong>Amount:</strong> ${currency.toUpperCase()} $${amount.toFixed(2)}</p>
+      <p style="margin: 0 0 8px 0;"><strong>${t("paymentReceipt.bookingId")}</strong> ${bookingId}</p>
+      <p style="margin: 0 0 8px 0;"><strong>${t("paymentReceipt.tutor")}</strong> ${tutorName}</p>
+      <p style="margin: 0 0 8px 0;"><strong>${t("paymentReceipt.sessionDate")}</strong> ${dateTime}</p>
+      <p style="margin: 0 0 ${refundedAmount ? "8px" : "16px"} 0;"><strong>${t("paymentReceipt.amount")}</strong> ${formatCurrency(amount, currency, emailLocale)}</p>
+      ${refundedAmount ? `
+        <p style="margin: 0 0 16px 0;"><strong>${t("paymentReceipt.refunded")}</strong> -${formatCurrency(refundedAmount, currency, emailLocale)}</p>
+      ` : ""}
       <div style="border-top: 1px solid #e5e5e5; padding-top: 16px; margin-top: 16px;">
-        <p style="margin: 0; font-size: 18px; font-weight: 700;">Total Paid: ${currency.toUpperCase()} $${amount.toFixed(2)}</p>
+        <p style="margin: 0; font-size: 18px; font-weight: 700;">${t("paymentReceipt.totalPaid", { amount: formatCurrency(amount - (refundedAmount || 0), currency, emailLocale) })}</p>
+        ${settlementAmount !== undefined && currency !== SETTLEMENT_CURRENCY ? `
+          <p style="margin: 8px 0 0 0; color: #666; font-size: 14px;">${t("paymentReceipt.chargedIn", { currency: currency.toUpperCase(), amount: formatCurrency(settlementAmount, SETTLEMENT_CURRENCY, emailLocale) })}</p>
+        ` : ""}
       </div>
     </div>
     ${receiptUrl ? `
       <div style="text-align: center;">
-        <a href="${receiptUrl}" class="button">Download Receipt</a>
+        <a href="${receiptUrl}" class="button">${t("paymentReceipt.download")}</a>
       </div>
     ` : ""}
     <p style="color: #666; font-size: 14px;">
-      This receipt confirms your payment. If you have any questions, please contact our support team.
+      ${t("paymentReceipt.note")}
     </p>
   `;
   
@@ -391,32 +484,24 @@ export function sessionReminderTemplate({
   sessionUrl,
   hoursUntil,
   locale = "en",
+  timezone,
 }: SessionReminderProps): string {
-  const greeting = name ? `Hello ${name},` : "Hello,";
-  const dateTime = new Date(scheduledAt).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-  
-  const timeText = hoursUntil === 24 ? "24 hours" : hoursUntil === 1 ? "1 hour" : `${hoursUntil} hours`;
+  const t = getEmailTranslator(locale);
+  const dateTime = formatEmailDateTime(scheduledAt, locale, timezone);
   
   const content = `
-    <h2 style="margin-top: 0; color: #111;">Session Reminder</h2>
-    <p>${greeting}</p>
-    <p>This is a reminder that your session with <strong>${tutorName}</strong> starts in ${timeText}.</p>
+    <h2 style="margin-top: 0; color: #111;">${t("sessionReminder.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
+    <p>${t("sessionReminder.message", { name: `<strong>${tutorName}</strong>`, time: t("common.hours", { hours: hoursUntil }) })}</p>
     <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 24px 0;">
-      <p style="margin: 0 0 8px 0;"><strong>Date & Time:</strong> ${dateTime}</p>
-      <p style="margin: 0;"><strong>Duration:</strong> ${duration} minutes</p>
+      <p style="margin: 0 0 8px 0;"><strong>${t("common.dateTime")}</strong> ${dateTime}</p>
+      <p style="margin: 0;"><strong>${t("common.duration")}</strong> ${t("common.minutes", { minutes: duration })}</p>
     </div>
     <div style="text-align: center;">
-      <a href="${sessionUrl}" class="button">Join Session</a>
+      <a href="${sessionUrl}" class="button">${t("sessionReminder.join")}</a>
     </div>
     <p style="color: #666; font-size: 14px;">
-      Make sure you have a stable internet connection and your camera/microphone ready. See you soon!
+      ${t("sessionReminder.tips")}
     </p>
   `;
   
@@ -432,45 +517,139 @@ export function bookingCancellationTemplate({
   studentName,
   scheduledAt,
   refundAmount,
+  paidAmount,
+  currency = SETTLEMENT_CURRENCY,
   isTutor,
   locale = "en",
+  timezone,
 }: BookingCancellationProps): string {
-  const greeting = name ? `Hello ${name},` : "Hello,";
-  const dateTime = new Date(scheduledAt).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
+  const t = getEmailTranslator(locale);
+  const emailLocale = getEmailLocale(locale);
+  const dateTime = formatEmailDateTime(scheduledAt, locale, timezone);
   
-  const cancellationMessage = isTutor
-    ? `Your session with ${studentName} scheduled for ${dateTime} has been cancelled.`
-    : `Your session with ${tutorName} scheduled for ${dateTime} has been cancelled.`;
+  const cancellationMessage = t("bookingCancellation.message", {
+    name: (isTutor ? studentName : tutorName) || "",
+    dateTime,
+  });
+  const refundText =
+    refundAmount !== undefined && paidAmount !== undefined && refundAmount < paidAmount
+      ? t("bookingCancellation.refundOfPaid", {
+          refund: formatCurrency(refundAmount, currency, emailLocale),
+          paid: formatCurrency(paidAmount, currency, emailLocale),
+        })
+      : refundAmount !== undefined
+        ? formatCurrency(refundAmount, currency, emailLocale)
+        : "";
   
   const content = `
-    <h2 style="margin-top: 0; color: #ef4444;">Booking Cancelled</h2>
-    <p>${greeting}</p>
+    <h2 style="margin-top: 0; color: #ef4444;">${t("bookingCancellation.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
     <p>${cancellationMessage}</p>
     <div style="background-color: #fef2f2; padding: 20px; border-radius: 8px; margin: 24px 0; border-left: 4px solid #ef4444;">
-      <p style="margin: 0 0 8px 0;"><strong>Original Session Date:</strong> ${dateTime}</p>
+      <p style="margin: 0 0 8px 0;"><strong>${t("bookingCancellation.originalDate")}</strong> ${dateTime}</p>
       ${refundAmount !== undefined ? `
-        <p style="margin: 0;"><strong>Refund Amount:</strong> $${refundAmount.toFixed(2)}</p>
+        <p style="margin: 0;"><strong>${t("bookingCancellation.refundAmount")}</strong> ${refundText}</p>
         <p style="margin: 8px 0 0 0; color: #666; font-size: 14px;">
-          Your refund will be processed within 5-10 business days.
+          ${t("bookingCancellation.refundProcessing")}
         </p>
       ` : ""}
     </div>
     ${!isTutor && refundAmount !== undefined ? `
       <p style="color: #666; font-size: 14px;">
-        If you'd like to book another session, you can browse our tutors and schedule a new session.
+        ${t("bookingCancellation.bookAnother")}
       </p>
     ` : ""}
     <div style="text-align: center;">
-      <a href="https://linglix.com/dashboard" class="button">Go to Dashboard</a>
+      <a href="${getDashboardUrl(emailLocale)}" class="button">${t("common.goToDashboard")}</a>
     </div>
   `;
   
   return baseTemplate(content, locale);
 }
+
+/**
+ * Escape user-written text for inclusion in email HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Unread messages digest email template
+ */
+export function unreadMessagesDigestTemplate({
+  name,
+  conversations,
+  inboxUrl,
+  locale = "en",
+}: UnreadMessagesDigestProps): string {
+  const t = getEmailTranslator(locale);
+  const total = conversations.reduce((sum, conversation) => sum + conversation.count, 0);
+
+  const conversationItems = conversations
+    .map(
+      (conversation) => `
+      <div style="background-color: #f5f5f5; padding: 16px 20px; border-radius: 8px; margin: 0 0 12px 0;">
+        <p style="margin: 0 0 4px 0;"><strong>${escapeHtml(conversation.senderName)}</strong> · ${t("unreadMessages.newMessages", { count: conversation.count })}</p>
+        <p style="margin: 0; color: #666; font-size: 14px;">${escapeHtml(conversation.preview)}</p>
+      </div>
+    `
+    )
+    .join("");
+
+  const content = `
+    <h2 style="margin-top: 0; color: #111;">${t("unreadMessages.title")}</h2>
+    <p>${getGreeting(t, name)}</p>
+    <p>${t("unreadMessages.message", { count: total })}</p>
+    <div style="margin: 24px 0;">
+      ${conversationItems}
+    </div>
+    <div style="text-align: center;">
+      <a href="${inboxUrl}" class="button">${t("unreadMessages.button")}</a>
+    </div>
+  `;
+
+  return baseTemplate(content, locale);
+}
+
+/**
+ * Fill in the footer explaining why the recipient got the email, with the
+ * unsubscribe link (optional categories) or a note that it's always sent
+ * (transactional emails)
+ */
+export function addEmailPreferencesFooter(
+  html: string,
+  {
+    category,
+    unsubscribeUrl,
+    locale = "en",
+  }: {
+    category?: NotificationCategory | null;
+    unsubscribeUrl?: string | null;
+    locale?: string;
+  }
+): string {
+  const emailLocale = getEmailLocale(locale);
+  const t = getEmailTranslator(emailLocale);
+  const preferencesUrl = `${getBaseUrl()}/${emailLocale}/profile#notifications`;
+
+  const notice = category
+    ? t("preferences.categoryNotice", { category: t(`preferences.categories.${category}`) })
+    : t("preferences.transactionalNotice");
+  const links = [
+    category && unsubscribeUrl
+      ? `<a href="${unsubscribeUrl}">${t("preferences.unsubscribe")}</a>`
+      : null,
+    `<a href="${preferencesUrl}">${t("preferences.manage")}</a>`,
+  ].filter(Boolean);
+
+  return html.replace(
+    EMAIL_PREFERENCES_PLACEHOLDER,
+    `<p style="font-size: 12px;">${notice}<br>${links.join(" | ")}</p>`
+  );
+}
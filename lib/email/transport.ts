@@ -0,0 +1,142 @@
+/**
+ * Email Transports
+ *
+ * How the outbox worker actually delivers an email:
+ * - resend: Resend API (production)
+ * - console: logs the email instead of sending it (default without RESEND_API_KEY)
+ * - file: writes each email as an HTML file to EMAIL_OUTBOX_DIR (default .emails/),
+ *   with its attachments alongside
+ *
+ * Chosen with EMAIL_TRANSPORT; defaults to resend when it's configured.
+ * Production always uses resend: the others would mark emails sent that never left.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { logger } from "@/lib/logger";
+import { resend, sendEmail } from "./resend";
+
+export const EMAIL_TRANSPORTS = ["resend", "console", "file"] as const;
+
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number];
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // Text content, e.g. an .ics invite
+  contentType?: string;
+}
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string | null;
+  headers?: Record<string, string> | null;
+  attachments?: EmailAttachment[] | null;
+}
+
+export type EmailTransportResult =
+  | { success: true; messageId?: string }
+  | { success: false; error: string };
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send: (email: OutgoingEmail) => Promise<EmailTransportResult>;
+}
+
+const resendTransport: EmailTransport = {
+  name: "resend",
+  async send({ to, subject, html, text, headers, attachments }) {
+    const result = await sendEmail({
+      to,
+      subject,
+      html,
+      text: text || undefined,
+      headers: headers || undefined,
+      attachments: attachments?.map(({ filename, content, contentType }) => ({
+        filename,
+        content: Buffer.from(content, "utf8"),
+        contentType,
+      })),
+    });
+
+    if (!result.success) {
+      const error = result.error;
+      return {
+        success: false,
+        error:
+          typeof error === "string"
+            ? error
+            : (error as { message?: string } | undefined)?.message || "Email provider error",
+      };
+    }
+
+    return { success: true, messageId: result.data?.id };
+  },
+};
+
+const consoleTransport: EmailTransport = {
+  name: "console",
+  async send({ to, subject, html, text, attachments }) {
+    logger.info("Email (console transport)", {
+      to,
+      subject,
+      text: (text || html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ")).trim().slice(0, 500),
+      attachments: attachments?.map((attachment) => attachment.filename).join(", "),
+    });
+    return { success: true };
+  },
+};
+
+const fileTransport: EmailTransport = {
+  name: "file",
+  async send({ to, subject, html, attachments }) {
+    const dir = path.resolve(process.env.EMAIL_OUTBOX_DIR || ".emails");
+    const recipient = to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const baseName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${recipient}`;
+    const fileName = `${baseName}.html`;
+
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      path.join(dir, fileName),
+      `<!-- To: ${to} -->\n<!-- Subject: ${subject} -->\n${html}`,
+      "utf8"
+    );
+
+    // Attachments next to the email, e.g. <email>-invite.ics
+    for (const attachment of attachments ?? []) {
+      await writeFile(path.join(dir, `${baseName}-${attachment.filename}`), attachment.content, "utf8");
+    }
+
+    return { success: true, messageId: fileName };
+  },
+};
+
+const transports: Record<EmailTransportName, EmailTransport> = {
+  resend: resendTransport,
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+/**
+ * Transport selected by EMAIL_TRANSPORT
+ */
+export function getEmailTransport(): EmailTransport {
+  const configured = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined;
+
+  // Without Resend, sends fail ("Email service not configured") and stay in the outbox
+  if (process.env.NODE_ENV === "production") {
+    if (configured && configured !== "resend") {
+      logger.error("EMAIL_TRANSPORT is not allowed in production, using Resend", {
+        transport: configured,
+      });
+    }
+    return resendTransport;
+  }
+
+  if (configured && EMAIL_TRANSPORTS.includes(configured)) {
+    return transports[configured];
+  }
+
+  return resend ? resendTransport : consoleTransport;
+}
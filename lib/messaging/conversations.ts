@@ -0,0 +1,295 @@
+/**
+ * Messaging Utilities
+ *
+ * Business rules for persistent student-tutor messaging:
+ * - One conversation per student-tutor pair, started by the student
+ * - Messages are stored in our database (the in-call Stream chat is separate)
+ * - Optional file attachments uploaded to blob storage
+ * - Per-message read receipts drive unread counts and email digests
+ * - Admins can read any conversation for dispute investigation
+ */
+
+import { z } from "zod";
+import type { Conversation, Prisma, PrismaClient } from "@prisma/client";
+
+/**
+ * Maximum message length in characters
+ */
+export const MESSAGE_MAX_LENGTH = 2000;
+
+/**
+ * Messages returned per page (newest first, older pages via cursor)
+ */
+export const MESSAGES_PAGE_SIZE = 50;
+
+/**
+ * Conversations returned in the inbox
+ */
+export const CONVERSATIONS_LIMIT = 50;
+
+/**
+ * Unread messages younger than this are left out of email digests,
+ * so a conversation happening live doesn't trigger an email
+ */
+export const UNREAD_DIGEST_DELAY_MINUTES = 30;
+
+/**
+ * Attachment limits (enforced by the upload route)
+ */
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024; // 10MB
+export const ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "application/pdf",
+  "text/plain",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+/**
+ * Blob path prefix for message attachments
+ */
+export const ATTACHMENT_PATH_PREFIX = "messages/";
+
+/**
+ * Only attachments uploaded through /api/upload/attachment can be linked
+ */
+export function isMessageAttachmentUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.protocol === "https:" &&
+      parsed.hostname.endsWith(".blob.vercel-storage.com") &&
+      parsed.pathname.startsWith(`/${ATTACHMENT_PATH_PREFIX}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start conversation schema (students only)
+ */
+export const startConversationSchema = z.object({
+  tutorId: z.string().min(1, "tutorId is required"),
+});
+
+/**
+ * Send message schema
+ */
+export const sendMessageSchema = z
+  .object({
+    body: z
+      .string()
+      .trim()
+      .max(MESSAGE_MAX_LENGTH, `Message must be less than ${MESSAGE_MAX_LENGTH} characters`)
+      .optional()
+      .default(""),
+    attachment: z
+      .object({
+        url: z
+          .string()
+          .url("Invalid attachment URL")
+          .refine(isMessageAttachmentUrl, "Attachment must be uploaded through Linglix"),
+        name: z.string().trim().min(1).max(255),
+        type: z.enum(ATTACHMENT_TYPES as [string, ...string[]], {
+          message: "Unsupported attachment type",
+        }),
+        size: z.number().int().positive().max(ATTACHMENT_MAX_SIZE, "Attachment is too large"),
+      })
+      .optional(),
+  })
+  .refine((data) => data.body.length > 0 || data.attachment, {
+    message: "Message cannot be empty",
+  });
+
+export type SendMessageInput = z.infer<typeof sendMessageSchema>;
+
+/**
+ * Participant fields included with conversations
+ *
+ * No email addresses: any student can open a conversation with any tutor.
+ */
+export const conversationParticipantsInclude = {
+  student: {
+    select: { id: true, name: true, image: true },
+  },
+  tutor: {
+    select: {
+      id: true,
+      userId: true,
+      user: {
+        select: { id: true, name: true, image: true },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Participant fields for admin views, with email addresses
+ */
+export const adminConversationParticipantsInclude = {
+  student: {
+    select: { id: true, name: true, image: true, email: true },
+  },
+  tutor: {
+    select: {
+      id: true,
+      userId: true,
+      user: {
+        select: { id: true, name: true, image: true, email: true },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Participant fields for a user's view of conversations
+ */
+export function getConversationParticipantsInclude(user: { role: string }) {
+  return user.role === "ADMIN"
+    ? adminConversationParticipantsInclude
+    : conversationParticipantsInclude;
+}
+
+export type ConversationRole = "student" | "tutor" | "admin";
+
+/**
+ * Role of a user in a conversation, or null if they have no access
+ *
+ * Admins get read-only access to every conversation.
+ */
+export function getConversationRole(
+  conversation: Pick<Conversation, "studentId"> & { tutor: { userId: string } },
+  user: { id: string; role: string }
+): ConversationRole | null {
+  if (conversation.studentId === user.id) return "student";
+  if (conversation.tutor.userId === user.id) return "tutor";
+  if (user.role === "ADMIN") return "admin";
+  return null;
+}
+
+/**
+ * User id of the other participant, who receives a participant's messages
+ */
+export function getRecipientId(
+  conversation: Pick<Conversation, "studentId"> & { tutor: { userId: string } },
+  senderId: string
+): string {
+  return conversation.studentId === senderId ? conversation.tutor.userId : conversation.studentId;
+}
+
+/**
+ * Find or create the conversation between a student and a tutor
+ */
+export async function getOrCreateConversation(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  studentId: string,
+  tutorId: string
+) {
+  return await prisma.conversation.upsert({
+    where: { studentId_tutorId: { studentId, tutorId } },
+    create: { studentId, tutorId },
+    update: {},
+    include: conversationParticipantsInclude,
+  });
+}
+
+/**
+ * Store a message and bump the conversation in both inboxes
+ */
+export async function createMessage(
+  prisma: PrismaClient,
+  {
+    conversationId,
+    senderId,
+    recipientId,
+    body,
+    attachment,
+  }: {
+    conversationId: string;
+    senderId: string;
+    recipientId: string;
+  } & SendMessageInput
+) {
+  return await prisma.$transaction(async (tx) => {
+    const message = await tx.message.create({
+      data: {
+        conversationId,
+        senderId,
+        recipientId,
+        body,
+        attachmentUrl: attachment?.url,
+        attachmentName: attachment?.name,
+        attachmentType: attachment?.type,
+        attachmentSize: attachment?.size,
+      },
+    });
+
+    await tx.conversation.update({
+      where: { id: conversationId },
+      data: { lastMessageAt: message.createdAt },
+    });
+
+    return message;
+  });
+}
+
+/**
+ * Mark every message the user received in a conversation as read
+ *
+ * @returns Number of messages marked read
+ */
+export async function markConversationRead(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  conversationId: string,
+  userId: string
+): Promise<number> {
+  const result = await prisma.message.updateMany({
+    where: { conversationId, recipientId: userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  return result.count;
+}
+
+/**
+ * Total unread messages for a user across all conversations
+ */
+export async function getUnreadMessageCount(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  userId: string
+): Promise<number> {
+  return await prisma.message.count({
+    where: { recipientId: userId, readAt: null },
+  });
+}
+
+/**
+ * Unread message counts per conversation for a user
+ */
+export async function getUnreadCountsByConversation(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  userId: string,
+  conversationIds: string[]
+): Promise<Record<string, number>> {
+  if (conversationIds.length === 0) {
+    return {};
+  }
+
+  const groups = await prisma.message.groupBy({
+    by: ["conversationId"],
+    where: {
+      conversationId: { in: conversationIds },
+      recipientId: userId,
+      readAt: null,
+    },
+    _count: { _all: true },
+  });
+
+  return Object.fromEntries(
+    groups.map((group) => [group.conversationId, group._count._all])
+  );
+}
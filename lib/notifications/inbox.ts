@@ -0,0 +1,147 @@
+/**
+ * In-App Notifications
+ *
+ * Booking, tutor approval and appeal events also land in the user's
+ * notification center (the bell in the dashboard navigation):
+ * - Written in the same transaction as the change they describe
+ * - Text is rendered on the client from the type and data, in the reader's language
+ * - Delivered live over server-sent events (/api/notifications/stream)
+ */
+
+import { Prisma, type NotificationType, type PrismaClient } from "@prisma/client";
+
+/**
+ * Notifications returned per page (newest first, older pages via cursor)
+ */
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+/**
+ * How often an open stream checks for new notifications
+ */
+export const NOTIFICATION_STREAM_POLL_SECONDS = 5;
+
+/**
+ * Streams are closed after this long; EventSource reconnects on its own,
+ * which keeps serverless functions within their time limit
+ */
+export const NOTIFICATION_STREAM_MAX_SECONDS = 300;
+
+/**
+ * Details shown in a notification, depending on its type
+ */
+export interface NotificationData {
+  name?: string | null; // Other party (tutor or student)
+  scheduledAt?: string;
+  previousScheduledAt?: string;
+  amount?: number;
+  currency?: string;
+  reason?: string | null;
+}
+
+export interface NewNotification {
+  userId: string;
+  type: NotificationType;
+  bookingId?: string | null;
+  data?: NotificationData;
+}
+
+/**
+ * Notification as sent to the client
+ */
+export const notificationSelect = {
+  id: true,
+  type: true,
+  bookingId: true,
+  data: true,
+  readAt: true,
+  createdAt: true,
+} satisfies Prisma.NotificationSelect;
+
+/**
+ * Write notifications
+ * Pass a transaction client to write them atomically with the event they describe
+ */
+export async function createNotifications(
+  db: Prisma.TransactionClient | PrismaClient,
+  notifications: NewNotification[]
+) {
+  if (notifications.length === 0) return 0;
+
+  const { count } = await db.notification.createMany({
+    data: notifications.map((notification) => ({
+      userId: notification.userId,
+      type: notification.type,
+      bookingId: notification.bookingId ?? null,
+      data: (notification.data as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+    })),
+  });
+
+  return count;
+}
+
+/**
+ * Unread notifications, shown on the bell
+ */
+export async function getUnreadNotificationCount(
+  db: Prisma.TransactionClient | PrismaClient,
+  userId: string
+): Promise<number> {
+  return db.notification.count({
+    where: { userId, readAt: null },
+  });
+}
+
+/**
+ * Mark notifications read - the given ones, or all of the user's when no ids are passed
+ *
+ * @returns Number of notifications marked read
+ */
+export async function markNotificationsRead(
+  db: Prisma.TransactionClient | PrismaClient,
+  userId: string,
+  ids?: string[],
+  now = new Date()
+): Promise<number> {
+  const { count } = await db.notification.updateMany({
+    where: {
+      userId,
+      readAt: null,
+      ...(ids && { id: { in: ids } }),
+    },
+    data: { readAt: now },
+  });
+
+  return count;
+}
+
+interface BookingParticipants {
+  id: string;
+  scheduledAt: Date;
+  student: { id: string; name: string | null };
+  tutor: { user: { id: string; name: string | null } };
+}
+
+/**
+ * Notify both sides of a booking about a change, except whoever made it
+ * Each side sees the other party's name
+ */
+export function getBookingNotifications(
+  booking: BookingParticipants,
+  type: NotificationType,
+  actorId: string | null,
+  data: NotificationData = {}
+): NewNotification[] {
+  const participants = [
+    { userId: booking.student.id, name: booking.tutor.user.name },
+    { userId: booking.tutor.user.id, name: booking.student.name },
+  ];
+
+  return participants
+    .filter(({ userId }) => userId !== actorId)
+    .map(({ userId, name }) => ({
+      userId,
+      type,
+      bookingId: booking.id,
+      data: { name, scheduledAt: booking.scheduledAt.toISOString(), ...data },
+    }));
+}
@@ -0,0 +1,98 @@
+/**
+ * Notification Preferences
+ *
+ * Users can turn off each optional notification category (NotificationCategory).
+ * Transactional emails - account, security and payments - are always sent.
+ * Categories without a NotificationPreference row are enabled.
+ *
+ * No server-only imports: also used by the profile page.
+ */
+
+import { z } from "zod";
+import type { NotificationCategory, Prisma, PrismaClient } from "@prisma/client";
+
+/**
+ * Optional categories, in the order shown to users
+ */
+export const NOTIFICATION_CATEGORIES = [
+  "BOOKING_UPDATES",
+  "REMINDERS",
+  "REVIEWS",
+  "MARKETING",
+] as const satisfies readonly NotificationCategory[];
+
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+/**
+ * Categories to change; the rest are left as they are
+ */
+export const notificationPreferencesSchema = z.partialRecord(
+  z.enum(NOTIFICATION_CATEGORIES, { message: "Invalid notification category" }),
+  z.boolean()
+);
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
+
+function getDefaultPreferences(): NotificationPreferences {
+  return Object.fromEntries(
+    NOTIFICATION_CATEGORIES.map((category) => [category, true])
+  ) as NotificationPreferences;
+}
+
+/**
+ * The user's email preference for every category
+ */
+export async function getNotificationPreferences(
+  db: Prisma.TransactionClient | PrismaClient,
+  userId: string
+): Promise<NotificationPreferences> {
+  const rows = await db.notificationPreference.findMany({
+    where: { userId },
+    select: { category: true, email: true },
+  });
+
+  const preferences = getDefaultPreferences();
+  for (const row of rows) {
+    preferences[row.category] = row.email;
+  }
+  return preferences;
+}
+
+/**
+ * Whether the user wants emails of this category
+ */
+export async function isEmailCategoryEnabled(
+  db: Prisma.TransactionClient | PrismaClient,
+  userId: string,
+  category: NotificationCategory
+): Promise<boolean> {
+  const preference = await db.notificationPreference.findUnique({
+    where: { userId_category: { userId, category } },
+    select: { email: true },
+  });
+
+  return preference?.email ?? true;
+}
+
+/**
+ * Save the given categories and return the user's updated preferences
+ */
+export async function updateNotificationPreferences(
+  db: PrismaClient,
+  userId: string,
+  changes: NotificationPreferencesInput
+): Promise<NotificationPreferences> {
+  const entries = Object.entries(changes) as Array<[NotificationCategory, boolean]>;
+
+  await db.$transaction(
+    entries.map(([category, email]) =>
+      db.notificationPreference.upsert({
+        where: { userId_category: { userId, category } },
+        create: { userId, category, email },
+        update: { email },
+      })
+    )
+  );
+
+  return getNotificationPreferences(db, userId);
+}
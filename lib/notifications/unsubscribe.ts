@@ -0,0 +1,92 @@
+/**
+ * Unsubscribe Links
+ *
+ * Every email carries a signed link that turns off its category without
+ * signing in - in the footer and as a one-click List-Unsubscribe header
+ * (RFC 8058). Transactional emails can't be turned off, so their link
+ * turns off every optional category instead.
+ *
+ * Tokens don't expire: old emails must keep working.
+ */
+
+import type { NotificationCategory, PrismaClient } from "@prisma/client";
+import { getBaseUrl } from "@/lib/utils/url";
+import {
+  createSignedToken,
+  verifySignedToken,
+  type SignedTokenConfig,
+} from "@/lib/utils/signed-token";
+import { NOTIFICATION_CATEGORIES, updateNotificationPreferences } from "./preferences";
+
+export const UNSUBSCRIBE_TOKEN_PREFIX = "unsub";
+
+const UNSUBSCRIBE_TOKEN: SignedTokenConfig = {
+  prefix: UNSUBSCRIBE_TOKEN_PREFIX,
+  secretEnv: "UNSUBSCRIBE_SECRET",
+  devSecret: "linglix-unsubscribe",
+};
+
+/**
+ * Unsubscribe target: one category, or every optional category
+ */
+export type UnsubscribeScope = NotificationCategory | "ALL";
+
+/**
+ * Create an unsubscribe token: "unsub.{payload}.{signature}"
+ */
+export function createUnsubscribeToken(userId: string, scope: UnsubscribeScope): string | null {
+  return createSignedToken(UNSUBSCRIBE_TOKEN, { sub: userId, scope });
+}
+
+/**
+ * Verify an unsubscribe token and return who and what it unsubscribes
+ */
+export function verifyUnsubscribeToken(
+  token: string
+): { userId: string; scope: UnsubscribeScope } | null {
+  const claims = verifySignedToken(UNSUBSCRIBE_TOKEN, token);
+  if (!claims) {
+    return null;
+  }
+
+  const { sub, scope } = claims;
+  if (
+    typeof sub !== "string" ||
+    (scope !== "ALL" && !NOTIFICATION_CATEGORIES.includes(scope as NotificationCategory))
+  ) {
+    return null;
+  }
+  return { userId: sub, scope: scope as UnsubscribeScope };
+}
+
+/**
+ * Links for an email's footer (confirmation page) and List-Unsubscribe header (one-click)
+ */
+export function getUnsubscribeUrls(
+  userId: string,
+  scope: UnsubscribeScope,
+  locale: string,
+  baseUrl: string = getBaseUrl()
+): { pageUrl: string; oneClickUrl: string } | null {
+  const token = createUnsubscribeToken(userId, scope);
+  if (!token) {
+    return null;
+  }
+
+  return {
+    pageUrl: `${baseUrl}/${locale}/unsubscribe?token=${token}`,
+    oneClickUrl: `${baseUrl}/api/notifications/unsubscribe?token=${token}`,
+  };
+}
+
+/**
+ * Turn off emails for the token's scope
+ */
+export async function unsubscribe(db: PrismaClient, userId: string, scope: UnsubscribeScope) {
+  const categories = scope === "ALL" ? NOTIFICATION_CATEGORIES : [scope];
+  return updateNotificationPreferences(
+    db,
+    userId,
+    Object.fromEntries(categories.map((category) => [category, false]))
+  );
+}
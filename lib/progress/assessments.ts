@@ -0,0 +1,146 @@
+/**
+ * Skill Assessment Utilities
+ *
+ * Tutors assess the student's CEFR level after a completed session: overall
+ * and per skill (speaking, listening, grammar, vocabulary). Each assessment:
+ * - Becomes the student's current level in that language
+ * - Updates the level of that language on the student's profile, so
+ *   recommendations follow progress
+ * - Completes level milestones and goals it reaches
+ */
+
+import { z } from "zod";
+import {
+  BookingStatus,
+  type CefrLevel,
+  type Prisma,
+  type SkillAssessment,
+} from "@prisma/client";
+import { CEFR_LEVELS, PROFILE_LEVELS } from "./levels";
+
+/**
+ * Sessions that can be assessed
+ */
+export const ASSESSMENT_BOOKING_STATUSES: BookingStatus[] = [BookingStatus.COMPLETED];
+
+/**
+ * Assessments shown in the progress timeline and charts
+ */
+export const PROGRESS_HISTORY_LIMIT = 50;
+
+const levelSchema = z.enum(CEFR_LEVELS as [CefrLevel, ...CefrLevel[]], {
+  message: "Invalid level",
+});
+
+/**
+ * Save assessment schema (tutor only)
+ */
+export const assessmentSchema = z.object({
+  language: z
+    .string()
+    .trim()
+    .min(1, "Language is required")
+    .max(50, "Language must be less than 50 characters"),
+  level: levelSchema,
+  speaking: levelSchema,
+  listening: levelSchema,
+  grammar: levelSchema,
+  vocabulary: levelSchema,
+  comment: z
+    .string()
+    .trim()
+    .max(2000, "Comment must be less than 2000 characters")
+    .optional()
+    .nullable(),
+});
+
+export type AssessmentInput = z.infer<typeof assessmentSchema>;
+
+/**
+ * Levels up to and including `level`
+ */
+function getLevelsUpTo(level: CefrLevel): CefrLevel[] {
+  return CEFR_LEVELS.slice(0, CEFR_LEVELS.indexOf(level) + 1);
+}
+
+/**
+ * Apply a new assessment to the student's profile level, milestones and goals
+ * Call inside the transaction that saves the assessment
+ */
+export async function applyAssessmentProgress(
+  tx: Prisma.TransactionClient,
+  studentId: string,
+  language: string,
+  level: CefrLevel,
+  now: Date = new Date()
+) {
+  const reachedLevels = getLevelsUpTo(level);
+  const goalWhere: Prisma.ProgressGoalWhereInput = {
+    studentId,
+    language: { equals: language, mode: "insensitive" },
+    achievedAt: null,
+  };
+
+  await tx.studentLanguage.updateMany({
+    where: {
+      studentProfile: { userId: studentId },
+      language: { equals: language, mode: "insensitive" },
+    },
+    data: { level: PROFILE_LEVELS[level] },
+  });
+
+  // StudentProfile.currentLevel mirrors the primary language
+  const primaryLanguage = await tx.studentLanguage.findFirst({
+    where: { studentProfile: { userId: studentId } },
+    orderBy: { position: "asc" },
+    select: { language: true },
+  });
+  if (!primaryLanguage || primaryLanguage.language.toLowerCase() === language.toLowerCase()) {
+    await tx.studentProfile.updateMany({
+      where: { userId: studentId },
+      data: { currentLevel: PROFILE_LEVELS[level] },
+    });
+  }
+
+  await tx.goalMilestone.updateMany({
+    where: {
+      level: { in: reachedLevels },
+      completedAt: null,
+      goal: goalWhere,
+    },
+    data: { completedAt: now },
+  });
+
+  const { count: achievedGoals } = await tx.progressGoal.updateMany({
+    where: {
+      ...goalWhere,
+      targetLevel: { in: reachedLevels },
+    },
+    data: { achievedAt: now },
+  });
+
+  return { achievedGoals };
+}
+
+/**
+ * The student's current level per language: their latest assessment in it
+ */
+export function getCurrentLevels(
+  assessments: Pick<SkillAssessment, "language" | "level" | "createdAt">[]
+): { language: string; level: CefrLevel; assessedAt: Date }[] {
+  const latest = new Map<string, { language: string; level: CefrLevel; assessedAt: Date }>();
+
+  for (const assessment of assessments) {
+    const key = assessment.language.toLowerCase();
+    const current = latest.get(key);
+    if (!current || assessment.createdAt > current.assessedAt) {
+      latest.set(key, {
+        language: assessment.language,
+        level: assessment.level,
+        assessedAt: assessment.createdAt,
+      });
+    }
+  }
+
+  return Array.from(latest.values());
+}
@@ -0,0 +1,78 @@
+/**
+ * Progress Goal Utilities
+ *
+ * Students set goals to reach a CEFR level in a language, serving their
+ * learning goal for that language (e.g. "business"). A goal has
+ * milestones:
+ * - One per level between the current and target level, completed by tutor
+ *   assessments
+ * - Custom tasks the student ticks off themselves
+ */
+
+import { z } from "zod";
+import type { CefrLevel } from "@prisma/client";
+import { CEFR_LEVELS, getLevelsBetween } from "./levels";
+
+/**
+ * Open (not yet achieved) goals a student can have at once
+ */
+export const MAX_ACTIVE_GOALS = 5;
+
+/**
+ * Custom milestones per goal
+ */
+export const MAX_CUSTOM_MILESTONES = 10;
+
+/**
+ * Create goal schema
+ */
+export const createGoalSchema = z.object({
+  language: z
+    .string()
+    .trim()
+    .min(1, "Language is required")
+    .max(50, "Language must be less than 50 characters"),
+  targetLevel: z.enum(CEFR_LEVELS as [CefrLevel, ...CefrLevel[]], {
+    message: "Invalid level",
+  }),
+  targetDate: z.string().datetime({ message: "Invalid target date" }).optional().nullable(),
+  milestones: z
+    .array(z.string().trim().min(1).max(200, "Milestone must be less than 200 characters"))
+    .max(MAX_CUSTOM_MILESTONES, `A goal can have at most ${MAX_CUSTOM_MILESTONES} custom milestones`)
+    .optional(),
+});
+
+/**
+ * Update milestone schema (custom milestones only)
+ */
+export const updateMilestoneSchema = z.object({
+  completed: z.boolean(),
+});
+
+/**
+ * Milestones for a new goal: level steps from the current level, then custom tasks
+ */
+export function getGoalMilestoneData(
+  currentLevel: CefrLevel | null,
+  targetLevel: CefrLevel,
+  customMilestones: string[] = []
+) {
+  const levelMilestones = getLevelsBetween(currentLevel, targetLevel).map((level) => ({
+    level,
+  }));
+  const taskMilestones = customMilestones.map((title) => ({ title }));
+
+  return [...levelMilestones, ...taskMilestones].map((milestone, position) => ({
+    ...milestone,
+    position,
+  }));
+}
+
+/**
+ * Goals with their milestones in order
+ */
+export const goalInclude = {
+  milestones: {
+    orderBy: { position: "asc" },
+  },
+} as const;
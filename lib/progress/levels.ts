@@ -0,0 +1,59 @@
+/**
+ * CEFR Level Utilities
+ *
+ * Levels A1 (beginner) to C2 (proficient), as tracked by tutor assessments.
+ * No server-only imports: also used by dashboard charts.
+ */
+
+import type { CefrLevel } from "@prisma/client";
+
+/**
+ * Levels from lowest to highest
+ */
+export const CEFR_LEVELS: CefrLevel[] = ["A1", "A2", "B1", "B2", "C1", "C2"];
+
+/**
+ * Skills tutors assess after a session
+ */
+export const ASSESSED_SKILLS = ["speaking", "listening", "grammar", "vocabulary"] as const;
+export type AssessedSkill = (typeof ASSESSED_SKILLS)[number];
+
+/**
+ * Level as a number for comparisons and charts (A1 = 1 ... C2 = 6)
+ */
+export function getLevelRank(level: CefrLevel): number {
+  return CEFR_LEVELS.indexOf(level) + 1;
+}
+
+export function isLevelReached(level: CefrLevel, target: CefrLevel): boolean {
+  return getLevelRank(level) >= getLevelRank(target);
+}
+
+/**
+ * Levels above `from` up to and including `to`, e.g. A2 → B2 gives [B1, B2]
+ */
+export function getLevelsBetween(from: CefrLevel | null, to: CefrLevel): CefrLevel[] {
+  const start = from ? getLevelRank(from) : 0;
+  return CEFR_LEVELS.slice(start, getLevelRank(to));
+}
+
+/**
+ * StudentProfile.currentLevel (set at onboarding) for a CEFR level
+ */
+export const PROFILE_LEVELS: Record<CefrLevel, string> = {
+  A1: "beginner",
+  A2: "elementary",
+  B1: "intermediate",
+  B2: "upper-intermediate",
+  C1: "advanced",
+  C2: "advanced",
+};
+
+/**
+ * CEFR level for a StudentProfile.currentLevel, the starting point before any assessment
+ */
+export function getLevelFromProfile(currentLevel: string | null | undefined): CefrLevel | null {
+  if (!currentLevel) return null;
+  const entry = Object.entries(PROFILE_LEVELS).find(([, value]) => value === currentLevel);
+  return entry ? (entry[0] as CefrLevel) : null;
+}
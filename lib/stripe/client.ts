@@ -15,6 +15,23 @@ if (!stripeSecretKey || !stripeSecretKey.trim()) {
   logger.warn("STRIPE_SECRET_KEY is not set. Payment functionality will be disabled.");
 }
 
+/**
+ * Optional API host override for local testing against stripe-mock
+ * (e.g. STRIPE_API_HOST=localhost STRIPE_API_PORT=12111)
+ */
+function getStripeHostConfig(): Pick<Stripe.StripeConfig, "host" | "port" | "protocol"> {
+  const host = process.env.STRIPE_API_HOST?.trim();
+  if (!host) {
+    return {};
+  }
+
+  return {
+    host,
+    port: process.env.STRIPE_API_PORT?.trim() || undefined,
+    protocol: host === "localhost" || host === "127.0.0.1" ? "http" : "https",
+  };
+}
+
 /**
  * Initialize Stripe client
  * Returns null if Stripe is not configured (allows app to work without payments)
@@ -28,6 +45,7 @@ export function getStripeClient(): Stripe | null {
     return new Stripe(stripeSecretKey.trim(), {
       apiVersion: "2025-11-17.clover" as const,
       typescript: true,
+      ...getStripeHostConfig(),
     });
   } catch (error) {
     logger.error("Failed to initialize Stripe client", {
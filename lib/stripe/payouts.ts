@@ -0,0 +1,329 @@
+/**
+ * Stripe Connect Payout Utilities
+ *
+ * Tutor payouts through Stripe Connect Express accounts:
+ * - Connected account creation and onboarding links
+ * - Syncing account status (payouts enabled) from Stripe
+ * - Payout batches: unpaid earnings are grouped into one transfer per tutor
+ *
+ * Earnings only become payable after a clearing period so refunds for
+ * recent sessions are netted out before money leaves the platform.
+ */
+
+import type Stripe from "stripe";
+import { getStripeClient } from "./client";
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/db/prisma";
+import { Errors } from "@/lib/errors";
+import { PayoutStatus } from "@prisma/client";
+import type { Payout } from "@prisma/client";
+
+/**
+ * Payout batches run on this day of the week (0 = Sunday, 1 = Monday)
+ */
+export const PAYOUT_DAY_OF_WEEK = 1;
+
+/**
+ * Days an earning entry waits before it can be paid out
+ */
+export const EARNINGS_CLEARING_DAYS = 7;
+
+/**
+ * Minimum batch amount - smaller balances roll over to the next batch
+ */
+export const PAYOUT_MINIMUM_AMOUNT = 10;
+
+/**
+ * Stripe error types where the request was rejected and no transfer was made.
+ * Anything else (timeouts, connection or API errors) may have gone through.
+ */
+const DEFINITIVE_TRANSFER_ERRORS = new Set([
+  "StripeCardError",
+  "StripeInvalidRequestError",
+  "StripeAuthenticationError",
+  "StripePermissionError",
+  "StripeRateLimitError",
+]);
+
+/**
+ * Payout result with detailed information
+ */
+export interface PayoutResult {
+  success: boolean;
+  payoutId?: string;
+  amount?: number;
+  skipped?: boolean; // Nothing payable, below minimum, held or not onboarded
+  error?: string;
+}
+
+/**
+ * Create a Stripe Connect Express account for a tutor (if needed) and
+ * return an onboarding link
+ *
+ * @throws HttpError (500) if Stripe is not configured
+ */
+export async function createOnboardingLink(
+  tutor: { id: string; stripeAccountId: string | null },
+  email: string,
+  urls: { returnUrl: string; refreshUrl: string }
+): Promise<string> {
+  const stripe = getStripeClient();
+  if (!stripe) {
+    throw Errors.InternalServerError("Payment service is not available");
+  }
+
+  let accountId = tutor.stripeAccountId;
+
+  if (!accountId) {
+    const account = await stripe.accounts.create(
+      {
+        type: "express",
+        email,
+        capabilities: {
+          transfers: { requested: true },
+        },
+        metadata: {
+          tutorProfileId: tutor.id,
+        },
+      },
+      {
+        idempotencyKey: `connect-account-${tutor.id}`,
+      }
+    );
+
+    accountId = account.id;
+
+    await prisma.tutorProfile.update({
+      where: { id: tutor.id },
+      data: { stripeAccountId: accountId },
+    });
+
+    logger.info("Stripe Connect account created", {
+      tutorId: tutor.id,
+      accountId,
+    });
+  }
+
+  const accountLink = await stripe.accountLinks.create({
+    account: accountId,
+    type: "account_onboarding",
+    return_url: urls.returnUrl,
+    refresh_url: urls.refreshUrl,
+  });
+
+  return accountLink.url;
+}
+
+/**
+ * Refresh a tutor's payoutsEnabled flag from their connected account
+ *
+ * Called from the account.updated webhook and when a tutor returns from
+ * onboarding. Returns the new flag value.
+ */
+export async function syncConnectAccount(stripeAccountId: string): Promise<boolean> {
+  const stripe = getStripeClient();
+  if (!stripe) {
+    return false;
+  }
+
+  const account = await stripe.accounts.retrieve(stripeAccountId);
+  const payoutsEnabled = !!(account.details_submitted && account.payouts_enabled);
+
+  await prisma.tutorProfile.updateMany({
+    where: { stripeAccountId },
+    data: { payoutsEnabled },
+  });
+
+  return payoutsEnabled;
+}
+
+/**
+ * Check if payout batches run today
+ */
+export function isPayoutDay(now: Date): boolean {
+  return now.getUTCDay() === PAYOUT_DAY_OF_WEEK;
+}
+
+/**
+ * Pay out a tutor's cleared, unpaid earnings as a single Stripe transfer
+ *
+ * The batch is created and its entries linked inside a transaction before
+ * the transfer is made. If Stripe rejects the transfer the batch is marked
+ * FAILED and the entries are released for the next run. If the outcome is
+ * unknown (e.g. a timeout) the batch stays PENDING with its entries, and the
+ * next run settles it with the same idempotency key before starting a new one.
+ */
+export async function processTutorPayout(tutorId: string, now: Date): Promise<PayoutResult> {
+  const stripe = getStripeClient();
+  if (!stripe) {
+    return {
+      success: false,
+      error: "Payment service not available",
+    };
+  }
+
+  const tutor = await prisma.tutorProfile.findUnique({
+    where: { id: tutorId },
+    select: {
+      id: true,
+      stripeAccountId: true,
+      payoutsEnabled: true,
+      payoutsHeld: true,
+    },
+  });
+
+  if (!tutor || !tutor.stripeAccountId || !tutor.payoutsEnabled || tutor.payoutsHeld) {
+    return { success: true, skipped: true };
+  }
+
+  // Settle a batch whose transfer may already have gone through first
+  const pending = await prisma.payout.findFirst({
+    where: { tutorId, status: PayoutStatus.PENDING },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (pending) {
+    return await transferPayout(stripe, pending, tutor.stripeAccountId, true);
+  }
+
+  const clearedBefore = new Date(now.getTime() - EARNINGS_CLEARING_DAYS * 24 * 60 * 60 * 1000);
+  const entries = await prisma.earningEntry.findMany({
+    where: {
+      tutorId,
+      payoutId: null,
+      createdAt: { lte: clearedBefore },
+    },
+    select: { id: true, amount: true },
+  });
+
+  const amount = Math.round(entries.reduce((sum, entry) => sum + entry.amount, 0) * 100) / 100;
+
+  if (amount < PAYOUT_MINIMUM_AMOUNT) {
+    return { success: true, skipped: true, amount };
+  }
+
+  // Create the batch and claim its entries (within transaction)
+  const entryIds = entries.map((entry) => entry.id);
+  const payout = await prisma.$transaction(async (tx) => {
+    const created = await tx.payout.create({
+      data: { tutorId, amount },
+    });
+
+    const linked = await tx.earningEntry.updateMany({
+      where: { id: { in: entryIds }, payoutId: null },
+      data: { payoutId: created.id },
+    });
+
+    // Another run claimed some of the entries - abort this batch
+    if (linked.count !== entryIds.length) {
+      throw Errors.Conflict("Earnings changed while the payout was being created");
+    }
+
+    return created;
+  });
+
+  return await transferPayout(stripe, payout, tutor.stripeAccountId, false);
+}
+
+/**
+ * Make (or retry) the Stripe transfer for a PENDING payout batch
+ *
+ * @param retry - The batch was attempted before; look for a transfer that
+ *   went through, since Stripe forgets idempotency keys after 24 hours
+ */
+async function transferPayout(
+  stripe: Stripe,
+  payout: Pick<Payout, "id" | "tutorId" | "amount" | "currency">,
+  destination: string,
+  retry: boolean
+): Promise<PayoutResult> {
+  const { id: payoutId, tutorId, amount } = payout;
+
+  try {
+    const existing = retry
+      ? (await stripe.transfers.list({ transfer_group: `payout-${payoutId}`, limit: 1 })).data[0]
+      : undefined;
+
+    const transfer =
+      existing ??
+      (await stripe.transfers.create(
+        {
+          amount: Math.round(amount * 100), // Convert to cents
+          currency: payout.currency,
+          destination,
+          transfer_group: `payout-${payoutId}`,
+          metadata: {
+            payoutId,
+            tutorId,
+          },
+        },
+        {
+          idempotencyKey: `payout-${payoutId}`,
+        }
+      ));
+
+    await prisma.payout.update({
+      where: { id: payoutId },
+      data: {
+        status: PayoutStatus.PAID,
+        stripeTransferId: transfer.id,
+        failureReason: null,
+        paidAt: new Date(),
+      },
+    });
+
+    logger.info("Tutor payout transferred", {
+      tutorId,
+      payoutId,
+      transferId: transfer.id,
+      amount,
+      retry,
+    });
+
+    return { success: true, payoutId, amount };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorType = (error as { type?: string })?.type;
+
+    if (!errorType || !DEFINITIVE_TRANSFER_ERRORS.has(errorType)) {
+      // Keep the batch and its entries - releasing them would pay them again
+      await prisma.payout.update({
+        where: { id: payoutId },
+        data: { failureReason: errorMessage },
+      });
+
+      logger.warn("Tutor payout transfer outcome unknown, retrying next run", {
+        tutorId,
+        payoutId,
+        amount,
+        error: errorMessage,
+        type: errorType ?? null,
+      });
+
+      return { success: false, payoutId, amount, error: errorMessage };
+    }
+
+    await prisma.$transaction([
+      prisma.payout.update({
+        where: { id: payoutId },
+        data: {
+          status: PayoutStatus.FAILED,
+          failureReason: errorMessage,
+        },
+      }),
+      prisma.earningEntry.updateMany({
+        where: { payoutId },
+        data: { payoutId: null },
+      }),
+    ]);
+
+    logger.error("Tutor payout transfer failed", {
+      tutorId,
+      payoutId,
+      amount,
+      error: errorMessage,
+    });
+
+    return { success: false, payoutId, amount, error: errorMessage };
+  }
+}
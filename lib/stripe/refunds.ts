@@ -2,6 +2,10 @@
  * Stripe Refund Utilities
  * 
  * Production-ready refund processing with:
+ * - Full, partial and custom-amount refunds
+ * - A Refund record per refund (amount, reason, actor)
+ * - Tutor earnings clawback for refunds on completed sessions
+ * - An in-app notification for the student (and emails queued by the caller)
  * - Idempotency checks
  * - Transaction safety
  * - Comprehensive error handling
@@ -13,31 +17,75 @@ import Stripe from "stripe";
 import { getStripeClient } from "./client";
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/db/prisma";
-import { BookingStatus } from "@prisma/client";
+import { BookingStatus, NotificationType } from "@prisma/client";
+import type { Prisma, Refund } from "@prisma/client";
+import { recordRefundEarning } from "@/lib/booking/earnings";
+import { createNotifications } from "@/lib/notifications/inbox";
+import {
+  convertFromSettlement,
+  fromStripeAmount,
+  getBookingQuote,
+  getChargedAmount,
+  toStripeAmount,
+} from "@/lib/booking/currency";
 
 /**
  * Refund result with detailed information
  */
 export interface RefundResult {
   success: boolean;
-  refund?: Stripe.Refund;
+  refund?: Stripe.Refund; // Amounts in the currency the booking was charged in
+  amount?: number; // Amount of this refund in USD
   error?: string;
   alreadyRefunded?: boolean;
   bookingNotFound?: boolean;
   noPayment?: boolean;
+  fullyRefunded?: boolean; // True if the booking's full price has now been refunded
+  emailIds?: Array<string | null>; // Emails queued by options.queueEmails
+}
+
+/**
+ * Refund options
+ */
+export interface RefundOptions {
+  amount?: number; // Amount to refund in USD (defaults to the remaining refundable amount)
+  actorId?: string; // User who triggered the refund (omit for system refunds)
+  /**
+   * Queue emails about the refund (e.g. an updated receipt) in the transaction
+   * that records it; deliver the returned emailIds with deliverQueuedEmails
+   */
+  queueEmails?: (tx: Prisma.TransactionClient, refund: Refund) => Promise<Array<string | null>>;
+}
+
+/**
+ * Status of a booking once its full price has been refunded
+ * (no-show outcomes are kept; the refund records show the refund)
+ */
+function getFullyRefundedStatus(status: BookingStatus): BookingStatus {
+  return status === BookingStatus.NO_SHOW_STUDENT || status === BookingStatus.NO_SHOW_TUTOR
+    ? status
+    : BookingStatus.REFUNDED;
 }
 
 /**
  * Process a refund for a booking with idempotency and transaction safety
  * 
+ * Partial refunds leave the booking status unchanged; the booking moves to
+ * REFUNDED once refunds add up to its full price.
+ * 
+ * Amounts are in USD (the booking's price). Stripe is refunded in the
+ * currency the booking was charged in, at the rate stored on the booking.
+ * 
  * @param bookingId - The booking ID to refund
  * @param reason - Optional reason for the refund (defaults to "requested_by_customer")
+ * @param options - Amount and actor of the refund
  * @param retryCount - Internal retry counter (max 3 retries)
  * @returns Detailed refund result
  */
 export async function processRefund(
   bookingId: string,
   reason?: string,
+  options: RefundOptions = {},
   retryCount: number = 0
 ): Promise<RefundResult> {
   const MAX_RETRIES = 3;
@@ -71,10 +119,16 @@ export async function processRefund(
             id: true,
             paymentId: true,
             price: true,
+            currency: true,
+            exchangeRate: true,
+            chargedAmount: true,
             status: true,
             studentId: true,
             tutorId: true,
             scheduledAt: true,
+            refunds: {
+              select: { amount: true, chargedAmount: true },
+            },
           },
         });
 
@@ -114,10 +168,14 @@ export async function processRefund(
         }
 
         // Validate booking status allows refund
+        // (completed sessions can still get partial refunds, e.g. calls ended early)
         const refundableStatuses: BookingStatus[] = [
           BookingStatus.PENDING,
           BookingStatus.CONFIRMED,
           BookingStatus.CANCELLED,
+          BookingStatus.COMPLETED,
+          BookingStatus.NO_SHOW_STUDENT,
+          BookingStatus.NO_SHOW_TUTOR,
         ];
         if (!refundableStatuses.includes(booking.status)) {
           logger.warn("Booking status does not allow refund", {
@@ -130,18 +188,82 @@ export async function processRefund(
           };
         }
 
+        // Work out how much is left to refund (in cents to avoid float drift)
+        const priceCents = Math.round(booking.price * 100);
+        const refundedCents = booking.refunds.reduce(
+          (sum, existing) => sum + Math.round(existing.amount * 100),
+          0
+        );
+        const remainingCents = priceCents - refundedCents;
+
+        if (remainingCents <= 0) {
+          logger.info("Booking already fully refunded (idempotency)", {
+            bookingId,
+            refundedAmount: refundedCents / 100,
+          });
+
+          await tx.booking.update({
+            where: { id: bookingId },
+            data: { status: getFullyRefundedStatus(booking.status) },
+          });
+
+          return {
+            success: true,
+            alreadyRefunded: true,
+            fullyRefunded: true,
+            error: "Booking already refunded",
+          };
+        }
+
+        const refundAmountCents =
+          options.amount !== undefined ? Math.round(options.amount * 100) : remainingCents;
+        if (refundAmountCents <= 0 || refundAmountCents > remainingCents) {
+          logger.error("Invalid refund amount", {
+            bookingId,
+            bookingPrice: booking.price,
+            refundAmountCents,
+            remainingCents,
+          });
+          return {
+            success: false,
+            error: `Refund amount must be between $0.01 and $${(remainingCents / 100).toFixed(2)}`,
+          };
+        }
+        const fullyRefunded = refundAmountCents === remainingCents;
+
+        // Same refund in the charged currency's smallest unit. A full refund
+        // returns whatever is left of the charge, so rounding never leaves a remainder.
+        const quote = getBookingQuote(booking);
+        const currency = quote.currency;
+        const chargedRemaining =
+          toStripeAmount(getChargedAmount(booking), currency) -
+          booking.refunds.reduce(
+            (sum, existing) => sum + toStripeAmount(existing.chargedAmount ?? existing.amount, currency),
+            0
+          );
+        const stripeRefundAmount = fullyRefunded
+          ? chargedRemaining
+          : Math.min(
+              chargedRemaining,
+              toStripeAmount(
+                convertFromSettlement(refundAmountCents / 100, quote),
+                currency
+              )
+            );
+
         try {
           // Get the payment intent from the checkout session
           const session = await stripe.checkout.sessions.retrieve(booking.paymentId);
           
           if (!session.payment_intent) {
-            logger.error("No payment intent found in checkout session", {
+            logger.warn("No payment intent found in checkout session", {
               bookingId,
               sessionId: booking.paymentId,
               sessionStatus: session.status,
             });
             return {
               success: false,
+              noPayment: true,
               error: "Payment session has no payment intent",
             };
           }
@@ -151,9 +273,11 @@ export async function processRefund(
             session.payment_intent as string
           );
           
+          // Refund records (not the intent's amount_refunded) track what was
+          // refunded per booking, since recurring series share one payment intent
           const amountRefunded = (paymentIntent as any).amount_refunded || 0;
-          if (paymentIntent.status === "canceled" || amountRefunded > 0) {
-            logger.info("Payment intent already refunded or canceled", {
+          if (paymentIntent.status === "canceled") {
+            logger.info("Payment intent canceled", {
               bookingId,
               paymentIntentId: paymentIntent.id,
               amountRefunded,
@@ -163,7 +287,7 @@ export async function processRefund(
             // Update booking status to match reality
             await tx.booking.update({
               where: { id: bookingId },
-              data: { status: BookingStatus.REFUNDED },
+              data: { status: getFullyRefundedStatus(booking.status) },
             });
             
             return {
@@ -173,14 +297,14 @@ export async function processRefund(
             };
           }
 
-          // Validate refund amount
-          const refundAmountCents = Math.round(booking.price * 100);
-          if (refundAmountCents <= 0 || refundAmountCents > paymentIntent.amount) {
+          // Validate refund amount against what is left on the payment
+          if (stripeRefundAmount > paymentIntent.amount - amountRefunded) {
             logger.error("Invalid refund amount", {
               bookingId,
               bookingPrice: booking.price,
-              refundAmountCents,
+              stripeRefundAmount,
               paymentIntentAmount: paymentIntent.amount,
+              amountRefunded,
             });
             return {
               success: false,
@@ -197,39 +321,81 @@ export async function processRefund(
           const refund = await stripe.refunds.create(
             {
               payment_intent: session.payment_intent as string,
-              amount: refundAmountCents,
+              amount: stripeRefundAmount,
               reason: refundReason,
               metadata: {
                 bookingId: booking.id,
                 reason: reason || "booking_cancelled",
+                actorId: options.actorId || "system",
                 refundedAt: new Date().toISOString(),
               },
             },
             {
-              idempotencyKey: `refund-${bookingId}-${Date.now()}`,
+              // One key per refund: retries of the same refund reuse it,
+              // a later refund on the same booking gets a new one
+              idempotencyKey: `refund-${bookingId}-${booking.refunds.length}-${refundAmountCents}`,
             }
           );
 
-          // Update booking status to REFUNDED (within transaction)
-          await tx.booking.update({
-            where: { id: bookingId },
+          // Record the refund (within transaction)
+          const refundRecord = await tx.refund.create({
             data: {
-              status: BookingStatus.REFUNDED,
+              bookingId,
+              amount: refundAmountCents / 100,
+              chargedAmount: fromStripeAmount(refund.amount, refund.currency),
+              reason: reason || "requested_by_customer",
+              actorId: options.actorId,
+              stripeRefundId: refund.id,
             },
           });
 
+          // Claw back the tutor's share if the session was already in their earnings
+          await recordRefundEarning(tx, { ...refundRecord, currency });
+
+          // Let the student know in the notification center
+          await createNotifications(tx, [
+            {
+              userId: booking.studentId,
+              type: NotificationType.BOOKING_REFUNDED,
+              bookingId,
+              data: {
+                scheduledAt: booking.scheduledAt.toISOString(),
+                amount: refundRecord.chargedAmount ?? refundRecord.amount,
+                currency,
+              },
+            },
+          ]);
+
+          // Only a full refund moves the booking to REFUNDED
+          if (fullyRefunded) {
+            await tx.booking.update({
+              where: { id: bookingId },
+              data: {
+                status: getFullyRefundedStatus(booking.status),
+              },
+            });
+          }
+
+          const emailIds = options.queueEmails ? await options.queueEmails(tx, refundRecord) : [];
+
           logger.info("Refund processed successfully", {
             bookingId,
             refundId: refund.id,
-            amount: refund.amount / 100,
+            amount: refundAmountCents / 100,
+            chargedAmount: fromStripeAmount(refund.amount, refund.currency),
             currency: refund.currency,
             reason: reason || "requested_by_customer",
+            actorId: options.actorId,
+            fullyRefunded,
             paymentIntentId: paymentIntent.id,
           });
 
           return {
             success: true,
             refund,
+            amount: refundRecord.amount,
+            fullyRefunded,
+            emailIds,
           };
         } catch (stripeError: any) {
           // Handle Stripe-specific errors
@@ -253,14 +419,17 @@ export async function processRefund(
             });
             
             // Update booking status to match reality
-            await tx.booking.update({
-              where: { id: bookingId },
-              data: { status: BookingStatus.REFUNDED },
-            });
+            if (fullyRefunded) {
+              await tx.booking.update({
+                where: { id: bookingId },
+                data: { status: getFullyRefundedStatus(booking.status) },
+              });
+            }
             
             return {
               success: true,
               alreadyRefunded: true,
+              fullyRefunded,
               error: "Refund already processed",
             };
           }
@@ -283,7 +452,7 @@ export async function processRefund(
             await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * (retryCount + 1)));
 
             // Retry with incremented counter
-            return processRefund(bookingId, reason, retryCount + 1);
+            return processRefund(bookingId, reason, options, retryCount + 1);
           }
 
           // Log and return error for non-retryable errors
@@ -329,7 +498,8 @@ export async function processRefund(
  */
 export async function processRefundWithBookingUpdate(
   bookingId: string,
-  reason?: string
+  reason?: string,
+  options: RefundOptions = {}
 ): Promise<RefundResult> {
-  return processRefund(bookingId, reason);
+  return processRefund(bookingId, reason, options);
 }
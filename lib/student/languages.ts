@@ -0,0 +1,168 @@
+/**
+ * Student Learning Languages
+ *
+ * Students learn one or more languages, each with its own level, goal and
+ * schedule preference (StudentLanguage). The first is the primary language:
+ * - Its goal, level and schedule are mirrored on StudentProfile for code that
+ *   reads a single preference
+ * - It's the default filter of the tutors listing
+ *
+ * No server-only imports: also used by onboarding and profile forms.
+ */
+
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Languages students can choose to learn
+ */
+export const LEARNING_LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Italian",
+  "Portuguese",
+  "Japanese",
+  "Chinese",
+  "Korean",
+  "Arabic",
+  "Russian",
+] as const;
+
+export const LEARNING_GOALS = [
+  "conversation",
+  "business",
+  "academic",
+  "travel",
+  "exam",
+  "other",
+] as const;
+
+export const STUDENT_LEVELS = [
+  "beginner",
+  "elementary",
+  "intermediate",
+  "upper-intermediate",
+  "advanced",
+] as const;
+
+export const SCHEDULE_PREFERENCES = ["morning", "afternoon", "evening", "flexible"] as const;
+
+export type StudentLevel = (typeof STUDENT_LEVELS)[number];
+
+/**
+ * Tutors listing `language` value that overrides the student's default language
+ */
+export const ALL_LANGUAGES_FILTER = "all";
+
+/**
+ * Languages a student can learn at once
+ */
+export const MAX_LEARNING_LANGUAGES = 5;
+
+/**
+ * One language the student is learning
+ */
+export const learningLanguageSchema = z.object({
+  language: z
+    .string()
+    .trim()
+    .min(1, "Language is required")
+    .max(50, "Language must be less than 50 characters"),
+  level: z.enum(STUDENT_LEVELS, { message: "Invalid level" }),
+  learningGoal: z.enum(LEARNING_GOALS, { message: "Invalid learning goal" }),
+  preferredSchedule: z.enum(SCHEDULE_PREFERENCES, { message: "Invalid schedule" }),
+});
+
+export type LearningLanguageInput = z.infer<typeof learningLanguageSchema>;
+
+/**
+ * All of the student's languages, primary first
+ */
+export const learningLanguagesSchema = z
+  .array(learningLanguageSchema)
+  .min(1, "Add at least one language you want to learn")
+  .max(MAX_LEARNING_LANGUAGES, `You can learn up to ${MAX_LEARNING_LANGUAGES} languages at once`)
+  .refine(
+    (languages) =>
+      new Set(languages.map((entry) => entry.language.toLowerCase())).size === languages.length,
+    { message: "Each language can only be added once" }
+  );
+
+/**
+ * StudentProfile fields mirrored from the primary language
+ */
+export function getPrimaryLanguageFields(languages: LearningLanguageInput[]) {
+  const [primary] = languages;
+  return {
+    learningGoal: primary?.learningGoal ?? null,
+    currentLevel: primary?.level ?? null,
+    preferredSchedule: primary?.preferredSchedule ?? null,
+  };
+}
+
+/**
+ * Replace the student's languages, keeping the given order
+ * Call inside a transaction with the StudentProfile update
+ */
+export async function saveLearningLanguages(
+  tx: Prisma.TransactionClient,
+  studentProfileId: string,
+  languages: LearningLanguageInput[]
+) {
+  await tx.studentLanguage.deleteMany({
+    where: { studentProfileId },
+  });
+
+  await tx.studentLanguage.createMany({
+    data: languages.map((entry, position) => ({
+      studentProfileId,
+      language: entry.language,
+      level: entry.level,
+      learningGoal: entry.learningGoal,
+      preferredSchedule: entry.preferredSchedule,
+      position,
+    })),
+  });
+}
+
+/**
+ * Student languages in order, primary first
+ */
+export const studentLanguagesInclude = {
+  languages: {
+    orderBy: { position: "asc" },
+  },
+} as const;
+
+/**
+ * Names to match against tutors' languages, which are free text ("Spanish", "spanish")
+ */
+function getLanguageVariants(languages: string[]): string[] {
+  return Array.from(new Set(languages.flatMap((language) => [language, language.toLowerCase()])));
+}
+
+/**
+ * Tutors who teach one of the languages (listed in languagesTaught or specialties)
+ */
+export function getTutorLanguageFilter(languages: string[]): Prisma.TutorProfileWhereInput {
+  const variants = getLanguageVariants(languages);
+  return {
+    OR: [{ languagesTaught: { hasSome: variants } }, { specialties: { hasSome: variants } }],
+  };
+}
+
+/**
+ * Whether a tutor teaches one of the languages; true when the student has none
+ */
+export function teachesLanguage(
+  tutor: { languagesTaught: string[]; specialties: string[] },
+  languages: string[]
+): boolean {
+  if (languages.length === 0) return true;
+  const wanted = languages.map((language) => language.toLowerCase());
+  return [...tutor.languagesTaught, ...tutor.specialties].some((name) =>
+    wanted.includes(name.toLowerCase())
+  );
+}
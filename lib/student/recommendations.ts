@@ -0,0 +1,546 @@
+/**
+ * Tutor Recommendations
+ *
+ * Scores tutors for a student on weighted factors. Each factor scores 0-1 and
+ * is multiplied by its weight; weights add up to 100:
+ * - language: teaches a language the student is learning (primary counts most)
+ * - level: the tutor's preferredLevels include the student's level
+ * - schedule: tutor availability over the next week in the student's
+ *   preferred part of day, in the student's timezone
+ * - industry: industry familiarity the student mentions in their motivation,
+ *   or specialties matching their learning goals
+ * - price: hourly rate against what the student usually pays (or the
+ *   candidates' median before their first session)
+ * - reviews: average rating and sentiment of review comments and tags
+ * - history: completed sessions with the tutor and how the student rated them
+ *
+ * Tutors the student rated poorly are never recommended. The breakdown is
+ * returned with each tutor so the UI can explain "why this tutor".
+ */
+
+import {
+  BookingStatus,
+  TutorApprovalStatus,
+  type Prisma,
+  type PrismaClient,
+  type Review,
+  type TutorProfile,
+  type User,
+} from "@prisma/client";
+import {
+  SLOT_INTERVAL_MINUTES,
+  getAvailabilityWindows,
+  getCurrentExceptionsFilter,
+  type AvailabilityExceptionRule,
+  type AvailabilityRule,
+} from "@/lib/booking/availability";
+import { getZonedDateParts, resolveTimeZone } from "@/lib/utils/timezone";
+import { getTutorLanguageFilter, studentLanguagesInclude, teachesLanguage } from "./languages";
+
+/**
+ * Factor weights (sum to 100)
+ */
+export const RECOMMENDATION_WEIGHTS = {
+  language: 25,
+  level: 15,
+  schedule: 15,
+  industry: 10,
+  price: 10,
+  reviews: 15,
+  history: 10,
+} as const;
+
+export type RecommendationFactor = keyof typeof RECOMMENDATION_WEIGHTS;
+
+/**
+ * Tutors returned per request
+ */
+export const RECOMMENDED_TUTORS_LIMIT = 12;
+
+/**
+ * Highest-rated tutors scored per request
+ */
+export const RECOMMENDATION_CANDIDATE_LIMIT = 100;
+
+/**
+ * Tutors scoring at least this are flagged as recommended
+ */
+export const RECOMMENDED_SCORE_THRESHOLD = 60;
+
+/**
+ * Tutors the student rated this or lower (on average) are excluded
+ */
+export const POOR_RATING_THRESHOLD = 2;
+
+// Availability looked at for schedule overlap
+const SCHEDULE_LOOKAHEAD_DAYS = 7;
+// Weekly minutes in the preferred part of day that score fully
+const SCHEDULE_TARGET_MINUTES = 6 * 60;
+// Factors scoring at least this share of their weight are listed as reasons
+const REASON_MIN_RATIO = 0.7;
+
+/**
+ * Local hours [start, end) of each schedule preference; "flexible" is any time
+ */
+export const SCHEDULE_HOURS: Record<string, [number, number]> = {
+  morning: [6, 12],
+  afternoon: [12, 18],
+  evening: [18, 24],
+};
+
+/**
+ * Student levels grouped into the bands tutors choose in preferredLevels
+ */
+const LEVEL_BANDS: Record<string, string> = {
+  beginner: "beginner",
+  elementary: "beginner",
+  intermediate: "intermediate",
+  "upper-intermediate": "intermediate",
+  advanced: "advanced",
+};
+const BAND_ORDER = ["beginner", "intermediate", "advanced"];
+
+/**
+ * Tutor specialties that serve each learning goal
+ */
+const GOAL_SPECIALTIES: Record<string, string[]> = {
+  conversation: ["Conversation Practice", "Conversational", "Speaking"],
+  business: ["Business", "Professional"],
+  academic: ["Academic", "Writing"],
+  travel: ["Travel & Tourism", "Travel", "Tourism"],
+  exam: ["Exam Preparation", "IELTS", "TOEFL", "DELE", "DELF"],
+  other: [],
+};
+
+const POSITIVE_REVIEW_WORDS = [
+  "patient", "clear", "helpful", "engaging", "great", "excellent", "friendly",
+  "fun", "recommend", "amazing", "knowledgeable", "prepared", "encouraging",
+];
+const NEGATIVE_REVIEW_WORDS = [
+  "late", "rude", "boring", "unprepared", "confusing", "bad", "poor",
+  "waste", "disappointing", "distracted", "impatient",
+];
+
+interface LanguagePreference {
+  language: string | null; // null for students onboarded before languages
+  level: string | null;
+  learningGoal: string | null;
+  preferredSchedule: string | null;
+}
+
+export interface RecommendationContext {
+  languages: LanguagePreference[]; // Primary first
+  motivation: string | null;
+  timezone: string;
+  // Hourly price of the student's completed sessions (null before the first)
+  averageHourlyPrice: number | null;
+  // By TutorProfile id
+  tutorHistory: Map<string, { sessions: number; averageRating: number | null }>;
+  now: Date;
+}
+
+export interface RecommendationCandidate {
+  id: string; // TutorProfile id
+  languagesTaught: string[];
+  specialties: string[];
+  preferredLevels: string[];
+  industryFamiliarity: string[];
+  hourlyRate: number;
+  availability: AvailabilityRule[];
+  availabilityExceptions: AvailabilityExceptionRule[];
+  reviews: Pick<Review, "rating" | "comment" | "tags">[];
+}
+
+export interface ScoreBreakdownItem {
+  factor: RecommendationFactor;
+  score: number;
+  maxScore: number;
+  // What matched, e.g. the language, level band, schedule or industry
+  detail: string | null;
+}
+
+export interface TutorScore {
+  score: number;
+  breakdown: ScoreBreakdownItem[];
+  // Strongest factors first, for "why this tutor"
+  reasons: RecommendationFactor[];
+}
+
+export interface TutorRecommendation extends TutorScore {
+  tutor: Omit<RecommendationCandidate, "reviews"> &
+    Pick<TutorProfile, "rating" | "totalSessions" | "bio"> & {
+      user: Pick<User, "id" | "name" | "image">;
+    };
+}
+
+interface FactorResult {
+  ratio: number; // 0-1
+  detail: string | null;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+function scoreLanguage(
+  candidate: RecommendationCandidate,
+  languages: LanguagePreference[]
+): FactorResult & { preference: LanguagePreference | null } {
+  const named = languages.filter((entry) => entry.language);
+  if (named.length === 0) {
+    // Nothing to match on, every tutor is equally suitable
+    return { ratio: 0.5, detail: null, preference: languages[0] ?? null };
+  }
+
+  const index = named.findIndex((entry) => teachesLanguage(candidate, [entry.language!]));
+  if (index === -1) {
+    return { ratio: 0, detail: null, preference: named[0] };
+  }
+
+  return {
+    ratio: index === 0 ? 1 : 0.8,
+    detail: named[index].language,
+    preference: named[index],
+  };
+}
+
+function scoreLevel(candidate: RecommendationCandidate, level: string | null): FactorResult {
+  const band = level ? LEVEL_BANDS[level] : undefined;
+  if (!band) return { ratio: 0.5, detail: null };
+
+  // Tutors without preferences teach every level
+  if (candidate.preferredLevels.length === 0) return { ratio: 0.6, detail: null };
+
+  const preferred = candidate.preferredLevels.map((entry) => entry.toLowerCase());
+  if (preferred.includes(band)) return { ratio: 1, detail: band };
+
+  const distance = Math.min(
+    ...preferred
+      .map((entry) => BAND_ORDER.indexOf(entry))
+      .filter((index) => index !== -1)
+      .map((index) => Math.abs(index - BAND_ORDER.indexOf(band)))
+  );
+  return { ratio: distance === 1 ? 0.4 : 0.1, detail: null };
+}
+
+/**
+ * Minutes the tutor is available over the next week during the student's
+ * preferred part of day
+ */
+export function getScheduleOverlapMinutes(
+  candidate: Pick<RecommendationCandidate, "availability" | "availabilityExceptions">,
+  schedule: string | null,
+  timezone: string,
+  now: Date
+): number {
+  const rangeEnd = new Date(now.getTime() + SCHEDULE_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+  const windows = getAvailabilityWindows(
+    now,
+    rangeEnd,
+    candidate.availability,
+    candidate.availabilityExceptions
+  );
+  const hours = schedule ? SCHEDULE_HOURS[schedule] : undefined;
+  const timeZone = resolveTimeZone(timezone);
+  const step = SLOT_INTERVAL_MINUTES * 60 * 1000;
+
+  let minutes = 0;
+  for (const window of windows) {
+    const start = Math.max(window.start.getTime(), now.getTime());
+    const end = Math.min(window.end.getTime(), rangeEnd.getTime());
+
+    for (let time = start; time + step <= end; time += step) {
+      if (hours) {
+        const { hour } = getZonedDateParts(new Date(time), timeZone);
+        if (hour < hours[0] || hour >= hours[1]) continue;
+      }
+      minutes += SLOT_INTERVAL_MINUTES;
+    }
+  }
+
+  return minutes;
+}
+
+function scoreSchedule(
+  candidate: RecommendationCandidate,
+  schedule: string | null,
+  context: RecommendationContext
+): FactorResult {
+  const minutes = getScheduleOverlapMinutes(candidate, schedule, context.timezone, context.now);
+  return {
+    ratio: clamp(minutes / SCHEDULE_TARGET_MINUTES),
+    detail: minutes > 0 ? schedule || "flexible" : null,
+  };
+}
+
+function scoreIndustry(
+  candidate: RecommendationCandidate,
+  learningGoals: (string | null)[],
+  motivation: string | null
+): FactorResult {
+  // Industries the student writes about, e.g. "I'm a nurse in healthcare"
+  const text = motivation?.toLowerCase() || "";
+  const industry = candidate.industryFamiliarity.find(
+    (entry) => text && text.includes(entry.toLowerCase())
+  );
+  if (industry) return { ratio: 1, detail: industry };
+
+  const wanted = learningGoals.flatMap((goal) => (goal ? GOAL_SPECIALTIES[goal] || [] : []));
+  const specialty = candidate.specialties.find((spec) =>
+    wanted.some(
+      (match) =>
+        spec.toLowerCase().includes(match.toLowerCase()) ||
+        match.toLowerCase().includes(spec.toLowerCase())
+    )
+  );
+  if (specialty) return { ratio: 0.8, detail: specialty };
+
+  return { ratio: 0, detail: null };
+}
+
+function scorePrice(hourlyRate: number, referencePrice: number | null): FactorResult {
+  if (!referencePrice || hourlyRate <= 0) return { ratio: 0.5, detail: null };
+  return { ratio: clamp(referencePrice / hourlyRate), detail: null };
+}
+
+/**
+ * Review sentiment from -1 (negative) to 1 (positive), from comment words and tags
+ */
+export function getReviewSentiment(
+  reviews: Pick<Review, "comment" | "tags">[]
+): number {
+  let positive = 0;
+  let negative = 0;
+
+  for (const review of reviews) {
+    const words = [
+      ...(review.comment?.toLowerCase().match(/[a-z]+/g) || []),
+      ...review.tags.map((tag) => tag.toLowerCase()),
+    ];
+    positive += words.filter((word) => POSITIVE_REVIEW_WORDS.includes(word)).length;
+    negative += words.filter((word) => NEGATIVE_REVIEW_WORDS.includes(word)).length;
+  }
+
+  return positive + negative === 0 ? 0 : (positive - negative) / (positive + negative);
+}
+
+function scoreReviews(reviews: RecommendationCandidate["reviews"]): FactorResult {
+  if (reviews.length === 0) return { ratio: 0.5, detail: null };
+
+  const averageRating = reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length;
+  const sentiment = getReviewSentiment(reviews);
+
+  return {
+    ratio: clamp(0.7 * ((averageRating - 1) / 4) + 0.3 * ((sentiment + 1) / 2)),
+    detail: averageRating.toFixed(1),
+  };
+}
+
+function scoreHistory(
+  history: { sessions: number; averageRating: number | null } | undefined
+): FactorResult {
+  if (!history || history.sessions === 0) return { ratio: 0, detail: null };
+  if (history.averageRating === null) return { ratio: 0.6, detail: null };
+  return { ratio: history.averageRating >= 4 ? 1 : 0.3, detail: null };
+}
+
+/**
+ * Score one tutor for the student
+ * priceReference: hourly price to compare against (see getTutorRecommendations)
+ */
+export function scoreTutor(
+  candidate: RecommendationCandidate,
+  context: RecommendationContext,
+  priceReference: number | null
+): TutorScore {
+  const language = scoreLanguage(candidate, context.languages);
+  // The matched language's level and schedule, or the primary language's
+  const preference = language.preference;
+
+  const results: Record<RecommendationFactor, FactorResult> = {
+    language,
+    level: scoreLevel(candidate, preference?.level ?? null),
+    schedule: scoreSchedule(candidate, preference?.preferredSchedule ?? null, context),
+    industry: scoreIndustry(
+      candidate,
+      context.languages.map((entry) => entry.learningGoal),
+      context.motivation
+    ),
+    price: scorePrice(candidate.hourlyRate, priceReference),
+    reviews: scoreReviews(candidate.reviews),
+    history: scoreHistory(context.tutorHistory.get(candidate.id)),
+  };
+
+  const breakdown = (Object.keys(RECOMMENDATION_WEIGHTS) as RecommendationFactor[]).map(
+    (factor) => ({
+      factor,
+      score: Math.round(results[factor].ratio * RECOMMENDATION_WEIGHTS[factor] * 10) / 10,
+      maxScore: RECOMMENDATION_WEIGHTS[factor],
+      detail: results[factor].detail,
+    })
+  );
+
+  const reasons = breakdown
+    .filter((item) => item.score / item.maxScore >= REASON_MIN_RATIO)
+    .sort((a, b) => b.score / b.maxScore - a.score / a.maxScore || b.maxScore - a.maxScore)
+    .map((item) => item.factor);
+
+  return {
+    score: Math.round(breakdown.reduce((sum, item) => sum + item.score, 0)),
+    breakdown,
+    reasons,
+  };
+}
+
+/**
+ * Load what the student's recommendations are based on
+ * Returns null if the student has no profile (onboarding not completed)
+ */
+export async function getRecommendationContext(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  userId: string,
+  options: { timezone?: string | null; now?: Date } = {}
+): Promise<RecommendationContext | null> {
+  const [studentProfile, completedBookings, reviews] = await Promise.all([
+    prisma.studentProfile.findUnique({
+      where: { userId },
+      include: studentLanguagesInclude,
+    }),
+    prisma.booking.findMany({
+      where: { studentId: userId, status: BookingStatus.COMPLETED },
+      select: { tutorId: true, price: true, duration: true },
+    }),
+    prisma.review.findMany({
+      where: { studentId: userId },
+      select: { tutorId: true, rating: true },
+    }),
+  ]);
+
+  if (!studentProfile) {
+    return null;
+  }
+
+  const languages: LanguagePreference[] = studentProfile.languages.length
+    ? studentProfile.languages.map((entry) => ({
+        language: entry.language,
+        level: entry.level,
+        learningGoal: entry.learningGoal,
+        preferredSchedule: entry.preferredSchedule,
+      }))
+    : [
+        {
+          language: null,
+          level: studentProfile.currentLevel,
+          learningGoal: studentProfile.learningGoal,
+          preferredSchedule: studentProfile.preferredSchedule,
+        },
+      ];
+
+  const tutorHistory = new Map<string, { sessions: number; averageRating: number | null }>();
+  for (const booking of completedBookings) {
+    const entry = tutorHistory.get(booking.tutorId) || { sessions: 0, averageRating: null };
+    entry.sessions += 1;
+    tutorHistory.set(booking.tutorId, entry);
+  }
+  for (const tutorId of new Set(reviews.map((review) => review.tutorId))) {
+    const ratings = reviews
+      .filter((review) => review.tutorId === tutorId)
+      .map((review) => review.rating);
+    const entry = tutorHistory.get(tutorId) || { sessions: 0, averageRating: null };
+    entry.averageRating = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+    tutorHistory.set(tutorId, entry);
+  }
+
+  const hourlyPrices = completedBookings
+    .filter((booking) => booking.price > 0 && booking.duration > 0)
+    .map((booking) => (booking.price / booking.duration) * 60);
+
+  return {
+    languages,
+    motivation: studentProfile.motivation,
+    timezone: resolveTimeZone(options.timezone),
+    averageHourlyPrice: hourlyPrices.length
+      ? hourlyPrices.reduce((sum, price) => sum + price, 0) / hourlyPrices.length
+      : null,
+    tutorHistory,
+    now: options.now || new Date(),
+  };
+}
+
+function getMedian(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Score the highest-rated tutors and return the best matches, best first
+ */
+export async function getTutorRecommendations(
+  prisma: Prisma.TransactionClient | PrismaClient,
+  context: RecommendationContext
+): Promise<TutorRecommendation[]> {
+  const learningLanguages = context.languages
+    .map((entry) => entry.language)
+    .filter((language): language is string => !!language);
+
+  // Never recommend tutors the student rated poorly
+  const excludedTutorIds = Array.from(context.tutorHistory.entries())
+    .filter(([, history]) => history.averageRating !== null && history.averageRating <= POOR_RATING_THRESHOLD)
+    .map(([tutorId]) => tutorId);
+
+  const baseWhere: Prisma.TutorProfileWhereInput = {
+    isActive: true,
+    approvalStatus: TutorApprovalStatus.APPROVED,
+    user: { name: { not: null } },
+    ...(excludedTutorIds.length > 0 && { id: { notIn: excludedTutorIds } }),
+  };
+
+  const findCandidates = (where: Prisma.TutorProfileWhereInput) =>
+    prisma.tutorProfile.findMany({
+      where,
+      include: {
+        user: { select: { id: true, name: true, image: true } },
+        availability: { where: { isActive: true } },
+        availabilityExceptions: { where: getCurrentExceptionsFilter(context.now) },
+      },
+      orderBy: { rating: "desc" },
+      take: RECOMMENDATION_CANDIDATE_LIMIT,
+    });
+
+  // Tutors teaching the student's languages; if there are none yet, all tutors
+  let candidates = learningLanguages.length
+    ? await findCandidates({ ...baseWhere, ...getTutorLanguageFilter(learningLanguages) })
+    : [];
+  if (candidates.length === 0) {
+    candidates = await findCandidates(baseWhere);
+  }
+
+  const reviews: (Pick<Review, "tutorId" | "rating" | "comment" | "tags">)[] = candidates.length
+    ? await prisma.review.findMany({
+        where: {
+          tutorId: { in: candidates.map((candidate) => candidate.id) },
+          isHidden: false,
+        },
+        select: { tutorId: true, rating: true, comment: true, tags: true },
+      })
+    : [];
+
+  const priceReference =
+    context.averageHourlyPrice ??
+    getMedian(candidates.map((candidate) => candidate.hourlyRate));
+
+  return candidates
+    .map((candidate): TutorRecommendation => ({
+      tutor: candidate,
+      ...scoreTutor(
+        {
+          ...candidate,
+          reviews: reviews.filter((review) => review.tutorId === candidate.id),
+        },
+        context,
+        priceReference
+      ),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RECOMMENDED_TUTORS_LIMIT);
+}
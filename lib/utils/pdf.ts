@@ -0,0 +1,238 @@
+/**
+ * PDF Utilities
+ *
+ * Plain-text PDF documents (e.g. exported lesson notes) written with pdf-lib.
+ * Text is set in Noto fonts from Fontsource, embedded as subsets, so notes in
+ * any of the languages we teach render instead of turning into "?".
+ * Fontsource splits each font into unicode-range files; only the files a
+ * document's characters fall in are loaded.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, type PDFFont, type PDFPage } from "pdf-lib";
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const FONT_SIZE = 10;
+const TITLE_FONT_SIZE = 14;
+const LINE_HEIGHT = 15;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+/**
+ * Fontsource packages tried in order for each character: Latin, Greek and
+ * Cyrillic, then Arabic, then CJK (Noto Sans SC also covers kana and Hangul)
+ */
+const FONT_PACKAGES = ["noto-sans-mono", "noto-sans-arabic", "noto-sans-sc"] as const;
+const FONT_WEIGHT = 400;
+// Shown for characters none of the fonts cover
+const REPLACEMENT = "?";
+
+type FontPackage = (typeof FONT_PACKAGES)[number];
+
+interface FontFile {
+  fontPackage: FontPackage;
+  subset: string;
+}
+
+interface TextRun {
+  font: PDFFont;
+  text: string;
+}
+
+const FONTS_DIR = path.join(process.cwd(), "node_modules", "@fontsource");
+
+// Parsed unicode.json of each package: subset name -> [first, last] code point ranges
+const subsetRanges = new Map<FontPackage, Promise<Array<[string, Array<[number, number]>]>>>();
+
+function getSubsetRanges(fontPackage: FontPackage) {
+  let ranges = subsetRanges.get(fontPackage);
+  if (!ranges) {
+    ranges = readFile(path.join(FONTS_DIR, fontPackage, "unicode.json"), "utf8").then(
+      (json) =>
+        Object.entries(JSON.parse(json) as Record<string, string>).map(
+          ([subset, unicodeRange]) => [
+            subset.replace(/[[\]]/g, ""),
+            unicodeRange.split(",").map((range) => {
+              const [first, last = first] = range.trim().replace(/^U\+/i, "").split("-");
+              return [parseInt(first, 16), parseInt(last, 16)] as [number, number];
+            }),
+          ]
+        )
+    );
+    subsetRanges.set(fontPackage, ranges);
+  }
+  return ranges;
+}
+
+/**
+ * Find the font file that covers a character, if any
+ */
+async function findFontFile(char: string): Promise<FontFile | null> {
+  const code = char.codePointAt(0)!;
+  // Control characters are listed in the Latin ranges but have no glyphs
+  if (code < 0x20 || (code >= 0x7f && code < 0xa0)) {
+    return null;
+  }
+  for (const fontPackage of FONT_PACKAGES) {
+    for (const [subset, ranges] of await getSubsetRanges(fontPackage)) {
+      if (ranges.some(([first, last]) => code >= first && code <= last)) {
+        return { fontPackage, subset };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Embed the fonts a document needs and split its lines into runs per font
+ */
+async function createTextRunner(pdf: PDFDocument, text: string) {
+  const fileByChar = new Map<string, FontFile | null>();
+  for (const char of new Set([...text, REPLACEMENT])) {
+    fileByChar.set(char, await findFontFile(char));
+  }
+
+  const fonts = new Map<string, PDFFont>();
+  for (const file of fileByChar.values()) {
+    if (!file) continue;
+    const name = `${file.fontPackage}-${file.subset}-${FONT_WEIGHT}-normal.woff`;
+    if (!fonts.has(name)) {
+      const bytes = await readFile(path.join(FONTS_DIR, file.fontPackage, "files", name));
+      fonts.set(name, await pdf.embedFont(bytes, { subset: true }));
+    }
+  }
+
+  const fontFor = (char: string): { font: PDFFont; char: string } => {
+    const file = fileByChar.get(char);
+    if (!file) {
+      return fontFor(REPLACEMENT);
+    }
+    return {
+      font: fonts.get(`${file.fontPackage}-${file.subset}-${FONT_WEIGHT}-normal.woff`)!,
+      char,
+    };
+  };
+
+  return (line: string): TextRun[] => {
+    const runs: TextRun[] = [];
+    for (const original of line) {
+      const { font, char } = fontFor(original);
+      const last = runs[runs.length - 1];
+      if (last?.font === font) {
+        last.text += char;
+      } else {
+        runs.push({ font, text: char });
+      }
+    }
+    return runs;
+  };
+}
+
+/**
+ * Wrap text to the page width, breaking at spaces where possible
+ */
+function wrapLines(
+  text: string,
+  toRuns: (line: string) => TextRun[],
+  size: number
+): string[] {
+  const widths = new Map<string, number>();
+  const widthOf = (char: string) => {
+    let width = widths.get(char);
+    if (width === undefined) {
+      const [run] = toRuns(char);
+      width = run.font.widthOfTextAtSize(run.text, size);
+      widths.set(char, width);
+    }
+    return width;
+  };
+
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line: string[] = [];
+    let width = 0;
+    let lastSpace = -1;
+    for (const char of paragraph) {
+      const charWidth = widthOf(char);
+      if (width + charWidth > TEXT_WIDTH && line.length > 0) {
+        if (char === " ") {
+          lines.push(line.join(""));
+          line = [];
+          width = 0;
+          lastSpace = -1;
+          continue;
+        }
+        const breakAt = lastSpace > 0 ? lastSpace : line.length;
+        lines.push(line.slice(0, breakAt).join(""));
+        line = line.slice(lastSpace > 0 ? breakAt + 1 : breakAt);
+        width = line.reduce((sum, c) => sum + widthOf(c), 0);
+        lastSpace = line.lastIndexOf(" ");
+      }
+      if (char === " ") lastSpace = line.length;
+      line.push(char);
+      width += charWidth;
+    }
+    lines.push(line.join(""));
+  }
+  return lines;
+}
+
+/**
+ * Create a PDF with a title and plain-text body
+ */
+export async function createTextPdf(title: string, body: string): Promise<Uint8Array> {
+  const normalize = (text: string) => text.replace(/\r\n?/g, "\n").replace(/\t/g, "  ");
+  const titleText = normalize(title);
+  const bodyText = normalize(body);
+
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  pdf.setTitle(titleText);
+  const toRuns = await createTextRunner(pdf, titleText + bodyText);
+
+  // The title (plus a blank line) takes the first lines of the first page
+  const titleLines = wrapLines(titleText, toRuns, TITLE_FONT_SIZE);
+  const lines = wrapLines(bodyText, toRuns, FONT_SIZE);
+  const pages: string[][] = [];
+  let pageLines: string[] = [];
+  let capacity = LINES_PER_PAGE - titleLines.length - 1;
+  for (const line of lines) {
+    if (pageLines.length >= capacity) {
+      pages.push(pageLines);
+      pageLines = [];
+      capacity = LINES_PER_PAGE;
+    }
+    pageLines.push(line);
+  }
+  pages.push(pageLines);
+
+  const drawLine = (page: PDFPage, line: string, y: number, size: number) => {
+    let x = MARGIN;
+    for (const run of toRuns(line)) {
+      page.drawText(run.text, { x, y, font: run.font, size });
+      x += run.font.widthOfTextAtSize(run.text, size);
+    }
+  };
+
+  pages.forEach((pageContent, index) => {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+    if (index === 0) {
+      for (const line of titleLines) {
+        drawLine(page, line, y, TITLE_FONT_SIZE);
+        y -= LINE_HEIGHT;
+      }
+      y -= LINE_HEIGHT;
+    }
+    for (const line of pageContent) {
+      drawLine(page, line, y, FONT_SIZE);
+      y -= LINE_HEIGHT;
+    }
+  });
+
+  return pdf.save();
+}
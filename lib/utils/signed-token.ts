@@ -0,0 +1,80 @@
+/**
+ * Signed Tokens
+ *
+ * HMAC-signed tokens for credentials that work without a session, such as
+ * unsubscribe links and local video tokens: "{prefix}.{payload}.{signature}",
+ * where the payload is base64url-encoded JSON claims.
+ *
+ * The signature covers the prefix too, so a token only works for its own
+ * purpose even when several kinds share a secret.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export interface SignedTokenConfig {
+  prefix: string;
+  /** Env var with a dedicated secret; NEXTAUTH_SECRET is used when it's unset */
+  secretEnv: string;
+  /** Key used outside production when no secret is configured */
+  devSecret: string;
+}
+
+/**
+ * Secret tokens are signed with, or null if none is configured
+ */
+export function getTokenSecret(config: SignedTokenConfig): string | null {
+  const secret = process.env[config.secretEnv]?.trim() || process.env.NEXTAUTH_SECRET?.trim();
+  if (secret) {
+    return secret;
+  }
+
+  // Never sign with a well-known key in production
+  return process.env.NODE_ENV === "production" ? null : config.devSecret;
+}
+
+function sign(prefix: string, payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(`${prefix}.${payload}`).digest("base64url");
+}
+
+/**
+ * Create a token carrying the claims, or null if no secret is configured
+ */
+export function createSignedToken(
+  config: SignedTokenConfig,
+  claims: Record<string, unknown>
+): string | null {
+  const secret = getTokenSecret(config);
+  if (!secret) {
+    return null;
+  }
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${config.prefix}.${payload}.${sign(config.prefix, payload, secret)}`;
+}
+
+/**
+ * Verify a token's prefix and signature and return its claims
+ */
+export function verifySignedToken(
+  config: SignedTokenConfig,
+  token: string
+): Record<string, unknown> | null {
+  const secret = getTokenSecret(config);
+  const [prefix, payload, signature] = token.split(".");
+  if (!secret || prefix !== config.prefix || !payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(config.prefix, payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof claims === "object" && claims !== null ? claims : null;
+  } catch {
+    return null;
+  }
+}
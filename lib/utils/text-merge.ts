@@ -0,0 +1,63 @@
+/**
+ * Text Merge Utilities
+ *
+ * Merges concurrent edits to a shared text (e.g. shared lesson notes) without
+ * a server-side operation log. Runs in the browser.
+ */
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string, maxLength: number): number {
+  let length = 0;
+  while (
+    length < maxLength &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Merge a local edit into text someone else saved in the meantime
+ *
+ * The local edit (base → local) is applied to remote as a single splice,
+ * anchored by the unchanged text before or after it. When both participants
+ * changed the same text, remote wins and the local version of the affected
+ * lines is appended so nothing typed is lost.
+ */
+export function mergeTextEdits(base: string, local: string, remote: string): string {
+  if (local === base || local === remote) return remote;
+  if (remote === base) return local;
+
+  // The local edit: base[start, base.length - end) was replaced by inserted
+  const start = commonPrefixLength(base, local);
+  const end = commonSuffixLength(base, local, Math.min(base.length, local.length) - start);
+  const removedLength = base.length - end - start;
+  const inserted = local.slice(start, local.length - end);
+
+  // Remote left the text up to the end of the local edit unchanged
+  if (commonPrefixLength(base, remote) >= start + removedLength) {
+    return remote.slice(0, start) + inserted + remote.slice(start + removedLength);
+  }
+
+  // Remote left the text from the start of the local edit onwards unchanged
+  const remoteSuffix = commonSuffixLength(base, remote, Math.min(base.length, remote.length));
+  if (remoteSuffix >= end + removedLength) {
+    const position = remote.length - end - removedLength;
+    return remote.slice(0, position) + inserted + remote.slice(position + removedLength);
+  }
+
+  // Both changed the same text: keep the local version of the lines involved
+  if (!inserted.trim()) return remote;
+  const lineStart = local.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = local.indexOf("\n", local.length - end);
+  const localLines = local.slice(lineStart, lineEnd === -1 ? local.length : lineEnd);
+  return `${remote}\n${localLines}`;
+}
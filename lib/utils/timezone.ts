@@ -0,0 +1,204 @@
+/**
+ * Timezone Utilities
+ *
+ * Helpers for converting between wall-clock times in an IANA timezone
+ * (e.g. "Asia/Tokyo") and UTC instants. Built on Intl.DateTimeFormat so
+ * they work on both the server and in the browser without extra dependencies.
+ *
+ * Calendar dates are passed around as "YYYY-MM-DD" keys, wall-clock times
+ * as "HH:mm" strings (same format as Availability.startTime/endTime).
+ */
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  dayOfWeek: number; // 0 = Sunday, 6 = Saturday
+}
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+// Intl.DateTimeFormat instances are expensive to create, cache one per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is a valid IANA timezone identifier
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Return the timezone if valid, otherwise fall back to UTC
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the wall-clock parts of an instant in a timezone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const values: Record<string, string> = {};
+  for (const part of parts) {
+    values[part.type] = part.value;
+  }
+
+  return {
+    year: Number(values.year),
+    month: Number(values.month),
+    day: Number(values.day),
+    hour: Number(values.hour),
+    minute: Number(values.minute),
+    dayOfWeek: WEEKDAYS[values.weekday],
+  };
+}
+
+/**
+ * Get the UTC offset of a timezone at a given instant, in minutes
+ * (e.g. 540 for Asia/Tokyo, -180 for America/Sao_Paulo)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const truncated = date.getTime() - (((date.getTime() % 60000) + 60000) % 60000);
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Convert "HH:mm" to minutes since midnight
+ */
+export function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert minutes since midnight to "HH:mm" (wraps past midnight)
+ */
+export function formatMinutesAsTime(minutes: number): string {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  return `${String(hours).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to a UTC instant
+ *
+ * DST handling:
+ * - Times skipped by a spring-forward transition resolve to the instant
+ *   after the gap (e.g. 02:30 becomes 03:30 local)
+ * - Times repeated by a fall-back transition resolve to the first occurrence
+ */
+export function zonedTimeToUtc(dateKey: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const minutes = parseTimeToMinutes(time);
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  const firstOffset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const candidate = new Date(wallClock - firstOffset * 60000);
+  const secondOffset = getTimeZoneOffset(candidate, timeZone);
+
+  if (secondOffset === firstOffset) {
+    return candidate;
+  }
+
+  const adjusted = new Date(wallClock - secondOffset * 60000);
+  const adjustedParts = getZonedDateParts(adjusted, timeZone);
+  if (adjustedParts.hour * 60 + adjustedParts.minute === minutes) {
+    return adjusted;
+  }
+
+  // Wall-clock time falls inside a DST gap - move forward past it
+  return new Date(wallClock - Math.min(firstOffset, secondOffset) * 60000);
+}
+
+/**
+ * Get the calendar date ("YYYY-MM-DD") of an instant in a timezone
+ */
+export function toDateKey(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Add (or subtract) whole days to a calendar date key
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Get the day of week (0 = Sunday) of a calendar date key
+ */
+export function getDayOfWeekForDateKey(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Format an instant as "HH:mm" wall-clock time in a timezone
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedDateParts(date, timeZone);
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+/**
+ * Get the current environment's IANA timezone (the browser's zone on the client)
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the list of selectable IANA timezones, always including UTC and the current value
+ */
+export function getTimeZoneOptions(current: string): string[] {
+  const zones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  return Array.from(new Set([DEFAULT_TIMEZONE, current, ...zones])).filter(Boolean);
+}
@@ -34,6 +34,14 @@ export function getBaseUrl(requestOrigin?: string | null): string {
   return "http://localhost:3000";
 }
 
+/**
+ * Generate a dashboard URL
+ */
+export function getDashboardUrl(locale: string = "en", baseUrl?: string): string {
+  const base = baseUrl || getBaseUrl();
+  return `${base}/${locale}/dashboard`;
+}
+
 /**
  * Generate a booking URL
  */
@@ -49,3 +57,21 @@ export function getSessionUrl(bookingId: string, locale: string = "en", baseUrl?
   const base = baseUrl || getBaseUrl();
   return `${base}/${locale}/sessions/${bookingId}`;
 }
+
+/**
+ * Generate a calendar feed (iCal subscription) URL
+ */
+export function getCalendarFeedUrl(token: string, baseUrl?: string): string {
+  const base = baseUrl || getBaseUrl();
+  return `${base}/api/calendar/${token}`;
+}
+
+/**
+ * Generate a messages inbox URL, optionally opening a conversation
+ */
+export function getMessagesUrl(conversationId?: string, locale: string = "en", baseUrl?: string): string {
+  const base = baseUrl || getBaseUrl();
+  return conversationId
+    ? `${base}/${locale}/messages?conversation=${conversationId}`
+    : `${base}/${locale}/messages`;
+}
@@ -0,0 +1,63 @@
+/**
+ * Video Service
+ *
+ * Selects the video provider from configuration:
+ * - VIDEO_PROVIDER=stream|local picks one explicitly (local is refused in production)
+ * - Otherwise Stream when its credentials are set, falling back to the
+ *   local loopback provider outside production
+ */
+
+import { logger } from "@/lib/logger";
+import { isVideoProviderName, type VideoProvider, type VideoProviderName } from "./provider";
+import { createStreamVideoProvider } from "./stream";
+import { createLocalVideoProvider } from "./local";
+
+export * from "./provider";
+export { STREAM_CALL_TYPE } from "./stream";
+export { createLocalToken, verifyLocalToken } from "./local";
+
+/**
+ * Resolve the configured provider name
+ */
+export function getVideoProviderName(): VideoProviderName {
+  const configured = process.env.VIDEO_PROVIDER?.trim().toLowerCase();
+
+  if (configured) {
+    // Local tokens are signed by us, so anyone could report call events
+    if (configured === "local" && process.env.NODE_ENV === "production") {
+      logger.error("VIDEO_PROVIDER=local is not allowed in production, using Stream", {
+        provider: configured,
+      });
+      return "stream";
+    }
+    if (isVideoProviderName(configured)) {
+      return configured;
+    }
+    logger.warn("Unknown VIDEO_PROVIDER, falling back to default", { provider: configured });
+  }
+
+  const hasStreamCredentials =
+    !!process.env.NEXT_PUBLIC_STREAM_API_KEY?.trim() && !!process.env.STREAM_SECRET_KEY?.trim();
+
+  if (hasStreamCredentials || process.env.NODE_ENV === "production") {
+    return "stream";
+  }
+
+  return "local";
+}
+
+/**
+ * Get the configured video provider
+ */
+export function getVideoProvider(): VideoProvider {
+  return getVideoProviderName() === "local"
+    ? createLocalVideoProvider()
+    : createStreamVideoProvider();
+}
+
+/**
+ * Default call ID for a booking
+ */
+export function getBookingCallId(bookingId: string): string {
+  return `booking-${bookingId}`;
+}
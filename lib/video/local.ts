@@ -0,0 +1,117 @@
+/**
+ * Local Video Provider
+ *
+ * Loopback provider for development and automated tests. Calls run
+ * peer-to-peer in the browser (WebRTC signalled over a BroadcastChannel,
+ * so both participants must be open in the same browser), so no
+ * third-party credentials are needed.
+ *
+ * Tokens are HMAC-signed by us and double as the credential for the
+ * lifecycle events the local client reports. Never used in production.
+ */
+
+import { Errors } from "@/lib/errors";
+import {
+  createSignedToken,
+  getTokenSecret,
+  verifySignedToken,
+  type SignedTokenConfig,
+} from "@/lib/utils/signed-token";
+import {
+  type VideoCallEvent,
+  type VideoCallEventType,
+  type VideoProvider,
+} from "./provider";
+
+export const LOCAL_TOKEN_PREFIX = "local";
+export const LOCAL_TOKEN_TTL_SECONDS = 60 * 60;
+
+const LOCAL_TOKEN: SignedTokenConfig = {
+  prefix: LOCAL_TOKEN_PREFIX,
+  secretEnv: "LOCAL_VIDEO_SECRET",
+  devSecret: "linglix-local-video",
+};
+
+const LOCAL_EVENT_TYPES: VideoCallEventType[] = [
+  "call.started",
+  "participant.joined",
+  "participant.left",
+  "call.ended",
+];
+
+/**
+ * Create a local token: "local.{payload}.{signature}"
+ */
+export function createLocalToken(userId: string, now = new Date()): string {
+  const token = createSignedToken(LOCAL_TOKEN, {
+    sub: userId,
+    exp: Math.floor(now.getTime() / 1000) + LOCAL_TOKEN_TTL_SECONDS,
+  });
+  if (!token) {
+    throw Errors.InternalServerError("Local video provider is not configured");
+  }
+  return token;
+}
+
+/**
+ * Verify a local token and return the user ID it was issued to
+ */
+export function verifyLocalToken(token: string, now = new Date()): string | null {
+  const claims = verifySignedToken(LOCAL_TOKEN, token);
+  if (!claims) {
+    return null;
+  }
+
+  const { sub, exp } = claims;
+  if (typeof sub !== "string" || typeof exp !== "number" || exp * 1000 < now.getTime()) {
+    return null;
+  }
+  return sub;
+}
+
+export function createLocalVideoProvider(): VideoProvider {
+  return {
+    name: "local",
+
+    isConfigured() {
+      return getTokenSecret(LOCAL_TOKEN) !== null;
+    },
+
+    createToken(userId) {
+      return createLocalToken(userId);
+    },
+
+    // Calls only exist between the connected browsers
+    async createCall() {},
+
+    async endCall() {},
+
+    parseEvent(rawBody, headers) {
+      const token = headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+      const tokenUserId = token ? verifyLocalToken(token) : null;
+      if (!tokenUserId) {
+        throw Errors.Unauthorized("Invalid video token");
+      }
+
+      const payload = JSON.parse(rawBody);
+      if (!LOCAL_EVENT_TYPES.includes(payload.type) || typeof payload.callId !== "string") {
+        return null;
+      }
+
+      // Participants can only report their own joins and leaves
+      const isParticipantEvent = payload.type.startsWith("participant.");
+      if (isParticipantEvent && payload.userId !== tokenUserId) {
+        throw Errors.Forbidden("Cannot report events for another participant");
+      }
+
+      return {
+        type: payload.type,
+        callId: payload.callId,
+        userId: isParticipantEvent ? tokenUserId : undefined,
+        // Checked against the booking's participants (see recordCallEvent)
+        reportedBy: tokenUserId,
+        occurredAt: new Date(),
+      } satisfies VideoCallEvent;
+    },
+  };
+}
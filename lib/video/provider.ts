@@ -0,0 +1,70 @@
+/**
+ * Video Provider Interface
+ *
+ * Session flows talk to the video service through this interface so the
+ * Stream implementation can be swapped for the local loopback provider
+ * in development and automated tests.
+ *
+ * Kept free of server-only imports so client components can use the types.
+ */
+
+export const VIDEO_PROVIDERS = ["stream", "local"] as const;
+
+export type VideoProviderName = (typeof VIDEO_PROVIDERS)[number];
+
+/**
+ * Call lifecycle event, normalized across providers
+ */
+export type VideoCallEventType =
+  | "call.started"
+  | "participant.joined"
+  | "participant.left"
+  | "call.ended";
+
+export interface VideoCallEvent {
+  type: VideoCallEventType;
+  callId: string;
+  userId?: string; // Participant events only
+  reportedBy?: string; // User whose token reported the event (local provider only)
+  occurredAt: Date;
+}
+
+export interface CreateCallOptions {
+  createdById: string;
+  memberIds: string[];
+}
+
+export interface VideoProvider {
+  readonly name: VideoProviderName;
+
+  /**
+   * Whether the provider has the credentials it needs
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Issue a client token for the user (also used for in-call chat)
+   */
+  createToken(userId: string): string;
+
+  /**
+   * Create the call ahead of the session (idempotent)
+   */
+  createCall(callId: string, options: CreateCallOptions): Promise<void>;
+
+  /**
+   * End the call for every participant
+   */
+  endCall(callId: string): Promise<void>;
+
+  /**
+   * Verify and normalize a lifecycle event delivered to us by the provider.
+   * Returns null for event types we don't track; throws if the request
+   * can't be authenticated.
+   */
+  parseEvent(rawBody: string, headers: Headers): VideoCallEvent | null;
+}
+
+export function isVideoProviderName(value: string): value is VideoProviderName {
+  return (VIDEO_PROVIDERS as readonly string[]).includes(value);
+}
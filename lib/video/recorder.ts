@@ -0,0 +1,193 @@
+/**
+ * Session Recorder (browser only)
+ *
+ * Records a session call in the browser of the participant who starts the
+ * recording: the participants' video tiles are drawn side by side onto a
+ * canvas and their audio is mixed, then encoded with MediaRecorder.
+ * Provider-agnostic, it only needs the call's media streams.
+ */
+
+const RECORDING_MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+const FRAME_RATE = 15;
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 360;
+
+export interface RecordedSession {
+  blob: Blob;
+  contentType: string; // Without codec parameters, e.g. "video/webm"
+  durationSeconds: number;
+}
+
+export interface SessionRecorder {
+  setStreams: (streams: MediaStream[]) => void; // Participants joined, left or started sharing
+  stop: () => Promise<RecordedSession>;
+  cancel: () => void; // Stop and discard
+}
+
+/**
+ * Best recording format this browser supports, or null if it can't record
+ */
+export function getRecordingMimeType(): string | null {
+  if (typeof MediaRecorder === "undefined") {
+    return null;
+  }
+
+  return RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Start recording the given streams (must be called from a user gesture
+ * so the audio context is allowed to start)
+ */
+export function startSessionRecorder(streams: MediaStream[]): SessionRecorder {
+  const mimeType = getRecordingMimeType();
+  if (!mimeType) {
+    throw new Error("Recording is not supported in this browser");
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Recording is not supported in this browser");
+  }
+
+  const audioContext = new AudioContext();
+  audioContext.resume().catch(() => {});
+  const audioDestination = audioContext.createMediaStreamDestination();
+
+  const videos = new Map<string, HTMLVideoElement>();
+  const audioSources = new Map<string, MediaStreamAudioSourceNode>();
+
+  const setStreams = (nextStreams: MediaStream[]) => {
+    const ids = new Set(nextStreams.map((stream) => stream.id));
+
+    for (const [id, video] of videos) {
+      if (!ids.has(id)) {
+        video.srcObject = null;
+        videos.delete(id);
+      }
+    }
+    for (const [id, source] of audioSources) {
+      if (!ids.has(id)) {
+        source.disconnect();
+        audioSources.delete(id);
+      }
+    }
+
+    for (const stream of nextStreams) {
+      if (stream.getVideoTracks().length > 0 && !videos.has(stream.id)) {
+        const video = document.createElement("video");
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream;
+        video.play().catch(() => {});
+        videos.set(stream.id, video);
+      }
+
+      if (stream.getAudioTracks().length > 0 && !audioSources.has(stream.id)) {
+        const source = audioContext.createMediaStreamSource(stream);
+        source.connect(audioDestination);
+        audioSources.set(stream.id, source);
+      }
+    }
+  };
+
+  // One tile per video, scaled to fit (timer rather than requestAnimationFrame
+  // so recording continues while the tab is in the background)
+  const drawFrame = () => {
+    context.fillStyle = "#0a0a0a";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    const tiles = [...videos.values()];
+    const tileWidth = canvas.width / Math.max(tiles.length, 1);
+
+    tiles.forEach((video, index) => {
+      if (!video.videoWidth || !video.videoHeight) {
+        return;
+      }
+
+      const scale = Math.min(tileWidth / video.videoWidth, canvas.height / video.videoHeight);
+      const width = video.videoWidth * scale;
+      const height = video.videoHeight * scale;
+      context.drawImage(
+        video,
+        index * tileWidth + (tileWidth - width) / 2,
+        (canvas.height - height) / 2,
+        width,
+        height
+      );
+    });
+  };
+
+  setStreams(streams);
+  const drawInterval = setInterval(drawFrame, 1000 / FRAME_RATE);
+
+  const recordedStream = new MediaStream([
+    ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+  const mediaRecorder = new MediaRecorder(recordedStream, { mimeType });
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+
+  mediaRecorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+  mediaRecorder.start(1000);
+
+  const cleanup = () => {
+    clearInterval(drawInterval);
+    recordedStream.getTracks().forEach((track) => track.stop());
+    audioSources.forEach((source) => source.disconnect());
+    videos.forEach((video) => (video.srcObject = null));
+    audioContext.close().catch(() => {});
+  };
+
+  const getResult = (): RecordedSession => {
+    const contentType = mimeType.split(";")[0];
+    return {
+      blob: new Blob(chunks, { type: contentType }),
+      contentType,
+      durationSeconds: Math.max(1, Math.round((Date.now() - startedAt) / 1000)),
+    };
+  };
+
+  return {
+    setStreams,
+    stop: () =>
+      new Promise((resolve) => {
+        if (mediaRecorder.state === "inactive") {
+          cleanup();
+          resolve(getResult());
+          return;
+        }
+
+        mediaRecorder.onstop = () => {
+          cleanup();
+          resolve(getResult());
+        };
+        mediaRecorder.stop();
+      }),
+    cancel: () => {
+      chunks.length = 0;
+      if (mediaRecorder.state === "inactive") {
+        cleanup();
+        return;
+      }
+
+      mediaRecorder.ondataavailable = null;
+      mediaRecorder.onstop = cleanup;
+      mediaRecorder.stop();
+    },
+  };
+}
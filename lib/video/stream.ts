@@ -0,0 +1,102 @@
+/**
+ * Stream Video Provider
+ *
+ * Production video provider backed by Stream Video.
+ * https://getstream.io/video/docs/api/
+ */
+
+import { StreamClient } from "@stream-io/node-sdk";
+import { Errors } from "@/lib/errors";
+import type {
+  CreateCallOptions,
+  VideoCallEvent,
+  VideoCallEventType,
+  VideoProvider,
+} from "./provider";
+
+// 1-on-1 tutoring calls
+export const STREAM_CALL_TYPE = "default";
+
+/**
+ * Stream webhook event types mapped to our lifecycle events
+ */
+const STREAM_EVENT_TYPES: Record<string, VideoCallEventType> = {
+  "call.session_started": "call.started",
+  "call.session_participant_joined": "participant.joined",
+  "call.session_participant_left": "participant.left",
+  "call.session_ended": "call.ended",
+  "call.ended": "call.ended",
+};
+
+function getCredentials() {
+  const apiKey = process.env.NEXT_PUBLIC_STREAM_API_KEY?.trim();
+  const apiSecret = process.env.STREAM_SECRET_KEY?.trim();
+  return apiKey && apiSecret ? { apiKey, apiSecret } : null;
+}
+
+export function createStreamVideoProvider(): VideoProvider {
+  let client: StreamClient | null = null;
+
+  const getClient = () => {
+    if (!client) {
+      const credentials = getCredentials();
+      if (!credentials) {
+        throw Errors.InternalServerError("Stream video service is not configured");
+      }
+      client = new StreamClient(credentials.apiKey, credentials.apiSecret);
+    }
+    return client;
+  };
+
+  return {
+    name: "stream",
+
+    isConfigured() {
+      return getCredentials() !== null;
+    },
+
+    createToken(userId) {
+      return getClient().generateUserToken({ user_id: userId });
+    },
+
+    async createCall(callId: string, { createdById, memberIds }: CreateCallOptions) {
+      const streamClient = getClient();
+
+      // Members must exist as Stream users before they can be added to a call
+      await streamClient.upsertUsers(memberIds.map((id) => ({ id })));
+      await streamClient.video.call(STREAM_CALL_TYPE, callId).getOrCreate({
+        data: {
+          created_by_id: createdById,
+          members: memberIds.map((id) => ({ user_id: id })),
+        },
+      });
+    },
+
+    async endCall(callId) {
+      await getClient().video.call(STREAM_CALL_TYPE, callId).end();
+    },
+
+    parseEvent(rawBody, headers) {
+      const signature = headers.get("x-signature");
+      if (!signature || !getClient().verifyWebhook(rawBody, signature)) {
+        throw Errors.Unauthorized("Invalid webhook signature");
+      }
+
+      const payload = JSON.parse(rawBody);
+      const type = STREAM_EVENT_TYPES[payload.type];
+      if (!type || typeof payload.call_cid !== "string") {
+        return null;
+      }
+
+      // call_cid is "{type}:{id}"
+      const callId = payload.call_cid.slice(payload.call_cid.indexOf(":") + 1);
+
+      return {
+        type,
+        callId,
+        userId: type.startsWith("participant.") ? payload.participant?.user?.id : undefined,
+        occurredAt: payload.created_at ? new Date(payload.created_at) : new Date(),
+      } satisfies VideoCallEvent;
+    },
+  };
+}
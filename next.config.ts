@@ -28,7 +28,15 @@ const nextConfig: NextConfig = {
       "recharts",
     ],
   },
-  
+
+  // Fonts the lesson notes PDF export reads from node_modules at runtime
+  outputFileTracingIncludes: {
+    "/api/bookings/[id]/shared-notes/export": [
+      "./node_modules/@fontsource/noto-sans-*/unicode.json",
+      "./node_modules/@fontsource/noto-sans-*/files/*-400-normal.woff",
+    ],
+  },
+
   // Security headers
   async headers() {
     return [
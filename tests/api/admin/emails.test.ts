@@ -0,0 +1,126 @@
+/**
+ * Tests for the Email Outbox (admin retry)
+ *
+ * Tests retrying failed emails including:
+ * - The email is reset and delivered right away
+ * - A failed attempt is retried later with backoff
+ * - Only failed emails can be retried
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/admin/emails/[id]/retry/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { getEmailTransport } from "@/lib/email/transport";
+import { EMAIL_RETRY_BASE_DELAY_MINUTES } from "@/lib/email/outbox";
+import { EmailStatus, Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    emailOutbox: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/email/transport", () => ({
+  getEmailTransport: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireRole: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const failedEmail = {
+  id: "email-123",
+  to: "student@test.com",
+  template: "sessionReminder",
+  subject: "Your session starts in 24 hours",
+  html: "<p>Reminder</p>",
+  text: null,
+  attempts: 1, // Reset, then incremented by the claim
+  nextAttemptAt: new Date(),
+};
+
+describe("POST /api/admin/emails/[id]/retry", () => {
+  const send = vi.fn();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireRole } = await import("@/lib/auth");
+    vi.mocked(requireRole).mockResolvedValue({
+      id: "admin-123",
+      email: "admin@test.com",
+      name: "Admin",
+      role: Role.ADMIN,
+    });
+    vi.mocked(getEmailTransport).mockReturnValue({ name: "resend", send });
+    vi.mocked(prisma.emailOutbox.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.emailOutbox.findUniqueOrThrow).mockResolvedValue(failedEmail as never);
+  });
+
+  const retry = () =>
+    POST(createMockRequest("POST"), { params: Promise.resolve({ id: "email-123" }) });
+
+  it("should reset a failed email and deliver it", async () => {
+    send.mockResolvedValue({ success: true, messageId: "msg-123" });
+
+    const response = await retry();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe(EmailStatus.SENT);
+    expect(prisma.emailOutbox.updateMany).toHaveBeenCalledWith({
+      where: { id: "email-123", status: EmailStatus.FAILED },
+      data: expect.objectContaining({ status: EmailStatus.PENDING, attempts: 0 }),
+    });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ to: "student@test.com" }));
+    expect(prisma.emailOutbox.update).toHaveBeenCalledWith({
+      where: { id: "email-123" },
+      data: expect.objectContaining({
+        status: EmailStatus.SENT,
+        providerMessageId: "msg-123",
+      }),
+    });
+  });
+
+  it("should schedule another attempt with backoff when delivery fails", async () => {
+    send.mockResolvedValue({ success: false, error: "Rate limited" });
+
+    const before = Date.now();
+    const response = await retry();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe(EmailStatus.PENDING);
+
+    const { data: update } = vi.mocked(prisma.emailOutbox.update).mock.calls[0][0];
+    expect(update.status).toBe(EmailStatus.PENDING);
+    expect(update.lastError).toBe("Rate limited");
+    expect(new Date(update.nextAttemptAt as Date).getTime()).toBeGreaterThanOrEqual(
+      before + EMAIL_RETRY_BASE_DELAY_MINUTES * 60 * 1000
+    );
+  });
+
+  it("should only retry failed emails", async () => {
+    vi.mocked(prisma.emailOutbox.updateMany).mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.emailOutbox.findUnique).mockResolvedValue({ id: "email-123" } as never);
+
+    const response = await retry();
+
+    expect(response.status).toBe(409);
+    expect(send).not.toHaveBeenCalled();
+  });
+});
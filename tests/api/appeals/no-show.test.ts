@@ -0,0 +1,148 @@
+/**
+ * Tests for No-Show Appeals
+ *
+ * Tests the appeal path for student no-shows including:
+ * - No-show appeals don't require an active penalty
+ * - Other bookings still require an active penalty
+ * - Approving an appeal excuses the no-show
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/appeals/route";
+import { PATCH } from "@/app/api/appeals/[id]/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role, AppealStatus, BookingStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    booking: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    cancellationAppeal: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    notification: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+  requireRole: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+const admin = { id: "admin-123", email: "admin@test.com", name: "Admin", role: Role.ADMIN };
+
+const reason = "My internet was down during the whole session.";
+
+describe("POST /api/appeals", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireRole } = await import("@/lib/auth");
+    vi.mocked(requireRole).mockResolvedValue(student);
+
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ penaltyUntil: null } as never);
+    vi.mocked(prisma.cancellationAppeal.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.cancellationAppeal.create).mockImplementation(
+      (async ({ data }: { data: object }) => ({ id: "appeal-123", ...data })) as never
+    );
+  });
+
+  it("should accept a no-show appeal without an active penalty", async () => {
+    vi.mocked(prisma.booking.findUnique).mockResolvedValue({
+      id: "booking-123",
+      studentId: "student-123",
+      status: BookingStatus.NO_SHOW_STUDENT,
+      noShowExcused: false,
+    } as never);
+
+    const response = await POST(createMockRequest("POST", { bookingId: "booking-123", reason }));
+
+    expect(response.status).toBe(201);
+    expect(prisma.cancellationAppeal.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ bookingId: "booking-123", status: AppealStatus.PENDING }),
+      })
+    );
+  });
+
+  it("should require an active penalty for other bookings", async () => {
+    vi.mocked(prisma.booking.findUnique).mockResolvedValue({
+      id: "booking-123",
+      studentId: "student-123",
+      status: BookingStatus.CANCELLED,
+      noShowExcused: false,
+    } as never);
+
+    const response = await POST(createMockRequest("POST", { bookingId: "booking-123", reason }));
+
+    expect(response.status).toBe(400);
+    expect(prisma.cancellationAppeal.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("PATCH /api/appeals/[id]", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireRole } = await import("@/lib/auth");
+    vi.mocked(requireRole).mockResolvedValue(admin);
+
+    vi.mocked(prisma.$transaction).mockImplementation(
+      (async (cb: (tx: typeof prisma) => unknown) => cb(prisma)) as never
+    );
+    vi.mocked(prisma.notification.createMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.booking.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  it("should excuse the no-show when the appeal is approved", async () => {
+    const appeal = {
+      id: "appeal-123",
+      userId: "student-123",
+      bookingId: "booking-123",
+      status: AppealStatus.PENDING,
+    };
+    vi.mocked(prisma.cancellationAppeal.findUnique).mockResolvedValue(appeal as never);
+    vi.mocked(prisma.cancellationAppeal.update).mockResolvedValue({
+      ...appeal,
+      status: AppealStatus.APPROVED,
+    } as never);
+
+    const response = await PATCH(createMockRequest("PATCH", { status: "APPROVED" }), {
+      params: Promise.resolve({ id: "appeal-123" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: "student-123" },
+      data: { penaltyUntil: null },
+    });
+    expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "booking-123",
+        studentId: "student-123",
+        status: BookingStatus.NO_SHOW_STUDENT,
+      },
+      data: { noShowExcused: true },
+    });
+  });
+});
@@ -3,6 +3,7 @@
  * 
  * Tests password reset flow including:
  * - Forgot password request
+ * - Reset email in the user's language
  * - Password reset with token
  * - Invalid token handling
  * - Expired token handling
@@ -67,6 +68,33 @@ describe("POST /api/auth/forgot-password", () => {
     expect(createPasswordResetToken).toHaveBeenCalledWith("test@example.com");
   });
 
+  it("should send the reset email in the user's language", async () => {
+    const { sendPasswordResetEmail } = await import("@/lib/email");
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      id: "user-123",
+      email: "test@example.com",
+      name: "Test User",
+      password: "hashed-password",
+      locale: "es",
+    } as never);
+    vi.mocked(createPasswordResetToken).mockResolvedValue("reset-token-123");
+
+    const request = createMockRequest("POST", {
+      email: "test@example.com",
+    });
+
+    const response = await forgotPasswordPOST(request);
+
+    expect(response.status).toBe(200);
+    expect(sendPasswordResetEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        locale: "es",
+        resetUrl: expect.stringContaining("/es/auth/reset-password?token=reset-token-123"),
+      }),
+      { userId: "user-123" }
+    );
+  });
+
   it("should return success even for non-existent user (prevent enumeration)", async () => {
     vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
 
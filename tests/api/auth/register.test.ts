@@ -60,6 +60,7 @@ describe("POST /api/auth/register", () => {
       email: testUserData.student.email,
       name: testUserData.student.name,
       role: testUserData.student.role,
+      locale: "en",
       image: null,
       createdAt: new Date(),
     });
@@ -139,6 +140,7 @@ describe("POST /api/auth/register", () => {
       email: testUserData.student.email,
       name: testUserData.student.name,
       role: testUserData.student.role,
+      locale: "en",
       image: null,
       createdAt: new Date(),
     });
@@ -0,0 +1,207 @@
+/**
+ * Tests for Booking Availability API Route
+ *
+ * Tests timezone-aware slot generation including:
+ * - Windows interpreted in the tutor's timezone
+ * - Slots returned in the student's timezone
+ * - DST transitions
+ * - Windows crossing midnight
+ * - Date-specific exceptions (time off, extra hours)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/bookings/availability/route";
+import { prisma } from "@/lib/db/prisma";
+import { TutorApprovalStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    tutorProfile: {
+      findUnique: vi.fn(),
+    },
+    booking: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function createAvailabilityRequest(params: Record<string, string>): NextRequest {
+  const query = new URLSearchParams({ tutorId: "tutor-123", ...params });
+  return new NextRequest(`http://localhost:3000/api/bookings/availability?${query}`);
+}
+
+function mockTutor(
+  availability: Array<{ dayOfWeek: number; startTime: string; endTime: string; timezone: string }>,
+  availabilityExceptions: Array<Record<string, unknown>> = []
+) {
+  vi.mocked(prisma.tutorProfile.findUnique).mockResolvedValue({
+    id: "tutor-123",
+    isActive: true,
+    approvalStatus: TutorApprovalStatus.APPROVED,
+    availability: availability.map((avail, index) => ({
+      id: `avail-${index}`,
+      tutorId: "tutor-123",
+      isActive: true,
+      ...avail,
+    })),
+    availabilityExceptions,
+  } as never);
+}
+
+describe("GET /api/bookings/availability", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.booking.findMany).mockResolvedValue([]);
+  });
+
+  it("should interpret windows in the tutor's timezone", async () => {
+    // Monday 09:00-17:00 in Tokyo is Monday 00:00-08:00 UTC
+    mockTutor([{ dayOfWeek: 1, startTime: "09:00", endTime: "17:00", timezone: "Asia/Tokyo" }]);
+
+    const response = await GET(createAvailabilityRequest({ date: "2026-11-02", duration: "60" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.timeZone).toBe("UTC");
+    expect(data.slots[0].start).toBe("2026-11-02T00:00:00.000Z");
+    expect(data.slots[data.slots.length - 1].end).toBe("2026-11-02T08:00:00.000Z");
+  });
+
+  it("should return slots on the student's calendar day in the student's timezone", async () => {
+    // Tokyo Monday 09:00 is Sunday 21:00 in Sao Paulo (UTC-3)
+    mockTutor([{ dayOfWeek: 1, startTime: "09:00", endTime: "17:00", timezone: "Asia/Tokyo" }]);
+
+    const response = await GET(
+      createAvailabilityRequest({ date: "2026-11-01", duration: "60", timeZone: "America/Sao_Paulo" })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.slots.map((slot: { localStart: string }) => slot.localStart)).toEqual([
+      "21:00",
+      "21:30",
+      "22:00",
+      "22:30",
+      "23:00",
+      "23:30",
+    ]);
+    expect(data.slots[0].start).toBe("2026-11-02T00:00:00.000Z");
+  });
+
+  it("should keep local hours stable across DST transitions", async () => {
+    mockTutor([{ dayOfWeek: 1, startTime: "09:00", endTime: "10:00", timezone: "America/New_York" }]);
+
+    const beforeDst = await (
+      await GET(createAvailabilityRequest({ date: "2026-03-02", duration: "60" }))
+    ).json();
+    const afterDst = await (
+      await GET(createAvailabilityRequest({ date: "2026-03-09", duration: "60" }))
+    ).json();
+
+    expect(beforeDst.slots[0].start).toBe("2026-03-02T14:00:00.000Z");
+    expect(afterDst.slots[0].start).toBe("2026-03-09T13:00:00.000Z");
+  });
+
+  it("should support windows that cross midnight", async () => {
+    // Friday 22:00 - Saturday 02:00 UTC
+    mockTutor([{ dayOfWeek: 5, startTime: "22:00", endTime: "02:00", timezone: "UTC" }]);
+
+    const response = await GET(createAvailabilityRequest({ date: "2026-11-07", duration: "60" }));
+    const data = await response.json();
+
+    expect(data.slots.map((slot: { localStart: string }) => slot.localStart)).toEqual([
+      "00:00",
+      "00:30",
+      "01:00",
+    ]);
+  });
+
+  it("should mark slots overlapping existing bookings as unavailable", async () => {
+    mockTutor([{ dayOfWeek: 1, startTime: "09:00", endTime: "11:00", timezone: "Asia/Tokyo" }]);
+    vi.mocked(prisma.booking.findMany).mockResolvedValue([
+      {
+        id: "booking-1",
+        tutorId: "tutor-123",
+        scheduledAt: new Date("2026-11-02T00:00:00.000Z"),
+        duration: 60,
+        status: "CONFIRMED",
+      },
+    ] as never);
+
+    const response = await GET(createAvailabilityRequest({ date: "2026-11-02", duration: "60" }));
+    const data = await response.json();
+
+    expect(data.slots.map((slot: { available: boolean }) => slot.available)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("should remove slots blocked by time off", async () => {
+    mockTutor(
+      [{ dayOfWeek: 1, startTime: "09:00", endTime: "12:00", timezone: "UTC" }],
+      [
+        {
+          type: "BLOCKED",
+          startDate: "2026-11-02",
+          endDate: "2026-11-02",
+          startTime: "10:00",
+          endTime: "11:00",
+          timezone: "UTC",
+        },
+      ]
+    );
+
+    const response = await GET(createAvailabilityRequest({ date: "2026-11-02", duration: "60" }));
+    const data = await response.json();
+
+    expect(data.slots.map((slot: { localStart: string }) => slot.localStart)).toEqual([
+      "09:00",
+      "11:00",
+    ]);
+  });
+
+  it("should add extra hours on dates outside the weekly schedule", async () => {
+    mockTutor(
+      [],
+      [
+        {
+          type: "AVAILABLE",
+          startDate: "2026-11-07",
+          endDate: "2026-11-07",
+          startTime: "14:00",
+          endTime: "15:00",
+          timezone: "Europe/Madrid",
+        },
+      ]
+    );
+
+    const response = await GET(createAvailabilityRequest({ date: "2026-11-07", duration: "30" }));
+    const data = await response.json();
+
+    expect(data.slots.map((slot: { start: string }) => slot.start)).toEqual([
+      "2026-11-07T13:00:00.000Z",
+      "2026-11-07T13:30:00.000Z",
+    ]);
+  });
+
+  it("should reject an invalid timezone", async () => {
+    mockTutor([]);
+
+    const response = await GET(
+      createAvailabilityRequest({ date: "2026-11-02", timeZone: "Mars/Olympus_Mons" })
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -49,6 +49,7 @@ vi.mock("@/lib/booking/validation", () => ({
 
 vi.mock("@/lib/booking/availability", () => ({
   checkTimeSlotAvailability: vi.fn().mockResolvedValue(true),
+  getCurrentExceptionsFilter: vi.fn().mockReturnValue({}),
 }));
 
 vi.mock("@/lib/logger", () => ({
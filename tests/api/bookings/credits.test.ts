@@ -0,0 +1,182 @@
+/**
+ * Tests for Prepaid Credit Bookings
+ *
+ * Tests cancellation of bookings paid with credits:
+ * - Cancellations within policy return credits to the ledger
+ * - Late student cancellations forfeit the credits
+ * - Concurrent cancellations return the credits only once
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DELETE } from "@/app/api/bookings/[id]/route";
+import { createMockRequest, futureDate } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role, BookingStatus, CreditLedgerEntryType } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    booking: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    creditLedgerEntry: {
+      create: vi.fn(),
+    },
+    notification: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/email", () => ({
+  sendBookingConfirmationEmail: vi.fn().mockResolvedValue(undefined),
+  sendBookingCancellationEmail: vi.fn().mockResolvedValue({ success: true, id: "email-123" }),
+  deliverQueuedEmails: vi.fn(),
+}));
+
+vi.mock("@/lib/stripe/refunds", () => ({
+  processRefundWithBookingUpdate: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function mockCreditBooking(hoursFromNow: number) {
+  const booking = {
+    id: "booking-123",
+    studentId: "student-123",
+    tutorId: "tutor-123",
+    scheduledAt: futureDate(hoursFromNow),
+    duration: 60,
+    status: BookingStatus.CONFIRMED,
+    price: 30,
+    paymentId: null,
+    creditMinutes: 60,
+    student: { id: "student-123", name: "Test Student", email: "student@test.com" },
+    tutor: {
+      userId: "tutor-user-123",
+      user: { id: "tutor-user-123", name: "Test Tutor", email: "tutor@test.com" },
+    },
+  };
+
+  vi.mocked(prisma.booking.findUnique).mockResolvedValue(booking as never);
+  vi.mocked(prisma.booking.updateMany).mockResolvedValue({ count: 1 });
+  vi.mocked(prisma.booking.findUniqueOrThrow).mockResolvedValue({
+    ...booking,
+    status: BookingStatus.CANCELLED,
+  } as never);
+}
+
+describe("DELETE /api/bookings/[id] with credits", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue({
+      id: "student-123",
+      email: "student@test.com",
+      name: "Test Student",
+      role: Role.STUDENT,
+    });
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ penaltyUntil: null } as never);
+    vi.mocked(prisma.user.findUniqueOrThrow).mockResolvedValue({ creditMinutes: 120 } as never);
+    vi.mocked(prisma.booking.count).mockResolvedValue(0);
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((cb: (tx: typeof prisma) => unknown) => cb(prisma)) as never
+    );
+    vi.mocked(prisma.notification.createMany).mockResolvedValue({ count: 1 });
+  });
+
+  it("should return credits when cancelled within policy", async () => {
+    mockCreditBooking(48);
+
+    const response = await DELETE(createMockRequest("DELETE"), {
+      params: Promise.resolve({ id: "booking-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.creditsReturned).toBe(60);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: "student-123" },
+      data: { creditMinutes: { increment: 60 } },
+    });
+    expect(prisma.creditLedgerEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: "student-123",
+        type: CreditLedgerEntryType.RETURN,
+        minutes: 60,
+        bookingId: "booking-123",
+        balanceAfter: 120,
+      }),
+    });
+
+    const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
+    expect(processRefundWithBookingUpdate).not.toHaveBeenCalled();
+
+    // Queued with the cancellation, delivered once it commits
+    const { sendBookingCancellationEmail, deliverQueuedEmails } = await import("@/lib/email");
+    expect(sendBookingCancellationEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ email: "student@test.com", isTutor: false }),
+      expect.objectContaining({ tx: prisma })
+    );
+    expect(deliverQueuedEmails).toHaveBeenCalledWith(prisma, ["email-123", "email-123"]);
+  });
+
+  it("should not return credits for late student cancellations", async () => {
+    mockCreditBooking(6);
+
+    const response = await DELETE(createMockRequest("DELETE"), {
+      params: Promise.resolve({ id: "booking-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.creditsReturned).toBe(0);
+    expect(prisma.creditLedgerEntry.create).not.toHaveBeenCalled();
+    expect(prisma.booking.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ isLateCancellation: true }),
+      })
+    );
+  });
+
+  it("should not return credits again when the booking was cancelled concurrently", async () => {
+    mockCreditBooking(48);
+    vi.mocked(prisma.booking.updateMany).mockResolvedValue({ count: 0 });
+
+    const response = await DELETE(createMockRequest("DELETE"), {
+      params: Promise.resolve({ id: "booking-123" }),
+    });
+
+    expect(response.status).toBe(409);
+    expect(prisma.booking.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: "booking-123",
+          status: { in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+        },
+      })
+    );
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    expect(prisma.creditLedgerEntry.create).not.toHaveBeenCalled();
+  });
+});
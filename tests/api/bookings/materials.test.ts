@@ -0,0 +1,157 @@
+/**
+ * Tests for Lesson Material API Routes
+ *
+ * Tests lesson notes, vocabulary, homework and files including:
+ * - Only the booking's tutor can add materials
+ * - Homework requires a title and keeps its due date
+ * - Students can mark homework done but not edit it
+ * - Only files uploaded through Linglix can be attached
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/bookings/[id]/materials/route";
+import { PATCH } from "@/app/api/bookings/[id]/materials/[materialId]/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role, BookingStatus, LessonMaterialType } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    booking: {
+      findUnique: vi.fn(),
+    },
+    lessonMaterial: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock("@vercel/blob", () => ({
+  del: vi.fn(),
+}));
+
+const params = Promise.resolve({ id: "booking-123" });
+const materialParams = Promise.resolve({ id: "booking-123", materialId: "material-123" });
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+const tutor = { id: "tutor-user-123", email: "tutor@test.com", name: "Tutor", role: Role.TUTOR };
+
+async function signInAs(user: typeof student | typeof tutor) {
+  const { requireAuth } = await import("@/lib/auth");
+  vi.mocked(requireAuth).mockResolvedValue(user);
+}
+
+describe("Lesson material routes", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await signInAs(tutor);
+
+    vi.mocked(prisma.booking.findUnique).mockResolvedValue({
+      id: "booking-123",
+      studentId: "student-123",
+      tutorId: "tutor-123",
+      status: BookingStatus.COMPLETED,
+      tutor: { userId: "tutor-user-123" },
+    } as never);
+    vi.mocked(prisma.lessonMaterial.findFirst).mockResolvedValue({
+      id: "material-123",
+      bookingId: "booking-123",
+      type: LessonMaterialType.HOMEWORK,
+      title: "Write ten sentences in the past tense",
+      completedAt: null,
+    } as never);
+    vi.mocked(prisma.lessonMaterial.create).mockImplementation((async ({ data }: { data: object }) => ({
+      id: "material-123",
+      ...data,
+    })) as never);
+    vi.mocked(prisma.lessonMaterial.update).mockImplementation((async ({ data }: { data: object }) => ({
+      id: "material-123",
+      ...data,
+    })) as never);
+  });
+
+  it("lets the tutor assign homework with a due date", async () => {
+    const dueAt = "2026-11-01T23:59:00.000Z";
+    const request = createMockRequest("POST", {
+      type: "HOMEWORK",
+      title: "Write ten sentences in the past tense",
+      dueAt,
+    });
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(201);
+    expect(prisma.lessonMaterial.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        bookingId: "booking-123",
+        authorId: "tutor-user-123",
+        type: LessonMaterialType.HOMEWORK,
+        dueAt: new Date(dueAt),
+      }),
+    });
+  });
+
+  it("does not let the student add materials", async () => {
+    await signInAs(student);
+    const request = createMockRequest("POST", {
+      type: "SUMMARY",
+      body: "We practised ordering food.",
+    });
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(403);
+    expect(prisma.lessonMaterial.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects files that weren't uploaded through Linglix", async () => {
+    const request = createMockRequest("POST", {
+      type: "FILE",
+      file: {
+        url: "https://example.com/worksheet.pdf",
+        name: "worksheet.pdf",
+        type: "application/pdf",
+        size: 1024,
+      },
+    });
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(400);
+    expect(prisma.lessonMaterial.create).not.toHaveBeenCalled();
+  });
+
+  it("lets the student mark homework done but not edit it", async () => {
+    await signInAs(student);
+
+    const done = await PATCH(createMockRequest("PATCH", { completed: true }), {
+      params: materialParams,
+    });
+    expect(done.status).toBe(200);
+    expect(prisma.lessonMaterial.update).toHaveBeenCalledWith({
+      where: { id: "material-123" },
+      data: expect.objectContaining({ completedAt: expect.any(Date) }),
+    });
+
+    vi.mocked(prisma.lessonMaterial.update).mockClear();
+    const edit = await PATCH(createMockRequest("PATCH", { title: "Nothing" }), {
+      params: materialParams,
+    });
+    expect(edit.status).toBe(403);
+    expect(prisma.lessonMaterial.update).not.toHaveBeenCalled();
+  });
+});
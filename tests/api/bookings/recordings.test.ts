@@ -0,0 +1,159 @@
+/**
+ * Tests for Session Recording API Routes
+ *
+ * Tests opt-in session recordings including:
+ * - Recording can't start until both participants consent
+ * - Recordings are registered with a retention expiry
+ * - Only recordings uploaded for the booking can be registered
+ * - Only participants and admins can list recordings
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH } from "@/app/api/bookings/[id]/recording/route";
+import { GET, POST } from "@/app/api/bookings/[id]/recordings/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { RECORDING_RETENTION_DAYS } from "@/lib/booking/recordings";
+import { Role, BookingStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    booking: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    sessionRecording: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const params = Promise.resolve({ id: "booking-123" });
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+
+const recordingUrl =
+  "https://store.public.blob.vercel-storage.com/recordings/booking-123/1700000000000-abc.webm";
+
+function mockBooking(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.booking.findUnique).mockResolvedValue({
+    id: "booking-123",
+    studentId: "student-123",
+    tutorId: "tutor-123",
+    status: BookingStatus.CONFIRMED,
+    recordingConsentStudentAt: null,
+    recordingConsentTutorAt: null,
+    recordingStartedAt: null,
+    tutor: { userId: "tutor-user-123" },
+    ...overrides,
+  } as never);
+}
+
+describe("Session recording routes", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue(student);
+
+    vi.mocked(prisma.booking.update).mockImplementation((async ({ data }: { data: object }) => ({
+      recordingConsentStudentAt: null,
+      recordingConsentTutorAt: null,
+      recordingStartedAt: null,
+      ...data,
+    })) as never);
+    vi.mocked(prisma.sessionRecording.create).mockImplementation((async ({ data }: { data: object }) => ({
+      id: "recording-123",
+      ...data,
+    })) as never);
+  });
+
+  it("should not start recording until both participants consent", async () => {
+    mockBooking({ recordingConsentTutorAt: new Date() });
+
+    const response = await PATCH(createMockRequest("PATCH", { recording: true }), { params });
+
+    expect(response.status).toBe(400);
+    expect(prisma.booking.update).not.toHaveBeenCalled();
+
+    const consentResponse = await PATCH(
+      createMockRequest("PATCH", { consent: true, recording: true }),
+      { params }
+    );
+    const data = await consentResponse.json();
+
+    expect(consentResponse.status).toBe(200);
+    expect(data).toEqual({ consent: { student: true, tutor: false }, recording: true });
+  });
+
+  it("should register an uploaded recording with a retention expiry", async () => {
+    mockBooking({
+      recordingConsentStudentAt: new Date(),
+      recordingConsentTutorAt: new Date(),
+    });
+
+    const response = await POST(
+      createMockRequest("POST", {
+        url: recordingUrl,
+        contentType: "video/webm",
+        size: 1024 * 1024,
+        durationSeconds: 1800,
+      }),
+      { params }
+    );
+
+    expect(response.status).toBe(201);
+    const { data } = vi.mocked(prisma.sessionRecording.create).mock.calls[0][0];
+    expect(data).toMatchObject({
+      bookingId: "booking-123",
+      recordedById: "student-123",
+      url: recordingUrl,
+    });
+    expect(new Date(data.expiresAt).getTime() - new Date(data.createdAt ?? 0).getTime()).toBe(
+      RECORDING_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it("should reject recordings not uploaded for the booking", async () => {
+    mockBooking({
+      recordingConsentStudentAt: new Date(),
+      recordingConsentTutorAt: new Date(),
+    });
+
+    const response = await POST(
+      createMockRequest("POST", {
+        url: "https://store.public.blob.vercel-storage.com/recordings/other-booking/video.webm",
+        contentType: "video/webm",
+        size: 1024,
+        durationSeconds: 60,
+      }),
+      { params }
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.sessionRecording.create).not.toHaveBeenCalled();
+  });
+
+  it("should not list recordings to other users", async () => {
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue({ ...student, id: "other-student" });
+    mockBooking();
+
+    const response = await GET(createMockRequest("GET"), { params });
+
+    expect(response.status).toBe(403);
+    expect(prisma.sessionRecording.findMany).not.toHaveBeenCalled();
+  });
+});
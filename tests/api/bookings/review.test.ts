@@ -0,0 +1,180 @@
+/**
+ * Tests for Booking Review API Route
+ *
+ * Tests review submission including:
+ * - Only the booking's student can review
+ * - Only COMPLETED bookings can be reviewed
+ * - One review per booking
+ * - Edit window
+ * - Tutor rating recalculation
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST, PATCH } from "@/app/api/bookings/[id]/review/route";
+import { createMockRequest, pastDate } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role, BookingStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    booking: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+    },
+    review: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    tutorProfile: {
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const params = Promise.resolve({ id: "booking-123" });
+
+function mockCompletedBooking(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.booking.findUnique).mockResolvedValue({
+    id: "booking-123",
+    studentId: "student-123",
+    tutorId: "tutor-123",
+    status: BookingStatus.COMPLETED,
+    review: null,
+    ...overrides,
+  } as never);
+}
+
+describe("POST /api/bookings/[id]/review", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue({
+      id: "student-123",
+      email: "student@test.com",
+      name: "Test Student",
+      role: Role.STUDENT,
+    });
+
+    vi.mocked(prisma.review.aggregate).mockResolvedValue({
+      _avg: { rating: 4.25 },
+      _count: { id: 4 },
+    } as never);
+    vi.mocked(prisma.booking.count).mockResolvedValue(12);
+  });
+
+  it("should create a review and recalculate the tutor's rating", async () => {
+    mockCompletedBooking();
+    vi.mocked(prisma.review.create).mockResolvedValue({
+      id: "review-123",
+      bookingId: "booking-123",
+      rating: 5,
+    } as never);
+
+    const request = createMockRequest("POST", {
+      rating: 5,
+      comment: "Great session",
+      tags: ["Patient", "clear", "patient"],
+    });
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(201);
+    expect(prisma.review.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        bookingId: "booking-123",
+        studentId: "student-123",
+        tutorId: "tutor-123",
+        rating: 5,
+        tags: ["patient", "clear"],
+      }),
+    });
+    expect(prisma.review.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tutorId: "tutor-123", isHidden: false },
+      })
+    );
+    expect(prisma.tutorProfile.update).toHaveBeenCalledWith({
+      where: { id: "tutor-123" },
+      data: { rating: 4.3, totalSessions: 12 },
+    });
+  });
+
+  it("should reject reviews from users other than the student", async () => {
+    mockCompletedBooking({ studentId: "other-student" });
+
+    const response = await POST(createMockRequest("POST", { rating: 4 }), { params });
+
+    expect(response.status).toBe(403);
+    expect(prisma.review.create).not.toHaveBeenCalled();
+  });
+
+  it("should reject reviews for bookings that are not completed", async () => {
+    mockCompletedBooking({ status: BookingStatus.CONFIRMED });
+
+    const response = await POST(createMockRequest("POST", { rating: 4 }), { params });
+
+    expect(response.status).toBe(400);
+    expect(prisma.review.create).not.toHaveBeenCalled();
+  });
+
+  it("should reject a second review for the same booking", async () => {
+    mockCompletedBooking({ review: { id: "review-123" } });
+
+    const response = await POST(createMockRequest("POST", { rating: 4 }), { params });
+
+    expect(response.status).toBe(409);
+  });
+
+  it("should reject ratings outside 1-5", async () => {
+    mockCompletedBooking();
+
+    const response = await POST(createMockRequest("POST", { rating: 6 }), { params });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("PATCH /api/bookings/[id]/review", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue({
+      id: "student-123",
+      email: "student@test.com",
+      name: "Test Student",
+      role: Role.STUDENT,
+    });
+  });
+
+  it("should reject edits after the edit window", async () => {
+    vi.mocked(prisma.review.findUnique).mockResolvedValue({
+      id: "review-123",
+      bookingId: "booking-123",
+      studentId: "student-123",
+      tutorId: "tutor-123",
+      rating: 3,
+      createdAt: pastDate(24 * 8),
+    } as never);
+
+    const response = await PATCH(createMockRequest("PATCH", { rating: 5 }), { params });
+
+    expect(response.status).toBe(400);
+    expect(prisma.review.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Tests for Recurring Booking Series API Routes
+ *
+ * Tests recurring weekly bookings including:
+ * - Up-front validation of every occurrence
+ * - Cancelling the remaining occurrences of a series
+ * - Policy refunds per cancelled occurrence
+ * - Concurrent cancellations of the same series
+ * - Rescheduling the remaining occurrences
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { POST } from "@/app/api/bookings/series/route";
+import { DELETE, PATCH } from "@/app/api/bookings/series/[id]/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role, BookingStatus, TutorApprovalStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    tutorProfile: {
+      findUnique: vi.fn(),
+    },
+    booking: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    bookingSeries: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    availability: {
+      findMany: vi.fn(),
+    },
+    availabilityException: {
+      findMany: vi.fn(),
+    },
+    notification: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireRole: vi.fn(),
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/email", () => ({
+  sendBookingCancellationEmail: vi.fn().mockResolvedValue({ success: true, id: "email-123" }),
+  sendBookingRescheduledEmail: vi.fn().mockResolvedValue({ success: true, id: "email-123" }),
+  deliverQueuedEmails: vi.fn(),
+}));
+
+vi.mock("@/lib/stripe/refunds", () => ({
+  processRefundWithBookingUpdate: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const student = {
+  id: "student-123",
+  email: "student@test.com",
+  name: "Test Student",
+  role: Role.STUDENT,
+};
+
+describe("Booking series", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Monday 2 November 2026, 00:00 UTC
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-11-02T00:00:00.000Z"));
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ penaltyUntil: null } as never);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should reject the whole series and report the failing occurrences", async () => {
+    const { requireRole } = await import("@/lib/auth");
+    vi.mocked(requireRole).mockResolvedValue(student);
+    vi.mocked(prisma.tutorProfile.findUnique).mockResolvedValue({
+      id: "tutor-123",
+      hourlyRate: 30.0,
+      isActive: true,
+      approvalStatus: TutorApprovalStatus.APPROVED,
+      user: { id: "tutor-user-123", name: "Test Tutor", email: "tutor@test.com" },
+      availability: [
+        {
+          id: "avail-1",
+          tutorId: "tutor-123",
+          dayOfWeek: 2,
+          startTime: "09:00",
+          endTime: "21:00",
+          timezone: "UTC",
+          isActive: true,
+        },
+      ],
+      availabilityExceptions: [],
+    } as never);
+    // The third Tuesday is already taken by another student
+    vi.mocked(prisma.booking.findMany).mockResolvedValue([
+      {
+        id: "other-booking",
+        scheduledAt: new Date("2026-11-24T18:00:00.000Z"),
+        duration: 60,
+        tutorId: "tutor-123",
+        status: BookingStatus.CONFIRMED,
+      },
+    ] as never);
+
+    const request = createMockRequest("POST", {
+      tutorId: "tutor-123",
+      scheduledAt: "2026-11-10T18:00:00.000Z",
+      duration: "60",
+      occurrences: 4,
+      timeZone: "UTC",
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.code).toBe("SERIES_UNAVAILABLE");
+    expect(data.failures).toEqual([
+      { scheduledAt: "2026-11-24T18:00:00.000Z", error: "This time slot is already booked" },
+    ]);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  // A paid series with one completed, one late and one on-time remaining occurrence
+  async function mockCancellableSeries() {
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue(student);
+
+    const occurrence = (id: string, scheduledAt: string, status: BookingStatus) => ({
+      id,
+      studentId: student.id,
+      tutorId: "tutor-123",
+      scheduledAt: new Date(scheduledAt),
+      duration: 60,
+      price: 30,
+      status,
+    });
+
+    vi.mocked(prisma.bookingSeries.findUnique).mockResolvedValue({
+      id: "series-123",
+      studentId: student.id,
+      tutorId: "tutor-123",
+      paymentId: "cs_test_123",
+      bookings: [
+        occurrence("booking-1", "2026-10-26T18:00:00.000Z", BookingStatus.COMPLETED),
+        occurrence("booking-2", "2026-11-02T06:00:00.000Z", BookingStatus.CONFIRMED),
+        occurrence("booking-3", "2026-11-09T06:00:00.000Z", BookingStatus.PENDING),
+      ],
+      student: { id: student.id, name: student.name, email: student.email },
+      tutor: {
+        userId: "tutor-user-123",
+        user: { id: "tutor-user-123", name: "Test Tutor", email: "tutor@test.com" },
+      },
+    } as never);
+    vi.mocked(prisma.booking.count).mockResolvedValue(1);
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((cb: (tx: typeof prisma) => unknown) => cb(prisma)) as never
+    );
+
+    const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
+    vi.mocked(processRefundWithBookingUpdate).mockImplementation(
+      async (bookingId, _reason, options = {}) =>
+        ({
+          success: true,
+          refund: { id: `re_${bookingId}`, amount: Math.round((options.amount ?? 0) * 100) },
+        }) as never
+    );
+  }
+
+  it("should cancel remaining occurrences with per-occurrence late flags", async () => {
+    await mockCancellableSeries();
+    vi.mocked(prisma.booking.updateMany).mockResolvedValue({ count: 1 });
+    const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
+
+    const request = createMockRequest("DELETE");
+    const response = await DELETE(request, {
+      params: Promise.resolve({ id: "series-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.cancelledBookingIds).toEqual(["booking-2", "booking-3"]);
+    expect(data.lateCancellations).toBe(1);
+    expect(prisma.booking.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "booking-2", status: { in: ["PENDING", "CONFIRMED"] } },
+        data: expect.objectContaining({ isLateCancellation: true }),
+      })
+    );
+    expect(prisma.booking.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "booking-3", status: { in: ["PENDING", "CONFIRMED"] } },
+        data: expect.objectContaining({ isLateCancellation: false }),
+      })
+    );
+    expect(prisma.bookingSeries.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "CANCELLED" }),
+      })
+    );
+    // Below the penalty threshold
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    // Late occurrence gets half, the other a full refund
+    expect(processRefundWithBookingUpdate).toHaveBeenCalledWith(
+      "booking-2",
+      "late_cancellation",
+      { amount: 15, actorId: student.id }
+    );
+    expect(processRefundWithBookingUpdate).toHaveBeenCalledWith(
+      "booking-3",
+      "student_cancelled_session",
+      { amount: 30, actorId: student.id }
+    );
+    expect(data.refundAmount).toBe(45);
+  });
+
+  it("should only refund the occurrences a concurrent cancellation left", async () => {
+    await mockCancellableSeries();
+    // The late occurrence was cancelled by another request in the meantime
+    vi.mocked(prisma.booking.updateMany)
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+    const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
+
+    const response = await DELETE(createMockRequest("DELETE"), {
+      params: Promise.resolve({ id: "series-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.cancelledBookingIds).toEqual(["booking-3"]);
+    expect(data.lateCancellations).toBe(0);
+    expect(prisma.booking.count).not.toHaveBeenCalled(); // No penalty check
+    expect(processRefundWithBookingUpdate).toHaveBeenCalledTimes(1);
+    expect(processRefundWithBookingUpdate).toHaveBeenCalledWith(
+      "booking-3",
+      "student_cancelled_session",
+      { amount: 30, actorId: student.id }
+    );
+    expect(data.refundAmount).toBe(30);
+  });
+
+  it("should return 409 when a concurrent cancellation already cancelled every occurrence", async () => {
+    await mockCancellableSeries();
+    vi.mocked(prisma.booking.updateMany).mockResolvedValue({ count: 0 });
+    const { processRefundWithBookingUpdate } = await import("@/lib/stripe/refunds");
+    const { sendBookingCancellationEmail } = await import("@/lib/email");
+
+    const response = await DELETE(createMockRequest("DELETE"), {
+      params: Promise.resolve({ id: "series-123" }),
+    });
+
+    expect(response.status).toBe(409);
+    expect(prisma.bookingSeries.update).not.toHaveBeenCalled();
+    expect(sendBookingCancellationEmail).not.toHaveBeenCalled();
+    expect(processRefundWithBookingUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should email both participants an updated invite when rescheduling the series", async () => {
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue(student);
+
+    const occurrence = (id: string, scheduledAt: string) => ({
+      id,
+      studentId: student.id,
+      tutorId: "tutor-123",
+      scheduledAt: new Date(scheduledAt),
+      duration: 60,
+      status: BookingStatus.CONFIRMED,
+      calendarSequence: 0,
+    });
+
+    vi.mocked(prisma.bookingSeries.findUnique).mockResolvedValue({
+      id: "series-123",
+      studentId: student.id,
+      tutorId: "tutor-123",
+      duration: 60,
+      timezone: "UTC",
+      bookings: [
+        occurrence("booking-1", "2026-11-09T18:00:00.000Z"),
+        occurrence("booking-2", "2026-11-16T18:00:00.000Z"),
+      ],
+      student: { id: student.id, name: student.name, email: student.email, locale: "en" },
+      tutor: {
+        userId: "tutor-user-123",
+        user: { id: "tutor-user-123", name: "Test Tutor", email: "tutor@test.com", locale: "en" },
+      },
+    } as never);
+    vi.mocked(prisma.availability.findMany).mockResolvedValue([
+      {
+        id: "avail-1",
+        tutorId: "tutor-123",
+        dayOfWeek: 2,
+        startTime: "09:00",
+        endTime: "21:00",
+        timezone: "UTC",
+        isActive: true,
+      },
+    ] as never);
+    vi.mocked(prisma.availabilityException.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.booking.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.booking.update).mockImplementation((async ({ where, data }: {
+      where: { id: string };
+      data: { scheduledAt: Date };
+    }) => ({
+      ...occurrence(where.id, data.scheduledAt.toISOString()),
+      status: BookingStatus.PENDING,
+      calendarSequence: 1,
+    })) as never);
+    vi.mocked(prisma.notification.createMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((cb: (tx: typeof prisma) => unknown) => cb(prisma)) as never
+    );
+
+    const request = createMockRequest("PATCH", { scheduledAt: "2026-11-10T18:00:00.000Z" });
+    const response = await PATCH(request, {
+      params: Promise.resolve({ id: "series-123" }),
+    });
+
+    expect(response.status).toBe(200);
+
+    const { sendBookingRescheduledEmail } = await import("@/lib/email");
+    expect(sendBookingRescheduledEmail).toHaveBeenCalledTimes(2);
+    expect(sendBookingRescheduledEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: student.email,
+        isTutor: false,
+        scheduledAt: new Date("2026-11-10T18:00:00.000Z"),
+        previousScheduledAt: new Date("2026-11-09T18:00:00.000Z"),
+        bookings: [
+          expect.objectContaining({
+            id: "booking-1",
+            scheduledAt: new Date("2026-11-10T18:00:00.000Z"),
+            calendarSequence: 1,
+          }),
+          expect.objectContaining({
+            id: "booking-2",
+            scheduledAt: new Date("2026-11-17T18:00:00.000Z"),
+            calendarSequence: 1,
+          }),
+        ],
+      }),
+      expect.objectContaining({
+        userId: student.id,
+        dedupKey: "series-reschedule:series-123:1:student-123",
+      })
+    );
+    expect(sendBookingRescheduledEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ email: "tutor@test.com", isTutor: true }),
+      expect.objectContaining({ dedupKey: "series-reschedule:series-123:1:tutor-user-123" })
+    );
+    // Only the tutor is notified in-app; the student made the change
+    expect(prisma.notification.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          userId: "tutor-user-123",
+          type: "BOOKING_RESCHEDULED",
+          bookingId: "booking-1",
+        }),
+      ],
+    });
+  });
+});
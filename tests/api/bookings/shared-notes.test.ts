@@ -0,0 +1,161 @@
+/**
+ * Tests for Shared Notes API Route
+ *
+ * Tests the notes participants write together during the call including:
+ * - Saves are based on the version the client last saw
+ * - Stale saves are rejected with the current notes
+ * - Notes are read-only once the call has ended
+ * - Concurrent edits merge without losing text
+ * - PDF exports embed fonts for non-Latin notes
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PUT } from "@/app/api/bookings/[id]/shared-notes/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { mergeTextEdits } from "@/lib/utils/text-merge";
+import { createTextPdf } from "@/lib/utils/pdf";
+import { PDFDocument, PDFDict, PDFName } from "pdf-lib";
+import { Role, BookingStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    booking: {
+      findUnique: vi.fn(),
+    },
+    sharedNotes: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const params = Promise.resolve({ id: "booking-123" });
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+
+function mockBooking(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.booking.findUnique).mockResolvedValue({
+    id: "booking-123",
+    studentId: "student-123",
+    tutorId: "tutor-123",
+    status: BookingStatus.CONFIRMED,
+    callEndedAt: null,
+    scheduledAt: new Date("2026-03-14T18:00:00Z"),
+    student: { name: "Student" },
+    tutor: { userId: "tutor-user-123", user: { name: "Tutor" } },
+    ...overrides,
+  } as never);
+}
+
+describe("Shared notes route", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue(student);
+    mockBooking();
+  });
+
+  it("saves on top of the version the client saw", async () => {
+    vi.mocked(prisma.sharedNotes.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.sharedNotes.findUnique).mockResolvedValue({
+      content: "hola = hello",
+      version: 4,
+      updatedAt: new Date(),
+    } as never);
+
+    const request = createMockRequest("PUT", { content: "hola = hello", baseVersion: 3 });
+    const response = await PUT(request, { params });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(prisma.sharedNotes.updateMany).toHaveBeenCalledWith({
+      where: { bookingId: "booking-123", version: 3 },
+      data: { content: "hola = hello", version: { increment: 1 } },
+    });
+    expect(data.notes.version).toBe(4);
+  });
+
+  it("rejects a stale save with the current notes", async () => {
+    vi.mocked(prisma.sharedNotes.updateMany).mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.sharedNotes.findUnique).mockResolvedValue({
+      content: "written by the tutor",
+      version: 5,
+      updatedAt: new Date(),
+    } as never);
+
+    const request = createMockRequest("PUT", { content: "mine", baseVersion: 3 });
+    const response = await PUT(request, { params });
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.code).toBe("NOTES_CONFLICT");
+    expect(data.notes).toMatchObject({ content: "written by the tutor", version: 5 });
+  });
+
+  it("doesn't allow edits after the call has ended", async () => {
+    mockBooking({ callEndedAt: new Date() });
+
+    const request = createMockRequest("PUT", { content: "late", baseVersion: 1 });
+    const response = await PUT(request, { params });
+
+    expect(response.status).toBe(400);
+    expect(prisma.sharedNotes.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("mergeTextEdits", () => {
+  it("applies both participants' edits to different parts of the notes", () => {
+    const base = "Vocabulary:\n\nCorrections:\n";
+    const local = "Vocabulary:\n- la cuenta\n\nCorrections:\n";
+    const remote = "Vocabulary:\n\nCorrections:\n- fui, not iba\n";
+
+    expect(mergeTextEdits(base, local, remote)).toBe(
+      "Vocabulary:\n- la cuenta\n\nCorrections:\n- fui, not iba\n"
+    );
+  });
+
+  it("keeps local text when both changed the same words", () => {
+    expect(mergeTextEdits("el gato", "el perro", "el pájaro")).toBe("el pájaro\nel perro");
+  });
+});
+
+describe("createTextPdf", () => {
+  it("embeds fonts for the scripts the notes are written in", async () => {
+    const bytes = await createTextPdf(
+      "Lesson notes · Tutor & Student",
+      "Привет, как дела?\nمرحبا\n你好，こんにちは 안녕하세요"
+    );
+
+    const pdf = await PDFDocument.load(bytes);
+    const fonts = pdf.context
+      .enumerateIndirectObjects()
+      .map(([, object]) => object)
+      .filter(
+        (object): object is PDFDict =>
+          object instanceof PDFDict && object.get(PDFName.of("Type")) === PDFName.of("Font")
+      )
+      .map((font) => font.get(PDFName.of("BaseFont"))?.toString());
+
+    expect(fonts).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("NotoSansMono"),
+        expect.stringContaining("NotoSansArabic"),
+        expect.stringContaining("NotoSansSC"),
+      ])
+    );
+  });
+});
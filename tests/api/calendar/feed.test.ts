@@ -0,0 +1,112 @@
+/**
+ * Tests for the Calendar Feed
+ *
+ * Tests iCal export including:
+ * - The feed lists upcoming confirmed sessions with their join link
+ * - Each booking keeps one UID, with its SEQUENCE, so updates replace events
+ * - Unknown (revoked) feed tokens are rejected
+ * - Text is escaped and long lines folded as RFC 5545 requires
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/calendar/[token]/route";
+import { prisma } from "@/lib/db/prisma";
+import { createCalendar } from "@/lib/booking/calendar";
+import { BookingStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    booking: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const getFeed = (token: string) =>
+  GET(new NextRequest(`http://localhost:3000/api/calendar/${token}`), {
+    params: Promise.resolve({ token }),
+  });
+
+// Unfold continuation lines to read property values back
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, "");
+
+describe("GET /api/calendar/[token]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list upcoming confirmed sessions with their join link", async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: "student-123", locale: "en" } as never);
+    vi.mocked(prisma.booking.findMany).mockResolvedValue([
+      {
+        id: "booking-123",
+        studentId: "student-123",
+        scheduledAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        duration: 60,
+        status: BookingStatus.CONFIRMED,
+        calendarSequence: 2,
+        student: { name: "Student" },
+        tutor: { userId: "tutor-user-123", user: { name: "Maria" } },
+      },
+    ] as never);
+
+    const response = await getFeed("secret-token.ics");
+    const calendar = unfold(await response.text());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/calendar");
+    expect(prisma.user.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { calendarFeedToken: "secret-token" } })
+    );
+    expect(calendar).toContain("METHOD:PUBLISH");
+    expect(calendar).toContain("UID:booking-booking-123@linglix");
+    expect(calendar).toContain("SEQUENCE:2");
+    expect(calendar).toContain("SUMMARY:Linglix session with Maria");
+    expect(calendar).toContain("URL:http://localhost:3000/en/sessions/booking-123");
+    expect(calendar).toContain("STATUS:CONFIRMED");
+  });
+
+  it("should reject an unknown or revoked feed token", async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+
+    const response = await getFeed("revoked-token");
+
+    expect(response.status).toBe(404);
+    expect(prisma.booking.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should escape text and fold long lines", () => {
+    const calendar = createCalendar([
+      {
+        uid: "booking-123@linglix",
+        sequence: 0,
+        start: new Date("2026-11-02T15:00:00Z"),
+        durationMinutes: 90,
+        summary: "Session with Ana, María; and friends",
+        description: "x".repeat(200),
+        status: "CANCELLED",
+      },
+    ]);
+
+    const lines = calendar.split("\r\n");
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(calendar).toContain("DTSTART:20261102T150000Z");
+    expect(calendar).toContain("DTEND:20261102T163000Z");
+    expect(unfold(calendar)).toContain("SUMMARY:Session with Ana\\, María\\; and friends");
+    expect(unfold(calendar)).toContain(`DESCRIPTION:${"x".repeat(200)}`);
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+});
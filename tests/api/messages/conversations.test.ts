@@ -0,0 +1,179 @@
+/**
+ * Tests for Conversation Messaging API Routes
+ *
+ * Tests persistent student-tutor messaging including:
+ * - Conversations can only be started with approved tutors
+ * - Participants' email addresses are not exposed to each other
+ * - Only participants can send messages
+ * - Messages are addressed to the other participant
+ * - Attachments must come from our blob storage
+ * - Admin views are read-only and leave read state untouched
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST as startConversation } from "@/app/api/conversations/route";
+import { GET, POST } from "@/app/api/conversations/[id]/messages/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role, TutorApprovalStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    tutorProfile: {
+      findUnique: vi.fn(),
+    },
+    conversation: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+    },
+    message: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+  requireRole: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+
+const conversation = {
+  id: "conversation-123",
+  studentId: "student-123",
+  tutorId: "tutor-123",
+  student: { id: "student-123", name: "Student", image: null },
+  tutor: {
+    id: "tutor-123",
+    userId: "tutor-user-123",
+    user: { id: "tutor-user-123", name: "Tutor", image: null },
+  },
+};
+
+const params = { params: Promise.resolve({ id: "conversation-123" }) };
+
+describe("Conversation messaging", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireAuth, requireRole } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue(student);
+    vi.mocked(requireRole).mockResolvedValue(student);
+
+    vi.mocked(prisma.conversation.findUnique).mockResolvedValue(conversation as never);
+    vi.mocked(prisma.message.create).mockImplementation((async ({ data }: { data: object }) => ({
+      id: "message-123",
+      ...data,
+      createdAt: new Date("2026-01-01T10:00:00Z"),
+    })) as never);
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((callback: (tx: typeof prisma) => unknown) => callback(prisma)) as never
+    );
+  });
+
+  it("should not start a conversation with an unapproved tutor", async () => {
+    vi.mocked(prisma.tutorProfile.findUnique).mockResolvedValue({
+      id: "tutor-123",
+      isActive: true,
+      approvalStatus: TutorApprovalStatus.PENDING,
+    } as never);
+
+    const response = await startConversation(createMockRequest("POST", { tutorId: "tutor-123" }));
+
+    expect(response.status).toBe(404);
+    expect(prisma.conversation.upsert).not.toHaveBeenCalled();
+  });
+
+  it("should not expose the tutor's email address when starting a conversation", async () => {
+    vi.mocked(prisma.tutorProfile.findUnique).mockResolvedValue({
+      id: "tutor-123",
+      isActive: true,
+      approvalStatus: TutorApprovalStatus.APPROVED,
+    } as never);
+    vi.mocked(prisma.conversation.upsert).mockResolvedValue(conversation as never);
+
+    const response = await startConversation(createMockRequest("POST", { tutorId: "tutor-123" }));
+
+    expect(response.status).toBe(200);
+    const { include } = vi.mocked(prisma.conversation.upsert).mock.calls[0][0];
+    expect(include?.tutor).toEqual({
+      select: {
+        id: true,
+        userId: true,
+        user: { select: { id: true, name: true, image: true } },
+      },
+    });
+    expect(include?.student).toEqual({ select: { id: true, name: true, image: true } });
+  });
+
+    it("should send a message to the other participant", async () => {
+    const response = await POST(createMockRequest("POST", { body: "Hi! Do you teach IELTS?" }), params);
+
+    expect(response.status).toBe(201);
+    expect(prisma.message.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        conversationId: "conversation-123",
+        senderId: "student-123",
+        recipientId: "tutor-user-123",
+        body: "Hi! Do you teach IELTS?",
+      }),
+    });
+    expect(prisma.conversation.update).toHaveBeenCalledWith({
+      where: { id: "conversation-123" },
+      data: { lastMessageAt: new Date("2026-01-01T10:00:00Z") },
+    });
+  });
+
+  it("should reject messages from users outside the conversation", async () => {
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue({ ...student, id: "other-student" });
+
+    const response = await POST(createMockRequest("POST", { body: "Hello" }), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.message.create).not.toHaveBeenCalled();
+  });
+
+  it("should reject attachments that were not uploaded through Linglix", async () => {
+    const response = await POST(
+      createMockRequest("POST", {
+        attachment: {
+          url: "https://example.com/messages/file.pdf",
+          name: "file.pdf",
+          type: "application/pdf",
+          size: 1024,
+        },
+      }),
+      params
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.message.create).not.toHaveBeenCalled();
+  });
+
+  it("should let admins read a conversation without marking it read", async () => {
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue({ ...student, id: "admin-123", role: Role.ADMIN });
+    vi.mocked(prisma.message.findMany).mockResolvedValue([]);
+
+    const response = await GET(createMockRequest("GET"), params);
+
+    expect(response.status).toBe(200);
+    expect(prisma.message.updateMany).not.toHaveBeenCalled();
+
+    const sendResponse = await POST(createMockRequest("POST", { body: "Hello" }), params);
+    expect(sendResponse.status).toBe(403);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for In-App Notification API Routes
+ *
+ * Tests the notification center including:
+ * - Notifications are listed with the unread count for the bell
+ * - Users can't mark other users' notifications read
+ * - Mark all as read only touches the user's own unread notifications
+ * - Booking changes notify the other side, not whoever made them
+ * - The live stream stops polling once the client disconnects
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/notifications/route";
+import { GET as stream } from "@/app/api/notifications/stream/route";
+import { POST as markRead } from "@/app/api/notifications/[id]/read/route";
+import { POST as markAllRead } from "@/app/api/notifications/read-all/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import {
+  getBookingNotifications,
+  NOTIFICATION_STREAM_POLL_SECONDS,
+} from "@/lib/notifications/inbox";
+import { NotificationType, Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    notification: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+
+describe("Notification API", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue(student as never);
+    vi.mocked(prisma.notification.updateMany).mockResolvedValue({ count: 2 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should list notifications with the unread count", async () => {
+    vi.mocked(prisma.notification.findMany).mockResolvedValue([
+      { id: "notification-1", type: NotificationType.BOOKING_CONFIRMED, readAt: null },
+    ] as never);
+    vi.mocked(prisma.notification.count).mockResolvedValue(1);
+
+    const response = await GET(createMockRequest("GET"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.notifications).toHaveLength(1);
+    expect(data.unreadCount).toBe(1);
+    expect(data.hasMore).toBe(false);
+    expect(prisma.notification.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: "student-123" } })
+    );
+  });
+
+  it("should not mark another user's notification read", async () => {
+    vi.mocked(prisma.notification.findUnique).mockResolvedValue({ userId: "someone-else" } as never);
+
+    const response = await markRead(createMockRequest("POST"), {
+      params: Promise.resolve({ id: "notification-1" }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(prisma.notification.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should mark all of the user's unread notifications read", async () => {
+    const response = await markAllRead();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.count).toBe(2);
+    expect(prisma.notification.updateMany).toHaveBeenCalledWith({
+      where: { userId: "student-123", readAt: null },
+      data: { readAt: expect.any(Date) },
+    });
+  });
+
+  it("should notify the other side of a booking change", () => {
+    const booking = {
+      id: "booking-123",
+      scheduledAt: new Date("2026-11-02T15:00:00Z"),
+      student: { id: "student-123", name: "Student" },
+      tutor: { user: { id: "tutor-user-123", name: "Tutor" } },
+    };
+
+    const notifications = getBookingNotifications(
+      booking,
+      NotificationType.BOOKING_CANCELLED,
+      "student-123"
+    );
+
+    expect(notifications).toEqual([
+      {
+        userId: "tutor-user-123",
+        type: NotificationType.BOOKING_CANCELLED,
+        bookingId: "booking-123",
+        data: { name: "Student", scheduledAt: "2026-11-02T15:00:00.000Z" },
+      },
+    ]);
+  });
+
+  it("should stop polling when the client disconnects during the first check", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const connection = new AbortController();
+    vi.mocked(prisma.notification.findMany).mockImplementation((async () => {
+      connection.abort();
+      return [];
+    }) as never);
+    vi.mocked(prisma.notification.count).mockResolvedValue(0);
+
+    const response = await stream(
+      new NextRequest("http://localhost:3000/api/notifications/stream", {
+        signal: connection.signal,
+      })
+    );
+    await response.text();
+    await vi.waitFor(() => expect(prisma.notification.count).toHaveBeenCalled());
+    await new Promise((resolve) => setImmediate(resolve));
+
+    vi.advanceTimersByTime(NOTIFICATION_STREAM_POLL_SECONDS * 1000 * 3);
+
+    expect(prisma.notification.findMany).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for One-Click Unsubscribe
+ *
+ * Tests signed unsubscribe links including:
+ * - A category link turns off only that category
+ * - A transactional email's link turns off every optional category
+ * - Tampered links are rejected
+ * - Tokens signed for another purpose are rejected
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/notifications/unsubscribe/route";
+import { prisma } from "@/lib/db/prisma";
+import {
+  createUnsubscribeToken,
+  UNSUBSCRIBE_TOKEN_PREFIX,
+} from "@/lib/notifications/unsubscribe";
+import { createSignedToken } from "@/lib/utils/signed-token";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    notificationPreference: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Mail clients POST the List-Unsubscribe URL with a form body (RFC 8058)
+const oneClick = (token: string) =>
+  POST(
+    new NextRequest(`http://localhost:3000/api/notifications/unsubscribe?token=${token}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "List-Unsubscribe=One-Click",
+    })
+  );
+
+describe("POST /api/notifications/unsubscribe", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: "user-123" } as never);
+    vi.mocked(prisma.notificationPreference.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.$transaction).mockResolvedValue([]);
+  });
+
+  it("should turn off only the email's category", async () => {
+    const response = await oneClick(createUnsubscribeToken("user-123", "REMINDERS")!);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.scope).toBe("REMINDERS");
+    expect(prisma.notificationPreference.upsert).toHaveBeenCalledTimes(1);
+    expect(prisma.notificationPreference.upsert).toHaveBeenCalledWith({
+      where: { userId_category: { userId: "user-123", category: "REMINDERS" } },
+      create: { userId: "user-123", category: "REMINDERS", email: false },
+      update: { email: false },
+    });
+  });
+
+  it("should turn off every optional category from a transactional email", async () => {
+    const response = await oneClick(createUnsubscribeToken("user-123", "ALL")!);
+
+    expect(response.status).toBe(200);
+    const categories = vi
+      .mocked(prisma.notificationPreference.upsert)
+      .mock.calls.map(([args]) => args.create.category);
+    expect(categories).toEqual(["BOOKING_UPDATES", "REMINDERS", "REVIEWS", "MARKETING"]);
+  });
+
+  it("should reject a tampered link", async () => {
+    const [prefix, , signature] = createUnsubscribeToken("user-123", "MARKETING")!.split(".");
+    const payload = Buffer.from(JSON.stringify({ sub: "someone-else", scope: "MARKETING" })).toString(
+      "base64url"
+    );
+
+    const response = await oneClick(`${prefix}.${payload}.${signature}`);
+
+    expect(response.status).toBe(400);
+    expect(prisma.notificationPreference.upsert).not.toHaveBeenCalled();
+  });
+
+  it("should reject a token signed for another purpose", async () => {
+    // Local video tokens also fall back to NEXTAUTH_SECRET
+    const [, payload, signature] = createSignedToken(
+      { prefix: "local", secretEnv: "LOCAL_VIDEO_SECRET", devSecret: "linglix-local-video" },
+      { sub: "user-123", scope: "MARKETING" }
+    )!.split(".");
+
+    const response = await oneClick(`${UNSUBSCRIBE_TOKEN_PREFIX}.${payload}.${signature}`);
+
+    expect(response.status).toBe(400);
+    expect(prisma.notificationPreference.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for Complete Onboarding API Route
+ *
+ * Tests student onboarding with the languages they're learning including:
+ * - Each language is saved with its own level, goal and schedule
+ * - The primary language is mirrored on the student profile
+ * - The same language can't be added twice
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/onboarding/complete/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    studentProfile: {
+      upsert: vi.fn(),
+    },
+    studentLanguage: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/config/auth", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/email", () => ({
+  sendWelcomeEmail: vi.fn().mockResolvedValue({ success: true, id: "email-123" }),
+  deliverQueuedEmails: vi.fn(),
+}));
+
+const spanish = {
+  language: "Spanish",
+  level: "intermediate",
+  learningGoal: "business",
+  preferredSchedule: "evening",
+};
+
+const japanese = {
+  language: "Japanese",
+  level: "beginner",
+  learningGoal: "travel",
+  preferredSchedule: "flexible",
+};
+
+describe("POST /api/onboarding/complete", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { auth } = await import("@/config/auth");
+    vi.mocked(auth).mockResolvedValue({ user: { id: "student-123" } } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      id: "student-123",
+      email: "student@test.com",
+      name: "Student",
+    } as never);
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((callback: (tx: typeof prisma) => unknown) => callback(prisma)) as never
+    );
+    vi.mocked(prisma.studentProfile.upsert).mockResolvedValue({ id: "profile-123" } as never);
+  });
+
+  it("saves each language and mirrors the primary one on the profile", async () => {
+    const request = createMockRequest("POST", {
+      role: "STUDENT",
+      data: { languages: [spanish, japanese] },
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    expect(prisma.studentProfile.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          learningGoal: "business",
+          currentLevel: "intermediate",
+          preferredSchedule: "evening",
+          motivation: null,
+        },
+      })
+    );
+    expect(prisma.studentLanguage.createMany).toHaveBeenCalledWith({
+      data: [
+        { studentProfileId: "profile-123", ...spanish, position: 0 },
+        { studentProfileId: "profile-123", ...japanese, position: 1 },
+      ],
+    });
+  });
+
+  it("rejects the same language added twice", async () => {
+    const request = createMockRequest("POST", {
+      role: "STUDENT",
+      data: { languages: [spanish, { ...japanese, language: "spanish" }] },
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(400);
+    expect(prisma.studentProfile.upsert).not.toHaveBeenCalled();
+  });
+});
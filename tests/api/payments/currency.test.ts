@@ -0,0 +1,106 @@
+/**
+ * Tests for Multi-Currency Checkout
+ *
+ * Tests charging students in their own currency including:
+ * - Currency derived from the student's locale
+ * - Profile preference overriding the locale
+ * - Zero-decimal currencies charged in whole units
+ * - Falling back to USD when no exchange rate is stored
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/payments/credits/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { getStripeClient } from "@/lib/stripe/client";
+import { Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    exchangeRate: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/stripe/client", () => ({
+  getStripeClient: vi.fn(),
+  isStripeConfigured: vi.fn().mockReturnValue(true),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireRole: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const RATES: Record<string, number> = { eur: 0.92, jpy: 150 };
+
+describe("POST /api/payments/credits (currency)", () => {
+  const createSession = vi.fn();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireRole } = await import("@/lib/auth");
+    vi.mocked(requireRole).mockResolvedValue({
+      id: "student-123",
+      email: "student@test.com",
+      name: "Test Student",
+      role: Role.STUDENT,
+    });
+
+    createSession.mockResolvedValue({ id: "cs_test_123", url: "https://checkout.stripe.com/test" });
+    vi.mocked(getStripeClient).mockReturnValue({
+      checkout: { sessions: { create: createSession } },
+    } as never);
+
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ currency: null } as never);
+    vi.mocked(prisma.exchangeRate.findUnique).mockImplementation((async ({
+      where,
+    }: {
+      where: { currency: string };
+    }) => (RATES[where.currency] !== undefined ? { rate: RATES[where.currency] } : null)) as never);
+  });
+
+  const getLineItem = () => createSession.mock.calls[0][0].line_items[0].price_data;
+
+  it("should charge in the currency of the student's locale", async () => {
+    // 5-hour bundle: $142.50 -> €131.10
+    const response = await POST(
+      createMockRequest("POST", { bundleId: "5-hours" }, { "x-locale": "fr" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(getLineItem()).toMatchObject({ currency: "eur", unit_amount: 13110 });
+  });
+
+  it("should prefer the currency set on the student's profile", async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ currency: "jpy" } as never);
+
+    // Yen has no minor unit: $142.50 -> ¥21,375
+    const response = await POST(
+      createMockRequest("POST", { bundleId: "5-hours" }, { "x-locale": "fr" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(getLineItem()).toMatchObject({ currency: "jpy", unit_amount: 21375 });
+  });
+
+  it("should fall back to USD when no rate is stored", async () => {
+    const response = await POST(
+      createMockRequest("POST", { bundleId: "5-hours" }, { "x-locale": "pt" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(getLineItem()).toMatchObject({ currency: "usd", unit_amount: 14250 });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for Tutor Payouts
+ *
+ * Tests releasing held payouts (admin) including:
+ * - Cleared earnings are transferred to the tutor's connected account
+ * - Failed transfers release the earnings for the next batch
+ * - Transfers with an unknown outcome stay pending and are retried with the same key
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/admin/tutors/[tutorId]/payouts/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { getStripeClient } from "@/lib/stripe/client";
+import { PayoutStatus, Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    tutorProfile: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    earningEntry: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    payout: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/stripe/client", () => ({
+  getStripeClient: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireRole: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("POST /api/admin/tutors/[tutorId]/payouts", () => {
+  const transfersCreate = vi.fn();
+  const transfersList = vi.fn();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireRole } = await import("@/lib/auth");
+    vi.mocked(requireRole).mockResolvedValue({
+      id: "admin-123",
+      email: "admin@test.com",
+      name: "Admin",
+      role: Role.ADMIN,
+    });
+    vi.mocked(getStripeClient).mockReturnValue({
+      transfers: { create: transfersCreate, list: transfersList },
+    } as never);
+
+    vi.mocked(prisma.tutorProfile.findUnique).mockResolvedValue({
+      id: "tutor-123",
+      stripeAccountId: "acct_123",
+      payoutsEnabled: true,
+      payoutsHeld: false,
+    } as never);
+    vi.mocked(prisma.tutorProfile.update).mockResolvedValue({
+      id: "tutor-123",
+      payoutsEnabled: true,
+      payoutsHeld: false,
+      payoutHoldReason: null,
+    } as never);
+    vi.mocked(prisma.earningEntry.findMany).mockResolvedValue([
+      { id: "entry-1", amount: 15 },
+      { id: "entry-2", amount: 7.5 },
+    ] as never);
+    vi.mocked(prisma.earningEntry.updateMany).mockResolvedValue({ count: 2 });
+    vi.mocked(prisma.payout.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.payout.create).mockResolvedValue({
+      id: "payout-123",
+      tutorId: "tutor-123",
+      amount: 22.5,
+      currency: "usd",
+    } as never);
+    vi.mocked(prisma.$transaction).mockImplementation(((
+      arg: ((tx: typeof prisma) => unknown) | Promise<unknown>[]
+    ) => (typeof arg === "function" ? arg(prisma) : Promise.all(arg))) as never);
+  });
+
+  it("should transfer cleared earnings when payouts are released", async () => {
+    transfersCreate.mockResolvedValue({ id: "tr_123" });
+
+    const request = createMockRequest("POST", { action: "release" });
+    const response = await POST(request, {
+      params: Promise.resolve({ tutorId: "tutor-user-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.payout).toEqual({ success: true, payoutId: "payout-123", amount: 22.5 });
+    expect(prisma.tutorProfile.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { payoutsHeld: false, payoutHoldReason: null },
+      })
+    );
+    expect(prisma.earningEntry.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["entry-1", "entry-2"] }, payoutId: null },
+      data: { payoutId: "payout-123" },
+    });
+    expect(transfersCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 2250,
+        destination: "acct_123",
+      }),
+      { idempotencyKey: "payout-payout-123" }
+    );
+    expect(prisma.payout.update).toHaveBeenCalledWith({
+      where: { id: "payout-123" },
+      data: expect.objectContaining({
+        status: PayoutStatus.PAID,
+        stripeTransferId: "tr_123",
+      }),
+    });
+  });
+
+  it("should release earnings for the next batch when the transfer fails", async () => {
+    transfersCreate.mockRejectedValue(
+      Object.assign(new Error("Insufficient platform balance"), {
+        type: "StripeInvalidRequestError",
+      })
+    );
+
+    const request = createMockRequest("POST", { action: "release" });
+    const response = await POST(request, {
+      params: Promise.resolve({ tutorId: "tutor-user-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.payout.success).toBe(false);
+    expect(prisma.payout.update).toHaveBeenCalledWith({
+      where: { id: "payout-123" },
+      data: {
+        status: PayoutStatus.FAILED,
+        failureReason: "Insufficient platform balance",
+      },
+    });
+    expect(prisma.earningEntry.updateMany).toHaveBeenCalledWith({
+      where: { payoutId: "payout-123" },
+      data: { payoutId: null },
+    });
+  });
+
+  it("should keep the batch pending when the transfer outcome is unknown", async () => {
+    transfersCreate.mockRejectedValue(
+      Object.assign(new Error("Request timed out"), { type: "StripeConnectionError" })
+    );
+
+    const request = createMockRequest("POST", { action: "release" });
+    const response = await POST(request, {
+      params: Promise.resolve({ tutorId: "tutor-user-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.payout.success).toBe(false);
+    expect(prisma.payout.update).toHaveBeenCalledWith({
+      where: { id: "payout-123" },
+      data: { failureReason: "Request timed out" },
+    });
+    expect(prisma.earningEntry.updateMany).not.toHaveBeenCalledWith({
+      where: { payoutId: "payout-123" },
+      data: { payoutId: null },
+    });
+  });
+
+  it("should settle a pending batch with the same idempotency key before a new one", async () => {
+    vi.mocked(prisma.payout.findFirst).mockResolvedValue({
+      id: "payout-pending",
+      tutorId: "tutor-123",
+      amount: 22.5,
+      currency: "usd",
+    } as never);
+    transfersList.mockResolvedValue({ data: [] });
+    transfersCreate.mockResolvedValue({ id: "tr_456" });
+
+    const request = createMockRequest("POST", { action: "release" });
+    const response = await POST(request, {
+      params: Promise.resolve({ tutorId: "tutor-user-123" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.payout).toEqual({ success: true, payoutId: "payout-pending", amount: 22.5 });
+    expect(prisma.payout.create).not.toHaveBeenCalled();
+    expect(transfersCreate).toHaveBeenCalledWith(expect.objectContaining({ amount: 2250 }), {
+      idempotencyKey: "payout-payout-pending",
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for Session Assessment API Route
+ *
+ * Tests tutors assessing a student's CEFR level after a session including:
+ * - The assessment updates the student's level, milestones and goals
+ * - Only the session's tutor can assess
+ * - Only completed sessions can be assessed
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PUT } from "@/app/api/bookings/[id]/assessment/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role, BookingStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    booking: {
+      findUnique: vi.fn(),
+    },
+    skillAssessment: {
+      upsert: vi.fn(),
+    },
+    studentProfile: {
+      updateMany: vi.fn(),
+    },
+    studentLanguage: {
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    goalMilestone: {
+      updateMany: vi.fn(),
+    },
+    progressGoal: {
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const params = Promise.resolve({ id: "booking-123" });
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+const tutor = { id: "tutor-user-123", email: "tutor@test.com", name: "Tutor", role: Role.TUTOR };
+
+const assessment = {
+  language: "Spanish",
+  level: "B1",
+  speaking: "B1",
+  listening: "B2",
+  grammar: "A2",
+  vocabulary: "B1",
+  comment: "Great progress with the past tenses",
+};
+
+function mockBooking(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.booking.findUnique).mockResolvedValue({
+    id: "booking-123",
+    studentId: "student-123",
+    tutorId: "tutor-123",
+    status: BookingStatus.COMPLETED,
+    tutor: { id: "tutor-123", userId: "tutor-user-123", languagesTaught: ["Spanish"] },
+    assessment: null,
+    ...overrides,
+  } as never);
+}
+
+async function signInAs(user: typeof student | typeof tutor) {
+  const { requireAuth } = await import("@/lib/auth");
+  vi.mocked(requireAuth).mockResolvedValue(user);
+}
+
+describe("PUT /api/bookings/[id]/assessment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockBooking();
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((callback: (tx: typeof prisma) => unknown) => callback(prisma)) as never
+    );
+    vi.mocked(prisma.skillAssessment.upsert).mockResolvedValue({
+      id: "assessment-123",
+      ...assessment,
+    } as never);
+    vi.mocked(prisma.progressGoal.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.studentLanguage.findFirst).mockResolvedValue({ language: "Spanish" } as never);
+  });
+
+  it("saves the assessment and updates the student's progress", async () => {
+    await signInAs(tutor);
+
+    const request = createMockRequest("PUT", assessment);
+    const response = await PUT(request, { params });
+
+    expect(response.status).toBe(200);
+    expect(prisma.skillAssessment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { bookingId: "booking-123" },
+        create: expect.objectContaining({ studentId: "student-123", tutorId: "tutor-123", level: "B1" }),
+      })
+    );
+    expect(prisma.studentLanguage.updateMany).toHaveBeenCalledWith({
+      where: {
+        studentProfile: { userId: "student-123" },
+        language: { equals: "Spanish", mode: "insensitive" },
+      },
+      data: { level: "intermediate" },
+    });
+    expect(prisma.studentProfile.updateMany).toHaveBeenCalledWith({
+      where: { userId: "student-123" },
+      data: { currentLevel: "intermediate" },
+    });
+    expect(prisma.goalMilestone.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ level: { in: ["A1", "A2", "B1"] } }),
+      })
+    );
+    expect(prisma.progressGoal.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ studentId: "student-123", targetLevel: { in: ["A1", "A2", "B1"] } }),
+      })
+    );
+  });
+
+  it("doesn't allow the student to assess themselves", async () => {
+    await signInAs(student);
+
+    const request = createMockRequest("PUT", assessment);
+    const response = await PUT(request, { params });
+
+    expect(response.status).toBe(403);
+    expect(prisma.skillAssessment.upsert).not.toHaveBeenCalled();
+  });
+
+  it("rejects sessions that haven't been completed", async () => {
+    await signInAs(tutor);
+    mockBooking({ status: BookingStatus.CONFIRMED });
+
+    const request = createMockRequest("PUT", assessment);
+    const response = await PUT(request, { params });
+
+    expect(response.status).toBe(400);
+    expect(prisma.skillAssessment.upsert).not.toHaveBeenCalled();
+  });
+});
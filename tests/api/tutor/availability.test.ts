@@ -0,0 +1,133 @@
+/**
+ * Tests for Tutor Availability API Route
+ *
+ * Tests saving weekly availability including:
+ * - Multiple slots per day
+ * - Overlap detection across overnight slots and timezones
+ * - Merging overlapping slots
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/tutor/availability/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    availability: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/config/auth", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function mockExistingSlots(
+  slots: Array<{ id: string; dayOfWeek: number; startTime: string; endTime: string; timezone: string }>
+) {
+  vi.mocked(prisma.availability.findMany).mockResolvedValue(
+    slots.map((slot) => ({ tutorId: "tutor-123", isActive: true, ...slot })) as never
+  );
+}
+
+describe("POST /api/tutor/availability", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    const { auth } = await import("@/config/auth");
+    vi.mocked(auth).mockResolvedValue({ user: { id: "tutor-user-123" } } as never);
+
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      id: "tutor-user-123",
+      role: Role.TUTOR,
+      tutorProfile: { id: "tutor-123" },
+    } as never);
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((callback: (tx: typeof prisma) => unknown) => callback(prisma)) as never
+    );
+    vi.mocked(prisma.availability.create).mockImplementation(
+      (({ data }: { data: object }) => Promise.resolve({ id: "avail-new", ...data })) as never
+    );
+  });
+
+  it("should allow a second slot on the same day", async () => {
+    mockExistingSlots([
+      { id: "avail-1", dayOfWeek: 1, startTime: "08:00", endTime: "11:00", timezone: "UTC" },
+    ]);
+
+    const response = await POST(
+      createMockRequest("POST", { dayOfWeek: 1, startTime: "18:00", endTime: "21:00" })
+    );
+
+    expect(response.status).toBe(201);
+    expect(prisma.availability.create).toHaveBeenCalled();
+  });
+
+  it("should reject a slot overlapping an overnight slot from the previous day", async () => {
+    // Sunday 22:00 - Monday 02:00
+    mockExistingSlots([
+      { id: "avail-1", dayOfWeek: 0, startTime: "22:00", endTime: "02:00", timezone: "UTC" },
+    ]);
+
+    const response = await POST(
+      createMockRequest("POST", { dayOfWeek: 1, startTime: "01:00", endTime: "03:00" })
+    );
+
+    expect(response.status).toBe(409);
+    expect(prisma.availability.create).not.toHaveBeenCalled();
+  });
+
+  it("should reject a slot overlapping a slot saved in another timezone", async () => {
+    // Monday 09:00-12:00 in Madrid is 07:00-10:00 or 08:00-11:00 UTC, depending on DST
+    mockExistingSlots([
+      { id: "avail-1", dayOfWeek: 1, startTime: "09:00", endTime: "12:00", timezone: "Europe/Madrid" },
+    ]);
+
+    const response = await POST(
+      createMockRequest("POST", { dayOfWeek: 1, startTime: "09:00", endTime: "09:30" })
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it("should merge overlapping slots on the same day when requested", async () => {
+    mockExistingSlots([
+      { id: "avail-1", dayOfWeek: 1, startTime: "08:00", endTime: "11:00", timezone: "UTC" },
+      { id: "avail-2", dayOfWeek: 1, startTime: "12:00", endTime: "14:00", timezone: "UTC" },
+    ]);
+
+    const response = await POST(
+      createMockRequest("POST", {
+        dayOfWeek: 1,
+        startTime: "10:00",
+        endTime: "12:00",
+        merge: true,
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(prisma.availability.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ["avail-1", "avail-2"] } },
+    });
+    expect(data.availability.startTime).toBe("08:00");
+    expect(data.availability.endTime).toBe("14:00");
+  });
+});
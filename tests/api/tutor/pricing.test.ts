@@ -0,0 +1,132 @@
+/**
+ * Tests for Tutor Pricing API Route
+ *
+ * Tests updating tutor pricing including:
+ * - Rates outside the admin bounds are rejected
+ * - Duration tiers are checked as hourly equivalents
+ * - Valid tiers replace the existing ones
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PUT } from "@/app/api/tutor/pricing/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    tutorProfile: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    tutorPriceTier: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    pricingSettings: {
+      findUnique: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireRole: vi.fn(),
+}));
+
+vi.mock("@/lib/cache", () => ({
+  invalidateCache: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("PUT /api/tutor/pricing", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireRole } = await import("@/lib/auth");
+    vi.mocked(requireRole).mockResolvedValue({
+      id: "tutor-user-123",
+      email: "tutor@test.com",
+      name: "Tutor",
+      role: Role.TUTOR,
+    });
+
+    vi.mocked(prisma.tutorProfile.findUnique).mockResolvedValue({ id: "tutor-123" } as never);
+    vi.mocked(prisma.pricingSettings.findUnique).mockResolvedValue({
+      minHourlyRate: 20,
+      maxHourlyRate: 60,
+    } as never);
+    vi.mocked(prisma.tutorProfile.update).mockResolvedValue({
+      hourlyRate: 40,
+      trialPrice: 10,
+      priceTiers: [{ duration: 30, price: 22 }],
+    } as never);
+    vi.mocked(prisma.$transaction).mockImplementation(
+      ((callback: (tx: typeof prisma) => unknown) => callback(prisma)) as never
+    );
+  });
+
+  it("should reject an hourly rate outside the bounds", async () => {
+    const response = await PUT(createMockRequest("PUT", { hourlyRate: 80 }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain("between $20 and $60");
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should reject a tier whose hourly equivalent is out of bounds", async () => {
+    // $35 for 30 minutes = $70/hour
+    const response = await PUT(
+      createMockRequest("PUT", {
+        hourlyRate: 40,
+        priceTiers: [{ duration: 30, price: 35 }],
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.tutorPriceTier.createMany).not.toHaveBeenCalled();
+  });
+
+  it("should reject a trial price that is not a discount", async () => {
+    const response = await PUT(
+      createMockRequest("PUT", {
+        hourlyRate: 40,
+        priceTiers: [{ duration: 30, price: 22 }],
+        trialPrice: 22,
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should replace the tiers and return the prices per duration", async () => {
+    const response = await PUT(
+      createMockRequest("PUT", {
+        hourlyRate: 40,
+        priceTiers: [{ duration: 30, price: 22 }],
+        trialPrice: 10,
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(prisma.tutorPriceTier.deleteMany).toHaveBeenCalledWith({
+      where: { tutorId: "tutor-123" },
+    });
+    expect(prisma.tutorPriceTier.createMany).toHaveBeenCalledWith({
+      data: [{ tutorId: "tutor-123", duration: 30, price: 22 }],
+    });
+    expect(data.priceOptions).toEqual([
+      { duration: 30, price: 22 },
+      { duration: 60, price: 40 },
+      { duration: 90, price: 60 },
+    ]);
+  });
+});
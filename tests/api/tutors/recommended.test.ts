@@ -0,0 +1,160 @@
+/**
+ * Tests for Recommended Tutors API Route
+ *
+ * Tests scoring tutors against the student's preferences including:
+ * - Tutors are ranked by score with a breakdown and reasons
+ * - Tutors the student rated poorly are excluded
+ * - Students must complete onboarding first
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "@/app/api/tutors/recommended/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { prisma } from "@/lib/db/prisma";
+import { requireAuth } from "@/lib/auth";
+import { Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    studentProfile: {
+      findUnique: vi.fn(),
+    },
+    booking: {
+      findMany: vi.fn(),
+    },
+    review: {
+      findMany: vi.fn(),
+    },
+    tutorProfile: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/cache", () => ({
+  CacheConfig: { RECOMMENDED_TUTORS: { ttl: 300, keyPrefix: "tutors:recommended" } },
+  generateCacheKey: (...parts: string[]) => parts.join(":"),
+  getOrSetCache: (_key: string, fetcher: () => Promise<unknown>) => fetcher(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const student = { id: "student-123", email: "student@test.com", name: "Student", role: Role.STUDENT };
+
+const studentProfile = {
+  userId: student.id,
+  learningGoal: "business",
+  currentLevel: "intermediate",
+  preferredSchedule: "evening",
+  motivation: "I work in healthcare and need Spanish with patients",
+  languages: [
+    {
+      language: "Spanish",
+      level: "intermediate",
+      learningGoal: "business",
+      preferredSchedule: "evening",
+    },
+  ],
+};
+
+// Available every evening (UTC)
+const eveningAvailability = Array.from({ length: 7 }, (_, dayOfWeek) => ({
+  dayOfWeek,
+  startTime: "18:00",
+  endTime: "22:00",
+  timezone: "UTC",
+  isActive: true,
+}));
+
+const createTutor = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  user: { id: `${id}-user`, name: `Tutor ${id}`, image: null },
+  languagesTaught: ["Spanish"],
+  specialties: [],
+  preferredLevels: [],
+  industryFamiliarity: [],
+  hourlyRate: 30,
+  rating: 4,
+  totalSessions: 10,
+  bio: null,
+  availability: [],
+  availabilityExceptions: [],
+  ...overrides,
+});
+
+describe("GET /api/tutors/recommended", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(requireAuth).mockResolvedValue(student as never);
+    vi.mocked(prisma.studentProfile.findUnique).mockResolvedValue(studentProfile as never);
+    vi.mocked(prisma.booking.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.review.findMany).mockResolvedValue([]);
+  });
+
+  it("should rank tutors by score and explain why", async () => {
+    vi.mocked(prisma.tutorProfile.findMany).mockResolvedValue([
+      createTutor("generic"),
+      createTutor("match", {
+        preferredLevels: ["intermediate"],
+        industryFamiliarity: ["healthcare"],
+        availability: eveningAvailability,
+      }),
+    ] as never);
+
+    const response = await GET(createMockRequest("GET"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.tutors.map((tutor: { id: string }) => tutor.id)).toEqual([
+      "match-user",
+      "generic-user",
+    ]);
+
+    const [best] = data.tutors;
+    expect(best.score).toBeGreaterThan(data.tutors[1].score);
+    expect(best.scoreBreakdown).toContainEqual(
+      expect.objectContaining({ factor: "industry", score: 10, maxScore: 10, detail: "healthcare" })
+    );
+    expect(best.reasons).toEqual(
+      expect.arrayContaining(["language", "level", "schedule", "industry"])
+    );
+  });
+
+  it("should exclude tutors the student rated poorly", async () => {
+    vi.mocked(prisma.booking.findMany).mockResolvedValue([
+      { tutorId: "disliked", price: 30, duration: 60 },
+    ] as never);
+    vi.mocked(prisma.review.findMany).mockResolvedValueOnce([
+      { tutorId: "disliked", rating: 1 },
+    ] as never);
+    vi.mocked(prisma.tutorProfile.findMany).mockResolvedValue([createTutor("other")] as never);
+
+    const response = await GET(createMockRequest("GET"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.tutorProfile.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ id: { notIn: ["disliked"] } }),
+      })
+    );
+  });
+
+  it("should require a student profile", async () => {
+    vi.mocked(prisma.studentProfile.findUnique).mockResolvedValue(null);
+
+    const response = await GET(createMockRequest("GET"));
+
+    expect(response.status).toBe(404);
+    expect(prisma.tutorProfile.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for Video Token API Route
+ *
+ * Tests video provider selection including:
+ * - Local loopback tokens when Stream isn't configured
+ * - Stream tokens when Stream credentials are set
+ * - Explicit provider configuration
+ * - The local provider is refused in production
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "@/app/api/video/token/route";
+import { createMockRequest } from "@/tests/utils/test-helpers";
+import { verifyLocalToken } from "@/lib/video";
+import { Role } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@stream-io/node-sdk", () => ({
+  StreamClient: vi.fn().mockImplementation(function () {
+    return { generateUserToken: vi.fn().mockReturnValue("stream-token") };
+  }),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const user = { id: "user-123", email: "user@test.com", name: "User", role: Role.STUDENT };
+
+describe("GET /api/video/token", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { requireAuth } = await import("@/lib/auth");
+    vi.mocked(requireAuth).mockResolvedValue(user);
+
+    vi.stubEnv("VIDEO_PROVIDER", "");
+    vi.stubEnv("NEXT_PUBLIC_STREAM_API_KEY", "");
+    vi.stubEnv("STREAM_SECRET_KEY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should issue local tokens when Stream is not configured", async () => {
+    const response = await GET(createMockRequest("GET"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.provider).toBe("local");
+    expect(verifyLocalToken(data.token)).toBe("user-123");
+    expect(verifyLocalToken(`${data.token}x`)).toBeNull();
+  });
+
+  it("should issue Stream tokens when Stream credentials are set", async () => {
+    vi.stubEnv("NEXT_PUBLIC_STREAM_API_KEY", "stream-key");
+    vi.stubEnv("STREAM_SECRET_KEY", "stream-secret");
+
+    const response = await GET(createMockRequest("GET"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ token: "stream-token", provider: "stream" });
+  });
+
+  it("should use the configured provider even without its credentials", async () => {
+    vi.stubEnv("VIDEO_PROVIDER", "stream");
+
+    const response = await GET(createMockRequest("GET"));
+
+    expect(response.status).toBe(500);
+  });
+
+  it("should refuse the local provider in production", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("VIDEO_PROVIDER", "local");
+    vi.stubEnv("NEXT_PUBLIC_STREAM_API_KEY", "stream-key");
+    vi.stubEnv("STREAM_SECRET_KEY", "stream-secret");
+
+    const response = await GET(createMockRequest("GET"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ token: "stream-token", provider: "stream" });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for Video Call Webhook API Route
+ *
+ * Tests server-side call lifecycle tracking including:
+ * - Stream events require a valid signature
+ * - Participant joins are recorded per participant
+ * - Bookings complete when the call ends and both parties attended
+ * - Bookings stay open when only one party attended
+ * - Events reported by users outside the booking are rejected
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/video/webhook/route";
+import { createLocalToken } from "@/lib/video";
+import { prisma } from "@/lib/db/prisma";
+import { BookingStatus } from "@prisma/client";
+
+// Mock dependencies
+vi.mock("@stream-io/node-sdk", () => ({
+  StreamClient: vi.fn().mockImplementation(function () {
+    return { verifyWebhook: vi.fn().mockReturnValue(false) };
+  }),
+}));
+
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: {
+    booking: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    callAttendance: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/booking/reviews", () => ({
+  recalculateTutorStats: vi.fn(),
+}));
+
+vi.mock("@/lib/booking/earnings", () => ({
+  recordSessionEarning: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const booking = {
+  id: "booking-123",
+  studentId: "student-123",
+  tutorId: "tutor-123",
+  status: BookingStatus.CONFIRMED,
+  callId: "booking-booking-123",
+  callStartedAt: null,
+  callEndedAt: null,
+  tutor: { userId: "tutor-user-123" },
+};
+
+function createEventRequest(event: Record<string, unknown>, userId = "student-123") {
+  return new NextRequest("http://localhost:3000/api/video/webhook", {
+    method: "POST",
+    body: JSON.stringify(event),
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${createLocalToken(userId)}`,
+    },
+  });
+}
+
+describe("POST /api/video/webhook", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("VIDEO_PROVIDER", "local");
+
+    vi.mocked(prisma.booking.findFirst).mockResolvedValue(booking as never);
+    vi.mocked(prisma.booking.update).mockImplementation((async ({ data }: { data: object }) => ({
+      ...booking,
+      ...data,
+    })) as never);
+    vi.mocked(prisma.booking.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.callAttendance.findFirst).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should reject Stream events with an invalid signature", async () => {
+    vi.stubEnv("VIDEO_PROVIDER", "stream");
+    vi.stubEnv("NEXT_PUBLIC_STREAM_API_KEY", "stream-key");
+    vi.stubEnv("STREAM_SECRET_KEY", "stream-secret");
+
+    const request = new NextRequest("http://localhost:3000/api/video/webhook", {
+      method: "POST",
+      body: JSON.stringify({ type: "call.session_ended", call_cid: "default:booking-booking-123" }),
+      headers: { "x-signature": "forged" },
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(401);
+    expect(prisma.booking.update).not.toHaveBeenCalled();
+  });
+
+  it("should record a participant joining the call", async () => {
+    const response = await POST(
+      createEventRequest({
+        type: "participant.joined",
+        callId: "booking-booking-123",
+        userId: "student-123",
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.callAttendance.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ bookingId: "booking-123", userId: "student-123" }),
+    });
+    expect(prisma.booking.update).toHaveBeenCalledWith({
+      where: { id: "booking-123" },
+      data: { callStartedAt: expect.any(Date) },
+    });
+  });
+
+  it("should complete the booking when both parties attended", async () => {
+    const { recordSessionEarning } = await import("@/lib/booking/earnings");
+    const joinedAt = new Date(Date.now() - 60 * 60 * 1000);
+    vi.mocked(prisma.callAttendance.findMany).mockResolvedValue([
+      { userId: "student-123", joinedAt, leftAt: new Date(joinedAt.getTime() + 50 * 60 * 1000) },
+      { userId: "tutor-user-123", joinedAt: new Date(joinedAt.getTime() + 5 * 60 * 1000), leftAt: null },
+    ] as never);
+
+    const response = await POST(
+      createEventRequest({ type: "call.ended", callId: "booking-booking-123" }, "tutor-user-123")
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+      where: { id: "booking-123", status: BookingStatus.CONFIRMED },
+      data: { status: BookingStatus.COMPLETED },
+    });
+    expect(prisma.booking.update).toHaveBeenCalledWith({
+      where: { id: "booking-123" },
+      data: { callEndedAt: expect.any(Date), attendedMinutes: 45 },
+    });
+    expect(recordSessionEarning).toHaveBeenCalled();
+  });
+
+  it("should not record earnings again when the booking was already completed", async () => {
+    const { recordSessionEarning } = await import("@/lib/booking/earnings");
+    const joinedAt = new Date(Date.now() - 60 * 60 * 1000);
+    vi.mocked(prisma.callAttendance.findMany).mockResolvedValue([
+      { userId: "student-123", joinedAt, leftAt: null },
+      { userId: "tutor-user-123", joinedAt, leftAt: null },
+    ] as never);
+    // The tutor's end-call completed it first
+    vi.mocked(prisma.booking.updateMany).mockResolvedValue({ count: 0 });
+
+    const response = await POST(
+      createEventRequest({ type: "call.ended", callId: "booking-booking-123" }, "tutor-user-123")
+    );
+
+    expect(response.status).toBe(200);
+    expect(recordSessionEarning).not.toHaveBeenCalled();
+  });
+
+  it("should not complete the booking when only one party attended", async () => {
+    const { recordSessionEarning } = await import("@/lib/booking/earnings");
+    vi.mocked(prisma.callAttendance.findMany).mockResolvedValue([
+      { userId: "student-123", joinedAt: new Date(Date.now() - 30 * 60 * 1000), leftAt: new Date() },
+    ] as never);
+
+    const response = await POST(
+      createEventRequest({ type: "call.ended", callId: "booking-booking-123" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.booking.update).toHaveBeenCalledWith({
+      where: { id: "booking-123" },
+      data: { callEndedAt: expect.any(Date), attendedMinutes: 0 },
+    });
+    expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    expect(recordSessionEarning).not.toHaveBeenCalled();
+  });
+
+  it("should reject call events reported by a user outside the booking", async () => {
+    const response = await POST(
+      createEventRequest({ type: "call.ended", callId: "booking-booking-123" }, "other-user")
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.callAttendance.updateMany).not.toHaveBeenCalled();
+    expect(prisma.booking.update).not.toHaveBeenCalled();
+    expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+  });
+});